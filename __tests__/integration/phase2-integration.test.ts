@@ -29,19 +29,19 @@ import {
 describe('Phase 2 Integration Tests', () => {
   
   describe('Booking State Machine', () => {
-    it('should have all 13 required states', () => {
+    it('should have all 13 required states, plus expired drafts', () => {
       const requiredStates = [
         'draft', 'hold', 'pending_provider', 'confirmed',
         'in_progress', 'completed', 'canceled_customer',
         'canceled_provider', 'no_show_customer', 'no_show_provider',
-        'refunded_partial', 'refunded_full', 'dispute'
+        'refunded_partial', 'refunded_full', 'dispute', 'expired'
       ];
       
       const actualStates = Object.values(BookingStates);
       requiredStates.forEach(state => {
         expect(actualStates).toContain(state);
       });
-      expect(actualStates).toHaveLength(13);
+      expect(actualStates).toHaveLength(14);
     });
 
     it('should validate state transitions correctly', () => {
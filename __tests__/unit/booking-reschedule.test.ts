@@ -0,0 +1,97 @@
+/**
+ * Booking Reschedule Test Suite
+ * Tests the reschedule deadline, surge re-pricing and slot validation
+ * rules used when a customer moves a booking
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: {} }));
+jest.mock('@/lib/stripe-enhanced', () => ({
+  stripe: {},
+  createRefundWithIdempotency: jest.fn(),
+}));
+jest.mock('@/lib/waitlist', () => ({
+  waitlistService: { offerNext: jest.fn() },
+  targetFromBooking: jest.fn(),
+}));
+
+import {
+  findRescheduleSlot,
+  repriceForMove,
+  rescheduleDeadline,
+  RescheduleError,
+} from '@/lib/bookings/reschedule-service';
+import type { AvailabilitySlot } from '@/lib/availability/slot-generator';
+
+function slot(startTime: string, startsAt: string, remainingCapacity: number): AvailabilitySlot {
+  const start = new Date(startsAt);
+  return {
+    date: '2025-03-12',
+    startTime,
+    endTime: '',
+    startsAt: start.toISOString(),
+    endsAt: new Date(start.getTime() + 60 * 60 * 1000).toISOString(),
+    timezone: 'America/New_York',
+    available: remainingCapacity > 0,
+    capacity: 1,
+    remainingCapacity,
+    providerId: 'provider-1',
+  };
+}
+
+describe('rescheduleDeadline', () => {
+  it('should close the window cancellationHours before the start', () => {
+    const startsAt = new Date('2025-03-12T14:00:00Z');
+    expect(rescheduleDeadline(startsAt, 24).toISOString()).toBe('2025-03-11T14:00:00.000Z');
+    expect(rescheduleDeadline(startsAt, 0)).toEqual(startsAt);
+  });
+});
+
+describe('repriceForMove', () => {
+  it('should keep the booked price when the surge does not change', () => {
+    expect(repriceForMove(80)).toBe(80);
+    expect(repriceForMove(80, 1.5, 1.5)).toBe(80);
+  });
+
+  it('should apply only the change in surge multiplier', () => {
+    expect(repriceForMove(100, 1, 1.5)).toBe(150);
+    expect(repriceForMove(150, 1.5, 1)).toBe(100);
+    expect(repriceForMove(99.99, 1, 1.25)).toBe(124.99);
+  });
+});
+
+describe('findRescheduleSlot', () => {
+  const current = {
+    startsAt: new Date('2025-03-12T13:00:00Z'),
+    endsAt: new Date('2025-03-12T14:00:00Z'),
+  };
+
+  it('should accept a slot with free capacity', () => {
+    const slots = [slot('15:00', '2025-03-12T19:00:00Z', 1)];
+    expect(findRescheduleSlot(slots, { date: '2025-03-12', startTime: '15:00' }, current)).toBe(slots[0]);
+  });
+
+  it('should reject a full slot elsewhere in the day', () => {
+    const slots = [slot('15:00', '2025-03-12T19:00:00Z', 0)];
+    expect(findRescheduleSlot(slots, { date: '2025-03-12', startTime: '15:00' }, current)).toBeNull();
+  });
+
+  it('should count the booking\'s own seat when the new slot overlaps it', () => {
+    const slots = [slot('09:30', '2025-03-12T13:30:00Z', 0)];
+    expect(findRescheduleSlot(slots, { date: '2025-03-12', startTime: '09:30' }, current)).toBe(slots[0]);
+  });
+
+  it('should reject times the generator did not offer', () => {
+    expect(findRescheduleSlot([], { date: '2025-03-12', startTime: '15:00' }, current)).toBeNull();
+  });
+});
+
+describe('RescheduleError', () => {
+  it('should map codes to HTTP statuses', () => {
+    expect(new RescheduleError('late', 'DEADLINE_PASSED').status).toBe(422);
+    expect(new RescheduleError('taken', 'SLOT_UNAVAILABLE').status).toBe(409);
+    expect(new RescheduleError('pay', 'PAYMENT_REQUIRED').status).toBe(402);
+    expect(new RescheduleError('nope', 'FORBIDDEN').status).toBe(403);
+  });
+});
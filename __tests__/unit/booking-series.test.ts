@@ -0,0 +1,155 @@
+/**
+ * Booking Series Test Suite
+ * Tests recurrence building and expansion for recurring bookings,
+ * including monthly weekday ordinals, COUNT/UNTIL and DST transitions, and
+ * the retry schedule for failed occurrence charges
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: {} }));
+jest.mock('@/lib/stripe-enhanced', () => ({
+  stripe: {},
+  createRefundWithIdempotency: jest.fn(),
+}));
+jest.mock('@/lib/waitlist', () => ({
+  waitlistService: { handleCancellation: jest.fn() },
+}));
+jest.mock('@/lib/notifications/notification-service', () => ({
+  notificationService: { sendSeriesPaymentFailedNotification: jest.fn() },
+}));
+
+import {
+  buildSeriesRecurrence,
+  expandSeries,
+  formatSeriesRRule,
+  hasOccurrencesAfter,
+} from '@/lib/bookings/series-recurrence';
+import { nextChargeAttemptAt } from '@/lib/bookings/booking-series-service';
+
+const TZ = 'America/New_York';
+const RANGE_START = new Date('2025-01-01T00:00:00Z');
+const RANGE_END = new Date('2026-01-01T00:00:00Z');
+
+describe('buildSeriesRecurrence', () => {
+  it('should anchor weekly series on the start date weekday', () => {
+    const recurrence = buildSeriesRecurrence({
+      frequency: 'weekly',
+      startDate: '2025-03-04', // Tuesday
+      startTime: '09:30',
+      durationMinutes: 60,
+      count: 4,
+    });
+
+    expect(recurrence.dayOfWeek).toBe(2);
+    expect(recurrence.startMinute).toBe(570);
+    expect(recurrence.endMinute).toBe(630);
+    expect(recurrence.weekOfMonth).toBeUndefined();
+  });
+
+  it('should treat a fifth weekday as the last one of the month', () => {
+    const recurrence = buildSeriesRecurrence({
+      frequency: 'monthly',
+      startDate: '2025-01-31', // 5th Friday
+      startTime: '10:00',
+      durationMinutes: 30,
+      count: 3,
+    });
+
+    expect(recurrence.weekOfMonth).toBe(-1);
+    expect(formatSeriesRRule(recurrence)).toBe('FREQ=MONTHLY;INTERVAL=1;BYDAY=-1FR;COUNT=3');
+  });
+});
+
+describe('expandSeries', () => {
+  it('should expand weekly series up to COUNT', () => {
+    const recurrence = buildSeriesRecurrence({
+      frequency: 'weekly',
+      startDate: '2025-03-04',
+      startTime: '09:00',
+      durationMinutes: 60,
+      count: 3,
+    });
+
+    const dates = expandSeries(recurrence, TZ, RANGE_START, RANGE_END).map(o => o.date);
+    expect(dates).toEqual(['2025-03-04', '2025-03-11', '2025-03-18']);
+  });
+
+  it('should keep the wall-clock time across a DST transition', () => {
+    const recurrence = buildSeriesRecurrence({
+      frequency: 'weekly',
+      startDate: '2025-03-04',
+      startTime: '09:00',
+      durationMinutes: 60,
+      count: 2,
+    });
+
+    const [before, after] = expandSeries(recurrence, TZ, RANGE_START, RANGE_END);
+    expect(before.startTime).toBe('09:00');
+    expect(after.startTime).toBe('09:00');
+    expect(after.endTime).toBe('10:00');
+    expect(before.startsAt.toISOString()).toBe('2025-03-04T14:00:00.000Z');
+    expect(after.startsAt.toISOString()).toBe('2025-03-11T13:00:00.000Z');
+  });
+
+  it('should skip alternate weeks for biweekly series and stop at UNTIL', () => {
+    const recurrence = buildSeriesRecurrence({
+      frequency: 'biweekly',
+      startDate: '2025-03-03',
+      startTime: '18:00',
+      durationMinutes: 45,
+      until: '2025-03-31',
+    });
+
+    const dates = expandSeries(recurrence, TZ, RANGE_START, RANGE_END).map(o => o.date);
+    expect(dates).toEqual(['2025-03-03', '2025-03-17', '2025-03-31']);
+  });
+
+  it('should repeat monthly series on the same weekday ordinal', () => {
+    const recurrence = buildSeriesRecurrence({
+      frequency: 'monthly',
+      startDate: '2025-01-14', // 2nd Tuesday
+      startTime: '11:00',
+      durationMinutes: 60,
+      count: 3,
+    });
+
+    const dates = expandSeries(recurrence, TZ, RANGE_START, RANGE_END).map(o => o.date);
+    expect(dates).toEqual(['2025-01-14', '2025-02-11', '2025-03-11']);
+  });
+
+  it('should count occurrences from the first date, not the range start', () => {
+    const recurrence = buildSeriesRecurrence({
+      frequency: 'weekly',
+      startDate: '2025-03-04',
+      startTime: '09:00',
+      durationMinutes: 60,
+      count: 3,
+    });
+
+    const dates = expandSeries(recurrence, TZ, new Date('2025-03-10T00:00:00Z'), RANGE_END).map(o => o.date);
+    expect(dates).toEqual(['2025-03-11', '2025-03-18']);
+    expect(hasOccurrencesAfter(recurrence, TZ, new Date('2025-03-19T00:00:00Z'))).toBe(false);
+  });
+});
+
+describe('nextChargeAttemptAt', () => {
+  const HOUR = 60 * 60 * 1000;
+  const now = new Date('2025-03-01T09:00:00Z');
+  const startsAt = new Date(now.getTime() + 48 * HOUR);
+
+  it('should back off further after each failed attempt', () => {
+    expect(nextChargeAttemptAt(1, startsAt, now)).toEqual(new Date(now.getTime() + 2 * HOUR));
+    expect(nextChargeAttemptAt(2, startsAt, now)).toEqual(new Date(now.getTime() + 8 * HOUR));
+    expect(nextChargeAttemptAt(3, startsAt, now)).toEqual(new Date(now.getTime() + 24 * HOUR));
+  });
+
+  it('should stop once retries run out', () => {
+    expect(nextChargeAttemptAt(4, startsAt, now)).toBeNull();
+  });
+
+  it('should not retry inside the release window before the start', () => {
+    const soon = new Date(now.getTime() + 20 * HOUR);
+    expect(nextChargeAttemptAt(2, soon, now)).toBeNull();
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Booking State Engine Test Suite
+ * Tests status normalization, timeout deadlines and the event lookup
+ * used by the persisted booking state engine, and the refunds and
+ * PaymentIntent cancellations fired by timeouts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: { select: jest.fn(), transaction: jest.fn() } }));
+jest.mock('@/lib/waitlist', () => ({
+  waitlistService: { handleCancellation: jest.fn() },
+}));
+jest.mock('@/lib/notifications/notification-service', () => ({
+  notificationService: { sendBookingStatusChangedNotification: jest.fn() },
+}));
+jest.mock('@/lib/bookings/cancellation-policy-service', () => ({
+  cancellationPolicyService: { refundInFull: jest.fn() },
+}));
+jest.mock('@/lib/stripe-enhanced', () => ({
+  stripe: { paymentIntents: { cancel: jest.fn() } },
+}));
+
+import {
+  BookingStates,
+  TransitionEvents,
+  ValidTransitions,
+  toBookingState,
+  isBookingState,
+  stateExpiresAt,
+  initialBookingState,
+  eventsBetween,
+  STATE_TIMEOUT_EVENTS,
+  BookingTransitionError,
+  bookingStateEngine,
+} from '@/lib/booking-state-machine';
+import { bookingStatus } from '@/db/schema/bookings-schema';
+import { db } from '@/db/db';
+import { cancellationPolicyService } from '@/lib/bookings/cancellation-policy-service';
+import { stripe } from '@/lib/stripe-enhanced';
+
+describe('toBookingState', () => {
+  it('should pass canonical states through', () => {
+    expect(toBookingState('pending_provider')).toBe(BookingStates.PENDING_PROVIDER);
+    expect(toBookingState('refunded_full')).toBe(BookingStates.REFUNDED_FULL);
+  });
+
+  it('should map statuses written by older code paths', () => {
+    expect(toBookingState('pending')).toBe(BookingStates.PENDING_PROVIDER);
+    expect(toBookingState('PAYMENT_SUCCEEDED')).toBe(BookingStates.CONFIRMED);
+    expect(toBookingState('cancelled')).toBe(BookingStates.CANCELED_CUSTOMER);
+    expect(toBookingState('REJECTED')).toBe(BookingStates.CANCELED_PROVIDER);
+    expect(toBookingState('no_show')).toBe(BookingStates.NO_SHOW_CUSTOMER);
+  });
+
+  it('should treat a missing status as a draft', () => {
+    expect(toBookingState(null)).toBe(BookingStates.DRAFT);
+  });
+
+  it('should reject unknown statuses', () => {
+    expect(isBookingState('archived')).toBe(false);
+    expect(() => toBookingState('archived')).toThrow('Unknown booking status');
+  });
+});
+
+describe('stateExpiresAt', () => {
+  const now = new Date('2025-03-12T14:00:00Z');
+
+  it('should stamp the maxDuration deadline for timed states', () => {
+    expect(stateExpiresAt(BookingStates.HOLD, now)?.toISOString()).toBe('2025-03-12T14:10:00.000Z');
+    expect(stateExpiresAt(BookingStates.DRAFT, now)?.toISOString()).toBe('2025-03-12T14:30:00.000Z');
+    expect(stateExpiresAt(BookingStates.PENDING_PROVIDER, now)?.toISOString()).toBe('2025-03-13T14:00:00.000Z');
+  });
+
+  it('should leave untimed states without a deadline', () => {
+    expect(stateExpiresAt(BookingStates.CONFIRMED, now)).toBeNull();
+    expect(initialBookingState(BookingStates.CONFIRMED, now)).toEqual({
+      status: BookingStates.CONFIRMED,
+      stateExpiresAt: null,
+    });
+  });
+});
+
+describe('eventsBetween', () => {
+  it('should list every event that leads to the target', () => {
+    expect(eventsBetween(BookingStates.PENDING_PROVIDER, BookingStates.CANCELED_PROVIDER)).toEqual([
+      TransitionEvents.PROVIDER_REJECTS,
+      TransitionEvents.PROVIDER_TIMEOUT,
+    ]);
+  });
+
+  it('should expire abandoned drafts rather than cancel them', () => {
+    expect(eventsBetween(BookingStates.DRAFT, BookingStates.EXPIRED)).toEqual([TransitionEvents.DRAFT_EXPIRED]);
+    expect(eventsBetween(BookingStates.DRAFT, BookingStates.CANCELED_CUSTOMER)).toEqual([]);
+  });
+
+  it('should return nothing for unreachable targets', () => {
+    expect(eventsBetween(BookingStates.COMPLETED, BookingStates.HOLD)).toEqual([]);
+  });
+
+  it('should have a transition for every timeout event', () => {
+    for (const [state, event] of Object.entries(STATE_TIMEOUT_EVENTS)) {
+      expect(ValidTransitions.some(t => t.from === state && t.event === event)).toBe(true);
+    }
+  });
+});
+
+describe('bookingStatus', () => {
+  it('should store exactly the state machine states', () => {
+    expect(Object.values(bookingStatus).sort()).toEqual(Object.values(BookingStates).sort());
+  });
+});
+
+describe('BookingTransitionError', () => {
+  it('should map codes to HTTP statuses', () => {
+    expect(new BookingTransitionError('missing', 'NOT_FOUND').status).toBe(404);
+    expect(new BookingTransitionError('nope', 'FORBIDDEN').status).toBe(403);
+    expect(new BookingTransitionError('bad', 'INVALID_TRANSITION').status).toBe(409);
+  });
+});
+
+describe('sweepTimeouts', () => {
+  const now = new Date('2025-03-13T14:00:00Z');
+  const paidBooking = {
+    id: 'booking-1',
+    status: BookingStates.PENDING_PROVIDER,
+    providerId: 'provider-1',
+    customerId: 'customer-1',
+    serviceName: 'Haircut',
+    stripePaymentIntentId: 'pi_123',
+    cancellationReason: null,
+  };
+
+  // Resolves whichever terminal call ends a drizzle chain
+  const chain = (rows: unknown[]) => {
+    const query: any = {};
+    for (const method of ['from', 'where', 'orderBy', 'set', 'values']) {
+      query[method] = () => query;
+    }
+    query.limit = () => query;
+    query.for = () => Promise.resolve(rows);
+    query.returning = () => Promise.resolve(rows);
+    query.then = (resolve: any, reject: any) => Promise.resolve(rows).then(resolve, reject);
+    return query;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should refund a paid booking the provider never answered', async () => {
+    const canceled = { ...paidBooking, status: BookingStates.CANCELED_PROVIDER };
+    jest.mocked(db.select).mockReturnValue(chain([{ id: paidBooking.id, status: paidBooking.status }]) as any);
+    jest.mocked(db.transaction).mockImplementation(async (run: any) => run({
+      select: () => chain([paidBooking]),
+      update: () => chain([canceled]),
+      insert: () => chain([]),
+    }));
+    jest.mocked(cancellationPolicyService.refundInFull).mockResolvedValue({ status: 'processed' });
+
+    const result = await bookingStateEngine.sweepTimeouts(now);
+
+    expect(result).toEqual({ processed: 1, expired: 1, failed: 0 });
+    expect(cancellationPolicyService.refundInFull).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'booking-1', stripePaymentIntentId: 'pi_123' }),
+      'Provider did not respond in time'
+    );
+    expect(stripe.paymentIntents.cancel).not.toHaveBeenCalled();
+  });
+
+  it('should cancel the payment intent of a checkout whose hold expired', async () => {
+    const held = { ...paidBooking, status: BookingStates.HOLD };
+    const draft = { ...paidBooking, status: BookingStates.DRAFT };
+    jest.mocked(db.select).mockReturnValue(chain([{ id: held.id, status: held.status }]) as any);
+    jest.mocked(db.transaction).mockImplementation(async (run: any) => run({
+      select: () => chain([held]),
+      update: () => chain([draft]),
+      insert: () => chain([]),
+    }));
+
+    const result = await bookingStateEngine.sweepTimeouts(now);
+
+    expect(result).toEqual({ processed: 1, expired: 1, failed: 0 });
+    expect(stripe.paymentIntents.cancel).toHaveBeenCalledWith('pi_123', { cancellation_reason: 'abandoned' });
+    expect(cancellationPolicyService.refundInFull).not.toHaveBeenCalled();
+  });
+});
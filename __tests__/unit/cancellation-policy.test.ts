@@ -0,0 +1,202 @@
+/**
+ * Cancellation Policy Test Suite
+ * Tests tier validation, refund quotes with fee and payout reversal, and
+ * the mapping of event and space refund terms onto policy tiers, and that
+ * bookings keep the policy they were made under
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: {} }));
+jest.mock('@/lib/stripe-enhanced', () => ({
+  stripe: {},
+  createRefundWithIdempotency: jest.fn(),
+}));
+jest.mock('@/lib/waitlist', () => ({
+  waitlistService: { handleCancellation: jest.fn() },
+}));
+jest.mock('@/lib/notifications/notification-service', () => ({
+  notificationService: { sendBookingStatusChangedNotification: jest.fn() },
+}));
+
+import {
+  normalizeTiers,
+  tierAt,
+  quoteRefund,
+  tiersFromRefundTerms,
+  PLATFORM_DEFAULT_TIERS,
+  PRESET_TIERS,
+  CancellationPolicyError,
+  cancellationPolicyService,
+} from '@/lib/bookings/cancellation-policy-service';
+import type { Booking } from '@/db/schema';
+import { db } from '@/db/db';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('normalizeTiers', () => {
+  it('should sort tiers from the earliest cancellation to the latest', () => {
+    expect(normalizeTiers([
+      { hoursBefore: 24, refundPercent: 50 },
+      { hoursBefore: 72, refundPercent: 100 },
+    ])).toEqual([
+      { hoursBefore: 72, refundPercent: 100 },
+      { hoursBefore: 24, refundPercent: 50 },
+    ]);
+  });
+
+  it('should reject duplicate and growing tiers', () => {
+    expect(() => normalizeTiers([
+      { hoursBefore: 24, refundPercent: 100 },
+      { hoursBefore: 24, refundPercent: 50 },
+    ])).toThrow(CancellationPolicyError);
+    expect(() => normalizeTiers([
+      { hoursBefore: 48, refundPercent: 50 },
+      { hoursBefore: 12, refundPercent: 100 },
+    ])).toThrow('Refunds must not grow closer to the start');
+  });
+
+  it('should reject empty policies', () => {
+    expect(() => normalizeTiers([])).toThrow(CancellationPolicyError);
+  });
+});
+
+describe('tierAt', () => {
+  it('should pick the first tier the cancellation still qualifies for', () => {
+    expect(tierAt(PLATFORM_DEFAULT_TIERS, 60)?.refundPercent).toBe(100);
+    expect(tierAt(PLATFORM_DEFAULT_TIERS, 30)?.refundPercent).toBe(75);
+    expect(tierAt(PLATFORM_DEFAULT_TIERS, 6)?.refundPercent).toBe(25);
+    expect(tierAt(PLATFORM_DEFAULT_TIERS, 5.9)).toBeNull();
+  });
+});
+
+describe('quoteRefund', () => {
+  const startsAt = new Date('2025-03-12T14:00:00Z');
+  const amounts = { totalAmount: 110, platformFee: 10, providerPayout: 90 };
+
+  it('should refund in full with the whole fee and payout reversed', () => {
+    const quote = quoteRefund(PLATFORM_DEFAULT_TIERS, startsAt, new Date(startsAt.getTime() - 72 * HOUR), amounts);
+    expect(quote.refundPercent).toBe(100);
+    expect(quote.refundAmount).toBe(110);
+    expect(quote.cancellationFee).toBe(0);
+    expect(quote.platformFeeReversal).toBe(10);
+    expect(quote.providerDebit).toBe(90);
+  });
+
+  it('should reverse fee and payout in proportion to a partial refund', () => {
+    const quote = quoteRefund(PLATFORM_DEFAULT_TIERS, startsAt, new Date(startsAt.getTime() - 13 * HOUR), amounts);
+    expect(quote.refundPercent).toBe(50);
+    expect(quote.refundAmount).toBe(55);
+    expect(quote.cancellationFee).toBe(55);
+    expect(quote.platformFeeReversal).toBe(5);
+    expect(quote.providerDebit).toBe(45);
+  });
+
+  it('should debit collected tax from the provider along with their payout', () => {
+    const taxed = { totalAmount: 108.25, platformFee: 10, providerPayout: 90, taxAmount: 8.25 };
+    const full = quoteRefund(PLATFORM_DEFAULT_TIERS, startsAt, new Date(startsAt.getTime() - 72 * HOUR), taxed);
+    expect(full.providerDebit).toBe(98.25);
+    expect(full.taxReversal).toBe(8.25);
+
+    const partial = quoteRefund(PLATFORM_DEFAULT_TIERS, startsAt, new Date(startsAt.getTime() - 13 * HOUR), taxed);
+    expect(partial.refundAmount).toBe(54.13);
+    expect(partial.platformFeeReversal).toBe(5);
+    expect(partial.providerDebit).toBe(49.13);
+    expect(partial.taxReversal).toBe(4.13);
+  });
+
+  it('should refund nothing once every tier has passed', () => {
+    const quote = quoteRefund(PLATFORM_DEFAULT_TIERS, startsAt, new Date(startsAt.getTime() - HOUR), amounts);
+    expect(quote.refundAmount).toBe(0);
+    expect(quote.cancellationFee).toBe(110);
+    expect(quote.tier).toBeNull();
+  });
+});
+
+describe('tiersFromRefundTerms', () => {
+  it('should map full and partial refund hours onto tiers', () => {
+    expect(tiersFromRefundTerms('moderate', {
+      fullRefundHours: 48,
+      partialRefundHours: 24,
+      partialRefundPercent: 50,
+    })).toEqual([
+      { hoursBefore: 48, refundPercent: 100 },
+      { hoursBefore: 24, refundPercent: 50 },
+    ]);
+  });
+
+  it('should fall back to the preset without terms', () => {
+    expect(tiersFromRefundTerms('strict', null)).toBe(PRESET_TIERS.strict);
+  });
+});
+
+describe('CancellationPolicyError', () => {
+  it('should map codes to HTTP statuses', () => {
+    expect(new CancellationPolicyError('missing', 'NOT_FOUND').status).toBe(404);
+    expect(new CancellationPolicyError('nope', 'FORBIDDEN').status).toBe(403);
+    expect(new CancellationPolicyError('bad', 'INVALID_TIERS').status).toBe(422);
+  });
+});
+
+describe('resolvePolicy', () => {
+  it('should use the policy stored on the booking without reading the current one', async () => {
+    const cancellationPolicy = {
+      source: 'listing' as const,
+      policyId: 'policy-1',
+      name: 'Lenient',
+      tiers: [{ hoursBefore: 24, refundPercent: 100 }],
+    };
+    const booking = { providerId: 'provider-1', serviceId: 'service-1', cancellationPolicy } as Booking;
+
+    // db is an empty mock, so any lookup would throw
+    await expect(cancellationPolicyService.resolvePolicy(booking)).resolves.toEqual(cancellationPolicy);
+  });
+});
+
+describe('preview', () => {
+  const cancellationPolicy = {
+    source: 'platform_default' as const,
+    policyId: null,
+    name: 'standard',
+    tiers: PLATFORM_DEFAULT_TIERS,
+  };
+  const booking = {
+    id: 'booking-1',
+    customerId: 'customer-1',
+    providerId: 'provider-1',
+    status: 'confirmed',
+    bookingDate: new Date('2030-05-01T00:00:00Z'),
+    startTime: '10:00',
+    totalAmount: '100.00',
+    platformFee: '10.00',
+    providerPayout: '90.00',
+    taxAmount: '0',
+    currency: 'usd',
+    cancellationPolicy,
+  };
+
+  const withBooking = (row: Record<string, unknown>) => {
+    const query: any = {};
+    for (const method of ['from', 'innerJoin', 'where']) {
+      query[method] = () => query;
+    }
+    query.limit = () => Promise.resolve([
+      { booking: row, provider: { userId: 'provider-user', timezone: 'UTC', displayName: 'Calm Studio' } },
+    ]);
+    (db as any).select = () => query;
+  };
+
+  it('should let the customer cancel a standalone booking', async () => {
+    withBooking(booking);
+    const preview = await cancellationPolicyService.preview('booking-1', 'customer-1', new Date('2030-04-01T00:00:00Z'));
+    expect(preview.canCancel).toBe(true);
+    expect(preview.reason).toBeUndefined();
+  });
+
+  it('should send series occurrences to their series', async () => {
+    withBooking({ ...booking, seriesId: 'series-1' });
+    const preview = await cancellationPolicyService.preview('booking-1', 'customer-1', new Date('2030-04-01T00:00:00Z'));
+    expect(preview.canCancel).toBe(false);
+    expect(preview.reason).toBe('Recurring occurrences are cancelled from their series');
+  });
+});
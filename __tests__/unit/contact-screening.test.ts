@@ -0,0 +1,77 @@
+/**
+ * Contact Screening Test Suite
+ * Tests detection and masking of phone numbers, emails, payment handles
+ * and messaging links, including obfuscated variants
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { screenContactDetails, normalizeForScreening, CONTACT_MASKS } from '@/lib/security/contact-screening';
+import { stripInvisibleCharacters } from '@/lib/security/input-sanitization';
+
+function kindsIn(text: string) {
+  return screenContactDetails(text).findings.map(finding => finding.kind);
+}
+
+describe('screenContactDetails', () => {
+  it('masks plain phone numbers and emails and keeps the rest of the message', () => {
+    const result = screenContactDetails('Call me on +44 7700 900123 or mail jane.doe@example.com thanks!');
+    expect(result.findings.map(finding => finding.kind)).toEqual(['phone', 'email']);
+    expect(result.masked).toBe(
+      `Call me on ${CONTACT_MASKS.phone} or mail ${CONTACT_MASKS.email} thanks!`
+    );
+  });
+
+  it('catches spelled-out and separated phone numbers', () => {
+    expect(kindsIn('my number is five five five one two three four five six seven')).toEqual(['phone']);
+    expect(kindsIn('text (555) 123-4567 later')).toEqual(['phone']);
+    expect(kindsIn('0 7 7 0 0 9 0 0 1 2 3')).toEqual(['phone']);
+  });
+
+  it('catches full-width digits, zero-width characters and HTML between digits', () => {
+    expect(kindsIn('０７７００ ９００１２３')).toEqual(['phone']);
+    expect(kindsIn('07\u200b700\u200d900\ufeff123')).toEqual(['phone']);
+    expect(kindsIn('07700<b></b>900123')).toEqual(['phone']);
+  });
+
+  it('catches obfuscated email addresses', () => {
+    expect(kindsIn('reach me at john (at) gmail (dot) com')).toEqual(['email']);
+    expect(kindsIn('john at gmail dot com')).toEqual(['email']);
+    expect(kindsIn('john @ gmail . com')).toEqual(['email']);
+  });
+
+  it('catches payment handles, cashtags and messaging links', () => {
+    expect(kindsIn('venmo me @jane-doe')).toEqual(['payment_handle']);
+    expect(kindsIn('send it to $JaneDoe')).toEqual(['payment_handle']);
+    expect(kindsIn('paypal.me/janedoe works')).toEqual(['payment_handle']);
+    expect(kindsIn('ping me on https://wa.me/447700900123')).toEqual(['messaging_link']);
+    expect(kindsIn('t.me/janedoe')).toEqual(['messaging_link']);
+  });
+
+  it('leaves ordinary messages, prices and dates alone', () => {
+    expect(kindsIn('Can we do 2026-05-01 at 14:00? It costs $35.')).toEqual([]);
+    expect(kindsIn('I will be there at noon, one or two people')).toEqual([]);
+    expect(kindsIn('Order 12345 arrived on 01/05/2026')).toEqual([]);
+    expect(screenContactDetails('').masked).toBe('');
+  });
+
+  it('masks the original characters of an obfuscated value', () => {
+    const input = 'ok: john (at) gmail (dot) com - see you';
+    const [finding] = screenContactDetails(input).findings;
+    expect(finding.value).toBe('john (at) gmail (dot) com');
+    expect(screenContactDetails(input).masked).toBe(`ok: ${CONTACT_MASKS.email} - see you`);
+  });
+});
+
+describe('normalizeForScreening', () => {
+  it('maps every normalized character back into the input', () => {
+    const input = 'x \u200bfive';
+    const normalized = normalizeForScreening(input);
+    expect(normalized.text).toBe('x 5');
+    expect(normalized.starts).toEqual([0, 1, 3]);
+    expect(normalized.ends).toEqual([1, 2, 7]);
+  });
+
+  it('strips invisible characters through the shared sanitizer', () => {
+    expect(stripInvisibleCharacters('a\u200bb\u2060c\u00add')).toBe('abcd');
+  });
+});
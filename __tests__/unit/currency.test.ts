@@ -0,0 +1,200 @@
+/**
+ * Currency Test Suite
+ * Tests minor-unit conversion for zero-decimal currencies, per-currency
+ * Stripe minimums, formatting and FX conversion for display prices
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: {} }));
+
+import {
+  toMinorUnits,
+  fromMinorUnits,
+  minorToDecimalString,
+  minimumChargeMinor,
+  formatAmount,
+  formatMinorUnits,
+  assertSupportedCurrency,
+  normalizeCurrency,
+  CurrencyError,
+} from '@/lib/payments/currency';
+import {
+  fixtureRateTable,
+  rebaseRateTable,
+  rateBetween,
+  convertAmount,
+  convertMinorUnits,
+  toDisplayPrice,
+  type RateTable,
+} from '@/lib/payments/fx-rates';
+import { calculateFees, formatCentsToDisplay } from '@/lib/payments/fee-calculator';
+
+const rates: RateTable = {
+  base: 'usd',
+  rates: { usd: 1, eur: 0.9, jpy: 150 },
+  asOf: new Date('2026-01-02T00:00:00Z'),
+  source: 'test',
+};
+
+describe('Currency', () => {
+  describe('minor units', () => {
+    it('uses cents for two-decimal currencies', () => {
+      expect(toMinorUnits(49.99, 'usd')).toBe(4999);
+      expect(toMinorUnits('120.50', 'EUR')).toBe(12050);
+      expect(fromMinorUnits(4999, 'usd')).toBe(49.99);
+    });
+
+    it('uses whole units for zero-decimal currencies', () => {
+      expect(toMinorUnits(5000, 'jpy')).toBe(5000);
+      expect(toMinorUnits('15000.00', 'krw')).toBe(15000);
+      expect(fromMinorUnits(5000, 'JPY')).toBe(5000);
+    });
+
+    it('rounds to the nearest minor unit', () => {
+      expect(toMinorUnits(19.995, 'usd')).toBe(2000);
+      expect(toMinorUnits(99.6, 'jpy')).toBe(100);
+    });
+
+    it('writes DECIMAL strings in major units', () => {
+      expect(minorToDecimalString(4999, 'usd')).toBe('49.99');
+      expect(minorToDecimalString(5000, 'jpy')).toBe('5000.00');
+    });
+  });
+
+  describe('minimum charge', () => {
+    it('returns the Stripe minimum for the currency', () => {
+      expect(minimumChargeMinor('usd')).toBe(50);
+      expect(minimumChargeMinor('GBP')).toBe(30);
+      expect(minimumChargeMinor('jpy')).toBe(50);
+    });
+
+    it('falls back to the USD minimum for unknown currencies', () => {
+      expect(minimumChargeMinor('xyz')).toBe(50);
+    });
+  });
+
+  describe('supported currencies', () => {
+    it('normalizes codes and defaults to USD', () => {
+      expect(normalizeCurrency(' EUR ')).toBe('eur');
+      expect(normalizeCurrency(null)).toBe('usd');
+      expect(assertSupportedCurrency('JPY')).toBe('jpy');
+    });
+
+    it('rejects currencies the platform cannot settle in', () => {
+      expect(() => assertSupportedCurrency('xyz')).toThrow(CurrencyError);
+      try {
+        assertSupportedCurrency('xyz');
+      } catch (error) {
+        expect((error as CurrencyError).status).toBe(400);
+      }
+    });
+  });
+
+  describe('formatting', () => {
+    it('formats major units with the currency symbol', () => {
+      expect(formatAmount(1234.5, 'usd')).toBe('$1,234.50');
+      expect(formatAmount(1234.5, 'eur')).toBe('€1,234.50');
+      expect(formatAmount(5000, 'jpy')).toBe('¥5,000');
+    });
+
+    it('drops the fraction for whole-unit listing prices', () => {
+      expect(formatAmount(49, 'usd', { wholeUnits: true })).toBe('$49');
+    });
+
+    it('formats minor units without assuming cents', () => {
+      expect(formatMinorUnits(1000, 'usd')).toBe('$10.00');
+      expect(formatMinorUnits(1000, 'jpy')).toBe('¥1,000');
+    });
+  });
+
+  describe('fee calculator', () => {
+    it('carries the currency through the fee breakdown', () => {
+      const result = calculateFees({ baseAmountCents: 10000, isGuest: false, currency: 'JPY' });
+
+      expect(result.currency).toBe('jpy');
+      expect(result.platformFeeCents).toBe(1000);
+      expect(result.displayAmounts.baseAmount).toBe('¥10,000');
+    });
+
+    it('formats minor units in the given currency', () => {
+      expect(formatCentsToDisplay(5000, 'jpy')).toBe('¥5,000');
+      expect(formatCentsToDisplay(5000)).toBe('$50.00');
+    });
+  });
+});
+
+describe('FX Rates', () => {
+  describe('rate table', () => {
+    it('loads the bundled fixture for every supported currency', () => {
+      const table = fixtureRateTable();
+
+      expect(table.base).toBe('usd');
+      expect(table.source).toBe('fixture');
+      expect(table.rates.usd).toBe(1);
+      expect(table.rates.jpy).toBeGreaterThan(0);
+    });
+
+    it('rebases rates onto another currency', () => {
+      const rebased = rebaseRateTable(rates, 'eur');
+
+      expect(rebased.base).toBe('eur');
+      expect(rebased.rates.eur).toBe(1);
+      expect(rebased.rates.usd).toBeCloseTo(1 / 0.9, 10);
+      expect(rebased.rates.jpy).toBeCloseTo(150 / 0.9, 10);
+    });
+
+    it('computes cross rates through the base currency', () => {
+      expect(rateBetween('eur', 'jpy', rates)).toBeCloseTo(150 / 0.9, 10);
+      expect(rateBetween('usd', 'USD', rates)).toBe(1);
+    });
+
+    it('throws MISSING_RATE for unknown currencies', () => {
+      expect(() => rateBetween('usd', 'gbp', rates)).toThrow(
+        expect.objectContaining({ code: 'MISSING_RATE' })
+      );
+    });
+  });
+
+  describe('conversion', () => {
+    it('rounds to the target minor unit', () => {
+      expect(convertAmount(10, 'usd', 'eur', rates)).toBe(9);
+      expect(convertAmount(10.01, 'usd', 'jpy', rates)).toBe(1502);
+      expect(convertAmount(1000, 'jpy', 'usd', rates)).toBe(6.67);
+    });
+
+    it('converts minor units between exponents', () => {
+      expect(convertMinorUnits(1000, 'usd', 'jpy', rates)).toBe(1500);
+      expect(convertMinorUnits(1500, 'jpy', 'usd', rates)).toBe(1000);
+    });
+  });
+
+  describe('toDisplayPrice', () => {
+    it('converts into the display currency', () => {
+      const price = toDisplayPrice(100, 'usd', 'jpy', rates, { wholeUnits: true });
+
+      expect(price).toEqual({
+        amount: 15000,
+        currency: 'jpy',
+        formatted: '¥15,000',
+        converted: true,
+      });
+    });
+
+    it('keeps the listing currency when no display currency is given', () => {
+      const price = toDisplayPrice(25, 'EUR', undefined, rates);
+
+      expect(price.currency).toBe('eur');
+      expect(price.converted).toBe(false);
+      expect(price.formatted).toBe('€25.00');
+    });
+
+    it('falls back to the listing currency when a rate is missing', () => {
+      const price = toDisplayPrice(25, 'usd', 'gbp', rates);
+
+      expect(price.amount).toBe(25);
+      expect(price.currency).toBe('usd');
+      expect(price.converted).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Dispute Evidence Test Suite
+ * Tests deadline reminder thresholds, the cancellation policy disclosure
+ * and assembly of the Stripe evidence payload from booking data
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: {} }));
+jest.mock('@/lib/stripe-enhanced', () => ({
+  stripe: {},
+  createRefundWithIdempotency: jest.fn(),
+}));
+jest.mock('@/lib/waitlist', () => ({
+  waitlistService: { handleCancellation: jest.fn() },
+}));
+jest.mock('@/lib/notifications/notification-service', () => ({
+  notificationService: { sendDisputeEvidenceReminderNotification: jest.fn() },
+}));
+
+import {
+  dueReminderThresholds,
+  describeCancellationTiers,
+  assembleEvidence,
+  hoursUntilDue,
+  DisputeEvidenceError,
+  type EvidenceSources,
+} from '@/lib/payments/dispute-evidence-service';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+function sources(overrides: Partial<EvidenceSources> = {}): EvidenceSources {
+  return {
+    booking: {
+      id: 'booking-1',
+      confirmationCode: 'ABC123',
+      serviceName: 'Deep Tissue Massage',
+      bookingDate: new Date('2026-03-01T00:00:00Z'),
+      startTime: '10:00',
+      endTime: '11:00',
+      totalAmount: '120.00',
+      currency: 'usd',
+      customerNotes: null,
+    },
+    providerName: 'Calm Studio',
+    customer: { name: 'Jamie Doe', email: 'jamie@example.com' },
+    transaction: {
+      stripeChargeId: 'ch_123',
+      amount: '120.00',
+      refundAmount: null,
+      processedAt: new Date('2026-02-20T09:00:00Z'),
+    },
+    transitions: [],
+    messages: [],
+    checkIns: [],
+    cancellationTiers: null,
+    details: { files: [], notes: [] },
+    ...overrides,
+  };
+}
+
+describe('dueReminderThresholds', () => {
+  it('should return nothing while the deadline is more than a week away', () => {
+    const due = new Date(NOW.getTime() + 200 * HOUR);
+    expect(dueReminderThresholds(due, [], NOW)).toEqual([]);
+  });
+
+  it('should return each threshold once it is crossed and unsent', () => {
+    const due = new Date(NOW.getTime() + 100 * HOUR);
+    expect(dueReminderThresholds(due, [], NOW)).toEqual([168]);
+    expect(dueReminderThresholds(due, [168], NOW)).toEqual([]);
+  });
+
+  it('should fold thresholds skipped by the sweeper into one reminder', () => {
+    const due = new Date(NOW.getTime() + 12 * HOUR);
+    expect(dueReminderThresholds(due, [168], NOW)).toEqual([72, 24]);
+  });
+
+  it('should stop reminding once the deadline has passed or is unknown', () => {
+    expect(dueReminderThresholds(new Date(NOW.getTime() - HOUR), [], NOW)).toEqual([]);
+    expect(dueReminderThresholds(null, [], NOW)).toEqual([]);
+    expect(hoursUntilDue(null, NOW)).toBeNull();
+  });
+});
+
+describe('describeCancellationTiers', () => {
+  it('should list tiers from the earliest cancellation and close with no refund', () => {
+    expect(describeCancellationTiers([
+      { hoursBefore: 24, refundPercent: 50 },
+      { hoursBefore: 48, refundPercent: 100 },
+    ])).toBe([
+      'Cancel 48+ hours before the start: 100% refund',
+      'Cancel 24+ hours before the start: 50% refund',
+      'Later cancellations and no-shows: no refund',
+    ].join('\n'));
+  });
+
+  it('should not add a no-refund line when a tier covers the start time', () => {
+    expect(describeCancellationTiers([{ hoursBefore: 0, refundPercent: 25 }]))
+      .toBe('Cancel 0+ hours before the start: 25% refund');
+  });
+});
+
+describe('assembleEvidence', () => {
+  it('should describe the service, customer and receipt', () => {
+    const evidence = assembleEvidence(sources());
+
+    expect(evidence.product_description).toBe('Deep Tissue Massage with Calm Studio on 2026-03-01, 10:00-11:00');
+    expect(evidence.service_date).toBe('2026-03-01');
+    expect(evidence.customer_name).toBe('Jamie Doe');
+    expect(evidence.customer_email_address).toBe('jamie@example.com');
+    expect(evidence.uncategorized_text).toContain('Confirmation: ABC123');
+    expect(evidence.uncategorized_text).toContain('Total charged: $120.00');
+    expect(evidence.uncategorized_text).toContain('Charge: ch_123');
+    expect(evidence.access_activity_log).toBeUndefined();
+    expect(evidence.cancellation_policy_disclosure).toBeUndefined();
+  });
+
+  it('should show receipt amounts in the booking currency', () => {
+    const base = sources();
+    const evidence = assembleEvidence(sources({
+      booking: { ...base.booking, totalAmount: '120.00', currency: 'eur' },
+      transaction: { ...base.transaction!, refundAmount: '30.00' },
+    }));
+
+    expect(evidence.uncategorized_text).toContain('Total charged: €120.00');
+    expect(evidence.uncategorized_text).toContain('Refunded: €30.00');
+  });
+
+  it('should merge transitions and check-ins into one chronological log', () => {
+    const evidence = assembleEvidence(sources({
+      transitions: [
+        { fromStatus: 'confirmed', toStatus: 'completed', triggerReason: 'service_completed', createdAt: new Date('2026-03-01T11:05:00Z') },
+        { fromStatus: null, toStatus: 'confirmed', triggerReason: null, createdAt: new Date('2026-02-20T09:00:00Z') },
+      ],
+      checkIns: [{ label: 'Checked in at the venue', at: new Date('2026-03-01T09:55:00Z') }],
+    }));
+
+    expect(evidence.access_activity_log!.split('\n')).toEqual([
+      '2026-02-20T09:00:00.000Z  new -> confirmed',
+      '2026-03-01T09:55:00.000Z  Checked in at the venue',
+      '2026-03-01T11:05:00.000Z  confirmed -> completed (service_completed)',
+    ]);
+  });
+
+  it('should include the provider statement and message transcript', () => {
+    const evidence = assembleEvidence(sources({
+      messages: [
+        { from: 'customer', content: 'See you tomorrow!', createdAt: new Date('2026-02-28T18:00:00Z') },
+        { from: 'provider', content: 'Looking forward to it.', createdAt: new Date('2026-02-28T18:05:00Z') },
+      ],
+      details: {
+        files: [],
+        notes: [{ id: 'n1', body: 'The customer attended the full session.', createdBy: 'user_1', createdAt: NOW.toISOString() }],
+      },
+    }));
+
+    expect(evidence.uncategorized_text).toContain('PROVIDER STATEMENT\nThe customer attended the full session.');
+    expect(evidence.uncategorized_text).toContain('Customer: See you tomorrow!');
+    expect(evidence.uncategorized_text).toContain('Provider: Looking forward to it.');
+  });
+
+  it('should attach uploaded files and the policy disclosure', () => {
+    const evidence = assembleEvidence(sources({
+      cancellationTiers: [{ hoursBefore: 24, refundPercent: 100 }],
+      details: {
+        files: [{
+          id: 'f1',
+          stripeFileId: 'file_abc',
+          evidenceField: 'service_documentation',
+          filename: 'signed-waiver.pdf',
+          mimeType: 'application/pdf',
+          size: 1024,
+          uploadedBy: 'user_1',
+          uploadedAt: NOW.toISOString(),
+        }],
+        notes: [],
+      },
+    }));
+
+    expect(evidence.service_documentation).toBe('file_abc');
+    expect(evidence.cancellation_policy_disclosure).toContain('Cancel 24+ hours before the start: 100% refund');
+  });
+});
+
+describe('DisputeEvidenceError', () => {
+  it('should map error codes to HTTP statuses', () => {
+    expect(new DisputeEvidenceError('x', 'NOT_FOUND').status).toBe(404);
+    expect(new DisputeEvidenceError('x', 'FORBIDDEN').status).toBe(403);
+    expect(new DisputeEvidenceError('x', 'NOT_OPEN').status).toBe(409);
+    expect(new DisputeEvidenceError('x', 'DEADLINE_PASSED').status).toBe(422);
+  });
+});
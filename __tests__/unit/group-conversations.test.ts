@@ -0,0 +1,35 @@
+/**
+ * Group Conversations Test Suite
+ * Tests who a group thread message is screened against
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: {} }));
+jest.mock('@/lib/supabase/service', () => ({ createServiceClient: jest.fn() }));
+jest.mock('@/lib/messaging/realtime', () => ({ publishConversationEvent: jest.fn() }));
+
+import { screeningCounterpart } from '@/lib/messaging/message-service';
+
+const groupThread = [
+  { userId: 'organizer', role: 'organizer' as const },
+  { userId: 'guest-1', role: 'participant' as const },
+  { userId: 'guest-2', role: 'participant' as const },
+  { userId: 'provider', role: 'provider' as const },
+];
+
+describe('screeningCounterpart', () => {
+  it('screens customers in a group thread against the provider', () => {
+    expect(screeningCounterpart(groupThread, 'organizer')).toBe('provider');
+    expect(screeningCounterpart(groupThread, 'guest-2')).toBe('provider');
+  });
+
+  it('screens the provider against the organizer', () => {
+    expect(screeningCounterpart(groupThread, 'provider')).toBe('organizer');
+  });
+
+  it('has no counterpart when the thread has no provider', () => {
+    const withoutProvider = groupThread.filter(participant => participant.role !== 'provider');
+    expect(screeningCounterpart(withoutProvider, 'guest-1')).toBeNull();
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * iCalendar Test Suite
+ * Tests feed serialization, .ics parsing, RRULE/EXDATE expansion across DST,
+ * blocked slot mapping and feed token signing
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildCalendar, parseCalendar, expandEvents, IcsParseError } from '@/lib/calendar/ics';
+import { splitIntoDayBlocks } from '@/lib/calendar/blocked-slots';
+import { createFeedToken, verifyFeedToken, buildFeedUrls } from '@/lib/calendar/feed-token';
+
+const wrap = (body: string) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Test//EN', body, 'END:VCALENDAR'].join('\r\n');
+
+describe('buildCalendar', () => {
+  it('should serialize events with escaped text and CRLF line endings', () => {
+    const ics = buildCalendar(
+      [{
+        uid: 'booking-1@ecosystem',
+        start: new Date('2025-03-10T14:00:00Z'),
+        end: new Date('2025-03-10T15:00:00Z'),
+        summary: 'Haircut; trim, wash',
+      }],
+      { name: 'Test feed' }
+    );
+
+    expect(ics).toContain('BEGIN:VCALENDAR\r\n');
+    expect(ics).toContain('DTSTART:20250310T140000Z');
+    expect(ics).toContain('DTEND:20250310T150000Z');
+    expect(ics).toContain('SUMMARY:Haircut\\; trim\\, wash');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('should fold long lines at 75 octets', () => {
+    const ics = buildCalendar(
+      [{
+        uid: 'long@ecosystem',
+        start: new Date('2025-03-10T14:00:00Z'),
+        end: new Date('2025-03-10T15:00:00Z'),
+        summary: 'x'.repeat(200),
+      }],
+      { name: 'Test feed' }
+    );
+
+    for (const line of ics.split('\r\n')) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    }
+  });
+
+  it('should round-trip through the parser', () => {
+    const ics = buildCalendar(
+      [
+        {
+          uid: 'a@ecosystem',
+          start: new Date('2025-03-10T14:00:00Z'),
+          end: new Date('2025-03-10T15:30:00Z'),
+          summary: 'Consultation',
+        },
+        {
+          uid: 'b@ecosystem',
+          start: new Date('2025-03-12T00:00:00Z'),
+          end: new Date('2025-03-13T00:00:00Z'),
+          allDay: true,
+          summary: 'Vacation',
+        },
+      ],
+      { name: 'Round trip' }
+    );
+
+    const events = parseCalendar(ics, 'UTC');
+    expect(events).toHaveLength(2);
+    expect(events[0].start.toISOString()).toBe('2025-03-10T14:00:00.000Z');
+    expect(events[0].end.toISOString()).toBe('2025-03-10T15:30:00.000Z');
+    expect(events[1].allDay).toBe(true);
+    expect(events[1].summary).toBe('Vacation');
+  });
+});
+
+describe('parseCalendar', () => {
+  it('should reject documents without a VCALENDAR', () => {
+    expect(() => parseCalendar('hello world')).toThrow(IcsParseError);
+  });
+
+  it('should resolve TZID, floating and folded values', () => {
+    const events = parseCalendar(wrap([
+      'BEGIN:VEVENT',
+      'UID:tz-1',
+      'DTSTART;TZID=America/Los_Angeles:20250701T090000',
+      'DTEND;TZID=America/Los_Angeles:20250701T100000',
+      'SUMMARY:Long',
+      '  folded summary',
+      'BEGIN:VALARM',
+      'TRIGGER:-PT15M',
+      'END:VALARM',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:floating-1',
+      'DTSTART:20250701T090000',
+      'DURATION:PT45M',
+      'END:VEVENT',
+    ].join('\r\n')), 'America/New_York');
+
+    expect(events[0].start.toISOString()).toBe('2025-07-01T16:00:00.000Z');
+    expect(events[0].summary).toBe('Long folded summary');
+    expect(events[1].start.toISOString()).toBe('2025-07-01T13:00:00.000Z');
+    expect(events[1].end.toISOString()).toBe('2025-07-01T13:45:00.000Z');
+  });
+});
+
+describe('expandEvents', () => {
+  const rangeStart = new Date('2025-03-01T00:00:00Z');
+  const rangeEnd = new Date('2025-04-01T00:00:00Z');
+
+  it('should keep weekly occurrences at the same wall-clock time across DST', () => {
+    const events = parseCalendar(wrap([
+      'BEGIN:VEVENT',
+      'UID:weekly-1',
+      'DTSTART;TZID=America/New_York:20250303T090000',
+      'DTEND;TZID=America/New_York:20250303T100000',
+      'RRULE:FREQ=WEEKLY;COUNT=3',
+      'END:VEVENT',
+    ].join('\r\n')));
+
+    const occurrences = expandEvents(events, rangeStart, rangeEnd);
+    expect(occurrences.map(o => o.start.toISOString())).toEqual([
+      '2025-03-03T14:00:00.000Z', // EST
+      '2025-03-10T13:00:00.000Z', // EDT after March 9
+      '2025-03-17T13:00:00.000Z',
+    ]);
+    expect(occurrences[1].end.toISOString()).toBe('2025-03-10T14:00:00.000Z');
+  });
+
+  it('should honour BYDAY, UNTIL and EXDATE', () => {
+    const events = parseCalendar(wrap([
+      'BEGIN:VEVENT',
+      'UID:byday-1',
+      'DTSTART:20250303T170000Z',
+      'DTEND:20250303T180000Z',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20250312T235959Z',
+      'EXDATE:20250305T170000Z',
+      'END:VEVENT',
+    ].join('\r\n')));
+
+    const occurrences = expandEvents(events, rangeStart, rangeEnd);
+    expect(occurrences.map(o => o.start.toISOString().slice(0, 10))).toEqual([
+      '2025-03-03',
+      '2025-03-10',
+      '2025-03-12',
+    ]);
+  });
+
+  it('should reach the range for rules that started long ago', () => {
+    const events = parseCalendar(wrap([
+      'BEGIN:VEVENT',
+      'UID:daily-old',
+      'DTSTART:20100101T090000Z',
+      'DTEND:20100101T100000Z',
+      'RRULE:FREQ=DAILY',
+      'END:VEVENT',
+    ].join('\r\n')));
+
+    const occurrences = expandEvents(events, rangeStart, rangeEnd);
+    expect(occurrences).toHaveLength(31);
+    expect(occurrences[0].start.toISOString()).toBe('2025-03-01T09:00:00.000Z');
+  });
+
+  it('should count occurrences before the range towards COUNT', () => {
+    const events = parseCalendar(wrap([
+      'BEGIN:VEVENT',
+      'UID:daily-count',
+      'DTSTART:20120101T090000Z',
+      'DTEND:20120101T100000Z',
+      'RRULE:FREQ=DAILY;COUNT=5268', // Last occurrence on 2026-06-03
+      'END:VEVENT',
+    ].join('\r\n')));
+
+    const occurrences = expandEvents(events, new Date('2026-06-01T00:00:00Z'), new Date('2026-06-08T00:00:00Z'));
+    expect(occurrences.map(o => o.start.toISOString().slice(0, 10))).toEqual([
+      '2026-06-01',
+      '2026-06-02',
+      '2026-06-03',
+    ]);
+  });
+
+  it('should expand monthly ordinal weekdays', () => {
+    const events = parseCalendar(wrap([
+      'BEGIN:VEVENT',
+      'UID:monthly-1',
+      'DTSTART:20250101T150000Z',
+      'DTEND:20250101T160000Z',
+      'RRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=3',
+      'END:VEVENT',
+    ].join('\r\n')));
+
+    const occurrences = expandEvents(events, new Date('2025-01-01T00:00:00Z'), new Date('2025-12-31T00:00:00Z'));
+    expect(occurrences.map(o => o.start.toISOString().slice(0, 10))).toEqual([
+      '2025-01-31',
+      '2025-02-28',
+      '2025-03-28',
+    ]);
+  });
+
+  it('should replace overridden instances and drop cancelled or free events', () => {
+    const events = parseCalendar(wrap([
+      'BEGIN:VEVENT',
+      'UID:series-1',
+      'DTSTART:20250303T170000Z',
+      'DTEND:20250303T180000Z',
+      'RRULE:FREQ=DAILY;COUNT=2',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:series-1',
+      'RECURRENCE-ID:20250304T170000Z',
+      'DTSTART:20250304T190000Z',
+      'DTEND:20250304T200000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:cancelled-1',
+      'DTSTART:20250305T170000Z',
+      'DTEND:20250305T180000Z',
+      'STATUS:CANCELLED',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:free-1',
+      'DTSTART:20250306T170000Z',
+      'DTEND:20250306T180000Z',
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    ].join('\r\n')));
+
+    const occurrences = expandEvents(events, rangeStart, rangeEnd);
+    expect(occurrences.map(o => o.start.toISOString())).toEqual([
+      '2025-03-03T17:00:00.000Z',
+      '2025-03-04T19:00:00.000Z',
+    ]);
+  });
+});
+
+describe('splitIntoDayBlocks', () => {
+  it('should split overnight events into per-day partial blocks', () => {
+    const blocks = splitIntoDayBlocks(
+      {
+        uid: 'overnight',
+        start: new Date('2025-07-01T02:00:00Z'), // 22:00 EDT on June 30
+        end: new Date('2025-07-01T06:00:00Z'), // 02:00 EDT on July 1
+        allDay: false,
+      },
+      'America/New_York'
+    );
+
+    expect(blocks).toEqual([
+      { date: '2025-06-30', startTime: '22:00', endTime: '23:59' },
+      { date: '2025-07-01', startTime: '00:00', endTime: '02:00' },
+    ]);
+  });
+
+  it('should turn fully covered days into full-day blocks', () => {
+    const [event] = parseCalendar(wrap([
+      'BEGIN:VEVENT',
+      'UID:vacation',
+      'DTSTART;VALUE=DATE:20250310',
+      'DTEND;VALUE=DATE:20250312',
+      'END:VEVENT',
+    ].join('\r\n')), 'America/New_York');
+
+    const [occurrence] = expandEvents([event], rangeStartOf('2025-03-01'), rangeStartOf('2025-04-01'));
+    expect(splitIntoDayBlocks(occurrence, 'America/New_York')).toEqual([
+      { date: '2025-03-10', startTime: null, endTime: null },
+      { date: '2025-03-11', startTime: null, endTime: null },
+    ]);
+  });
+});
+
+describe('feed tokens', () => {
+  it('should verify tokens only for the provider they were issued to', () => {
+    const token = createFeedToken('provider-1', 0);
+
+    expect(verifyFeedToken('provider-1', 0, token)).toBe(true);
+    expect(verifyFeedToken('provider-2', 0, token)).toBe(false);
+    expect(verifyFeedToken('provider-1', 0, null)).toBe(false);
+    expect(verifyFeedToken('provider-1', 0, 'tampered')).toBe(false);
+  });
+
+  it('should stop accepting tokens once the feed is reset', () => {
+    const token = createFeedToken('provider-1', 0);
+
+    expect(verifyFeedToken('provider-1', 1, token)).toBe(false);
+    expect(verifyFeedToken('provider-1', 1, createFeedToken('provider-1', 1))).toBe(true);
+  });
+
+  it('should build https and webcal subscription URLs', () => {
+    const urls = buildFeedUrls('provider-1', 0, 'https://example.com/');
+
+    expect(urls.feedUrl).toMatch(/^https:\/\/example\.com\/api\/providers\/provider-1\/calendar\/feed\?token=/);
+    expect(urls.webcalUrl).toMatch(/^webcal:\/\/example\.com\//);
+  });
+});
+
+function rangeStartOf(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
@@ -0,0 +1,156 @@
+/**
+ * Message Attachments Test Suite
+ * Tests content-based MIME detection, the built-in malware signatures,
+ * and validation and summaries of structured message cards
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: {} }));
+jest.mock('@/lib/supabase/service', () => ({ createServiceClient: jest.fn() }));
+jest.mock('@/lib/messaging/realtime', () => ({ publishConversationEvent: jest.fn() }));
+
+import {
+  sniffMimeType,
+  findThreatSignature,
+  validateAttachment,
+  AttachmentError,
+} from '@/lib/messaging/attachment-validation';
+import {
+  parseStructuredMessage,
+  quoteTotal,
+  summarizeStructuredMessage,
+  summarizeAttachments,
+} from '@/lib/messaging/structured-messages';
+import { resolveMessageType } from '@/lib/messaging/message-service';
+
+const PNG = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  Buffer.alloc(32, 1),
+]);
+const PDF = Buffer.from('%PDF-1.7\n1 0 obj << /Type /Catalog >> endobj\n%%EOF');
+const EICAR = Buffer.from(
+  'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*'
+);
+
+async function codeOf(upload: { data: Buffer; fileName: string; declaredType: string }) {
+  try {
+    await validateAttachment(upload);
+  } catch (error) {
+    return (error as AttachmentError).code;
+  }
+  return undefined;
+}
+
+describe('sniffMimeType', () => {
+  it('detects images and PDFs from their leading bytes', () => {
+    expect(sniffMimeType(PNG)).toBe('image/png');
+    expect(sniffMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0]))).toBe('image/jpeg');
+    expect(sniffMimeType(PDF)).toBe('application/pdf');
+  });
+
+  it('tells Word and Excel documents apart by their parts', () => {
+    const zip = (name: string) => Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from(name)]);
+    expect(sniffMimeType(zip('word/document.xml'))).toContain('wordprocessingml');
+    expect(sniffMimeType(zip('xl/workbook.xml'))).toContain('spreadsheetml');
+    expect(sniffMimeType(zip('payload.exe'))).toBeNull();
+  });
+
+  it('treats UTF-8 text as plain text or CSV and rejects binary', () => {
+    expect(sniffMimeType(Buffer.from('name,price\nCut,35\n'), 'text/csv')).toBe('text/csv');
+    expect(sniffMimeType(Buffer.from('Bring your own towel'))).toBe('text/plain');
+    expect(sniffMimeType(Buffer.from([0x00, 0x01, 0x02, 0x03]))).toBeNull();
+  });
+});
+
+describe('findThreatSignature', () => {
+  it('flags the EICAR test file and executables', () => {
+    expect(findThreatSignature(EICAR, 'text/plain')).toBe('EICAR test file');
+    expect(findThreatSignature(Buffer.from('MZ\x90\x00'), 'application/pdf')).toBe('Windows executable');
+  });
+
+  it('flags PDFs with JavaScript and documents with macros', () => {
+    const activePdf = Buffer.from('%PDF-1.7\n<< /OpenAction << /S /JavaScript /JS (app.alert(1)) >> >>');
+    expect(findThreatSignature(activePdf, 'application/pdf')).toBe('PDF with active content');
+    const macroDoc = Buffer.from('PK\x03\x04word/document.xml word/vbaProject.bin');
+    expect(findThreatSignature(
+      macroDoc,
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    )).toBe('Office macro');
+  });
+
+  it('passes ordinary files', () => {
+    expect(findThreatSignature(PNG, 'image/png')).toBeNull();
+    expect(findThreatSignature(PDF, 'application/pdf')).toBeNull();
+  });
+});
+
+describe('validateAttachment', () => {
+  it('accepts a photo and reports how it was scanned', async () => {
+    await expect(validateAttachment({ data: PNG, fileName: 'before.png', declaredType: 'image/png' }))
+      .resolves.toEqual({
+        fileName: 'before.png',
+        mimeType: 'image/png',
+        kind: 'image',
+        sizeBytes: PNG.length,
+        scanEngine: 'signatures',
+      });
+  });
+
+  it('rejects files whose contents do not match their name or type', async () => {
+    expect(await codeOf({ data: PDF, fileName: 'photo.png', declaredType: 'image/png' })).toBe('TYPE_MISMATCH');
+    expect(await codeOf({ data: PNG, fileName: 'quote.pdf', declaredType: 'application/pdf' })).toBe('TYPE_MISMATCH');
+  });
+
+  it('rejects empty, oversized, unsupported and infected files', async () => {
+    expect(await codeOf({ data: Buffer.alloc(0), fileName: 'a.txt', declaredType: 'text/plain' })).toBe('EMPTY_FILE');
+    expect(await codeOf({ data: Buffer.alloc(11 * 1024 * 1024, 0x61), fileName: 'a.txt', declaredType: 'text/plain' }))
+      .toBe('TOO_LARGE');
+    expect(await codeOf({ data: Buffer.from([0x00, 0x01]), fileName: 'a.bin', declaredType: '' }))
+      .toBe('UNSUPPORTED_TYPE');
+    expect(await codeOf({ data: EICAR, fileName: 'eicar.txt', declaredType: 'text/plain' })).toBe('MALWARE_DETECTED');
+  });
+});
+
+describe('structured messages', () => {
+  it('totals quote line items', () => {
+    expect(quoteTotal([
+      { description: 'Labour', quantity: 3, unitPrice: 45 },
+      { description: 'Parts', quantity: 1, unitPrice: 19.99 },
+    ])).toBe(154.99);
+  });
+
+  it('validates a quote and stores its computed total', () => {
+    const metadata = parseStructuredMessage('quote', {
+      title: 'Bathroom retile',
+      lineItems: [{ description: 'Tiling', quantity: 2, unitPrice: 120 }],
+      currency: 'EUR',
+      total: 1, // Ignored; always recomputed
+    });
+    expect(metadata).toMatchObject({ type: 'quote', quote: { currency: 'eur', total: 240 } });
+    expect(summarizeStructuredMessage(metadata)).toBe('Quote: Bathroom retile - €240.00');
+  });
+
+  it('rejects proposals that end before they start', () => {
+    expect(() => parseStructuredMessage('booking_proposal', {
+      serviceName: 'Haircut',
+      date: '2026-05-01',
+      startTime: '14:00',
+      endTime: '13:00',
+      price: 35,
+      currency: 'usd',
+    })).toThrow();
+  });
+
+  it('summarizes location pins by label', () => {
+    const metadata = parseStructuredMessage('location', { latitude: 51.5, longitude: -0.12, label: 'Studio entrance' });
+    expect(summarizeStructuredMessage(metadata)).toBe('Location: Studio entrance');
+  });
+
+  it('stores text with files as an image or file message', () => {
+    expect(resolveMessageType('text', [{ kind: 'image' }, { kind: 'image' }])).toBe('image');
+    expect(resolveMessageType('text', [{ kind: 'image' }, { kind: 'file' }])).toBe('file');
+    expect(resolveMessageType('text', [])).toBe('text');
+    expect(summarizeAttachments(['a.png', 'b.pdf'])).toBe('Sent 2 files');
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Messaging Realtime Test Suite
+ * Tests SSE framing, in-process event fan-out when Redis is not configured
+ * and per-conversation presence announcements across several open streams
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+const cache = new Map<string, Record<string, unknown>>();
+
+jest.mock('@/lib/redis', () => ({
+  redis: null,
+  cacheHGetAll: async (key: string) => cache.get(key) ?? null,
+  cacheHSet: async (key: string, field: string, value: unknown) => {
+    cache.set(key, { ...cache.get(key), [field]: value });
+    return 1;
+  },
+  cacheHDel: async (key: string, field: string) => {
+    const hash = { ...cache.get(key) };
+    const existed = field in hash;
+    delete hash[field];
+    cache.set(key, hash);
+    return existed ? 1 : 0;
+  },
+  cacheExpire: async () => 1,
+}));
+
+import {
+  formatSseEvent,
+  publishConversationEvent,
+  subscribeToConversation,
+  heartbeatPresence,
+  leavePresence,
+  isOnline,
+  realtimeTransport,
+  PRESENCE_TTL_SECONDS,
+  type ConversationEvent,
+} from '@/lib/messaging/realtime';
+
+function collect(conversationId: string) {
+  const events: ConversationEvent[] = [];
+  const unsubscribe = subscribeToConversation(conversationId, event => events.push(event));
+  return { events, unsubscribe };
+}
+
+describe('formatSseEvent', () => {
+  it('frames a named event with a JSON data line', () => {
+    expect(formatSseEvent('typing', { isTyping: true }))
+      .toBe('event: typing\ndata: {"isTyping":true}\n\n');
+  });
+});
+
+describe('in-process delivery', () => {
+  it('falls back to memory without Redis', () => {
+    expect(realtimeTransport()).toBe('memory');
+  });
+
+  it('delivers events only to subscribers of that conversation', async () => {
+    const a = collect('conv-a');
+    const b = collect('conv-b');
+
+    await publishConversationEvent({ type: 'typing', conversationId: 'conv-a', userId: 'u1', isTyping: true });
+
+    expect(a.events).toEqual([{ type: 'typing', conversationId: 'conv-a', userId: 'u1', isTyping: true }]);
+    expect(b.events).toEqual([]);
+
+    await a.unsubscribe();
+    await b.unsubscribe();
+  });
+
+  it('stops delivering after unsubscribe', async () => {
+    const a = collect('conv-c');
+    await a.unsubscribe();
+
+    await publishConversationEvent({
+      type: 'read',
+      conversationId: 'conv-c',
+      userId: 'u2',
+      lastReadMessageId: 'm1',
+      readAt: new Date().toISOString(),
+    });
+
+    expect(a.events).toEqual([]);
+  });
+});
+
+describe('presence', () => {
+  beforeEach(() => cache.clear());
+
+  it('announces a user once when they come online and again when they leave', async () => {
+    const watcher = collect('conv-p');
+
+    await heartbeatPresence('conv-p', 'u1', 'tab-1');
+    await heartbeatPresence('conv-p', 'u1', 'tab-1');
+    expect(await isOnline('u1')).toBe(true);
+
+    await leavePresence('conv-p', 'u1', 'tab-1');
+    expect(await isOnline('u1')).toBe(false);
+
+    expect(watcher.events.map(e => e.type === 'presence' && e.online)).toEqual([true, false]);
+    await watcher.unsubscribe();
+  });
+
+  it('keeps a user online while another of their streams is open', async () => {
+    const watcher = collect('conv-q');
+
+    await heartbeatPresence('conv-q', 'u1', 'tab-1');
+    await heartbeatPresence('conv-q', 'u1', 'tab-2');
+
+    await leavePresence('conv-q', 'u1', 'tab-1');
+    expect(await isOnline('u1')).toBe(true);
+
+    await leavePresence('conv-q', 'u1', 'tab-2');
+    expect(await isOnline('u1')).toBe(false);
+
+    expect(watcher.events.map(e => e.type === 'presence' && e.online)).toEqual([true, false]);
+    await watcher.unsubscribe();
+  });
+
+  it('announces leaving a conversation while the user stays online in another', async () => {
+    const inA = collect('conv-s');
+    const inB = collect('conv-t');
+
+    await heartbeatPresence('conv-s', 'u1', 'tab-1');
+    await heartbeatPresence('conv-t', 'u1', 'tab-2');
+    expect(inB.events.map(e => e.type === 'presence' && e.online)).toEqual([true]);
+
+    await leavePresence('conv-s', 'u1', 'tab-1');
+    expect(await isOnline('u1', 'conv-s')).toBe(false);
+    expect(await isOnline('u1', 'conv-t')).toBe(true);
+    expect(inA.events.map(e => e.type === 'presence' && e.online)).toEqual([true, false]);
+
+    await leavePresence('conv-t', 'u1', 'tab-2');
+    expect(inB.events.map(e => e.type === 'presence' && e.online)).toEqual([true, false]);
+
+    await inA.unsubscribe();
+    await inB.unsubscribe();
+  });
+
+  it('ignores streams that stopped heartbeating without closing', async () => {
+    const stale = Date.now() - (PRESENCE_TTL_SECONDS + 1) * 1000;
+    cache.set('messaging:presence:u1', { crashed: { conversationId: 'conv-r', seenAt: stale } });
+    expect(await isOnline('u1')).toBe(false);
+
+    await heartbeatPresence('conv-r', 'u1', 'tab-1');
+    await leavePresence('conv-r', 'u1', 'tab-1');
+    expect(await isOnline('u1')).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Provider Search Test Suite
+ * Tests the keyset pagination cursor and the full-text query built for
+ * provider search in Postgres
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: {} }));
+
+import {
+  encodeCursor,
+  decodeCursor,
+  toPrefixTsQuery,
+  ProviderSearchError,
+} from '@/lib/search/provider-search';
+
+describe('search cursor', () => {
+  const cursor = {
+    score: 0.7312345678901234,
+    id: '3f2c1d4e-5b6a-4c7d-8e9f-0a1b2c3d4e5f',
+    asOf: new Date('2026-06-01T12:00:00Z').getTime(),
+  };
+
+  it('round-trips the score exactly so the next page starts after the last hit', () => {
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it('rejects cursors that were not issued by search', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow(ProviderSearchError);
+    const forged = Buffer.from(JSON.stringify([1, "1' OR '1'='1", 0])).toString('base64url');
+    expect(() => decodeCursor(forged)).toThrow('Invalid search cursor');
+  });
+
+  it('maps an invalid cursor to a 400', () => {
+    expect(new ProviderSearchError('bad', 'INVALID_CURSOR').status).toBe(400);
+  });
+});
+
+describe('toPrefixTsQuery', () => {
+  it('matches any word of the search as a prefix', () => {
+    expect(toPrefixTsQuery('Yoga  teacher')).toBe('yoga:* | teacher:*');
+  });
+
+  it('drops tsquery operators and repeated words', () => {
+    expect(toPrefixTsQuery("yoga & !pilates | (yoga) 'x':*")).toBe('yoga:* | pilates:* | x:*');
+  });
+
+  it('is null without words', () => {
+    expect(toPrefixTsQuery(undefined)).toBeNull();
+    expect(toPrefixTsQuery(' !& ')).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Ranking Evaluation Test Suite
+ * Tests NDCG scoring of logged searches, replaying them with other ranking
+ * weights, and splitting customers between weight sets for A/B tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  dcg,
+  ndcg,
+  rerank,
+  evaluateWeightSets,
+  LOGGED_RANKING,
+  type EvaluationImpression,
+  type EvaluationSession,
+} from '@/lib/search/ranking-evaluation';
+import {
+  activeWeightSets,
+  assignWeightSet,
+  CONTROL_WEIGHT_SET,
+  RANKING_WEIGHT_SETS,
+} from '@/lib/search/ranking-experiments';
+import type { RankingWeights } from '@/lib/search/ranking-engine';
+
+const signals = (overrides: Partial<EvaluationImpression['signals']> = {}): EvaluationImpression['signals'] => ({
+  proximity: 0.5,
+  relevance: 0.5,
+  conversion: 0.5,
+  rating: 0.5,
+  freshness: 0.5,
+  verified: false,
+  ...overrides,
+});
+
+const impression = (position: number, overrides: Partial<EvaluationImpression> = {}): EvaluationImpression => ({
+  listingId: `listing-${position}`,
+  position,
+  signals: signals(),
+  clicked: false,
+  booked: false,
+  ...overrides,
+});
+
+const ratingOnly: RankingWeights = { PROXIMITY: 0, RELEVANCE: 0, CONVERSION: 0, RATING: 1, FRESHNESS: 0 };
+
+describe('dcg and ndcg', () => {
+  it('discounts gains by position', () => {
+    // (2^3 - 1)/log2(2) + (2^1 - 1)/log2(3)
+    expect(dcg([3, 1])).toBeCloseTo(7 + 1 / Math.log2(3));
+  });
+
+  it('only counts the top k', () => {
+    expect(dcg([0, 0, 3], 2)).toBe(0);
+  });
+
+  it('is 1 for the ideal order and less otherwise', () => {
+    expect(ndcg([3, 1, 0])).toBeCloseTo(1);
+    expect(ndcg([0, 1, 3])).toBeLessThan(1);
+  });
+
+  it('is 0 without any relevant result', () => {
+    expect(ndcg([0, 0, 0])).toBe(0);
+  });
+});
+
+describe('rerank', () => {
+  it('orders impressions by their score under the weights', () => {
+    const reranked = rerank([
+      impression(1, { signals: signals({ rating: 0.2 }) }),
+      impression(2, { signals: signals({ rating: 0.9 }) }),
+    ], ratingOnly);
+
+    expect(reranked.map(item => item.position)).toEqual([2, 1]);
+  });
+
+  it('boosts verified providers', () => {
+    const reranked = rerank([
+      impression(1, { signals: signals({ rating: 0.5 }) }),
+      impression(2, { signals: signals({ rating: 0.5, verified: true }) }),
+    ], ratingOnly);
+
+    expect(reranked[0].position).toBe(2);
+  });
+
+  it('keeps the shown order for ties', () => {
+    const reranked = rerank([impression(2), impression(1), impression(3)], ratingOnly);
+
+    expect(reranked.map(item => item.position)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('evaluateWeightSets', () => {
+  const session = (impressions: EvaluationImpression[]): EvaluationSession => ({
+    searchId: 'search-1',
+    query: 'hair cut',
+    weightSet: CONTROL_WEIGHT_SET,
+    impressions,
+  });
+
+  it('scores the logged ranking first, then each weight set', () => {
+    const sessions = [session([
+      impression(1, { signals: signals({ rating: 0.1 }) }),
+      impression(2, { signals: signals({ rating: 0.9 }), clicked: true, booked: true }),
+    ])];
+
+    const results = evaluateWeightSets(sessions, { rating: ratingOnly });
+
+    expect(results.map(result => result.weightSet)).toEqual([LOGGED_RANKING, 'rating']);
+    expect(results[0].ndcg).toBeLessThan(1);
+    expect(results[1].ndcg).toBeCloseTo(1);
+    expect(results[1].sessions).toBe(1);
+  });
+
+  it('skips sessions without a click or booking', () => {
+    const results = evaluateWeightSets([session([impression(1), impression(2)])], { rating: ratingOnly });
+
+    expect(results.every(result => result.sessions === 0 && result.ndcg === 0)).toBe(true);
+  });
+});
+
+describe('ranking experiments', () => {
+  it('only serves control without an experiment', () => {
+    expect(activeWeightSets(undefined)).toEqual([CONTROL_WEIGHT_SET]);
+    expect(activeWeightSets('unknown')).toEqual([CONTROL_WEIGHT_SET]);
+  });
+
+  it('parses known weight sets from the experiment', () => {
+    expect(activeWeightSets('control, conversion_first,unknown')).toEqual([CONTROL_WEIGHT_SET, 'conversion_first']);
+  });
+
+  it('keeps a customer on the same weight set', () => {
+    const weightSets = Object.keys(RANKING_WEIGHT_SETS);
+
+    expect(assignWeightSet('user_123', weightSets)).toBe(assignWeightSet('user_123', weightSets));
+    expect(weightSets).toContain(assignWeightSet('user_123', weightSets));
+  });
+
+  it('serves control to signed-out searches during an experiment', () => {
+    expect(assignWeightSet(null, [CONTROL_WEIGHT_SET, 'rating_first'])).toBe(CONTROL_WEIGHT_SET);
+  });
+
+  it('serves a rolled-out weight set to everyone', () => {
+    expect(assignWeightSet(null, ['rating_first'])).toBe('rating_first');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Review Moderation Test Suite
+ * Tests the automated review checks: profanity, personal data and
+ * reviews of bookings cancelled before the service
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: {} }));
+
+import { findProfanity, checkReviewContent } from '@/lib/reviews/review-checks';
+import { cancelledBeforeService, ReviewModerationError } from '@/lib/reviews/review-moderation-service';
+
+describe('findProfanity', () => {
+  it('finds profanity disguised with repeated letters and look-alikes', () => {
+    expect(findProfanity('What a sh1t experience')).toEqual(['shit']);
+    expect(findProfanity('Fuuuck this place')).toEqual(['fuuuck']);
+    expect(findProfanity('The owner is an a$$hole')).toEqual(['asshole']);
+  });
+
+  it('leaves innocent words containing profanity alone', () => {
+    expect(findProfanity('Dickens fans from Scunthorpe loved the shiitake')).toEqual([]);
+  });
+});
+
+describe('checkReviewContent', () => {
+  it('passes a clean review', () => {
+    expect(checkReviewContent('Great session', 'On time and very friendly')).toEqual([]);
+  });
+
+  it('reports personal data in the title or text', () => {
+    const findings = checkReviewContent(null, 'Call her directly on 555-123-4567 instead');
+    expect(findings).toEqual([{ check: 'personal_data', detail: 'Contains phone' }]);
+  });
+
+  it('reports profanity', () => {
+    expect(checkReviewContent('Total bullshit', undefined)[0].check).toBe('profanity');
+  });
+});
+
+describe('cancelledBeforeService', () => {
+  const booking = {
+    status: 'completed',
+    cancelledAt: null,
+    bookingDate: new Date('2026-05-10T00:00:00Z'),
+    startTime: '14:00',
+  };
+
+  it('catches cancelled bookings', () => {
+    expect(cancelledBeforeService(booking)).toBe(false);
+    expect(cancelledBeforeService({ ...booking, status: 'canceled_customer' })).toBe(true);
+  });
+
+  it('compares the cancellation time against the start of the service', () => {
+    expect(cancelledBeforeService({ ...booking, cancelledAt: new Date('2026-05-10T13:00:00Z') })).toBe(true);
+    expect(cancelledBeforeService({ ...booking, cancelledAt: new Date('2026-05-10T15:00:00Z') })).toBe(false);
+  });
+});
+
+describe('ReviewModerationError', () => {
+  it('maps error codes to HTTP statuses', () => {
+    expect(new ReviewModerationError('twice', 'ALREADY_APPEALED').status).toBe(409);
+    expect(new ReviewModerationError('not yours', 'FORBIDDEN').status).toBe(403);
+  });
+});
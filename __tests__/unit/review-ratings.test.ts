@@ -0,0 +1,84 @@
+/**
+ * Review Ratings Test Suite
+ * Tests category sub-ratings per listing type and the weighted,
+ * recency-aware provider rating
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: {} }));
+jest.mock('@/lib/notifications/notification-service', () => ({
+  notificationService: {},
+}));
+jest.mock('@/lib/booking-state-machine', () => ({
+  BookingStates: { COMPLETED: 'completed', NO_SHOW_CUSTOMER: 'no_show_customer' },
+}));
+jest.mock('@/lib/supabase/service', () => ({ createServiceClient: jest.fn() }));
+
+import {
+  listingOf,
+  validateSubRatings,
+  ReviewError,
+} from '@/lib/reviews/review-service';
+import {
+  reviewWeight,
+  weightedAverageRating,
+  RATING_HALF_LIFE_DAYS,
+} from '@/lib/reviews/provider-rating';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-06-01T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+describe('listingOf', () => {
+  const booking = { bookingType: 'service', serviceId: 'svc-1', eventId: null, spaceId: null, metadata: null };
+
+  it('reviews the booked service, event or space', () => {
+    expect(listingOf(booking)).toEqual({ listingType: 'service', listingId: 'svc-1' });
+    expect(listingOf({ ...booking, bookingType: 'space', spaceId: 'space-1' }))
+      .toEqual({ listingType: 'space', listingId: 'space-1' });
+  });
+
+  it('reviews the thing for marketplace purchases', () => {
+    expect(listingOf({ ...booking, metadata: { thingId: 'thing-1' } }))
+      .toEqual({ listingType: 'thing', listingId: 'thing-1' });
+  });
+});
+
+describe('validateSubRatings', () => {
+  it('accepts the dimensions of the listing type', () => {
+    expect(validateSubRatings('space', { cleanliness: 5, value: 4 })).toEqual({ cleanliness: 5, value: 4 });
+    expect(validateSubRatings('service', undefined)).toEqual({});
+  });
+
+  it('rejects dimensions that do not apply to the listing', () => {
+    expect(() => validateSubRatings('service', { cleanliness: 5 })).toThrow(ReviewError);
+  });
+
+  it('rejects ratings outside 1-5 stars', () => {
+    expect(() => validateSubRatings('service', { punctuality: 6 })).toThrow('1 to 5 stars');
+    expect(() => validateSubRatings('service', { value: 2.5 })).toThrow(ReviewError);
+  });
+});
+
+describe('weightedAverageRating', () => {
+  it('halves the weight of a review every half-life', () => {
+    const review = { createdAt: daysAgo(RATING_HALF_LIFE_DAYS), isVerifiedBooking: true };
+    expect(reviewWeight(review, now)).toBeCloseTo(0.5);
+    expect(reviewWeight({ ...review, isVerifiedBooking: false }, now)).toBeCloseTo(0.25);
+  });
+
+  it('favours recent reviews over old ones', () => {
+    const rating = weightedAverageRating([
+      { rating: 5, createdAt: daysAgo(0), isVerifiedBooking: true },
+      { rating: 1, createdAt: daysAgo(RATING_HALF_LIFE_DAYS * 2), isVerifiedBooking: true },
+    ], now);
+
+    // Weights 1 and 0.25: (5 + 0.25) / 1.25
+    expect(rating).toBe(4.2);
+  });
+
+  it('is null without reviews', () => {
+    expect(weightedAverageRating([], now)).toBeNull();
+  });
+});
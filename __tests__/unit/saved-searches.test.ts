@@ -0,0 +1,99 @@
+/**
+ * Saved Searches Test Suite
+ * Tests matching new listings against saved searches and when searches
+ * are due for alerts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: {} }));
+jest.mock('@/lib/services/email-queue', () => ({
+  emailQueue: {},
+  EmailTemplate: { SAVED_SEARCH_DIGEST: 'saved_search_digest' },
+}));
+jest.mock('@/lib/services/notification-service', () => ({
+  notificationService: {},
+}));
+
+import {
+  matchesSavedSearch,
+  isSearchDue,
+  searchUrlOf,
+  SavedSearchError,
+  type NewListing,
+} from '@/lib/search/saved-search-service';
+
+const now = new Date('2026-06-01T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+const listing: NewListing = {
+  vertical: 'spaces',
+  id: 'space-1',
+  title: 'Sunny Photo Studio',
+  text: 'Natural light studio with backdrops in Brooklyn',
+  categories: ['studio'],
+  location: { latitude: 40.6782, longitude: -73.9442 }, // Brooklyn
+  prices: [45, 300],
+  url: '/spaces/space-1',
+  publishedAt: hoursAgo(1),
+};
+
+describe('matchesSavedSearch', () => {
+  it('matches every listing for an empty search', () => {
+    expect(matchesSavedSearch(listing, {})).toBe(true);
+  });
+
+  it('requires every search term to appear in the listing', () => {
+    expect(matchesSavedSearch(listing, { query: 'photo studio' })).toBe(true);
+    expect(matchesSavedSearch(listing, { query: 'photo kitchen' })).toBe(false);
+  });
+
+  it('filters by vertical and category', () => {
+    expect(matchesSavedSearch(listing, { verticals: ['spaces', 'events'] })).toBe(true);
+    expect(matchesSavedSearch(listing, { verticals: ['things'] })).toBe(false);
+    expect(matchesSavedSearch(listing, { categories: ['Studio'] })).toBe(true);
+    expect(matchesSavedSearch(listing, { categories: ['kitchen'] })).toBe(false);
+  });
+
+  it('needs one price within the range', () => {
+    expect(matchesSavedSearch(listing, { priceRange: { min: 0, max: 50 } })).toBe(true);
+    expect(matchesSavedSearch(listing, { priceRange: { min: 100, max: 200 } })).toBe(false);
+  });
+
+  it('keeps to the location radius', () => {
+    const manhattan = { latitude: 40.7831, longitude: -73.9712 };
+    expect(matchesSavedSearch(listing, { location: { ...manhattan, radiusKm: 25 } })).toBe(true);
+    expect(matchesSavedSearch(listing, { location: { ...manhattan, radiusKm: 5 } })).toBe(false);
+    expect(matchesSavedSearch({ ...listing, location: undefined }, { location: { ...manhattan, radiusKm: 25 } }))
+      .toBe(false);
+  });
+});
+
+describe('isSearchDue', () => {
+  it('checks instant searches on every run', () => {
+    expect(isSearchDue({ frequency: 'instant', isActive: true, lastCheckedAt: hoursAgo(0.25) }, now)).toBe(true);
+  });
+
+  it('checks daily searches once a day', () => {
+    expect(isSearchDue({ frequency: 'daily', isActive: true, lastCheckedAt: hoursAgo(23) }, now)).toBe(false);
+    expect(isSearchDue({ frequency: 'daily', isActive: true, lastCheckedAt: hoursAgo(24) }, now)).toBe(true);
+  });
+
+  it('never checks paused searches', () => {
+    expect(isSearchDue({ frequency: 'instant', isActive: false, lastCheckedAt: hoursAgo(48) }, now)).toBe(false);
+  });
+});
+
+describe('searchUrlOf', () => {
+  it('links to the marketplace results of the search', () => {
+    expect(searchUrlOf({ query: 'photo studio', verticals: ['spaces'] }))
+      .toBe('/marketplace?q=photo+studio&vertical=spaces');
+  });
+});
+
+describe('SavedSearchError', () => {
+  it('maps error codes to HTTP statuses', () => {
+    expect(new SavedSearchError('too many', 'LIMIT_REACHED').status).toBe(422);
+    expect(new SavedSearchError('missing', 'NOT_FOUND').status).toBe(404);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Search Autocomplete Test Suite
+ * Tests query normalization, synonym expansion, ranking suggestions and
+ * serving them from the cache
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: { transaction: jest.fn(), insert: jest.fn() } }));
+jest.mock('@/lib/search/search-cache', () => ({
+  searchCache: { getSuggestions: jest.fn(), setSuggestions: jest.fn() },
+}));
+
+import { db } from '@/db/db';
+import { searchCache } from '@/lib/search/search-cache';
+import {
+  normalizeQuery,
+  expandQuery,
+  rankSuggestions,
+  getSuggestions,
+  logSearch,
+  type SuggestionCandidate,
+} from '@/lib/search/autocomplete';
+
+const candidate = (text: string, overrides: Partial<SuggestionCandidate> = {}): SuggestionCandidate => ({
+  kind: 'service',
+  text,
+  normalizedText: normalizeQuery(text),
+  vertical: 'services',
+  category: null,
+  listingCount: 1,
+  searchCount: 0,
+  similarity: 0,
+  ...overrides,
+});
+
+describe('normalizeQuery', () => {
+  it('lower cases and collapses whitespace', () => {
+    expect(normalizeQuery('  Hair   Cut ')).toBe('hair cut');
+  });
+});
+
+describe('expandQuery', () => {
+  it('adds the term an alias stands for', () => {
+    expect(expandQuery('hair cut')).toEqual(['hair cut', 'haircut']);
+    expect(expandQuery('cheap plumber')).toContain('cheap plumbing');
+  });
+
+  it('adds the term for an alias still being typed', () => {
+    expect(expandQuery('photogr')).toContain('photography');
+  });
+
+  it('joins words typed apart', () => {
+    expect(expandQuery('photo booth')).toContain('photobooth');
+  });
+
+  it('leaves queries that already use the term alone', () => {
+    expect(expandQuery('haircut')).toEqual(['haircut']);
+  });
+});
+
+describe('rankSuggestions', () => {
+  it('puts prefix matches ahead of more popular typo matches', () => {
+    const suggestions = rankSuggestions([
+      candidate('Yoga mats', { similarity: 0.5, searchCount: 500 }),
+      candidate('Yogurt making', { similarity: 0.4, searchCount: 100 }),
+      candidate('Yoga classes', { similarity: 0.9 }),
+    ], ['yoga c'], 5);
+
+    expect(suggestions.map(s => [s.text, s.isTypoMatch])).toEqual([
+      ['Yoga classes', false],
+      ['Yoga mats', true],
+      ['Yogurt making', true],
+    ]);
+  });
+
+  it('ranks popular searches first among equal matches', () => {
+    const suggestions = rankSuggestions([
+      candidate('Hair braiding', { searchCount: 2 }),
+      candidate('Haircut', { searchCount: 40 }),
+    ], ['hair'], 5);
+
+    expect(suggestions.map(s => s.text)).toEqual(['Haircut', 'Hair braiding']);
+  });
+
+  it('matches the start of any word', () => {
+    const [suggestion] = rankSuggestions([candidate('Hot stone massage')], ['mass'], 5);
+    expect(suggestion).toMatchObject({ text: 'Hot stone massage', isTypoMatch: false });
+  });
+
+  it('suggests a term found in several verticals once, for all of them', () => {
+    const suggestions = rankSuggestions([
+      candidate('Brooklyn', { kind: 'city', vertical: 'events', listingCount: 30 }),
+      candidate('Brooklyn', { kind: 'city', vertical: 'spaces' }),
+    ], ['brook'], 5);
+
+    expect(suggestions).toEqual([
+      { kind: 'city', text: 'Brooklyn', vertical: null, category: null, isTypoMatch: false },
+    ]);
+  });
+});
+
+describe('getSuggestions', () => {
+  const select = (rows: SuggestionCandidate[]) => {
+    const query: any = {
+      from: () => query,
+      where: () => query,
+      orderBy: () => query,
+      limit: jest.fn(async () => rows),
+    };
+    return query;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(searchCache.getSuggestions).mockResolvedValue(null);
+  });
+
+  it('serves cached suggestions without querying', async () => {
+    const cached = { query: 'yoga', suggestions: [], didYouMean: null };
+    jest.mocked(searchCache.getSuggestions).mockResolvedValue(cached);
+
+    expect(await getSuggestions('Yoga')).toBe(cached);
+    expect(db.transaction).not.toHaveBeenCalled();
+  });
+
+  it('offers the closest term when the query only matches with typos', async () => {
+    const tx = {
+      execute: jest.fn(),
+      select: () => select([candidate('Haircut', { similarity: 0.45 })]),
+    };
+    jest.mocked(db.transaction).mockImplementation(async (run: any) => run(tx));
+
+    const result = await getSuggestions('hiarcut', { vertical: 'services' });
+
+    expect(result.didYouMean).toBe('Haircut');
+    expect(searchCache.setSuggestions).toHaveBeenCalledWith(
+      { autocomplete: 'hiarcut', vertical: 'services', limit: 8 },
+      result
+    );
+  });
+});
+
+describe('logSearch', () => {
+  it('skips queries too short to suggest', async () => {
+    await logSearch({ query: ' a ', resultCount: 3 });
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+});
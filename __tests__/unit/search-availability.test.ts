@@ -0,0 +1,90 @@
+/**
+ * Search Availability Test Suite
+ * Tests the start times an availability search covers and refreshing the
+ * precomputed provider slots search filters on
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+const mockSelectWhere = jest.fn();
+const mockDeleteReturning = jest.fn();
+
+jest.mock('@/db/db', () => ({
+  db: {
+    selectDistinct: jest.fn(() => ({
+      from: () => ({ innerJoin: () => ({ where: mockSelectWhere }) }),
+    })),
+    delete: jest.fn(() => ({
+      where: () => ({ returning: mockDeleteReturning }),
+    })),
+  },
+}));
+
+jest.mock('@/lib/availability/slot-generator', () => ({
+  slotGenerator: {
+    generateSlots: jest.fn(),
+    cacheSlots: jest.fn(),
+  },
+}));
+
+import {
+  windowStartTimes,
+  refreshSearchAvailability,
+  SEARCH_AVAILABILITY_DAYS,
+} from '@/lib/availability/search-availability';
+import { slotGenerator } from '@/lib/availability/slot-generator';
+
+const generateSlots = slotGenerator.generateSlots as jest.Mock;
+const cacheSlots = slotGenerator.cacheSlots as jest.Mock;
+
+const now = new Date('2026-06-01T12:00:00Z');
+
+describe('windowStartTimes', () => {
+  it('covers the whole day without a time', () => {
+    expect(windowStartTimes({ date: '2026-06-02' })).toEqual({ from: '00:00', to: null });
+  });
+
+  it('covers slots starting up to two hours after the time', () => {
+    expect(windowStartTimes({ date: '2026-06-02', time: '09:30' })).toEqual({ from: '09:30', to: '11:30' });
+  });
+
+  it('runs to the end of the day late in the evening', () => {
+    expect(windowStartTimes({ date: '2026-06-02', time: '22:00' })).toEqual({ from: '22:00', to: null });
+    expect(windowStartTimes({ date: '2026-06-02', time: '21:45' })).toEqual({ from: '21:45', to: '23:45' });
+  });
+});
+
+describe('refreshSearchAvailability', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSelectWhere.mockResolvedValue([{ id: 'provider-1' }, { id: 'provider-2' }] as never);
+    mockDeleteReturning.mockResolvedValue([{ id: 'slot-1' }, { id: 'slot-2' }, { id: 'slot-3' }] as never);
+  });
+
+  it('caches each provider\'s slots for the search window, booked ones included', async () => {
+    generateSlots.mockResolvedValueOnce([{}, {}]).mockResolvedValueOnce([{}]);
+
+    const result = await refreshSearchAvailability(now);
+
+    expect(generateSlots).toHaveBeenCalledTimes(2);
+    expect(generateSlots).toHaveBeenCalledWith({
+      providerId: 'provider-1',
+      startDate: now,
+      endDate: new Date(now.getTime() + SEARCH_AVAILABILITY_DAYS * 24 * 60 * 60 * 1000),
+      includeBooked: true,
+    });
+    expect(cacheSlots).toHaveBeenCalledWith([{}, {}], 30 * 60);
+    expect(result).toEqual({ providers: 2, slots: 3, failed: 0, pruned: 3 });
+  });
+
+  it('skips providers whose slots fail to generate', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    generateSlots.mockRejectedValueOnce(new Error('No timezone')).mockResolvedValueOnce([{}]);
+
+    const result = await refreshSearchAvailability(now);
+
+    expect(cacheSlots).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ providers: 2, slots: 1, failed: 1, pruned: 3 });
+    consoleError.mockRestore();
+  });
+});
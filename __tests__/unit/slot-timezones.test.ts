@@ -0,0 +1,142 @@
+/**
+ * Timezone-aware Slot Generation Test Suite
+ * Tests provider-local expansion, UTC instants across DST transitions,
+ * blocked ranges and customer-zone presentation
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: {} }));
+
+import { SlotGenerator, type DaySlotParams, type ProviderSettings } from '@/lib/availability/slot-generator';
+import {
+  zonedTimeToInstant,
+  localDatesBetween,
+  localDayBounds,
+  localizeInterval,
+  resolveTimezone,
+  dayOfWeekForDate,
+} from '@/lib/availability/timezone';
+
+const settings: ProviderSettings = {
+  timezone: 'America/New_York',
+  leadTimeMinutes: 0,
+  cutoffMinutes: 0,
+  preBufferMinutes: 0,
+  postBufferMinutes: 0,
+  defaultCapacity: 1,
+};
+
+const baseParams = (overrides: Partial<DaySlotParams>): DaySlotParams => ({
+  date: '2025-03-07',
+  providerId: 'provider-1',
+  serviceDuration: 60,
+  settings,
+  recurringRules: [],
+  exceptions: [],
+  existingBookings: [],
+  now: new Date('2025-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('timezone utilities', () => {
+  it('should flag wall-clock times skipped by spring-forward', () => {
+    expect(zonedTimeToInstant('2025-03-09', '02:30', 'America/New_York').exists).toBe(false);
+    expect(zonedTimeToInstant('2025-03-09', '03:30', 'America/New_York')).toEqual({
+      instant: new Date('2025-03-09T07:30:00Z'),
+      exists: true,
+    });
+  });
+
+  it('should list provider-local dates independent of the server zone', () => {
+    const dates = localDatesBetween(
+      new Date('2025-03-08T03:00:00Z'), // still March 7 in New York
+      new Date('2025-03-09T12:00:00Z'),
+      'America/New_York'
+    );
+    expect(dates).toEqual(['2025-03-07', '2025-03-08', '2025-03-09']);
+    expect(dayOfWeekForDate('2025-03-09')).toBe(0);
+  });
+
+  it('should produce 23-hour days on spring-forward', () => {
+    const { start, end } = localDayBounds('2025-03-09', 'America/New_York');
+    expect((end.getTime() - start.getTime()) / 3600000).toBe(23);
+  });
+
+  it('should fall back to the default zone for unknown values', () => {
+    expect(resolveTimezone('Not/AZone')).toBe('America/New_York');
+    expect(resolveTimezone('Europe/Berlin')).toBe('Europe/Berlin');
+  });
+});
+
+describe('SlotGenerator.generateDaySlots', () => {
+  const generator = new SlotGenerator();
+  // Friday and Monday around the March 9 2025 US transition
+  const rules = [5, 1].map(dayOfWeek => ({ dayOfWeek, startMinute: 540, endMinute: 660, capacity: 1 }));
+
+  it('should keep 09:00 local on both sides of a DST transition', () => {
+    const before = generator.generateDaySlots(baseParams({ date: '2025-03-07', recurringRules: rules }));
+    const after = generator.generateDaySlots(baseParams({ date: '2025-03-10', recurringRules: rules }));
+
+    expect(before[0].startTime).toBe('09:00');
+    expect(before[0].startsAt).toBe('2025-03-07T14:00:00.000Z');
+    expect(after[0].startTime).toBe('09:00');
+    expect(after[0].startsAt).toBe('2025-03-10T13:00:00.000Z');
+  });
+
+  it('should skip slots inside the spring-forward gap', () => {
+    const slots = generator.generateDaySlots(baseParams({
+      date: '2025-03-09',
+      serviceDuration: 30,
+      recurringRules: [{ dayOfWeek: 0, startMinute: 60, endMinute: 240, capacity: 1 }],
+    }));
+
+    const starts = slots.map(s => s.startTime);
+    expect(starts).not.toContain('02:00');
+    expect(starts).not.toContain('02:30');
+    expect(starts).toContain('01:30');
+    expect(starts).toContain('03:00');
+  });
+
+  it('should end slots by elapsed time across fall-back', () => {
+    const slots = generator.generateDaySlots(baseParams({
+      date: '2025-11-02',
+      serviceDuration: 60,
+      recurringRules: [{ dayOfWeek: 0, startMinute: 60, endMinute: 180, capacity: 1 }],
+    }));
+
+    const first = slots[0];
+    expect(first.startTime).toBe('01:00');
+    expect(new Date(first.endsAt).getTime() - new Date(first.startsAt).getTime()).toBe(3600000);
+  });
+
+  it('should subtract partial blocks and bookings by instant', () => {
+    const slots = generator.generateDaySlots(baseParams({
+      date: '2025-03-07',
+      recurringRules: rules,
+      exceptions: [{ date: '2025-03-07', startMinute: 600, endMinute: 615, isClosed: false }],
+      existingBookings: [{
+        id: 'b1',
+        bookingDate: new Date('2025-03-07T00:00:00Z'),
+        startTime: '09:00',
+        endTime: '09:30',
+        status: 'confirmed',
+      }],
+    }));
+
+    // 09:00 and 09:15 overlap the booking; every later slot overlaps the 10:00 block
+    expect(slots).toHaveLength(0);
+  });
+
+  it('should render slots in the customer zone', () => {
+    const [slot] = generator.generateDaySlots(baseParams({ date: '2025-07-07', recurringRules: rules }));
+    const local = localizeInterval(new Date(slot.startsAt), new Date(slot.endsAt), 'Europe/London');
+
+    expect(local).toEqual({
+      timezone: 'Europe/London',
+      date: '2025-07-07',
+      startTime: '14:00',
+      endTime: '15:00',
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Tax Engine Test Suite
+ * Tests jurisdiction resolution from the rate table, per-line rounding,
+ * tax in the fee calculator and the provider tax summary for filing
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: {} }));
+
+import {
+  resolveJurisdictions,
+  calculateTax,
+  normalizeCountry,
+  formatTaxLineLabel,
+  taxLocationForProvider,
+} from '@/lib/payments/tax-engine';
+import {
+  summarizeTaxRows,
+  taxSummaryToCsv,
+  quarterRange,
+  type TaxReportRow,
+} from '@/lib/payments/tax-service';
+import { calculateFees } from '@/lib/payments/fee-calculator';
+
+const period = quarterRange(new Date('2026-02-10T00:00:00Z'));
+
+function row(overrides: Partial<TaxReportRow>): TaxReportRow {
+  return {
+    bookingId: 'booking-1',
+    currency: 'usd',
+    jurisdictionCode: 'US-IL',
+    jurisdictionName: 'Illinois',
+    taxType: 'sales_tax',
+    rate: '0.06250',
+    taxableAmount: '100.00',
+    taxAmount: '6.25',
+    bookingTotal: '110.25',
+    refundedAmount: null,
+    ...overrides,
+  };
+}
+
+describe('Tax Engine', () => {
+  describe('resolveJurisdictions', () => {
+    it('matches a state by code or by name', () => {
+      expect(resolveJurisdictions({ country: 'US', state: 'IL' }).map(j => j.name)).toEqual(['Illinois']);
+      expect(resolveJurisdictions({ country: 'US', state: 'illinois' }).map(j => j.name)).toEqual(['Illinois']);
+    });
+
+    it('adds local layers by zip prefix', () => {
+      const names = resolveJurisdictions({ country: 'US', state: 'IL', zipCode: '60614' }).map(j => j.name);
+      expect(names).toEqual(['Illinois', 'Chicago']);
+    });
+
+    it('layers provincial tax on the federal GST in Canada', () => {
+      const names = resolveJurisdictions({ country: 'Canada', state: 'ON' }).map(j => j.name);
+      expect(names).toEqual(['Canada GST', 'Ontario HST']);
+    });
+
+    it('resolves country aliases and defaults to the US', () => {
+      expect(normalizeCountry('UK')).toBe('GB');
+      expect(normalizeCountry(null)).toBe('US');
+      expect(resolveJurisdictions({ country: 'United Kingdom' }).map(j => j.taxType)).toEqual(['vat']);
+    });
+
+    it('returns nothing for a location without a matching entry', () => {
+      expect(resolveJurisdictions({ country: 'US', state: 'Nowhere' })).toEqual([]);
+    });
+  });
+
+  describe('calculateTax', () => {
+    it('rounds each jurisdiction line to the minor unit', () => {
+      const quote = calculateTax(999, { country: 'US', state: 'CA', zipCode: '94110' });
+
+      expect(quote.lines.map(line => [line.jurisdictionCode, line.taxCents])).toEqual([
+        ['US-CA', 72],
+        ['US-CA-941', 14],
+      ]);
+      expect(quote.taxCents).toBe(86);
+      expect(quote.rate).toBeCloseTo(0.08625, 10);
+    });
+
+    it('charges nothing without a location', () => {
+      expect(calculateTax(10000, null).taxCents).toBe(0);
+    });
+
+    it('builds the tax location from provider columns', () => {
+      const location = taxLocationForProvider({ locationCountry: 'US', locationState: 'TX', locationZipCode: '77002' });
+      expect(calculateTax(10000, location).taxCents).toBe(825);
+    });
+
+    it('labels lines for receipts', () => {
+      expect(formatTaxLineLabel({ jurisdictionName: 'Illinois', taxType: 'sales_tax', rate: '0.06250' }))
+        .toBe('Sales Tax - Illinois (6.25%)');
+    });
+  });
+
+  describe('calculateFees', () => {
+    it('adds tax on the service price to the customer total only', () => {
+      const fees = calculateFees({
+        baseAmountCents: 10000,
+        isGuest: true,
+        taxLocation: { country: 'US', state: 'IL', zipCode: '60601' },
+      });
+
+      expect(fees.taxCents).toBe(1025);
+      expect(fees.taxLines).toHaveLength(2);
+      expect(fees.customerTotalCents).toBe(10000 + fees.guestSurchargeCents + 1025);
+      expect(fees.providerPayoutCents).toBe(9000);
+      expect(fees.displayAmounts.tax).toBe('$10.25');
+    });
+
+    it('leaves untaxed bookings unchanged', () => {
+      const fees = calculateFees({ baseAmountCents: 10000, isGuest: false });
+      expect(fees.taxCents).toBe(0);
+      expect(fees.customerTotalCents).toBe(10000);
+    });
+  });
+});
+
+describe('Tax Summary', () => {
+  it('groups lines by jurisdiction and nets out refunded tax', () => {
+    const summary = summarizeTaxRows([
+      row({}),
+      row({ bookingId: 'booking-2', refundedAmount: '55.13' }),
+      row({ jurisdictionCode: 'US-IL-606', jurisdictionName: 'Chicago', rate: '0.04000', taxAmount: '4.00' }),
+    ], period);
+
+    const illinois = summary.lines.find(line => line.jurisdictionCode === 'US-IL')!;
+    expect(illinois.bookings).toBe(2);
+    expect(illinois.taxCollected).toBe(12.5);
+    expect(illinois.taxRefunded).toBe(3.13);
+    expect(illinois.netTax).toBe(9.37);
+
+    // Booking 1 has two jurisdiction layers but its taxable amount counts once
+    expect(summary.totals).toEqual([{ currency: 'usd', taxableAmount: 150, netTax: 13.37 }]);
+  });
+
+  it('exports one CSV row per jurisdiction line', () => {
+    const csv = taxSummaryToCsv(summarizeTaxRows([row({})], period));
+    const [header, line] = csv.trim().split('\n');
+
+    expect(header).toContain('Jurisdiction Code');
+    expect(line).toBe('US-IL,Illinois,sales_tax,0.0625,USD,1,100.00,6.25,0.00,6.25');
+  });
+
+  it('reports on calendar quarters', () => {
+    expect(period.from.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    expect(period.to.toISOString()).toBe('2026-04-01T00:00:00.000Z');
+  });
+});
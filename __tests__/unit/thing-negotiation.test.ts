@@ -0,0 +1,146 @@
+/**
+ * Thing Negotiation Test Suite
+ * Tests offer expiry, amount validation, turn-taking between buyer and
+ * seller and the checkout produced by an accepted offer
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: {} }));
+jest.mock('@/lib/notifications/notification-service', () => ({
+  notificationService: {},
+}));
+
+import {
+  offerExpiresAt,
+  validateOfferAmount,
+  roleOf,
+  respondableOffer,
+  checkoutFor,
+  NegotiationError,
+} from '@/lib/things/negotiation-service';
+import type { ThingNegotiation, ThingOffer } from '@/db/schema';
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2026-03-02T12:00:00Z');
+
+const negotiation: ThingNegotiation = {
+  id: 'neg-1',
+  thingId: 'thing-1',
+  buyerId: 'buyer',
+  sellerId: 'seller',
+  status: 'open',
+  agreedAmount: null,
+  acceptedOfferId: null,
+  acceptedAt: null,
+  checkoutExpiresAt: null,
+  bookingId: null,
+  closedReason: null,
+  createdAt: now,
+  updatedAt: now,
+};
+
+function offer(overrides: Partial<ThingOffer>): ThingOffer {
+  return {
+    id: 'offer-1',
+    negotiationId: 'neg-1',
+    fromUserId: 'buyer',
+    fromRole: 'buyer',
+    amount: '80.00',
+    message: null,
+    status: 'pending',
+    expiresAt: new Date(now.getTime() + 48 * HOUR),
+    respondedAt: null,
+    createdAt: now,
+    ...overrides,
+  };
+}
+
+function codeOf(fn: () => unknown): string | undefined {
+  try {
+    fn();
+  } catch (error) {
+    return (error as NegotiationError).code;
+  }
+  return undefined;
+}
+
+describe('offerExpiresAt', () => {
+  it('defaults to 48 hours', () => {
+    expect(offerExpiresAt(now).getTime() - now.getTime()).toBe(48 * HOUR);
+  });
+
+  it('clamps to between one hour and a week', () => {
+    expect(offerExpiresAt(now, 0).getTime() - now.getTime()).toBe(HOUR);
+    expect(offerExpiresAt(now, 1000).getTime() - now.getTime()).toBe(168 * HOUR);
+  });
+});
+
+describe('validateOfferAmount', () => {
+  it('accepts offers up to the asking price', () => {
+    expect(() => validateOfferAmount(80, 100)).not.toThrow();
+    expect(() => validateOfferAmount(100, 100)).not.toThrow();
+  });
+
+  it('rejects zero and offers above the asking price', () => {
+    expect(codeOf(() => validateOfferAmount(0, 100))).toBe('INVALID_AMOUNT');
+    expect(codeOf(() => validateOfferAmount(120, 100))).toBe('INVALID_AMOUNT');
+  });
+});
+
+describe('roleOf', () => {
+  it('identifies each party', () => {
+    expect(roleOf(negotiation, 'buyer')).toBe('buyer');
+    expect(roleOf(negotiation, 'seller')).toBe('seller');
+    expect(roleOf(negotiation, 'someone-else')).toBeNull();
+  });
+});
+
+describe('respondableOffer', () => {
+  const offers = [
+    offer({ id: 'offer-1', status: 'countered' }),
+    offer({ id: 'offer-2', fromUserId: 'seller', fromRole: 'seller', amount: '90.00' }),
+  ];
+
+  it('returns the pending offer to the party whose turn it is', () => {
+    expect(respondableOffer(negotiation, offers, 'buyer', now).id).toBe('offer-2');
+  });
+
+  it('does not let a party answer their own offer', () => {
+    expect(codeOf(() => respondableOffer(negotiation, offers, 'seller', now))).toBe('NOT_YOUR_TURN');
+  });
+
+  it('rejects responses to an expired offer', () => {
+    const later = new Date(now.getTime() + 49 * HOUR);
+    expect(codeOf(() => respondableOffer(negotiation, offers, 'buyer', later))).toBe('OFFER_EXPIRED');
+  });
+
+  it('rejects responses once the thread is closed or has nothing pending', () => {
+    expect(codeOf(() => respondableOffer({ status: 'declined' }, offers, 'buyer', now))).toBe('THREAD_CLOSED');
+    expect(codeOf(() => respondableOffer(negotiation, [offer({ status: 'countered' })], 'seller', now)))
+      .toBe('NO_PENDING_OFFER');
+  });
+});
+
+describe('checkoutFor', () => {
+  it('points accepted offers at the purchase API with the agreed price', () => {
+    const checkoutExpiresAt = new Date(now.getTime() + 24 * HOUR);
+    const checkout = checkoutFor(
+      { ...negotiation, status: 'accepted', agreedAmount: '85.00', checkoutExpiresAt },
+      'USD'
+    );
+
+    expect(checkout).toEqual({
+      url: '/api/things/thing-1/purchase',
+      method: 'POST',
+      negotiationId: 'neg-1',
+      amount: 85,
+      currency: 'usd',
+      expiresAt: checkoutExpiresAt,
+    });
+  });
+
+  it('has no checkout before acceptance', () => {
+    expect(checkoutFor(negotiation, 'usd')).toBeNull();
+  });
+});
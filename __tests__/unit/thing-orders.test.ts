@@ -0,0 +1,126 @@
+/**
+ * Thing Order Test Suite
+ * Tests the escrow timeline (auto-confirm and inspection window), who may
+ * move an order along and what the seller is paid on release
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: {} }));
+jest.mock('@/lib/stripe', () => ({ stripe: {} }));
+jest.mock('@/lib/payments/payout-service', () => ({ payoutService: {} }));
+jest.mock('@/lib/notifications/notification-service', () => ({
+  notificationService: {},
+}));
+jest.mock('@/lib/booking-state-machine', () => ({
+  bookingStateEngine: {},
+  BookingTransitionError: class extends Error {},
+  TransitionEvents: {},
+}));
+
+import {
+  autoConfirmAt,
+  inspectionEndsAt,
+  trackingUrlFor,
+  orderRoleOf,
+  assertOrderAction,
+  sellerPayoutFor,
+  OrderError,
+  type OrderAction,
+  type OrderRole,
+} from '@/lib/things/order-service';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2026-03-02T12:00:00Z');
+
+function codeOf(fn: () => unknown): string | undefined {
+  try {
+    fn();
+  } catch (error) {
+    return (error as OrderError).code;
+  }
+  return undefined;
+}
+
+function check(
+  order: { status: string; deliveryMethod?: 'shipping' | 'pickup'; inspectionEndsAt?: Date | null },
+  action: OrderAction,
+  role: OrderRole,
+  at: Date = now
+) {
+  return codeOf(() =>
+    assertOrderAction(
+      { deliveryMethod: 'shipping', inspectionEndsAt: null, ...order },
+      action,
+      role,
+      at
+    )
+  );
+}
+
+describe('escrow timeline', () => {
+  it('auto-confirms shipped orders after 14 days and pickups after 7', () => {
+    expect(autoConfirmAt('shipping', now).getTime() - now.getTime()).toBe(14 * DAY);
+    expect(autoConfirmAt('pickup', now).getTime() - now.getTime()).toBe(7 * DAY);
+  });
+
+  it('gives the buyer three days to inspect after delivery', () => {
+    expect(inspectionEndsAt(now).getTime() - now.getTime()).toBe(3 * DAY);
+  });
+});
+
+describe('trackingUrlFor', () => {
+  it('builds a carrier tracking link', () => {
+    expect(trackingUrlFor('ups', ' 1Z999AA1 ')).toBe('https://www.ups.com/track?tracknum=1Z999AA1');
+  });
+
+  it('has no link for other carriers', () => {
+    expect(trackingUrlFor('other', 'ABC123')).toBeNull();
+  });
+});
+
+describe('orderRoleOf', () => {
+  it('identifies each party', () => {
+    const order = { buyerId: 'buyer', sellerId: 'seller' };
+    expect(orderRoleOf(order, 'buyer')).toBe('buyer');
+    expect(orderRoleOf(order, 'seller')).toBe('seller');
+    expect(orderRoleOf(order, 'someone-else')).toBeNull();
+  });
+});
+
+describe('assertOrderAction', () => {
+  it('lets the seller ship a paid order and the buyer confirm it', () => {
+    expect(check({ status: 'paid' }, 'ship', 'seller')).toBeUndefined();
+    expect(check({ status: 'shipped' }, 'confirm_delivery', 'buyer')).toBeUndefined();
+  });
+
+  it('only lets each party take their own actions', () => {
+    expect(check({ status: 'paid' }, 'ship', 'buyer')).toBe('FORBIDDEN');
+    expect(check({ status: 'shipped' }, 'confirm_delivery', 'seller')).toBe('FORBIDDEN');
+    expect(check({ status: 'return_requested' }, 'approve_return', 'buyer')).toBe('FORBIDDEN');
+  });
+
+  it('rejects actions out of order', () => {
+    expect(check({ status: 'pending_payment' }, 'ship', 'seller')).toBe('INVALID_STATE');
+    expect(check({ status: 'released' }, 'request_return', 'buyer')).toBe('INVALID_STATE');
+  });
+
+  it('does not ship local pickups, which the buyer confirms directly', () => {
+    expect(check({ status: 'paid', deliveryMethod: 'pickup' }, 'ship', 'seller')).toBe('NOT_SHIPPABLE');
+    expect(check({ status: 'paid', deliveryMethod: 'pickup' }, 'confirm_delivery', 'buyer')).toBeUndefined();
+  });
+
+  it('accepts returns only within the inspection window', () => {
+    const delivered = { status: 'delivered', inspectionEndsAt: new Date(now.getTime() + DAY) };
+    expect(check(delivered, 'request_return', 'buyer')).toBeUndefined();
+    expect(check(delivered, 'request_return', 'buyer', new Date(now.getTime() + 2 * DAY)))
+      .toBe('INSPECTION_CLOSED');
+  });
+});
+
+describe('sellerPayoutFor', () => {
+  it('pays the item and shipping less the platform fee', () => {
+    expect(sellerPayoutFor({ itemPrice: '85.00', shippingCost: '10.00', platformFee: '9.50' }))
+      .toEqual({ amount: 95, platformFee: 9.5 });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Two-Sided Reviews Test Suite
+ * Tests the double-blind review window and the minimum customer rating
+ * providers can require for instant booking
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: {} }));
+jest.mock('@/lib/notifications/notification-service', () => ({
+  notificationService: {},
+}));
+jest.mock('@/lib/booking-state-machine', () => ({
+  BookingStates: { COMPLETED: 'completed', NO_SHOW_CUSTOMER: 'no_show_customer' },
+}));
+
+import {
+  reviewWindowEnd,
+  meetsInstantBookingMinimum,
+  ReviewError,
+  REVIEW_WINDOW_DAYS,
+} from '@/lib/reviews/review-service';
+
+describe('reviewWindowEnd', () => {
+  it('closes the review window 14 days after completion', () => {
+    const completedAt = new Date('2026-03-01T18:30:00Z');
+    expect(REVIEW_WINDOW_DAYS).toBe(14);
+    expect(reviewWindowEnd(completedAt).toISOString()).toBe('2026-03-15T18:30:00.000Z');
+  });
+});
+
+describe('meetsInstantBookingMinimum', () => {
+  it('lets everyone book instantly when the provider sets no minimum', () => {
+    expect(meetsInstantBookingMinimum({ averageRating: null }, null)).toBe(true);
+    expect(meetsInstantBookingMinimum({ averageRating: 2.1 }, undefined)).toBe(true);
+  });
+
+  it('compares the customer rating against the numeric column value', () => {
+    expect(meetsInstantBookingMinimum({ averageRating: 4.5 }, '4.5')).toBe(true);
+    expect(meetsInstantBookingMinimum({ averageRating: 4.4 }, '4.5')).toBe(false);
+    expect(meetsInstantBookingMinimum({ averageRating: 3 }, 3)).toBe(true);
+  });
+
+  it('requires approval for customers nobody has rated yet', () => {
+    expect(meetsInstantBookingMinimum({ averageRating: null }, '3.0')).toBe(false);
+  });
+});
+
+describe('ReviewError', () => {
+  it('maps error codes to HTTP statuses', () => {
+    expect(new ReviewError('closed', 'WINDOW_CLOSED').status).toBe(422);
+    expect(new ReviewError('twice', 'ALREADY_REVIEWED').status).toBe(409);
+    expect(new ReviewError('not yours', 'FORBIDDEN').status).toBe(403);
+  });
+});
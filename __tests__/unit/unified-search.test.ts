@@ -0,0 +1,194 @@
+/**
+ * Unified Search Test Suite
+ * Tests scoring listings, normalizing scores per vertical, blending verticals
+ * and counting facets
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: {} }));
+jest.mock('@/db/queries/events-queries', () => ({ searchEvents: jest.fn() }));
+jest.mock('@/db/queries/spaces-queries', () => ({ searchSpaces: jest.fn() }));
+jest.mock('@/db/queries/things-queries', () => ({ searchThings: jest.fn() }));
+jest.mock('@/lib/payments/fx-rates', () => ({ fxRateService: {}, toDisplayPrice: jest.fn() }));
+jest.mock('@/lib/search/provider-search', () => ({
+  searchProvidersInDatabase: jest.fn(),
+  loadProviderCategories: jest.fn(),
+}));
+
+import { searchEvents } from '@/db/queries/events-queries';
+import { searchSpaces } from '@/db/queries/spaces-queries';
+import { searchThings } from '@/db/queries/things-queries';
+import { searchProvidersInDatabase, loadProviderCategories } from '@/lib/search/provider-search';
+import {
+  unifiedSearch,
+  scoreListing,
+  textMatchScore,
+  normalizeVerticalScores,
+  buildFacets,
+  type UnifiedSearchHit,
+} from '@/lib/search/unified-search';
+
+const createdAt = new Date('2026-06-01T12:00:00Z');
+
+const providerHit = (id: string, totalScore: number, hourlyRate: number) => ({
+  providerId: id,
+  totalScore,
+  provider: {
+    id,
+    name: `Yoga teacher ${id}`,
+    slug: id,
+    tagline: null,
+    profileImageUrl: null,
+    locationCity: 'Brooklyn',
+    locationState: 'NY',
+    hourlyRate,
+    averageRating: 4.8,
+    totalReviews: 12,
+    isVerified: true,
+    currency: 'usd',
+    distanceKm: null,
+    createdAt: createdAt.toISOString(),
+  },
+});
+
+const event = (id: string, title: string, price: string, viewCount: number) => ({
+  id,
+  title,
+  description: 'Morning flow in the park',
+  category: 'wellness',
+  eventType: 'class',
+  tags: [],
+  locationType: 'in_person',
+  address: { city: 'Brooklyn', state: 'NY' },
+  price,
+  maxAttendees: 20,
+  currentAttendees: 5,
+  availableSpots: 15,
+  coverImageUrl: null,
+  galleryImages: [],
+  startDateTime: createdAt,
+  endDateTime: createdAt,
+  isFeatured: false,
+  instantBooking: true,
+  viewCount,
+  favoriteCount: 0,
+  createdAt,
+  distance: null,
+  provider: { id: 'organizer', displayName: 'Organizer', profileImageUrl: null, isVerified: true, currency: 'usd' },
+});
+
+describe('textMatchScore', () => {
+  it('gives full credit for title matches and half for text matches', () => {
+    expect(textMatchScore('yoga mat', 'Yoga Mat', 'Barely used')).toBe(1);
+    expect(textMatchScore('yoga mat', 'Yoga block', 'Comes with a mat')).toBe(0.75);
+    expect(textMatchScore('yoga', 'Kettlebell', null)).toBe(0);
+  });
+
+  it('is neutral without a query', () => {
+    expect(textMatchScore(undefined, 'Anything')).toBe(0.5);
+  });
+});
+
+describe('scoreListing', () => {
+  const signals = { title: 'Yoga in the park', popularity: 50 };
+
+  it('ranks closer listings higher', () => {
+    const location = { lat: 40.7, lng: -73.9, radiusMiles: 10 };
+    expect(scoreListing({ ...signals, distanceMiles: 1 }, { location }))
+      .toBeGreaterThan(scoreListing({ ...signals, distanceMiles: 9 }, { location }));
+  });
+
+  it('boosts featured listings', () => {
+    expect(scoreListing({ ...signals, featured: true }, { query: 'yoga' }))
+      .toBeCloseTo(scoreListing(signals, { query: 'yoga' }) * 1.1);
+  });
+});
+
+describe('normalizeVerticalScores', () => {
+  const hit = (rawScore: number) => ({ rawScore, score: rawScore }) as UnifiedSearchHit;
+
+  it('scales scores within the vertical to 0-1', () => {
+    expect(normalizeVerticalScores([hit(0.2), hit(0.4), hit(0.3)]).map(h => h.score))
+      .toEqual([0, 1, expect.closeTo(0.5)]);
+  });
+
+  it('gives a lone or tied vertical full score', () => {
+    expect(normalizeVerticalScores([hit(0.1)])[0].score).toBe(1);
+  });
+});
+
+describe('unifiedSearch', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(searchProvidersInDatabase).mockResolvedValue({
+      hits: [providerHit('p1', 0.9, 80), providerHit('p2', 0.85, 40)],
+      nextCursor: null,
+      total: 2,
+    } as any);
+    jest.mocked(loadProviderCategories).mockResolvedValue(new Map([['p1', ['wellness']]]));
+    jest.mocked(searchEvents).mockResolvedValue({
+      events: [event('e1', 'Yoga in the park', '15', 500), event('e2', 'Sunset yoga', '600', 10)],
+      total: 2,
+      hasMore: false,
+    } as any);
+    jest.mocked(searchSpaces).mockResolvedValue({ spaces: [], total: 0, hasMore: false });
+    jest.mocked(searchThings).mockRejectedValue(new Error('connection reset'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('blends the best of each vertical ahead of weaker listings', async () => {
+    const { results } = await unifiedSearch({ query: 'yoga' });
+
+    // Providers score far higher before normalization; ties keep vertical order
+    expect(results.map(listing => listing.id)).toEqual(['p1', 'e1', 'p2', 'e2']);
+    expect(results[0]).toMatchObject({ type: 'service', price: 80, priceUnit: 'hour', categories: ['wellness'] });
+    expect(results[1]).toMatchObject({ type: 'event', price: 15, location: { city: 'Brooklyn' } });
+  });
+
+  it('counts facets and skips a failing vertical', async () => {
+    const { facets, pagination } = await unifiedSearch({ query: 'yoga' });
+
+    expect(facets.types).toEqual([
+      { value: 'services', count: 2 },
+      { value: 'events', count: 2 },
+      { value: 'spaces', count: 0 },
+      { value: 'things', count: 0 },
+    ]);
+    expect(facets.categories).toEqual([{ value: 'wellness', count: 3 }]);
+    expect(facets.prices.filter(bucket => bucket.count > 0)).toEqual([
+      { min: 0, max: 25, count: 1 },
+      { min: 25, max: 50, count: 1 },
+      { min: 50, max: 100, count: 1 },
+      { min: 500, max: null, count: 1 },
+    ]);
+    expect(facets.distances).toBeNull();
+    expect(pagination).toMatchObject({ total: 4, totalPages: 1, hasMore: false });
+  });
+
+  it('only searches the requested verticals', async () => {
+    const { facets } = await unifiedSearch({ verticals: ['events'], sortBy: 'price_low' });
+
+    expect(searchProvidersInDatabase).not.toHaveBeenCalled();
+    expect(facets.types).toEqual([{ value: 'events', count: 2 }]);
+  });
+});
+
+describe('buildFacets', () => {
+  it('counts distance buckets cumulatively from the search location', () => {
+    const hits = [2, 8, 30].map(distance => ({
+      listing: { id: String(distance), type: 'thing', title: '', price: 1, location: { distance } },
+      categories: [],
+    }) as unknown as UnifiedSearchHit);
+
+    expect(buildFacets(hits, new Map(), { lat: 40.7, lng: -73.9, radiusMiles: 50 }).distances).toEqual({
+      origin: { lat: 40.7, lng: -73.9 },
+      buckets: [
+        { maxMiles: 5, count: 1 },
+        { maxMiles: 10, count: 2 },
+        { maxMiles: 25, count: 2 },
+        { maxMiles: 50, count: 3 },
+      ],
+    });
+  });
+});
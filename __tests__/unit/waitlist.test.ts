@@ -0,0 +1,150 @@
+/**
+ * Waitlist Test Suite
+ * Tests how cancelled bookings map onto waitlist targets and how
+ * waitlist errors surface as HTTP statuses
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/db/db', () => ({ db: { select: jest.fn() } }));
+jest.mock('@/lib/availability/concurrency-manager', () => ({
+  concurrencyManager: {
+    placeHold: jest.fn(),
+    releaseHold: jest.fn(),
+    isHoldValid: jest.fn(),
+  },
+}));
+
+import { targetFromBooking, waitlistService, WaitlistError } from '@/lib/waitlist/waitlist-service';
+import { db } from '@/db/db';
+import { concurrencyManager } from '@/lib/availability/concurrency-manager';
+
+const booking = {
+  providerId: 'provider-1',
+  serviceId: 'service-1',
+  eventId: null,
+  spaceId: null,
+  bookingDate: new Date('2025-03-09T00:00:00Z'),
+  startTime: '09:00',
+  endTime: '10:00',
+};
+
+describe('targetFromBooking', () => {
+  it('should target the provider slot for service bookings', () => {
+    expect(targetFromBooking({ ...booking, bookingType: 'service' })).toEqual({
+      targetType: 'service',
+      providerId: 'provider-1',
+      serviceId: 'service-1',
+      spaceId: null,
+      date: '2025-03-09',
+      startTime: '09:00',
+      endTime: '10:00',
+    });
+  });
+
+  it('should read the stored UTC date regardless of the server zone', () => {
+    const target = targetFromBooking({ ...booking, bookingDate: new Date('2025-11-02T00:00:00Z') });
+    expect(target.date).toBe('2025-11-02');
+  });
+
+  it('should target the space for space bookings', () => {
+    const target = targetFromBooking({ ...booking, bookingType: 'space', spaceId: 'space-1' });
+    expect(target.targetType).toBe('space');
+    expect(target.spaceId).toBe('space-1');
+    expect(target.startTime).toBe('09:00');
+  });
+
+  it('should target the whole event for event bookings', () => {
+    expect(targetFromBooking({ ...booking, bookingType: 'event', eventId: 'event-1' })).toEqual({
+      targetType: 'event',
+      providerId: 'provider-1',
+      eventId: 'event-1',
+    });
+  });
+
+  it('should fall back to the slot when an event booking has no event', () => {
+    expect(targetFromBooking({ ...booking, bookingType: 'event' }).targetType).toBe('service');
+  });
+});
+
+describe('WaitlistError', () => {
+  it('should map codes to HTTP statuses', () => {
+    expect(new WaitlistError('full', 'NOT_FULL').status).toBe(409);
+    expect(new WaitlistError('gone', 'OFFER_UNAVAILABLE').status).toBe(410);
+    expect(new WaitlistError('missing', 'ENTRY_NOT_FOUND').status).toBe(404);
+    expect(new WaitlistError('bad', 'INVALID_TARGET').status).toBe(400);
+  });
+});
+
+describe('redeemableEntry', () => {
+  const slot = { targetType: 'service' as const, providerId: 'provider-1', date: '2025-03-09', startTime: '09:00' };
+  const claimed = {
+    id: 'entry-1',
+    customerId: 'customer-1',
+    targetType: 'service',
+    providerId: 'provider-1',
+    slotDate: new Date('2025-03-09T00:00:00Z'),
+    startTime: '09:00',
+    endTime: '10:00',
+    status: 'claimed',
+    holdId: 'hold-1',
+    bookingId: null,
+    offerExpiresAt: new Date(Date.now() + 5 * 60 * 1000),
+  };
+
+  const returning = (rows: unknown[]) => {
+    const query: any = { from: () => query, where: () => query, limit: () => Promise.resolve(rows) };
+    jest.mocked(db.select).mockReturnValue(query);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(concurrencyManager.isHoldValid).mockResolvedValue(true);
+  });
+
+  it('should return the claimant\'s entry for the offered slot', async () => {
+    returning([claimed]);
+    await expect(waitlistService.redeemableEntry('hold-1', 'customer-1', slot)).resolves.toBe(claimed);
+  });
+
+  it('should refuse a hold claimed by someone else', async () => {
+    returning([claimed]);
+    await expect(waitlistService.redeemableEntry('hold-1', 'customer-2', slot))
+      .rejects.toMatchObject({ code: 'OFFER_UNAVAILABLE' });
+  });
+
+  it('should refuse a hold for another slot', async () => {
+    returning([claimed]);
+    await expect(waitlistService.redeemableEntry('hold-1', 'customer-1', { ...slot, startTime: '11:00' }))
+      .rejects.toMatchObject({ code: 'INVALID_TARGET' });
+  });
+
+  it('should redeem an event offer only for that event', async () => {
+    const eventEntry = { ...claimed, targetType: 'event', eventId: 'event-1', slotDate: null, startTime: null };
+    const event = { targetType: 'event' as const, providerId: 'provider-1', eventId: 'event-1' };
+
+    returning([eventEntry]);
+    await expect(waitlistService.redeemableEntry('hold-1', 'customer-1', event)).resolves.toBe(eventEntry);
+
+    returning([eventEntry]);
+    await expect(waitlistService.redeemableEntry('hold-1', 'customer-1', { ...event, eventId: 'event-2' }))
+      .rejects.toMatchObject({ code: 'INVALID_TARGET' });
+  });
+
+  it('should not let a service hold book the same time on a space', async () => {
+    returning([claimed]);
+    await expect(waitlistService.redeemableEntry('hold-1', 'customer-1', { ...slot, targetType: 'space', spaceId: 'space-1' }))
+      .rejects.toMatchObject({ code: 'INVALID_TARGET' });
+  });
+
+  it('should refuse a hold that already became a booking or lapsed', async () => {
+    returning([{ ...claimed, bookingId: 'booking-1' }]);
+    await expect(waitlistService.redeemableEntry('hold-1', 'customer-1', slot))
+      .rejects.toMatchObject({ code: 'OFFER_UNAVAILABLE' });
+
+    returning([claimed]);
+    jest.mocked(concurrencyManager.isHoldValid).mockResolvedValue(false);
+    await expect(waitlistService.redeemableEntry('hold-1', 'customer-1', slot))
+      .rejects.toMatchObject({ code: 'OFFER_UNAVAILABLE' });
+  });
+});
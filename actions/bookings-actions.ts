@@ -39,6 +39,12 @@ import {
 } from "@/lib/server-action-rate-limit";
 import { awardBookingPoints } from "@/services/loyalty-service";
 import { emailService } from "@/lib/services/email-service";
+import {
+  BookingStates,
+  SLOT_HOLDING_STATES,
+  initialBookingState,
+  toBookingState,
+} from "@/lib/booking-state-machine";
 
 // Create a new booking (customer action) with rate limiting
 export async function createBookingAction(data: {
@@ -91,7 +97,7 @@ export async function createBookingAction(data: {
       bookingDate: data.bookingDate,
       startTime: data.startTime,
       endTime: data.endTime,
-      status: bookingStatus.PENDING,
+      ...initialBookingState(BookingStates.HOLD), // Slot held until confirmBookingAction records the payment
       totalAmount: totalAmount.toString(),
       platformFee: platformFee.toString(),
       providerPayout: providerPayout.toString(),
@@ -171,15 +177,15 @@ export async function confirmBookingAction(
       return { isSuccess: false, message: "Unauthorized" };
     }
 
-    if (booking.status !== bookingStatus.PENDING) {
-      return { isSuccess: false, message: "Booking is not in pending status" };
+    if (toBookingState(booking.status) !== BookingStates.HOLD) {
+      return { isSuccess: false, message: "Booking is not awaiting payment" };
     }
 
     // Update booking status
     const updatedBooking = await updateBookingStatus(
       bookingId,
       bookingStatus.CONFIRMED,
-      { stripePaymentIntentId }
+      { stripePaymentIntentId, actor: { type: "customer", id: userId } }
     );
 
     // Create transaction record
@@ -241,17 +247,17 @@ export async function cancelBookingAction(
     }
 
     // Check if booking can be cancelled
-    if (booking.status === bookingStatus.COMPLETED || booking.status === bookingStatus.CANCELLED) {
+    if (!SLOT_HOLDING_STATES.includes(toBookingState(booking.status))) {
       return { isSuccess: false, message: "Booking cannot be cancelled" };
     }
 
     // Update booking status
     const updatedBooking = await updateBookingStatus(
       bookingId,
-      bookingStatus.CANCELLED,
+      isCustomer ? bookingStatus.CANCELED_CUSTOMER : bookingStatus.CANCELED_PROVIDER,
       {
         cancellationReason: reason,
-        cancelledBy: userId,
+        actor: { type: isCustomer ? "customer" : "provider", id: userId },
       }
     );
 
@@ -635,8 +641,8 @@ export async function markBookingNoShowAction(
     // Update booking status
     const updatedBooking = await updateBookingStatus(
       bookingId,
-      bookingStatus.NO_SHOW,
-      { providerNotes: notes }
+      bookingStatus.NO_SHOW_CUSTOMER,
+      { providerNotes: notes, actor: { type: "provider", id: userId } }
     );
     
     // Audit log for no-show marking
@@ -6,6 +6,13 @@ import { db } from "@/db/db";
 import { bookingsTable, transactionsTable, providersTable } from "@/db/schema";
 import { eq, and, desc } from "drizzle-orm";
 import type { Stripe } from "stripe";
+import {
+  bookingStateEngine,
+  BookingTransitionError,
+  SLOT_HOLDING_STATES,
+  TransitionEvents,
+  toBookingState,
+} from "@/lib/booking-state-machine";
 
 // Platform fee configuration
 const PLATFORM_FEE_PERCENT = Number(process.env.NEXT_PUBLIC_PLATFORM_FEE_PERCENT) || 10;
@@ -504,17 +511,29 @@ export async function processRefund(
       })
       .where(eq(transactionsTable.bookingId, bookingId));
 
-    // Update booking status
-    await db
-      .update(bookingsTable)
-      .set({
-        status: "cancelled",
-        cancellationReason: reason || "Customer requested refund",
-        cancelledBy: userId,
-        cancelledAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(bookingsTable.id, bookingId));
+    // Cancel an active booking, then record the refund against it
+    try {
+      if (SLOT_HOLDING_STATES.includes(toBookingState(booking.status))) {
+        const actor = await bookingStateEngine.resolveActor(booking, userId);
+        await bookingStateEngine.dispatch(
+          bookingId,
+          actor.type === "customer" ? TransitionEvents.CUSTOMER_CANCELS : TransitionEvents.PROVIDER_CANCELS,
+          actor,
+          { reason: reason || "Customer requested refund" }
+        );
+      }
+
+      await bookingStateEngine.dispatch(
+        bookingId,
+        amount ? TransitionEvents.REFUND_PARTIAL : TransitionEvents.REFUND_FULL,
+        { type: "system", id: "system" },
+        { metadata: { refundAmount: refund.amount / 100 } }
+      );
+    } catch (error) {
+      // The refund already went through at Stripe; keep the result successful
+      if (!(error instanceof BookingTransitionError)) throw error;
+      console.error(`Booking ${bookingId} state not updated after refund:`, error.message);
+    }
 
     return {
       success: true,
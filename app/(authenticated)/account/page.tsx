@@ -67,7 +67,7 @@ export default async function AccountDashboard() {
         gte(bookingsTable.bookingDate, new Date()),
         or(
           eq(bookingsTable.status, "confirmed"),
-          eq(bookingsTable.status, "pending")
+          eq(bookingsTable.status, "pending_provider")
         )
       )
     )
@@ -0,0 +1,189 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Bell, BellOff, ExternalLink, Search, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { SavedSearchFrequency, SavedSearchQuery } from "@/db/schema/saved-searches-schema";
+
+interface SavedSearchItem {
+  id: string;
+  name: string;
+  query: SavedSearchQuery;
+  frequency: SavedSearchFrequency;
+  isActive: boolean;
+  lastNotifiedAt: Date | null;
+  createdAt: Date;
+  searchUrl: string;
+}
+
+interface SavedSearchesClientProps {
+  savedSearches: SavedSearchItem[];
+}
+
+// Short labels for the filters of a saved search
+function describeQuery(query: SavedSearchQuery): string[] {
+  const labels: string[] = [];
+  if (query.query) labels.push(`"${query.query}"`);
+  query.verticals?.forEach((vertical) => labels.push(vertical));
+  query.categories?.forEach((category) => labels.push(category));
+  if (query.location) labels.push(`Within ${query.location.radiusKm ?? 10} km`);
+  if (query.priceRange) labels.push(`$${query.priceRange.min} - $${query.priceRange.max}`);
+  return labels;
+}
+
+export function SavedSearchesClient({ savedSearches: initialSearches }: SavedSearchesClientProps) {
+  const [savedSearches, setSavedSearches] = useState(initialSearches);
+
+  const updateSearch = async (id: string, changes: Partial<Pick<SavedSearchItem, "frequency" | "isActive">>) => {
+    try {
+      const response = await fetch(`/api/saved-searches/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to update saved search");
+      }
+
+      setSavedSearches((current) =>
+        current.map((search) => (search.id === id ? { ...search, ...changes } : search))
+      );
+    } catch (error) {
+      toast.error("Failed to update saved search");
+    }
+  };
+
+  const deleteSearch = async (id: string) => {
+    try {
+      const response = await fetch(`/api/saved-searches/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error("Failed to delete saved search");
+      }
+
+      setSavedSearches((current) => current.filter((search) => search.id !== id));
+      toast.success("Saved search deleted");
+    } catch (error) {
+      toast.error("Failed to delete saved search");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Saved Searches</CardTitle>
+              <CardDescription>
+                We&apos;ll let you know when new providers, events, spaces and things match these searches
+              </CardDescription>
+            </div>
+            <Search className="h-8 w-8 text-blue-600" />
+          </div>
+        </CardHeader>
+      </Card>
+
+      {savedSearches.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Search className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600 mb-4">
+              You haven&apos;t saved any searches yet. Search the marketplace and choose &quot;Save search&quot;.
+            </p>
+            <Link href="/marketplace">
+              <Button>Browse Marketplace</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {savedSearches.map((search) => (
+            <Card key={search.id} className={search.isActive ? undefined : "opacity-70"}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-2">
+                    <h3 className="font-semibold">{search.name}</h3>
+                    <div className="flex flex-wrap gap-1">
+                      {describeQuery(search.query).map((label) => (
+                        <Badge key={label} variant="secondary" className="capitalize">
+                          {label}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {search.lastNotifiedAt
+                        ? `Last alert ${format(new Date(search.lastNotifiedAt), "MMM d, yyyy")}`
+                        : `Saved ${format(new Date(search.createdAt), "MMM d, yyyy")}`}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Link href={search.searchUrl}>
+                      <Button variant="outline" size="sm">
+                        <ExternalLink className="h-4 w-4 mr-2" />
+                        Results
+                      </Button>
+                    </Link>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteSearch(search.id)}
+                      aria-label="Delete saved search"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    {search.isActive ? (
+                      <Bell className="h-4 w-4 text-gray-600" />
+                    ) : (
+                      <BellOff className="h-4 w-4 text-gray-400" />
+                    )}
+                    <Switch
+                      checked={search.isActive}
+                      onCheckedChange={(isActive) => updateSearch(search.id, { isActive })}
+                      aria-label="Alerts"
+                    />
+                    <span className="text-sm">{search.isActive ? "Alerts on" : "Paused"}</span>
+                  </div>
+
+                  <Select
+                    value={search.frequency}
+                    onValueChange={(frequency) =>
+                      updateSearch(search.id, { frequency: frequency as SavedSearchFrequency })
+                    }
+                    disabled={!search.isActive}
+                  >
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="instant">Instantly</SelectItem>
+                      <SelectItem value="daily">Daily digest</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
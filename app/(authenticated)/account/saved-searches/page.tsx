@@ -0,0 +1,29 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { savedSearchService, searchUrlOf } from "@/lib/search/saved-search-service";
+import { SavedSearchesClient } from "./SavedSearchesClient";
+
+export default async function SavedSearchesPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/login");
+  }
+
+  const savedSearches = await savedSearchService.list(userId);
+
+  return (
+    <SavedSearchesClient
+      savedSearches={savedSearches.map((search) => ({
+        id: search.id,
+        name: search.name,
+        query: search.query,
+        frequency: search.frequency,
+        isActive: search.isActive,
+        lastNotifiedAt: search.lastNotifiedAt,
+        createdAt: search.createdAt,
+        searchUrl: searchUrlOf(search.query),
+      }))}
+    />
+  );
+}
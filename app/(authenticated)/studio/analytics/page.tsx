@@ -181,7 +181,7 @@ async function getProviderAnalytics(providerId: string) {
       oneStar: sql<number>`COUNT(CASE WHEN ${reviewsTable.rating} = 1 THEN 1 END)`,
     })
     .from(reviewsTable)
-    .where(eq(reviewsTable.providerId, providerId));
+    .where(and(eq(reviewsTable.providerId, providerId), eq(reviewsTable.isPublished, true))); // Hidden until revealed
 
   // Daily earnings for chart (last 30 days)
   const dailyEarnings = await db
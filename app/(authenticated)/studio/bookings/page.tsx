@@ -205,8 +205,8 @@ export default async function BookingsPage() {
                           <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
                             booking.status === 'completed' ? 'bg-green-100 text-green-800' :
                             booking.status === 'confirmed' ? 'bg-blue-100 text-blue-800' :
-                            booking.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                            booking.status === 'cancelled' ? 'bg-red-100 text-red-800' :
+                            booking.status === 'pending_provider' ? 'bg-yellow-100 text-yellow-800' :
+                            booking.status.startsWith('canceled_') ? 'bg-red-100 text-red-800' :
                             'bg-gray-100 text-gray-800'
                           }`}>
                             {booking.status.toLowerCase().replace(/_/g, ' ')}
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { useQuery, useInfiniteQuery } from "@tanstack/react-query";
 import { motion, AnimatePresence } from "framer-motion";
@@ -38,6 +38,7 @@ import { useToast } from "@/components/ui/use-toast";
 import { UnifiedSearchBar } from "@/components/search/UnifiedSearchBar";
 import { SearchFilters, FilterState } from "@/components/search/SearchFilters";
 import { LocationPicker } from "@/components/search/LocationPicker";
+import { SaveSearchButton } from "@/components/search/SaveSearchButton";
 import { FeaturedSection } from "@/components/discovery/FeaturedSection";
 import { CategoryBrowser } from "@/components/discovery/CategoryBrowser";
 import { UniversalListingCard } from "@/components/marketplace/cards/UniversalListingCard";
@@ -75,6 +76,8 @@ export default function MarketplacePage() {
   const [selectedVertical, setSelectedVertical] = useState(initialVertical);
   const [sortBy, setSortBy] = useState(initialSort);
   const [location, setLocation] = useState<any>(null);
+  // Logged search the loaded pages belong to, for impressions and clicks
+  const searchIdRef = useRef<string | null>(null);
 
   // Detect mobile
   const [isMobile, setIsMobile] = useState(false);
@@ -104,18 +107,24 @@ export default function MarketplacePage() {
         sortBy,
       });
 
+      if (pageParam > 1 && searchIdRef.current) {
+        params.append("searchId", searchIdRef.current);
+      }
+
       if (selectedVertical !== "all") {
-        params.append("verticals[]", selectedVertical);
+        params.append("verticals", selectedVertical);
       }
 
-      if (initialCategory) {
-        params.append("category", initialCategory);
+      if (filters.category || initialCategory) {
+        params.append("category", filters.category || initialCategory);
       }
 
       // Add common filters
       if (filters.priceRange) {
         params.append("minPrice", filters.priceRange.min.toString());
-        params.append("maxPrice", filters.priceRange.max.toString());
+        if (filters.priceRange.max !== undefined) {
+          params.append("maxPrice", filters.priceRange.max.toString());
+        }
       }
 
       if (filters.location || location) {
@@ -129,11 +138,16 @@ export default function MarketplacePage() {
         params.append("minRating", filters.rating.toString());
       }
 
-      // Add service-specific filters
+      // Services and spaces with an open slot
       if (filters.availability) {
-        params.append("availability", filters.availability);
+        params.append("availableDate", filters.availability.date);
+        if (filters.availability.time) {
+          params.append("availableTime", filters.availability.time);
+        }
       }
 
+      // Add service-specific filters
+
       if (filters.instantBooking !== undefined) {
         params.append("instantBooking", filters.instantBooking.toString());
       }
@@ -180,9 +194,7 @@ export default function MarketplacePage() {
       }
 
       if (filters.amenities && filters.amenities.length > 0) {
-        filters.amenities.forEach(amenity => {
-          params.append("amenities[]", amenity);
-        });
+        params.append("amenities", filters.amenities.join(","));
       }
 
       if (filters.priceUnit) {
@@ -212,7 +224,11 @@ export default function MarketplacePage() {
 
       const response = await fetch(`/api/unified-search?${params.toString()}`);
       if (!response.ok) throw new Error("Failed to fetch results");
-      return response.json();
+      const { data } = await response.json();
+      if (pageParam === 1) {
+        searchIdRef.current = data.searchId ?? null;
+      }
+      return data;
     },
     getNextPageParam: (lastPage) => {
       if (lastPage.pagination.page < lastPage.pagination.totalPages) {
@@ -228,6 +244,7 @@ export default function MarketplacePage() {
   const results = searchData?.pages.flatMap(page => page.results) || [];
   const totalResults = searchData?.pages[0]?.pagination.total || 0;
   const categories = searchData?.pages[0]?.categories || [];
+  const facets = searchData?.pages[0]?.facets;
 
   // Handle search
   const handleSearch = useCallback((query: string, searchFilters?: any) => {
@@ -275,6 +292,16 @@ export default function MarketplacePage() {
 
   // Handle listing interactions
   const handleItemClick = (item: ListingData) => {
+    const searchId = searchData?.pages[0]?.searchId;
+    if (searchId) {
+      // keepalive lets the click outlive the navigation
+      fetch("/api/unified-search/clicks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ searchId, listingId: item.id }),
+        keepalive: true,
+      }).catch(() => {});
+    }
     router.push(`/listing/${item.type}/${item.id}`);
   };
 
@@ -410,7 +437,9 @@ export default function MarketplacePage() {
                     filters={filters}
                     onFiltersChange={handleFiltersChange}
                     onApply={handleApplyFilters}
+                    onVerticalChange={setSelectedVertical}
                     categories={categories}
+                    facets={facets}
                   />
                 </div>
               </aside>
@@ -438,6 +467,14 @@ export default function MarketplacePage() {
                 </div>
 
                 <div className="flex items-center gap-2">
+                  <SaveSearchButton
+                    query={initialQuery}
+                    vertical={selectedVertical}
+                    category={filters.category || initialCategory}
+                    filters={filters}
+                    location={location}
+                  />
+
                   {/* Mobile Filter Button */}
                   {isMobile && (
                     <Button
@@ -496,7 +533,9 @@ export default function MarketplacePage() {
                 <div className="flex flex-wrap gap-2 mb-4">
                   {filters.priceRange && (
                     <Badge variant="secondary">
-                      ${filters.priceRange.min} - ${filters.priceRange.max}
+                      {filters.priceRange.max !== undefined
+                        ? `$${filters.priceRange.min} - $${filters.priceRange.max}`
+                        : `$${filters.priceRange.min}+`}
                       <button
                         onClick={() => setFilters({ ...filters, priceRange: undefined })}
                         className="ml-2"
@@ -505,6 +544,17 @@ export default function MarketplacePage() {
                       </button>
                     </Badge>
                   )}
+                  {filters.category && (
+                    <Badge variant="secondary" className="capitalize">
+                      {filters.category.replace("_", " ")}
+                      <button
+                        onClick={() => setFilters({ ...filters, category: undefined })}
+                        className="ml-2"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  )}
                   {filters.rating && (
                     <Badge variant="secondary">
                       {filters.rating}+ stars
@@ -540,7 +590,8 @@ export default function MarketplacePage() {
                   )}
                   {filters.availability && (
                     <Badge variant="secondary">
-                      {filters.availability === "available" ? "Available Now" : filters.availability}
+                      Available {filters.availability.date}
+                      {filters.availability.time && ` from ${filters.availability.time}`}
                       <button
                         onClick={() => setFilters({ ...filters, availability: undefined })}
                         className="ml-2"
@@ -668,7 +719,9 @@ export default function MarketplacePage() {
             onFiltersChange={handleFiltersChange}
             onApply={handleApplyFilters}
             onReset={() => setFilters({})}
+            onVerticalChange={setSelectedVertical}
             categories={categories}
+            facets={facets}
             isMobile
           />
         </SheetContent>
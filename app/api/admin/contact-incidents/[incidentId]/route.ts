@@ -0,0 +1,64 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { createSecureApiHandler, createApiResponse, createApiError, getValidatedBody, type ApiContext } from "@/lib/security/api-handler";
+import { contactScreeningService, ContactScreeningError } from "@/lib/security/contact-screening-service";
+import { logAdminAction } from "@/lib/admin/admin-utils";
+
+/**
+ * Contact Screening Incident Review API
+ * PATCH /api/admin/contact-incidents/[incidentId] - Dismiss or confirm an incident
+ *
+ * Dismissed incidents are treated as false positives and no longer count
+ * towards the user being blocked.
+ */
+
+const reviewIncidentSchema = z.object({
+  status: z.enum(["dismissed", "confirmed"]),
+  note: z.string().max(1000).optional(),
+});
+
+/**
+ * PATCH handler - Record the review decision
+ */
+async function handleReviewIncident(req: NextRequest, context: ApiContext) {
+  try {
+    const { userId } = context;
+    const { incidentId } = context.params as { incidentId: string };
+    const body = getValidatedBody<z.infer<typeof reviewIncidentSchema>>(req);
+
+    if (!body) {
+      return createApiError("Invalid request body", { status: 400 });
+    }
+
+    const incident = await contactScreeningService.reviewIncident(incidentId, userId!, body);
+
+    await logAdminAction(userId!, `contact_incident_${body.status}`, "contact_screening_incident", incidentId, {
+      note: body.note,
+      offenderId: incident.userId,
+    });
+
+    return createApiResponse({ incident }, { message: `Incident ${body.status}` });
+  } catch (error) {
+    if (error instanceof ContactScreeningError) {
+      return createApiError(error.message, { status: error.status, code: error.code });
+    }
+
+    console.error("Error reviewing contact incident:", error);
+    return createApiError("Failed to review contact incident", {
+      status: 500,
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+}
+
+// PATCH: Admin-only endpoint for reviewing incidents
+export const PATCH = createSecureApiHandler(
+  handleReviewIncident,
+  {
+    requireAdmin: true,
+    validateBody: reviewIncidentSchema,
+    rateLimit: { requests: 60, window: '1m' },
+    auditLog: true,
+    allowedMethods: ['PATCH'],
+  }
+);
@@ -0,0 +1,55 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { createSecureApiHandler, createApiResponse, createApiError, getValidatedQuery } from "@/lib/security/api-handler";
+import { contactScreeningService } from "@/lib/security/contact-screening-service";
+
+/**
+ * Contact Screening Incidents API
+ * GET /api/admin/contact-incidents - Review queue of masked and blocked attempts
+ * to share contact details before payment
+ */
+
+const listIncidentsSchema = z.object({
+  status: z.enum(["open", "dismissed", "confirmed"]).optional(),
+  userId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * GET handler - List incidents, newest first
+ */
+async function handleListIncidents(req: NextRequest) {
+  try {
+    const query = getValidatedQuery<z.infer<typeof listIncidentsSchema>>(req);
+
+    if (!query) {
+      return createApiError("Invalid query parameters", { status: 400 });
+    }
+
+    const incidents = await contactScreeningService.listIncidents(query);
+
+    return createApiResponse({
+      incidents,
+      pagination: { limit: query.limit, offset: query.offset },
+    });
+  } catch (error) {
+    console.error("Error listing contact incidents:", error);
+    return createApiError("Failed to list contact incidents", {
+      status: 500,
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+}
+
+// GET: Admin-only endpoint for the review queue
+export const GET = createSecureApiHandler(
+  handleListIncidents,
+  {
+    requireAdmin: true,
+    validateQuery: listIncidentsSchema,
+    rateLimit: { requests: 60, window: '1m' },
+    auditLog: true,
+    allowedMethods: ['GET'],
+  }
+);
@@ -0,0 +1,66 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { createSecureApiHandler, createApiResponse, createApiError, getValidatedBody, type ApiContext } from "@/lib/security/api-handler";
+import { reviewModerationService, ReviewModerationError } from "@/lib/reviews/review-moderation-service";
+import { logAdminAction } from "@/lib/admin/admin-utils";
+
+/**
+ * Review Moderation Decision API
+ * PATCH /api/admin/review-moderation/[caseId] - Keep or remove the review
+ *
+ * Keeping a flagged review shows it again; removing keeps it hidden from
+ * listings and the provider rating. Either way the rating is recomputed.
+ */
+
+const decideCaseSchema = z.object({
+  status: z.enum(["kept", "removed"]),
+  note: z.string().max(1000).optional(),
+});
+
+/**
+ * PATCH handler - Record the decision
+ */
+async function handleDecideCase(req: NextRequest, context: ApiContext) {
+  try {
+    const { userId } = context;
+    const { caseId } = context.params as { caseId: string };
+    const body = getValidatedBody<z.infer<typeof decideCaseSchema>>(req);
+
+    if (!body) {
+      return createApiError("Invalid request body", { status: 400 });
+    }
+
+    const decided = await reviewModerationService.decide(caseId, userId!, body);
+
+    await logAdminAction(userId!, `review_${body.status}`, "review", decided.reviewId, {
+      caseId,
+      source: decided.source,
+      findings: decided.findings.map(finding => finding.check),
+      note: body.note,
+    });
+
+    return createApiResponse({ case: decided }, { message: `Review ${body.status}` });
+  } catch (error) {
+    if (error instanceof ReviewModerationError) {
+      return createApiError(error.message, { status: error.status, code: error.code });
+    }
+
+    console.error("Error deciding review moderation case:", error);
+    return createApiError("Failed to decide review moderation case", {
+      status: 500,
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+}
+
+// PATCH: Admin-only endpoint for moderation decisions
+export const PATCH = createSecureApiHandler(
+  handleDecideCase,
+  {
+    requireAdmin: true,
+    validateBody: decideCaseSchema,
+    rateLimit: { requests: 60, window: '1m' },
+    auditLog: true,
+    allowedMethods: ['PATCH'],
+  }
+);
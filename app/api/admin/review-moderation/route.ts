@@ -0,0 +1,55 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { createSecureApiHandler, createApiResponse, createApiError, getValidatedQuery } from "@/lib/security/api-handler";
+import { reviewModerationService } from "@/lib/reviews/review-moderation-service";
+
+/**
+ * Review Moderation API
+ * GET /api/admin/review-moderation - Queue of reviews flagged by the automated
+ * abuse checks and reviews appealed by providers
+ */
+
+const listCasesSchema = z.object({
+  status: z.enum(["open", "kept", "removed"]).default("open"),
+  source: z.enum(["automated", "appeal"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * GET handler - List cases, oldest open case first
+ */
+async function handleListCases(req: NextRequest) {
+  try {
+    const query = getValidatedQuery<z.infer<typeof listCasesSchema>>(req);
+
+    if (!query) {
+      return createApiError("Invalid query parameters", { status: 400 });
+    }
+
+    const cases = await reviewModerationService.listCases(query);
+
+    return createApiResponse({
+      cases,
+      pagination: { limit: query.limit, offset: query.offset },
+    });
+  } catch (error) {
+    console.error("Error listing review moderation cases:", error);
+    return createApiError("Failed to list review moderation cases", {
+      status: 500,
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+}
+
+// GET: Admin-only endpoint for the moderation queue
+export const GET = createSecureApiHandler(
+  handleListCases,
+  {
+    requireAdmin: true,
+    validateQuery: listCasesSchema,
+    rateLimit: { requests: 60, window: '1m' },
+    auditLog: true,
+    allowedMethods: ['GET'],
+  }
+);
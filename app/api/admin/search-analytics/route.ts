@@ -0,0 +1,78 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { createSecureApiHandler, createApiResponse, createApiError, getValidatedQuery } from "@/lib/security/api-handler";
+import {
+  searchAnalyticsService,
+  DEFAULT_REPORT_DAYS,
+  DEFAULT_REPORT_LIMIT,
+  LOW_CTR_MIN_SEARCHES,
+  LOW_CTR_THRESHOLD,
+} from "@/lib/search/search-analytics";
+
+/**
+ * Search Analytics API
+ * GET /api/admin/search-analytics - Search reports:
+ * - zero_results: queries that found nothing
+ * - low_ctr: queries with results that customers rarely click
+ * - weight_sets: click-through and bookings per ranking weight set (A/B tests)
+ */
+
+const reportSchema = z.object({
+  report: z.enum(["zero_results", "low_ctr", "weight_sets"]),
+  days: z.coerce.number().int().min(1).max(365).default(DEFAULT_REPORT_DAYS),
+  limit: z.coerce.number().int().min(1).max(500).default(DEFAULT_REPORT_LIMIT),
+  minSearches: z.coerce.number().int().min(1).default(LOW_CTR_MIN_SEARCHES),
+  maxClickThroughRate: z.coerce.number().min(0).max(1).default(LOW_CTR_THRESHOLD),
+});
+
+/**
+ * GET handler - Run one report
+ */
+async function handleReport(req: NextRequest) {
+  try {
+    const query = getValidatedQuery<z.infer<typeof reportSchema>>(req);
+
+    if (!query) {
+      return createApiError("Invalid query parameters", { status: 400 });
+    }
+
+    switch (query.report) {
+      case "zero_results":
+        return createApiResponse({
+          report: query.report,
+          days: query.days,
+          queries: await searchAnalyticsService.getZeroResultQueries(query),
+        });
+      case "low_ctr":
+        return createApiResponse({
+          report: query.report,
+          days: query.days,
+          queries: await searchAnalyticsService.getLowCtrQueries(query),
+        });
+      case "weight_sets":
+        return createApiResponse({
+          report: query.report,
+          days: query.days,
+          weightSets: await searchAnalyticsService.getWeightSetPerformance(query),
+        });
+    }
+  } catch (error) {
+    console.error("Error running search analytics report:", error);
+    return createApiError("Failed to run search analytics report", {
+      status: 500,
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+}
+
+// GET: Admin-only endpoint for search reports
+export const GET = createSecureApiHandler(
+  handleReport,
+  {
+    requireAdmin: true,
+    validateQuery: reportSchema,
+    rateLimit: { requests: 60, window: '1m' },
+    auditLog: true,
+    allowedMethods: ['GET'],
+  }
+);
@@ -0,0 +1,68 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { createSecureApiHandler, createApiResponse, createApiError, getValidatedBody, type ApiContext } from "@/lib/security/api-handler";
+import { thingOrderService, OrderError } from "@/lib/things/order-service";
+import { logAdminAction } from "@/lib/admin/admin-utils";
+
+/**
+ * Disputed Thing Order API
+ * PATCH /api/admin/thing-orders/[orderId] - Resolve a disputed order
+ *
+ * Support either refunds the buyer, which relists the item, or releases the
+ * escrowed funds to the seller.
+ */
+
+const resolveDisputeSchema = z.object({
+  refundBuyer: z.boolean(),
+  note: z.string().max(1000).optional(),
+});
+
+/**
+ * PATCH handler - Record the support decision
+ */
+async function handleResolveDispute(req: NextRequest, context: ApiContext) {
+  try {
+    const { userId } = context;
+    const { orderId } = context.params as { orderId: string };
+    const body = getValidatedBody<z.infer<typeof resolveDisputeSchema>>(req);
+
+    if (!body) {
+      return createApiError("Invalid request body", { status: 400 });
+    }
+
+    const order = await thingOrderService.resolveDispute(orderId, body);
+    const action = body.refundBuyer ? "thing_order_dispute_refunded" : "thing_order_dispute_released";
+
+    await logAdminAction(userId!, action, "thing_order", orderId, {
+      note: body.note,
+      buyerId: order.buyerId,
+      sellerId: order.sellerId,
+    });
+
+    return createApiResponse({ order }, {
+      message: body.refundBuyer ? "Buyer refunded" : "Funds released to seller"
+    });
+  } catch (error) {
+    if (error instanceof OrderError) {
+      return createApiError(error.message, { status: error.status, code: error.code });
+    }
+
+    console.error("Error resolving disputed order:", error);
+    return createApiError("Failed to resolve disputed order", {
+      status: 500,
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+}
+
+// PATCH: Admin-only endpoint for resolving disputes
+export const PATCH = createSecureApiHandler(
+  handleResolveDispute,
+  {
+    requireAdmin: true,
+    validateBody: resolveDisputeSchema,
+    rateLimit: { requests: 60, window: '1m' },
+    auditLog: true,
+    allowedMethods: ['PATCH'],
+  }
+);
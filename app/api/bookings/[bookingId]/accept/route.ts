@@ -3,7 +3,7 @@
  * Provider Accept Booking API
  * 
  * Allows providers to accept pending bookings.
- * Triggers notifications and moves booking to payment collection phase.
+ * Triggers notifications and confirms the booking through the state engine.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -11,7 +11,13 @@ import { auth } from '@clerk/nextjs/server';
 import { db } from '@/db/db';
 import { bookingsTable, providersTable } from '@/db/schema/enhanced-booking-schema';
 import { eq, and } from 'drizzle-orm';
-import { bookingStateMachine, BookingState } from '@/lib/bookings/booking-state-machine';
+import {
+  bookingStateEngine,
+  BookingStates,
+  BookingTransitionError,
+  TransitionEvents,
+  toBookingState
+} from '@/lib/booking-state-machine';
 import { notificationService } from '@/lib/notifications/notification-service';
 import { emailService } from '@/lib/services/email-service';
 import { z } from 'zod';
@@ -102,8 +108,8 @@ export async function POST(
     }
 
     // Check current state - must be PENDING_PROVIDER
-    const currentState = booking.booking.status as BookingState;
-    if (currentState !== BookingState.PENDING_PROVIDER) {
+    const currentState = toBookingState(booking.booking.status);
+    if (currentState !== BookingStates.PENDING_PROVIDER) {
       return NextResponse.json(
         { 
           error: 'Invalid booking state',
@@ -115,10 +121,11 @@ export async function POST(
     }
 
     // Accept the booking using state machine
-    await bookingStateMachine.acceptBooking(
+    await bookingStateEngine.dispatch(
       bookingId,
-      userId,
-      notes
+      TransitionEvents.PROVIDER_ACCEPTS,
+      { type: 'provider', id: userId },
+      { reason: 'Provider accepted booking', metadata: { notes } }
     );
 
     // Update booking with additional provider information
@@ -182,9 +189,8 @@ export async function POST(
         providerNotes: updatedBooking.providerNotes
       },
       nextSteps: {
-        customer: 'Customer has been notified and will proceed to payment',
-        provider: 'You will be notified once payment is confirmed',
-        paymentDeadline: new Date(Date.now() + 15 * 60 * 1000).toISOString() // 15 minutes
+        customer: 'Customer has been notified that the booking is confirmed',
+        provider: 'The booking is on your schedule'
       }
     });
 
@@ -192,16 +198,15 @@ export async function POST(
     console.error('Error accepting booking:', error);
     
     // Check for specific error types
-    if (error instanceof Error) {
-      if (error.message.includes('Invalid state transition')) {
-        return NextResponse.json(
-          { 
-            error: 'Invalid operation',
-            message: error.message 
-          },
-          { status: 400 }
-        );
-      }
+    if (error instanceof BookingTransitionError) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid operation',
+          message: error.message,
+          code: error.code
+        },
+        { status: error.status }
+      );
     }
 
     return NextResponse.json(
@@ -250,8 +255,8 @@ export async function GET(
 
     // Check if user is the provider
     const isProvider = booking.provider?.userId === userId;
-    const currentState = booking.booking.status as BookingState;
-    const canAccept = isProvider && currentState === BookingState.PENDING_PROVIDER;
+    const currentState = toBookingState(booking.booking.status);
+    const canAccept = isProvider && currentState === BookingStates.PENDING_PROVIDER;
 
     return NextResponse.json({
       canAccept,
@@ -12,7 +12,13 @@ import { z } from "zod";
 import { db } from "@/db/db";
 import { bookingsTable, providersTable } from "@/db/schema/enhanced-booking-schema";
 import { eq } from "drizzle-orm";
-import { bookingStateMachine, BookingState } from "@/lib/bookings/booking-state-machine";
+import {
+  bookingStateEngine,
+  BookingStates,
+  BookingTransitionError,
+  TransitionEvents,
+  toBookingState
+} from "@/lib/booking-state-machine";
 import { payoutService } from "@/lib/payments/payout-service";
 import { notificationService } from "@/lib/notifications/notification-service";
 import { RateLimiter } from "@/lib/rate-limiter";
@@ -89,7 +95,7 @@ export async function POST(
     
     if (!isProvider) {
       // Allow customer to confirm completion in certain cases
-      if (isCustomer && booking.booking.status === BookingState.IN_PROGRESS) {
+      if (isCustomer && toBookingState(booking.booking.status) === BookingStates.IN_PROGRESS) {
         // Customer can confirm service completion
       } else {
         return NextResponse.json(
@@ -100,10 +106,10 @@ export async function POST(
     }
     
     // Check if booking can be completed
-    const currentState = booking.booking.status as BookingState;
+    const currentState = toBookingState(booking.booking.status);
     const validStatesForCompletion = [
-      BookingState.IN_PROGRESS,
-      BookingState.PAYMENT_SUCCEEDED // Allow direct completion after payment for instant services
+      BookingStates.IN_PROGRESS,
+      BookingStates.CONFIRMED // Allow direct completion after payment for instant services
     ];
     
     if (!validStatesForCompletion.includes(currentState)) {
@@ -118,11 +124,16 @@ export async function POST(
     }
     
     // Complete the booking using state machine
-    await bookingStateMachine.completeBooking(
-      params.bookingId,
-      userId,
-      validatedData.notes
-    );
+    const actor = { type: isProvider ? 'provider' : 'customer', id: userId } as const;
+    if (currentState === BookingStates.CONFIRMED) {
+      await bookingStateEngine.dispatch(params.bookingId, TransitionEvents.SERVICE_START, actor, {
+        reason: 'Service started'
+      });
+    }
+    await bookingStateEngine.dispatch(params.bookingId, TransitionEvents.SERVICE_END, actor, {
+      reason: 'Service completed successfully',
+      metadata: { notes: validatedData.notes }
+    });
     
     // Store completion details
     await db
@@ -201,17 +212,18 @@ export async function POST(
       );
     }
     
+    if (error instanceof BookingTransitionError) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid operation',
+          message: error.message,
+          code: error.code
+        },
+        { status: error.status }
+      );
+    }
+    
     if (error instanceof Error) {
-      if (error.message.includes('Invalid state transition')) {
-        return NextResponse.json(
-          { 
-            error: 'Invalid operation',
-            message: error.message 
-          },
-          { status: 400 }
-        );
-      }
-      
       return NextResponse.json(
         { error: error.message },
         { status: 400 }
@@ -262,11 +274,11 @@ export async function GET(
     // Check permissions
     const isProvider = booking.provider?.userId === userId;
     const isCustomer = booking.booking.customerId === userId;
-    const currentState = booking.booking.status as BookingState;
+    const currentState = toBookingState(booking.booking.status);
     
     const canComplete = (isProvider || isCustomer) && 
-                       (currentState === BookingState.IN_PROGRESS || 
-                        currentState === BookingState.PAYMENT_SUCCEEDED);
+                       (currentState === BookingStates.IN_PROGRESS || 
+                        currentState === BookingStates.CONFIRMED);
 
     return NextResponse.json({
       canComplete,
@@ -12,6 +12,9 @@ import { bookingsTable, transactionsTable } from "@/db/schema/bookings-schema";
 import { profilesTable } from "@/db/schema/profiles-schema";
 import { eq, and } from "drizzle-orm";
 import { withRateLimitRedis } from "@/lib/rate-limit-redis";
+import { formatAmount } from "@/lib/payments/currency";
+import { formatTaxLineLabel } from "@/lib/payments/tax-engine";
+import { taxService } from "@/lib/payments/tax-service";
 
 export const GET = withRateLimitRedis(
   { type: "api" },
@@ -58,11 +61,14 @@ export const GET = withRateLimitRedis(
         );
       }
 
+      const taxLines = await taxService.getBookingTaxLines(bookingId);
+
       // Generate receipt HTML
       const receiptHtml = generateReceiptHtml({
         booking: record.booking,
         transaction: record.transaction,
         customer: record.customer,
+        taxLines,
       });
 
       // For now, return HTML. In production, you'd want to use a PDF generator
@@ -85,13 +91,17 @@ export const GET = withRateLimitRedis(
   }
 );
 
-function generateReceiptHtml({ booking, transaction, customer }: {
+function generateReceiptHtml({ booking, transaction, customer, taxLines }: {
   booking: any;
   transaction: any;
   customer: any;
+  taxLines: any[];
 }): string {
   const bookingDate = new Date(booking.bookingDate).toLocaleDateString();
   const paymentDate = new Date(transaction?.createdAt || booking.createdAt).toLocaleDateString();
+  const money = (amount: string | number) => formatAmount(parseFloat(String(amount)), booking.currency);
+  const taxAmount = parseFloat(booking.taxAmount || "0");
+  const guestFee = parseFloat(booking.totalAmount) - parseFloat(booking.servicePrice) - taxAmount;
   
   return `
 <!DOCTYPE html>
@@ -217,40 +227,47 @@ function generateReceiptHtml({ booking, transaction, customer }: {
         
         <div class="breakdown-row">
             <span>Service Amount</span>
-            <span>$${booking.servicePrice}</span>
+            <span>${money(booking.servicePrice)}</span>
         </div>
         
         ${booking.isGuestBooking ? `
         <div class="breakdown-row">
             <span>Guest Service Fee (10%)</span>
-            <span>$${(parseFloat(booking.totalAmount) - parseFloat(booking.servicePrice)).toFixed(2)}</span>
+            <span>${money(guestFee)}</span>
         </div>
         ` : ''}
         
+        ${taxLines.map(line => `
+        <div class="breakdown-row">
+            <span>${formatTaxLineLabel(line)}</span>
+            <span>${money(line.taxAmount)}</span>
+        </div>
+        `).join('')}
+        
         <div class="breakdown-row total-row">
             <span>Total Paid</span>
-            <span>$${booking.totalAmount}</span>
+            <span>${money(booking.totalAmount)}</span>
         </div>
         
         ${transaction?.refundAmount ? `
         <div class="breakdown-row" style="color: #dc3545;">
             <span>Refunded</span>
-            <span>-$${transaction.refundAmount}</span>
+            <span>-${money(transaction.refundAmount)}</span>
         </div>
         <div class="breakdown-row total-row" style="color: #28a745;">
             <span>Net Amount</span>
-            <span>$${(parseFloat(booking.totalAmount) - parseFloat(transaction.refundAmount)).toFixed(2)}</span>
+            <span>${money(parseFloat(booking.totalAmount) - parseFloat(transaction.refundAmount))}</span>
         </div>
         ` : ''}
         
         <div style="margin-top: 20px; padding-top: 15px; border-top: 1px solid #eee; font-size: 12px; color: #666;">
             <div class="breakdown-row">
                 <span>Platform Fee (10%)</span>
-                <span>$${booking.platformFee}</span>
+                <span>${money(booking.platformFee)}</span>
             </div>
             <div class="breakdown-row">
                 <span>Provider Payout (90%)</span>
-                <span>$${booking.providerPayout}</span>
+                <span>${money(booking.providerPayout)}</span>
             </div>
         </div>
     </div>
@@ -11,10 +11,17 @@ import { auth } from '@clerk/nextjs/server';
 import { db } from '@/db/db';
 import { bookingsTable, providersTable } from '@/db/schema/enhanced-booking-schema';
 import { eq } from 'drizzle-orm';
-import { bookingStateMachine, BookingState } from '@/lib/bookings/booking-state-machine';
+import {
+  bookingStateEngine,
+  BookingStates,
+  BookingTransitionError,
+  TransitionEvents,
+  toBookingState
+} from '@/lib/booking-state-machine';
 import { notificationService } from '@/lib/notifications/notification-service';
 import { emailService } from '@/lib/services/email-service';
-import { stripe } from '@/lib/stripe-enhanced';
+import { cancellationPolicyService } from '@/lib/bookings/cancellation-policy-service';
+import { fromMinorUnits } from '@/lib/payments/currency';
 import { z } from 'zod';
 import { RateLimiter } from '@/lib/rate-limiter';
 
@@ -113,8 +120,8 @@ export async function POST(
     }
 
     // Check current state - must be PENDING_PROVIDER
-    const currentState = booking.booking.status as BookingState;
-    if (currentState !== BookingState.PENDING_PROVIDER) {
+    const currentState = toBookingState(booking.booking.status);
+    if (currentState !== BookingStates.PENDING_PROVIDER) {
       return NextResponse.json(
         { 
           error: 'Invalid booking state',
@@ -126,10 +133,11 @@ export async function POST(
     }
 
     // Reject the booking using state machine
-    await bookingStateMachine.rejectBooking(
+    await bookingStateEngine.dispatch(
       bookingId,
-      userId,
-      reason
+      TransitionEvents.PROVIDER_REJECTS,
+      { type: 'provider', id: userId },
+      { reason: `Provider rejected: ${reason}`, metadata: { cancellationReason: reason } }
     );
 
     // Update booking with rejection details
@@ -147,43 +155,24 @@ export async function POST(
       })
       .where(eq(bookingsTable.id, bookingId));
 
-    // Process refund if payment was already made
+    // Payment captured at checkout even when the booking waited on the provider
+    // (e.g. a customer below their minimum rating); refund it in full
     let refundInfo = null;
-    if (booking.booking.stripePaymentIntentId) {
-      try {
-        // Full refund for provider rejection
-        const refund = await stripe.refunds.create({
-          payment_intent: booking.booking.stripePaymentIntentId,
-          reason: 'requested_by_customer',
-          metadata: {
-            bookingId,
-            refundReason: 'Provider rejected booking',
-            rejectionReason: reason
-          }
-        });
-
-        refundInfo = {
-          refundId: refund.id,
-          amount: refund.amount / 100, // Convert from cents
-          status: refund.status,
-          expectedArrival: refund.status === 'succeeded' ? '5-10 business days' : 'Processing'
-        };
-
-        // Update booking to REFUNDED state
-        await bookingStateMachine.transition(
-          bookingId,
-          BookingState.REFUNDED,
-          'system',
-          {
-            reason: 'Full refund processed due to provider rejection',
-            metadata: { refundId: refund.id, refundAmount: refund.amount / 100 }
-          }
-        );
-
-      } catch (refundError) {
-        console.error('Refund processing failed:', refundError);
-        // Continue with rejection even if refund fails - will be handled manually
-      }
+    const refundResult = await cancellationPolicyService.refundInFull(
+      booking.booking,
+      `Provider rejected booking: ${reason}`
+    );
+    if (refundResult.refund) {
+      const { refund } = refundResult;
+      refundInfo = {
+        refundId: refund.id,
+        amount: fromMinorUnits(refund.amount, refund.currency),
+        status: refund.status,
+        expectedArrival: refund.status === 'succeeded' ? '5-10 business days' : 'Processing'
+      };
+    } else if (refundResult.status === 'pending_manual') {
+      // Rejection stands; the refund is finished by hand
+      console.error(`Refund for rejected booking ${bookingId} needs manual processing`);
     }
 
     // Send notification to customer via email
@@ -254,16 +243,15 @@ export async function POST(
     console.error('Error rejecting booking:', error);
     
     // Check for specific error types
-    if (error instanceof Error) {
-      if (error.message.includes('Invalid state transition')) {
-        return NextResponse.json(
-          { 
-            error: 'Invalid operation',
-            message: error.message 
-          },
-          { status: 400 }
-        );
-      }
+    if (error instanceof BookingTransitionError) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid operation',
+          message: error.message,
+          code: error.code
+        },
+        { status: error.status }
+      );
     }
 
     return NextResponse.json(
@@ -312,8 +300,8 @@ export async function GET(
 
     // Check if user is the provider
     const isProvider = booking.provider?.userId === userId;
-    const currentState = booking.booking.status as BookingState;
-    const canReject = isProvider && currentState === BookingState.PENDING_PROVIDER;
+    const currentState = toBookingState(booking.booking.status);
+    const canReject = isProvider && currentState === BookingStates.PENDING_PROVIDER;
 
     // Get alternative available slots if provider wants to suggest alternatives
     let alternativeSlots = [];
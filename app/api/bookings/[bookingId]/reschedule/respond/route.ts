@@ -0,0 +1,67 @@
+/**
+ * Respond to Reschedule API
+ *
+ * Allows providers to approve or decline a customer's pending
+ * reschedule request for a service that requires approval.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { rescheduleService, RescheduleError } from "@/lib/bookings/reschedule-service";
+
+const respondSchema = z.object({
+  approve: z.boolean(),
+  note: z.string().max(500).optional(),
+});
+
+/**
+ * POST /api/bookings/[bookingId]/reschedule/respond
+ * Approve (moves the booking) or decline the pending request
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { bookingId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const decision = respondSchema.parse(body);
+
+    const result = await rescheduleService.respond(params.bookingId, userId, decision);
+
+    return NextResponse.json({
+      success: true,
+      request: result.request,
+      booking: result.booking,
+      payment: result.payment,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof RescheduleError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error responding to reschedule request:", error);
+    return NextResponse.json(
+      { error: "Failed to respond to reschedule request" },
+      { status: 500 }
+    );
+  }
+}
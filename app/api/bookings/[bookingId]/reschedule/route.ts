@@ -0,0 +1,174 @@
+/**
+ * Reschedule Booking API
+ *
+ * Lets customers move a booking to another available slot before the
+ * service's cancellation window closes. Services that require approval
+ * hold the move until the provider responds.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { rescheduleService, RescheduleError } from "@/lib/bookings/reschedule-service";
+import { RateLimiter } from "@/lib/rate-limiter";
+
+// Rate limiter for reschedule actions
+const rateLimiter = new RateLimiter({
+  tokensPerInterval: 5,
+  interval: 60 * 1000, // 1 minute
+  fireImmediately: true
+});
+
+const rescheduleBookingSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:mm"),
+  reason: z.string().max(500).optional(),
+});
+
+function rescheduleErrorResponse(error: RescheduleError) {
+  return NextResponse.json(
+    { error: error.message, code: error.code },
+    { status: error.status }
+  );
+}
+
+/**
+ * GET /api/bookings/[bookingId]/reschedule
+ * Check whether the booking can be rescheduled and until when
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { bookingId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const policy = await rescheduleService.getPolicy(params.bookingId, userId);
+
+    return NextResponse.json(policy);
+  } catch (error) {
+    if (error instanceof RescheduleError) {
+      return rescheduleErrorResponse(error);
+    }
+
+    console.error("Error checking reschedule policy:", error);
+    return NextResponse.json(
+      { error: "Failed to check reschedule policy" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/bookings/[bookingId]/reschedule
+ * Move the booking to a provider-local `date` and `startTime`
+ *
+ * Returns 200 with the updated booking when applied, or 202 when the
+ * request is waiting for provider approval.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { bookingId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await rateLimiter.check(userId, 1);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        {
+          error: "Too many reschedule attempts",
+          retryAfter: rateLimitResult.reset
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = rescheduleBookingSchema.parse(body);
+
+    const result = await rescheduleService.requestReschedule(params.bookingId, userId, validatedData);
+
+    if (!result.booking) {
+      return NextResponse.json(
+        {
+          success: true,
+          pendingApproval: true,
+          request: result.request,
+        },
+        { status: 202 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      pendingApproval: false,
+      request: result.request,
+      booking: result.booking,
+      payment: result.payment,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof RescheduleError) {
+      return rescheduleErrorResponse(error);
+    }
+
+    console.error("Error rescheduling booking:", error);
+    return NextResponse.json(
+      { error: "Failed to reschedule booking" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/bookings/[bookingId]/reschedule
+ * Withdraw a reschedule request that is still awaiting the provider
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { bookingId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const withdrawn = await rescheduleService.withdraw(params.bookingId, userId);
+
+    return NextResponse.json({ success: true, request: withdrawn });
+  } catch (error) {
+    if (error instanceof RescheduleError) {
+      return rescheduleErrorResponse(error);
+    }
+
+    console.error("Error withdrawing reschedule request:", error);
+    return NextResponse.json(
+      { error: "Failed to withdraw reschedule request" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Booking Reviews API
+ *
+ * Customers review the provider and providers review the customer once a
+ * booking is completed. Both reviews stay hidden until the other side has
+ * reviewed too or the review window closes.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { reviewService, ReviewError } from "@/lib/reviews/review-service";
+import { RateLimiter } from "@/lib/rate-limiter";
+import { reviewDimensions } from "@/db/schema";
+
+// Rate limiter for review submissions
+const rateLimiter = new RateLimiter({
+  tokensPerInterval: 5,
+  interval: 60 * 1000, // 1 minute
+  fireImmediately: true
+});
+
+const starRating = z.number().int().min(1).max(5);
+
+// Which sub-ratings apply depends on the listing; the service checks that
+const submitReviewSchema = z.object({
+  rating: starRating,
+  title: z.string().max(120).optional(),
+  reviewText: z.string().max(2000).optional(),
+  subRatings: z.partialRecord(z.enum(reviewDimensions), starRating).optional(),
+});
+
+function reviewErrorResponse(error: ReviewError) {
+  return NextResponse.json(
+    { error: error.message, code: error.code },
+    { status: error.status }
+  );
+}
+
+/**
+ * GET /api/bookings/[bookingId]/reviews
+ * The caller's own review, the other side's review once revealed, and for
+ * providers the customer's reputation
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { bookingId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const reviews = await reviewService.getBookingReviews(params.bookingId, userId);
+
+    return NextResponse.json(reviews);
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return reviewErrorResponse(error);
+    }
+
+    console.error("Error fetching booking reviews:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch reviews" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/bookings/[bookingId]/reviews
+ * Review the other party of a completed booking
+ *
+ * `revealed` is true when the other side had already reviewed and both
+ * reviews are now visible. Customers can add a title and sub-ratings for
+ * the dimensions of the listing (see REVIEW_DIMENSIONS).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { bookingId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await rateLimiter.check(userId, 1);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        {
+          error: "Too many review attempts",
+          retryAfter: rateLimitResult.reset
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = submitReviewSchema.parse(body);
+
+    const result = await reviewService.submitReview(params.bookingId, userId, validatedData);
+
+    return NextResponse.json(
+      { success: true, ...result },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ReviewError) {
+      return reviewErrorResponse(error);
+    }
+
+    console.error("Error submitting review:", error);
+    return NextResponse.json(
+      { error: "Failed to submit review" },
+      { status: 500 }
+    );
+  }
+}
@@ -7,16 +7,21 @@ import { db } from "@/db/db";
 import { providersTable } from "@/db/schema/providers-schema";
 import { bookingStatus } from "@/db/schema/bookings-schema";
 import { eq } from "drizzle-orm";
+import { BookingTransitionError, LegacyStatusMap } from "@/lib/booking-state-machine";
 
 // Validation schema for updating booking status
 const updateBookingSchema = z.object({
-  status: z.enum([
-    bookingStatus.PENDING,
-    bookingStatus.CONFIRMED,
-    bookingStatus.COMPLETED,
-    bookingStatus.CANCELLED,
-    bookingStatus.NO_SHOW,
-  ]),
+  // Older clients still send "cancelled" / "no_show"
+  status: z.preprocess(
+    (value) => (typeof value === "string" && LegacyStatusMap[value.toLowerCase()]) || value,
+    z.enum([
+      bookingStatus.CONFIRMED,
+      bookingStatus.COMPLETED,
+      bookingStatus.CANCELED_CUSTOMER,
+      bookingStatus.CANCELED_PROVIDER,
+      bookingStatus.NO_SHOW_CUSTOMER,
+    ])
+  ),
   stripePaymentIntentId: z.string().optional(),
   providerNotes: z.string().max(500).optional(),
 });
@@ -125,6 +130,14 @@ export async function PATCH(
     
     const isProvider = provider?.userId === userId;
     
+    // A cancellation is recorded against whichever side asked for it
+    if (
+      validatedData.status === bookingStatus.CANCELED_CUSTOMER ||
+      validatedData.status === bookingStatus.CANCELED_PROVIDER
+    ) {
+      validatedData.status = isCustomer ? bookingStatus.CANCELED_CUSTOMER : bookingStatus.CANCELED_PROVIDER;
+    }
+
     // Different permissions for different status updates
     if (validatedData.status === bookingStatus.CONFIRMED) {
       // Only customer can confirm (after payment)
@@ -136,7 +149,7 @@ export async function PATCH(
       }
     } else if (
       validatedData.status === bookingStatus.COMPLETED ||
-      validatedData.status === bookingStatus.NO_SHOW
+      validatedData.status === bookingStatus.NO_SHOW_CUSTOMER
     ) {
       // Only provider can mark as completed or no-show
       if (!isProvider) {
@@ -145,7 +158,7 @@ export async function PATCH(
           { status: 403 }
         );
       }
-    } else if (validatedData.status === bookingStatus.CANCELLED) {
+    } else {
       // Both customer and provider can cancel
       if (!isCustomer && !isProvider) {
         return NextResponse.json(
@@ -162,7 +175,7 @@ export async function PATCH(
       {
         stripePaymentIntentId: validatedData.stripePaymentIntentId,
         providerNotes: validatedData.providerNotes,
-        cancelledBy: validatedData.status === bookingStatus.CANCELLED ? userId : undefined,
+        actor: { type: isCustomer ? "customer" : "provider", id: userId },
       }
     );
     
@@ -174,6 +187,13 @@ export async function PATCH(
   } catch (error) {
     console.error("Error updating booking:", error);
     
+    if (error instanceof BookingTransitionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+    
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { error: "Invalid request data", details: error.errors },
@@ -5,7 +5,8 @@ import { z } from "zod";
 import { createBooking } from "@/db/queries/bookings-queries";
 import { db } from "@/db/db";
 import { providersTable } from "@/db/schema/providers-schema";
-import { bookingStatus, type NewBooking } from "@/db/schema/bookings-schema";
+import { type NewBooking } from "@/db/schema/bookings-schema";
+import { initialBookingState, BookingStates } from "@/lib/booking-state-machine";
 import { eq } from "drizzle-orm";
 import { withRateLimit } from "@/lib/rate-limit";
 import { calculatePlatformFees } from "@/lib/config/platform-fees";
@@ -98,7 +99,7 @@ export const POST = withRateLimit('booking', async (request: NextRequest) => {
       bookingDate: new Date(validatedData.bookingDate),
       startTime: validatedData.startTime,
       endTime: validatedData.endTime,
-      status: bookingStatus.PENDING,
+      ...initialBookingState(BookingStates.PENDING_PROVIDER),
       totalAmount: totalAmount.toString(),
       platformFee: platformFee.toString(),
       providerPayout: providerPayout.toString(),
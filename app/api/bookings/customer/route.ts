@@ -3,9 +3,14 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/db/db";
 import { bookingsTable, providersTable, profilesTable } from "@/db/schema";
+import { initialBookingState, BookingStates } from "@/lib/booking-state-machine";
 import { eq } from "drizzle-orm";
 import { generateConfirmationCode } from "@/lib/utils";
 import { calculateFees } from "@/lib/payments/fee-calculator";
+import { minorToDecimalString, normalizeCurrency, toMinorUnits } from "@/lib/payments/currency";
+import { taxLocationForProvider } from "@/lib/payments/tax-engine";
+import { taxService } from "@/lib/payments/tax-service";
+import { cancellationPolicyService } from "@/lib/bookings/cancellation-policy-service";
 
 export async function POST(req: NextRequest) {
   try {
@@ -58,6 +63,9 @@ export async function POST(req: NextRequest) {
         id: providersTable.id,
         displayName: providersTable.displayName,
         currency: providersTable.currency,
+        locationCountry: providersTable.locationCountry,
+        locationState: providersTable.locationState,
+        locationZipCode: providersTable.locationZipCode,
       })
       .from(providersTable)
       .where(eq(providersTable.id, providerId))
@@ -70,16 +78,21 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Calculate fees for authenticated customer (no guest surcharge)
-    const baseAmountCents = Math.round(servicePrice * 100);
+    // Calculate fees for authenticated customer (no guest surcharge), with
+    // tax at the provider's location
+    const currency = normalizeCurrency(provider.currency);
+    const baseAmountCents = toMinorUnits(servicePrice, currency);
     const fees = calculateFees({
       baseAmountCents,
-      isGuest: false // Authenticated customer
+      isGuest: false, // Authenticated customer
+      currency,
+      taxLocation: taxLocationForProvider(provider),
     });
 
     // Create booking
     const confirmationCode = generateConfirmationCode();
-    
+    const cancellationPolicy = await cancellationPolicyService.policyForListing({ providerId: provider.id });
+
     const [booking] = await db
       .insert(bookingsTable)
       .values({
@@ -91,26 +104,31 @@ export async function POST(req: NextRequest) {
         bookingDate: new Date(bookingDate),
         startTime,
         endTime,
-        totalAmount: (fees.customerTotalCents / 100).toFixed(2),
-        platformFee: (fees.platformFeeCents / 100).toFixed(2),
-        providerPayout: (fees.providerPayoutCents / 100).toFixed(2),
-        guestSurcharge: (fees.guestSurchargeCents / 100).toFixed(2), // Will be 0 for authenticated
-        currency: provider.currency || 'usd',
-        status: 'initiated',
+        totalAmount: minorToDecimalString(fees.customerTotalCents, currency),
+        platformFee: minorToDecimalString(fees.platformFeeCents, currency),
+        providerPayout: minorToDecimalString(fees.providerPayoutCents, currency),
+        guestSurcharge: minorToDecimalString(fees.guestSurchargeCents, currency), // Will be 0 for authenticated
+        taxAmount: minorToDecimalString(fees.taxCents, currency),
+        currency,
+        ...initialBookingState(BookingStates.DRAFT),
         paymentStatus: 'pending',
         confirmationCode,
         customerNotes,
+        cancellationPolicy,
         createdAt: new Date(),
         updatedAt: new Date(),
       })
       .returning();
 
+    await taxService.recordBookingTax(booking, fees.taxLines);
+
     return NextResponse.json({
       booking: {
         id: booking.id,
         confirmationCode: booking.confirmationCode,
         status: booking.status,
         totalAmount: booking.totalAmount,
+        taxAmount: booking.taxAmount,
         fees: {
           platformFee: booking.platformFee,
           providerPayout: booking.providerPayout,
@@ -16,11 +16,11 @@ import {
   groupBookingsTable,
   groupParticipantsTable,
   groupActivitiesTable,
-  groupMessagesTable,
   NewGroupParticipant,
   participantStatusEnum
 } from "@/db/schema/group-bookings-schema";
 import { withAuth, AuthContext } from "@/lib/auth/route-protection";
+import { conversationService } from "@/lib/messaging/conversation-service";
 import { eq, and, or, gt, lt } from "drizzle-orm";
 import { nanoid } from "nanoid";
 import { Resend } from "resend";
@@ -245,6 +245,11 @@ async function addParticipants(req: NextRequest, authContext: AuthContext) {
       };
     });
 
+    // Keep the group's shared message thread in step
+    await conversationService
+      .syncGroupBookingConversation(validatedData.groupBookingId)
+      .catch((error) => console.error("Error syncing group conversation:", error));
+
     return NextResponse.json(result);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -539,6 +544,11 @@ async function updateParticipant(req: NextRequest, authContext: AuthContext) {
       await processWaitlist(participant[0].groupBookingId);
     }
 
+    // Keep the group's shared message thread in step
+    await conversationService
+      .syncGroupBookingConversation(participant[0].groupBookingId)
+      .catch((error) => console.error("Error syncing group conversation:", error));
+
     return NextResponse.json(updated[0]);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -654,6 +664,11 @@ async function removeParticipant(req: NextRequest, authContext: AuthContext) {
     // Process waitlist
     await processWaitlist(participant[0].groupBookingId);
 
+    // Keep the group's shared message thread in step
+    await conversationService
+      .syncGroupBookingConversation(participant[0].groupBookingId)
+      .catch((error) => console.error("Error syncing group conversation:", error));
+
     return NextResponse.json({
       message: "Participant removed successfully",
       refunded: participant[0].paidAmountCents > 0
@@ -766,6 +781,11 @@ async function handleRSVP(req: NextRequest) {
       await processWaitlist(participant[0].groupBookingId);
     }
 
+    // Keep the group's shared message thread in step
+    await conversationService
+      .syncGroupBookingConversation(participant[0].groupBookingId)
+      .catch((error) => console.error("Error syncing group conversation:", error));
+
     return NextResponse.json({
       message: `Successfully ${validatedData.response}ed invitation`,
       participant: updated[0],
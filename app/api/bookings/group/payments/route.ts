@@ -20,12 +20,15 @@ import {
   NewSplitPaymentSession
 } from "@/db/schema/group-bookings-schema";
 import { bookingsTable } from "@/db/schema/bookings-schema";
+import { bookingStateEngine, TransitionEvents } from "@/lib/booking-state-machine";
 import { providersTable } from "@/db/schema/providers-schema";
 import { paymentsTable } from "@/db/schema/payments-schema";
 import { withAuth, AuthContext } from "@/lib/auth/route-protection";
+import { conversationService } from "@/lib/messaging/conversation-service";
 import { stripe } from "@/lib/stripe";
 import Stripe from "stripe";
 import { calculateFees } from "@/lib/payments/fee-calculator";
+import { formatMinorUnits, fromMinorUnits, normalizeCurrency } from "@/lib/payments/currency";
 import { eq, and, gte } from "drizzle-orm";
 import { nanoid } from "nanoid";
 import { Resend } from "resend";
@@ -158,8 +161,9 @@ async function createPaymentSession(req: NextRequest, authContext: AuthContext)
       .returning();
 
     // Send payment reminders to participants
+    const currency = await getGroupBookingCurrency(groupBooking[0].bookingId);
     for (const participant of unpaidParticipants) {
-      await sendPaymentReminder(groupBooking[0], participant, sessionToken);
+      await sendPaymentReminder(groupBooking[0], participant, sessionToken, currency);
       
       // Update reminder count
       await db
@@ -180,7 +184,7 @@ async function createPaymentSession(req: NextRequest, authContext: AuthContext)
       actorType: "organizer",
       description: `Payment session created for ${unpaidParticipants.length} participants`,
       details: {
-        totalAmount: totalAmountCents / 100,
+        totalAmount: fromMinorUnits(totalAmountCents, currency),
         participants: unpaidParticipants.length,
         expiresAt
       }
@@ -190,7 +194,8 @@ async function createPaymentSession(req: NextRequest, authContext: AuthContext)
       session: paymentSession[0],
       paymentUrl: `${process.env.NEXT_PUBLIC_APP_URL}/group-booking/payment/${sessionToken}`,
       participants: unpaidParticipants.length,
-      totalAmount: totalAmountCents / 100
+      totalAmount: fromMinorUnits(totalAmountCents, currency),
+      currency
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -272,6 +277,7 @@ async function processPayment(req: NextRequest, authContext: AuthContext) {
     }
 
     const amountToPayCents = participant[0].amountCents - participant[0].paidAmountCents;
+    const currency = normalizeCurrency(groupBooking[0].booking.currency);
 
     // Calculate fees for this participant's payment
     const feeCalculation = calculateFees({
@@ -285,7 +291,7 @@ async function processPayment(req: NextRequest, authContext: AuthContext) {
       // Use Stripe Connect for provider payments
       paymentIntent = await stripe.paymentIntents.create({
         amount: amountToPayCents,
-        currency: "usd",
+        currency,
         payment_method: validatedData.paymentMethodId,
         confirm: true,
         application_fee_amount: feeCalculation.platformFeeCents,
@@ -303,7 +309,7 @@ async function processPayment(req: NextRequest, authContext: AuthContext) {
       // Standard payment without Connect
       paymentIntent = await stripe.paymentIntents.create({
         amount: amountToPayCents,
-        currency: "usd",
+        currency,
         payment_method: validatedData.paymentMethodId,
         confirm: true,
         metadata: {
@@ -345,7 +351,7 @@ async function processPayment(req: NextRequest, authContext: AuthContext) {
         userId: participant[0].userId || authContext.userId,
         stripePaymentIntentId: paymentIntent.id,
         amountCents: amountToPayCents,
-        currency: "usd",
+        currency,
         status: "succeeded",
         platformFeeCents: feeCalculation.platformFeeCents,
         providerPayoutCents: feeCalculation.providerPayoutCents,
@@ -396,7 +402,7 @@ async function processPayment(req: NextRequest, authContext: AuthContext) {
         actorType: "participant",
         description: `Payment received from ${participant[0].email}`,
         details: {
-          amount: amountToPayCents / 100,
+          amount: fromMinorUnits(amountToPayCents, currency),
           paymentIntentId: paymentIntent.id
         }
       });
@@ -405,7 +411,7 @@ async function processPayment(req: NextRequest, authContext: AuthContext) {
     });
 
     // Send payment confirmation
-    await sendPaymentConfirmation(groupBooking[0].groupBooking, result, amountToPayCents);
+    await sendPaymentConfirmation(groupBooking[0].groupBooking, result, amountToPayCents, currency);
 
     // Check if all payments collected
     const allParticipants = await db
@@ -427,25 +433,29 @@ async function processPayment(req: NextRequest, authContext: AuthContext) {
         })
         .where(eq(groupBookingsTable.id, participant[0].groupBookingId));
 
-      await db
-        .update(bookingsTable)
-        .set({
-          status: "confirmed",
-          updatedAt: new Date()
-        })
-        .where(eq(bookingsTable.id, groupBooking[0].booking.id));
+      await bookingStateEngine.dispatch(
+        groupBooking[0].booking.id,
+        TransitionEvents.PAYMENT_CAPTURED,
+        { type: "system", id: "system" },
+        { reason: "All group payments collected", metadata: { paymentIntentId: paymentIntent.id } }
+      );
 
       // Notify organizer
-      await notifyOrganizerOfFullPayment(groupBooking[0].groupBooking);
+      await notifyOrganizerOfFullPayment(groupBooking[0].groupBooking, currency);
     }
 
+    // Keep the group's shared message thread in step
+    await conversationService
+      .syncGroupBookingConversation(participant[0].groupBookingId)
+      .catch((error) => console.error("Error syncing group conversation:", error));
+
     return NextResponse.json({
       success: true,
       participant: result,
       paymentIntent: {
         id: paymentIntent.id,
         status: paymentIntent.status,
-        amount: paymentIntent.amount / 100
+        amount: fromMinorUnits(paymentIntent.amount, paymentIntent.currency)
       },
       allPaymentsCollected: totalPaid >= totalOwed
     });
@@ -572,7 +582,7 @@ async function processRefund(req: NextRequest, authContext: AuthContext) {
         actorType: "organizer",
         description: `Refund processed for ${participant[0].email}`,
         details: {
-          amount: refundAmountCents / 100,
+          amount: fromMinorUnits(refundAmountCents, refund.currency),
           reason: validatedData.reason,
           refundId: refund.id
         }
@@ -582,14 +592,19 @@ async function processRefund(req: NextRequest, authContext: AuthContext) {
     });
 
     // Send refund confirmation
-    await sendRefundConfirmation(groupBooking[0], result, refundAmountCents, validatedData.reason);
+    await sendRefundConfirmation(groupBooking[0], result, refundAmountCents, refund.currency, validatedData.reason);
+
+    // Keep the group's shared message thread in step
+    await conversationService
+      .syncGroupBookingConversation(participant[0].groupBookingId)
+      .catch((error) => console.error("Error syncing group conversation:", error));
 
     return NextResponse.json({
       success: true,
       participant: result,
       refund: {
         id: refund.id,
-        amount: refund.amount / 100,
+        amount: fromMinorUnits(refund.amount, refund.currency),
         status: refund.status
       }
     });
@@ -756,6 +771,7 @@ async function getPaymentStatus(req: NextRequest, authContext: AuthContext) {
       ));
 
     // Calculate totals
+    const currency = await getGroupBookingCurrency(groupBooking[0].bookingId);
     const totalOwed = participants.reduce((sum, p) => sum + p.amountCents, 0);
     const totalPaid = participants.reduce((sum, p) => sum + p.paidAmountCents, 0);
     const totalRefunded = participants.reduce((sum, p) => sum + p.refundedAmountCents, 0);
@@ -768,19 +784,20 @@ async function getPaymentStatus(req: NextRequest, authContext: AuthContext) {
         refunded: participants.filter(p => p.status === "refunded").length,
       },
       byAmount: {
-        totalOwed: totalOwed / 100,
-        totalPaid: totalPaid / 100,
-        totalRefunded: totalRefunded / 100,
-        totalRemaining: (totalOwed - totalPaid) / 100
+        totalOwed: fromMinorUnits(totalOwed, currency),
+        totalPaid: fromMinorUnits(totalPaid, currency),
+        totalRefunded: fromMinorUnits(totalRefunded, currency),
+        totalRemaining: fromMinorUnits(totalOwed - totalPaid, currency),
+        currency
       },
       participants: participants.map(p => ({
         id: p.id,
         email: p.email,
         name: p.name,
         status: p.status,
-        amountOwed: p.amountCents / 100,
-        amountPaid: p.paidAmountCents / 100,
-        amountRefunded: p.refundedAmountCents / 100,
+        amountOwed: fromMinorUnits(p.amountCents, currency),
+        amountPaid: fromMinorUnits(p.paidAmountCents, currency),
+        amountRefunded: fromMinorUnits(p.refundedAmountCents, currency),
         paidAt: p.paidAt,
         paymentIntentId: p.stripePaymentIntentId
       }))
@@ -802,7 +819,20 @@ async function getPaymentStatus(req: NextRequest, authContext: AuthContext) {
 
 // Helper functions
 
-async function sendPaymentReminder(groupBooking: any, participant: any, sessionToken: string) {
+// Participant amounts are in the base booking's currency
+async function getGroupBookingCurrency(bookingId: string | null): Promise<string> {
+  if (!bookingId) return normalizeCurrency(null);
+
+  const [booking] = await db
+    .select({ currency: bookingsTable.currency })
+    .from(bookingsTable)
+    .where(eq(bookingsTable.id, bookingId))
+    .limit(1);
+
+  return normalizeCurrency(booking?.currency);
+}
+
+async function sendPaymentReminder(groupBooking: any, participant: any, sessionToken: string, currency: string) {
   const paymentUrl = `${process.env.NEXT_PUBLIC_APP_URL}/group-booking/payment/${sessionToken}?participant=${participant.id}`;
   
   try {
@@ -814,7 +844,7 @@ async function sendPaymentReminder(groupBooking: any, participant: any, sessionT
         <h2>Payment Reminder</h2>
         <p>This is a reminder that your payment for ${groupBooking.groupName || "the group booking"} is due.</p>
         
-        <p><strong>Amount Due:</strong> $${((participant.amountCents - participant.paidAmountCents) / 100).toFixed(2)}</p>
+        <p><strong>Amount Due:</strong> ${formatMinorUnits(participant.amountCents - participant.paidAmountCents, currency)}</p>
         ${groupBooking.paymentDeadline ? `<p><strong>Payment Deadline:</strong> ${new Date(groupBooking.paymentDeadline).toLocaleDateString()}</p>` : ""}
         
         <p>
@@ -831,7 +861,7 @@ async function sendPaymentReminder(groupBooking: any, participant: any, sessionT
   }
 }
 
-async function sendPaymentConfirmation(groupBooking: any, participant: any, amountCents: number) {
+async function sendPaymentConfirmation(groupBooking: any, participant: any, amountCents: number, currency: string) {
   try {
     await resend.emails.send({
       from: process.env.RESEND_FROM_EMAIL!,
@@ -841,7 +871,7 @@ async function sendPaymentConfirmation(groupBooking: any, participant: any, amou
         <h2>Payment Confirmed</h2>
         <p>Thank you! Your payment for ${groupBooking.groupName || "the group booking"} has been received.</p>
         
-        <p><strong>Amount Paid:</strong> $${(amountCents / 100).toFixed(2)}</p>
+        <p><strong>Amount Paid:</strong> ${formatMinorUnits(amountCents, currency)}</p>
         <p><strong>Payment Date:</strong> ${new Date().toLocaleDateString()}</p>
         
         <p>You're all set! We look forward to seeing you.</p>
@@ -854,7 +884,7 @@ async function sendPaymentConfirmation(groupBooking: any, participant: any, amou
   }
 }
 
-async function sendRefundConfirmation(groupBooking: any, participant: any, amountCents: number, reason?: string) {
+async function sendRefundConfirmation(groupBooking: any, participant: any, amountCents: number, currency: string, reason?: string) {
   try {
     await resend.emails.send({
       from: process.env.RESEND_FROM_EMAIL!,
@@ -864,7 +894,7 @@ async function sendRefundConfirmation(groupBooking: any, participant: any, amoun
         <h2>Refund Processed</h2>
         <p>A refund has been processed for ${groupBooking.groupName || "the group booking"}.</p>
         
-        <p><strong>Refund Amount:</strong> $${(amountCents / 100).toFixed(2)}</p>
+        <p><strong>Refund Amount:</strong> ${formatMinorUnits(amountCents, currency)}</p>
         ${reason ? `<p><strong>Reason:</strong> ${reason}</p>` : ""}
         
         <p>The refund should appear in your account within 5-7 business days.</p>
@@ -877,7 +907,7 @@ async function sendRefundConfirmation(groupBooking: any, participant: any, amoun
   }
 }
 
-async function notifyOrganizerOfFullPayment(groupBooking: any) {
+async function notifyOrganizerOfFullPayment(groupBooking: any, currency: string) {
   try {
     await resend.emails.send({
       from: process.env.RESEND_FROM_EMAIL!,
@@ -887,7 +917,7 @@ async function notifyOrganizerOfFullPayment(groupBooking: any) {
         <h2>All Payments Collected!</h2>
         <p>Great news! All payments have been collected for ${groupBooking.groupName || "your group booking"}.</p>
         
-        <p><strong>Total Collected:</strong> $${(groupBooking.totalAmountCents / 100).toFixed(2)}</p>
+        <p><strong>Total Collected:</strong> ${formatMinorUnits(groupBooking.totalAmountCents, currency)}</p>
         <p><strong>Participants Paid:</strong> ${groupBooking.confirmedParticipants}</p>
         
         <p>The booking is now confirmed and ready to proceed.</p>
@@ -20,10 +20,14 @@ import {
   groupBookingStatusEnum 
 } from "@/db/schema/group-bookings-schema";
 import { bookingsTable } from "@/db/schema/bookings-schema";
+import { bookingStateEngine, BookingStates, TransitionEvents } from "@/lib/booking-state-machine";
+import { cancellationPolicyService } from "@/lib/bookings/cancellation-policy-service";
 import { providersTable } from "@/db/schema/providers-schema";
 import { withAuth, AuthContext } from "@/lib/auth/route-protection";
+import { conversationService } from "@/lib/messaging/conversation-service";
 import { stripe } from "@/lib/stripe";
 import { calculateFees } from "@/lib/payments/fee-calculator";
+import { formatMinorUnits, minorToDecimalString, normalizeCurrency, toMinorUnits } from "@/lib/payments/currency";
 import { eq, and, gte, lte, or } from "drizzle-orm";
 import { nanoid } from "nanoid";
 import { Resend } from "resend";
@@ -127,8 +131,9 @@ async function createGroupBooking(req: NextRequest, authContext: AuthContext) {
       );
     }
 
-    // Calculate pricing
-    const baseAmountCents = Math.round(validatedData.servicePrice * 100);
+    // Calculate pricing, in the provider's settlement currency
+    const currency = normalizeCurrency(provider[0].currency);
+    const baseAmountCents = toMinorUnits(validatedData.servicePrice, currency);
     const feeCalculation = calculateFees({
       baseAmountCents,
       isGuest: false // Group bookings require authentication
@@ -147,6 +152,10 @@ async function createGroupBooking(req: NextRequest, authContext: AuthContext) {
       perPersonAmountCents = Math.ceil(depositAmountCents / validatedData.maxParticipants);
     }
 
+    const cancellationPolicy = await cancellationPolicyService.policyForListing({
+      providerId: validatedData.providerId,
+    });
+
     // Start transaction
     const result = await db.transaction(async (tx) => {
       // Create base booking entry
@@ -161,11 +170,15 @@ async function createGroupBooking(req: NextRequest, authContext: AuthContext) {
           bookingDate: new Date(validatedData.bookingDate),
           startTime: validatedData.startTime,
           endTime: validatedData.endTime,
-          status: "pending",
-          totalAmount: (feeCalculation.customerTotalCents / 100).toString(),
-          platformFee: (feeCalculation.platformFeeCents / 100).toString(),
-          providerPayout: (feeCalculation.providerPayoutCents / 100).toString(),
-          isGroupBooking: true
+          // Seats stay held while participants pay, until the payment deadline
+          status: BookingStates.HOLD,
+          stateExpiresAt: validatedData.paymentDeadline ? new Date(validatedData.paymentDeadline) : null,
+          totalAmount: minorToDecimalString(feeCalculation.customerTotalCents, currency),
+          platformFee: minorToDecimalString(feeCalculation.platformFeeCents, currency),
+          providerPayout: minorToDecimalString(feeCalculation.providerPayoutCents, currency),
+          currency,
+          isGroupBooking: true,
+          cancellationPolicy
         })
         .returning();
 
@@ -227,7 +240,7 @@ async function createGroupBooking(req: NextRequest, authContext: AuthContext) {
           email: p.email,
           name: p.name,
           amountCents: p.customAmount 
-            ? Math.round(p.customAmount * 100) 
+            ? toMinorUnits(p.customAmount, currency)
             : perPersonAmountCents,
           status: "invited" as const,
           invitationToken: nanoid(32),
@@ -238,7 +251,7 @@ async function createGroupBooking(req: NextRequest, authContext: AuthContext) {
 
         // Send invitation emails
         for (const participant of participantValues) {
-          await sendInvitationEmail(groupBooking[0], participant);
+          await sendInvitationEmail(groupBooking[0], participant, currency);
         }
 
         // Update participant count
@@ -267,6 +280,11 @@ async function createGroupBooking(req: NextRequest, authContext: AuthContext) {
       return { booking: booking[0], groupBooking: groupBooking[0] };
     });
 
+    // Keep the group's shared message thread in step
+    await conversationService
+      .syncGroupBookingConversation(result.groupBooking.id)
+      .catch((error) => console.error("Error syncing group conversation:", error));
+
     return NextResponse.json(result);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -442,6 +460,11 @@ async function updateGroupBooking(req: NextRequest, authContext: AuthContext) {
       details: validatedData
     });
 
+    // Keep the group's shared message thread in step
+    await conversationService
+      .syncGroupBookingConversation(groupBookingId)
+      .catch((error) => console.error("Error syncing group conversation:", error));
+
     return NextResponse.json(updated[0]);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -541,16 +564,13 @@ async function cancelGroupBooking(req: NextRequest, authContext: AuthContext) {
 
     // Update base booking status
     if (groupBooking[0].bookingId) {
-      await db
-        .update(bookingsTable)
-        .set({
-          status: "cancelled",
-          cancellationReason: reason || "Group booking cancelled",
-          cancelledBy: authContext.userId!,
-          cancelledAt: new Date(),
-          updatedAt: new Date()
-        })
-        .where(eq(bookingsTable.id, groupBooking[0].bookingId));
+      await bookingStateEngine.dispatch(
+        groupBooking[0].bookingId,
+        TransitionEvents.CUSTOMER_CANCELS,
+        // The organizer owns the base booking, including when an admin cancels for them
+        { type: "customer", id: groupBooking[0].organizerId },
+        { reason: reason || "Group booking cancelled", metadata: { requestedBy: authContext.userId } }
+      );
     }
 
     // Log activity
@@ -581,7 +601,7 @@ async function cancelGroupBooking(req: NextRequest, authContext: AuthContext) {
 
 // Helper functions
 
-async function sendInvitationEmail(groupBooking: any, participant: any) {
+async function sendInvitationEmail(groupBooking: any, participant: any, currency: string) {
   const inviteUrl = `${process.env.NEXT_PUBLIC_APP_URL}/group-booking/invite/${participant.invitationToken}`;
   
   try {
@@ -597,7 +617,7 @@ async function sendInvitationEmail(groupBooking: any, participant: any) {
         <ul>
           <li>Date: ${new Date(groupBooking.bookingDate).toLocaleDateString()}</li>
           <li>Time: ${groupBooking.startTime} - ${groupBooking.endTime}</li>
-          <li>Your share: $${(participant.amountCents / 100).toFixed(2)}</li>
+          <li>Your share: ${formatMinorUnits(participant.amountCents, currency)}</li>
         </ul>
         ${groupBooking.instructions ? `<p><strong>Instructions:</strong> ${groupBooking.instructions}</p>` : ""}
         <p>
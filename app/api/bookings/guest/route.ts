@@ -3,17 +3,24 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/db/db";
 import { bookingsTable, transactionsTable, providersTable } from "@/db/schema";
+import { initialBookingState, BookingStates } from "@/lib/booking-state-machine";
+import { SLOT_HOLDING_STATES } from "@/lib/booking-state-machine/status-map";
 import { eq, and, inArray } from "drizzle-orm";
 import { 
   createBookingSchema,
   validateBookingRequest,
-  formatValidationErrors,
-  calculateBookingAmounts
+  formatValidationErrors
 } from "@/lib/validations/booking-schemas";
 import { withRateLimit, RATE_LIMIT_CONFIGS } from "@/lib/rate-limit";
 import { createMarketplacePaymentIntent } from "@/lib/stripe";
+import { waitlistService } from "@/lib/waitlist";
+import { storedDate } from "@/lib/availability/timezone";
+import { cancellationPolicyService } from "@/lib/bookings/cancellation-policy-service";
 import { z } from "zod";
-import { calculatePlatformFees } from "@/lib/config/platform-fees";
+import { calculateFees } from "@/lib/payments/fee-calculator";
+import { taxLocationForProvider } from "@/lib/payments/tax-engine";
+import { taxService } from "@/lib/payments/tax-service";
+import { fromMinorUnits, minorToDecimalString, normalizeCurrency, toMinorUnits } from "@/lib/payments/currency";
 import { Sanitize } from "@/lib/security/sanitization";
 
 // Guest information schema
@@ -80,6 +87,10 @@ export const POST = withRateLimit(
           displayName: providersTable.displayName,
           stripeConnectAccountId: providersTable.stripeConnectAccountId,
           stripeOnboardingComplete: providersTable.stripeOnboardingComplete,
+          currency: providersTable.currency,
+          locationCountry: providersTable.locationCountry,
+          locationState: providersTable.locationState,
+          locationZipCode: providersTable.locationZipCode,
           isActive: providersTable.isActive
         })
         .from(providersTable)
@@ -128,7 +139,7 @@ export const POST = withRateLimit(
           and(
             eq(bookingsTable.providerId, (bookingData as any).providerId),
             eq(bookingsTable.bookingDate, new Date((bookingData as any).bookingDate)),
-            inArray(bookingsTable.status, ["pending", "confirmed", "in_progress"])
+            inArray(bookingsTable.status, SLOT_HOLDING_STATES)
           )
         );
 
@@ -155,16 +166,36 @@ export const POST = withRateLimit(
         );
       }
 
-      // Calculate booking amounts using centralized fee configuration
-      const feeCalculation = calculatePlatformFees(
-        (bookingData as any).servicePrice * 100, // Convert to cents
-        !isAuthenticated // isGuest
-      );
+      // Spots offered to the waitlist are taken; guests cannot hold a waitlist place
+      const heldSpots = await waitlistService.heldSpots({
+        targetType: "service",
+        providerId: (bookingData as any).providerId,
+        date: storedDate(new Date((bookingData as any).bookingDate)),
+        startTime: (bookingData as any).startTime,
+        endTime: (bookingData as any).endTime
+      });
+
+      if (heldSpots > 0) {
+        return NextResponse.json(
+          { error: "Time slot is held for a waitlisted customer" },
+          { status: 409 }
+        );
+      }
+
+      // Calculate booking amounts in the provider's settlement currency,
+      // with tax at the provider's location
+      const currency = normalizeCurrency(providerInfo.currency);
+      const fees = calculateFees({
+        baseAmountCents: toMinorUnits((bookingData as any).servicePrice, currency),
+        isGuest: !isAuthenticated,
+        currency,
+        taxLocation: taxLocationForProvider(providerInfo)
+      });
       
       const amounts = {
-        totalAmount: feeCalculation.customerTotal,
-        platformFee: feeCalculation.totalPlatformRevenue,
-        providerPayout: feeCalculation.providerPayout
+        totalAmount: fees.customerTotalCents,
+        platformFee: fees.platformTotalRevenueCents,
+        providerPayout: fees.providerPayoutCents
       };
 
       // Prepare customer identifier
@@ -180,6 +211,10 @@ export const POST = withRateLimit(
         enhancedCustomerNotes = `${customerNotes}\n\nGuest Info:\nName: ${guestInfo.firstName} ${guestInfo.lastName}\nEmail: ${guestInfo.email}\nPhone: ${guestInfo.phone}`;
       }
 
+      const cancellationPolicy = await cancellationPolicyService.policyForListing({
+        providerId: Sanitize.uuid((bookingData as any).providerId),
+      });
+
       // Create booking record
       const [newBooking] = await db
         .insert(bookingsTable)
@@ -192,16 +227,21 @@ export const POST = withRateLimit(
           bookingDate: new Date((bookingData as any).bookingDate),
           startTime: (bookingData as any).startTime,
           endTime: (bookingData as any).endTime,
-          status: "pending",
-          totalAmount: amounts.totalAmount.toString(),
-          platformFee: amounts.platformFee.toString(),
-          providerPayout: amounts.providerPayout.toString(),
+          ...initialBookingState(BookingStates.HOLD), // Slot held until the payment webhook confirms
+          totalAmount: minorToDecimalString(amounts.totalAmount, currency),
+          platformFee: minorToDecimalString(amounts.platformFee, currency),
+          providerPayout: minorToDecimalString(amounts.providerPayout, currency),
+          taxAmount: minorToDecimalString(fees.taxCents, currency),
+          currency,
           customerNotes: enhancedCustomerNotes,
           // Add a flag to identify guest bookings
-          isGuestBooking: !isAuthenticated
+          isGuestBooking: !isAuthenticated,
+          cancellationPolicy
         })
         .returning();
 
+      await taxService.recordBookingTax(newBooking, fees.taxLines);
+
       // Create Stripe payment intent with metadata for guest tracking
       try {
         // Build metadata object with proper type handling
@@ -226,7 +266,7 @@ export const POST = withRateLimit(
 
         const paymentIntent = await createMarketplacePaymentIntent({
           amount: amounts.totalAmount,
-          currency: "usd",
+          currency,
           customerId: customerId,
           stripeConnectAccountId: providerInfo.stripeConnectAccountId,
           platformFeeAmount: amounts.platformFee,
@@ -247,9 +287,10 @@ export const POST = withRateLimit(
           .insert(transactionsTable)
           .values({
             bookingId: newBooking.id,
-            amount: amounts.totalAmount.toString(),
-            platformFee: amounts.platformFee.toString(),
-            providerPayout: amounts.providerPayout.toString(),
+            amount: minorToDecimalString(amounts.totalAmount, currency),
+            platformFee: minorToDecimalString(amounts.platformFee, currency),
+            providerPayout: minorToDecimalString(amounts.providerPayout, currency),
+            currency,
             status: "pending"
           });
 
@@ -270,11 +311,13 @@ export const POST = withRateLimit(
           },
           feeBreakdown: {
             servicePrice: (bookingData as any).servicePrice,
-            basePlatformFee: feeCalculation.platformCommission / 100,
-            guestSurcharge: feeCalculation.guestSurcharge / 100,
-            totalPlatformFee: feeCalculation.totalPlatformRevenue / 100,
-            providerPayout: feeCalculation.providerPayout / 100,
-            totalAmount: feeCalculation.customerTotal / 100,
+            basePlatformFee: fromMinorUnits(fees.platformFeeCents, currency),
+            guestSurcharge: fromMinorUnits(fees.guestSurchargeCents, currency),
+            totalPlatformFee: fromMinorUnits(fees.platformTotalRevenueCents, currency),
+            providerPayout: fromMinorUnits(fees.providerPayoutCents, currency),
+            taxAmount: fromMinorUnits(fees.taxCents, currency),
+            totalAmount: fromMinorUnits(fees.customerTotalCents, currency),
+            currency,
             isGuest: !isAuthenticated
           }
         }, { status: 201 });
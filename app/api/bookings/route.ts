@@ -3,16 +3,24 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/db/db";
 import { bookingsTable, transactionsTable, providersTable } from "@/db/schema";
+import { initialBookingState, BookingStates } from "@/lib/booking-state-machine";
+import { SLOT_HOLDING_STATES } from "@/lib/booking-state-machine/status-map";
 import { eq, and, or, gte, lte, desc, asc, ilike, inArray, sql } from "drizzle-orm";
 import { 
   bookingFiltersSchema, 
   createBookingSchema, 
   validateBookingRequest,
-  formatValidationErrors,
-  calculateBookingAmounts
+  formatValidationErrors
 } from "@/lib/validations/booking-schemas";
 import { withRateLimit, RATE_LIMIT_CONFIGS } from "@/lib/rate-limit";
 import { createMarketplacePaymentIntent } from "@/lib/stripe";
+import { waitlistService, WaitlistError } from "@/lib/waitlist";
+import { storedDate } from "@/lib/availability/timezone";
+import { cancellationPolicyService } from "@/lib/bookings/cancellation-policy-service";
+import { calculateFees } from "@/lib/payments/fee-calculator";
+import { taxLocationForProvider } from "@/lib/payments/tax-engine";
+import { taxService } from "@/lib/payments/tax-service";
+import { minorToDecimalString, normalizeCurrency } from "@/lib/payments/currency";
 
 /**
  * GET /api/bookings - List bookings for the authenticated user with filtering
@@ -225,6 +233,10 @@ export const POST = withRateLimit(
           displayName: providersTable.displayName,
           stripeConnectAccountId: providersTable.stripeConnectAccountId,
           stripeOnboardingComplete: providersTable.stripeOnboardingComplete,
+          currency: providersTable.currency,
+          locationCountry: providersTable.locationCountry,
+          locationState: providersTable.locationState,
+          locationZipCode: providersTable.locationZipCode,
           isActive: providersTable.isActive
         })
         .from(providersTable)
@@ -269,7 +281,7 @@ export const POST = withRateLimit(
           and(
             eq(bookingsTable.providerId, bookingData.providerId),
             eq(bookingsTable.bookingDate, new Date(bookingData.bookingDate)),
-            inArray(bookingsTable.status, ["pending", "confirmed", "in_progress"])
+            inArray(bookingsTable.status, SLOT_HOLDING_STATES)
           )
         );
 
@@ -290,9 +302,54 @@ export const POST = withRateLimit(
         );
       }
 
-      // Calculate booking amounts
-      const isAuthenticated = true; // User is authenticated if we reach this point
-      const amounts = calculateBookingAmounts(bookingData.servicePrice, isAuthenticated);
+      // Spots offered to the waitlist are taken unless this customer is redeeming their own hold
+      const slot = {
+        targetType: "service" as const,
+        providerId: bookingData.providerId,
+        date: storedDate(new Date(bookingData.bookingDate)),
+        startTime: bookingData.startTime,
+        endTime: bookingData.endTime
+      };
+      let waitlistEntry = null;
+      if (bookingData.holdId) {
+        try {
+          waitlistEntry = await waitlistService.redeemableEntry(bookingData.holdId, userId, slot);
+        } catch (error) {
+          if (error instanceof WaitlistError) {
+            return NextResponse.json(
+              { error: error.message, code: error.code },
+              { status: error.status }
+            );
+          }
+          throw error;
+        }
+      }
+
+      if (await waitlistService.heldSpots(slot, waitlistEntry?.id) > 0) {
+        return NextResponse.json(
+          { error: "Time slot is held for a waitlisted customer" },
+          { status: 409 }
+        );
+      }
+
+      // Calculate booking amounts; servicePrice is already in minor units of
+      // the provider's settlement currency. Tax is at the provider's location.
+      const currency = normalizeCurrency(providerInfo.currency);
+      const fees = calculateFees({
+        baseAmountCents: bookingData.servicePrice,
+        isGuest: false, // User is authenticated if we reach this point
+        currency,
+        taxLocation: taxLocationForProvider(providerInfo)
+      });
+      const amounts = {
+        totalAmount: fees.customerTotalCents,
+        platformFee: fees.platformTotalRevenueCents,
+        providerPayout: fees.providerPayoutCents
+      };
+
+      const cancellationPolicy = await cancellationPolicyService.policyForListing({
+        providerId: bookingData.providerId,
+      });
 
       // Create booking record
       const [newBooking] = await db
@@ -301,24 +358,29 @@ export const POST = withRateLimit(
           providerId: bookingData.providerId,
           customerId: userId,
           serviceName: bookingData.serviceName,
-          servicePrice: bookingData.servicePrice.toString(),
+          servicePrice: minorToDecimalString(bookingData.servicePrice, currency),
           serviceDuration: bookingData.serviceDuration,
           bookingDate: new Date(bookingData.bookingDate),
           startTime: bookingData.startTime,
           endTime: bookingData.endTime,
-          status: "pending",
-          totalAmount: amounts.totalAmount.toString(),
-          platformFee: amounts.platformFee.toString(),
-          providerPayout: amounts.providerPayout.toString(),
-          customerNotes: bookingData.customerNotes
+          ...initialBookingState(BookingStates.HOLD), // Slot held until the payment webhook confirms
+          totalAmount: minorToDecimalString(amounts.totalAmount, currency),
+          platformFee: minorToDecimalString(amounts.platformFee, currency),
+          providerPayout: minorToDecimalString(amounts.providerPayout, currency),
+          taxAmount: minorToDecimalString(fees.taxCents, currency),
+          currency,
+          customerNotes: bookingData.customerNotes,
+          cancellationPolicy
         })
         .returning();
 
+      await taxService.recordBookingTax(newBooking, fees.taxLines);
+
       // Create Stripe payment intent
       try {
         const paymentIntent = await createMarketplacePaymentIntent({
           amount: amounts.totalAmount,
-          currency: "usd",
+          currency,
           customerId: userId,
           stripeConnectAccountId: providerInfo.stripeConnectAccountId,
           platformFeeAmount: amounts.platformFee,
@@ -344,12 +406,17 @@ export const POST = withRateLimit(
           .insert(transactionsTable)
           .values({
             bookingId: newBooking.id,
-            amount: amounts.totalAmount.toString(),
-            platformFee: amounts.platformFee.toString(),
-            providerPayout: amounts.providerPayout.toString(),
+            amount: minorToDecimalString(amounts.totalAmount, currency),
+            platformFee: minorToDecimalString(amounts.platformFee, currency),
+            providerPayout: minorToDecimalString(amounts.providerPayout, currency),
+            currency,
             status: "pending"
           });
 
+        if (waitlistEntry) {
+          await waitlistService.completeClaim(waitlistEntry, newBooking.id);
+        }
+
         return NextResponse.json({
           booking: {
             ...newBooking,
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { bookingSeriesService, BookingSeriesError } from "@/lib/bookings/booking-series-service";
+
+const rescheduleOccurrenceSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:mm"),
+});
+
+const cancelOccurrenceSchema = z.object({
+  reason: z.string().min(1).max(500),
+});
+
+type OccurrenceParams = { params: { seriesId: string; occurrenceId: string } };
+
+/**
+ * PATCH /api/bookings/series/[seriesId]/occurrences/[occurrenceId]
+ * Reschedule a single occurrence to another available provider-local slot
+ */
+export async function PATCH(request: NextRequest, { params }: OccurrenceParams) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const target = rescheduleOccurrenceSchema.parse(body);
+
+    const actor = await bookingSeriesService.authorize(params.seriesId, userId);
+    const occurrence = await bookingSeriesService.rescheduleOccurrence(params.occurrenceId, actor, target);
+
+    return NextResponse.json({ occurrence });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof BookingSeriesError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error rescheduling series occurrence:", error);
+    return NextResponse.json(
+      { error: "Failed to reschedule occurrence" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/bookings/series/[seriesId]/occurrences/[occurrenceId]
+ * Cancel a single occurrence; a charged occurrence is refunded in full when
+ * the provider cancels, otherwise per the booking's cancellation policy
+ */
+export async function DELETE(request: NextRequest, { params }: OccurrenceParams) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { reason } = cancelOccurrenceSchema.parse(body);
+
+    const actor = await bookingSeriesService.authorize(params.seriesId, userId);
+    const occurrence = await bookingSeriesService.cancelOccurrence(params.occurrenceId, actor, reason);
+
+    return NextResponse.json({ success: true, occurrence });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof BookingSeriesError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error cancelling series occurrence:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel occurrence" },
+      { status: 500 }
+    );
+  }
+}
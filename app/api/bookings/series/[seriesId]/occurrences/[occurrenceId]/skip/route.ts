@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { bookingSeriesService, BookingSeriesError } from "@/lib/bookings/booking-series-service";
+
+/**
+ * POST /api/bookings/series/[seriesId]/occurrences/[occurrenceId]/skip
+ * Skip a single occurrence before it is charged; the series continues
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { seriesId: string; occurrenceId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const actor = await bookingSeriesService.authorize(params.seriesId, userId);
+    const occurrence = await bookingSeriesService.skipOccurrence(params.occurrenceId, actor);
+
+    return NextResponse.json({ success: true, occurrence });
+  } catch (error) {
+    if (error instanceof BookingSeriesError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error skipping series occurrence:", error);
+    return NextResponse.json(
+      { error: "Failed to skip occurrence" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { bookingSeriesService, BookingSeriesError } from "@/lib/bookings/booking-series-service";
+
+const updateSeriesSchema = z.object({
+  paymentMethodId: z.string().min(1),
+});
+
+const cancelSeriesSchema = z.object({
+  reason: z.string().min(1).max(500),
+});
+
+function seriesErrorResponse(error: BookingSeriesError) {
+  return NextResponse.json(
+    { error: error.message, code: error.code },
+    { status: error.status }
+  );
+}
+
+/**
+ * GET /api/bookings/series/[seriesId]
+ * Get a series with all of its occurrences
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { seriesId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { series, occurrences, role } = await bookingSeriesService.getSeriesForUser(params.seriesId, userId);
+
+    return NextResponse.json({ series, occurrences, role });
+  } catch (error) {
+    if (error instanceof BookingSeriesError) {
+      return seriesErrorResponse(error);
+    }
+
+    console.error("Error fetching booking series:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch booking series" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/bookings/series/[seriesId]
+ * Replace the saved payment method; failed upcoming charges are retried
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { seriesId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { paymentMethodId } = updateSeriesSchema.parse(body);
+
+    const actor = await bookingSeriesService.authorize(params.seriesId, userId);
+    const series = await bookingSeriesService.updatePaymentMethod(params.seriesId, actor, paymentMethodId);
+
+    return NextResponse.json({ series });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof BookingSeriesError) {
+      return seriesErrorResponse(error);
+    }
+
+    console.error("Error updating booking series:", error);
+    return NextResponse.json(
+      { error: "Failed to update booking series" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/bookings/series/[seriesId]
+ * Cancel every upcoming occurrence of a series
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { seriesId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { reason } = cancelSeriesSchema.parse(body);
+
+    const actor = await bookingSeriesService.authorize(params.seriesId, userId);
+    const { series, occurrences } = await bookingSeriesService.cancelSeries(params.seriesId, actor, reason);
+
+    return NextResponse.json({ success: true, series, occurrences });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof BookingSeriesError) {
+      return seriesErrorResponse(error);
+    }
+
+    console.error("Error cancelling booking series:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel booking series" },
+      { status: 500 }
+    );
+  }
+}
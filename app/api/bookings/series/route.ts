@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import {
+  bookingSeriesService,
+  BookingSeriesError,
+  MAX_SERIES_OCCURRENCES,
+} from "@/lib/bookings/booking-series-service";
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+const createSeriesSchema = z.object({
+  providerId: z.string().uuid(),
+  serviceId: z.string().uuid(),
+  frequency: z.enum(["weekly", "biweekly", "monthly"]),
+  startDate: dateSchema,
+  startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:mm"),
+  count: z.number().int().min(2).max(MAX_SERIES_OCCURRENCES).optional(),
+  until: dateSchema.optional(),
+  paymentMethodId: z.string().min(1),
+  customerNotes: z.string().max(500).optional(),
+}).refine(data => data.count !== undefined || data.until !== undefined, {
+  message: "Either count or until is required",
+});
+
+/**
+ * GET /api/bookings/series
+ * List recurring bookings where the user is the customer or the provider
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const series = await bookingSeriesService.listForUser(userId);
+
+    return NextResponse.json({ series });
+  } catch (error) {
+    console.error("Error fetching booking series:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch booking series" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/bookings/series
+ * Create a recurring booking charged to a saved payment method
+ *
+ * `startDate` and `startTime` are provider-local. Occurrences inside the
+ * reservation horizon are booked immediately; later ones are booked as the
+ * horizon moves forward. Each occurrence is charged shortly before it starts.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createSeriesSchema.parse(body);
+
+    const { series, occurrences } = await bookingSeriesService.createSeries({
+      customerId: userId,
+      ...validatedData,
+    });
+
+    return NextResponse.json({ series, occurrences }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof BookingSeriesError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error creating booking series:", error);
+    return NextResponse.json(
+      { error: "Failed to create booking series" },
+      { status: 500 }
+    );
+  }
+}
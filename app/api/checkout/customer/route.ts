@@ -11,8 +11,20 @@ import { eq, and } from "drizzle-orm";
 import { withRateLimitRedis } from "@/lib/rate-limit-redis";
 import { logApiStart, logApiSuccess, logApiError } from "@/lib/logger";
 import { createPaymentIntentWithIdempotency } from "@/lib/stripe-enhanced";
-import { calculateFees, dollarsToCents, MIN_TRANSACTION_CENTS } from "@/lib/payments/fee-calculator";
+import { calculateFees } from "@/lib/payments/fee-calculator";
+import { taxLocationForProvider } from "@/lib/payments/tax-engine";
+import { taxService } from "@/lib/payments/tax-service";
+import {
+  normalizeCurrency,
+  isSupportedCurrency,
+  toMinorUnits,
+  minorToDecimalString,
+  minimumChargeMinor,
+  formatMinorUnits
+} from "@/lib/payments/currency";
 import { generateConfirmationCode } from "@/lib/utils";
+import { initialBookingState, BookingStates } from "@/lib/booking-state-machine";
+import { cancellationPolicyService } from "@/lib/bookings/cancellation-policy-service";
 import { getCorsHeaders } from "@/lib/security/cors";
 import * as crypto from "crypto";
 
@@ -45,8 +57,10 @@ interface CustomerCheckoutResponse {
   bookingId?: string;
   confirmationCode?: string;
   fees?: {
+    currency: string;
     baseAmount: string;
     platformFee: string;
+    tax: string;
     totalAmount: string;
     providerPayout: string;
   };
@@ -145,6 +159,10 @@ export const POST = withRateLimitRedis(
           businessName: providersTable.businessName,
           stripeConnectAccountId: providersTable.stripeConnectAccountId,
           stripeOnboardingComplete: providersTable.stripeOnboardingComplete,
+          currency: providersTable.currency,
+          locationCountry: providersTable.locationCountry,
+          locationState: providersTable.locationState,
+          locationZipCode: providersTable.locationZipCode,
           // commissionRate removed - always 10% per constitution
           isActive: providersTable.isActive,
         })
@@ -222,14 +240,27 @@ export const POST = withRateLimitRedis(
       }
       
       // Calculate fees for authenticated customer (NO guest surcharge)
-      const baseAmountCents = dollarsToCents(parseFloat(service.price));
+      // Services are priced and settled in the provider's currency
+      const currency = normalizeCurrency(provider.currency);
+      if (!isSupportedCurrency(currency)) {
+        return NextResponse.json(
+          { 
+            success: false,
+            error: `Payments in ${currency.toUpperCase()} are not supported` 
+          },
+          { status: 400 }
+        );
+      }
+      
+      const baseAmountCents = toMinorUnits(service.price, currency);
       
       // Validate minimum transaction amount
-      if (baseAmountCents < MIN_TRANSACTION_CENTS) {
+      const minimumCents = minimumChargeMinor(currency);
+      if (baseAmountCents < minimumCents) {
         return NextResponse.json(
           { 
             success: false,
-            error: `Minimum transaction amount is $${MIN_TRANSACTION_CENTS / 100}` 
+            error: `Minimum transaction amount is ${formatMinorUnits(minimumCents, currency)}` 
           },
           { status: 400 }
         );
@@ -238,7 +269,9 @@ export const POST = withRateLimitRedis(
       // Calculate all fees WITHOUT guest surcharge (isGuest: false)
       const fees = calculateFees({
         baseAmountCents,
-        isGuest: false // Key difference: authenticated users don't pay guest surcharge
+        isGuest: false, // Key difference: authenticated users don't pay guest surcharge
+        currency,
+        taxLocation: taxLocationForProvider(provider), // Tax where the provider delivers the service
       });
       
       // Generate unique identifiers
@@ -248,7 +281,7 @@ export const POST = withRateLimitRedis(
       // Create Stripe payment intent with idempotency
       const paymentIntent = await createPaymentIntentWithIdempotency({
         amount: fees.customerTotalCents, // No guest surcharge for authenticated users
-        currency: "usd",
+        currency,
         stripeConnectAccountId: provider.stripeConnectAccountId,
         platformFeeAmount: fees.platformFeeCents, // Only platform commission, no surcharge
         bookingId, // Used for idempotency
@@ -263,6 +296,7 @@ export const POST = withRateLimitRedis(
           serviceName: service.name,
           isGuest: "false", // Key difference: this is not a guest booking
           confirmationCode,
+          taxAmount: fees.taxCents.toString(),
           referrer: data.referrer || "direct",
           utmSource: data.utmSource || "",
           utmMedium: data.utmMedium || "",
@@ -270,6 +304,11 @@ export const POST = withRateLimitRedis(
         },
       });
       
+      const cancellationPolicy = await cancellationPolicyService.policyForListing({
+        providerId: provider.id,
+        serviceId: service.id,
+      });
+
       // Create booking record in database
       const [newBooking] = await db
         .insert(bookingsTable)
@@ -283,17 +322,20 @@ export const POST = withRateLimitRedis(
           bookingDate: new Date(data.bookingDate),
           startTime: data.startTime,
           endTime: data.endTime,
-          status: "pending",
+          ...initialBookingState(BookingStates.HOLD), // Slot held until the payment webhook confirms
           stripePaymentIntentId: paymentIntent.id,
-          totalAmount: (fees.customerTotalCents / 100).toFixed(2), // No guest surcharge
-          platformFee: (fees.platformFeeCents / 100).toFixed(2), // Only commission
-          providerPayout: (fees.providerPayoutCents / 100).toFixed(2),
+          totalAmount: minorToDecimalString(fees.customerTotalCents, currency), // No guest surcharge
+          platformFee: minorToDecimalString(fees.platformFeeCents, currency), // Only commission
+          providerPayout: minorToDecimalString(fees.providerPayoutCents, currency),
+          taxAmount: minorToDecimalString(fees.taxCents, currency),
+          currency,
           customerNotes: data.customerNotes,
           confirmationCode,
           isGuestBooking: false, // Key difference: this is not a guest booking
           guestEmail: null, // No guest email for authenticated bookings
           bookingType: "service",
           serviceId: service.id,
+          cancellationPolicy,
           metadata: {
             customerName: `${customer.firstName} ${customer.lastName}`,
             customerEmail: customer.email,
@@ -305,13 +347,16 @@ export const POST = withRateLimitRedis(
         })
         .returning();
       
+      await taxService.recordBookingTax(newBooking, fees.taxLines);
+      
       // Create initial transaction record
       await db.insert(transactionsTable).values({
         bookingId: newBooking.id,
         stripeChargeId: paymentIntent.id,
-        amount: (fees.customerTotalCents / 100).toFixed(2),
-        platformFee: (fees.platformFeeCents / 100).toFixed(2), // Only commission
-        providerPayout: (fees.providerPayoutCents / 100).toFixed(2),
+        amount: minorToDecimalString(fees.customerTotalCents, currency),
+        platformFee: minorToDecimalString(fees.platformFeeCents, currency), // Only commission
+        providerPayout: minorToDecimalString(fees.providerPayoutCents, currency),
+        currency,
         status: "pending",
       });
       
@@ -333,9 +378,11 @@ export const POST = withRateLimitRedis(
           bookingId: newBooking.id,
           confirmationCode,
           fees: {
+            currency: fees.currency,
             baseAmount: fees.displayAmounts.baseAmount,
             platformFee: fees.displayAmounts.platformFee,
-            totalAmount: fees.displayAmounts.customerTotal, // Same as base for authenticated
+            tax: fees.displayAmounts.tax,
+            totalAmount: fees.displayAmounts.customerTotal, // Base plus tax for authenticated
             providerPayout: fees.displayAmounts.providerPayout,
           },
           customerInfo: {
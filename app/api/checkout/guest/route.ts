@@ -9,8 +9,20 @@ import { eq, and } from "drizzle-orm";
 import { withRateLimitRedis } from "@/lib/rate-limit-redis";
 import { logApiStart, logApiSuccess, logApiError } from "@/lib/logger";
 import { createPaymentIntentWithIdempotency } from "@/lib/stripe-enhanced";
-import { calculateFees, dollarsToCents, MIN_TRANSACTION_CENTS } from "@/lib/payments/fee-calculator";
+import { calculateFees } from "@/lib/payments/fee-calculator";
+import { taxLocationForProvider } from "@/lib/payments/tax-engine";
+import { taxService } from "@/lib/payments/tax-service";
+import {
+  normalizeCurrency,
+  isSupportedCurrency,
+  toMinorUnits,
+  minorToDecimalString,
+  minimumChargeMinor,
+  formatMinorUnits
+} from "@/lib/payments/currency";
 import { generateConfirmationCode } from "@/lib/utils";
+import { initialBookingState, BookingStates } from "@/lib/booking-state-machine";
+import { cancellationPolicyService } from "@/lib/bookings/cancellation-policy-service";
 import { getCorsHeaders } from "@/lib/security/cors";
 import * as crypto from "crypto";
 
@@ -48,8 +60,10 @@ interface GuestCheckoutResponse {
   bookingId?: string;
   confirmationCode?: string;
   fees?: {
+    currency: string;
     baseAmount: string;
     guestSurcharge: string;
+    tax: string;
     totalAmount: string;
     providerPayout: string;
   };
@@ -115,6 +129,10 @@ export const POST = withRateLimitRedis(
           businessName: providersTable.businessName,
           stripeConnectAccountId: providersTable.stripeConnectAccountId,
           stripeOnboardingComplete: providersTable.stripeOnboardingComplete,
+          currency: providersTable.currency,
+          locationCountry: providersTable.locationCountry,
+          locationState: providersTable.locationState,
+          locationZipCode: providersTable.locationZipCode,
           // commissionRate removed - always 10% per constitution
           isActive: providersTable.isActive,
         })
@@ -192,14 +210,27 @@ export const POST = withRateLimitRedis(
       }
       
       // Calculate fees for guest checkout
-      const baseAmountCents = dollarsToCents(parseFloat(service.price));
+      // Services are priced and settled in the provider's currency
+      const currency = normalizeCurrency(provider.currency);
+      if (!isSupportedCurrency(currency)) {
+        return NextResponse.json(
+          { 
+            success: false,
+            error: `Payments in ${currency.toUpperCase()} are not supported` 
+          },
+          { status: 400 }
+        );
+      }
+      
+      const baseAmountCents = toMinorUnits(service.price, currency);
       
       // Validate minimum transaction amount
-      if (baseAmountCents < MIN_TRANSACTION_CENTS) {
+      const minimumCents = minimumChargeMinor(currency);
+      if (baseAmountCents < minimumCents) {
         return NextResponse.json(
           { 
             success: false,
-            error: `Minimum transaction amount is $${MIN_TRANSACTION_CENTS / 100}` 
+            error: `Minimum transaction amount is ${formatMinorUnits(minimumCents, currency)}` 
           },
           { status: 400 }
         );
@@ -208,7 +239,9 @@ export const POST = withRateLimitRedis(
       // Calculate all fees with guest surcharge
       const fees = calculateFees({
         baseAmountCents,
-        isGuest: true
+        isGuest: true,
+        currency,
+        taxLocation: taxLocationForProvider(provider), // Tax where the provider delivers the service
       });
       
       // Generate unique identifiers
@@ -219,7 +252,7 @@ export const POST = withRateLimitRedis(
       // Create Stripe payment intent with idempotency
       const paymentIntent = await createPaymentIntentWithIdempotency({
         amount: fees.customerTotalCents,
-        currency: "usd",
+        currency,
         stripeConnectAccountId: provider.stripeConnectAccountId,
         platformFeeAmount: fees.platformTotalRevenueCents, // Platform gets fee + surcharge
         bookingId, // Used for idempotency
@@ -233,6 +266,7 @@ export const POST = withRateLimitRedis(
           serviceName: service.name,
           isGuest: "true",
           confirmationCode,
+          taxAmount: fees.taxCents.toString(),
           referrer: data.referrer || "direct",
           utmSource: data.utmSource || "",
           utmMedium: data.utmMedium || "",
@@ -240,6 +274,11 @@ export const POST = withRateLimitRedis(
         },
       });
       
+      const cancellationPolicy = await cancellationPolicyService.policyForListing({
+        providerId: provider.id,
+        serviceId: service.id,
+      });
+
       // Create booking record in database
       const [newBooking] = await db
         .insert(bookingsTable)
@@ -253,17 +292,20 @@ export const POST = withRateLimitRedis(
           bookingDate: new Date(data.bookingDate),
           startTime: data.startTime,
           endTime: data.endTime,
-          status: "pending",
+          ...initialBookingState(BookingStates.HOLD), // Slot held until the payment webhook confirms
           stripePaymentIntentId: paymentIntent.id,
-          totalAmount: (fees.customerTotalCents / 100).toFixed(2),
-          platformFee: (fees.platformTotalRevenueCents / 100).toFixed(2), // Includes surcharge
-          providerPayout: (fees.providerPayoutCents / 100).toFixed(2),
+          totalAmount: minorToDecimalString(fees.customerTotalCents, currency),
+          platformFee: minorToDecimalString(fees.platformTotalRevenueCents, currency), // Includes surcharge
+          providerPayout: minorToDecimalString(fees.providerPayoutCents, currency),
+          taxAmount: minorToDecimalString(fees.taxCents, currency),
+          currency,
           customerNotes: data.customerNotes,
           confirmationCode,
           isGuestBooking: true,
           guestEmail: data.guestEmail,
           bookingType: "service",
           serviceId: service.id,
+          cancellationPolicy,
           metadata: {
             guestName: data.guestName,
             guestPhone: data.guestPhone,
@@ -276,13 +318,16 @@ export const POST = withRateLimitRedis(
         })
         .returning();
       
+      await taxService.recordBookingTax(newBooking, fees.taxLines);
+      
       // Create initial transaction record
       await db.insert(transactionsTable).values({
         bookingId: newBooking.id,
         stripeChargeId: paymentIntent.id,
-        amount: (fees.customerTotalCents / 100).toFixed(2),
-        platformFee: (fees.platformTotalRevenueCents / 100).toFixed(2),
-        providerPayout: (fees.providerPayoutCents / 100).toFixed(2),
+        amount: minorToDecimalString(fees.customerTotalCents, currency),
+        platformFee: minorToDecimalString(fees.platformTotalRevenueCents, currency),
+        providerPayout: minorToDecimalString(fees.providerPayoutCents, currency),
+        currency,
         status: "pending",
       });
       
@@ -304,8 +349,10 @@ export const POST = withRateLimitRedis(
           bookingId: newBooking.id,
           confirmationCode,
           fees: {
+            currency: fees.currency,
             baseAmount: fees.displayAmounts.baseAmount,
             guestSurcharge: fees.displayAmounts.guestSurcharge,
+            tax: fees.displayAmounts.tax,
             totalAmount: fees.displayAmounts.customerTotal,
             providerPayout: fees.displayAmounts.providerPayout,
           },
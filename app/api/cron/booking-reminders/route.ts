@@ -58,7 +58,7 @@ async function handleReminders(request: NextRequest) {
       .leftJoin(providersTable, eq(bookingsTable.providerId, providersTable.id))
       .where(
         and(
-          eq(bookingsTable.status, 'PAYMENT_SUCCEEDED'), // Only confirmed bookings
+          eq(bookingsTable.status, 'confirmed'), // Only confirmed bookings
           gte(bookingsTable.bookingDate, subHours(tomorrow, 1)), // Within 1 hour of 24 hours ahead
           lte(bookingsTable.bookingDate, addHours(tomorrow, 1)),
           // For now, check all confirmed bookings 24h in advance
@@ -76,7 +76,7 @@ async function handleReminders(request: NextRequest) {
       .leftJoin(providersTable, eq(bookingsTable.providerId, providersTable.id))
       .where(
         and(
-          eq(bookingsTable.status, 'PAYMENT_SUCCEEDED'), // Only confirmed bookings
+          eq(bookingsTable.status, 'confirmed'), // Only confirmed bookings
           gte(bookingsTable.bookingDate, subHours(in2Hours, 0.5)), // Within 30 minutes of 2 hours ahead
           lte(bookingsTable.bookingDate, addHours(in2Hours, 0.5)),
           // For now, check all confirmed bookings 2h in advance
@@ -0,0 +1,64 @@
+/**
+ * Booking Series Cron Job
+ *
+ * Reserves occurrences of active recurring bookings as they come into the
+ * reservation horizon, then charges occurrences that start within the
+ * charge lead time to the series' saved payment method. Failed charges are
+ * retried with backoff; occurrences still unpaid close to their start are
+ * cancelled.
+ *
+ * Schedule recommendation: hourly (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { bookingSeriesService } from '@/lib/bookings/booking-series-service';
+
+export async function GET(request: NextRequest) {
+  return handleBookingSeries(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleBookingSeries(request);
+}
+
+async function handleBookingSeries(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = request.headers.get('x-cron-secret');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (process.env.NODE_ENV === 'production') {
+      if (!expectedSecret ||
+          (authHeader !== `Bearer ${expectedSecret}` && cronSecret !== expectedSecret)) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    const startedAt = new Date();
+    console.log(`[CRON] Starting booking series run at ${startedAt.toISOString()}`);
+
+    const reserved = await bookingSeriesService.reserveAllActive(startedAt);
+    const { charged, failed, released } = await bookingSeriesService.chargeDueOccurrences(startedAt);
+
+    console.log(`[CRON] Booking series: ${reserved} reserved, ${charged} charged, ${failed} failed, ${released} released`);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: startedAt.toISOString(),
+      reserved,
+      charged,
+      failed,
+      released,
+    });
+  } catch (error) {
+    console.error('[CRON] Error processing booking series:', error);
+    return NextResponse.json(
+      { error: 'Failed to process booking series' },
+      { status: 500 }
+    );
+  }
+}
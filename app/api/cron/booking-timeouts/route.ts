@@ -0,0 +1,58 @@
+/**
+ * Booking Timeouts Cron Job
+ *
+ * Expires bookings that outstayed their state's maxDuration: abandoned
+ * drafts, lapsed payment holds and requests the provider never answered.
+ *
+ * Schedule recommendation: every 5 minutes, since a hold lasts only
+ * 10 minutes (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { bookingStateEngine } from '@/lib/booking-state-machine';
+
+export async function GET(request: NextRequest) {
+  return handleBookingTimeouts(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleBookingTimeouts(request);
+}
+
+async function handleBookingTimeouts(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = request.headers.get('x-cron-secret');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (process.env.NODE_ENV === 'production') {
+      if (!expectedSecret ||
+          (authHeader !== `Bearer ${expectedSecret}` && cronSecret !== expectedSecret)) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    const startedAt = new Date();
+    console.log(`[CRON] Starting booking timeout sweep at ${startedAt.toISOString()}`);
+
+    const result = await bookingStateEngine.sweepTimeouts(startedAt);
+
+    console.log(`[CRON] Booking timeouts: ${result.expired} expired, ${result.failed} failed of ${result.processed}`);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: startedAt.toISOString(),
+      ...result,
+    });
+  } catch (error) {
+    console.error('[CRON] Error sweeping booking timeouts:', error);
+    return NextResponse.json(
+      { error: 'Failed to sweep booking timeouts' },
+      { status: 500 }
+    );
+  }
+}
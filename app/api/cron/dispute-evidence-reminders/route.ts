@@ -0,0 +1,57 @@
+/**
+ * Dispute Evidence Reminders Cron Job
+ *
+ * Reminds providers of open chargebacks 7 days, 3 days and 24 hours
+ * before Stripe's evidence deadline.
+ *
+ * Schedule recommendation: hourly (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { disputeEvidenceService } from '@/lib/payments/dispute-evidence-service';
+
+export async function GET(request: NextRequest) {
+  return handleEvidenceReminders(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleEvidenceReminders(request);
+}
+
+async function handleEvidenceReminders(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = request.headers.get('x-cron-secret');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (process.env.NODE_ENV === 'production') {
+      if (!expectedSecret ||
+          (authHeader !== `Bearer ${expectedSecret}` && cronSecret !== expectedSecret)) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    const startedAt = new Date();
+    console.log(`[CRON] Starting dispute evidence reminders at ${startedAt.toISOString()}`);
+
+    const result = await disputeEvidenceService.sendDeadlineReminders(startedAt);
+
+    console.log(`[CRON] Dispute reminders: ${result.sent} sent, ${result.failed} failed of ${result.checked}`);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: startedAt.toISOString(),
+      ...result,
+    });
+  } catch (error) {
+    console.error('[CRON] Error sending dispute evidence reminders:', error);
+    return NextResponse.json(
+      { error: 'Failed to send dispute evidence reminders' },
+      { status: 500 }
+    );
+  }
+}
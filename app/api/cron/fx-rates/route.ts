@@ -0,0 +1,59 @@
+/**
+ * FX Rates Cron Job
+ *
+ * Pulls the latest exchange rates from the configured provider
+ * (FX_RATE_PROVIDER) and stores them for display conversion and reporting.
+ *
+ * Schedule recommendation: daily (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { fxRateService } from '@/lib/payments/fx-rates';
+
+export async function GET(request: NextRequest) {
+  return handleFxRateRefresh(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleFxRateRefresh(request);
+}
+
+async function handleFxRateRefresh(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = request.headers.get('x-cron-secret');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (process.env.NODE_ENV === 'production') {
+      if (!expectedSecret ||
+          (authHeader !== `Bearer ${expectedSecret}` && cronSecret !== expectedSecret)) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    const startedAt = new Date();
+    console.log(`[CRON] Starting FX rate refresh at ${startedAt.toISOString()}`);
+
+    const result = await fxRateService.refreshRates();
+
+    console.log(`[CRON] FX rates: stored ${result.pairs} pairs from ${result.source} as of ${result.asOf.toISOString()}`);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: startedAt.toISOString(),
+      source: result.source,
+      pairs: result.pairs,
+      asOf: result.asOf.toISOString(),
+    });
+  } catch (error) {
+    console.error('[CRON] Error refreshing FX rates:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh FX rates' },
+      { status: 500 }
+    );
+  }
+}
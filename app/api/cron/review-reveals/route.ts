@@ -0,0 +1,57 @@
+/**
+ * Review Reveals Cron Job
+ *
+ * Publishes booking reviews whose double-blind review window has closed,
+ * whether or not the other side reviewed.
+ *
+ * Schedule recommendation: hourly (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { reviewService } from '@/lib/reviews/review-service';
+
+export async function GET(request: NextRequest) {
+  return handleReviewReveals(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleReviewReveals(request);
+}
+
+async function handleReviewReveals(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = request.headers.get('x-cron-secret');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (process.env.NODE_ENV === 'production') {
+      if (!expectedSecret ||
+          (authHeader !== `Bearer ${expectedSecret}` && cronSecret !== expectedSecret)) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    const startedAt = new Date();
+    console.log(`[CRON] Starting review reveals at ${startedAt.toISOString()}`);
+
+    const result = await reviewService.revealDue(startedAt);
+
+    console.log(`[CRON] Review reveals: ${result.reviewsRevealed} provider reviews, ${result.customerReviewsRevealed} customer reviews published`);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: startedAt.toISOString(),
+      ...result,
+    });
+  } catch (error) {
+    console.error('[CRON] Error revealing reviews:', error);
+    return NextResponse.json(
+      { error: 'Failed to reveal reviews' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Review Screening Cron Job
+ *
+ * Runs the automated abuse checks on reviews that were not screened when
+ * they were written: reviews from before moderation existed and reviews
+ * created outside the booking review flow.
+ *
+ * Schedule recommendation: hourly (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { reviewModerationService } from '@/lib/reviews/review-moderation-service';
+
+export async function GET(request: NextRequest) {
+  return handleReviewScreening(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleReviewScreening(request);
+}
+
+async function handleReviewScreening(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = request.headers.get('x-cron-secret');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (process.env.NODE_ENV === 'production') {
+      if (!expectedSecret ||
+          (authHeader !== `Bearer ${expectedSecret}` && cronSecret !== expectedSecret)) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    const startedAt = new Date();
+    console.log(`[CRON] Starting review screening at ${startedAt.toISOString()}`);
+
+    const result = await reviewModerationService.screenPending();
+
+    console.log(`[CRON] Review screening: ${result.screened} screened, ${result.flagged} flagged`);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: startedAt.toISOString(),
+      ...result,
+    });
+  } catch (error) {
+    console.error('[CRON] Error screening reviews:', error);
+    return NextResponse.json(
+      { error: 'Failed to screen reviews' },
+      { status: 500 }
+    );
+  }
+}
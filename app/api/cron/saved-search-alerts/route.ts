@@ -0,0 +1,57 @@
+/**
+ * Saved Search Alerts Cron Job
+ *
+ * Sends customers the listings published since their saved searches were
+ * last checked: instant searches on every run, daily searches once a day.
+ *
+ * Schedule recommendation: every 15 minutes (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { savedSearchService } from '@/lib/search/saved-search-service';
+
+export async function GET(request: NextRequest) {
+  return handleSavedSearchAlerts(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleSavedSearchAlerts(request);
+}
+
+async function handleSavedSearchAlerts(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = request.headers.get('x-cron-secret');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (process.env.NODE_ENV === 'production') {
+      if (!expectedSecret ||
+          (authHeader !== `Bearer ${expectedSecret}` && cronSecret !== expectedSecret)) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    const startedAt = new Date();
+    console.log(`[CRON] Starting saved search alerts at ${startedAt.toISOString()}`);
+
+    const result = await savedSearchService.runAlerts(startedAt);
+
+    console.log(`[CRON] Saved search alerts: ${result.checked} checked, ${result.notified} notified`);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: startedAt.toISOString(),
+      ...result,
+    });
+  } catch (error) {
+    console.error('[CRON] Error sending saved search alerts:', error);
+    return NextResponse.json(
+      { error: 'Failed to send saved search alerts' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Search Availability Cron Job
+ *
+ * Regenerates provider slots for the next two weeks into availability_cache,
+ * which search filters on when customers ask for a date and time and reads
+ * each provider's next available slot from.
+ *
+ * Schedule recommendation: every 15 minutes (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshSearchAvailability } from '@/lib/availability/search-availability';
+
+export async function GET(request: NextRequest) {
+  return handleSearchAvailability(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleSearchAvailability(request);
+}
+
+async function handleSearchAvailability(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = request.headers.get('x-cron-secret');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (process.env.NODE_ENV === 'production') {
+      if (!expectedSecret ||
+          (authHeader !== `Bearer ${expectedSecret}` && cronSecret !== expectedSecret)) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    const startedAt = new Date();
+    console.log(`[CRON] Starting search availability refresh at ${startedAt.toISOString()}`);
+
+    const result = await refreshSearchAvailability(startedAt);
+
+    console.log(`[CRON] Search availability: ${result.providers} providers, ${result.slots} slots, ${result.failed} failed, ${result.pruned} pruned`);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: startedAt.toISOString(),
+      ...result,
+    });
+  } catch (error) {
+    console.error('[CRON] Error refreshing search availability:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh search availability' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Search Stats Cron Job
+ *
+ * Refreshes the booking conversion and recent review counts that provider
+ * search ranks on (the provider_search_stats materialized view), and the
+ * autocomplete dictionary weighted by recent searches (search_suggestions).
+ * Searches keep working on the previous numbers while the refresh runs.
+ *
+ * Schedule recommendation: every 30 minutes (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshSearchStats } from '@/lib/search';
+
+export async function GET(request: NextRequest) {
+  return handleSearchStats(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleSearchStats(request);
+}
+
+async function handleSearchStats(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = request.headers.get('x-cron-secret');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (process.env.NODE_ENV === 'production') {
+      if (!expectedSecret ||
+          (authHeader !== `Bearer ${expectedSecret}` && cronSecret !== expectedSecret)) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    const startedAt = new Date();
+    console.log(`[CRON] Starting search stats refresh at ${startedAt.toISOString()}`);
+
+    await refreshSearchStats();
+
+    const durationMs = Date.now() - startedAt.getTime();
+    console.log(`[CRON] Search stats refreshed in ${durationMs}ms`);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: startedAt.toISOString(),
+      durationMs,
+    });
+  } catch (error) {
+    console.error('[CRON] Error refreshing search stats:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh search stats' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Thing Offers Cron Job
+ *
+ * Expires marketplace offers nobody answered in time and puts items back on
+ * sale when a buyer does not check out an accepted offer.
+ *
+ * Schedule recommendation: every 15 minutes (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { thingNegotiationService } from '@/lib/things/negotiation-service';
+
+export async function GET(request: NextRequest) {
+  return handleThingOffers(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleThingOffers(request);
+}
+
+async function handleThingOffers(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = request.headers.get('x-cron-secret');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (process.env.NODE_ENV === 'production') {
+      if (!expectedSecret ||
+          (authHeader !== `Bearer ${expectedSecret}` && cronSecret !== expectedSecret)) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    const startedAt = new Date();
+    console.log(`[CRON] Starting thing offer expiry at ${startedAt.toISOString()}`);
+
+    const result = await thingNegotiationService.expire(startedAt);
+
+    console.log(`[CRON] Thing offers: ${result.offersExpired} expired, ${result.reservationsReleased} reservations released`);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: startedAt.toISOString(),
+      ...result,
+    });
+  } catch (error) {
+    console.error('[CRON] Error processing thing offers:', error);
+    return NextResponse.json(
+      { error: 'Failed to process thing offers' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Thing Orders Cron Job
+ *
+ * Confirms delivery of marketplace orders the buyer never confirmed and
+ * releases escrowed funds to sellers once the inspection window has passed
+ * without a return. Released payouts are transferred by process-payouts.
+ *
+ * Schedule recommendation: hourly (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { thingOrderService } from '@/lib/things/order-service';
+
+export async function GET(request: NextRequest) {
+  return handleThingOrders(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleThingOrders(request);
+}
+
+async function handleThingOrders(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = request.headers.get('x-cron-secret');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (process.env.NODE_ENV === 'production') {
+      if (!expectedSecret ||
+          (authHeader !== `Bearer ${expectedSecret}` && cronSecret !== expectedSecret)) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    const startedAt = new Date();
+    console.log(`[CRON] Starting thing order escrow release at ${startedAt.toISOString()}`);
+
+    const result = await thingOrderService.processDue(startedAt);
+
+    console.log(`[CRON] Thing orders: ${result.deliveriesConfirmed} deliveries auto-confirmed, ${result.payoutsReleased} payouts released, ${result.releaseFailures} failed`);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: startedAt.toISOString(),
+      ...result,
+    });
+  } catch (error) {
+    console.error('[CRON] Error processing thing orders:', error);
+    return NextResponse.json(
+      { error: 'Failed to process thing orders' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Waitlist Offers Cron Job
+ *
+ * Expires waitlist offers whose slot hold has lapsed and offers each
+ * spot to the next customer in line.
+ *
+ * Schedule recommendation: every 5 minutes, since an offer lasts one
+ * 10-minute hold TTL (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { waitlistService } from '@/lib/waitlist';
+
+export async function GET(request: NextRequest) {
+  return handleWaitlistOffers(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleWaitlistOffers(request);
+}
+
+async function handleWaitlistOffers(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = request.headers.get('x-cron-secret');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (process.env.NODE_ENV === 'production') {
+      if (!expectedSecret ||
+          (authHeader !== `Bearer ${expectedSecret}` && cronSecret !== expectedSecret)) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    const startedAt = new Date();
+    console.log(`[CRON] Starting waitlist offer expiry at ${startedAt.toISOString()}`);
+
+    const result = await waitlistService.expireOffers(startedAt);
+
+    console.log(`[CRON] Waitlist offers: ${result.expired} expired, ${result.reoffered} re-offered`);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: startedAt.toISOString(),
+      ...result,
+    });
+  } catch (error) {
+    console.error('[CRON] Error processing waitlist offers:', error);
+    return NextResponse.json(
+      { error: 'Failed to process waitlist offers' },
+      { status: 500 }
+    );
+  }
+}
@@ -7,7 +7,11 @@ import { db } from "@/db/db";
 import { bookingsTable } from "@/db/schema/bookings-schema";
 import { profilesTable } from "@/db/schema/profiles-schema";
 import { eq } from "drizzle-orm";
-import { calculateFees } from "@/lib/fees";
+import { calculateFees } from "@/lib/payments/fee-calculator";
+import { minorToDecimalString, normalizeCurrency, toMinorUnits } from "@/lib/payments/currency";
+import { initialBookingState, BookingStates } from "@/lib/booking-state-machine";
+import { cancellationPolicyService } from "@/lib/bookings/cancellation-policy-service";
+import { waitlistService, WaitlistError } from "@/lib/waitlist";
 import Stripe from "stripe";
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -27,6 +31,7 @@ const attendanceSchema = z.object({
   useEarlyBird: z.boolean().optional(),
   paymentMethodId: z.string().optional(), // For instant booking
   returnUrl: z.string().url().optional(), // For redirect after payment
+  holdId: z.string().optional(), // Claimed waitlist offer being redeemed
 });
 
 // Guest attendance schema (for unauthenticated users)
@@ -100,6 +105,39 @@ async function handleAttendEvent(req: NextRequest, context: ApiContext) {
       return createApiError("Event not found", { status: 404 });
     }
     
+    // Spots offered to the waitlist are taken unless this customer is redeeming their own hold
+    const waitlistTarget = { targetType: "event" as const, providerId: event.providerId, eventId };
+    let waitlistEntry = null;
+    if (body.holdId) {
+      try {
+        waitlistEntry = await waitlistService.redeemableEntry(body.holdId, userId || "guest", waitlistTarget);
+      } catch (error) {
+        if (error instanceof WaitlistError) {
+          return createApiError(error.message, { status: error.status, code: error.code });
+        }
+        throw error;
+      }
+    }
+    
+    if (availability.availableSpots !== null && availability.availableSpots !== undefined) {
+      const heldSpots = await waitlistService.heldSpots(waitlistTarget, waitlistEntry?.id);
+      const unheldSpots = availability.availableSpots - heldSpots;
+      if (body.numberOfGuests > unheldSpots) {
+        return createApiError(
+          unheldSpots > 0 ? `Only ${unheldSpots} spots available` : "Remaining spots are held for waitlisted customers",
+          {
+            status: 409,
+            code: "INSUFFICIENT_SPOTS",
+            details: {
+              requested: body.numberOfGuests,
+              available: Math.max(0, unheldSpots),
+              waitlistAvailable: true,
+            }
+          }
+        );
+      }
+    }
+    
     // Determine price
     let unitPrice = availability.price ?? 0;
     const canUseEarlyBird = availability.earlyBirdPrice !== null && body.useEarlyBird;
@@ -112,10 +150,14 @@ async function handleAttendEvent(req: NextRequest, context: ApiContext) {
       return createApiError("Event pricing not configured", { status: 400 });
     }
     
-    const totalAmount = unitPrice * body.numberOfGuests;
-    
-    // Calculate fees
-    const fees = calculateFees(totalAmount, isGuestBooking);
+    // Charge in the host's currency
+    const currency = normalizeCurrency(event.provider.currency);
+    const fees = calculateFees({
+      baseAmountCents: toMinorUnits(unitPrice, currency) * body.numberOfGuests,
+      isGuest: isGuestBooking,
+      currency,
+    });
+    const totalAmount = minorToDecimalString(fees.customerTotalCents, currency);
     
     // Get user profile if authenticated
     let profile = null;
@@ -150,26 +192,39 @@ async function handleAttendEvent(req: NextRequest, context: ApiContext) {
     // Create booking record
     const confirmationCode = `EVT-${Date.now().toString(36).toUpperCase()}`;
     
+    // Instant bookings hold the seats until the payment webhook confirms
+    const collectsPayment = availability.instantBooking && !availability.requiresApproval;
+    const bookingState = availability.requiresApproval
+      ? BookingStates.PENDING_PROVIDER
+      : collectsPayment ? BookingStates.HOLD : BookingStates.CONFIRMED;
+
+    const cancellationPolicy = await cancellationPolicyService.policyForListing({
+      providerId: event.providerId,
+      eventId,
+    });
+
     const [booking] = await db
       .insert(bookingsTable)
       .values({
         providerId: event.providerId,
         customerId: userId || "guest",
         serviceName: event.title,
-        servicePrice: unitPrice.toFixed(2),
+        servicePrice: minorToDecimalString(toMinorUnits(unitPrice, currency), currency),
         serviceDuration: Math.ceil((new Date(event.endDateTime).getTime() - new Date(event.startDateTime).getTime()) / 60000), // Duration in minutes
         bookingDate: new Date(event.startDateTime),
         startTime: new Date(event.startDateTime).toTimeString().slice(0, 5),
         endTime: new Date(event.endDateTime).toTimeString().slice(0, 5),
-        status: availability.requiresApproval ? "pending" : "confirmed",
-        totalAmount: fees.totalAmount.toFixed(2),
-        platformFee: fees.platformFee.toFixed(2),
-        providerPayout: fees.providerPayout.toFixed(2),
+        ...initialBookingState(bookingState),
+        totalAmount,
+        platformFee: minorToDecimalString(fees.platformFeeCents, currency),
+        providerPayout: minorToDecimalString(fees.providerPayoutCents, currency),
+        currency,
         confirmationCode,
         isGuestBooking,
         guestEmail: isGuestBooking ? customerEmail : null,
         bookingType: "event",
         eventId: eventId,
+        cancellationPolicy,
         metadata: {
           numberOfGuests: body.numberOfGuests,
           dietaryRestrictions: body.dietaryRestrictions,
@@ -180,12 +235,12 @@ async function handleAttendEvent(req: NextRequest, context: ApiContext) {
     
     // Handle payment for instant booking
     let paymentIntent = null;
-    if (availability.instantBooking && !availability.requiresApproval) {
+    if (collectsPayment) {
       try {
         // Create Stripe payment intent
         paymentIntent = await stripe.paymentIntents.create({
-          amount: Math.round(fees.totalAmount * 100), // Convert to cents
-          currency: "usd",
+          amount: fees.customerTotalCents,
+          currency,
           metadata: {
             bookingId: booking.id,
             eventId: eventId,
@@ -203,7 +258,6 @@ async function handleAttendEvent(req: NextRequest, context: ApiContext) {
           .update(bookingsTable)
           .set({ 
             stripePaymentIntentId: paymentIntent.id,
-            status: "confirmed",
           })
           .where(eq(bookingsTable.id, booking.id));
       } catch (paymentError) {
@@ -221,6 +275,10 @@ async function handleAttendEvent(req: NextRequest, context: ApiContext) {
       }
     }
     
+    if (waitlistEntry) {
+      await waitlistService.completeClaim(waitlistEntry, booking.id);
+    }
+    
     // Register attendance in the event attendees table
     try {
       await registerEventAttendance(
@@ -252,7 +310,7 @@ async function handleAttendEvent(req: NextRequest, context: ApiContext) {
         eventTitle: event.title,
         eventDateTime: event.startDateTime,
         numberOfGuests: body.numberOfGuests,
-        totalAmount: fees.totalAmount,
+        totalAmount: Number(totalAmount),
         requiresApproval: availability.requiresApproval,
         instantBooking: availability.instantBooking,
       },
@@ -276,8 +334,8 @@ async function handleAttendEvent(req: NextRequest, context: ApiContext) {
     if (paymentIntent) {
       response.payment = {
         clientSecret: paymentIntent.client_secret,
-        amount: fees.totalAmount,
-        currency: "usd",
+        amount: Number(totalAmount),
+        currency,
         requiresAction: paymentIntent.status === "requires_action",
       };
     }
@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { checkEventAvailability, getEventById } from "@/db/queries/events-queries";
 import { z } from "zod";
 import { createSecureApiHandler, createApiResponse, createApiError, ApiContext } from "@/lib/security/api-handler";
-import { calculateFees } from "@/lib/fees";
+import { calculateFees } from "@/lib/payments/fee-calculator";
+import { fromMinorUnits, normalizeCurrency, toMinorUnits } from "@/lib/payments/currency";
 
 /**
  * Event Availability API
@@ -64,9 +65,11 @@ async function handleCheckAvailability(req: NextRequest, context: ApiContext) {
     const earlyBirdPrice = availability.earlyBirdPrice;
     const currentPrice = earlyBirdPrice !== null && earlyBirdPrice !== undefined ? earlyBirdPrice : regularPrice;
     
-    // Calculate total with fees
-    const subtotal = currentPrice * numberOfGuests;
-    const fees = calculateFees(subtotal, isGuest);
+    // Calculate total with fees, in the host's currency
+    const currency = normalizeCurrency(event.provider.currency);
+    const subtotalMinor = toMinorUnits(currentPrice, currency) * numberOfGuests;
+    const subtotal = fromMinorUnits(subtotalMinor, currency);
+    const fees = calculateFees({ baseAmountCents: subtotalMinor, isGuest, currency });
     
     // Prepare detailed availability response
     const response = {
@@ -96,11 +99,11 @@ async function handleCheckAvailability(req: NextRequest, context: ApiContext) {
         numberOfGuests: numberOfGuests,
         subtotal: subtotal,
         fees: {
-          platformFee: fees.platformFee,
-          guestSurcharge: isGuest ? fees.totalAmount - subtotal : 0,
+          platformFee: fromMinorUnits(fees.platformFeeCents, currency),
+          guestSurcharge: fromMinorUnits(fees.guestSurchargeCents, currency),
         },
-        total: fees.totalAmount,
-        currency: "usd",
+        total: fromMinorUnits(fees.customerTotalCents, currency),
+        currency,
       },
       booking: {
         instantBooking: availability.instantBooking,
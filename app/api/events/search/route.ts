@@ -3,6 +3,8 @@ import { searchEvents } from "@/db/queries/events-queries";
 import { z } from "zod";
 import { createSecureApiHandler, createApiResponse, createApiError, getValidatedQuery } from "@/lib/security/api-handler";
 import { getGeocoding } from "@/lib/geocoding";
+import { SUPPORTED_CURRENCIES } from "@/lib/payments/currency";
+import { fxRateService, toDisplayPrice } from "@/lib/payments/fx-rates";
 
 /**
  * Event Search API with Advanced Filters
@@ -40,6 +42,9 @@ const searchSchema = z.object({
   freeOnly: z.coerce.boolean().optional(),
   hasEarlyBird: z.coerce.boolean().optional(),
   
+  // Display currency; price filters still apply to each event's own currency
+  currency: z.string().toLowerCase().pipe(z.enum(SUPPORTED_CURRENCIES)).optional(),
+  
   // Availability filters
   availableOnly: z.coerce.boolean().default(true),
   instantBooking: z.coerce.boolean().optional(),
@@ -239,6 +244,8 @@ async function handleSearchEvents(req: NextRequest) {
       };
     }
     
+    const rates = params.currency ? await fxRateService.getRateTable() : null;
+    
     // Transform events for response
     const transformedEvents = filteredEvents.map(event => ({
       id: event.id,
@@ -268,6 +275,7 @@ async function handleSearchEvents(req: NextRequest) {
       favoriteCount: event.favoriteCount,
       slug: event.slug,
       provider: event.provider,
+      displayPrice: rates ? toDisplayPrice(Number(event.price), event.provider.currency, params.currency, rates) : undefined,
     }));
     
     // Calculate pagination
@@ -302,6 +310,7 @@ async function handleSearchEvents(req: NextRequest) {
           },
           locationType: params.locationType !== "any" ? params.locationType : null,
         },
+        displayCurrency: params.currency,
       },
       stats,
       facets,
@@ -0,0 +1,68 @@
+/**
+ * Message Attachments API
+ *
+ * Multipart upload of an image or document into a conversation. The file is
+ * type-checked and malware-scanned before it is stored; the returned id is
+ * then sent with POST /api/messages as one of `attachmentIds`.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ratelimit } from "@/lib/redis";
+import { AttachmentError } from "@/lib/messaging/attachment-validation";
+import { messageService, MessagingError } from "@/lib/messaging/message-service";
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/messages/[conversationId]/attachments
+ * Form field: `file`
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Rate limiting
+    const ip = request.ip ?? "127.0.0.1";
+    const { success } = await ratelimit.limit(ip);
+    if (!success) {
+      return NextResponse.json({ error: "Too Many Requests" }, { status: 429 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "No file provided" },
+        { status: 400 }
+      );
+    }
+
+    const attachment = await messageService.uploadAttachment(params.conversationId, userId, {
+      data: Buffer.from(await file.arrayBuffer()),
+      fileName: file.name,
+      declaredType: file.type,
+    });
+
+    return NextResponse.json({ success: true, attachment }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AttachmentError || error instanceof MessagingError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error uploading message attachment:", error);
+    return NextResponse.json(
+      { error: "Failed to upload attachment" },
+      { status: 500 }
+    );
+  }
+}
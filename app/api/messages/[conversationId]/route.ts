@@ -1,9 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/db/db";
-import { conversationsTable, messagesTable, messageReadReceiptsTable, profilesTable } from "@/db/schema";
+import { messagesTable, messageReadReceiptsTable, profilesTable } from "@/db/schema";
 import { eq, and, desc, sql } from "drizzle-orm";
+import { z } from "zod";
 import { ratelimit } from "@/lib/redis";
+import { messageService } from "@/lib/messaging/message-service";
+import { conversationService } from "@/lib/messaging/conversation-service";
+import { publishConversationEvent } from "@/lib/messaging/realtime";
+
+// Validation schemas
+const MuteSchema = z.object({
+  muted: z.boolean(),
+});
 
 interface RouteParams {
   params: {
@@ -29,24 +38,15 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const { conversationId } = params;
 
     // Verify user is a participant in this conversation
-    const conversation = await db
-      .select()
-      .from(conversationsTable)
-      .where(
-        and(
-          eq(conversationsTable.id, conversationId),
-          eq(conversationsTable.isActive, true),
-          sql`(participant_one_id = ${userId} OR participant_two_id = ${userId})`
-        )
-      )
-      .limit(1);
+    const membership = await conversationService.findMembership(conversationId, userId);
 
-    if (conversation.length === 0) {
+    if (!membership) {
       return NextResponse.json(
         { error: "Conversation not found or access denied" },
         { status: 404 }
       );
     }
+    const { conversation } = membership;
 
     // Get pagination parameters
     const url = new URL(request.url);
@@ -62,6 +62,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         senderId: messagesTable.senderId,
         content: messagesTable.content,
         messageType: messagesTable.messageType,
+        metadata: messagesTable.metadata,
         isRead: messagesTable.isRead,
         readAt: messagesTable.readAt,
         isEdited: messagesTable.isEdited,
@@ -93,6 +94,12 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         )
       );
 
+    // Signed links for images and files shared on this page, and who has read what
+    const [attachments, participants] = await Promise.all([
+      messageService.getAttachmentsForMessages(messages.map((message) => message.id)),
+      conversationService.getParticipantViews(conversationId),
+    ]);
+
     // Format messages
     const formattedMessages = messages.map((message) => ({
       id: message.id,
@@ -100,6 +107,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       senderId: message.senderId,
       content: message.content,
       messageType: message.messageType,
+      metadata: message.metadata,
+      attachments: attachments[message.id] || [],
       isRead: message.isRead,
       readAt: message.readAt,
       isEdited: message.isEdited,
@@ -124,12 +133,17 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         hasPrev: page > 1,
       },
       conversation: {
-        id: conversation[0].id,
-        participantOneId: conversation[0].participantOneId,
-        participantTwoId: conversation[0].participantTwoId,
-        bookingId: conversation[0].bookingId,
-        lastMessageAt: conversation[0].lastMessageAt,
-        createdAt: conversation[0].createdAt,
+        id: conversation.id,
+        kind: conversation.kind,
+        title: conversation.title,
+        participantOneId: conversation.participantOneId,
+        participantTwoId: conversation.participantTwoId,
+        bookingId: conversation.bookingId,
+        groupBookingId: conversation.groupBookingId,
+        lastMessageAt: conversation.lastMessageAt,
+        createdAt: conversation.createdAt,
+        isMuted: membership.participant.isMuted,
+        participants,
       },
     });
   } catch (error) {
@@ -159,24 +173,17 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     const { conversationId } = params;
 
     // Verify user is a participant in this conversation
-    const conversation = await db
-      .select()
-      .from(conversationsTable)
-      .where(
-        and(
-          eq(conversationsTable.id, conversationId),
-          eq(conversationsTable.isActive, true),
-          sql`(participant_one_id = ${userId} OR participant_two_id = ${userId})`
-        )
-      )
-      .limit(1);
+    const membership = await conversationService.findMembership(conversationId, userId);
 
-    if (conversation.length === 0) {
+    if (!membership) {
       return NextResponse.json(
         { error: "Conversation not found or access denied" },
         { status: 404 }
       );
     }
+    const { conversation } = membership;
+
+    const readAt = new Date();
 
     // Mark all unread messages as read in a transaction
     const result = await db.transaction(async (tx) => {
@@ -194,7 +201,42 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         .limit(1);
 
       if (latestMessage.length === 0) {
-        return { updatedMessages: 0 };
+        return { updatedMessages: 0, lastReadMessageId: null, receiptMoved: false };
+      }
+
+      // Group messages have no single reader; their read state is the receipts
+      if (conversation.kind === "group") {
+        const [receipt] = await tx
+          .select({
+            id: messageReadReceiptsTable.id,
+            lastReadMessageId: messageReadReceiptsTable.lastReadMessageId,
+            unreadCount: messageReadReceiptsTable.unreadCount,
+          })
+          .from(messageReadReceiptsTable)
+          .where(
+            and(
+              eq(messageReadReceiptsTable.conversationId, conversationId),
+              eq(messageReadReceiptsTable.userId, userId)
+            )
+          )
+          .limit(1);
+
+        if (receipt?.lastReadMessageId === latestMessage[0].id) {
+          return { updatedMessages: 0, lastReadMessageId: latestMessage[0].id, receiptMoved: false };
+        }
+
+        if (receipt) {
+          await tx
+            .update(messageReadReceiptsTable)
+            .set({ lastReadMessageId: latestMessage[0].id, lastReadAt: readAt, unreadCount: 0, updatedAt: readAt })
+            .where(eq(messageReadReceiptsTable.id, receipt.id));
+        } else {
+          await tx
+            .insert(messageReadReceiptsTable)
+            .values({ conversationId, userId, lastReadMessageId: latestMessage[0].id, lastReadAt: readAt });
+        }
+
+        return { updatedMessages: receipt?.unreadCount ?? 0, lastReadMessageId: latestMessage[0].id, receiptMoved: true };
       }
 
       // Mark all messages from other participants as read
@@ -202,8 +244,8 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         .update(messagesTable)
         .set({
           isRead: true,
-          readAt: new Date(),
-          updatedAt: new Date(),
+          readAt,
+          updatedAt: readAt,
         })
         .where(
           and(
@@ -220,9 +262,9 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         .update(messageReadReceiptsTable)
         .set({
           lastReadMessageId: latestMessage[0].id,
-          lastReadAt: new Date(),
+          lastReadAt: readAt,
           unreadCount: 0,
-          updatedAt: new Date(),
+          updatedAt: readAt,
         })
         .where(
           and(
@@ -231,9 +273,24 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
           )
         );
 
-      return { updatedMessages: updatedMessages.length };
+      return {
+        updatedMessages: updatedMessages.length,
+        lastReadMessageId: latestMessage[0].id,
+        receiptMoved: updatedMessages.length > 0,
+      };
     });
 
+    // Let the other participants' open streams update their read ticks
+    if (result.receiptMoved && result.lastReadMessageId) {
+      await publishConversationEvent({
+        type: "read",
+        conversationId,
+        userId,
+        lastReadMessageId: result.lastReadMessageId,
+        readAt: readAt.toISOString(),
+      });
+    }
+
     return NextResponse.json({
       success: true,
       markedAsRead: result.updatedMessages,
@@ -246,4 +303,48 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// PATCH /api/messages/[conversationId] - Update the user's settings for a conversation
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Rate limiting
+    const ip = request.ip ?? "127.0.0.1";
+    const { success } = await ratelimit.limit(ip);
+    if (!success) {
+      return NextResponse.json({ error: "Too Many Requests" }, { status: 429 });
+    }
+
+    const { muted } = MuteSchema.parse(await request.json());
+    const participant = await conversationService.setMuted(params.conversationId, userId, muted);
+
+    if (!participant) {
+      return NextResponse.json(
+        { error: "Conversation not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      isMuted: participant.isMuted,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error("Error updating conversation settings:", error);
+    return NextResponse.json(
+      { error: "Failed to update conversation settings" },
+      { status: 500 }
+    );
+  }
+}
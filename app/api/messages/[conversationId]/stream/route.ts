@@ -0,0 +1,149 @@
+/**
+ * Conversation Event Stream
+ *
+ * Server-Sent Events for an open conversation: new messages, read receipts,
+ * typing indicators and the other participants' presence. The first event,
+ * `ready`, carries the current presence and read state so the client does
+ * not need a separate request. EventSource reconnects on its own when the
+ * function times out; clients fall back to polling if it keeps failing.
+ */
+
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/db/db";
+import { messageReadReceiptsTable } from "@/db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { messageService, MessagingError } from "@/lib/messaging/message-service";
+import { conversationService } from "@/lib/messaging/conversation-service";
+import {
+  formatSseEvent,
+  heartbeatPresence,
+  isOnline,
+  leavePresence,
+  realtimeTransport,
+  subscribeToConversation,
+  HEARTBEAT_INTERVAL_MS,
+} from "@/lib/messaging/realtime";
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+// GET /api/messages/[conversationId]/stream - Subscribe to conversation events
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { conversationId } = params;
+
+  let otherUserIds: string[];
+  try {
+    await messageService.getConversationForParticipant(conversationId, userId);
+    const participants = await conversationService.getActiveParticipants(conversationId);
+    otherUserIds = participants
+      .map((participant) => participant.userId)
+      .filter((participantId) => participantId !== userId);
+  } catch (error) {
+    if (error instanceof MessagingError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error("Error opening message stream:", error);
+    return NextResponse.json({ error: "Failed to open message stream" }, { status: 500 });
+  }
+
+  const encoder = new TextEncoder();
+  // Presence is tracked per stream, so other tabs on this conversation keep the user online when this one closes
+  const connectionId = randomUUID();
+  let closed = false;
+  let cleanup: () => Promise<void> = async () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          void cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeToConversation(conversationId, (event) => {
+        // Echoes of the user's own typing and presence are noise
+        if ((event.type === "typing" || event.type === "presence") && event.userId === userId) {
+          return;
+        }
+        write(formatSseEvent(event.type, event));
+      });
+
+      const heartbeat = setInterval(() => {
+        write(": ping\n\n");
+        heartbeatPresence(conversationId, userId, connectionId).catch(console.error);
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = async () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+        await unsubscribe().catch(console.error);
+        await leavePresence(conversationId, userId, connectionId).catch(console.error);
+      };
+
+      request.signal.addEventListener("abort", () => void cleanup());
+
+      try {
+        await heartbeatPresence(conversationId, userId, connectionId);
+
+        const readStates = otherUserIds.length > 0
+          ? await db
+              .select({
+                userId: messageReadReceiptsTable.userId,
+                lastReadMessageId: messageReadReceiptsTable.lastReadMessageId,
+                lastReadAt: messageReadReceiptsTable.lastReadAt,
+              })
+              .from(messageReadReceiptsTable)
+              .where(
+                and(
+                  eq(messageReadReceiptsTable.conversationId, conversationId),
+                  inArray(messageReadReceiptsTable.userId, otherUserIds)
+                )
+              )
+          : [];
+        const online = await Promise.all(otherUserIds.map((otherUserId) => isOnline(otherUserId, conversationId)));
+
+        write(formatSseEvent("ready", {
+          transport: realtimeTransport(),
+          heartbeatMs: HEARTBEAT_INTERVAL_MS,
+          onlineUserIds: otherUserIds.filter((_, index) => online[index]),
+          readStates,
+        }));
+      } catch (error) {
+        console.error("Error starting message stream:", error);
+        await cleanup();
+      }
+    },
+    cancel() {
+      return cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
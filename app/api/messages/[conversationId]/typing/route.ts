@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { rateLimit } from "@/lib/redis";
+import { messageService, MessagingError } from "@/lib/messaging/message-service";
+import { publishConversationEvent } from "@/lib/messaging/realtime";
+
+const TypingSchema = z.object({
+  isTyping: z.boolean(),
+});
+
+// POST /api/messages/[conversationId]/typing - Broadcast a typing indicator
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Clients throttle these; allow more than the default message limit
+    const { success } = await rateLimit(`typing:${userId}`, 60, 60);
+    if (!success) {
+      return NextResponse.json({ error: "Too Many Requests" }, { status: 429 });
+    }
+
+    const { isTyping } = TypingSchema.parse(await request.json());
+    const { conversationId } = params;
+
+    await messageService.getConversationForParticipant(conversationId, userId);
+    await publishConversationEvent({ type: "typing", conversationId, userId, isTyping });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof MessagingError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+    console.error("Error sending typing indicator:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { ratelimit } from "@/lib/redis";
+import { conversationService } from "@/lib/messaging/conversation-service";
+
+// Validation schemas
+const OpenGroupConversationSchema = z.object({
+  groupBookingId: z.string().uuid(),
+});
+
+// POST /api/messages/group - Open a group booking's shared thread
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Rate limiting
+    const ip = request.ip ?? "127.0.0.1";
+    const { success } = await ratelimit.limit(ip);
+    if (!success) {
+      return NextResponse.json({ error: "Too Many Requests" }, { status: 429 });
+    }
+
+    const { groupBookingId } = OpenGroupConversationSchema.parse(await request.json());
+
+    // Brings the thread's members up to date before checking access
+    const conversation = await conversationService.openGroupBookingConversation(groupBookingId, userId);
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: "Group booking not found or you are not part of it" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      conversation,
+      success: true,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error("Error opening group conversation:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
-import { db } from "@/db/db";
-import { conversationsTable, messagesTable } from "@/db/schema";
-import { eq, or, and, desc } from "drizzle-orm";
+import { messageTypes } from "@/db/schema";
 import { z } from "zod";
 import { ratelimit } from "@/lib/redis";
+import { messageService, MessagingError } from "@/lib/messaging/message-service";
+import { conversationService } from "@/lib/messaging/conversation-service";
+import { ContactScreeningError } from "@/lib/security/contact-screening-service";
 
 // Validation schemas
 const SendMessageSchema = z.object({
-  recipientId: z.string().min(1, "Recipient ID is required"),
-  content: z.string().min(1, "Message content is required").max(1000, "Message too long"),
+  conversationId: z.string().uuid().optional(),
+  recipientId: z.string().min(1, "Recipient ID is required").optional(),
+  content: z.string().max(1000, "Message too long").optional(),
   bookingId: z.string().uuid().optional(),
+  messageType: z.enum(messageTypes).exclude(["system"]).default("text"),
+  payload: z.unknown().optional(),
+  attachmentIds: z.array(z.string().uuid()).max(10).optional(),
+}).refine(data => data.conversationId || data.recipientId, {
+  message: "Either conversationId or recipientId is required",
+  path: ["recipientId"],
 });
 
 // GET /api/messages - Get all conversations for the current user
@@ -28,52 +36,15 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Too Many Requests" }, { status: 429 });
     }
 
-    // Get all conversations where user is a participant (simplified query for build fix)
-    const conversations = await db
-      .select({
-        id: conversationsTable.id,
-        participantOneId: conversationsTable.participantOneId,
-        participantTwoId: conversationsTable.participantTwoId,
-        bookingId: conversationsTable.bookingId,
-        lastMessageAt: conversationsTable.lastMessageAt,
-        isActive: conversationsTable.isActive,
-        createdAt: conversationsTable.createdAt,
-        updatedAt: conversationsTable.updatedAt,
-      })
-      .from(conversationsTable)
-      .where(
-        and(
-          or(
-            eq(conversationsTable.participantOneId, userId),
-            eq(conversationsTable.participantTwoId, userId)
-          ),
-          eq(conversationsTable.isActive, true)
-        )
-      )
-      .orderBy(desc(conversationsTable.lastMessageAt))
-      .limit(50);
-
-    // Format the response (simplified without email details)
-    const formattedConversations = conversations.map((conv) => ({
-      id: conv.id,
-      participantOne: {
-        userId: conv.participantOneId,
-      },
-      participantTwo: {
-        userId: conv.participantTwoId,
-      },
-      bookingId: conv.bookingId,
-      lastMessageAt: conv.lastMessageAt,
-      isActive: conv.isActive,
-      createdAt: conv.createdAt,
-      updatedAt: conv.updatedAt,
-      // Will be enhanced later with proper joins
-      lastMessage: null,
-      unreadCount: 0,
-    }));
+    // Direct and group conversations the user is currently in
+    const conversations = await conversationService.listForUser(userId);
 
     return NextResponse.json({
-      conversations: formattedConversations,
+      conversations,
+      // Muted threads do not count towards the badge
+      unreadTotal: conversations
+        .filter((conversation) => !conversation.isMuted)
+        .reduce((total, conversation) => total + conversation.unreadCount, 0),
       success: true,
     });
 
@@ -104,20 +75,10 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = SendMessageSchema.parse(body);
 
-    // TODO: Need to implement proper conversation handling
-    // For now, create a basic message with required fields only
-    const message = await db
-      .insert(messagesTable)
-      .values({
-        conversationId: "00000000-0000-0000-0000-000000000000", // TODO: Create proper conversation
-        senderId: userId,
-        recipientId: validatedData.recipientId,
-        content: validatedData.content,
-      })
-      .returning();
+    const message = await messageService.sendMessage(userId, validatedData);
 
     return NextResponse.json({
-      message: message[0],
+      message,
       success: true,
     });
 
@@ -129,6 +90,12 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+    if (error instanceof MessagingError || error instanceof ContactScreeningError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
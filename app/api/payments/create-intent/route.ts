@@ -23,6 +23,20 @@ import { db } from '@/db/db';
 import { bookingsTable, providersTable, transactionsTable } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { z } from 'zod';
+import {
+  bookingStateEngine,
+  BookingStates,
+  TransitionEvents,
+  toBookingState,
+  type BookingState,
+} from '@/lib/booking-state-machine';
+
+// Drafts are paid up front; pending and confirmed bookings pay after acceptance
+const PAYABLE_STATES: BookingState[] = [
+  BookingStates.DRAFT,
+  BookingStates.PENDING_PROVIDER,
+  BookingStates.CONFIRMED,
+];
 
 // Request validation schema
 const createPaymentIntentSchema = z.object({
@@ -94,7 +108,7 @@ export async function POST(req: NextRequest) {
       );
     }
     
-    if (booking.status !== 'accepted' && booking.status !== 'pending') {
+    if (!PAYABLE_STATES.includes(toBookingState(booking.status))) {
       return NextResponse.json(
         { error: `Cannot process payment for booking in ${booking.status} status` },
         { status: 400 }
@@ -161,14 +175,15 @@ export async function POST(req: NextRequest) {
       status: 'pending',
     });
     
-    // Update booking status to payment_pending
-    await db
-      .update(bookingsTable)
-      .set({
-        status: 'payment_pending',
-        updatedAt: new Date(),
-      })
-      .where(eq(bookingsTable.id, bookingId));
+    // Hold the slot while a draft booking is being paid for
+    if (toBookingState(booking.status) === BookingStates.DRAFT) {
+      await bookingStateEngine.dispatch(
+        bookingId,
+        TransitionEvents.PLACE_HOLD,
+        { type: 'system', id: 'system' },
+        { metadata: { paymentIntentId: paymentIntent.id } }
+      );
+    }
     
     console.log(`Created payment intent for booking ${bookingId}:`, {
       paymentIntentId: paymentIntent.id,
@@ -265,24 +280,20 @@ export async function GET(req: NextRequest) {
     );
     
     // Map Stripe status to our booking status
-    let bookingStatus: string;
+    let bookingStatus: BookingState;
     switch (paymentIntent.status) {
       case 'succeeded':
-        bookingStatus = 'confirmed';
+        bookingStatus = BookingStates.CONFIRMED;
         break;
       case 'processing':
-        bookingStatus = 'payment_pending';
-        break;
       case 'requires_payment_method':
       case 'requires_confirmation':
       case 'requires_action':
-        bookingStatus = 'payment_pending';
-        break;
-      case 'canceled':
-        bookingStatus = 'cancelled';
+        bookingStatus = BookingStates.HOLD;
         break;
       default:
-        bookingStatus = 'payment_failed';
+        // Canceled and failed payments release the hold back to draft
+        bookingStatus = BookingStates.DRAFT;
     }
     
     return NextResponse.json({
@@ -40,6 +40,7 @@ export interface AnalyticsOverview {
   revenue: any;
   topServices: any;
   summary: {
+    currency: string;
     totalEarnings: number;
     totalBookings: number;
     averageRating: number;
@@ -134,6 +135,7 @@ export async function GET(
       
       // Create summary metrics for dashboard overview
       const summary = {
+        currency: earningsData.currency,
         totalEarnings: earningsData.totalEarnings,
         totalBookings: bookingData.totalBookings,
         averageRating: performanceData.averageRating,
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/db/db";
+import { providersTable } from "@/db/schema/providers-schema";
+import { eq } from "drizzle-orm";
+import { parseISO, isValid } from "date-fns";
+import {
+  importCalendarBlocks,
+  IcsParseError,
+  MAX_IMPORT_DAYS,
+  DEFAULT_IMPORT_DAYS
+} from "@/lib/calendar";
+
+const MAX_ICS_BYTES = 1024 * 1024; // 1 MB
+
+/**
+ * POST /api/providers/[providerId]/availability/blocks/import
+ * Import busy time from an .ics file as blocked slots
+ *
+ * Accepts either multipart/form-data with a `file` field or a raw
+ * text/calendar body. Optional query params: `from` (ISO date), `days`.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { providerId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const providerId = params.providerId;
+    const provider = await db
+      .select({ id: providersTable.id, userId: providersTable.userId })
+      .from(providersTable)
+      .where(eq(providersTable.id, providerId))
+      .limit(1);
+
+    if (provider.length === 0) {
+      return NextResponse.json(
+        { error: "Provider not found" },
+        { status: 404 }
+      );
+    }
+
+    if (provider[0].userId !== userId) {
+      return NextResponse.json(
+        { error: "Forbidden: You can only manage your own availability" },
+        { status: 403 }
+      );
+    }
+
+    // Parse import window
+    const searchParams = request.nextUrl.searchParams;
+    const fromParam = searchParams.get("from");
+    const daysParam = searchParams.get("days");
+
+    let from: Date | undefined;
+    if (fromParam) {
+      from = parseISO(fromParam);
+      if (!isValid(from)) {
+        return NextResponse.json(
+          { error: "Invalid from date format" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const days = daysParam ? parseInt(daysParam, 10) : DEFAULT_IMPORT_DAYS;
+    if (isNaN(days) || days < 1 || days > MAX_IMPORT_DAYS) {
+      return NextResponse.json(
+        { error: `days must be between 1 and ${MAX_IMPORT_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    // Read the calendar from either an uploaded file or the raw body
+    let icsText: string;
+    const contentType = request.headers.get("content-type") || "";
+
+    if (contentType.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const file = formData.get("file");
+
+      if (!file || typeof file === "string") {
+        return NextResponse.json(
+          { error: "An .ics file is required in the 'file' field" },
+          { status: 400 }
+        );
+      }
+
+      if (file.size > MAX_ICS_BYTES) {
+        return NextResponse.json(
+          { error: "Calendar file exceeds the 1MB limit" },
+          { status: 413 }
+        );
+      }
+
+      icsText = await file.text();
+    } else {
+      icsText = await request.text();
+
+      if (Buffer.byteLength(icsText, "utf8") > MAX_ICS_BYTES) {
+        return NextResponse.json(
+          { error: "Calendar file exceeds the 1MB limit" },
+          { status: 413 }
+        );
+      }
+    }
+
+    if (!icsText.trim()) {
+      return NextResponse.json(
+        { error: "Calendar file is empty" },
+        { status: 400 }
+      );
+    }
+
+    const result = await importCalendarBlocks(providerId, icsText, { from, days });
+
+    return NextResponse.json({
+      ...result,
+      success: true,
+      providerId,
+    });
+  } catch (error) {
+    console.error("Error importing calendar:", error);
+
+    if (error instanceof IcsParseError) {
+      return NextResponse.json(
+        { error: "Invalid calendar file", details: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to import calendar" },
+      { status: 500 }
+    );
+  }
+}
@@ -9,6 +9,7 @@ import {
   bookingsTable 
 } from "@/db/schema";
 import { eq, and, gte, lte, inArray } from "drizzle-orm";
+import { SLOT_HOLDING_STATES } from "@/lib/booking-state-machine/status-map";
 import { 
   checkAvailabilitySchema, 
   updateAvailabilitySchema,
@@ -121,7 +122,7 @@ export async function GET(
             and(
               eq(bookingsTable.providerId, providerId),
               eq(bookingsTable.bookingDate, requestedDate),
-              inArray(bookingsTable.status, ["pending", "confirmed", "in_progress"])
+              inArray(bookingsTable.status, SLOT_HOLDING_STATES)
             )
           );
 
@@ -213,7 +214,7 @@ export async function GET(
             eq(bookingsTable.providerId, providerId),
             gte(bookingsTable.bookingDate, startDate),
             lte(bookingsTable.bookingDate, endDate),
-            inArray(bookingsTable.status, ["pending", "confirmed", "in_progress"])
+            inArray(bookingsTable.status, SLOT_HOLDING_STATES)
           )
         );
 
@@ -1,25 +1,121 @@
-// @ts-nocheck
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
 import { z } from "zod";
-import { getAvailableSlots } from "@/db/queries/availability-queries";
 import { db } from "@/db/db";
 import { providersTable } from "@/db/schema/providers-schema";
 import { eq } from "drizzle-orm";
-import { parseISO, isValid, addDays, startOfDay, endOfDay } from "date-fns";
-
-// Request validation schema
-const getSlotsSchema = z.object({
-  date: z.string().datetime(),
-  serviceDuration: z.number().min(15).max(480), // 15 minutes to 8 hours
-  timezone: z.string().default("America/New_York"),
-  minimumNoticeHours: z.number().min(0).max(168).optional(), // Up to 1 week
-  bufferMinutes: z.number().min(0).max(60).optional(),
-});
+import { parseISO, isValid } from "date-fns";
+import { slotGenerator, type AvailabilitySlot } from "@/lib/availability/slot-generator";
+import {
+  resolveTimezone,
+  isValidTimezone,
+  localDate,
+  localDayBounds,
+  addDaysToDate
+} from "@/lib/availability/timezone";
+
+const MAX_DAYS_AHEAD = 90;
+
+/**
+ * Resolve the customer's requested calendar day (YYYY-MM-DD in their zone)
+ * Accepts either a bare date or an ISO datetime.
+ */
+function resolveRequestedDate(value: string, timezone: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return isValid(parseISO(value)) ? value : null;
+  }
+
+  const parsed = parseISO(value);
+  return isValid(parsed) ? localDate(parsed, timezone) : null;
+}
+
+/**
+ * Validate a customer-local date against the booking window
+ */
+function validateDateWindow(date: string, timezone: string): string | null {
+  const today = localDate(new Date(), timezone);
+
+  if (date < today) {
+    return "Cannot get slots for past dates";
+  }
+  if (date > addDaysToDate(today, MAX_DAYS_AHEAD)) {
+    return `Cannot get slots more than ${MAX_DAYS_AHEAD} days in advance`;
+  }
+  return null;
+}
+
+/**
+ * Shape a slot for the customer: local fields are in the customer's zone,
+ * provider-local fields are kept for display on the provider side.
+ */
+function toCustomerSlot(slot: AvailabilitySlot) {
+  return {
+    date: slot.customerLocal?.date ?? slot.date,
+    startTime: slot.customerLocal?.startTime ?? slot.startTime,
+    endTime: slot.customerLocal?.endTime ?? slot.endTime,
+    startsAt: slot.startsAt,
+    endsAt: slot.endsAt,
+    available: slot.available,
+    remainingCapacity: slot.remainingCapacity,
+    providerDate: slot.date,
+    providerStartTime: slot.startTime,
+    providerEndTime: slot.endTime,
+  };
+}
+
+/**
+ * Generate a customer-local day of slots and write them to availability_cache
+ */
+async function getSlotsForCustomerDay(params: {
+  providerId: string;
+  serviceId?: string;
+  date: string;
+  serviceDuration: number;
+  customerTimezone: string;
+}) {
+  const bounds = localDayBounds(params.date, params.customerTimezone);
+
+  const slots = await slotGenerator.generateSlots({
+    providerId: params.providerId,
+    serviceId: params.serviceId,
+    startDate: bounds.start,
+    endDate: new Date(bounds.end.getTime() - 1),
+    serviceDuration: params.serviceDuration,
+    customerTimezone: params.customerTimezone,
+  });
+
+  // Keep only slots starting within the customer's day
+  const daySlots = slots.filter(slot => slot.customerLocal?.date === params.date);
+
+  try {
+    await slotGenerator.cacheSlots(daySlots);
+  } catch (error) {
+    console.error("Error caching availability slots:", error);
+  }
+
+  return daySlots.map(toCustomerSlot);
+}
+
+async function getActiveProvider(providerId: string) {
+  const provider = await db
+    .select({
+      id: providersTable.id,
+      displayName: providersTable.displayName,
+      isActive: providersTable.isActive,
+      timezone: providersTable.timezone,
+    })
+    .from(providersTable)
+    .where(eq(providersTable.id, providerId))
+    .limit(1);
+
+  return provider[0] || null;
+}
 
 /**
  * GET /api/providers/[providerId]/availability/slots
  * Get available time slots for a specific date and service duration
+ *
+ * `timezone` is the customer's zone: `date` is a day in that zone and slot
+ * times are returned in it. Every slot also carries UTC `startsAt`/`endsAt`.
  */
 export async function GET(
   request: NextRequest,
@@ -38,9 +134,8 @@ export async function GET(
     const searchParams = request.nextUrl.searchParams;
     const dateParam = searchParams.get("date");
     const serviceDurationParam = searchParams.get("serviceDuration");
-    const timezone = searchParams.get("timezone") || "America/New_York";
-    const minimumNoticeHours = searchParams.get("minimumNoticeHours");
-    const bufferMinutes = searchParams.get("bufferMinutes");
+    const serviceId = searchParams.get("serviceId") || undefined;
+    const timezoneParam = searchParams.get("timezone");
 
     // Validate required parameters
     if (!dateParam) {
@@ -57,29 +152,9 @@ export async function GET(
       );
     }
 
-    // Parse and validate date
-    const date = parseISO(dateParam);
-    if (!isValid(date)) {
-      return NextResponse.json(
-        { error: "Invalid date format" },
-        { status: 400 }
-      );
-    }
-
-    // Validate date is not in the past
-    const today = startOfDay(new Date());
-    if (startOfDay(date) < today) {
+    if (timezoneParam && !isValidTimezone(timezoneParam)) {
       return NextResponse.json(
-        { error: "Cannot get slots for past dates" },
-        { status: 400 }
-      );
-    }
-
-    // Validate date is not too far in the future (90 days max)
-    const maxDate = addDays(today, 90);
-    if (startOfDay(date) > maxDate) {
-      return NextResponse.json(
-        { error: "Cannot get slots more than 90 days in advance" },
+        { error: "Invalid timezone" },
         { status: 400 }
       );
     }
@@ -94,73 +169,65 @@ export async function GET(
     }
 
     // Verify provider exists
-    const provider = await db
-      .select({
-        id: providersTable.id,
-        displayName: providersTable.displayName,
-        isActive: providersTable.isActive,
-      })
-      .from(providersTable)
-      .where(eq(providersTable.id, providerId))
-      .limit(1);
+    const provider = await getActiveProvider(providerId);
 
-    if (provider.length === 0) {
+    if (!provider) {
       return NextResponse.json(
         { error: "Provider not found" },
         { status: 404 }
       );
     }
 
-    if (!provider[0].isActive) {
+    if (!provider.isActive) {
       return NextResponse.json(
         { error: "Provider is not currently accepting bookings" },
         { status: 400 }
       );
     }
 
-    // Build settings object
-    const settings = {
-      timezone,
-      minimumNoticeHours: minimumNoticeHours ? parseInt(minimumNoticeHours, 10) : 24,
-      slotDurationMinutes: serviceDuration,
-      bufferMinutes: bufferMinutes ? parseInt(bufferMinutes, 10) : 15,
-    };
+    const providerTimezone = resolveTimezone(provider.timezone);
+    const customerTimezone = timezoneParam || providerTimezone;
+
+    // Parse and validate date in the customer's zone
+    const date = resolveRequestedDate(dateParam, customerTimezone);
+    if (!date) {
+      return NextResponse.json(
+        { error: "Invalid date format" },
+        { status: 400 }
+      );
+    }
+
+    const windowError = validateDateWindow(date, customerTimezone);
+    if (windowError) {
+      return NextResponse.json(
+        { error: windowError },
+        { status: 400 }
+      );
+    }
 
-    // Get available slots
-    const availableSlots = await getAvailableSlots(
+    const availableSlots = await getSlotsForCustomerDay({
       providerId,
+      serviceId,
       date,
       serviceDuration,
-      settings
-    );
-
-    // Group slots by time periods for better UX
-    const morning = availableSlots.filter(slot => {
-      const hour = parseInt(slot.startTime.split(":")[0], 10);
-      return hour >= 6 && hour < 12;
+      customerTimezone,
     });
 
-    const afternoon = availableSlots.filter(slot => {
-      const hour = parseInt(slot.startTime.split(":")[0], 10);
-      return hour >= 12 && hour < 17;
-    });
+    // Group slots by the customer's local time of day for better UX
+    const hourOf = (slot: { startTime: string }) => parseInt(slot.startTime.split(":")[0], 10);
 
-    const evening = availableSlots.filter(slot => {
-      const hour = parseInt(slot.startTime.split(":")[0], 10);
-      return hour >= 17 && hour < 21;
-    });
-
-    const night = availableSlots.filter(slot => {
-      const hour = parseInt(slot.startTime.split(":")[0], 10);
-      return hour >= 21 || hour < 6;
-    });
+    const morning = availableSlots.filter(slot => hourOf(slot) >= 6 && hourOf(slot) < 12);
+    const afternoon = availableSlots.filter(slot => hourOf(slot) >= 12 && hourOf(slot) < 17);
+    const evening = availableSlots.filter(slot => hourOf(slot) >= 17 && hourOf(slot) < 21);
+    const night = availableSlots.filter(slot => hourOf(slot) >= 21 || hourOf(slot) < 6);
 
     return NextResponse.json({
       providerId,
-      providerName: provider[0].displayName,
-      date: date.toISOString(),
+      providerName: provider.displayName,
+      date,
       serviceDuration,
-      timezone,
+      timezone: customerTimezone,
+      providerTimezone,
       totalSlots: availableSlots.length,
       slots: {
         all: availableSlots,
@@ -169,7 +236,6 @@ export async function GET(
         evening,
         night,
       },
-      settings,
     });
   } catch (error) {
     console.error("Error fetching available slots:", error);
@@ -180,6 +246,14 @@ export async function GET(
   }
 }
 
+// Batch request validation
+const batchSchema = z.object({
+  dates: z.array(z.string()).min(1).max(30), // Max 30 days at once
+  serviceDuration: z.number().min(15).max(480),
+  serviceId: z.string().uuid().optional(),
+  timezone: z.string().refine(isValidTimezone, "Invalid timezone").optional(),
+});
+
 /**
  * POST /api/providers/[providerId]/availability/slots
  * Get available slots for multiple dates (batch request)
@@ -197,78 +271,55 @@ export async function POST(
       );
     }
 
-    // Parse request body
+    // Parse and validate request body
     const body = await request.json();
-    
-    // Validate request
-    const batchSchema = z.object({
-      dates: z.array(z.string().datetime()).min(1).max(30), // Max 30 days at once
-      serviceDuration: z.number().min(15).max(480),
-      timezone: z.string().default("America/New_York"),
-      minimumNoticeHours: z.number().min(0).max(168).optional(),
-      bufferMinutes: z.number().min(0).max(60).optional(),
-    });
-
     const validatedData = batchSchema.parse(body);
 
     // Verify provider exists
-    const provider = await db
-      .select({
-        id: providersTable.id,
-        displayName: providersTable.displayName,
-        isActive: providersTable.isActive,
-      })
-      .from(providersTable)
-      .where(eq(providersTable.id, providerId))
-      .limit(1);
+    const provider = await getActiveProvider(providerId);
 
-    if (provider.length === 0) {
+    if (!provider) {
       return NextResponse.json(
         { error: "Provider not found" },
         { status: 404 }
       );
     }
 
-    if (!provider[0].isActive) {
+    if (!provider.isActive) {
       return NextResponse.json(
         { error: "Provider is not currently accepting bookings" },
         { status: 400 }
       );
     }
 
-    // Build settings object
-    const settings = {
-      timezone: validatedData.timezone,
-      minimumNoticeHours: validatedData.minimumNoticeHours || 24,
-      slotDurationMinutes: validatedData.serviceDuration,
-      bufferMinutes: validatedData.bufferMinutes || 15,
-    };
+    const providerTimezone = resolveTimezone(provider.timezone);
+    const customerTimezone = validatedData.timezone || providerTimezone;
 
     // Get slots for each date
     const results = await Promise.all(
       validatedData.dates.map(async (dateStr) => {
-        const date = parseISO(dateStr);
-        
-        // Skip invalid or past dates
-        if (!isValid(date) || startOfDay(date) < startOfDay(new Date())) {
+        const date = resolveRequestedDate(dateStr, customerTimezone);
+
+        // Skip invalid, past or out-of-window dates
+        if (!date || validateDateWindow(date, customerTimezone)) {
           return {
             date: dateStr,
-            error: "Invalid or past date",
+            error: "Invalid or out-of-range date",
             slots: [],
           };
         }
 
         try {
-          const slots = await getAvailableSlots(
+          const slots = await getSlotsForCustomerDay({
             providerId,
+            serviceId: validatedData.serviceId,
             date,
-            validatedData.serviceDuration,
-            settings
-          );
+            serviceDuration: validatedData.serviceDuration,
+            customerTimezone,
+          });
 
           return {
-            date: dateStr,
-            dayOfWeek: date.getDay(),
+            date,
             totalSlots: slots.length,
             slots,
           };
@@ -289,23 +340,23 @@ export async function POST(
 
     return NextResponse.json({
       providerId,
-      providerName: provider[0].displayName,
+      providerName: provider.displayName,
       serviceDuration: validatedData.serviceDuration,
-      timezone: validatedData.timezone,
+      timezone: customerTimezone,
+      providerTimezone,
       summary: {
         datesRequested: validatedData.dates.length,
         datesWithAvailability: totalAvailableDays,
         totalAvailableSlots: totalSlots,
       },
       results,
-      settings,
     });
   } catch (error) {
     console.error("Error fetching batch available slots:", error);
-    
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: "Validation error", details: error.errors },
+        { error: "Validation error", details: error.issues },
         { status: 400 }
       );
     }
@@ -315,4 +366,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db/db";
+import { providersTable } from "@/db/schema/providers-schema";
+import { eq } from "drizzle-orm";
+import { buildProviderCalendarFeed, verifyFeedToken } from "@/lib/calendar";
+
+/**
+ * GET /api/providers/[providerId]/calendar/feed?token=...
+ * Public ICS feed for calendar subscriptions, authorized by a signed token
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { providerId: string } }
+) {
+  try {
+    const providerId = params.providerId;
+    const token = request.nextUrl.searchParams.get("token");
+
+    const [provider] = await db
+      .select({ feedTokenVersion: providersTable.calendarFeedTokenVersion })
+      .from(providersTable)
+      .where(eq(providersTable.id, providerId))
+      .limit(1);
+
+    // An unknown provider looks the same as a bad token
+    if (!provider || !verifyFeedToken(providerId, provider.feedTokenVersion, token)) {
+      return NextResponse.json(
+        { error: "Invalid or missing feed token" },
+        { status: 401 }
+      );
+    }
+
+    const calendar = await buildProviderCalendarFeed(providerId);
+
+    return new NextResponse(calendar, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="provider-${providerId}.ics"`,
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("Error building calendar feed:", error);
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json(
+        { error: "Provider not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to build calendar feed" },
+      { status: 500 }
+    );
+  }
+}
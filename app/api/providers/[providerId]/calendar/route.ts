@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/db/db";
+import { providersTable } from "@/db/schema/providers-schema";
+import { eq, sql } from "drizzle-orm";
+import { buildFeedUrls } from "@/lib/calendar";
+
+type CalendarParams = { params: { providerId: string } };
+
+/**
+ * Load the provider when the signed-in user owns it, or the error response
+ * The feed URL is a bearer credential, so only the owner may see or reset it.
+ */
+async function loadOwnProvider(providerId: string) {
+  const { userId } = await auth();
+  if (!userId) {
+    return {
+      error: NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const provider = await db
+    .select({
+      id: providersTable.id,
+      userId: providersTable.userId,
+      feedTokenVersion: providersTable.calendarFeedTokenVersion,
+    })
+    .from(providersTable)
+    .where(eq(providersTable.id, providerId))
+    .limit(1);
+
+  if (provider.length === 0) {
+    return {
+      error: NextResponse.json(
+        { error: "Provider not found" },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (provider[0].userId !== userId) {
+    return {
+      error: NextResponse.json(
+        { error: "Forbidden: You can only access your own calendar" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { provider: provider[0] };
+}
+
+/**
+ * GET /api/providers/[providerId]/calendar
+ * Return the signed ICS subscription URLs for the provider's own calendar
+ */
+export async function GET(request: NextRequest, { params }: CalendarParams) {
+  try {
+    const providerId = params.providerId;
+    const { provider, error } = await loadOwnProvider(providerId);
+    if (error) {
+      return error;
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+
+    return NextResponse.json({
+      providerId,
+      ...buildFeedUrls(providerId, provider.feedTokenVersion, baseUrl),
+    });
+  } catch (error) {
+    console.error("Error fetching calendar subscription:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch calendar subscription" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/providers/[providerId]/calendar
+ * Reset the feed URL: URLs issued before stop working, and the new ones are returned
+ */
+export async function POST(request: NextRequest, { params }: CalendarParams) {
+  try {
+    const providerId = params.providerId;
+    const { error } = await loadOwnProvider(providerId);
+    if (error) {
+      return error;
+    }
+
+    const [updated] = await db
+      .update(providersTable)
+      .set({
+        calendarFeedTokenVersion: sql`${providersTable.calendarFeedTokenVersion} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(providersTable.id, providerId))
+      .returning({ feedTokenVersion: providersTable.calendarFeedTokenVersion });
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+
+    return NextResponse.json({
+      providerId,
+      ...buildFeedUrls(providerId, updated.feedTokenVersion, baseUrl),
+    });
+  } catch (error) {
+    console.error("Error resetting calendar feed URL:", error);
+    return NextResponse.json(
+      { error: "Failed to reset calendar feed URL" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Provider Cancellation Policy API
+ *
+ * Update or delete one of the signed-in provider's policies. Listings
+ * using a deleted policy fall back to the provider's default.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import {
+  cancellationPolicyService,
+  CancellationPolicyError,
+  MAX_POLICY_TIERS
+} from "@/lib/bookings/cancellation-policy-service";
+
+const updatePolicySchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  tiers: z.array(z.object({
+    hoursBefore: z.number().int().min(0).max(24 * 365),
+    refundPercent: z.number().min(0).max(100)
+  })).min(1).max(MAX_POLICY_TIERS).optional(),
+  isDefault: z.boolean().optional()
+});
+
+function policyErrorResponse(error: CancellationPolicyError) {
+  return NextResponse.json(
+    { error: error.message, code: error.code },
+    { status: error.status }
+  );
+}
+
+/**
+ * PATCH /api/providers/cancellation-policies/[policyId]
+ * Change a policy; refunds already issued are not recalculated
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { policyId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updatePolicySchema.parse(body);
+
+    const policy = await cancellationPolicyService.updatePolicy(userId, params.policyId, validatedData);
+
+    return NextResponse.json({ success: true, policy });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof CancellationPolicyError) {
+      return policyErrorResponse(error);
+    }
+
+    console.error("Error updating cancellation policy:", error);
+    return NextResponse.json(
+      { error: "Failed to update cancellation policy" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/providers/cancellation-policies/[policyId]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { policyId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    await cancellationPolicyService.deletePolicy(userId, params.policyId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof CancellationPolicyError) {
+      return policyErrorResponse(error);
+    }
+
+    console.error("Error deleting cancellation policy:", error);
+    return NextResponse.json(
+      { error: "Failed to delete cancellation policy" },
+      { status: 500 }
+    );
+  }
+}
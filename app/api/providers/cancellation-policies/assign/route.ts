@@ -0,0 +1,62 @@
+/**
+ * Assign Cancellation Policy API
+ *
+ * Attach one of the provider's policies to a service, space or event,
+ * or pass a null policyId to fall back to the provider's default.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import {
+  cancellationPolicyService,
+  CancellationPolicyError
+} from "@/lib/bookings/cancellation-policy-service";
+
+const assignPolicySchema = z.object({
+  listingType: z.enum(["service", "space", "event"]),
+  listingId: z.string().uuid(),
+  policyId: z.string().uuid().nullable()
+});
+
+/**
+ * PUT /api/providers/cancellation-policies/assign
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { listingType, listingId, policyId } = assignPolicySchema.parse(body);
+
+    await cancellationPolicyService.assignPolicy(userId, { type: listingType, id: listingId }, policyId);
+
+    return NextResponse.json({ success: true, listingType, listingId, policyId });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof CancellationPolicyError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error assigning cancellation policy:", error);
+    return NextResponse.json(
+      { error: "Failed to assign cancellation policy" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Provider Cancellation Policies API
+ *
+ * Providers define refund schedules here and attach them to their
+ * services, spaces and events. A policy marked as default covers every
+ * listing without a policy of its own.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import {
+  cancellationPolicyService,
+  CancellationPolicyError,
+  MAX_POLICY_TIERS,
+  PRESET_TIERS
+} from "@/lib/bookings/cancellation-policy-service";
+
+const tierSchema = z.object({
+  hoursBefore: z.number().int().min(0).max(24 * 365),
+  refundPercent: z.number().min(0).max(100)
+});
+
+// Either explicit tiers or one of the named presets
+const createPolicySchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  tiers: z.array(tierSchema).min(1).max(MAX_POLICY_TIERS).optional(),
+  preset: z.enum(["flexible", "moderate", "strict", "super_strict"]).optional(),
+  isDefault: z.boolean().optional()
+}).refine(data => !!data.tiers !== !!data.preset, {
+  message: "Provide either tiers or a preset"
+});
+
+function policyErrorResponse(error: CancellationPolicyError) {
+  return NextResponse.json(
+    { error: error.message, code: error.code },
+    { status: error.status }
+  );
+}
+
+/**
+ * GET /api/providers/cancellation-policies
+ * List the signed-in provider's policies
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const policies = await cancellationPolicyService.listPolicies(userId);
+
+    return NextResponse.json({ policies, presets: PRESET_TIERS });
+  } catch (error) {
+    if (error instanceof CancellationPolicyError) {
+      return policyErrorResponse(error);
+    }
+
+    console.error("Error listing cancellation policies:", error);
+    return NextResponse.json(
+      { error: "Failed to list cancellation policies" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/providers/cancellation-policies
+ * Create a policy from tiers or a preset
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { preset, tiers, ...data } = createPolicySchema.parse(body);
+
+    const policy = await cancellationPolicyService.createPolicy(userId, {
+      ...data,
+      tiers: tiers || PRESET_TIERS[preset!]
+    });
+
+    return NextResponse.json({ success: true, policy }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof CancellationPolicyError) {
+      return policyErrorResponse(error);
+    }
+
+    console.error("Error creating cancellation policy:", error);
+    return NextResponse.json(
+      { error: "Failed to create cancellation policy" },
+      { status: 500 }
+    );
+  }
+}
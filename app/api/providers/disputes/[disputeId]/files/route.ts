@@ -0,0 +1,127 @@
+/**
+ * Dispute Evidence Files API
+ *
+ * Multipart upload of PDF, JPEG or PNG evidence. Files go straight to
+ * Stripe's file API and are attached to the chosen evidence field.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { disputeFileEvidenceFields } from "@/db/schema";
+import {
+  disputeEvidenceService,
+  DisputeEvidenceError
+} from "@/lib/payments/dispute-evidence-service";
+
+export const runtime = 'nodejs';
+
+const evidenceFieldSchema = z.enum(disputeFileEvidenceFields);
+
+function disputeErrorResponse(error: DisputeEvidenceError) {
+  return NextResponse.json(
+    { error: error.message, code: error.code },
+    { status: error.status }
+  );
+}
+
+/**
+ * POST /api/providers/disputes/[disputeId]/files
+ * Form fields: `file` and `evidenceField`
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { disputeId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "No file provided" },
+        { status: 400 }
+      );
+    }
+
+    const evidenceField = evidenceFieldSchema.parse(formData.get("evidenceField"));
+
+    const uploaded = await disputeEvidenceService.uploadFile(
+      params.disputeId,
+      userId,
+      {
+        data: Buffer.from(await file.arrayBuffer()),
+        filename: file.name,
+        mimeType: file.type,
+        size: file.size,
+      },
+      evidenceField
+    );
+
+    return NextResponse.json({ success: true, file: uploaded }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof DisputeEvidenceError) {
+      return disputeErrorResponse(error);
+    }
+
+    console.error("Error uploading dispute evidence:", error);
+    return NextResponse.json(
+      { error: "Failed to upload evidence" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/providers/disputes/[disputeId]/files?fileId=...
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { disputeId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const fileId = request.nextUrl.searchParams.get("fileId");
+    if (!fileId) {
+      return NextResponse.json(
+        { error: "fileId is required" },
+        { status: 400 }
+      );
+    }
+
+    await disputeEvidenceService.removeFile(params.disputeId, userId, fileId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof DisputeEvidenceError) {
+      return disputeErrorResponse(error);
+    }
+
+    console.error("Error removing dispute evidence file:", error);
+    return NextResponse.json(
+      { error: "Failed to remove evidence file" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Dispute Evidence Notes API
+ *
+ * Providers add written statements to their dispute response; notes are
+ * submitted as part of the uncategorized evidence text.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import {
+  disputeEvidenceService,
+  DisputeEvidenceError
+} from "@/lib/payments/dispute-evidence-service";
+
+const addNoteSchema = z.object({
+  body: z.string().trim().min(1).max(5000)
+});
+
+function disputeErrorResponse(error: DisputeEvidenceError) {
+  return NextResponse.json(
+    { error: error.message, code: error.code },
+    { status: error.status }
+  );
+}
+
+/**
+ * POST /api/providers/disputes/[disputeId]/notes
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { disputeId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = addNoteSchema.parse(body);
+
+    const note = await disputeEvidenceService.addNote(params.disputeId, userId, validatedData.body);
+
+    return NextResponse.json({ success: true, note }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof DisputeEvidenceError) {
+      return disputeErrorResponse(error);
+    }
+
+    console.error("Error adding dispute note:", error);
+    return NextResponse.json(
+      { error: "Failed to add note" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/providers/disputes/[disputeId]/notes?noteId=...
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { disputeId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const noteId = request.nextUrl.searchParams.get("noteId");
+    if (!noteId) {
+      return NextResponse.json(
+        { error: "noteId is required" },
+        { status: 400 }
+      );
+    }
+
+    await disputeEvidenceService.removeNote(params.disputeId, userId, noteId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof DisputeEvidenceError) {
+      return disputeErrorResponse(error);
+    }
+
+    console.error("Error removing dispute note:", error);
+    return NextResponse.json(
+      { error: "Failed to remove note" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Provider Dispute API
+ *
+ * Returns one dispute with the evidence that would be submitted to
+ * Stripe right now, including the provider's files and notes.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import {
+  disputeEvidenceService,
+  DisputeEvidenceError
+} from "@/lib/payments/dispute-evidence-service";
+
+/**
+ * GET /api/providers/disputes/[disputeId]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { disputeId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const view = await disputeEvidenceService.getDispute(params.disputeId, userId);
+
+    return NextResponse.json(view);
+  } catch (error) {
+    if (error instanceof DisputeEvidenceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error loading dispute:", error);
+    return NextResponse.json(
+      { error: "Failed to load dispute" },
+      { status: 500 }
+    );
+  }
+}
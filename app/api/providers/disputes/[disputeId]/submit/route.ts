@@ -0,0 +1,57 @@
+/**
+ * Submit Dispute Evidence API
+ *
+ * Sends the assembled evidence to Stripe. Stripe accepts one submission
+ * per dispute, so the response is final.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import Stripe from "stripe";
+import {
+  disputeEvidenceService,
+  DisputeEvidenceError
+} from "@/lib/payments/dispute-evidence-service";
+
+/**
+ * POST /api/providers/disputes/[disputeId]/submit
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { disputeId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const dispute = await disputeEvidenceService.submit(params.disputeId, userId);
+
+    return NextResponse.json({ success: true, dispute });
+  } catch (error) {
+    if (error instanceof DisputeEvidenceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    // e.g. an evidence field Stripe rejects; the provider can fix it and retry
+    if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+      return NextResponse.json(
+        { error: error.message, code: "STRIPE_REJECTED" },
+        { status: 422 }
+      );
+    }
+
+    console.error("Error submitting dispute evidence:", error);
+    return NextResponse.json(
+      { error: "Failed to submit evidence" },
+      { status: 500 }
+    );
+  }
+}
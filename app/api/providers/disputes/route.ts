@@ -0,0 +1,45 @@
+/**
+ * Provider Disputes API
+ *
+ * Lists chargebacks on the signed-in provider's bookings, most urgent
+ * evidence deadline first.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import {
+  disputeEvidenceService,
+  DisputeEvidenceError
+} from "@/lib/payments/dispute-evidence-service";
+
+/**
+ * GET /api/providers/disputes
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const disputes = await disputeEvidenceService.listForProvider(userId);
+
+    return NextResponse.json({ disputes });
+  } catch (error) {
+    if (error instanceof DisputeEvidenceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error listing disputes:", error);
+    return NextResponse.json(
+      { error: "Failed to list disputes" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { updateProvider, getProviderById } from "@/db/queries/providers-queries";
 import { z } from "zod";
+import { isValidTimezone } from "@/lib/availability/timezone";
 
 // Request body schema
 const updateProfileSchema = z.object({
@@ -17,6 +18,7 @@ const updateProfileSchema = z.object({
     locationCity: z.string().max(100).optional().nullable(),
     locationState: z.string().max(100).optional().nullable(),
     locationCountry: z.string().optional(),
+    timezone: z.string().refine(isValidTimezone, "Invalid IANA timezone").optional(),
     hourlyRate: z.string().optional().nullable(),
     services: z.array(z.object({
       name: z.string().min(2).max(100),
@@ -25,6 +27,8 @@ const updateProfileSchema = z.object({
       price: z.number().min(0).max(10000),
     })).optional(),
     yearsExperience: z.number().int().min(0).max(100).optional().nullable(),
+    instantBookingMinCustomerRating: z.number().min(1).max(5).optional().nullable()
+      .transform((rating) => (rating == null ? rating : rating.toFixed(1))),
   }),
 });
 
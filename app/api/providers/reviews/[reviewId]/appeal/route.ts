@@ -0,0 +1,84 @@
+/**
+ * Review Appeal API
+ *
+ * Providers ask an admin to remove a review of them they believe breaks the
+ * review rules. The review stays visible until the appeal is decided, and
+ * each review can be appealed once.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { reviewModerationService, ReviewModerationError } from "@/lib/reviews/review-moderation-service";
+import { RateLimiter } from "@/lib/rate-limiter";
+
+// Rate limiter for appeals
+const rateLimiter = new RateLimiter({
+  tokensPerInterval: 5,
+  interval: 60 * 1000, // 1 minute
+  fireImmediately: true
+});
+
+const appealSchema = z.object({
+  reason: z.string().trim().min(20).max(2000),
+});
+
+/**
+ * POST /api/providers/reviews/[reviewId]/appeal
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { reviewId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await rateLimiter.check(userId, 1);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        {
+          error: "Too many appeals",
+          retryAfter: rateLimitResult.reset
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const { reason } = appealSchema.parse(body);
+
+    const appeal = await reviewModerationService.appeal(params.reviewId, userId, reason);
+
+    return NextResponse.json(
+      { success: true, appeal },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ReviewModerationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error appealing review:", error);
+    return NextResponse.json(
+      { error: "Failed to appeal review" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Provider Review Appeals API
+ *
+ * Lists the signed-in provider's review appeals and their outcome, newest
+ * first.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { reviewModerationService } from "@/lib/reviews/review-moderation-service";
+
+/**
+ * GET /api/providers/reviews/appeals
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const appeals = await reviewModerationService.listAppeals(userId);
+
+    return NextResponse.json({ appeals });
+  } catch (error) {
+    console.error("Error listing review appeals:", error);
+    return NextResponse.json(
+      { error: "Failed to list appeals" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import { searchProviders, getFeaturedProviders } from "@/db/queries/providers-qu
 import { auth } from "@clerk/nextjs/server";
 import { z } from "zod";
 import { createSecureApiHandler } from "@/lib/security/api-handler";
+import { getNextAvailableSlots } from "@/lib/availability/search-availability";
 
 /**
  * Provider Search and Listing API
@@ -77,6 +78,8 @@ async function handleGetProviders(req: NextRequest) {
         total = result.total;
       }
       
+      const nextSlots = await getNextAvailableSlots(providers.map((provider) => provider.id));
+
       // Transform providers for frontend consumption
       const transformedProviders = providers.map((provider) => ({
         id: provider.id,
@@ -99,6 +102,7 @@ async function handleGetProviders(req: NextRequest) {
         // Don't expose sensitive information
         stripeConnectAccountId: undefined,
         stripeOnboardingComplete: provider.stripeOnboardingComplete,
+        nextAvailableAt: nextSlots.get(provider.id)?.toISOString() ?? null,
         createdAt: provider.createdAt,
         updatedAt: provider.updatedAt,
       }));
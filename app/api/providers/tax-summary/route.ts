@@ -0,0 +1,70 @@
+/**
+ * Provider Tax Summary API
+ *
+ * Tax collected on the signed-in provider's bookings, grouped by
+ * jurisdiction for filing. Defaults to the current calendar quarter.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import {
+  taxService,
+  TaxServiceError,
+  quarterRange,
+  taxSummaryToCsv
+} from "@/lib/payments/tax-service";
+
+/**
+ * GET /api/providers/tax-summary?from=YYYY-MM-DD&to=YYYY-MM-DD&format=json|csv
+ * `to` is exclusive.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const quarter = quarterRange(new Date());
+    const from = searchParams.get("from") ? new Date(searchParams.get("from")!) : quarter.from;
+    const to = searchParams.get("to") ? new Date(searchParams.get("to")!) : quarter.to;
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return NextResponse.json(
+        { error: "from and to must be dates (YYYY-MM-DD)" },
+        { status: 400 }
+      );
+    }
+
+    const summary = await taxService.getProviderTaxSummary(userId, from, to);
+
+    if (searchParams.get("format") === "csv") {
+      const filename = `tax-summary-${from.toISOString().slice(0, 10)}-${to.toISOString().slice(0, 10)}.csv`;
+      return new NextResponse(taxSummaryToCsv(summary), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ summary });
+  } catch (error) {
+    if (error instanceof TaxServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error building tax summary:", error);
+    return NextResponse.json(
+      { error: "Failed to build tax summary" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Helpful Votes API
+ *
+ * Signed-in users mark published reviews as helpful, once per review.
+ * Reviewers can't vote on their own reviews.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { reviewService, ReviewError } from "@/lib/reviews/review-service";
+import { RateLimiter } from "@/lib/rate-limiter";
+
+// Rate limiter for helpful votes
+const rateLimiter = new RateLimiter({
+  tokensPerInterval: 30,
+  interval: 60 * 1000, // 1 minute
+  fireImmediately: true
+});
+
+async function setHelpful(reviewId: string, helpful: boolean) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await rateLimiter.check(userId, 1);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        {
+          error: "Too many votes",
+          retryAfter: rateLimitResult.reset
+        },
+        { status: 429 }
+      );
+    }
+
+    const helpfulCount = await reviewService.setHelpful(reviewId, userId, helpful);
+
+    return NextResponse.json({ success: true, helpful, helpfulCount });
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error updating helpful vote:", error);
+    return NextResponse.json(
+      { error: "Failed to update vote" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/reviews/[reviewId]/helpful
+ * Mark the review as helpful
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { reviewId: string } }
+) {
+  return setHelpful(params.reviewId, true);
+}
+
+/**
+ * DELETE /api/reviews/[reviewId]/helpful
+ * Take back a helpful vote
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { reviewId: string } }
+) {
+  return setHelpful(params.reviewId, false);
+}
@@ -0,0 +1,68 @@
+/**
+ * Review Photos API
+ *
+ * Multipart upload of a photo onto the caller's own review while its review
+ * window is open. Photos are type-checked and malware-scanned like message
+ * attachments and served from a public bucket once the review is published.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ratelimit } from "@/lib/redis";
+import { AttachmentError } from "@/lib/messaging/attachment-validation";
+import { reviewService, ReviewError } from "@/lib/reviews/review-service";
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/reviews/[reviewId]/photos
+ * Form field: `file`
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { reviewId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Rate limiting
+    const ip = request.ip ?? "127.0.0.1";
+    const { success } = await ratelimit.limit(ip);
+    if (!success) {
+      return NextResponse.json({ error: "Too Many Requests" }, { status: 429 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "No file provided" },
+        { status: 400 }
+      );
+    }
+
+    const photo = await reviewService.addPhoto(params.reviewId, userId, {
+      data: Buffer.from(await file.arrayBuffer()),
+      fileName: file.name,
+      declaredType: file.type,
+    });
+
+    return NextResponse.json({ success: true, photo }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AttachmentError || error instanceof ReviewError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error uploading review photo:", error);
+    return NextResponse.json(
+      { error: "Failed to upload photo" },
+      { status: 500 }
+    );
+  }
+}
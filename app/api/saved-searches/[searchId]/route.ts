@@ -0,0 +1,98 @@
+/**
+ * Saved Search API
+ *
+ * Rename, pause or resume a saved search, change how often it alerts, or
+ * delete it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { savedSearchFrequencies } from "@/db/schema";
+import { savedSearchService, SavedSearchError } from "@/lib/search/saved-search-service";
+
+const updateSavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  frequency: z.enum(savedSearchFrequencies).optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * PATCH /api/saved-searches/[searchId]
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { searchId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const changes = updateSavedSearchSchema.parse(body);
+
+    const savedSearch = await savedSearchService.update(params.searchId, userId, changes);
+
+    return NextResponse.json({ success: true, savedSearch });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SavedSearchError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error updating saved search:", error);
+    return NextResponse.json(
+      { error: "Failed to update saved search" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/saved-searches/[searchId]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { searchId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    await savedSearchService.remove(params.searchId, userId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof SavedSearchError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error deleting saved search:", error);
+    return NextResponse.json(
+      { error: "Failed to delete saved search" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Saved Searches API
+ *
+ * Customers save marketplace searches and choose whether new matching
+ * listings are sent to them as soon as they are published or in a daily digest.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { savedSearchFrequencies, savedSearchVerticals } from "@/db/schema";
+import { savedSearchService, SavedSearchError } from "@/lib/search/saved-search-service";
+import { RateLimiter } from "@/lib/rate-limiter";
+
+// Rate limiter for saving searches
+const rateLimiter = new RateLimiter({
+  tokensPerInterval: 10,
+  interval: 60 * 1000, // 1 minute
+  fireImmediately: true
+});
+
+const savedSearchQuerySchema = z.object({
+  query: z.string().trim().max(200).optional(),
+  verticals: z.array(z.enum(savedSearchVerticals)).max(savedSearchVerticals.length).optional(),
+  categories: z.array(z.string().trim().min(1).max(100)).max(20).optional(),
+  location: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    radiusKm: z.number().positive().max(500).optional(),
+  }).optional(),
+  priceRange: z.object({
+    min: z.number().min(0),
+    max: z.number().min(0),
+  }).refine(range => range.min <= range.max, { message: "min must not exceed max" }).optional(),
+});
+
+const createSavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  query: savedSearchQuerySchema,
+  frequency: z.enum(savedSearchFrequencies).default("daily"),
+});
+
+/**
+ * GET /api/saved-searches
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const savedSearches = await savedSearchService.list(userId);
+
+    return NextResponse.json({ savedSearches });
+  } catch (error) {
+    console.error("Error loading saved searches:", error);
+    return NextResponse.json(
+      { error: "Failed to load saved searches" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/saved-searches
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await rateLimiter.check(userId, 1);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        {
+          error: "Too many requests",
+          retryAfter: rateLimitResult.reset
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const input = createSavedSearchSchema.parse(body);
+
+    const savedSearch = await savedSearchService.create(userId, input);
+
+    return NextResponse.json(
+      { success: true, savedSearch },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SavedSearchError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error saving search:", error);
+    return NextResponse.json(
+      { error: "Failed to save search" },
+      { status: 500 }
+    );
+  }
+}
@@ -6,7 +6,14 @@ import { createSecureApiHandler, createApiResponse, createApiError, getValidated
 import { db } from "@/db/db";
 import { bookingsTable } from "@/db/schema";
 import { eq } from "drizzle-orm";
-import { calculateFees } from "@/lib/fees";
+import { calculateFees } from "@/lib/payments/fee-calculator";
+import { taxLocationForSpace } from "@/lib/payments/tax-engine";
+import { taxService } from "@/lib/payments/tax-service";
+import { fromMinorUnits, minorToDecimalString, normalizeCurrency, toMinorUnits } from "@/lib/payments/currency";
+import { initialBookingState, BookingStates } from "@/lib/booking-state-machine";
+import { cancellationPolicyService } from "@/lib/bookings/cancellation-policy-service";
+import { waitlistService, WaitlistError } from "@/lib/waitlist";
+import { storedDate } from "@/lib/availability/timezone";
 import Stripe from "stripe";
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -51,6 +58,9 @@ const bookingSchema = z.object({
   
   // Return URL for redirect after payment
   returnUrl: z.string().url().optional(),
+  
+  // Claimed waitlist offer being redeemed
+  holdId: z.string().optional(),
 }).refine(data => {
   if (data.endDate <= data.startDate) {
     throw new Error("End date must be after start date");
@@ -147,16 +157,59 @@ async function handleCreateBooking(req: NextRequest, context: any) {
       customerId = userId;
     }
     
+    // Spots offered to the waitlist are taken unless this customer is redeeming their own hold;
+    // the slot matches the one targetFromBooking derives from the stored booking
+    const waitlistTarget = {
+      targetType: "space" as const,
+      providerId: space.providerId,
+      spaceId,
+      date: storedDate(body.startDate),
+      startTime: body.startDate.toTimeString().slice(0, 5),
+      endTime: body.endDate.toTimeString().slice(0, 5),
+    };
+    let waitlistEntry = null;
+    if (body.holdId) {
+      try {
+        waitlistEntry = await waitlistService.redeemableEntry(body.holdId, customerId, waitlistTarget);
+      } catch (error) {
+        if (error instanceof WaitlistError) {
+          return createApiError(error.message, { status: error.status, code: error.code });
+        }
+        throw error;
+      }
+    }
+    
+    if (await waitlistService.heldSpots(waitlistTarget, waitlistEntry?.id) > 0) {
+      return createApiError("Space is held for a waitlisted customer", {
+        status: 409,
+        code: "NOT_AVAILABLE"
+      });
+    }
+    
     // Calculate fees
     const baseAmount = availability.price || 0;
     const cleaningFee = availability.cleaningFee || 0;
     const securityDeposit = availability.securityDeposit || 0;
-    const subtotal = baseAmount + cleaningFee;
+    const currency = normalizeCurrency(space.provider.currency);
+    
+    // Tax at the space's address, on the stay itself rather than the fees
+    const fees = calculateFees({
+      baseAmountCents: toMinorUnits(baseAmount, currency) + toMinorUnits(cleaningFee, currency),
+      isGuest,
+      currency,
+      taxLocation: taxLocationForSpace(space),
+    });
+    const taxAmount = fromMinorUnits(fees.taxCents, currency);
+    const totalAmount = fromMinorUnits(fees.customerTotalCents, currency);
     
-    const fees = calculateFees(subtotal, isGuest);
+    // Create booking record; instant bookings hold the space until payment confirms
+    const collectsPayment = !space.requiresApproval || space.instantBooking;
+    const bookingState = collectsPayment ? BookingStates.HOLD : BookingStates.PENDING_PROVIDER;
     
-    // Create booking record
-    const bookingStatus = space.requiresApproval ? "pending" : "confirmed";
+    const cancellationPolicy = await cancellationPolicyService.policyForListing({
+      providerId: space.providerId,
+      spaceId,
+    });
     
     const [booking] = await db
       .insert(bookingsTable)
@@ -164,20 +217,23 @@ async function handleCreateBooking(req: NextRequest, context: any) {
         customerId,
         providerId: space.providerId,
         serviceName: space.name,
-        servicePrice: baseAmount.toString(),
+        servicePrice: minorToDecimalString(toMinorUnits(baseAmount, currency), currency),
         serviceDuration: 60, // Default duration in minutes
         bookingDate: body.startDate,
         startTime: body.startDate.toTimeString().slice(0, 5), // HH:MM format
         endTime: body.endDate.toTimeString().slice(0, 5), // HH:MM format
-        status: bookingStatus,
-        totalAmount: fees.totalAmount.toString(),
-        platformFee: fees.platformFee.toString(),
-        providerPayout: fees.providerPayout.toString(),
+        ...initialBookingState(bookingState),
+        totalAmount: minorToDecimalString(fees.customerTotalCents, currency),
+        platformFee: minorToDecimalString(fees.platformFeeCents, currency),
+        providerPayout: minorToDecimalString(fees.providerPayoutCents, currency),
+        taxAmount: minorToDecimalString(fees.taxCents, currency),
+        currency,
         customerNotes: body.message,
         isGuestBooking: isGuest,
         guestEmail: isGuest ? customerEmail : null,
         bookingType: "space",
         spaceId: spaceId,
+        cancellationPolicy,
         metadata: {
           numberOfGuests: body.numberOfGuests,
           purpose: `Space booking for ${body.numberOfGuests} guests`,
@@ -186,20 +242,23 @@ async function handleCreateBooking(req: NextRequest, context: any) {
       })
       .returning();
     
+    await taxService.recordBookingTax(booking, fees.taxLines);
+    
     // If instant booking and accepted, create payment intent
     let paymentIntent = null;
     let clientSecret = null;
     
-    if (!space.requiresApproval || space.instantBooking) {
+    if (collectsPayment) {
       // Create Stripe payment intent
       const paymentIntentData: Stripe.PaymentIntentCreateParams = {
-        amount: Math.round(fees.totalAmount * 100), // Convert to cents
-        currency: "usd",
+        amount: fees.customerTotalCents,
+        currency,
         metadata: {
           bookingId: booking.id,
           spaceId,
           customerId: customerId || "",
           isGuest: isGuest.toString(),
+          taxAmount: fees.taxCents.toString(),
         },
         description: `Booking for ${space.name} - ${customerName}`,
         receipt_email: customerEmail,
@@ -218,11 +277,14 @@ async function handleCreateBooking(req: NextRequest, context: any) {
         .update(bookingsTable)
         .set({
           stripePaymentIntentId: paymentIntent.id,
-          status: "pending",
         })
         .where(eq(bookingsTable.id, booking.id));
     }
     
+    if (waitlistEntry) {
+      await waitlistService.completeClaim(waitlistEntry, booking.id);
+    }
+    
     return createApiResponse(
       {
         booking: {
@@ -236,9 +298,11 @@ async function handleCreateBooking(req: NextRequest, context: any) {
           baseAmount,
           cleaningFee,
           securityDeposit,
-          platformFee: fees.platformFee,
-          guestSurcharge: isGuest ? fees.guestSurcharge : 0,
-          totalAmount: fees.totalAmount,
+          platformFee: fromMinorUnits(fees.platformFeeCents, currency),
+          guestSurcharge: fromMinorUnits(fees.guestSurchargeCents, currency),
+          taxAmount,
+          totalAmount,
+          currency,
           requiresApproval: space.requiresApproval,
           instantBooking: space.instantBooking,
           cancellationPolicy: space.cancellationPolicy,
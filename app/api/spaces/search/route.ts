@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { searchSpaces, searchSpacesByAmenities } from "@/db/queries/spaces-queries";
 import { z } from "zod";
 import { createSecureApiHandler, createApiResponse, createApiError, getValidatedQuery } from "@/lib/security/api-handler";
+import { SUPPORTED_CURRENCIES } from "@/lib/payments/currency";
+import { fxRateService, toDisplayPrice, type RateTable } from "@/lib/payments/fx-rates";
 
 /**
  * Spaces Advanced Search API
@@ -43,6 +45,9 @@ const advancedSearchSchema = z.object({
   minPrice: z.coerce.number().min(0).optional(),
   maxPrice: z.coerce.number().min(0).optional(),
   
+  // Display currency; price filters still apply to each space's own currency
+  currency: z.string().toLowerCase().pipe(z.enum(SUPPORTED_CURRENCIES)).optional(),
+  
   // Availability
   dateFrom: z.string().optional().transform(val => val ? new Date(val) : undefined),
   dateTo: z.string().optional().transform(val => val ? new Date(val) : undefined),
@@ -183,6 +188,8 @@ async function handleAdvancedSearch(req: NextRequest) {
     // Calculate offset
     const offset = (query.page - 1) * query.limit;
     
+    const rates = query.currency ? await fxRateService.getRateTable() : null;
+    
     // If searching specifically by amenities
     if (requiredAmenities.length > 0 && !query.q && !city && !spaceTypes) {
       const spaces = await searchSpacesByAmenities(requiredAmenities, query.limit);
@@ -207,6 +214,7 @@ async function handleAdvancedSearch(req: NextRequest) {
           coverImageUrl: space.coverImageUrl,
           instantBooking: space.instantBooking,
           provider: space.provider,
+          displayPrice: rates ? spaceDisplayPrice(space, query.budget, query.currency, rates) : undefined,
         })),
         total: spaces.length,
         page: query.page,
@@ -297,6 +305,7 @@ async function handleAdvancedSearch(req: NextRequest) {
       averageRating: space.averageRating,
       totalReviews: space.totalReviews,
       provider: space.provider,
+      displayPrice: rates ? spaceDisplayPrice(space, query.budget, query.currency, rates) : undefined,
       
       // Calculate match score for relevance
       matchScore: calculateMatchScore(space, query),
@@ -332,6 +341,7 @@ async function handleAdvancedSearch(req: NextRequest) {
         } : undefined,
         instantBook: query.instantBook,
         verified: query.verified,
+        displayCurrency: query.currency,
       },
     });
     
@@ -344,6 +354,32 @@ async function handleAdvancedSearch(req: NextRequest) {
   }
 }
 
+/**
+ * Headline rate in the shopper's display currency
+ * Uses the rate matching the budget filter, otherwise the first one set.
+ */
+function spaceDisplayPrice(
+  space: { hourlyRate: string | null; dailyRate: string | null; weeklyRate: string | null; provider: { currency: string } },
+  budget: "hourly" | "daily" | "weekly" | undefined,
+  displayCurrency: string | undefined,
+  rates: RateTable
+) {
+  const candidates = [
+    { unit: "hourly" as const, rate: space.hourlyRate },
+    { unit: "daily" as const, rate: space.dailyRate },
+    { unit: "weekly" as const, rate: space.weeklyRate },
+  ].filter(candidate => candidate.rate);
+  const chosen = candidates.find(candidate => candidate.unit === budget) || candidates[0];
+  if (!chosen) {
+    return undefined;
+  }
+
+  return {
+    ...toDisplayPrice(Number(chosen.rate), space.provider.currency, displayCurrency, rates),
+    unit: chosen.unit,
+  };
+}
+
 /**
  * Calculate match score for relevance sorting
  */
@@ -8,6 +8,14 @@ import { bookingsTable } from "@/db/schema/bookings-schema";
 import { transactionsTable } from "@/db/schema/bookings-schema";
 import { eq, and, sql } from "drizzle-orm";
 import { sendNotification } from "@/lib/notifications";
+import { fromMinorUnits } from "@/lib/payments/currency";
+import {
+  bookingStateEngine,
+  BookingTransitionError,
+  TransitionEvents,
+  type TransitionEvent,
+} from "@/lib/booking-state-machine";
+import { paymentConfirmationEvent } from "@/lib/bookings/instant-booking";
 import { 
   logWebhookEventToDB, 
   isEventProcessed, 
@@ -252,22 +260,20 @@ async function handlePaymentSuccess(event: Stripe.Event) {
   
   try {
     if (paymentIntent.metadata?.bookingId) {
-      // Update booking status to confirmed
-      await db
-        .update(bookingsTable)
-        .set({
-          status: "confirmed",
-          updatedAt: new Date(),
-        })
-        .where(eq(bookingsTable.stripePaymentIntentId, paymentIntent.id));
+      // Payment capture confirms the held booking, or sends it to the provider for approval
+      const confirmation = await paymentConfirmationEvent(paymentIntent.metadata.bookingId);
+      await dispatchBookingEvent(paymentIntent.metadata.bookingId, confirmation, {
+        metadata: { paymentIntentId: paymentIntent.id },
+      });
 
       // Create transaction record
       await db.insert(transactionsTable).values({
         bookingId: paymentIntent.metadata.bookingId,
         stripeChargeId: paymentIntent.latest_charge as string,
-        amount: (paymentIntent.amount / 100).toString(),
-        platformFee: ((paymentIntent.application_fee_amount || 0) / 100).toString(),
-        providerPayout: ((paymentIntent.amount - (paymentIntent.application_fee_amount || 0)) / 100).toString(),
+        amount: fromMinorUnits(paymentIntent.amount, paymentIntent.currency).toString(),
+        platformFee: fromMinorUnits(paymentIntent.application_fee_amount || 0, paymentIntent.currency).toString(),
+        providerPayout: fromMinorUnits(paymentIntent.amount - (paymentIntent.application_fee_amount || 0), paymentIntent.currency).toString(),
+        currency: paymentIntent.currency,
         status: "completed",
         processedAt: new Date(),
       });
@@ -284,14 +290,10 @@ async function handlePaymentFailed(event: Stripe.Event) {
   
   try {
     if (paymentIntent.metadata?.bookingId) {
-      // Update booking status to failed
-      await db
-        .update(bookingsTable)
-        .set({
-          status: "pending", // Keep as pending so customer can retry
-          updatedAt: new Date(),
-        })
-        .where(eq(bookingsTable.stripePaymentIntentId, paymentIntent.id));
+      // Release the hold back to draft so the customer can retry
+      await dispatchBookingEvent(paymentIntent.metadata.bookingId, TransitionEvents.PAYMENT_FAILED, {
+        reason: paymentIntent.last_payment_error?.message,
+      });
 
       // Check if transaction exists
       const existingTx = await db
@@ -314,9 +316,10 @@ async function handlePaymentFailed(event: Stripe.Event) {
         await db.insert(transactionsTable).values({
           bookingId: paymentIntent.metadata.bookingId,
           stripeChargeId: paymentIntent.latest_charge as string || null,
-          amount: (paymentIntent.amount / 100).toString(),
-          platformFee: ((paymentIntent.application_fee_amount || 0) / 100).toString(),
+          amount: fromMinorUnits(paymentIntent.amount, paymentIntent.currency).toString(),
+          platformFee: fromMinorUnits(paymentIntent.application_fee_amount || 0, paymentIntent.currency).toString(),
           providerPayout: "0",
+          currency: paymentIntent.currency,
           status: "failed",
           processedAt: new Date(),
         });
@@ -325,7 +328,7 @@ async function handlePaymentFailed(event: Stripe.Event) {
       // Send notification to customer and provider
       await sendNotification('payment_failed', {
         bookingId: paymentIntent.metadata.bookingId,
-        amount: paymentIntent.amount / 100,
+        amount: fromMinorUnits(paymentIntent.amount, paymentIntent.currency),
         error: paymentIntent.last_payment_error?.message,
         customerEmail: paymentIntent.receipt_email,
       });
@@ -388,21 +391,17 @@ async function handleChargeRefunded(event: Stripe.Event) {
         })
         .where(eq(transactionsTable.id, tx.id));
 
-      // Update booking status to cancelled
-      await db
-        .update(bookingsTable)
-        .set({
-          status: "cancelled",
-          cancellationReason: "Payment refunded",
-          cancelledAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(bookingsTable.id, tx.bookingId));
+      // Refunds issued outside the booking flow still close the booking
+      await dispatchBookingEvent(
+        tx.bookingId,
+        charge.refunded ? TransitionEvents.REFUND_FULL : TransitionEvents.REFUND_PARTIAL,
+        { reason: "Payment refunded", metadata: { refundAmount: fromMinorUnits(charge.amount_refunded, charge.currency) } }
+      );
 
       // Send refund notification
       await sendNotification('refund_processed', {
         bookingId: tx.bookingId,
-        refundAmount: charge.amount_refunded / 100,
+        refundAmount: fromMinorUnits(charge.amount_refunded, charge.currency),
         customerEmail: charge.receipt_email,
       });
 
@@ -443,7 +442,8 @@ async function handleDisputeCreated(event: Stripe.Event) {
           transactionId: tx.id,
           stripeDisputeId: dispute.id,
           stripeChargeId: dispute.charge as string,
-          amount: dispute.amount / 100,
+          stripeAccountId: event.account,
+          amount: fromMinorUnits(dispute.amount, dispute.currency),
           reason: dispute.reason,
           status: dispute.status,
           evidenceDueBy: dispute.evidence_details?.due_by 
@@ -455,7 +455,7 @@ async function handleDisputeCreated(event: Stripe.Event) {
         await sendNotification('chargeback_alert', {
           bookingId: tx.bookingId,
           disputeId: dispute.id,
-          amount: dispute.amount / 100,
+          amount: fromMinorUnits(dispute.amount, dispute.currency),
           reason: dispute.reason,
           providerId: booking[0].providerId,
           dueBy: dispute.evidence_details?.due_by 
@@ -473,7 +473,7 @@ async function handleDisputeCreated(event: Stripe.Event) {
           .where(eq(bookingsTable.id, tx.bookingId));
       }
 
-      console.log(`Dispute created for charge ${dispute.charge}, amount: ${dispute.amount / 100}`);
+      console.log(`Dispute created for charge ${dispute.charge}, amount: ${fromMinorUnits(dispute.amount, dispute.currency)}`);
     }
   } catch (error) {
     console.error(`Error handling dispute for ${dispute.id}:`, error);
@@ -495,11 +495,11 @@ async function handleDisputeFundsWithdrawn(event: Stripe.Event) {
       false // fundsReinstated
     );
     
-    console.log(`Dispute funds withdrawn: ${dispute.id}, amount: ${dispute.amount / 100}`);
+    console.log(`Dispute funds withdrawn: ${dispute.id}, amount: ${fromMinorUnits(dispute.amount, dispute.currency)}`);
     
     await sendNotification('dispute_funds_withdrawn', {
       disputeId: dispute.id,
-      amount: dispute.amount / 100,
+      amount: fromMinorUnits(dispute.amount, dispute.currency),
       charge: dispute.charge,
     });
   } catch (error) {
@@ -521,11 +521,11 @@ async function handleDisputeFundsReinstated(event: Stripe.Event) {
       true // fundsReinstated
     );
     
-    console.log(`Dispute funds reinstated: ${dispute.id}, amount: ${dispute.amount / 100}`);
+    console.log(`Dispute funds reinstated: ${dispute.id}, amount: ${fromMinorUnits(dispute.amount, dispute.currency)}`);
     
     await sendNotification('dispute_resolved', {
       disputeId: dispute.id,
-      amount: dispute.amount / 100,
+      amount: fromMinorUnits(dispute.amount, dispute.currency),
       charge: dispute.charge,
       status: 'won',
     });
@@ -552,7 +552,7 @@ async function handleTransferReversed(event: Stripe.Event) {
       // Notify provider of transfer reversal
       await sendNotification('transfer_reversed', {
         bookingId: transfer.metadata.bookingId,
-        amount: transfer.amount / 100,
+        amount: fromMinorUnits(transfer.amount, transfer.currency),
         reason: transfer.metadata?.reversal_reason,
       });
 
@@ -582,7 +582,7 @@ async function handlePayoutPaid(event: Stripe.Event) {
       providerId,
       stripePayoutId: payout.id,
       stripeAccountId: payout.destination as string,
-      amount: payout.amount / 100,
+      amount: fromMinorUnits(payout.amount, payout.currency),
       arrivalDate: new Date(payout.arrival_date * 1000),
       method: payout.method === 'instant' ? 'instant' : 'standard',
       status: 'paid',
@@ -592,12 +592,12 @@ async function handlePayoutPaid(event: Stripe.Event) {
       // Send payout confirmation
       await sendNotification('payout_successful', {
         providerId: provider[0].id,
-        amount: payout.amount / 100,
+        amount: fromMinorUnits(payout.amount, payout.currency),
         arrivalDate: new Date(payout.arrival_date * 1000),
         payoutId: payout.id,
       });
 
-      console.log(`Payout confirmed for provider ${provider[0].id}: ${payout.amount / 100}`);
+      console.log(`Payout confirmed for provider ${provider[0].id}: ${fromMinorUnits(payout.amount, payout.currency)}`);
     }
   } catch (error) {
     console.error(`Error handling payout confirmation:`, error);
@@ -623,7 +623,7 @@ async function handlePayoutFailed(event: Stripe.Event) {
       providerId,
       stripePayoutId: payout.id,
       stripeAccountId: payout.destination as string,
-      amount: payout.amount / 100,
+      amount: fromMinorUnits(payout.amount, payout.currency),
       method: payout.method === 'instant' ? 'instant' : 'standard',
       status: 'failed',
       failureCode: payout.failure_code || undefined,
@@ -634,7 +634,7 @@ async function handlePayoutFailed(event: Stripe.Event) {
       // Send urgent notification about failed payout
       await sendNotification('payout_failed', {
         providerId: provider[0].id,
-        amount: payout.amount / 100,
+        amount: fromMinorUnits(payout.amount, payout.currency),
         failureCode: payout.failure_code || undefined,
         failureMessage: payout.failure_message || undefined,
         payoutId: payout.id,
@@ -678,7 +678,7 @@ async function handlePayoutCanceled(event: Stripe.Event) {
       providerId,
       stripePayoutId: payout.id,
       stripeAccountId: payout.destination as string,
-      amount: payout.amount / 100,
+      amount: fromMinorUnits(payout.amount, payout.currency),
       method: payout.method === 'instant' ? 'instant' : 'standard',
       status: 'canceled',
     });
@@ -686,7 +686,7 @@ async function handlePayoutCanceled(event: Stripe.Event) {
     if (provider.length > 0) {
       await sendNotification('payout_canceled', {
         providerId: provider[0].id,
-        amount: payout.amount / 100,
+        amount: fromMinorUnits(payout.amount, payout.currency),
         payoutId: payout.id,
       });
 
@@ -713,7 +713,7 @@ async function handleApplicationFeeRefunded(event: Stripe.Event) {
       const tx = transaction[0];
       
       // Update platform fee to reflect refund
-      const refundedFee = applicationFee.amount_refunded / 100;
+      const refundedFee = fromMinorUnits(applicationFee.amount_refunded, applicationFee.currency);
       await db
         .update(transactionsTable)
         .set({
@@ -727,4 +727,23 @@ async function handleApplicationFeeRefunded(event: Stripe.Event) {
   } catch (error) {
     console.error(`Error handling application fee refund:`, error);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Apply a Stripe-driven event to a booking as the system actor.
+ * Events that no longer apply (e.g. a retried delivery) are logged, not retried.
+ */
+async function dispatchBookingEvent(
+  bookingId: string,
+  event: TransitionEvent,
+  options: { reason?: string; metadata?: Record<string, any> }
+) {
+  try {
+    await bookingStateEngine.dispatch(bookingId, event, { type: "system", id: "system" }, options);
+  } catch (error) {
+    if (!(error instanceof BookingTransitionError)) {
+      throw error;
+    }
+    console.warn(`Skipped booking ${bookingId} state change on ${event}:`, error.message);
+  }
+}
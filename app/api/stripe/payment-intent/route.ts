@@ -8,6 +8,17 @@ import { providersTable } from "@/db/schema/providers-schema";
 import { profilesTable } from "@/db/schema/profiles-schema";
 import { eq, and } from "drizzle-orm";
 import { withRateLimitRedis } from "@/lib/rate-limit-redis";
+import { toMinorUnits } from "@/lib/payments/currency";
+import {
+  bookingStateEngine,
+  BookingStates,
+  TransitionEvents,
+  toBookingState,
+  type BookingState,
+} from "@/lib/booking-state-machine";
+
+// Only checkouts still waiting on payment; paid bookings must never get a second intent
+const PAYABLE_STATES: BookingState[] = [BookingStates.DRAFT, BookingStates.HOLD];
 
 export const POST = withRateLimitRedis(
   { type: "payment" },
@@ -59,7 +70,7 @@ export const POST = withRateLimitRedis(
     }
 
     // Check if booking is in correct status
-    if (booking.status !== "pending") {
+    if (!PAYABLE_STATES.includes(toBookingState(booking.status))) {
       return NextResponse.json(
         { error: "Booking cannot be paid - invalid status" },
         { status: 400 }
@@ -67,13 +78,13 @@ export const POST = withRateLimitRedis(
     }
 
     // Calculate amounts
-    const totalAmountCents = Math.round(parseFloat(booking.totalAmount) * 100);
-    const platformFeeCents = Math.round(parseFloat(booking.platformFee) * 100);
+    const totalAmountCents = toMinorUnits(booking.totalAmount, booking.currency);
+    const platformFeeCents = toMinorUnits(booking.platformFee, booking.currency);
 
     // Create payment intent with idempotency key
     const paymentIntent = await createPaymentIntentWithIdempotency({
       amount: totalAmountCents,
-      currency: "usd", // TODO: Make this configurable
+      currency: booking.currency,
       customerId: customer?.stripeCustomerId || undefined,
       stripeConnectAccountId: provider.stripeConnectAccountId,
       platformFeeAmount: platformFeeCents,
@@ -83,6 +94,7 @@ export const POST = withRateLimitRedis(
         providerId: provider.id,
         customerId: userId,
         serviceName: booking.serviceName,
+        taxAmount: toMinorUnits(booking.taxAmount, booking.currency).toString(),
       },
     });
 
@@ -95,6 +107,16 @@ export const POST = withRateLimitRedis(
       })
       .where(eq(bookingsTable.id, bookingId));
 
+    // Hold the slot while a draft booking is being paid for
+    if (toBookingState(booking.status) === BookingStates.DRAFT) {
+      await bookingStateEngine.dispatch(
+        bookingId,
+        TransitionEvents.PLACE_HOLD,
+        { type: "system", id: "system" },
+        { metadata: { paymentIntentId: paymentIntent.id } }
+      );
+    }
+
     return NextResponse.json({
       clientSecret: paymentIntent.client_secret,
       paymentIntentId: paymentIntent.id,
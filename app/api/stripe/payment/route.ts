@@ -8,6 +8,14 @@ import { eq } from "drizzle-orm";
 import { z } from "zod";
 import Stripe from "stripe";
 import { withRateLimit } from "@/lib/rate-limit";
+import {
+  bookingStateEngine,
+  BookingTransitionError,
+  SLOT_HOLDING_STATES,
+  TransitionEvents,
+  toBookingState,
+} from "@/lib/booking-state-machine";
+import { paymentConfirmationEvent } from "@/lib/bookings/instant-booking";
 
 // Platform fee configuration
 const PLATFORM_FEE_PERCENT = Number(process.env.NEXT_PUBLIC_PLATFORM_FEE_PERCENT) || 10; // 10% base fee
@@ -285,13 +293,17 @@ export const PUT = withRateLimit('booking', async (request: NextRequest) => {
 
     // Update booking status if payment succeeded
     if (paymentIntent.status === "succeeded") {
-      await db
-        .update(bookingsTable)
-        .set({
-          status: "confirmed",
-          updatedAt: new Date(),
-        })
-        .where(eq(bookingsTable.id, bookingId));
+      try {
+        await bookingStateEngine.dispatch(
+          bookingId,
+          await paymentConfirmationEvent(bookingId),
+          { type: "system", id: "system" },
+          { metadata: { paymentIntentId } }
+        );
+      } catch (error) {
+        // The payment webhook may have confirmed the booking first
+        if (!(error instanceof BookingTransitionError)) throw error;
+      }
     }
 
     // Get the charge details for transfer information
@@ -425,17 +437,29 @@ export const DELETE = withRateLimit('payment', async (request: NextRequest) => {
       })
       .where(eq(transactionsTable.bookingId, bookingId));
 
-    // Update booking status
-    await db
-      .update(bookingsTable)
-      .set({
-        status: "cancelled",
-        cancellationReason: reason || "Customer requested refund",
-        cancelledBy: userId,
-        cancelledAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(bookingsTable.id, bookingId));
+    // Cancel an active booking, then record the refund against it
+    try {
+      if (SLOT_HOLDING_STATES.includes(toBookingState(booking.status))) {
+        const actor = await bookingStateEngine.resolveActor(booking, userId);
+        await bookingStateEngine.dispatch(
+          bookingId,
+          actor.type === "customer" ? TransitionEvents.CUSTOMER_CANCELS : TransitionEvents.PROVIDER_CANCELS,
+          actor,
+          { reason: reason || "Customer requested refund" }
+        );
+      }
+
+      await bookingStateEngine.dispatch(
+        bookingId,
+        amount ? TransitionEvents.REFUND_PARTIAL : TransitionEvents.REFUND_FULL,
+        { type: "system", id: "system" },
+        { metadata: { refundAmount: refund.amount / 100 } }
+      );
+    } catch (error) {
+      // The refund already went through at Stripe; keep the response successful
+      if (!(error instanceof BookingTransitionError)) throw error;
+      console.error(`Booking ${bookingId} state not updated after refund:`, error.message);
+    }
 
     return NextResponse.json({
       success: true,
@@ -7,6 +7,7 @@ import { bookingsTable, transactionsTable } from "@/db/schema/bookings-schema";
 import { providersTable } from "@/db/schema/providers-schema";
 import { eq, and, lte, isNull, or } from "drizzle-orm";
 import { withRateLimitRedis } from "@/lib/rate-limit-redis";
+import { toMinorUnits, fromMinorUnits } from "@/lib/payments/currency";
 import crypto from "crypto";
 
 interface PayoutReleaseRequest {
@@ -149,7 +150,7 @@ async function releaseSinglePayout(
     }
 
     // Calculate payout amount (total minus platform fee)
-    const providerPayoutCents = Math.round(parseFloat(booking.providerPayout) * 100);
+    const providerPayoutCents = toMinorUnits(booking.providerPayout, booking.currency);
 
     // Generate idempotency key
     const idempotencyKey = generateIdempotencyKey(bookingId, "transfer");
@@ -157,7 +158,7 @@ async function releaseSinglePayout(
     // Create transfer to connected account
     const transfer = await stripe.transfers.create({
       amount: providerPayoutCents,
-      currency: "usd",
+      currency: booking.currency,
       destination: provider.stripeConnectAccountId,
       transfer_group: `booking_${bookingId}`,
       description: `Payout for booking ${bookingId}`,
@@ -188,6 +189,7 @@ async function releaseSinglePayout(
         amount: booking.totalAmount,
         platformFee: booking.platformFee,
         providerPayout: booking.providerPayout,
+        currency: booking.currency,
         status: "completed",
         processedAt: new Date(),
       });
@@ -197,14 +199,14 @@ async function releaseSinglePayout(
     await sendPayoutNotification({
       provider,
       booking,
-      payoutAmount: providerPayoutCents / 100,
+      payoutAmount: fromMinorUnits(providerPayoutCents, booking.currency),
     });
 
     return {
       success: true,
       payout: {
         transferId: transfer.id,
-        amount: providerPayoutCents / 100,
+        amount: fromMinorUnits(providerPayoutCents, booking.currency),
         currency: transfer.currency,
         status: transfer.created ? "completed" : "pending",
         bookingId: booking.id,
@@ -7,11 +7,13 @@ import { bookingsTable, transactionsTable } from "@/db/schema/bookings-schema";
 import { profilesTable } from "@/db/schema/profiles-schema";
 import { eq, and } from "drizzle-orm";
 import { withRateLimitRedis } from "@/lib/rate-limit-redis";
+import { bookingStateEngine, BookingTransitionError, TransitionEvents } from "@/lib/booking-state-machine";
+import { toMinorUnits, fromMinorUnits, minorToDecimalString } from "@/lib/payments/currency";
 import crypto from "crypto";
 
 interface RefundRequest {
   bookingId: string;
-  amount?: number; // Optional for partial refunds (in dollars)
+  amount?: number; // Optional for partial refunds (in the booking's currency)
   reason?: string;
 }
 
@@ -83,9 +85,9 @@ export const POST = withRateLimitRedis(
         }
 
         // Calculate refund amount
-        const totalAmountCents = Math.round(parseFloat(booking.totalAmount) * 100);
+        const totalAmountCents = toMinorUnits(booking.totalAmount, booking.currency);
         const refundAmountCents = amount 
-          ? Math.round(amount * 100) 
+          ? toMinorUnits(amount, booking.currency) 
           : totalAmountCents;
 
         // Validate refund amount
@@ -124,18 +126,7 @@ export const POST = withRateLimitRedis(
           idempotencyKey: idempotencyKey,
         });
 
-        // Update booking status
         const isFullRefund = refundAmountCents === totalAmountCents;
-        await tx
-          .update(bookingsTable)
-          .set({
-            status: isFullRefund ? "cancelled" : booking.status,
-            cancellationReason: reason || "Customer requested refund",
-            cancelledBy: userId,
-            cancelledAt: isFullRefund ? new Date() : booking.cancelledAt,
-            updatedAt: new Date(),
-          })
-          .where(eq(bookingsTable.id, bookingId));
 
         // Create or update transaction record
         if (transaction) {
@@ -153,9 +144,10 @@ export const POST = withRateLimitRedis(
             bookingId: booking.id,
             stripeChargeId: refund.charge as string,
             stripeRefundId: refund.id,
-            amount: (refundAmountCents / 100).toFixed(2),
-            platformFee: (platformFeeReversalCents / 100).toFixed(2),
-            providerPayout: (providerRefundCents / 100).toFixed(2),
+            amount: minorToDecimalString(refundAmountCents, booking.currency),
+            platformFee: minorToDecimalString(platformFeeReversalCents, booking.currency),
+            providerPayout: minorToDecimalString(providerRefundCents, booking.currency),
+            currency: booking.currency,
             status: "refunded",
             processedAt: new Date(),
           });
@@ -164,21 +156,39 @@ export const POST = withRateLimitRedis(
         // Send notifications (implement based on your notification system)
         await sendRefundNotifications({
           booking,
-          refundAmount: refundAmountCents / 100,
+          refundAmount: fromMinorUnits(refundAmountCents, booking.currency),
           isFullRefund,
           reason: reason || "Customer requested refund",
         });
 
         return {
           refundId: refund.id,
-          amount: refundAmountCents / 100,
+          amount: fromMinorUnits(refundAmountCents, booking.currency),
           status: refund.status,
           isFullRefund,
-          platformFeeReversed: platformFeeReversalCents / 100,
-          providerRefund: providerRefundCents / 100,
+          platformFeeReversed: fromMinorUnits(platformFeeReversalCents, booking.currency),
+          providerRefund: fromMinorUnits(providerRefundCents, booking.currency),
         };
       });
 
+      // Record the refund on the booking once the money has moved
+      try {
+        const isAdmin = await checkAdminRole(userId);
+        await bookingStateEngine.dispatch(
+          bookingId,
+          result.isFullRefund ? TransitionEvents.REFUND_FULL : TransitionEvents.REFUND_PARTIAL,
+          isAdmin ? { type: "admin", id: userId } : { type: "system", id: "system" },
+          {
+            reason: reason || "Customer requested refund",
+            metadata: { refundAmount: result.amount, refundedBy: userId },
+          }
+        );
+      } catch (error) {
+        // Partial refunds on upcoming bookings leave the booking confirmed
+        if (!(error instanceof BookingTransitionError)) throw error;
+        console.warn(`Booking ${bookingId} state unchanged by refund:`, error.message);
+      }
+
       return NextResponse.json({
         success: true,
         refund: result,
@@ -8,6 +8,14 @@ import { headers } from "next/headers";
 import Stripe from "stripe";
 import { withRateLimit } from "@/lib/rate-limit";
 import { processWebhookWithIdempotency } from "@/lib/webhook-idempotency";
+import { minorToDecimalString, fromMinorUnits } from "@/lib/payments/currency";
+import {
+  bookingStateEngine,
+  BookingTransitionError,
+  TransitionEvents,
+  type TransitionEvent,
+} from "@/lib/booking-state-machine";
+import { paymentConfirmationEvent } from "@/lib/bookings/instant-booking";
 
 const relevantEvents = new Set([
   "payment_intent.succeeded",
@@ -117,12 +125,15 @@ async function handlePaymentIntentSucceeded(event: Stripe.Event, tx?: any) {
     ? async (callback: (db: any) => Promise<void>) => await callback(tx)
     : async (callback: (db: any) => Promise<void>) => await database.transaction(callback);
 
+  // Confirm the booking before the transaction below locks its row
+  await dispatchBookingEvent(bookingId, await paymentConfirmationEvent(bookingId), {
+    metadata: { paymentIntentId: paymentIntent.id },
+  });
+
   await executeWithDb(async (transactionDb) => {
-    // Update booking status to confirmed
     const [booking] = await transactionDb
       .update(bookingsTable)
       .set({
-        status: "confirmed",
         stripePaymentIntentId: paymentIntent.id,
         updatedAt: new Date(),
       })
@@ -182,16 +193,10 @@ async function handlePaymentIntentFailed(event: Stripe.Event, tx?: any) {
 
   const bookingId = paymentIntent.metadata.bookingId;
 
-  // Update booking status
-  await database
-    .update(bookingsTable)
-    .set({
-      status: "cancelled",
-      cancellationReason: `Payment failed: ${paymentIntent.last_payment_error?.message}`,
-      cancelledAt: new Date(),
-      updatedAt: new Date(),
-    })
-    .where(eq(bookingsTable.id, bookingId));
+  // Release the hold; the draft expires if the customer does not retry
+  await dispatchBookingEvent(bookingId, TransitionEvents.PAYMENT_FAILED, {
+    reason: `Payment failed: ${paymentIntent.last_payment_error?.message}`,
+  });
 
   console.log(`Payment failed for booking ${bookingId}`);
 }
@@ -205,23 +210,20 @@ async function handleChargeRefunded(event: Stripe.Event, tx?: any) {
   }
 
   const bookingId = charge.metadata.bookingId;
-  const refundAmount = (charge.amount_refunded / 100).toFixed(2);
+  const refundAmount = minorToDecimalString(charge.amount_refunded, charge.currency);
 
   // If we already have a transaction context, use it directly
   const executeWithDb = tx 
     ? async (callback: (db: any) => Promise<void>) => await callback(tx)
     : async (callback: (db: any) => Promise<void>) => await database.transaction(callback);
 
-  await executeWithDb(async (transactionDb) => {
-    // Update booking with refund info
-    await transactionDb
-      .update(bookingsTable)
-      .set({
-        status: charge.refunded ? "refunded" : "confirmed",
-        updatedAt: new Date(),
-      })
-      .where(eq(bookingsTable.id, bookingId));
+  await dispatchBookingEvent(
+    bookingId,
+    charge.refunded ? TransitionEvents.REFUND_FULL : TransitionEvents.REFUND_PARTIAL,
+    { reason: "Payment refunded", metadata: { refundAmount: fromMinorUnits(charge.amount_refunded, charge.currency) } }
+  );
 
+  await executeWithDb(async (transactionDb) => {
     // Update transaction record
     await transactionDb
       .update(transactionsTable)
@@ -318,4 +320,23 @@ export async function GET(req: NextRequest) {
     endpoint: "/api/stripe/webhooks/marketplace",
     events: Array.from(relevantEvents),
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Apply a Stripe-driven event to a booking as the system actor.
+ * Events that no longer apply (e.g. a retried delivery) are logged, not retried.
+ */
+async function dispatchBookingEvent(
+  bookingId: string,
+  event: TransitionEvent,
+  options: { reason?: string; metadata?: Record<string, any> }
+) {
+  try {
+    await bookingStateEngine.dispatch(bookingId, event, { type: "system", id: "system" }, options);
+  } catch (error) {
+    if (!(error instanceof BookingTransitionError)) {
+      throw error;
+    }
+    console.warn(`Skipped booking ${bookingId} state change on ${event}:`, error.message);
+  }
+}
@@ -10,6 +10,28 @@ import { processWebhookWithIdempotency } from "@/lib/webhook-idempotency";
 import { logApiStart, logApiSuccess, logApiError, logger } from "@/lib/logger";
 import { sendBookingConfirmation, sendProviderBookingNotification, sendCancellationNotification } from "@/lib/twilio/sms-service";
 import { emailService } from "@/lib/services/email-service";
+import { logDispute } from "@/lib/webhook-audit";
+import { fromMinorUnits } from "@/lib/payments/currency";
+import { thingOrderService } from "@/lib/things/order-service";
+import { paymentConfirmationEvent } from "@/lib/bookings/instant-booking";
+import { createRefundWithIdempotency } from "@/lib/stripe-enhanced";
+import {
+  bookingStateEngine,
+  BookingStates,
+  BookingTransitionError,
+  TransitionEvents,
+  toBookingState,
+  type BookingState,
+  type TransitionEvent
+} from "@/lib/booking-state-machine";
+
+// States a booking reaches once its payment went through
+const PAID_BOOKING_STATES: BookingState[] = [
+  BookingStates.PENDING_PROVIDER,
+  BookingStates.CONFIRMED,
+  BookingStates.IN_PROGRESS,
+  BookingStates.COMPLETED
+];
 
 const relevantEvents = new Set([
   // Booking-related events
@@ -61,12 +83,16 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ received: true });
   }
 
+  // Notifications wait for the webhook transaction to commit
+  const afterCommit: Array<() => Promise<void>> = [];
+
   // Process the webhook with idempotency guarantees
   const result = await processWebhookWithIdempotency(event, async (event, tx) => {
     switch (event.type) {
       // Booking payment events
       case "payment_intent.succeeded":
         await handleBookingPaymentSuccess(event, tx);
+        await handleThingPurchasePaymentSuccess(event, tx, afterCommit);
         break;
 
       case "payment_intent.payment_failed":
@@ -75,6 +101,7 @@ export async function POST(req: NextRequest) {
 
       case "payment_intent.canceled":
         await handleBookingPaymentCancellation(event, tx);
+        await handleThingPurchaseCancellation(event, tx);
         break;
 
       case "charge.dispute.created":
@@ -109,6 +136,10 @@ export async function POST(req: NextRequest) {
     });
   }
 
+  for (const task of afterCommit) {
+    await task();
+  }
+
   return NextResponse.json({ received: true });
 }
 
@@ -131,11 +162,22 @@ async function handleBookingPaymentSuccess(event: Stripe.Event, tx?: any) {
   try {
     logApiStart(`stripe.webhooks.payment_intent.succeeded`, { bookingId });
 
-    // Update booking status
+    // Update booking status before this transaction locks the booking row;
+    // customers below the provider's minimum rating wait for acceptance
+    const confirmed = await dispatchBookingEvent(bookingId, await paymentConfirmationEvent(bookingId), {
+      reason: 'Payment confirmed by Stripe',
+      metadata: { paymentIntentId: paymentIntent.id }
+    });
+
+    // Paid after the checkout expired; the slot may be gone, so give the money back
+    if (!confirmed) {
+      await refundUnconfirmedPayment(bookingId, paymentIntent);
+      return;
+    }
+
     const [booking] = await database
       .update(bookingsTable)
       .set({
-        status: 'PAYMENT_SUCCEEDED',
         paymentIntentId: paymentIntent.id,
         updatedAt: new Date(),
       })
@@ -173,7 +215,7 @@ async function handleBookingPaymentSuccess(event: Stripe.Event, tx?: any) {
         serviceName: booking.serviceName,
         bookingDate: booking.bookingDate,
         bookingTime: booking.bookingTime,
-        amount: (paymentIntent.amount / 100).toFixed(2),
+        amount: fromMinorUnits(paymentIntent.amount, paymentIntent.currency).toFixed(2),
       });
     }
 
@@ -186,7 +228,7 @@ async function handleBookingPaymentSuccess(event: Stripe.Event, tx?: any) {
         bookingDate: booking.bookingDate,
         startTime: booking.startTime,
         endTime: booking.endTime,
-        totalAmount: paymentIntent.amount / 100,
+        totalAmount: fromMinorUnits(paymentIntent.amount, paymentIntent.currency),
         bookingId: booking.id,
         providerEmail: provider?.email,
         location: booking.location,
@@ -198,7 +240,7 @@ async function handleBookingPaymentSuccess(event: Stripe.Event, tx?: any) {
       await emailService.sendPaymentReceipt({
         customerName: booking.customerName,
         customerEmail: booking.customerEmail,
-        amount: paymentIntent.amount / 100,
+        amount: fromMinorUnits(paymentIntent.amount, paymentIntent.currency),
         serviceName: booking.serviceName,
         providerName: provider?.businessName || 'Provider',
         paymentDate: new Date(),
@@ -215,7 +257,7 @@ async function handleBookingPaymentSuccess(event: Stripe.Event, tx?: any) {
         serviceName: booking.serviceName,
         bookingDate: booking.bookingDate,
         bookingTime: booking.bookingTime,
-        amount: ((paymentIntent.amount * 0.9) / 100).toFixed(2), // Provider gets 90%
+        amount: fromMinorUnits(paymentIntent.amount * 0.9, paymentIntent.currency).toFixed(2), // Provider gets 90%
       });
     }
 
@@ -257,15 +299,11 @@ async function handleBookingPaymentFailure(event: Stripe.Event, tx?: any) {
   try {
     logApiStart(`stripe.webhooks.payment_intent.failed`, { bookingId });
 
-    // Update booking status
-    await database
-      .update(bookingsTable)
-      .set({
-        status: 'PAYMENT_FAILED',
-        paymentIntentId: paymentIntent.id,
-        updatedAt: new Date(),
-      })
-      .where(eq(bookingsTable.id, bookingId));
+    // Update booking status; the customer can retry until the draft expires
+    await dispatchBookingEvent(bookingId, TransitionEvents.PAYMENT_FAILED, {
+      reason: paymentIntent.last_payment_error?.message || 'Payment failed',
+      metadata: { paymentIntentId: paymentIntent.id, stripeErrorCode: paymentIntent.last_payment_error?.code }
+    });
 
     // Create transaction record
     await database.insert(transactionsTable).values({
@@ -302,16 +340,17 @@ async function handleBookingPaymentCancellation(event: Stripe.Event, tx?: any) {
   try {
     logApiStart(`stripe.webhooks.payment_intent.canceled`, { bookingId });
 
-    // Update booking status
+    // Release the hold; the abandoned draft is closed by the timeout sweeper
+    await dispatchBookingEvent(bookingId, TransitionEvents.PAYMENT_FAILED, {
+      reason: 'Payment canceled',
+      metadata: { paymentIntentId: paymentIntent.id }
+    });
+
     const [booking] = await database
-      .update(bookingsTable)
-      .set({
-        status: 'CANCELLED',
-        paymentIntentId: paymentIntent.id,
-        updatedAt: new Date(),
-      })
+      .select()
+      .from(bookingsTable)
       .where(eq(bookingsTable.id, bookingId))
-      .returning();
+      .limit(1);
 
     // Create transaction record
     await database.insert(transactionsTable).values({
@@ -371,19 +410,28 @@ async function handleBookingChargeDispute(event: Stripe.Event, tx?: any) {
     const [booking] = await database
       .select()
       .from(bookingsTable)
-      .where(eq(bookingsTable.paymentIntentId, paymentIntentId))
+      .where(eq(bookingsTable.stripePaymentIntentId, paymentIntentId))
       .limit(1);
 
     if (booking) {
+      // Opens the dispute in the provider's dispute center
+      await logDispute({
+        bookingId: booking.id,
+        stripeDisputeId: dispute.id,
+        stripeChargeId: dispute.charge as string,
+        amount: fromMinorUnits(dispute.amount, dispute.currency),
+        reason: dispute.reason,
+        status: dispute.status,
+        evidenceDueBy: dispute.evidence_details?.due_by
+          ? new Date(dispute.evidence_details.due_by * 1000)
+          : undefined,
+      });
+
       // Mark the booking as disputed
-      await database
-        .update(bookingsTable)
-        .set({
-          status: 'DISPUTED',
-          notes: `Dispute created: ${dispute.reason || 'No reason provided'}`,
-          updatedAt: new Date(),
-        })
-        .where(eq(bookingsTable.id, booking.id));
+      await dispatchBookingEvent(booking.id, TransitionEvents.DISPUTE_RAISED, {
+        reason: `Dispute created: ${dispute.reason || 'No reason provided'}`,
+        metadata: { disputeReason: dispute.reason, disputeId: dispute.id }
+      });
 
       logger.warn('Charge dispute created for booking', {
         bookingId: booking.id,
@@ -460,16 +508,6 @@ async function handleBookingTransferPaid(event: Stripe.Event, tx?: any) {
       })
       .where(eq(transactionsTable.stripeTransferId, transfer.id));
 
-    // Mark booking as completed if payment was successful
-    await database
-      .update(bookingsTable)
-      .set({
-        status: 'COMPLETED',
-        completedAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(bookingsTable.id, bookingId));
-
     logApiSuccess(`stripe.webhooks.transfer.paid`, { bookingId, transferId: transfer.id });
   } catch (error) {
     logApiError(`stripe.webhooks.transfer.paid`, error, { bookingId, transferId: transfer.id });
@@ -516,4 +554,130 @@ async function handleBookingTransferFailed(event: Stripe.Event, tx?: any) {
     logApiError(`stripe.webhooks.transfer.failed`, error, { bookingId, transferId: transfer.id });
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Marketplace (Things) purchase handlers
+
+/**
+ * Handle successful Things purchase payment: the order's funds go into escrow
+ */
+async function handleThingPurchasePaymentSuccess(
+  event: Stripe.Event,
+  tx?: any,
+  afterCommit?: Array<() => Promise<void>>
+) {
+  const paymentIntent = event.data.object as Stripe.PaymentIntent;
+
+  if (paymentIntent.metadata?.type !== "thing_purchase") {
+    return;
+  }
+
+  try {
+    logApiStart(`stripe.webhooks.payment_intent.succeeded.thing_purchase`, { paymentIntentId: paymentIntent.id });
+
+    const order = await thingOrderService.markPaid(paymentIntent.id, tx || db);
+
+    if (!order) {
+      logger.warn('No pending thing order for successful payment', { paymentIntentId: paymentIntent.id });
+      return;
+    }
+
+    await dispatchBookingEvent(order.bookingId, TransitionEvents.PAYMENT_CAPTURED, {
+      reason: 'Marketplace purchase paid, funds held in escrow',
+      metadata: { paymentIntentId: paymentIntent.id, orderId: order.id }
+    });
+
+    afterCommit?.push(() => thingOrderService.notifyPaid(order));
+
+    logApiSuccess(`stripe.webhooks.payment_intent.succeeded.thing_purchase`, { orderId: order.id });
+  } catch (error) {
+    logApiError(`stripe.webhooks.payment_intent.succeeded.thing_purchase`, error, { paymentIntentId: paymentIntent.id });
+    throw error;
+  }
+}
+
+/**
+ * Handle canceled Things purchase payment: cancel the order and relist the item
+ */
+async function handleThingPurchaseCancellation(event: Stripe.Event, tx?: any) {
+  const paymentIntent = event.data.object as Stripe.PaymentIntent;
+
+  if (paymentIntent.metadata?.type !== "thing_purchase") {
+    return;
+  }
+
+  try {
+    logApiStart(`stripe.webhooks.payment_intent.canceled.thing_purchase`, { paymentIntentId: paymentIntent.id });
+
+    const order = await thingOrderService.cancelUnpaid(paymentIntent.id, tx || db);
+
+    if (order) {
+      await dispatchBookingEvent(order.bookingId, TransitionEvents.PAYMENT_FAILED, {
+        reason: 'Marketplace purchase payment canceled',
+        metadata: { paymentIntentId: paymentIntent.id, orderId: order.id }
+      });
+    }
+
+    logApiSuccess(`stripe.webhooks.payment_intent.canceled.thing_purchase`, { orderId: order?.id });
+  } catch (error) {
+    logApiError(`stripe.webhooks.payment_intent.canceled.thing_purchase`, error, { paymentIntentId: paymentIntent.id });
+    throw error;
+  }
+}
+
+/**
+ * Apply a Stripe-driven event to a booking through the state engine
+ * Events that do not fit the booking's current state are logged, not retried;
+ * returns whether the transition applied
+ */
+async function dispatchBookingEvent(
+  bookingId: string,
+  event: TransitionEvent,
+  options: { reason?: string; metadata?: Record<string, any> }
+): Promise<boolean> {
+  try {
+    await bookingStateEngine.dispatch(bookingId, event, { type: 'system', id: 'system' }, options);
+    return true;
+  } catch (error) {
+    if (!(error instanceof BookingTransitionError)) {
+      throw error;
+    }
+    logger.warn('Skipped booking state change from webhook', {
+      bookingId,
+      event,
+      reason: error.message,
+    });
+    return false;
+  }
+}
+
+/**
+ * Refund a payment whose booking could not be confirmed (e.g. it expired first)
+ * A booking this intent already paid for is a redelivery and is left alone.
+ */
+async function refundUnconfirmedPayment(bookingId: string, paymentIntent: Stripe.PaymentIntent) {
+  const [booking] = await db
+    .select({ status: bookingsTable.status, stripePaymentIntentId: bookingsTable.stripePaymentIntentId })
+    .from(bookingsTable)
+    .where(eq(bookingsTable.id, bookingId))
+    .limit(1);
+
+  if (booking && PAID_BOOKING_STATES.includes(toBookingState(booking.status)) &&
+      booking.stripePaymentIntentId === paymentIntent.id) {
+    return;
+  }
+
+  const refund = await createRefundWithIdempotency({
+    paymentIntentId: paymentIntent.id,
+    bookingId,
+    metadata: { bookingId, type: 'unconfirmed_booking_payment' },
+    refundApplicationFee: true,
+  });
+
+  logger.warn('Refunded payment for a booking that could not be confirmed', {
+    bookingId,
+    paymentIntentId: paymentIntent.id,
+    refundId: refund.id,
+    status: booking?.status,
+  });
+}
@@ -7,6 +7,8 @@ import { sendEmail } from "@/lib/sendgrid/email-service";
 import { db } from "@/db/db";
 import { profilesTable } from "@/db/schema/profiles-schema";
 import { eq } from "drizzle-orm";
+import { thingNegotiationService, NegotiationError } from "@/lib/things/negotiation-service";
+import { contactScreeningService, ContactScreeningError } from "@/lib/security/contact-screening-service";
 
 /**
  * Thing Inquiry/Offer API
@@ -89,21 +91,42 @@ async function handleCreateInquiry(req: NextRequest, context: { userId?: string
       });
     }
     
+    // Mask phone numbers, emails and payment handles until something is paid for
+    const screening = await contactScreeningService.screen(
+      { senderId: userId, recipientId: thing.sellerId, source: "thing_inquiry", thingId },
+      [body.message]
+    );
+    const [message] = screening.texts;
+    
+    // Offers open (or continue) a negotiation thread with the seller
+    const negotiation = body.offerAmount
+      ? await thingNegotiationService.makeOffer(thingId, userId, {
+          amount: body.offerAmount,
+          message,
+        })
+      : null;
+    
     // Create the inquiry
     const inquiry = await createInquiry({
       thingId,
       fromUserId: userId,
-      message: body.message,
+      message,
       offerAmount: body.offerAmount,
     });
     
-    // Build contact info for the message
+    // Build contact info for the message; direct details only after payment
     let contactInfo = `Preferred contact: ${body.contactMethod || "In-app message"}`;
-    if (body.phoneNumber) {
-      contactInfo += `\nPhone: ${body.phoneNumber}`;
-    }
-    if (body.email) {
-      contactInfo += `\nEmail: ${body.email}`;
+    if (body.phoneNumber || body.email) {
+      if (await contactScreeningService.isContactSharingUnlocked(userId, thing.sellerId)) {
+        if (body.phoneNumber) {
+          contactInfo += `\nPhone: ${body.phoneNumber}`;
+        }
+        if (body.email) {
+          contactInfo += `\nEmail: ${body.email}`;
+        }
+      } else {
+        contactInfo += `\nDirect contact details are shared once a purchase is paid. Please reply in the app.`;
+      }
     }
     
     // Send notification email to seller if they have email notifications enabled
@@ -117,7 +140,7 @@ async function handleCreateInquiry(req: NextRequest, context: { userId?: string
         <p><strong>From:</strong> ${buyerProfile.email || 'Anonymous User'}</p>
         ${body.offerAmount ? `<p><strong>Offer Amount:</strong> $${body.offerAmount}</p>` : ''}
         <p><strong>Message:</strong></p>
-        <p>${body.message}</p>
+        <p>${message}</p>
         <p><strong>${contactInfo}</strong></p>
         <hr>
         <p><a href="${process.env.NEXT_PUBLIC_BASE_URL}/marketplace/things/${thingId}">View Listing</a></p>
@@ -143,7 +166,9 @@ async function handleCreateInquiry(req: NextRequest, context: { userId?: string
           offerAmount: inquiry.offerAmount ? Number(inquiry.offerAmount) : null,
           status: inquiry.status,
           createdAt: inquiry.createdAt,
-        }
+          negotiationId: negotiation?.negotiation.id ?? null,
+        },
+        screening: { action: screening.action, kinds: screening.kinds },
       },
       { 
         status: 201,
@@ -154,6 +179,10 @@ async function handleCreateInquiry(req: NextRequest, context: { userId?: string
     );
     
   } catch (error) {
+    if (error instanceof NegotiationError || error instanceof ContactScreeningError) {
+      return createApiError(error.message, { status: error.status, code: error.code });
+    }
+    
     console.error("Error creating inquiry:", error);
     return createApiError("Failed to send inquiry", { 
       status: 500,
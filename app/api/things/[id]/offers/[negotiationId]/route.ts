@@ -0,0 +1,138 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { createSecureApiHandler, createApiResponse, createApiError, getValidatedBody, type ApiContext } from "@/lib/security/api-handler";
+import { thingNegotiationService, NegotiationError, type NegotiationThread } from "@/lib/things/negotiation-service";
+import { ContactScreeningError } from "@/lib/security/contact-screening-service";
+
+/**
+ * Thing Negotiation API
+ * GET /api/things/[id]/offers/[negotiationId] - A negotiation thread with its offers
+ * POST /api/things/[id]/offers/[negotiationId] - Counter, accept, decline or withdraw
+ *
+ * Accepting reserves the item and returns `checkout` for /api/things/[id]/purchase.
+ */
+
+const respondSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("counter"),
+    amount: z.number().positive(),
+    message: z.string().max(1000).optional(),
+    expiresInHours: z.number().int().min(1).max(168).optional(),
+  }),
+  z.object({ action: z.literal("accept") }),
+  z.object({ action: z.literal("decline"), note: z.string().max(500).optional() }),
+  z.object({ action: z.literal("withdraw") }),
+]);
+
+const ACTION_MESSAGES: Record<z.infer<typeof respondSchema>["action"], string> = {
+  counter: "Your counter-offer has been sent",
+  accept: "Offer accepted. The item is reserved for checkout.",
+  decline: "Offer declined",
+  withdraw: "You have withdrawn from this negotiation",
+};
+
+function negotiationError(error: NegotiationError | ContactScreeningError) {
+  return createApiError(error.message, { status: error.status, code: error.code });
+}
+
+/**
+ * GET handler - Get a negotiation thread
+ */
+async function handleGetNegotiation(req: NextRequest, context: ApiContext) {
+  try {
+    const { userId } = context;
+    const { id, negotiationId } = context.params as { id: string; negotiationId: string };
+
+    const thread = await thingNegotiationService.getThread(negotiationId, userId!);
+
+    if (thread.negotiation.thingId !== id) {
+      return createApiError("Offer not found", { status: 404 });
+    }
+
+    return createApiResponse({ thread });
+  } catch (error) {
+    if (error instanceof NegotiationError) {
+      return negotiationError(error);
+    }
+
+    console.error("Error getting negotiation:", error);
+    return createApiError("Failed to get offer", {
+      status: 500,
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+}
+
+/**
+ * POST handler - Respond to a negotiation
+ */
+async function handleRespond(req: NextRequest, context: ApiContext) {
+  try {
+    const { userId } = context;
+    const { id, negotiationId } = context.params as { id: string; negotiationId: string };
+    const body = getValidatedBody<z.infer<typeof respondSchema>>(req);
+
+    if (!body) {
+      return createApiError("Invalid request body", { status: 400 });
+    }
+
+    const current = await thingNegotiationService.getThread(negotiationId, userId!);
+    if (current.negotiation.thingId !== id) {
+      return createApiError("Offer not found", { status: 404 });
+    }
+
+    let thread: NegotiationThread;
+    switch (body.action) {
+      case "counter":
+        thread = await thingNegotiationService.counter(negotiationId, userId!, body);
+        break;
+      case "accept":
+        thread = await thingNegotiationService.accept(negotiationId, userId!);
+        break;
+      case "decline":
+        thread = await thingNegotiationService.decline(negotiationId, userId!, body.note);
+        break;
+      case "withdraw":
+        thread = await thingNegotiationService.withdraw(negotiationId, userId!);
+        break;
+    }
+
+    return createApiResponse(
+      { thread, checkout: thread.checkout },
+      { message: ACTION_MESSAGES[body.action] }
+    );
+  } catch (error) {
+    if (error instanceof NegotiationError || error instanceof ContactScreeningError) {
+      return negotiationError(error);
+    }
+
+    console.error("Error responding to offer:", error);
+    return createApiError("Failed to respond to offer", {
+      status: 500,
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+}
+
+// GET: Protected endpoint for a negotiation thread
+export const GET = createSecureApiHandler(
+  handleGetNegotiation,
+  {
+    requireAuth: true,
+    rateLimit: { requests: 60, window: '1m' },
+    auditLog: false,
+    allowedMethods: ['GET'],
+  }
+);
+
+// POST: Protected endpoint for responding to offers
+export const POST = createSecureApiHandler(
+  handleRespond,
+  {
+    requireAuth: true,
+    validateBody: respondSchema,
+    rateLimit: { requests: 20, window: '1m' },
+    auditLog: true,
+    allowedMethods: ['POST'],
+  }
+);
@@ -0,0 +1,99 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { createSecureApiHandler, createApiResponse, createApiError, getValidatedBody, type ApiContext } from "@/lib/security/api-handler";
+import { thingNegotiationService, NegotiationError } from "@/lib/things/negotiation-service";
+import { ContactScreeningError } from "@/lib/security/contact-screening-service";
+
+/**
+ * Thing Offers API
+ * GET /api/things/[id]/offers - Negotiation threads on a listing (all for the seller, own for a buyer)
+ * POST /api/things/[id]/offers - Make an offer, or answer the seller's counter-offer
+ */
+
+const makeOfferSchema = z.object({
+  amount: z.number().positive(),
+  message: z.string().max(1000).optional(),
+  expiresInHours: z.number().int().min(1).max(168).optional(),
+});
+
+/**
+ * GET handler - List negotiation threads
+ */
+async function handleListOffers(req: NextRequest, context: ApiContext) {
+  try {
+    const { userId } = context;
+    const { id } = context.params as { id: string };
+
+    const threads = await thingNegotiationService.listForThing(id, userId!);
+
+    return createApiResponse({ threads });
+  } catch (error) {
+    if (error instanceof NegotiationError) {
+      return createApiError(error.message, { status: error.status, code: error.code });
+    }
+
+    console.error("Error listing offers:", error);
+    return createApiError("Failed to list offers", {
+      status: 500,
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+}
+
+/**
+ * POST handler - Make an offer
+ */
+async function handleMakeOffer(req: NextRequest, context: ApiContext) {
+  try {
+    const { userId } = context;
+    const { id } = context.params as { id: string };
+    const body = getValidatedBody<z.infer<typeof makeOfferSchema>>(req);
+
+    if (!body) {
+      return createApiError("Invalid request body", { status: 400 });
+    }
+
+    const thread = await thingNegotiationService.makeOffer(id, userId!, body);
+
+    return createApiResponse(
+      { thread },
+      {
+        status: 201,
+        message: "Your offer has been sent to the seller"
+      }
+    );
+  } catch (error) {
+    if (error instanceof NegotiationError || error instanceof ContactScreeningError) {
+      return createApiError(error.message, { status: error.status, code: error.code });
+    }
+
+    console.error("Error making offer:", error);
+    return createApiError("Failed to make offer", {
+      status: 500,
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+}
+
+// GET: Protected endpoint for listing offers
+export const GET = createSecureApiHandler(
+  handleListOffers,
+  {
+    requireAuth: true,
+    rateLimit: { requests: 60, window: '1m' },
+    auditLog: false,
+    allowedMethods: ['GET'],
+  }
+);
+
+// POST: Protected endpoint for making offers
+export const POST = createSecureApiHandler(
+  handleMakeOffer,
+  {
+    requireAuth: true,
+    validateBody: makeOfferSchema,
+    rateLimit: { requests: 10, window: '1m' },
+    auditLog: true,
+    allowedMethods: ['POST'],
+  }
+);
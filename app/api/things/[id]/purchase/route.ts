@@ -6,16 +6,24 @@ import { createSecureApiHandler, createApiResponse, createApiError, getValidated
 import { db } from "@/db/db";
 import { profilesTable } from "@/db/schema/profiles-schema";
 import { bookingsTable } from "@/db/schema/bookings-schema";
+import { initialBookingState, BookingStates } from "@/lib/booking-state-machine";
 import { paymentsTable } from "@/db/schema/payments-schema";
 import { thingsTable } from "@/db/schema/things-schema";
 import { eq } from "drizzle-orm";
 import { stripe } from "@/lib/stripe";
 import { calculateFees } from "@/lib/fees";
+import { normalizeCurrency, toMinorUnits } from "@/lib/payments/currency";
 import { sendEmail } from "@/lib/sendgrid/email-service";
+import { thingNegotiationService, NegotiationError } from "@/lib/things/negotiation-service";
+import { thingOrderService, OrderError } from "@/lib/things/order-service";
 
 /**
  * Thing Purchase API
- * POST /api/things/[id]/purchase - Direct purchase (buy now)
+ * POST /api/things/[id]/purchase - Direct purchase (buy now), or checkout of
+ * an accepted offer at the agreed price when `negotiationId` is given
+ *
+ * Payment is taken by the platform and held in escrow on a thing order until
+ * the buyer has the item; see lib/things/order-service.ts
  */
 
 // Purchase schema
@@ -34,6 +42,7 @@ const purchaseSchema = z.object({
     notes: z.string().optional(),
   }).optional(),
   buyerNotes: z.string().max(500).optional(),
+  negotiationId: z.string().uuid().optional(),
 }).refine(data => {
   // If delivery method is shipping, address is required
   if (data.deliveryMethod === "shipping" && !data.shippingAddress) {
@@ -75,7 +84,12 @@ async function handlePurchaseThing(req: NextRequest, context: { userId?: string
       return createApiError("Thing not found", { status: 404 });
     }
     
-    if (thing.status !== "active") {
+    // An accepted offer holds the item for this buyer at the agreed price
+    const acceptedOffer = body.negotiationId
+      ? await thingNegotiationService.resolveCheckout(thingId, body.negotiationId, userId)
+      : null;
+    
+    if (acceptedOffer ? thing.status !== "reserved" : thing.status !== "active") {
       return createApiError("This item is no longer available for purchase", { 
         status: 400,
         code: "ITEM_NOT_AVAILABLE"
@@ -126,8 +140,11 @@ async function handlePurchaseThing(req: NextRequest, context: { userId?: string
       });
     }
     
+    // The seller's provider record receives the payout once escrow is released
+    const sellerProviderId = await thingOrderService.resolvePayoutAccount(thing.sellerId);
+    
     // Calculate total amount (item price + shipping if applicable)
-    const itemPrice = Number(thing.price);
+    const itemPrice = acceptedOffer ? acceptedOffer.amount : Number(thing.price);
     const shippingCost = body.deliveryMethod === "shipping" && thing.shippingCost 
       ? Number(thing.shippingCost) 
       : 0;
@@ -135,6 +152,7 @@ async function handlePurchaseThing(req: NextRequest, context: { userId?: string
     
     // Calculate platform fees (10% commission)
     const fees = calculateFees(subtotal, false); // Not a guest purchase
+    const currency = normalizeCurrency(thing.currency);
     
     // Reserve the item immediately
     await reserveThing(thingId);
@@ -142,8 +160,8 @@ async function handlePurchaseThing(req: NextRequest, context: { userId?: string
     try {
       // Create Stripe payment intent
       const paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(fees.totalAmount * 100), // Convert to cents
-        currency: thing.currency || 'usd',
+        amount: toMinorUnits(fees.totalAmount, currency),
+        currency,
         metadata: {
           type: 'thing_purchase',
           thingId: thingId,
@@ -153,6 +171,7 @@ async function handlePurchaseThing(req: NextRequest, context: { userId?: string
           shippingCost: shippingCost.toString(),
           platformFee: fees.platformFee.toString(),
           providerPayout: fees.providerPayout.toString(),
+          negotiationId: body.negotiationId || "",
         },
         automatic_payment_methods: {
           enabled: true,
@@ -165,9 +184,9 @@ async function handlePurchaseThing(req: NextRequest, context: { userId?: string
         .insert(bookingsTable)
         .values({
           customerId: userId,
-          providerId: thing.sellerId,
+          providerId: sellerProviderId,
           bookingType: 'service', // Using 'service' for marketplace purchases
-          status: 'PAYMENT_PENDING',
+          ...initialBookingState(BookingStates.HOLD), // Item held until the payment webhook confirms
           
           // Required booking fields
           serviceName: thing.title,
@@ -196,21 +215,43 @@ async function handlePurchaseThing(req: NextRequest, context: { userId?: string
             buyerNotes: body.buyerNotes,
             itemPrice: itemPrice,
             shippingCost: shippingCost,
+            negotiationId: body.negotiationId,
             purchaseType: 'marketplace_thing',
           },
         })
         .returning();
       
+      if (acceptedOffer) {
+        await thingNegotiationService.completeCheckout(acceptedOffer.negotiation.id, booking.id);
+      }
+      
+      // Escrowed order, paid by the payment_intent.succeeded webhook
+      const order = await thingOrderService.createForPurchase({
+        thingId,
+        bookingId: booking.id,
+        buyerId: userId,
+        sellerId: thing.sellerId,
+        providerId: sellerProviderId,
+        deliveryMethod: body.deliveryMethod,
+        shippingAddress: body.shippingAddress,
+        itemPrice: itemPrice.toFixed(2),
+        shippingCost: shippingCost.toFixed(2),
+        platformFee: fees.platformFee.toFixed(2),
+        totalAmount: fees.totalAmount.toFixed(2),
+        currency,
+        stripePaymentIntentId: paymentIntent.id,
+      });
+      
       // Create payment record
       await db
         .insert(paymentsTable)
         .values({
           bookingId: booking.id,
           userId: userId,
-          amountCents: Math.round(fees.totalAmount * 100),
-          currency: thing.currency || 'usd',
-          platformFeeCents: Math.round(fees.platformFee * 100),
-          providerPayoutCents: Math.round(fees.providerPayout * 100),
+          amountCents: toMinorUnits(fees.totalAmount, currency),
+          currency,
+          platformFeeCents: toMinorUnits(fees.platformFee, currency),
+          providerPayoutCents: toMinorUnits(fees.providerPayout, currency),
           status: 'pending',
           stripePaymentIntentId: paymentIntent.id,
         });
@@ -243,7 +284,9 @@ async function handlePurchaseThing(req: NextRequest, context: { userId?: string
           ` : ''}
           ${body.buyerNotes ? `<p><strong>Buyer Notes:</strong> ${body.buyerNotes}</p>` : ''}
           <hr>
-          <p>The payment is being processed. You'll receive your payout once the transaction is complete.</p>
+          <p>The payment is being processed and will be held until the buyer has the item.
+          ${body.deliveryMethod === 'shipping' ? 'Once it clears, ship the item and add the tracking number to the order.' : ''}
+          Your payout is released after the buyer confirms receipt and the return window closes.</p>
         `;
         
         try {
@@ -260,6 +303,10 @@ async function handlePurchaseThing(req: NextRequest, context: { userId?: string
       
       return createApiResponse(
         { 
+          order: {
+            id: order.id,
+            status: order.status,
+          },
           booking: {
             id: booking.id,
             status: booking.status,
@@ -287,11 +334,11 @@ async function handlePurchaseThing(req: NextRequest, context: { userId?: string
       );
       
     } catch (error) {
-      // If payment setup fails, unreserve the item
+      // If payment setup fails, unreserve the item (an accepted offer keeps its hold)
       await db
         .update(thingsTable)
         .set({ 
-          status: "active",
+          status: acceptedOffer ? "reserved" : "active",
           updatedAt: new Date()
         })
         .where(eq(thingsTable.id, thingId));
@@ -300,6 +347,10 @@ async function handlePurchaseThing(req: NextRequest, context: { userId?: string
     }
     
   } catch (error) {
+    if (error instanceof NegotiationError || error instanceof OrderError) {
+      return createApiError(error.message, { status: error.status, code: error.code });
+    }
+    
     console.error("Error processing purchase:", error);
     return createApiError("Failed to process purchase", { 
       status: 500,
@@ -0,0 +1,131 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { createSecureApiHandler, createApiResponse, createApiError, getValidatedBody, type ApiContext } from "@/lib/security/api-handler";
+import { thingOrderService, OrderError } from "@/lib/things/order-service";
+import type { ThingOrder } from "@/db/schema";
+
+/**
+ * Thing Order API
+ * GET /api/things/orders/[orderId] - An escrowed marketplace order
+ * POST /api/things/orders/[orderId] - Ship (seller), confirm delivery or request a
+ * return (buyer), resolve a return (seller)
+ */
+
+const orderActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("ship"),
+    carrier: z.enum(["usps", "ups", "fedex", "dhl", "other"]),
+    trackingNumber: z.string().trim().min(4).max(64),
+    trackingUrl: z.string().url().optional(),
+  }),
+  z.object({ action: z.literal("confirm_delivery") }),
+  z.object({ action: z.literal("request_return"), reason: z.string().min(10).max(1000) }),
+  z.object({
+    action: z.literal("resolve_return"),
+    approve: z.boolean(),
+    note: z.string().max(1000).optional(),
+  }),
+]);
+
+type OrderActionBody = z.infer<typeof orderActionSchema>;
+
+const ACTION_MESSAGES: Record<OrderActionBody["action"], string> = {
+  ship: "Tracking added. The buyer has been notified.",
+  confirm_delivery: "Delivery confirmed. Thanks for letting us know.",
+  request_return: "Return requested. The seller has been notified.",
+  resolve_return: "Return resolved",
+};
+
+function orderError(error: OrderError) {
+  return createApiError(error.message, { status: error.status, code: error.code });
+}
+
+/**
+ * GET handler - Get an order
+ */
+async function handleGetOrder(req: NextRequest, context: ApiContext) {
+  try {
+    const { userId } = context;
+    const { orderId } = context.params as { orderId: string };
+
+    const order = await thingOrderService.getOrder(orderId, userId!);
+
+    return createApiResponse({ order });
+  } catch (error) {
+    if (error instanceof OrderError) {
+      return orderError(error);
+    }
+
+    console.error("Error getting order:", error);
+    return createApiError("Failed to get order", {
+      status: 500,
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+}
+
+/**
+ * POST handler - Move an order along
+ */
+async function handleOrderAction(req: NextRequest, context: ApiContext) {
+  try {
+    const { userId } = context;
+    const { orderId } = context.params as { orderId: string };
+    const body = getValidatedBody<OrderActionBody>(req);
+
+    if (!body) {
+      return createApiError("Invalid request body", { status: 400 });
+    }
+
+    let order: ThingOrder;
+    switch (body.action) {
+      case "ship":
+        order = await thingOrderService.markShipped(orderId, userId!, body);
+        break;
+      case "confirm_delivery":
+        order = await thingOrderService.confirmDelivery(orderId, userId!);
+        break;
+      case "request_return":
+        order = await thingOrderService.requestReturn(orderId, userId!, body.reason);
+        break;
+      case "resolve_return":
+        order = await thingOrderService.resolveReturn(orderId, userId!, body);
+        break;
+    }
+
+    return createApiResponse({ order }, { message: ACTION_MESSAGES[body.action] });
+  } catch (error) {
+    if (error instanceof OrderError) {
+      return orderError(error);
+    }
+
+    console.error("Error updating order:", error);
+    return createApiError("Failed to update order", {
+      status: 500,
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+}
+
+// GET: Protected endpoint for an order
+export const GET = createSecureApiHandler(
+  handleGetOrder,
+  {
+    requireAuth: true,
+    rateLimit: { requests: 60, window: '1m' },
+    auditLog: false,
+    allowedMethods: ['GET'],
+  }
+);
+
+// POST: Protected endpoint for order actions
+export const POST = createSecureApiHandler(
+  handleOrderAction,
+  {
+    requireAuth: true,
+    validateBody: orderActionSchema,
+    rateLimit: { requests: 20, window: '1m' },
+    auditLog: true,
+    allowedMethods: ['POST'],
+  }
+);
@@ -0,0 +1,43 @@
+import { NextRequest } from "next/server";
+import { createSecureApiHandler, createApiResponse, createApiError, type ApiContext } from "@/lib/security/api-handler";
+import { thingOrderService, type OrderRole } from "@/lib/things/order-service";
+
+/**
+ * Thing Orders API
+ * GET /api/things/orders - The user's marketplace orders (?role=buyer for purchases, ?role=seller for sales)
+ */
+
+/**
+ * GET handler - List orders
+ */
+async function handleListOrders(req: NextRequest, context: ApiContext) {
+  try {
+    const { userId } = context;
+    const role = req.nextUrl.searchParams.get("role");
+
+    if (role && role !== "buyer" && role !== "seller") {
+      return createApiError("role must be buyer or seller", { status: 400 });
+    }
+
+    const orders = await thingOrderService.listForUser(userId!, (role as OrderRole | null) || undefined);
+
+    return createApiResponse({ orders });
+  } catch (error) {
+    console.error("Error listing orders:", error);
+    return createApiError("Failed to list orders", {
+      status: 500,
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+}
+
+// GET: Protected endpoint for listing orders
+export const GET = createSecureApiHandler(
+  handleListOrders,
+  {
+    requireAuth: true,
+    rateLimit: { requests: 60, window: '1m' },
+    auditLog: false,
+    allowedMethods: ['GET'],
+  }
+);
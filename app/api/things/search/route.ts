@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { searchThings } from "@/db/queries/things-queries";
 import { z } from "zod";
 import { createSecureApiHandler, createApiResponse, createApiError, getValidatedQuery } from "@/lib/security/api-handler";
+import { SUPPORTED_CURRENCIES } from "@/lib/payments/currency";
+import { fxRateService, toDisplayPrice } from "@/lib/payments/fx-rates";
 
 /**
  * Things Search API
@@ -45,6 +47,10 @@ const searchSchema = z.object({
   maxPrice: z.coerce.number().min(0).optional(),
   negotiable: z.coerce.boolean().optional(),
   
+  // Display currency; prices are converted for display only and filters
+  // still apply to each listing's own currency
+  currency: z.string().toLowerCase().pipe(z.enum(SUPPORTED_CURRENCIES)).optional(),
+  
   // Location
   city: z.string().optional(),
   state: z.string().optional(),
@@ -179,6 +185,8 @@ async function handleSearchThings(req: NextRequest) {
     const totalPages = Math.ceil(result.total / query.limit);
     const currentPage = Math.floor(query.offset / query.limit) + 1;
     
+    const rates = query.currency ? await fxRateService.getRateTable() : null;
+    
     // Transform and filter results
     let transformedThings = result.things.map(thing => ({
       id: thing.id,
@@ -193,6 +201,7 @@ async function handleSearchThings(req: NextRequest) {
       originalPrice: thing.originalPrice ? Number(thing.originalPrice) : null,
       negotiable: thing.negotiable,
       currency: thing.currency,
+      displayPrice: rates ? toDisplayPrice(Number(thing.price), thing.currency, query.currency, rates) : undefined,
       images: thing.images,
       thumbnailUrl: thing.thumbnailUrl,
       videoUrl: thing.videoUrl,
@@ -280,6 +289,7 @@ async function handleSearchThings(req: NextRequest) {
           },
         },
         sortedBy: query.sortBy,
+        displayCurrency: query.currency,
       },
     });
     
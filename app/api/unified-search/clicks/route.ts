@@ -0,0 +1,54 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { createSecureApiHandler, createApiResponse, createApiError, getValidatedBody } from "@/lib/security/api-handler";
+import { searchAnalyticsService } from "@/lib/search/search-analytics";
+
+/**
+ * Search Click API
+ * POST /api/unified-search/clicks - Record a click on a listing shown for a
+ * logged search, for click-through reports and booking attribution
+ */
+
+const clickSchema = z.object({
+  searchId: z.string().uuid(),
+  listingId: z.string().uuid(),
+});
+
+/**
+ * POST handler - Record the click
+ */
+async function handleClick(req: NextRequest) {
+  try {
+    const body = getValidatedBody<z.infer<typeof clickSchema>>(req);
+
+    if (!body) {
+      return createApiError("Invalid request body", { status: 400 });
+    }
+
+    const recorded = await searchAnalyticsService.recordClick(body.searchId, body.listingId);
+
+    if (!recorded) {
+      return createApiError("Listing wasn't shown for this search", { status: 404 });
+    }
+
+    return createApiResponse({ recorded });
+  } catch (error) {
+    console.error("Error recording search click:", error);
+    return createApiError("Failed to record click", {
+      status: 500,
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+}
+
+// POST: Public endpoint, sent when a search result is opened
+export const POST = createSecureApiHandler(
+  handleClick,
+  {
+    requireAuth: false,
+    validateBody: clickSchema,
+    rateLimit: { requests: 100, window: '1m' },
+    auditLog: false,
+    allowedMethods: ['POST'],
+  }
+);
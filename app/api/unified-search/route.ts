@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/db/db";
+import { categoriesTable } from "@/db/schema/categories-schema";
+import { createSecureApiHandler, createApiResponse, createApiError, getValidatedQuery } from "@/lib/security/api-handler";
+import { SUPPORTED_CURRENCIES } from "@/lib/payments/currency";
+import {
+  unifiedSearch,
+  UNIFIED_SEARCH_VERTICALS,
+  UNIFIED_SORT_OPTIONS,
+} from "@/lib/search/unified-search";
+import { logSearch } from "@/lib/search/autocomplete";
+import { searchAnalyticsService } from "@/lib/search/search-analytics";
+import { assignWeightSet, RANKING_WEIGHT_SETS } from "@/lib/search/ranking-experiments";
+
+/**
+ * Unified Search API
+ * GET /api/unified-search - Search services, events, spaces and things at once
+ *
+ * Searches with a query are logged with the listings they show; the response's
+ * searchId is passed back for later pages and with clicks
+ */
+
+// Filter switches only narrow the search; "false" is the same as leaving them out
+const onlyFlag = z.stringbool().optional().transform(value => value || undefined);
+
+const commaList = z.string().optional().transform(val => val ? val.split(',').map(v => v.trim()).filter(Boolean) : undefined);
+
+const searchSchema = z.object({
+  q: z.string().max(200).optional(),
+  verticals: commaList.pipe(z.array(z.enum(UNIFIED_SEARCH_VERTICALS)).optional()),
+  category: z.string().optional(),
+
+  // Price, in each listing's own currency
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  currency: z.string().toLowerCase().pipe(z.enum(SUPPORTED_CURRENCIES)).optional(),
+
+  // Location
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional(),
+  radius: z.coerce.number().min(1).max(500).default(10), // Miles
+
+  // Provider filters
+  minRating: z.coerce.number().min(0).max(5).optional(),
+  providerVerified: onlyFlag,
+  instantBooking: onlyFlag,
+
+  // Services and spaces with an open slot then, in their local time
+  availableDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+  availableTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:mm").optional(),
+
+  // Event filters
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  isOnline: onlyFlag,
+  hasSpots: onlyFlag,
+
+  // Space filters
+  minCapacity: z.coerce.number().min(1).optional(),
+  maxCapacity: z.coerce.number().min(1).optional(),
+  minSize: z.coerce.number().min(1).optional(),
+  maxSize: z.coerce.number().min(1).optional(),
+  amenities: commaList,
+  priceUnit: z.enum(["hour", "day", "week", "month"]).optional(),
+
+  // Thing filters
+  condition: z.enum(["new", "like_new", "excellent", "good", "fair", "for_parts"]).optional(),
+  brand: z.string().optional(),
+  negotiable: onlyFlag,
+  shippingAvailable: onlyFlag,
+  localPickupOnly: onlyFlag,
+
+  // Sort and pagination
+  sortBy: z.enum(UNIFIED_SORT_OPTIONS).default("relevance"),
+  page: z.coerce.number().min(1).default(1),
+  pageSize: z.coerce.number().min(1).max(50).default(20),
+  searchId: z.string().uuid().optional(), // Logged first page, for later pages' impressions
+});
+
+/**
+ * GET handler - Blended search across all verticals
+ */
+async function handleUnifiedSearch(req: NextRequest) {
+  try {
+    const query = getValidatedQuery<z.infer<typeof searchSchema>>(req);
+
+    if (!query) {
+      return createApiError("Invalid search parameters", { status: 400 });
+    }
+
+    const { userId } = await auth();
+    const weightSet = assignWeightSet(userId);
+
+    const [search, categories] = await Promise.all([
+      unifiedSearch({
+        query: query.q || undefined,
+        verticals: query.verticals,
+        category: query.category,
+        minPrice: query.minPrice,
+        maxPrice: query.maxPrice,
+        location: query.lat !== undefined && query.lng !== undefined
+          ? { lat: query.lat, lng: query.lng, radiusMiles: query.radius }
+          : undefined,
+        minRating: query.minRating || undefined,
+        availability: query.availableDate
+          ? { date: query.availableDate, time: query.availableTime }
+          : undefined,
+        providerVerified: query.providerVerified,
+        instantBooking: query.instantBooking,
+        events: {
+          startDate: query.startDate,
+          endDate: query.endDate,
+          isOnline: query.isOnline,
+          hasSpots: query.hasSpots,
+        },
+        spaces: {
+          minCapacity: query.minCapacity,
+          maxCapacity: query.maxCapacity,
+          minSize: query.minSize,
+          maxSize: query.maxSize,
+          amenities: query.amenities,
+          priceUnit: query.priceUnit,
+        },
+        things: {
+          condition: query.condition,
+          brand: query.brand,
+          negotiable: query.negotiable,
+          shippingAvailable: query.shippingAvailable,
+          localPickupOnly: query.localPickupOnly,
+        },
+        currency: query.currency,
+        rankingWeights: RANKING_WEIGHT_SETS[weightSet],
+        sortBy: query.sortBy,
+        page: query.page,
+        pageSize: query.pageSize,
+      }),
+      db
+        .select({
+          id: categoriesTable.id,
+          name: categoriesTable.name,
+          slug: categoriesTable.slug,
+          icon: categoriesTable.icon,
+          color: categoriesTable.color,
+          parentId: categoriesTable.parentId,
+        })
+        .from(categoriesTable)
+        .where(eq(categoriesTable.isActive, true))
+        .orderBy(categoriesTable.sortOrder),
+    ]);
+
+    // Weights autocomplete by popularity and feeds search analytics; later
+    // pages repeat the same search
+    const { impressions, ...results } = search;
+    let searchId = query.page > 1 ? query.searchId ?? null : null;
+
+    if (query.q && query.page === 1) {
+      searchId = await logSearch({
+        query: query.q,
+        vertical: query.verticals?.length === 1 ? query.verticals[0] : null,
+        resultCount: search.pagination.total,
+        userId,
+        weightSet,
+        sortBy: query.sortBy,
+      });
+    }
+
+    if (searchId) {
+      await searchAnalyticsService.recordImpressions(searchId, impressions);
+    }
+
+    return createApiResponse({
+      ...results,
+      searchId,
+      categories,
+      search: {
+        query: query.q,
+        verticals: query.verticals ?? UNIFIED_SEARCH_VERTICALS,
+        sortedBy: query.sortBy,
+        displayCurrency: query.currency,
+      },
+    });
+
+  } catch (error) {
+    console.error("Error in unified search:", error);
+    return createApiError("Search failed", {
+      status: 500,
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+}
+
+// GET: Public endpoint for unified search
+export const GET = createSecureApiHandler(
+  handleUnifiedSearch,
+  {
+    requireAuth: false,
+    validateQuery: searchSchema,
+    rateLimit: { requests: 100, window: '1m' },
+    auditLog: false,
+    allowedMethods: ['GET'],
+  }
+);
+
+// Health check
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
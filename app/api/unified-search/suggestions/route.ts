@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSecureApiHandler, createApiResponse, createApiError, getValidatedQuery } from "@/lib/security/api-handler";
+import { UNIFIED_SEARCH_VERTICALS } from "@/lib/search/unified-search";
+import { getSuggestions, MAX_SUGGESTION_LIMIT } from "@/lib/search/autocomplete";
+
+/**
+ * Search Suggestions API
+ * GET /api/unified-search/suggestions - Autocomplete for the search bar;
+ * without a query, the most searched terms
+ */
+
+const suggestionsSchema = z.object({
+  q: z.string().max(100).default(""),
+  vertical: z.enum(UNIFIED_SEARCH_VERTICALS).optional(),
+  limit: z.coerce.number().min(1).max(MAX_SUGGESTION_LIMIT).optional(),
+});
+
+/**
+ * GET handler - Suggestions for a partly typed query
+ */
+async function handleSuggestions(req: NextRequest) {
+  try {
+    const query = getValidatedQuery<z.infer<typeof suggestionsSchema>>(req);
+
+    if (!query) {
+      return createApiError("Invalid suggestion parameters", { status: 400 });
+    }
+
+    const result = await getSuggestions(query.q, {
+      vertical: query.vertical,
+      limit: query.limit,
+    });
+
+    return createApiResponse(result);
+
+  } catch (error) {
+    console.error("Error fetching search suggestions:", error);
+    return createApiError("Failed to fetch suggestions", {
+      status: 500,
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+}
+
+// GET: Public endpoint, called on every keystroke (debounced)
+export const GET = createSecureApiHandler(
+  handleSuggestions,
+  {
+    requireAuth: false,
+    validateQuery: suggestionsSchema,
+    rateLimit: { requests: 300, window: '1m' },
+    auditLog: false,
+    allowedMethods: ['GET'],
+  }
+);
+
+// Health check
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { waitlistService, WaitlistError } from "@/lib/waitlist";
+
+/**
+ * POST /api/waitlist/[entryId]/claim
+ * Accept a waitlist offer
+ *
+ * Returns the hold to pass as `holdId` to POST /api/bookings (or to the
+ * event attend / space book route for those waitlists); the spot
+ * stays reserved until `expiresAt`, after which the cron offers it to the
+ * next customer.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { entryId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { entry, holdId, expiresAt } = await waitlistService.claim(params.entryId, userId);
+
+    return NextResponse.json({
+      success: true,
+      entry,
+      hold: {
+        holdId,
+        expiresAt: expiresAt.toISOString(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof WaitlistError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error claiming waitlist offer:", error);
+    return NextResponse.json(
+      { error: "Failed to claim waitlist offer" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { waitlistService, WaitlistError } from "@/lib/waitlist";
+
+/**
+ * DELETE /api/waitlist/[entryId]
+ * Leave the waitlist; an open offer is passed on to the next customer
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { entryId: string } }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const entry = await waitlistService.leave(params.entryId, userId);
+
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    if (error instanceof WaitlistError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error leaving waitlist:", error);
+    return NextResponse.json(
+      { error: "Failed to leave waitlist" },
+      { status: 500 }
+    );
+  }
+}
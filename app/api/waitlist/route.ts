@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { waitlistService, WaitlistError } from "@/lib/waitlist";
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:mm");
+
+const joinWaitlistSchema = z.object({
+  targetType: z.enum(["service", "event", "space"]),
+  providerId: z.string().uuid().optional(),
+  serviceId: z.string().uuid().optional(),
+  eventId: z.string().uuid().optional(),
+  spaceId: z.string().uuid().optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+  startTime: timeSchema.optional(),
+  endTime: timeSchema.optional(),
+  partySize: z.number().int().min(1).max(20).optional(),
+  notes: z.string().max(500).optional(),
+});
+
+/**
+ * GET /api/waitlist
+ * List the current customer's waitlist entries with queue positions
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const entries = await waitlistService.listForCustomer(userId);
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error("Error fetching waitlist entries:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch waitlist entries" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/waitlist
+ * Join the waitlist for a fully booked service slot, event or space
+ *
+ * Slot and space targets take a provider-local `date` with `startTime`/`endTime`;
+ * event targets only need `eventId`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = joinWaitlistSchema.parse(body);
+
+    const { entry, position } = await waitlistService.join({
+      customerId: userId,
+      ...validatedData,
+    });
+
+    return NextResponse.json({ entry, position }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof WaitlistError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error joining waitlist:", error);
+    return NextResponse.json(
+      { error: "Failed to join waitlist" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { auth } from '@clerk/nextjs/server';
+import { redirect } from 'next/navigation';
+import { getProviderByUserId } from '@/db/queries/providers-queries';
+import { DisputeCenter } from '@/components/provider/disputes/dispute-center';
+
+/**
+ * Provider Dispute Center Page
+ *
+ * Features:
+ * - Open chargebacks with their evidence deadlines
+ * - Evidence auto-assembled from the booking, messages and history
+ * - Provider statements and supporting file uploads
+ * - One-click submission to Stripe
+ */
+
+interface DisputesPageProps {
+  searchParams: { dispute?: string };
+}
+
+export default async function DisputesPage({ searchParams }: DisputesPageProps) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect('/sign-in');
+  }
+
+  const provider = await getProviderByUserId(userId);
+
+  if (!provider) {
+    redirect('/become-a-provider');
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl">
+      {/* Page Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight text-gray-900 dark:text-gray-100">
+          Dispute Center
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Respond to chargebacks before the card issuer&apos;s deadline.
+        </p>
+      </div>
+
+      <DisputeCenter initialDisputeId={searchParams.dispute} />
+    </div>
+  );
+}
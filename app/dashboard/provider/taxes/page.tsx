@@ -0,0 +1,121 @@
+import { auth } from '@clerk/nextjs/server';
+import { redirect } from 'next/navigation';
+import { getProviderByUserId } from '@/db/queries/providers-queries';
+import { taxService, quarterRange } from '@/lib/payments/tax-service';
+import { formatAmount } from '@/lib/payments/currency';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+/**
+ * Provider Tax Summary Page
+ *
+ * Features:
+ * - Tax collected this quarter, by jurisdiction and rate
+ * - Refunded tax netted out of what is owed
+ * - CSV export for filing
+ */
+
+export default async function TaxesPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect('/sign-in');
+  }
+
+  const provider = await getProviderByUserId(userId);
+
+  if (!provider) {
+    redirect('/become-a-provider');
+  }
+
+  const { from, to } = quarterRange(new Date());
+  const summary = await taxService.getProviderTaxSummary(userId, from, to);
+  const lastDay = new Date(to.getTime() - 24 * 60 * 60 * 1000);
+  const periodLabel = `${from.toISOString().slice(0, 10)} – ${lastDay.toISOString().slice(0, 10)}`;
+  const csvHref = `/api/providers/tax-summary?format=csv&from=${from.toISOString().slice(0, 10)}&to=${to.toISOString().slice(0, 10)}`;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl">
+      {/* Page Header */}
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-gray-900 dark:text-gray-100">
+            Tax Summary
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Sales tax, VAT and GST collected on your bookings for {periodLabel}. Rates as of {summary.ratesAsOf}.
+          </p>
+        </div>
+        <Button asChild variant="outline">
+          <a href={csvHref}>Download CSV</a>
+        </Button>
+      </div>
+
+      {summary.totals.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-3 mb-8">
+          {summary.totals.map(total => (
+            <Card key={total.currency}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-gray-600">
+                  Net tax owed ({total.currency.toUpperCase()})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatAmount(total.netTax, total.currency)}</div>
+                <p className="text-xs text-gray-500 mt-1">
+                  on {formatAmount(total.taxableAmount, total.currency)} of taxable sales
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          {summary.lines.length === 0 ? (
+            <p className="text-sm text-gray-500">No tax was collected on your bookings this quarter.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Jurisdiction</TableHead>
+                  <TableHead>Rate</TableHead>
+                  <TableHead className="text-right">Bookings</TableHead>
+                  <TableHead className="text-right">Taxable</TableHead>
+                  <TableHead className="text-right">Collected</TableHead>
+                  <TableHead className="text-right">Refunded</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.lines.map(line => (
+                  <TableRow key={`${line.jurisdictionCode}-${line.rate}-${line.currency}`}>
+                    <TableCell>
+                      <div className="font-medium">{line.jurisdictionName}</div>
+                      <div className="text-xs text-gray-500">{line.jurisdictionCode}</div>
+                    </TableCell>
+                    <TableCell>{parseFloat((line.rate * 100).toFixed(4))}%</TableCell>
+                    <TableCell className="text-right">{line.bookings}</TableCell>
+                    <TableCell className="text-right">{formatAmount(line.taxableAmount, line.currency)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(line.taxCollected, line.currency)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(line.taxRefunded, line.currency)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatAmount(line.netTax, line.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
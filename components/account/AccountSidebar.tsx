@@ -16,6 +16,7 @@ import {
   Wallet,
   History,
   CreditCard,
+  Search,
 } from "lucide-react";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
@@ -63,6 +64,13 @@ export function AccountSidebar({
       current: pathname === "/account/favorites",
       description: "Your saved items",
     },
+    {
+      name: "Saved Searches",
+      href: "/account/saved-searches",
+      icon: Search,
+      current: pathname === "/account/saved-searches",
+      description: "Alerts for new listings",
+    },
     {
       name: "Loyalty Points",
       href: "/account/loyalty",
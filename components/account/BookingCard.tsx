@@ -146,7 +146,7 @@ export function BookingCard({ booking, showActions = true }: BookingCardProps) {
                 </>
               )}
               
-              {(booking.status === "pending" || booking.status === "confirmed") && (
+              {(booking.status === "pending_provider" || booking.status === "confirmed") && (
                 <DropdownMenuItem>
                   <MessageSquare className="mr-2 h-4 w-4" />
                   Contact Provider
@@ -155,7 +155,7 @@ export function BookingCard({ booking, showActions = true }: BookingCardProps) {
               
               <DropdownMenuSeparator />
               
-              {booking.status === "pending" && (
+              {booking.status === "pending_provider" && (
                 <DropdownMenuItem className="text-red-600">
                   Cancel Booking
                 </DropdownMenuItem>
@@ -32,14 +32,16 @@ interface BookingCardProps {
 export function BookingCard({ booking, onSelect, onCancel }: BookingCardProps) {
   const getStatusColor = (status: Booking['status']) => {
     switch (status) {
-      case 'pending':
+      case 'hold':
+      case 'pending_provider':
         return 'bg-yellow-100 text-yellow-800';
       case 'confirmed':
+      case 'in_progress':
         return 'bg-blue-100 text-blue-800';
       case 'completed':
         return 'bg-green-100 text-green-800';
-      case 'cancelled':
-      case 'rejected':
+      case 'canceled_customer':
+      case 'canceled_provider':
         return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
@@ -48,18 +50,22 @@ export function BookingCard({ booking, onSelect, onCancel }: BookingCardProps) {
 
   const getStatusText = (status: Booking['status']) => {
     switch (status) {
-      case 'pending':
+      case 'hold':
+        return 'Awaiting Payment';
+      case 'pending_provider':
         return 'Pending';
       case 'confirmed':
         return 'Confirmed';
+      case 'in_progress':
+        return 'In Progress';
       case 'completed':
         return 'Completed';
-      case 'cancelled':
+      case 'canceled_customer':
         return 'Cancelled';
-      case 'rejected':
-        return 'Rejected';
+      case 'canceled_provider':
+        return 'Declined';
       default:
-        return status;
+        return status.replace(/_/g, ' ');
     }
   };
 
@@ -68,11 +74,11 @@ export function BookingCard({ booking, onSelect, onCancel }: BookingCardProps) {
     const now = new Date();
     const hoursDifference = (bookingDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
     
-    return ['pending', 'confirmed'].includes(booking.status) && hoursDifference > 6; // Can cancel up to 6 hours before
+    return ['pending_provider', 'confirmed'].includes(booking.status) && hoursDifference > 6; // Can cancel up to 6 hours before
   };
 
   const bookingDate = new Date(booking.bookingDate);
-  const isUpcoming = bookingDate >= new Date() && !['cancelled', 'rejected', 'completed'].includes(booking.status);
+  const isUpcoming = bookingDate >= new Date() && ['hold', 'pending_provider', 'confirmed', 'in_progress'].includes(booking.status);
 
   return (
     <Card className={`transition-shadow hover:shadow-md ${isUpcoming ? 'border-blue-200' : ''}`}>
@@ -214,7 +220,7 @@ export function BookingCard({ booking, onSelect, onCancel }: BookingCardProps) {
           </div>
         )}
 
-        {booking.status === 'cancelled' && (
+        {booking.status.startsWith('canceled_') && (
           <div className="mt-4 p-3 bg-red-50 rounded-lg border border-red-200">
             <div className="flex items-center text-red-800">
               <X className="h-4 w-4 mr-2" />
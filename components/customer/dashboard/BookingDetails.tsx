@@ -11,6 +11,9 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { 
   Calendar, 
   Clock, 
@@ -23,31 +26,66 @@ import {
   Star,
   X,
   Download,
-  ExternalLink
+  ExternalLink,
+  CalendarClock,
+  AlertTriangle,
+  Loader2
 } from 'lucide-react';
 import { formatDate, formatTime, formatCurrency } from '@/lib/utils';
 import { Booking } from './BookingHistory';
+import { BookingReviewForm } from './BookingReviewForm';
 
 interface BookingDetailsProps {
   booking: Booking;
   isOpen: boolean;
   onClose: () => void;
   onCancel: () => void;
+  onRescheduled?: (booking: Booking) => void;
 }
 
-export function BookingDetails({ booking, isOpen, onClose, onCancel }: BookingDetailsProps) {
+interface ReschedulePolicy {
+  canReschedule: boolean;
+  reason?: string;
+  deadline: string;
+  cancellationHours: number;
+  requiresApproval: boolean;
+  timezone: string;
+  pendingRequest: {
+    requestedDate: string;
+    requestedStartTime: string;
+  } | null;
+}
+
+interface RescheduleSlot {
+  providerDate: string;
+  providerStartTime: string;
+  providerEndTime: string;
+}
+
+export function BookingDetails({ booking, isOpen, onClose, onCancel, onRescheduled }: BookingDetailsProps) {
   const [loading, setLoading] = useState(false);
+  const [showReschedule, setShowReschedule] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const [reschedulePolicy, setReschedulePolicy] = useState<ReschedulePolicy | null>(null);
+  const [rescheduleDate, setRescheduleDate] = useState('');
+  const [rescheduleSlots, setRescheduleSlots] = useState<RescheduleSlot[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState<RescheduleSlot | null>(null);
+  const [rescheduleLoading, setRescheduleLoading] = useState(false);
+  const [rescheduleError, setRescheduleError] = useState('');
+  const [rescheduleMessage, setRescheduleMessage] = useState('');
 
   const getStatusColor = (status: Booking['status']) => {
     switch (status) {
-      case 'pending':
+      case 'hold':
+      case 'pending_provider':
         return 'bg-yellow-100 text-yellow-800';
       case 'confirmed':
+      case 'in_progress':
         return 'bg-blue-100 text-blue-800';
       case 'completed':
         return 'bg-green-100 text-green-800';
-      case 'cancelled':
-      case 'rejected':
+      case 'canceled_customer':
+      case 'canceled_provider':
         return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
@@ -59,7 +97,7 @@ export function BookingDetails({ booking, isOpen, onClose, onCancel }: BookingDe
     const now = new Date();
     const hoursDifference = (bookingDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
     
-    return ['pending', 'confirmed'].includes(booking.status) && hoursDifference > 6;
+    return ['pending_provider', 'confirmed'].includes(booking.status) && hoursDifference > 6;
   };
 
   const handleDownloadReceipt = async () => {
@@ -87,6 +125,102 @@ export function BookingDetails({ booking, isOpen, onClose, onCancel }: BookingDe
     }
   };
 
+  const openReschedule = async () => {
+    setShowReschedule(true);
+    setRescheduleError('');
+    setRescheduleMessage('');
+
+    try {
+      const response = await fetch(`/api/bookings/${booking.id}/reschedule`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setReschedulePolicy(data);
+      } else {
+        setRescheduleError(data.error || 'Unable to check reschedule options.');
+      }
+    } catch (error) {
+      console.error('Error checking reschedule policy:', error);
+      setRescheduleError('Unable to check reschedule options.');
+    }
+  };
+
+  const fetchRescheduleSlots = async (date: string) => {
+    setRescheduleDate(date);
+    setSelectedSlot(null);
+    setRescheduleSlots([]);
+    if (!date) return;
+
+    try {
+      setRescheduleLoading(true);
+      // Without a timezone the slots come back in the provider's zone, which is what the API expects
+      const response = await fetch(
+        `/api/providers/${booking.providerId}/availability/slots?date=${date}&serviceDuration=${booking.serviceDuration}`
+      );
+      const data = await response.json();
+
+      if (response.ok) {
+        setRescheduleSlots(data.slots?.all || []);
+      } else {
+        setRescheduleError(data.error || 'Unable to load available times.');
+      }
+    } catch (error) {
+      console.error('Error fetching reschedule slots:', error);
+      setRescheduleError('Unable to load available times.');
+    } finally {
+      setRescheduleLoading(false);
+    }
+  };
+
+  const handleReschedule = async () => {
+    if (!selectedSlot) return;
+
+    try {
+      setRescheduleLoading(true);
+      setRescheduleError('');
+
+      const response = await fetch(`/api/bookings/${booking.id}/reschedule`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date: selectedSlot.providerDate,
+          startTime: selectedSlot.providerStartTime,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setRescheduleError(data.error || 'Failed to reschedule booking. Please try again.');
+        return;
+      }
+
+      if (data.pendingApproval) {
+        setRescheduleMessage('Your request has been sent. The provider needs to approve the new time.');
+      } else {
+        setRescheduleMessage('Your booking has been rescheduled.');
+        onRescheduled?.({
+          ...booking,
+          bookingDate: new Date(data.booking.bookingDate),
+          startTime: data.booking.startTime,
+          endTime: data.booking.endTime,
+          servicePrice: data.booking.servicePrice,
+          totalAmount: data.booking.totalAmount,
+          platformFee: data.booking.platformFee,
+          providerPayout: data.booking.providerPayout,
+          updatedAt: new Date(data.booking.updatedAt),
+        });
+      }
+
+      setShowReschedule(false);
+      setSelectedSlot(null);
+    } catch (error) {
+      console.error('Error rescheduling booking:', error);
+      setRescheduleError('Failed to reschedule booking. Please try again.');
+    } finally {
+      setRescheduleLoading(false);
+    }
+  };
+
   const bookingDate = new Date(booking.bookingDate);
 
   return (
@@ -146,6 +280,87 @@ export function BookingDetails({ booking, isOpen, onClose, onCancel }: BookingDe
                 </div>
               </div>
             </div>
+
+            {rescheduleMessage && (
+              <Alert className="mt-3">
+                <CalendarClock className="h-4 w-4" />
+                <AlertDescription>{rescheduleMessage}</AlertDescription>
+              </Alert>
+            )}
+
+            {showReschedule && (
+              <div className="mt-3 border rounded-lg p-4 space-y-4">
+                {reschedulePolicy && (
+                  <p className="text-sm text-gray-600">
+                    {reschedulePolicy.canReschedule
+                      ? `You can reschedule until ${formatDate(new Date(reschedulePolicy.deadline))} (${reschedulePolicy.cancellationHours} hours before your booking).`
+                      : reschedulePolicy.reason}
+                    {reschedulePolicy.canReschedule && reschedulePolicy.requiresApproval &&
+                      ' The provider will need to approve the new time.'}
+                  </p>
+                )}
+
+                {reschedulePolicy?.canReschedule && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="reschedule-date">New date</Label>
+                      <Input
+                        id="reschedule-date"
+                        type="date"
+                        value={rescheduleDate}
+                        min={new Date().toISOString().split('T')[0]}
+                        onChange={(e) => fetchRescheduleSlots(e.target.value)}
+                      />
+                    </div>
+
+                    {rescheduleDate && (
+                      <div className="space-y-2">
+                        <Label>Available times ({reschedulePolicy.timezone})</Label>
+                        {rescheduleLoading && !rescheduleSlots.length ? (
+                          <div className="flex items-center text-sm text-gray-500">
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            Loading times...
+                          </div>
+                        ) : rescheduleSlots.length === 0 ? (
+                          <p className="text-sm text-gray-500">No times available on this date.</p>
+                        ) : (
+                          <div className="grid grid-cols-4 gap-2">
+                            {rescheduleSlots.map((slot) => (
+                              <Button
+                                key={slot.providerStartTime}
+                                size="sm"
+                                variant={selectedSlot?.providerStartTime === slot.providerStartTime ? 'default' : 'outline'}
+                                onClick={() => setSelectedSlot(slot)}
+                              >
+                                {formatTime(slot.providerStartTime)}
+                              </Button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </>
+                )}
+
+                {rescheduleError && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>{rescheduleError}</AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="flex justify-end space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => setShowReschedule(false)}>
+                    Back
+                  </Button>
+                  {reschedulePolicy?.canReschedule && (
+                    <Button size="sm" onClick={handleReschedule} disabled={!selectedSlot || rescheduleLoading}>
+                      {rescheduleLoading && selectedSlot ? 'Rescheduling...' : 'Confirm New Time'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Payment Information */}
@@ -229,6 +444,8 @@ export function BookingDetails({ booking, isOpen, onClose, onCancel }: BookingDe
               </div>
             </div>
           </div>
+
+          {showReview && <BookingReviewForm bookingId={booking.id} />}
         </div>
 
         <DialogFooter className="flex justify-between">
@@ -242,8 +459,8 @@ export function BookingDetails({ booking, isOpen, onClose, onCancel }: BookingDe
               {loading ? 'Downloading...' : 'Receipt'}
             </Button>
             
-            {booking.status === 'completed' && (
-              <Button variant="outline">
+            {booking.status === 'completed' && !showReview && (
+              <Button variant="outline" onClick={() => setShowReview(true)}>
                 <Star className="h-4 w-4 mr-2" />
                 Leave Review
               </Button>
@@ -251,6 +468,16 @@ export function BookingDetails({ booking, isOpen, onClose, onCancel }: BookingDe
           </div>
 
           <div className="flex space-x-2">
+            {['pending_provider', 'confirmed'].includes(booking.status) && !showReschedule && (
+              <Button
+                variant="outline"
+                onClick={openReschedule}
+              >
+                <CalendarClock className="h-4 w-4 mr-2" />
+                Reschedule
+              </Button>
+            )}
+
             {canCancel(booking) && (
               <Button
                 variant="destructive"
@@ -10,6 +10,7 @@ import { BookingCard } from './BookingCard';
 import { BookingDetails } from './BookingDetails';
 import { CancelBookingModal } from './CancelBookingModal';
 import { formatDate, formatTime, formatCurrency } from '@/lib/utils';
+import type { BookingState } from '@/lib/booking-state-machine/states';
 
 export interface Booking {
   id: string;
@@ -22,7 +23,7 @@ export interface Booking {
   bookingDate: Date;
   startTime: string;
   endTime: string;
-  status: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'rejected';
+  status: BookingState;
   totalAmount: string;
   platformFee: string;
   providerPayout: string;
@@ -80,7 +81,7 @@ export function BookingHistory({ customerId, initialBookings = [] }: BookingHist
       case 'upcoming':
         return bookings.filter(booking => 
           new Date(booking.bookingDate) >= now && 
-          !['cancelled', 'rejected', 'completed'].includes(booking.status)
+          ['hold', 'pending_provider', 'confirmed', 'in_progress'].includes(booking.status)
         );
       case 'past':
         return bookings.filter(booking => 
@@ -89,7 +90,7 @@ export function BookingHistory({ customerId, initialBookings = [] }: BookingHist
         );
       case 'cancelled':
         return bookings.filter(booking => 
-          ['cancelled', 'rejected'].includes(booking.status)
+          ['canceled_customer', 'canceled_provider'].includes(booking.status)
         );
       default:
         return bookings;
@@ -117,10 +118,17 @@ export function BookingHistory({ customerId, initialBookings = [] }: BookingHist
     setShowCancelModal(true);
   };
 
+  const handleBookingRescheduled = (updated: Booking) => {
+    setBookings(prev => prev.map(booking =>
+      booking.id === updated.id ? updated : booking
+    ));
+    setSelectedBooking(updated);
+  };
+
   const handleBookingCancelled = (bookingId: string) => {
     setBookings(prev => prev.map(booking => 
       booking.id === bookingId 
-        ? { ...booking, status: 'cancelled' as const }
+        ? { ...booking, status: 'canceled_customer' as const }
         : booking
     ));
     setShowCancelModal(false);
@@ -271,6 +279,7 @@ export function BookingHistory({ customerId, initialBookings = [] }: BookingHist
             setShowDetails(false);
             handleCancelBooking(selectedBooking);
           }}
+          onRescheduled={handleBookingRescheduled}
         />
       )}
 
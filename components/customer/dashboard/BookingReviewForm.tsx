@@ -0,0 +1,234 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Star, EyeOff, ImagePlus, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ReviewView {
+  id: string;
+  rating: number;
+  title: string | null;
+  reviewText: string | null;
+  subRatings: Record<string, number>;
+}
+
+interface BookingReviews {
+  windowClosesAt: string | null;
+  canReview: boolean;
+  dimensions: string[];
+  maxPhotos: number;
+  ownReview: ReviewView | null;
+  counterpartSubmitted: boolean;
+}
+
+interface BookingReviewFormProps {
+  bookingId: string;
+}
+
+const StarInput = ({ value, onChange, size = 'h-6 w-6' }: {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: string;
+}) => (
+  <div className="flex items-center gap-0.5">
+    {[1, 2, 3, 4, 5].map((star) => (
+      <Star
+        key={star}
+        onClick={onChange ? () => onChange(star) : undefined}
+        className={cn(
+          size,
+          onChange && 'cursor-pointer',
+          star <= value ? 'fill-yellow-400 text-yellow-400' : 'fill-gray-200 text-gray-200'
+        )}
+      />
+    ))}
+  </div>
+);
+
+export function BookingReviewForm({ bookingId }: BookingReviewFormProps) {
+  const [reviews, setReviews] = useState<BookingReviews | null>(null);
+  const [rating, setRating] = useState(0);
+  const [subRatings, setSubRatings] = useState<Record<string, number>>({});
+  const [title, setTitle] = useState('');
+  const [reviewText, setReviewText] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const loadReviews = async () => {
+      try {
+        const response = await fetch(`/api/bookings/${bookingId}/reviews`);
+        if (response.ok) {
+          setReviews(await response.json());
+        }
+      } catch (error) {
+        console.error('Error loading booking reviews:', error);
+      }
+    };
+
+    loadReviews();
+  }, [bookingId]);
+
+  const uploadPhotos = async (reviewId: string) => {
+    let failed = 0;
+    for (const photo of photos) {
+      const formData = new FormData();
+      formData.append('file', photo);
+      const response = await fetch(`/api/reviews/${reviewId}/photos`, {
+        method: 'POST',
+        body: formData,
+      });
+      if (!response.ok) {
+        failed++;
+      }
+    }
+    return failed;
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/reviews`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rating,
+          subRatings,
+          title: title || undefined,
+          reviewText: reviewText || undefined,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.error || 'Failed to submit review');
+        return;
+      }
+
+      const failedPhotos = await uploadPhotos(result.review.id);
+
+      setReviews((current) => current && { ...current, canReview: false, ownReview: result.review });
+      setMessage(
+        (result.revealed
+          ? 'Thanks! Your review is now published.'
+          : 'Thanks! Your review is published once the provider reviews you or the review window closes.') +
+        (failedPhotos > 0 ? ` ${failedPhotos} photo(s) could not be uploaded.` : '')
+      );
+    } catch (error) {
+      setError('Failed to submit review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!reviews || !reviews.windowClosesAt) {
+    return null;
+  }
+
+  if (reviews.ownReview) {
+    return (
+      <div className="space-y-2 rounded-lg border p-4">
+        <h4 className="font-medium">Your Review</h4>
+        <StarInput value={reviews.ownReview.rating} size="h-4 w-4" />
+        {reviews.ownReview.title && <p className="font-medium">{reviews.ownReview.title}</p>}
+        {reviews.ownReview.reviewText && <p className="text-sm">{reviews.ownReview.reviewText}</p>}
+        {message && <p className="text-sm text-green-700">{message}</p>}
+      </div>
+    );
+  }
+
+  if (!reviews.canReview) {
+    return (
+      <p className="text-sm text-gray-600">The review window for this booking has closed.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <h4 className="font-medium">Leave a Review</h4>
+
+      {reviews.counterpartSubmitted && (
+        <p className="flex items-center gap-2 text-sm text-gray-600">
+          <EyeOff className="h-4 w-4" />
+          Your provider has reviewed you. Both reviews appear once you submit yours.
+        </p>
+      )}
+
+      <div className="space-y-1">
+        <Label>Overall</Label>
+        <StarInput value={rating} onChange={setRating} />
+      </div>
+
+      {reviews.dimensions.length > 0 && (
+        <div className="grid grid-cols-2 gap-3">
+          {reviews.dimensions.map((dimension) => (
+            <div key={dimension} className="space-y-1">
+              <Label className="capitalize">{dimension}</Label>
+              <StarInput
+                value={subRatings[dimension] ?? 0}
+                onChange={(value) => setSubRatings((current) => ({ ...current, [dimension]: value }))}
+                size="h-5 w-5"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor="review-title">Title</Label>
+        <Input
+          id="review-title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          maxLength={120}
+          placeholder="Sum up your experience (optional)"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="review-text">Review</Label>
+        <Textarea
+          id="review-text"
+          value={reviewText}
+          onChange={(e) => setReviewText(e.target.value)}
+          maxLength={2000}
+          rows={4}
+          placeholder="What went well, and what could be better? (optional)"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="review-photos" className="flex items-center gap-2">
+          <ImagePlus className="h-4 w-4" />
+          Photos (up to {reviews.maxPhotos})
+        </Label>
+        <Input
+          id="review-photos"
+          type="file"
+          accept="image/jpeg,image/png,image/webp,image/gif,image/heic"
+          multiple
+          onChange={(e) => setPhotos(Array.from(e.target.files ?? []).slice(0, reviews.maxPhotos))}
+        />
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button onClick={handleSubmit} disabled={rating === 0 || submitting}>
+        {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Submit Review
+      </Button>
+    </div>
+  );
+}
@@ -1,13 +1,14 @@
 "use client";
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { TrendingUp } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useMarketplaceStore } from '@/lib/stores/marketplace-store';
 import { Badge } from '@/components/ui/badge';
+import type { SuggestionResult } from '@/lib/search/autocomplete';
 
-// Mock popular searches per category (replace with real data)
-const POPULAR_SEARCHES = {
+// Shown until enough searches are logged for a vertical
+const FALLBACK_POPULAR_SEARCHES = {
   events: ['Concert tonight', 'Free events', 'Weekend activities', 'Kids events'],
   services: ['Home cleaning', 'Plumber near me', 'Personal trainer', 'Photographer'],
   spaces: ['Party venue', 'Meeting room', 'Photo studio', 'Event space'],
@@ -17,7 +18,32 @@ const POPULAR_SEARCHES = {
 export default function PopularSearches() {
   const { activeTab, setSearchQuery, getCurrentTheme } = useMarketplaceStore();
   const theme = getCurrentTheme();
-  const searches = POPULAR_SEARCHES[activeTab] || [];
+  const [loggedSearches, setLoggedSearches] = useState<Record<string, string[]>>({});
+  const searches = loggedSearches[activeTab]?.length
+    ? loggedSearches[activeTab]
+    : FALLBACK_POPULAR_SEARCHES[activeTab] || [];
+
+  // Most searched terms for the tab, from the search logs
+  useEffect(() => {
+    if (loggedSearches[activeTab]) return;
+
+    const fetchPopularSearches = async () => {
+      try {
+        const response = await fetch(`/api/unified-search/suggestions?vertical=${activeTab}&limit=4`);
+        if (!response.ok) return;
+
+        const { data }: { data: SuggestionResult } = await response.json();
+        setLoggedSearches(current => ({
+          ...current,
+          [activeTab]: data.suggestions.map(suggestion => suggestion.text),
+        }));
+      } catch (error) {
+        console.error('Failed to fetch popular searches:', error);
+      }
+    };
+
+    fetchPopularSearches();
+  }, [activeTab, loggedSearches]);
   
   const handleSearchClick = (query: string) => {
     setSearchQuery(activeTab, query);
@@ -2,6 +2,7 @@
 
 import React from "react";
 import { cn } from "@/lib/utils";
+import { formatAmount } from "@/lib/payments/currency";
 import Image from "next/image";
 import { 
   Calendar,
@@ -86,26 +87,15 @@ export function EventCard({ listing, view = "grid" }: EventCardProps) {
 
   // Format price
   const formatPrice = () => {
-    const currency = listing.currency || "USD";
+    const { amount: price, currency } = listing.displayPrice ?? { amount: listing.price, currency: listing.currency };
+    const format = (value: number) => formatAmount(value, currency, { wholeUnits: true });
     
-    if (typeof listing.price === "number") {
-      if (listing.price === 0) return "Free";
+    if (typeof price === "number") {
+      if (price === 0) return "Free";
       
-      const formatter = new Intl.NumberFormat("en-US", {
-        style: "currency",
-        currency,
-        minimumFractionDigits: 0,
-        maximumFractionDigits: 0,
-      });
-      return formatter.format(listing.price);
+      return format(price);
     } else {
-      const formatter = new Intl.NumberFormat("en-US", {
-        style: "currency",
-        currency,
-        minimumFractionDigits: 0,
-        maximumFractionDigits: 0,
-      });
-      return `${formatter.format(listing.price.min)} - ${formatter.format(listing.price.max)}`;
+      return `${format(price.min)} - ${format(price.max)}`;
     }
   };
 
@@ -2,6 +2,7 @@
 
 import React from "react";
 import { cn } from "@/lib/utils";
+import { formatAmount } from "@/lib/payments/currency";
 import Image from "next/image";
 import { 
   Star, 
@@ -33,20 +34,15 @@ export function ServiceCard({ listing, view = "grid" }: ServiceCardProps) {
   
   // Format price with unit
   const formatPrice = () => {
-    const currency = listing.currency || "USD";
-    const formatter = new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency,
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 2,
-    });
+    const { amount: price, currency } = listing.displayPrice ?? { amount: listing.price, currency: listing.currency };
+    const format = (value: number) => formatAmount(value, currency, { wholeUnits: Number.isInteger(value) });
 
-    if (typeof listing.price === "number") {
-      const formattedPrice = formatter.format(listing.price);
+    if (typeof price === "number") {
+      const formattedPrice = format(price);
       return listing.priceUnit ? `${formattedPrice}/${listing.priceUnit}` : formattedPrice;
     } else {
-      const min = formatter.format(listing.price.min);
-      const max = formatter.format(listing.price.max);
+      const min = format(price.min);
+      const max = format(price.max);
       return `${min} - ${max}`;
     }
   };
@@ -83,17 +79,21 @@ export function ServiceCard({ listing, view = "grid" }: ServiceCardProps) {
   const formatNextAvailable = () => {
     if (!listing.nextAvailable) return null;
     const date = new Date(listing.nextAvailable);
-    const now = new Date();
-    const diffDays = Math.ceil((date.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-    
-    if (diffDays === 0) return "Today";
-    if (diffDays === 1) return "Tomorrow";
-    if (diffDays < 7) return `In ${diffDays} days`;
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const slotDay = new Date(date);
+    slotDay.setHours(0, 0, 0, 0);
+    const diffDays = Math.round((slotDay.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+    const time = date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+
+    if (diffDays === 0) return `Today, ${time}`;
+    if (diffDays === 1) return `Tomorrow, ${time}`;
     
-    return date.toLocaleDateString("en-US", { 
+    return `${date.toLocaleDateString("en-US", { 
+      weekday: "short",
       month: "short", 
       day: "numeric" 
-    });
+    })}, ${time}`;
   };
 
   if (isListView) {
@@ -207,8 +207,14 @@ export function ServiceCard({ listing, view = "grid" }: ServiceCardProps) {
                   <span>{formatDuration(listing.duration)}</span>
                 </div>
               )}
+              {listing.nextAvailable && listing.availability !== "available" && (
+                <div className="flex items-center gap-1">
+                  <Calendar className="h-3 w-3" />
+                  <span>Next available: {formatNextAvailable()}</span>
+                </div>
+              )}
             </div>
-            
+
             <div className="flex items-center gap-2">
               <div className="text-lg font-bold text-blue-600">
                 {formatPrice()}
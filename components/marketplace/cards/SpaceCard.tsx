@@ -2,6 +2,7 @@
 
 import React from "react";
 import { cn } from "@/lib/utils";
+import { formatAmount } from "@/lib/payments/currency";
 import Image from "next/image";
 import { 
   MapPin,
@@ -52,19 +53,14 @@ export function SpaceCard({ listing, view = "grid" }: SpaceCardProps) {
   
   // Format price with unit
   const formatPrice = () => {
-    const currency = listing.currency || "USD";
-    const formatter = new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency,
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    });
+    const { amount: price, currency } = listing.displayPrice ?? { amount: listing.price, currency: listing.currency };
+    const format = (value: number) => formatAmount(value, currency, { wholeUnits: true });
 
-    if (typeof listing.price === "number") {
-      return `${formatter.format(listing.price)}/${listing.priceUnit}`;
+    if (typeof price === "number") {
+      return `${format(price)}/${listing.priceUnit}`;
     } else {
-      const min = formatter.format(listing.price.min);
-      const max = formatter.format(listing.price.max);
+      const min = format(price.min);
+      const max = format(price.max);
       return `${min}-${max}/${listing.priceUnit}`;
     }
   };
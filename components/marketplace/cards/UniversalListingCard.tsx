@@ -2,6 +2,7 @@
 
 import React, { useState, useCallback } from "react";
 import { cn } from "@/lib/utils";
+import { formatAmount } from "@/lib/payments/currency";
 import { motion, AnimatePresence } from "framer-motion";
 import Image from "next/image";
 import { 
@@ -65,6 +66,11 @@ export interface BaseListingData {
   };
   price: number | { min: number; max: number };
   currency?: string;
+  // Price converted into the shopper's display currency by the search API
+  displayPrice?: {
+    amount: number | { min: number; max: number };
+    currency: string;
+  };
   provider?: {
     id: string;
     name: string;
@@ -121,7 +127,7 @@ export interface SpaceListingData extends BaseListingData {
 
 export interface ThingListingData extends BaseListingData {
   type: "thing";
-  condition?: "new" | "like_new" | "good" | "fair" | "for_parts";
+  condition?: "new" | "like_new" | "excellent" | "good" | "fair" | "for_parts";
   brand?: string;
   model?: string;
   year?: number;
@@ -227,19 +233,14 @@ export function UniversalListingCard({
   }, [listing, onClick]);
 
   // Format price display
-  const formatPrice = (price: number | { min: number; max: number }) => {
-    const currency = listing.currency || "USD";
-    const formatter = new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency,
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    });
+  const formatPrice = () => {
+    const { amount: price, currency } = listing.displayPrice ?? { amount: listing.price, currency: listing.currency };
+    const format = (value: number) => formatAmount(value, currency, { wholeUnits: true });
 
     if (typeof price === "number") {
-      return formatter.format(price);
+      return format(price);
     } else {
-      return `${formatter.format(price.min)} - ${formatter.format(price.max)}`;
+      return `${format(price.min)} - ${format(price.max)}`;
     }
   };
 
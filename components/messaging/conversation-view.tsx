@@ -6,10 +6,19 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { ArrowLeft, Send, MoreVertical } from "lucide-react";
-import { MessageBubble } from "./message-bubble";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ArrowLeft, Send, MoreVertical, Users, Bell, BellOff } from "lucide-react";
+import { MessageBubble, type MessageAttachmentItem } from "./message-bubble";
 import { MessageComposer } from "./message-composer";
 import { formatDistanceToNow } from "date-fns";
+import type { ConversationKind, ConversationParticipantRole, MessageMetadata } from "@/db/schema";
+import { useConversationRealtime } from "@/hooks/use-conversation-realtime";
+import type { ConversationEvent } from "@/lib/messaging/realtime";
 
 interface Message {
   id: string;
@@ -17,6 +26,8 @@ interface Message {
   senderId: string;
   content: string;
   messageType: string;
+  metadata?: MessageMetadata | null;
+  attachments?: MessageAttachmentItem[];
   isRead: boolean;
   readAt?: Date;
   isEdited: boolean;
@@ -30,13 +41,24 @@ interface Message {
   isOwnMessage: boolean;
 }
 
+interface Participant {
+  userId: string;
+  email: string | null;
+  role: ConversationParticipantRole;
+  lastReadMessageId: string | null;
+  lastReadAt: Date | null;
+}
+
 interface Conversation {
   id: string;
-  participantOneId: string;
-  participantTwoId: string;
+  kind: ConversationKind;
+  title?: string | null;
   bookingId?: string;
+  groupBookingId?: string | null;
   lastMessageAt?: Date;
   createdAt: Date;
+  isMuted: boolean;
+  participants: Participant[];
 }
 
 interface ConversationData {
@@ -52,6 +74,26 @@ interface ConversationData {
   conversation: Conversation;
 }
 
+const ROLE_LABELS: Partial<Record<ConversationParticipantRole, string>> = {
+  organizer: "Organizer",
+  provider: "Provider",
+};
+
+/**
+ * Heading for a conversation: a group's title, otherwise the other
+ * participant's email
+ */
+export function getConversationTitle(
+  conversation: { kind: ConversationKind; title?: string | null; participants: { userId: string; email: string | null }[] },
+  currentUserId?: string
+): string {
+  const others = conversation.participants.filter((p) => p.userId !== currentUserId);
+  if (conversation.kind === "group") {
+    return conversation.title || others.map((p) => p.email || "Unknown User").join(", ") || "Group conversation";
+  }
+  return others[0]?.email || "Unknown User";
+}
+
 interface ConversationViewProps {
   conversationId: string;
   onMessageSent?: () => void;
@@ -68,22 +110,19 @@ export function ConversationView({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [sending, setSending] = useState(false);
+  const [sendNotice, setSendNotice] = useState<string | null>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  // Get other participant info
-  const otherParticipant = conversationData?.conversation 
-    ? conversationData.conversation.participantOneId === user?.id
-      ? conversationData.messages[0]?.sender?.userId === conversationData.conversation.participantOneId 
-        ? null 
-        : conversationData.messages.find(m => m.sender.userId === conversationData.conversation.participantTwoId)?.sender
-      : conversationData.messages.find(m => m.sender.userId === conversationData.conversation.participantOneId)?.sender
-    : null;
-
-  // Fetch messages for conversation
-  const fetchMessages = useCallback(async (page = 1) => {
+  // Everyone else in the thread
+  const otherParticipants = conversationData?.conversation.participants.filter(
+    (p) => p.userId !== user?.id
+  ) ?? [];
+
+  // Fetch messages for conversation; silent refreshes keep the current view
+  const fetchMessages = useCallback(async (page = 1, silent = false) => {
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       const response = await fetch(`/api/messages/${conversationId}?page=${page}&limit=50`);
       
       if (!response.ok) {
@@ -102,6 +141,10 @@ export function ConversationView({
         })),
         conversation: {
           ...data.conversation,
+          participants: data.conversation.participants.map((p: any) => ({
+            ...p,
+            lastReadAt: p.lastReadAt ? new Date(p.lastReadAt) : null,
+          })),
           createdAt: new Date(data.conversation.createdAt),
           lastMessageAt: data.conversation.lastMessageAt 
             ? new Date(data.conversation.lastMessageAt) 
@@ -109,18 +152,114 @@ export function ConversationView({
         },
       });
     } catch (err) {
-      setError(err instanceof Error ? err.message : "An error occurred");
+      if (!silent) setError(err instanceof Error ? err.message : "An error occurred");
     } finally {
-      setLoading(false);
+      if (!silent) setLoading(false);
     }
   }, [conversationId]);
 
+  // Mark incoming messages read, which sends the sender a read receipt
+  const markRead = useCallback(() => {
+    fetch(`/api/messages/${conversationId}`, { method: "PUT" }).catch(console.error);
+  }, [conversationId]);
+
+  // Apply pushed messages and read receipts
+  const handleRealtimeEvent = useCallback((event: ConversationEvent) => {
+    if (event.type === "message") {
+      const incoming = event.message;
+      setConversationData((current) => {
+        if (!current || current.messages.some((m) => m.id === incoming.id)) return current;
+        return {
+          ...current,
+          messages: [
+            ...current.messages,
+            {
+              ...incoming,
+              metadata: incoming.metadata as MessageMetadata | null,
+              attachments: incoming.attachments as MessageAttachmentItem[],
+              createdAt: new Date(incoming.createdAt),
+              updatedAt: new Date(incoming.updatedAt),
+              sender: { userId: incoming.sender.userId, email: incoming.sender.email || "" },
+              isOwnMessage: incoming.senderId === user?.id,
+            },
+          ],
+          conversation: { ...current.conversation, lastMessageAt: new Date(incoming.createdAt) },
+        };
+      });
+      if (incoming.senderId !== user?.id) {
+        markRead();
+      }
+    } else if (event.type === "read" && event.userId !== user?.id) {
+      const readAt = new Date(event.readAt);
+      setConversationData((current) => current && {
+        ...current,
+        // Direct threads flag each message; group ticks come from participants' read state
+        messages: current.conversation.kind === "direct"
+          ? current.messages.map((m) =>
+              m.isOwnMessage && !m.isRead ? { ...m, isRead: true, readAt } : m
+            )
+          : current.messages,
+        conversation: {
+          ...current.conversation,
+          participants: current.conversation.participants.map((p) =>
+            p.userId === event.userId
+              ? { ...p, lastReadMessageId: event.lastReadMessageId, lastReadAt: readAt }
+              : p
+          ),
+        },
+      });
+    }
+  }, [user?.id, markRead]);
+
+  const realtime = useConversationRealtime(conversationId, {
+    onEvent: handleRealtimeEvent,
+    // The stream starts with everyone's current read state
+    onReady: (ready) => setConversationData((current) => current && {
+      ...current,
+      conversation: {
+        ...current.conversation,
+        participants: current.conversation.participants.map((p) => {
+          const state = ready.readStates.find((r) => r.userId === p.userId);
+          return state
+            ? { ...p, lastReadMessageId: state.lastReadMessageId, lastReadAt: state.lastReadAt ? new Date(state.lastReadAt) : null }
+            : p;
+        }),
+      },
+    }),
+    onPoll: () => fetchMessages(1, true),
+  });
+
   useEffect(() => {
     if (conversationId) {
       fetchMessages();
     }
   }, [conversationId, fetchMessages]);
 
+  // Mute or unmute notifications for this conversation
+  const handleToggleMute = async () => {
+    if (!conversationData) return;
+    const muted = !conversationData.conversation.isMuted;
+
+    try {
+      const response = await fetch(`/api/messages/${conversationId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ muted }),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to update conversation");
+      }
+
+      setConversationData((current) => current && {
+        ...current,
+        conversation: { ...current.conversation, isMuted: muted },
+      });
+      onMessageSent?.();
+    } catch (err) {
+      console.error("Error updating conversation:", err);
+    }
+  };
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     if (messagesEndRef.current) {
@@ -129,10 +268,12 @@ export function ConversationView({
   }, [conversationData?.messages]);
 
   // Handle sending message
-  const handleSendMessage = async (content: string) => {
-    if (!content.trim() || !otherParticipant || sending) return;
+  const handleSendMessage = async (content: string, attachmentIds: string[] = []) => {
+    if ((!content.trim() && attachmentIds.length === 0) || sending) return;
 
     setSending(true);
+    setSendNotice(null);
+    realtime.stopTyping();
     try {
       const response = await fetch("/api/messages", {
         method: "POST",
@@ -140,18 +281,28 @@ export function ConversationView({
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          recipientId: otherParticipant.userId,
-          content: content.trim(),
-          bookingId: conversationData?.conversation.bookingId,
+          conversationId,
+          content: content.trim() || undefined,
+          attachmentIds,
         }),
       });
 
+      const result = await response.json().catch(() => null);
+
       if (!response.ok) {
-        throw new Error("Failed to send message");
+        // Blocked for sharing contact details: tell the sender why
+        if (result?.code === "CONTACT_BLOCKED") {
+          setSendNotice(result.error);
+        }
+        throw new Error(result?.error || "Failed to send message");
+      }
+
+      if (result?.message?.screening?.action === "masked") {
+        setSendNotice("Contact and payment details are hidden until a booking is paid. Please keep the conversation here.");
       }
 
       // Refresh messages
-      await fetchMessages();
+      await fetchMessages(1, true);
       onMessageSent?.();
     } catch (err) {
       console.error("Error sending message:", err);
@@ -161,6 +312,23 @@ export function ConversationView({
     }
   };
 
+  // Upload a file to attach to the next message
+  const handleUploadAttachment = async (file: File): Promise<MessageAttachmentItem> => {
+    const formData = new FormData();
+    formData.append("file", file);
+
+    const response = await fetch(`/api/messages/${conversationId}/attachments`, {
+      method: "POST",
+      body: formData,
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to upload file");
+    }
+    return data.attachment;
+  };
+
   // Get initials for avatar
   const getInitials = (email: string) => {
     return email.substring(0, 2).toUpperCase();
@@ -201,12 +369,27 @@ export function ConversationView({
     );
   }
 
-  // Get the other participant from messages
-  const otherParticipantFromMessages = conversationData.messages.find(
-    m => m.sender.userId !== user?.id
-  )?.sender;
+  const { conversation } = conversationData;
+  const isGroup = conversation.kind === "group";
+  const title = getConversationTitle(conversation, user?.id);
+  const emailOf = (userId: string) =>
+    conversation.participants.find((p) => p.userId === userId)?.email || "Someone";
+
+  // In a group, a message is read once everyone else has read past it
+  const withGroupReadState = (message: Message): Message => {
+    if (!isGroup || !message.isOwnMessage) return message;
+    const readTimes = otherParticipants.map((p) => p.lastReadAt);
+    const readByAll = readTimes.length > 0 && readTimes.every((at) => at && at >= message.createdAt);
+    return {
+      ...message,
+      isRead: readByAll,
+      readAt: readByAll ? new Date(Math.max(...readTimes.map((at) => at!.getTime()))) : undefined,
+    };
+  };
 
-  const displayParticipant = otherParticipant || otherParticipantFromMessages;
+  const typingLabel = realtime.typingUserIds.length === 1
+    ? `${emailOf(realtime.typingUserIds[0])} is typing...`
+    : `${realtime.typingUserIds.length} people are typing...`;
 
   return (
     <Card className="h-full flex flex-col">
@@ -219,26 +402,62 @@ export function ConversationView({
             </Button>
           )}
           
-          <Avatar>
-            <AvatarFallback>
-              {displayParticipant ? getInitials(displayParticipant.email) : "??"}
-            </AvatarFallback>
-          </Avatar>
+          <div className="relative">
+            <Avatar>
+              <AvatarFallback>
+                {isGroup ? <Users className="w-4 h-4" /> : getInitials(title)}
+              </AvatarFallback>
+            </Avatar>
+            {!isGroup && realtime.otherUserOnline && (
+              <span className="absolute bottom-0 right-0 w-3 h-3 rounded-full bg-green-500 ring-2 ring-background" />
+            )}
+          </div>
           
-          <div className="flex-1">
-            <CardTitle className="text-lg">
-              {displayParticipant?.email || "Unknown User"}
+          <div className="flex-1 min-w-0">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <span className="truncate">{title}</span>
+              {conversation.isMuted && <BellOff className="w-4 h-4 text-muted-foreground" />}
             </CardTitle>
-            {conversationData.conversation.lastMessageAt && (
+            {isGroup ? (
+              <div className="text-sm text-muted-foreground truncate">
+                {conversation.participants.length} members
+                {realtime.onlineUserIds.length > 0 && ` · ${realtime.onlineUserIds.length} online`}
+                {" · "}
+                {otherParticipants
+                  .map((p) => ROLE_LABELS[p.role] ? `${p.email || "Unknown User"} (${ROLE_LABELS[p.role]})` : p.email || "Unknown User")
+                  .join(", ")}
+              </div>
+            ) : realtime.otherUserOnline ? (
+              <div className="text-sm text-green-600">Online</div>
+            ) : conversation.lastMessageAt && (
               <div className="text-sm text-muted-foreground">
-                Last active {formatDistanceToNow(conversationData.conversation.lastMessageAt, { addSuffix: true })}
+                Last active {formatDistanceToNow(conversation.lastMessageAt, { addSuffix: true })}
               </div>
             )}
           </div>
 
-          <Button variant="ghost" size="sm">
-            <MoreVertical className="w-4 h-4" />
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm">
+                <MoreVertical className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={handleToggleMute}>
+                {conversation.isMuted ? (
+                  <>
+                    <Bell className="w-4 h-4 mr-2" />
+                    Unmute conversation
+                  </>
+                ) : (
+                  <>
+                    <BellOff className="w-4 h-4 mr-2" />
+                    Mute conversation
+                  </>
+                )}
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </CardHeader>
 
@@ -254,7 +473,7 @@ export function ConversationView({
               {conversationData.messages.map((message, index) => (
                 <MessageBubble
                   key={message.id}
-                  message={message}
+                  message={withGroupReadState(message)}
                   showSender={
                     index === 0 || 
                     conversationData.messages[index - 1].senderId !== message.senderId
@@ -269,10 +488,22 @@ export function ConversationView({
 
       {/* Message Composer */}
       <div className="border-t p-4">
+        {sendNotice && (
+          <div className="text-xs text-amber-700 bg-amber-50 rounded px-3 py-2 mb-2">
+            {sendNotice}
+          </div>
+        )}
+        {realtime.typingUserIds.length > 0 && (
+          <div className="text-xs text-muted-foreground italic mb-2">
+            {typingLabel}
+          </div>
+        )}
         <MessageComposer
           onSendMessage={handleSendMessage}
+          onUploadAttachment={handleUploadAttachment}
+          onTyping={realtime.notifyTyping}
           disabled={sending}
-          placeholder={`Message ${displayParticipant?.email || "user"}...`}
+          placeholder={`Message ${title}...`}
         />
       </div>
     </Card>
@@ -4,7 +4,19 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { format, isToday, isYesterday, formatDistanceToNow } from "date-fns";
-import { Check, CheckCheck, Edit } from "lucide-react";
+import { Check, CheckCheck, Edit, FileText } from "lucide-react";
+import type { MessageMetadata } from "@/db/schema";
+import { summarizeAttachments } from "@/lib/messaging/structured-messages";
+import { StructuredMessageCard } from "./structured-message-card";
+
+export interface MessageAttachmentItem {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  kind: "image" | "file";
+  url: string | null;
+}
 
 interface Message {
   id: string;
@@ -12,6 +24,8 @@ interface Message {
   senderId: string;
   content: string;
   messageType: string;
+  metadata?: MessageMetadata | null;
+  attachments?: MessageAttachmentItem[];
   isRead: boolean;
   readAt?: Date;
   isEdited: boolean;
@@ -30,6 +44,12 @@ interface MessageBubbleProps {
   showSender?: boolean;
 }
 
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 export function MessageBubble({ message, showSender = true }: MessageBubbleProps) {
   // Get initials for avatar
   const getInitials = (email: string) => {
@@ -47,6 +67,14 @@ export function MessageBubble({ message, showSender = true }: MessageBubbleProps
     }
   };
 
+  const images = (message.attachments || []).filter((a) => a.kind === "image");
+  const files = (message.attachments || []).filter((a) => a.kind === "file");
+  // Cards and attachment-only messages carry generated text; don't repeat it
+  const showContent = !message.metadata && (
+    images.length + files.length === 0 ||
+    message.content !== summarizeAttachments((message.attachments || []).map((a) => a.fileName))
+  );
+
   // System messages (like "User joined the conversation")
   if (message.messageType === "system") {
     return (
@@ -97,7 +125,51 @@ export function MessageBubble({ message, showSender = true }: MessageBubbleProps
               : "bg-muted rounded-bl-md"
           )}
         >
-          <div className="text-sm leading-relaxed">{message.content}</div>
+          {message.metadata && (
+            <StructuredMessageCard metadata={message.metadata} isOwnMessage={message.isOwnMessage} />
+          )}
+
+          {/* Photos */}
+          {images.length > 0 && (
+            <div className={cn("grid gap-1 my-1", images.length > 1 && "grid-cols-2")}>
+              {images.map((image) =>
+                image.url ? (
+                  <a key={image.id} href={image.url} target="_blank" rel="noopener noreferrer">
+                    {/* eslint-disable-next-line @next/next/no-img-element -- signed storage URLs */}
+                    <img
+                      src={image.url}
+                      alt={image.fileName}
+                      className="rounded-lg max-h-60 w-full object-cover"
+                    />
+                  </a>
+                ) : (
+                  <div key={image.id} className="text-xs italic">{image.fileName} (unavailable)</div>
+                )
+              )}
+            </div>
+          )}
+
+          {/* Documents */}
+          {files.map((file) => (
+            <a
+              key={file.id}
+              href={file.url ?? undefined}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={cn(
+                "flex items-center gap-2 rounded-lg border px-3 py-2 my-1 text-sm",
+                message.isOwnMessage ? "border-primary-foreground/20" : "border-border bg-background"
+              )}
+            >
+              <FileText className="w-4 h-4 flex-shrink-0" />
+              <span className="truncate">{file.fileName}</span>
+              <span className="text-xs opacity-70 flex-shrink-0">{formatFileSize(file.sizeBytes)}</span>
+            </a>
+          ))}
+
+          {showContent && (
+            <div className="text-sm leading-relaxed">{message.content}</div>
+          )}
           
           {/* Message metadata */}
           <div
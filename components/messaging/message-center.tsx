@@ -7,16 +7,19 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { MessageSquare, Plus, Search } from "lucide-react";
+import { MessageSquare, Plus, Search, Users, BellOff } from "lucide-react";
 import { Input } from "@/components/ui/input";
-import { ConversationView } from "./conversation-view";
+import { ConversationView, getConversationTitle } from "./conversation-view";
 import { formatDistanceToNow } from "date-fns";
+import type { ConversationKind, ConversationParticipantRole } from "@/db/schema";
 
 interface Conversation {
   id: string;
-  participantOne: { userId: string; email: string };
-  participantTwo: { userId: string; email: string };
+  kind: ConversationKind;
+  title?: string | null;
+  participants: { userId: string; email: string | null; role: ConversationParticipantRole }[];
   bookingId?: string;
+  groupBookingId?: string | null;
   lastMessageAt?: Date;
   isActive: boolean;
   createdAt: Date;
@@ -28,7 +31,7 @@ interface Conversation {
     createdAt: Date;
   };
   unreadCount: number;
-  otherParticipant: { userId: string; email: string };
+  isMuted: boolean;
 }
 
 interface MessageCenterProps {
@@ -43,10 +46,10 @@ export function MessageCenter({ onNewMessage }: MessageCenterProps) {
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
 
-  // Fetch conversations
-  const fetchConversations = async () => {
+  // Fetch conversations; silent refreshes keep the list on screen
+  const fetchConversations = async (silent = false) => {
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       const response = await fetch("/api/messages");
       
       if (!response.ok) {
@@ -69,7 +72,7 @@ export function MessageCenter({ onNewMessage }: MessageCenterProps) {
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
     } finally {
-      setLoading(false);
+      if (!silent) setLoading(false);
     }
   };
 
@@ -79,10 +82,12 @@ export function MessageCenter({ onNewMessage }: MessageCenterProps) {
     }
   }, [user]);
 
-  // Filter conversations based on search term
-  const filteredConversations = conversations.filter((conv) =>
-    conv.otherParticipant.email.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  // Filter conversations by title or any member's email
+  const filteredConversations = conversations.filter((conv) => {
+    const term = searchTerm.toLowerCase();
+    return getConversationTitle(conv, user?.id).toLowerCase().includes(term) ||
+      conv.participants.some((p) => p.email?.toLowerCase().includes(term));
+  });
 
   // Get initials for avatar
   const getInitials = (email: string) => {
@@ -110,7 +115,7 @@ export function MessageCenter({ onNewMessage }: MessageCenterProps) {
 
   // Handle new message sent
   const handleMessageSent = () => {
-    fetchConversations(); // Refresh conversations
+    fetchConversations(true); // Refresh conversations
     onNewMessage?.();
   };
 
@@ -130,7 +135,7 @@ export function MessageCenter({ onNewMessage }: MessageCenterProps) {
         <CardContent className="flex items-center justify-center h-96">
           <div className="text-center">
             <div className="text-destructive mb-2">Error loading messages</div>
-            <Button onClick={fetchConversations} variant="outline" size="sm">
+            <Button onClick={() => fetchConversations()} variant="outline" size="sm">
               Try Again
             </Button>
           </div>
@@ -172,52 +177,62 @@ export function MessageCenter({ onNewMessage }: MessageCenterProps) {
               </div>
             ) : (
               <div className="space-y-1">
-                {filteredConversations.map((conversation) => (
-                  <button
-                    key={conversation.id}
-                    onClick={() => handleConversationSelect(conversation.id)}
-                    className={`w-full p-4 text-left hover:bg-muted/50 transition-colors ${
-                      selectedConversation === conversation.id ? "bg-muted" : ""
-                    }`}
-                  >
-                    <div className="flex items-start gap-3">
-                      <Avatar>
-                        <AvatarFallback>
-                          {getInitials(conversation.otherParticipant.email)}
-                        </AvatarFallback>
-                      </Avatar>
+                {filteredConversations.map((conversation) => {
+                  const title = getConversationTitle(conversation, user?.id);
+                  return (
+                    <button
+                      key={conversation.id}
+                      onClick={() => handleConversationSelect(conversation.id)}
+                      className={`w-full p-4 text-left hover:bg-muted/50 transition-colors ${
+                        selectedConversation === conversation.id ? "bg-muted" : ""
+                      }`}
+                    >
+                      <div className="flex items-start gap-3">
+                        <Avatar>
+                          <AvatarFallback>
+                            {conversation.kind === "group" ? <Users className="w-4 h-4" /> : getInitials(title)}
+                          </AvatarFallback>
+                        </Avatar>
                       
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center justify-between mb-1">
-                          <div className="font-medium text-sm truncate">
-                            {conversation.otherParticipant.email}
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center justify-between mb-1">
+                            <div className="font-medium text-sm truncate flex items-center gap-1">
+                              {title}
+                              {conversation.isMuted && <BellOff className="w-3 h-3 text-muted-foreground shrink-0" />}
+                            </div>
+                            {conversation.unreadCount > 0 && (
+                              <Badge variant={conversation.isMuted ? "secondary" : "default"} className="ml-2 text-xs">
+                                {conversation.unreadCount}
+                              </Badge>
+                            )}
                           </div>
-                          {conversation.unreadCount > 0 && (
-                            <Badge variant="default" className="ml-2 text-xs">
-                              {conversation.unreadCount}
-                            </Badge>
+                        
+                          {conversation.kind === "group" && (
+                            <div className="text-xs text-muted-foreground mb-1">
+                              {conversation.participants.length} members
+                            </div>
                           )}
-                        </div>
                         
-                        {conversation.lastMessage ? (
-                          <div className="text-xs text-muted-foreground truncate">
-                            {conversation.lastMessage.content}
-                          </div>
-                        ) : (
-                          <div className="text-xs text-muted-foreground">
-                            New conversation
-                          </div>
-                        )}
+                          {conversation.lastMessage ? (
+                            <div className="text-xs text-muted-foreground truncate">
+                              {conversation.lastMessage.content}
+                            </div>
+                          ) : (
+                            <div className="text-xs text-muted-foreground">
+                              New conversation
+                            </div>
+                          )}
                         
-                        {conversation.lastMessageAt && (
-                          <div className="text-xs text-muted-foreground mt-1">
-                            {formatDistanceToNow(conversation.lastMessageAt, { addSuffix: true })}
-                          </div>
-                        )}
+                          {conversation.lastMessageAt && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {formatDistanceToNow(conversation.lastMessageAt, { addSuffix: true })}
+                            </div>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  </button>
-                ))}
+                    </button>
+                  );
+                })}
               </div>
             )}
           </ScrollArea>
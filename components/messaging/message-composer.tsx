@@ -3,11 +3,18 @@
 import { useState, useRef, KeyboardEvent } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Send, Loader2 } from "lucide-react";
+import { Send, Loader2, Paperclip, X } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { MessageAttachmentItem } from "./message-bubble";
+
+// Mirrors the server-side allow-list in lib/messaging/attachment-validation.ts
+const ACCEPTED_FILES = ".jpg,.jpeg,.png,.webp,.gif,.heic,.pdf,.txt,.csv,.docx,.xlsx";
+const MAX_ATTACHMENTS = 10;
 
 interface MessageComposerProps {
-  onSendMessage: (content: string) => Promise<void>;
+  onSendMessage: (content: string, attachmentIds: string[]) => Promise<void>;
+  onUploadAttachment?: (file: File) => Promise<MessageAttachmentItem>;
+  onTyping?: () => void;
   disabled?: boolean;
   placeholder?: string;
   maxLength?: number;
@@ -15,23 +22,50 @@ interface MessageComposerProps {
 
 export function MessageComposer({
   onSendMessage,
+  onUploadAttachment,
+  onTyping,
   disabled = false,
   placeholder = "Type your message...",
   maxLength = 1000,
 }: MessageComposerProps) {
   const [message, setMessage] = useState("");
   const [sending, setSending] = useState(false);
+  const [attachments, setAttachments] = useState<MessageAttachmentItem[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Upload picked files one at a time; each is scanned server-side
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, MAX_ATTACHMENTS - attachments.length);
+    e.target.value = "";
+    if (!onUploadAttachment || files.length === 0) return;
+
+    setUploading(true);
+    setUploadError(null);
+    try {
+      for (const file of files) {
+        const uploaded = await onUploadAttachment(file);
+        setAttachments((current) => [...current, uploaded]);
+      }
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : "Upload failed");
+    } finally {
+      setUploading(false);
+    }
+  };
 
   // Handle sending message
   const handleSend = async () => {
     const trimmedMessage = message.trim();
-    if (!trimmedMessage || sending || disabled) return;
+    if ((!trimmedMessage && attachments.length === 0) || sending || uploading || disabled) return;
 
     setSending(true);
     try {
-      await onSendMessage(trimmedMessage);
+      await onSendMessage(trimmedMessage, attachments.map((a) => a.id));
       setMessage(""); // Clear input after sending
+      setAttachments([]);
       
       // Reset textarea height
       if (textareaRef.current) {
@@ -64,6 +98,7 @@ export function MessageComposer({
   const handleInput = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const value = e.target.value;
     setMessage(value);
+    if (value.trim()) onTyping?.();
 
     // Auto-resize
     const textarea = e.target;
@@ -73,52 +108,105 @@ export function MessageComposer({
   };
 
   const isDisabled = disabled || sending;
-  const canSend = message.trim().length > 0 && !isDisabled;
+  const canSend = (message.trim().length > 0 || attachments.length > 0) && !uploading && !isDisabled;
 
   return (
-    <div className="flex gap-3 items-end">
-      <div className="flex-1 relative">
-        <Textarea
-          ref={textareaRef}
-          value={message}
-          onChange={handleInput}
-          onKeyDown={handleKeyDown}
-          placeholder={placeholder}
-          disabled={isDisabled}
-          maxLength={maxLength}
-          className={cn(
-            "min-h-[40px] max-h-[120px] resize-none",
-            "focus:ring-2 focus:ring-primary/20",
-            isDisabled && "opacity-50 cursor-not-allowed"
+    <div className="space-y-2">
+      {/* Pending attachments */}
+      {(attachments.length > 0 || uploading || uploadError) && (
+        <div className="flex flex-wrap items-center gap-2">
+          {attachments.map((attachment) => (
+            <div
+              key={attachment.id}
+              className="flex items-center gap-1 rounded-full border bg-muted px-3 py-1 text-xs"
+            >
+              <span className="max-w-[160px] truncate">{attachment.fileName}</span>
+              <button
+                type="button"
+                onClick={() => setAttachments((current) => current.filter((a) => a.id !== attachment.id))}
+                aria-label={`Remove ${attachment.fileName}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          {uploading && (
+            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Loader2 className="w-3 h-3 animate-spin" /> Scanning file...
+            </div>
           )}
-          style={{ height: "auto" }}
-        />
-        
-        {/* Character count */}
-        {message.length > maxLength * 0.8 && (
-          <div className="absolute -bottom-6 right-0 text-xs text-muted-foreground">
-            {message.length}/{maxLength}
-          </div>
-        )}
-      </div>
+          {uploadError && <div className="text-xs text-destructive">{uploadError}</div>}
+        </div>
+      )}
 
-      <Button
-        onClick={handleSend}
-        disabled={!canSend}
-        size="sm"
-        className={cn(
-          "shrink-0 h-10 w-10 p-0",
-          canSend 
-            ? "bg-primary hover:bg-primary/90" 
-            : "bg-muted text-muted-foreground cursor-not-allowed"
-        )}
-      >
-        {sending ? (
-          <Loader2 className="w-4 h-4 animate-spin" />
-        ) : (
-          <Send className="w-4 h-4" />
+      <div className="flex gap-3 items-end">
+        {onUploadAttachment && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ACCEPTED_FILES}
+              className="hidden"
+              onChange={handleFilesSelected}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="shrink-0 h-10 w-10 p-0"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isDisabled || uploading || attachments.length >= MAX_ATTACHMENTS}
+              aria-label="Attach files"
+            >
+              <Paperclip className="w-4 h-4" />
+            </Button>
+          </>
         )}
-      </Button>
+
+        <div className="flex-1 relative">
+          <Textarea
+            ref={textareaRef}
+            value={message}
+            onChange={handleInput}
+            onKeyDown={handleKeyDown}
+            placeholder={placeholder}
+            disabled={isDisabled}
+            maxLength={maxLength}
+            className={cn(
+              "min-h-[40px] max-h-[120px] resize-none",
+              "focus:ring-2 focus:ring-primary/20",
+              isDisabled && "opacity-50 cursor-not-allowed"
+            )}
+            style={{ height: "auto" }}
+          />
+          
+          {/* Character count */}
+          {message.length > maxLength * 0.8 && (
+            <div className="absolute -bottom-6 right-0 text-xs text-muted-foreground">
+              {message.length}/{maxLength}
+            </div>
+          )}
+        </div>
+
+        <Button
+          onClick={handleSend}
+          disabled={!canSend}
+          size="sm"
+          className={cn(
+            "shrink-0 h-10 w-10 p-0",
+            canSend 
+              ? "bg-primary hover:bg-primary/90" 
+              : "bg-muted text-muted-foreground cursor-not-allowed"
+          )}
+        >
+          {sending ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Send className="w-4 h-4" />
+          )}
+        </Button>
+      </div>
     </div>
   );
 }
\ No newline at end of file
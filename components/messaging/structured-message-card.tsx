@@ -0,0 +1,113 @@
+"use client";
+
+import { format } from "date-fns";
+import { CalendarClock, CalendarDays, FileText, MapPin } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatAmount } from "@/lib/payments/currency";
+import type { MessageMetadata } from "@/db/schema";
+
+interface StructuredMessageCardProps {
+  metadata: MessageMetadata;
+  isOwnMessage: boolean;
+}
+
+const formatDay = (date: string) => format(new Date(`${date}T00:00:00`), "EEE, MMM d, yyyy");
+
+export function StructuredMessageCard({ metadata, isOwnMessage }: StructuredMessageCardProps) {
+  const muted = isOwnMessage ? "text-primary-foreground/70" : "text-muted-foreground";
+  const divider = isOwnMessage ? "border-primary-foreground/20" : "border-border";
+
+  switch (metadata.type) {
+    case "booking_proposal": {
+      const { proposal } = metadata;
+      return (
+        <div className="space-y-2 min-w-[220px]">
+          <div className="flex items-center gap-2 text-xs font-medium uppercase tracking-wide">
+            <CalendarDays className="w-4 h-4" />
+            Booking proposal
+          </div>
+          <div className="font-semibold">{proposal.serviceName}</div>
+          <div className="text-sm">
+            {formatDay(proposal.date)} · {proposal.startTime}–{proposal.endTime}
+          </div>
+          <div className={cn("flex justify-between border-t pt-2 text-sm", divider)}>
+            <span className={muted}>Price</span>
+            <span className="font-semibold">{formatAmount(proposal.price, proposal.currency)}</span>
+          </div>
+          {proposal.note && <p className={cn("text-xs", muted)}>{proposal.note}</p>}
+        </div>
+      );
+    }
+
+    case "quote": {
+      const { quote } = metadata;
+      return (
+        <div className="space-y-2 min-w-[240px]">
+          <div className="flex items-center gap-2 text-xs font-medium uppercase tracking-wide">
+            <FileText className="w-4 h-4" />
+            Quote
+          </div>
+          <div className="font-semibold">{quote.title}</div>
+          <ul className="space-y-1 text-sm">
+            {quote.lineItems.map((item, index) => (
+              <li key={index} className="flex justify-between gap-4">
+                <span>
+                  {item.description}
+                  {item.quantity !== 1 && <span className={muted}> × {item.quantity}</span>}
+                </span>
+                <span>{formatAmount(item.quantity * item.unitPrice, quote.currency)}</span>
+              </li>
+            ))}
+          </ul>
+          <div className={cn("flex justify-between border-t pt-2 text-sm font-semibold", divider)}>
+            <span>Total</span>
+            <span>{formatAmount(quote.total, quote.currency)}</span>
+          </div>
+          {quote.validUntil && (
+            <p className={cn("text-xs", muted)}>Valid until {formatDay(quote.validUntil)}</p>
+          )}
+          {quote.note && <p className={cn("text-xs", muted)}>{quote.note}</p>}
+        </div>
+      );
+    }
+
+    case "location": {
+      const { location } = metadata;
+      const mapUrl = `https://www.google.com/maps/search/?api=1&query=${location.latitude},${location.longitude}`;
+      return (
+        <a
+          href={mapUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-start gap-2 min-w-[200px] hover:underline"
+        >
+          <MapPin className="w-5 h-5 flex-shrink-0 mt-0.5" />
+          <div>
+            <div className="font-semibold">{location.label || "Shared location"}</div>
+            {location.address && <div className="text-sm">{location.address}</div>}
+            <div className={cn("text-xs", muted)}>Open in maps</div>
+          </div>
+        </a>
+      );
+    }
+
+    case "reschedule_request": {
+      const { reschedule } = metadata;
+      return (
+        <div className="space-y-2 min-w-[220px]">
+          <div className="flex items-center gap-2 text-xs font-medium uppercase tracking-wide">
+            <CalendarClock className="w-4 h-4" />
+            Reschedule request
+          </div>
+          <div className="text-sm">
+            Proposed: <span className="font-semibold">{formatDay(reschedule.proposedDate)}</span>
+          </div>
+          <div className="text-sm">
+            {reschedule.proposedStartTime}–{reschedule.proposedEndTime}
+          </div>
+          {reschedule.reason && <p className={cn("text-xs", muted)}>{reschedule.reason}</p>}
+        </div>
+      );
+    }
+  }
+}
@@ -4,9 +4,11 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { TrendingUp, TrendingDown, DollarSign, Calendar, Star, Users } from 'lucide-react';
 import { TimePeriod } from '@/db/queries/analytics-queries';
+import { formatAmount } from '@/lib/payments/currency';
 
 interface ComparisonCardsProps {
   summary: {
+    currency: string;
     totalEarnings: number;
     totalBookings: number;
     averageRating: number;
@@ -21,13 +23,8 @@ interface ComparisonCardsProps {
   period: TimePeriod;
 }
 
-function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(amount);
+function formatCurrency(amount: number, currency: string): string {
+  return formatAmount(amount, currency, { wholeUnits: true });
 }
 
 function formatPercentage(value: number): string {
@@ -78,7 +75,7 @@ export default function ComparisonCards({ summary, period }: ComparisonCardsProp
   const metrics = [
     {
       title: 'Total Earnings',
-      value: formatCurrency(summary.totalEarnings),
+      value: formatCurrency(summary.totalEarnings, summary.currency),
       change: summary.periodComparison.earningsChange,
       icon: DollarSign,
       color: 'text-green-600',
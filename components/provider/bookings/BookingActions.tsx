@@ -125,7 +125,7 @@ export default function BookingActions({
   };
 
   const canComplete = booking.status === "confirmed";
-  const canCancel = booking.status !== "completed" && booking.status !== "cancelled";
+  const canCancel = ["hold", "pending_provider", "confirmed", "in_progress"].includes(booking.status);
   const canMarkNoShow = booking.status === "confirmed";
 
   if (!canComplete && !canCancel && !canMarkNoShow) {
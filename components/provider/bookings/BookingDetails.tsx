@@ -25,6 +25,7 @@ import {
 } from "lucide-react";
 import { type Booking } from "@/db/schema/bookings-schema";
 import BookingActions from "./BookingActions";
+import CustomerReviewSection from "./CustomerReviewSection";
 
 interface BookingDetailsProps {
   booking: Booking;
@@ -163,6 +164,7 @@ export default function BookingDetails({
                   </p>
                 </div>
               )}
+              {!booking.isGuestBooking && <CustomerReviewSection bookingId={booking.id} />}
             </div>
 
             <Separator />
@@ -205,7 +207,7 @@ export default function BookingDetails({
             )}
 
             {/* Cancellation Information */}
-            {booking.status === "cancelled" && (
+            {booking.status.startsWith("canceled_") && (
               <>
                 <Separator />
                 <div className="space-y-3">
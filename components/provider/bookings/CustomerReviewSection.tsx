@@ -0,0 +1,246 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Star, EyeOff, Loader2, Flag } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface ReviewView {
+  id: string;
+  rating: number;
+  reviewText: string | null;
+  createdAt: string;
+  revealedAt: string | null;
+}
+
+interface CustomerReputation {
+  averageRating: number | null;
+  totalReviews: number;
+  completedBookings: number;
+  noShows: number;
+}
+
+interface BookingReviews {
+  windowClosesAt: string | null;
+  canReview: boolean;
+  ownReview: ReviewView | null;
+  counterpartSubmitted: boolean;
+  counterpartReview: ReviewView | null;
+  customerReputation?: CustomerReputation;
+}
+
+interface CustomerReviewSectionProps {
+  bookingId: string;
+}
+
+const renderStars = (rating: number, onSelect?: (rating: number) => void) => (
+  <div className="flex items-center gap-0.5">
+    {[1, 2, 3, 4, 5].map((star) => (
+      <Star
+        key={star}
+        onClick={onSelect ? () => onSelect(star) : undefined}
+        className={cn(
+          "h-4 w-4",
+          onSelect && "h-6 w-6 cursor-pointer",
+          star <= Math.round(rating)
+            ? "fill-yellow-400 text-yellow-400"
+            : "fill-gray-200 text-gray-200"
+        )}
+      />
+    ))}
+  </div>
+);
+
+export default function CustomerReviewSection({ bookingId }: CustomerReviewSectionProps) {
+  const [reviews, setReviews] = useState<BookingReviews | null>(null);
+  const [rating, setRating] = useState(0);
+  const [reviewText, setReviewText] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showAppeal, setShowAppeal] = useState(false);
+  const [appealReason, setAppealReason] = useState("");
+  const [isAppealing, setIsAppealing] = useState(false);
+
+  const loadReviews = async () => {
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/reviews`);
+      if (response.ok) {
+        setReviews(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to load booking reviews:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadReviews();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [bookingId]);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rating, reviewText: reviewText || undefined }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || "Failed to submit review");
+        return;
+      }
+
+      toast.success(
+        result.revealed
+          ? "Review submitted. Both reviews are now visible"
+          : "Review submitted. It stays hidden until the customer reviews you or the window closes"
+      );
+      await loadReviews();
+    } catch (error) {
+      toast.error("Failed to submit review");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAppeal = async (reviewId: string) => {
+    setIsAppealing(true);
+    try {
+      const response = await fetch(`/api/providers/reviews/${reviewId}/appeal`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason: appealReason }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || "Failed to appeal review");
+        return;
+      }
+
+      toast.success("Appeal sent. The review stays up until a moderator decides");
+      setShowAppeal(false);
+      setAppealReason("");
+    } catch (error) {
+      toast.error("Failed to appeal review");
+    } finally {
+      setIsAppealing(false);
+    }
+  };
+
+  if (!reviews) {
+    return null;
+  }
+
+  const reputation = reviews.customerReputation;
+
+  return (
+    <div className="space-y-3">
+      {/* Customer Reputation */}
+      {reputation && (
+        <div className="space-y-2 text-sm">
+          <span className="text-muted-foreground">Customer Reputation:</span>
+          <div className="flex items-center gap-3">
+            {reputation.averageRating !== null ? (
+              <>
+                {renderStars(reputation.averageRating)}
+                <span className="font-medium">{reputation.averageRating.toFixed(1)}</span>
+                <span className="text-muted-foreground">
+                  ({reputation.totalReviews} {reputation.totalReviews === 1 ? "review" : "reviews"})
+                </span>
+              </>
+            ) : (
+              <span className="text-muted-foreground">Not rated by providers yet</span>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Badge variant="secondary">{reputation.completedBookings} completed bookings</Badge>
+            {reputation.noShows > 0 && (
+              <Badge variant="destructive">{reputation.noShows} no-shows</Badge>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Double-blind reviews of this booking */}
+      {reviews.windowClosesAt && (
+        <div className="space-y-3 rounded-md border p-3 text-sm">
+          {reviews.ownReview ? (
+            <div className="space-y-1">
+              <span className="text-muted-foreground">Your review of the customer:</span>
+              {renderStars(reviews.ownReview.rating)}
+              {reviews.ownReview.reviewText && <p>{reviews.ownReview.reviewText}</p>}
+            </div>
+          ) : reviews.canReview ? (
+            <div className="space-y-2">
+              <span className="text-muted-foreground">
+                Rate this customer by {format(new Date(reviews.windowClosesAt), "MMM dd, yyyy")}:
+              </span>
+              {renderStars(rating, setRating)}
+              <Textarea
+                value={reviewText}
+                onChange={(e) => setReviewText(e.target.value)}
+                placeholder="How was working with this customer? (optional)"
+                maxLength={2000}
+                rows={3}
+              />
+              <Button size="sm" onClick={handleSubmit} disabled={rating === 0 || isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Submit Review
+              </Button>
+            </div>
+          ) : (
+            <p className="text-muted-foreground">The review window for this booking has closed</p>
+          )}
+
+          {reviews.counterpartReview ? (
+            <div className="space-y-1">
+              <span className="text-muted-foreground">Customer&apos;s review of you:</span>
+              {renderStars(reviews.counterpartReview.rating)}
+              {reviews.counterpartReview.reviewText && <p>{reviews.counterpartReview.reviewText}</p>}
+              {showAppeal ? (
+                <div className="space-y-2 pt-1">
+                  <Textarea
+                    value={appealReason}
+                    onChange={(e) => setAppealReason(e.target.value)}
+                    placeholder="Which review rule does this review break? (at least 20 characters)"
+                    maxLength={2000}
+                    rows={3}
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => handleAppeal(reviews.counterpartReview!.id)}
+                      disabled={appealReason.trim().length < 20 || isAppealing}
+                    >
+                      {isAppealing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Send Appeal
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setShowAppeal(false)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Button size="sm" variant="ghost" className="px-0" onClick={() => setShowAppeal(true)}>
+                  <Flag className="mr-2 h-4 w-4" />
+                  Appeal this review
+                </Button>
+              )}
+            </div>
+          ) : reviews.counterpartSubmitted ? (
+            <p className="flex items-center gap-2 text-muted-foreground">
+              <EyeOff className="h-4 w-4" />
+              The customer left a review. It becomes visible once you review them or the window closes.
+            </p>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,497 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  FileText,
+  Loader2,
+  RefreshCw,
+  Send,
+  Trash2,
+  Upload
+} from "lucide-react";
+import { toast } from "@/components/ui/use-toast";
+import { format, formatDistanceToNow } from "date-fns";
+
+interface Dispute {
+  id: string;
+  stripeDisputeId: string;
+  amount: string;
+  currency: string | null;
+  reason: string;
+  status: string;
+  evidenceDueBy: string | null;
+  evidenceSubmittedAt: string | null;
+  outcome: string | null;
+  createdAt: string;
+}
+
+interface DisputeSummary {
+  dispute: Dispute;
+  booking: { id: string; serviceName: string; bookingDate: string; startTime: string } | null;
+  isOpen: boolean;
+  hoursLeft: number | null;
+}
+
+interface EvidenceFile {
+  id: string;
+  evidenceField: string;
+  filename: string;
+  size: number;
+  uploadedAt: string;
+}
+
+interface EvidenceNote {
+  id: string;
+  body: string;
+  createdAt: string;
+}
+
+interface DisputeView extends DisputeSummary {
+  evidence: Record<string, string | undefined>;
+  files: EvidenceFile[];
+  notes: EvidenceNote[];
+  canSubmit: boolean;
+}
+
+interface DisputeCenterProps {
+  initialDisputeId?: string;
+}
+
+// Mirrors disputeFileEvidenceFields in the audit schema
+const FILE_FIELD_LABELS: Record<string, string> = {
+  receipt: "Receipt",
+  service_documentation: "Proof of service",
+  customer_communication: "Customer communication",
+  customer_signature: "Customer signature",
+  cancellation_policy: "Cancellation policy",
+  refund_policy: "Refund policy",
+  uncategorized_file: "Other",
+};
+
+const TEXT_FIELD_LABELS: Record<string, string> = {
+  product_description: "Service description",
+  service_date: "Service date",
+  customer_name: "Customer name",
+  customer_email_address: "Customer email",
+  access_activity_log: "Booking activity",
+  cancellation_policy_disclosure: "Cancellation policy",
+  uncategorized_text: "Receipt, statement and messages",
+};
+
+const ACCEPTED_FILE_TYPES = "application/pdf,image/jpeg,image/png";
+
+function formatReason(reason: string) {
+  return reason.replace(/_/g, " ");
+}
+
+function deadlineBadge(summary: DisputeSummary) {
+  if (summary.dispute.evidenceSubmittedAt) {
+    return <Badge variant="secondary">Evidence submitted</Badge>;
+  }
+  if (!summary.isOpen) {
+    return <Badge variant="outline">{formatReason(summary.dispute.status)}</Badge>;
+  }
+  if (summary.hoursLeft === null) {
+    return <Badge variant="outline">Needs response</Badge>;
+  }
+  if (summary.hoursLeft <= 0) {
+    return <Badge variant="destructive">Deadline passed</Badge>;
+  }
+  return (
+    <Badge variant={summary.hoursLeft <= 72 ? "destructive" : "default"}>
+      Due {formatDistanceToNow(new Date(summary.dispute.evidenceDueBy!), { addSuffix: true })}
+    </Badge>
+  );
+}
+
+export function DisputeCenter({ initialDisputeId }: DisputeCenterProps) {
+  const [disputes, setDisputes] = useState<DisputeSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | undefined>(initialDisputeId);
+  const [view, setView] = useState<DisputeView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingView, setLoadingView] = useState(false);
+  const [noteBody, setNoteBody] = useState("");
+  const [fileField, setFileField] = useState("service_documentation");
+  const [busy, setBusy] = useState(false);
+  const [confirmSubmit, setConfirmSubmit] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchDisputes = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/providers/disputes");
+      if (!response.ok) throw new Error("Failed to fetch disputes");
+
+      const data = await response.json();
+      setDisputes(data.disputes);
+      setSelectedId((current) => current ?? data.disputes[0]?.dispute.id);
+    } catch (error) {
+      console.error("Error fetching disputes:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load disputes",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchView = useCallback(async (disputeId: string) => {
+    try {
+      setLoadingView(true);
+      const response = await fetch(`/api/providers/disputes/${disputeId}`);
+      if (!response.ok) throw new Error("Failed to fetch dispute");
+
+      setView(await response.json());
+    } catch (error) {
+      console.error("Error fetching dispute:", error);
+      setView(null);
+      toast({
+        title: "Error",
+        description: "Failed to load dispute evidence",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingView(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDisputes();
+  }, [fetchDisputes]);
+
+  useEffect(() => {
+    if (selectedId) fetchView(selectedId);
+  }, [selectedId, fetchView]);
+
+  const runAction = async (request: () => Promise<Response>, successMessage: string) => {
+    if (!selectedId) return false;
+    setBusy(true);
+    try {
+      const response = await request();
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Request failed");
+
+      toast({ title: "Success", description: successMessage });
+      await fetchView(selectedId);
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Request failed",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddNote = async () => {
+    const added = await runAction(
+      () => fetch(`/api/providers/disputes/${selectedId}/notes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: noteBody }),
+      }),
+      "Statement added"
+    );
+    if (added) setNoteBody("");
+  };
+
+  const handleRemoveNote = (noteId: string) =>
+    runAction(
+      () => fetch(`/api/providers/disputes/${selectedId}/notes?noteId=${noteId}`, { method: "DELETE" }),
+      "Statement removed"
+    );
+
+  const handleUpload = async (file: File) => {
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("evidenceField", fileField);
+
+    await runAction(
+      () => fetch(`/api/providers/disputes/${selectedId}/files`, { method: "POST", body: formData }),
+      `${file.name} uploaded`
+    );
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleRemoveFile = (fileId: string) =>
+    runAction(
+      () => fetch(`/api/providers/disputes/${selectedId}/files?fileId=${fileId}`, { method: "DELETE" }),
+      "File removed"
+    );
+
+  const handleSubmit = async () => {
+    setConfirmSubmit(false);
+    const submitted = await runAction(
+      () => fetch(`/api/providers/disputes/${selectedId}/submit`, { method: "POST" }),
+      "Evidence submitted to the card issuer"
+    );
+    if (submitted) fetchDisputes();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (disputes.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center py-12 text-center">
+          <CheckCircle className="h-10 w-10 text-green-500 mb-3" />
+          <p className="font-medium">No disputes</p>
+          <p className="text-sm text-gray-500">Chargebacks on your bookings will appear here.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const editable = view?.canSubmit ?? false;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      {/* Dispute list */}
+      <Card className="lg:col-span-1">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-lg">Disputes</CardTitle>
+          <Button variant="ghost" size="sm" onClick={fetchDisputes}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {disputes.map((summary) => (
+            <button
+              key={summary.dispute.id}
+              onClick={() => setSelectedId(summary.dispute.id)}
+              className={`w-full rounded-lg border p-3 text-left transition-colors ${
+                summary.dispute.id === selectedId
+                  ? "border-primary bg-primary/5"
+                  : "hover:bg-gray-50 dark:hover:bg-gray-900"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium truncate">
+                  {summary.booking?.serviceName ?? "Unknown booking"}
+                </span>
+                <span className="text-sm font-semibold">
+                  ${parseFloat(summary.dispute.amount).toFixed(2)}
+                </span>
+              </div>
+              <div className="mt-1 flex items-center justify-between gap-2">
+                <span className="text-xs capitalize text-gray-500">
+                  {formatReason(summary.dispute.reason)}
+                </span>
+                {deadlineBadge(summary)}
+              </div>
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Evidence workspace */}
+      <div className="space-y-6 lg:col-span-2">
+        {loadingView || !view ? (
+          <Card>
+            <CardContent className="flex items-center justify-center py-16">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle>{view.booking?.serviceName ?? "Disputed charge"}</CardTitle>
+                    <CardDescription className="capitalize">
+                      {formatReason(view.dispute.reason)} · ${parseFloat(view.dispute.amount).toFixed(2)}
+                      {view.booking && ` · ${format(new Date(view.booking.bookingDate), "MMM d, yyyy")}`}
+                    </CardDescription>
+                  </div>
+                  {deadlineBadge(view)}
+                </div>
+              </CardHeader>
+              <CardContent>
+                {view.dispute.evidenceDueBy && (
+                  <p className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                    <Clock className="h-4 w-4" />
+                    Evidence due {format(new Date(view.dispute.evidenceDueBy), "MMM d, yyyy 'at' h:mm a")}
+                  </p>
+                )}
+                {view.dispute.evidenceSubmittedAt && (
+                  <p className="flex items-center gap-2 text-sm text-green-600">
+                    <CheckCircle className="h-4 w-4" />
+                    Submitted {format(new Date(view.dispute.evidenceSubmittedAt), "MMM d, yyyy 'at' h:mm a")}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Auto-assembled evidence */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Evidence preview</CardTitle>
+                <CardDescription>
+                  Assembled from the booking, its history and your messages with the customer.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {Object.entries(TEXT_FIELD_LABELS)
+                  .filter(([field]) => view.evidence[field])
+                  .map(([field, label]) => (
+                    <div key={field}>
+                      <p className="text-sm font-medium">{label}</p>
+                      <pre className="mt-1 max-h-48 overflow-y-auto whitespace-pre-wrap rounded-md bg-gray-50 p-3 text-xs dark:bg-gray-900">
+                        {view.evidence[field]}
+                      </pre>
+                    </div>
+                  ))}
+              </CardContent>
+            </Card>
+
+            {/* Provider statements */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Your statement</CardTitle>
+                <CardDescription>Explain what happened in your own words.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {view.notes.map((note) => (
+                  <div key={note.id} className="flex items-start justify-between gap-3 rounded-md border p-3">
+                    <p className="whitespace-pre-wrap text-sm">{note.body}</p>
+                    {editable && (
+                      <Button variant="ghost" size="sm" disabled={busy} onClick={() => handleRemoveNote(note.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {editable && (
+                  <>
+                    <Textarea
+                      value={noteBody}
+                      onChange={(e) => setNoteBody(e.target.value)}
+                      placeholder="The customer attended the session on..."
+                      rows={4}
+                    />
+                    <Button size="sm" disabled={busy || !noteBody.trim()} onClick={handleAddNote}>
+                      Add statement
+                    </Button>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Files */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Supporting files</CardTitle>
+                <CardDescription>PDF, JPEG or PNG up to 5 MB.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {view.files.map((file) => (
+                  <div key={file.id} className="flex items-center justify-between gap-3 rounded-md border p-3">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <FileText className="h-4 w-4 shrink-0 text-gray-500" />
+                      <span className="truncate text-sm">{file.filename}</span>
+                      <Badge variant="outline">{FILE_FIELD_LABELS[file.evidenceField] ?? file.evidenceField}</Badge>
+                    </div>
+                    {editable && (
+                      <Button variant="ghost" size="sm" disabled={busy} onClick={() => handleRemoveFile(file.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {editable && (
+                  <div className="flex flex-wrap items-center gap-3">
+                    <Select value={fileField} onValueChange={setFileField}>
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(FILE_FIELD_LABELS).map(([field, label]) => (
+                          <SelectItem key={field} value={field}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept={ACCEPTED_FILE_TYPES}
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleUpload(file);
+                      }}
+                    />
+                    <Button variant="outline" size="sm" disabled={busy} onClick={() => fileInputRef.current?.click()}>
+                      <Upload className="mr-2 h-4 w-4" />
+                      Upload file
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {editable && (
+              <Card>
+                <CardContent className="flex items-center justify-between gap-4 pt-6">
+                  <p className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                    <AlertCircle className="h-4 w-4" />
+                    Evidence can only be submitted once.
+                  </p>
+                  <Button disabled={busy} onClick={() => setConfirmSubmit(true)}>
+                    {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                    Submit evidence
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+
+      <AlertDialog open={confirmSubmit} onOpenChange={setConfirmSubmit}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Submit evidence?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your evidence will be sent to the card issuer for review. You won&apos;t be able to
+              add or change anything afterwards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleSubmit}>Submit</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
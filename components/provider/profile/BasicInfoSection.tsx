@@ -26,7 +26,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Save, MapPin, DollarSign, Award } from "lucide-react";
+import { Save, MapPin, DollarSign, Award, ShieldCheck } from "lucide-react";
 import { toast } from "sonner";
 import { useDebouncedCallback } from "use-debounce";
 
@@ -49,6 +49,7 @@ const basicInfoSchema = z.object({
     .min(0, "Experience must be positive")
     .max(100, "Experience seems too high")
     .optional(),
+  instantBookingMinCustomerRating: z.string().default("none"),
 });
 
 type BasicInfoFormData = z.infer<typeof basicInfoSchema>;
@@ -114,6 +115,17 @@ const US_STATES = [
   { value: "WY", label: "Wyoming" },
 ];
 
+// Minimum customer rating for instant booking; "none" lets everyone book instantly
+const MIN_CUSTOMER_RATINGS = [
+  { value: "none", label: "No minimum" },
+  { value: "3.0", label: "3.0 stars or higher" },
+  { value: "3.5", label: "3.5 stars or higher" },
+  { value: "4.0", label: "4.0 stars or higher" },
+  { value: "4.5", label: "4.5 stars or higher" },
+];
+
+const minimumRatingValue = (value: string) => (value === "none" ? null : value);
+
 export function BasicInfoSection({
   provider,
   onUpdate,
@@ -133,6 +145,7 @@ export function BasicInfoSection({
       locationCountry: provider.locationCountry || "US",
       hourlyRate: provider.hourlyRate ? parseFloat(provider.hourlyRate) : undefined,
       yearsExperience: provider.yearsExperience || undefined,
+      instantBookingMinCustomerRating: provider.instantBookingMinCustomerRating || "none",
     },
   });
 
@@ -152,6 +165,7 @@ export function BasicInfoSection({
           locationCountry: data.locationCountry,
           hourlyRate: data.hourlyRate?.toString() || null,
           yearsExperience: data.yearsExperience || null,
+          instantBookingMinCustomerRating: minimumRatingValue(data.instantBookingMinCustomerRating),
         });
 
         if (result.isSuccess && result.data) {
@@ -193,6 +207,7 @@ export function BasicInfoSection({
         locationCountry: data.locationCountry,
         hourlyRate: data.hourlyRate?.toString() || null,
         yearsExperience: data.yearsExperience || null,
+        instantBookingMinCustomerRating: minimumRatingValue(data.instantBookingMinCustomerRating),
       });
 
       if (result.isSuccess && result.data) {
@@ -415,6 +430,46 @@ export function BasicInfoSection({
               />
             </div>
           </div>
+
+          {/* Booking Requirements */}
+          <FormField
+            control={form.control}
+            name="instantBookingMinCustomerRating"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>
+                  <div className="flex items-center gap-2">
+                    <ShieldCheck className="h-4 w-4" />
+                    Minimum Customer Rating for Instant Booking
+                  </div>
+                </FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    handleFieldChange(form.getValues());
+                  }}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="No minimum" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {MIN_CUSTOMER_RATINGS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  Customers rated below this, or not yet rated by a provider, send a request you accept
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
         </div>
 
         {/* Save Button (for manual save) */}
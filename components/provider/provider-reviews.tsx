@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import { toast } from "sonner";
 import { motion } from "framer-motion";
 import { Star, ThumbsUp, MessageSquare } from "lucide-react";
 import { Card } from "@/components/ui/card";
@@ -12,7 +13,11 @@ import { cn } from "@/lib/utils";
 interface Review {
   id: string;
   rating: number;
+  title?: string | null;
   reviewText?: string;
+  subRatings?: Record<string, number>;
+  helpfulCount?: number;
+  photos?: { id: string; url: string }[];
   createdAt: string;
   customerName: string;
 }
@@ -29,6 +34,29 @@ export function ProviderReviews({
   totalReviews 
 }: ProviderReviewsProps) {
   const [showAll, setShowAll] = useState(false);
+  const [helpfulVotes, setHelpfulVotes] = useState<Record<string, { voted: boolean; count: number }>>({});
+
+  const toggleHelpful = async (review: Review) => {
+    const voted = helpfulVotes[review.id]?.voted ?? false;
+    try {
+      const response = await fetch(`/api/reviews/${review.id}/helpful`, {
+        method: voted ? "DELETE" : "POST",
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(response.status === 401 ? "Sign in to vote" : result.error || "Failed to vote");
+        return;
+      }
+
+      setHelpfulVotes((votes) => ({
+        ...votes,
+        [review.id]: { voted: result.helpful, count: result.helpfulCount },
+      }));
+    } catch (error) {
+      toast.error("Failed to vote");
+    }
+  };
   
   // Calculate rating distribution
   const ratingDistribution = [5, 4, 3, 2, 1].map((rating) => ({
@@ -157,17 +185,60 @@ export function ProviderReviews({
                   </div>
                 </div>
                 
+                {review.title && (
+                  <p className="font-medium text-gray-900">{review.title}</p>
+                )}
+
                 {review.reviewText && (
                   <p className="text-gray-700 leading-relaxed">
                     {review.reviewText}
                   </p>
                 )}
+
+                {/* Category Sub-ratings */}
+                {review.subRatings && Object.keys(review.subRatings).length > 0 && (
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                    {Object.entries(review.subRatings).map(([dimension, value]) => (
+                      <span key={dimension} className="flex items-center gap-1 capitalize">
+                        {dimension}
+                        <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                        {value}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {/* Review Photos */}
+                {review.photos && review.photos.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {review.photos.map((photo) => (
+                      <a key={photo.id} href={photo.url} target="_blank" rel="noopener noreferrer">
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img
+                          src={photo.url}
+                          alt={`Photo from ${review.customerName}'s review`}
+                          className="h-20 w-20 rounded-md object-cover"
+                        />
+                      </a>
+                    ))}
+                  </div>
+                )}
                 
                 {/* Review Actions */}
                 <div className="flex items-center gap-4 pt-2">
-                  <button className="flex items-center gap-1.5 text-sm text-gray-500 hover:text-gray-700 transition-colors">
+                  <button
+                    onClick={() => toggleHelpful(review)}
+                    className={cn(
+                      "flex items-center gap-1.5 text-sm transition-colors",
+                      helpfulVotes[review.id]?.voted
+                        ? "text-blue-600"
+                        : "text-gray-500 hover:text-gray-700"
+                    )}
+                  >
                     <ThumbsUp className="h-4 w-4" />
                     Helpful
+                    {(helpfulVotes[review.id]?.count ?? review.helpfulCount ?? 0) > 0 &&
+                      ` (${helpfulVotes[review.id]?.count ?? review.helpfulCount})`}
                   </button>
                   <button className="flex items-center gap-1.5 text-sm text-gray-500 hover:text-gray-700 transition-colors">
                     <MessageSquare className="h-4 w-4" />
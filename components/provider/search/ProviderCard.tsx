@@ -24,6 +24,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
 import { VerificationBadgeGroup, useProviderVerificationBadges } from "@/components/ui/verification-badge";
 import { cn } from "@/lib/utils";
+import { formatAmount } from "@/lib/payments/currency";
 import type { Provider } from "@/db/schema/providers-schema";
 
 interface ExtendedProvider extends Provider {
@@ -166,7 +167,7 @@ export function ProviderCard({
                     {provider.hourlyRate && (
                       <div className="text-right ml-4">
                         <div className="text-lg font-semibold">
-                          ${provider.hourlyRate}
+                          {formatAmount(Number(provider.hourlyRate), provider.currency)}
                         </div>
                         <div className="text-xs text-muted-foreground">
                           per hour
@@ -324,7 +325,7 @@ export function ProviderCard({
           {provider.hourlyRate && (
             <div className="absolute bottom-2 right-2 bg-background/90 backdrop-blur-sm rounded-md px-2 py-1">
               <div className="text-sm font-semibold">
-                ${provider.hourlyRate}/hr
+                {formatAmount(Number(provider.hourlyRate), provider.currency)}/hr
               </div>
             </div>
           )}
@@ -128,6 +128,23 @@ export function ProviderCard({ provider, onBook, className }: ProviderCardProps)
           </div>
         )}
 
+        {/* Next Available */}
+        {provider.nextAvailableAt && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Calendar className="h-4 w-4" />
+            <span>
+              Next available:{" "}
+              {new Date(provider.nextAvailableAt).toLocaleString("en-US", {
+                weekday: "short",
+                month: "short",
+                day: "numeric",
+                hour: "numeric",
+                minute: "2-digit",
+              })}
+            </span>
+          </div>
+        )}
+
         {/* Pricing */}
         {provider.hourlyRate && (
           <div className="flex items-center justify-between">
@@ -0,0 +1,168 @@
+"use client";
+
+import React, { useState } from "react";
+import { useAuth } from "@clerk/nextjs";
+import { BellPlus, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/components/ui/use-toast";
+import type { FilterState } from "@/components/search/SearchFilters";
+
+interface SaveSearchButtonProps {
+  query: string;
+  vertical: string;
+  category?: string;
+  filters: FilterState;
+  location?: { lat: number; lng: number; radius?: number } | null;
+}
+
+const FREQUENCIES = [
+  { value: "instant", label: "As soon as they're listed" },
+  { value: "daily", label: "In a daily digest" },
+];
+
+// Search radiuses are picked in miles; saved searches store kilometres
+const KM_PER_MILE = 1.60934;
+
+export function SaveSearchButton({
+  query,
+  vertical,
+  category,
+  filters,
+  location,
+}: SaveSearchButtonProps) {
+  const { isSignedIn } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [frequency, setFrequency] = useState("daily");
+  const [saving, setSaving] = useState(false);
+
+  const handleOpen = () => {
+    if (!isSignedIn) {
+      toast({
+        title: "Sign in to save searches",
+        description: "We'll let you know when new listings match.",
+      });
+      return;
+    }
+    setName(query || category || "My search");
+    setOpen(true);
+  };
+
+  const handleSave = async () => {
+    const searchLocation = filters.location || location;
+
+    setSaving(true);
+    try {
+      const response = await fetch("/api/saved-searches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          frequency,
+          query: {
+            query: query || undefined,
+            verticals: vertical !== "all" ? [vertical] : undefined,
+            categories: category ? [category] : undefined,
+            location: searchLocation ? {
+              latitude: searchLocation.lat,
+              longitude: searchLocation.lng,
+              radiusKm: (searchLocation.radius || 10) * KM_PER_MILE,
+            } : undefined,
+            priceRange: filters.priceRange ? {
+              min: filters.priceRange.min,
+              max: filters.priceRange.max ?? Number.MAX_SAFE_INTEGER,
+            } : undefined,
+          },
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save search");
+      }
+
+      setOpen(false);
+      toast({
+        title: "Search saved",
+        description: "Manage your alerts under Saved Searches in your account.",
+        duration: 3000,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save search",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={handleOpen}>
+        <BellPlus className="h-4 w-4 mr-2" />
+        Save search
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save this search</DialogTitle>
+            <DialogDescription>
+              Get notified when new listings matching your search and filters are published.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Send me new matches</Label>
+              <RadioGroup value={frequency} onValueChange={setFrequency}>
+                {FREQUENCIES.map((option) => (
+                  <div key={option.value} className="flex items-center gap-2">
+                    <RadioGroupItem value={option.value} id={`frequency-${option.value}`} />
+                    <Label htmlFor={`frequency-${option.value}`} className="font-normal">
+                      {option.label}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!name.trim() || saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save search
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
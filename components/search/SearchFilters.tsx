@@ -18,7 +18,8 @@ import {
   Wifi,
   Car,
   Shield,
-  Tag
+  Tag,
+  LayoutGrid
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -48,12 +49,14 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { format } from "date-fns";
+import { addDays, format, parse, startOfDay } from "date-fns";
+import type { SearchFacets, UnifiedSearchVertical } from "@/lib/search/unified-search";
 
 // Types
 export interface FilterState {
   // Common filters
-  priceRange?: { min: number; max: number };
+  category?: string;
+  priceRange?: { min: number; max?: number }; // No max for the top price bucket
   location?: {
     lat: number;
     lng: number;
@@ -63,7 +66,7 @@ export interface FilterState {
   
   // Service filters
   serviceType?: string;
-  availability?: "available" | "busy" | "offline";
+  availability?: { date: string; time?: string }; // YYYY-MM-DD and HH:mm, in the listing's local time
   instantBooking?: boolean;
   providerVerified?: boolean;
   serviceDuration?: { min: number; max: number };
@@ -96,7 +99,9 @@ interface SearchFiltersProps {
   onFiltersChange: (filters: FilterState) => void;
   onApply?: () => void;
   onReset?: () => void;
+  onVerticalChange?: (vertical: UnifiedSearchVertical | "all") => void;
   categories?: Array<{ id: string; name: string; slug: string }>;
+  facets?: SearchFacets;
   className?: string;
   isMobile?: boolean;
 }
@@ -124,6 +129,22 @@ const SPACE_AMENITIES = [
   { value: "whiteboard", label: "Whiteboard", icon: Package },
 ];
 
+// Search has provider slots precomputed this far ahead
+const AVAILABILITY_DAYS_AHEAD = 14;
+
+// Half-hourly start times from 06:00 to 22:00
+const AVAILABILITY_TIMES = Array.from({ length: 33 }, (_, i) => {
+  const minutes = 6 * 60 + i * 30;
+  return `${Math.floor(minutes / 60).toString().padStart(2, "0")}:${(minutes % 60).toString().padStart(2, "0")}`;
+});
+
+const VERTICAL_LABELS: Record<UnifiedSearchVertical, string> = {
+  services: "Services",
+  events: "Events",
+  spaces: "Spaces",
+  things: "Things",
+};
+
 const THING_CONDITIONS = [
   { value: "new", label: "New", description: "Brand new, unused" },
   { value: "like_new", label: "Like New", description: "Barely used, excellent condition" },
@@ -138,13 +159,15 @@ export function SearchFilters({
   onFiltersChange,
   onApply,
   onReset,
+  onVerticalChange,
   categories = [],
+  facets,
   className,
   isMobile = false,
 }: SearchFiltersProps) {
   const [localFilters, setLocalFilters] = useState<FilterState>(filters);
   const [expandedSections, setExpandedSections] = useState<Set<string>>(
-    new Set(["price", "category"])
+    new Set(["type", "price", "category", "distance"])
   );
   const [activeFilterCount, setActiveFilterCount] = useState(0);
 
@@ -284,11 +307,140 @@ export function SearchFilters({
           <span>${min}</span>
           <span>${max}</span>
         </div>
+        {facets && facets.prices.some((bucket) => bucket.count > 0) && (
+          <div className="space-y-1">
+            {facets.prices.map((bucket) => (
+              <button
+                key={bucket.min}
+                type="button"
+                disabled={bucket.count === 0}
+                onClick={() => updateFilter("priceRange", {
+                  min: bucket.min,
+                  max: bucket.max ?? undefined
+                })}
+                className={cn(
+                  "flex w-full items-center justify-between rounded px-2 py-1 text-sm hover:bg-accent disabled:opacity-50",
+                  localFilters.priceRange?.min === bucket.min &&
+                    localFilters.priceRange?.max === (bucket.max ?? undefined) &&
+                    "bg-accent font-medium"
+                )}
+              >
+                <span>{bucket.max === null ? `$${bucket.min}+` : `$${bucket.min} - $${bucket.max}`}</span>
+                <span className="text-xs text-muted-foreground">{bucket.count}</span>
+              </button>
+            ))}
+          </div>
+        )}
       </div>,
       <DollarSign className="h-4 w-4" />
     );
   };
 
+  // Listing type facet, switching the vertical being searched
+  const renderTypeFacet = () => {
+    if (!facets || !onVerticalChange || facets.types.length === 0) return null;
+
+    return renderFilterSection(
+      "Type",
+      "type",
+      <div className="space-y-1">
+        {vertical !== "all" && (
+          <button
+            type="button"
+            onClick={() => onVerticalChange("all")}
+            className="flex w-full items-center rounded px-2 py-1 text-sm hover:bg-accent"
+          >
+            All types
+          </button>
+        )}
+        {facets.types.map((type) => (
+          <button
+            key={type.value}
+            type="button"
+            onClick={() => onVerticalChange(type.value)}
+            className={cn(
+              "flex w-full items-center justify-between rounded px-2 py-1 text-sm hover:bg-accent",
+              vertical === type.value && "bg-accent font-medium"
+            )}
+          >
+            <span>{VERTICAL_LABELS[type.value]}</span>
+            <span className="text-xs text-muted-foreground">{type.count}</span>
+          </button>
+        ))}
+      </div>,
+      <LayoutGrid className="h-4 w-4" />
+    );
+  };
+
+  // Category facet
+  const renderCategoryFacet = () => {
+    if (!facets || facets.categories.length === 0) return null;
+
+    return renderFilterSection(
+      "Category",
+      "category",
+      <RadioGroup
+        value={localFilters.category || "all"}
+        onValueChange={(value) => updateFilter("category", value === "all" ? undefined : value)}
+      >
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="all" id="category-all" />
+            <Label htmlFor="category-all">All Categories</Label>
+          </div>
+          {facets.categories.slice(0, 10).map((category) => (
+            <div key={category.value} className="flex items-center space-x-2">
+              <RadioGroupItem value={category.value} id={`category-${category.value}`} />
+              <Label
+                htmlFor={`category-${category.value}`}
+                className="flex flex-1 items-center justify-between cursor-pointer capitalize"
+              >
+                <span>{category.value.replace("_", " ")}</span>
+                <span className="text-xs text-muted-foreground">{category.count}</span>
+              </Label>
+            </div>
+          ))}
+        </div>
+      </RadioGroup>,
+      <Tag className="h-4 w-4" />
+    );
+  };
+
+  // Distance facet, only when searching near a location
+  const renderDistanceFacet = () => {
+    const distances = facets?.distances;
+    if (!distances) return null;
+
+    return renderFilterSection(
+      "Distance",
+      "distance",
+      <RadioGroup
+        value={localFilters.location?.radius?.toString() || ""}
+        onValueChange={(value) => updateFilter("location", {
+          lat: localFilters.location?.lat ?? distances.origin.lat,
+          lng: localFilters.location?.lng ?? distances.origin.lng,
+          radius: parseInt(value)
+        })}
+      >
+        <div className="space-y-2">
+          {distances.buckets.map((bucket) => (
+            <div key={bucket.maxMiles} className="flex items-center space-x-2">
+              <RadioGroupItem value={bucket.maxMiles.toString()} id={`distance-${bucket.maxMiles}`} />
+              <Label
+                htmlFor={`distance-${bucket.maxMiles}`}
+                className="flex flex-1 items-center justify-between cursor-pointer"
+              >
+                <span>Within {bucket.maxMiles} miles</span>
+                <span className="text-xs text-muted-foreground">{bucket.count}</span>
+              </Label>
+            </div>
+          ))}
+        </div>
+      </RadioGroup>,
+      <MapPin className="h-4 w-4" />
+    );
+  };
+
   // Common rating filter
   const renderRatingFilter = () => {
     return renderFilterSection(
@@ -312,34 +464,69 @@ export function SearchFilters({
     );
   };
 
+  // Services and spaces with an open slot on a day, optionally around a time
+  const renderAvailabilityFilter = () => {
+    const today = startOfDay(new Date());
+    const selectedDate = localFilters.availability
+      ? parse(localFilters.availability.date, "yyyy-MM-dd", today)
+      : undefined;
+
+    return renderFilterSection(
+      "Availability",
+      "availability",
+      <div className="space-y-3">
+        <div>
+          <Label className="text-xs">Date</Label>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="w-full justify-start text-left font-normal">
+                <Calendar className="mr-2 h-4 w-4" />
+                {selectedDate ? format(selectedDate, "PPP") : <span>Any date</span>}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0">
+              <CalendarComponent
+                mode="single"
+                selected={selectedDate}
+                onSelect={(date) => updateFilter("availability", date
+                  ? { date: format(date, "yyyy-MM-dd"), time: localFilters.availability?.time }
+                  : undefined
+                )}
+                disabled={[{ before: today }, { after: addDays(today, AVAILABILITY_DAYS_AHEAD - 1) }]}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+        <div>
+          <Label className="text-xs">Time</Label>
+          <Select
+            value={localFilters.availability?.time || "any"}
+            onValueChange={(value) => localFilters.availability && updateFilter("availability", {
+              date: localFilters.availability.date,
+              time: value === "any" ? undefined : value,
+            })}
+            disabled={!localFilters.availability}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any time</SelectItem>
+              {AVAILABILITY_TIMES.map((time) => (
+                <SelectItem key={time} value={time}>{time}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>,
+      <Clock className="h-4 w-4" />
+    );
+  };
+
   // Service-specific filters
   const renderServiceFilters = () => (
     <>
-      {renderFilterSection(
-        "Availability",
-        "availability",
-        <RadioGroup
-          value={localFilters.availability || "all"}
-          onValueChange={(value) => updateFilter("availability", value === "all" ? undefined : value)}
-        >
-          <div className="space-y-2">
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="all" id="avail-all" />
-              <Label htmlFor="avail-all">All</Label>
-            </div>
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="available" id="avail-available" />
-              <Label htmlFor="avail-available">Available Now</Label>
-            </div>
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="busy" id="avail-busy" />
-              <Label htmlFor="avail-busy">Busy</Label>
-            </div>
-          </div>
-        </RadioGroup>,
-        <Clock className="h-4 w-4" />
-      )}
-      
       {renderFilterSection(
         "Booking Options",
         "booking",
@@ -664,8 +851,12 @@ export function SearchFilters({
           </div>
 
           <div className="p-4 space-y-4">
+            {renderTypeFacet()}
+            {renderCategoryFacet()}
             {renderPriceFilter()}
+            {renderDistanceFacet()}
             {renderRatingFilter()}
+            {vertical !== "events" && vertical !== "things" && renderAvailabilityFilter()}
             
             {vertical === "services" && renderServiceFilters()}
             {vertical === "events" && renderEventFilters()}
@@ -707,8 +898,12 @@ export function SearchFilters({
 
       <div className="space-y-4">
         {/* Common filters */}
+        {renderTypeFacet()}
+        {renderCategoryFacet()}
         {renderPriceFilter()}
+        {renderDistanceFacet()}
         {renderRatingFilter()}
+        {vertical !== "events" && vertical !== "things" && renderAvailabilityFilter()}
         
         <Separator />
         
@@ -40,13 +40,9 @@ import {
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/components/ui/use-toast";
+import type { SearchSuggestion, SuggestionResult } from "@/lib/search/autocomplete";
 
 // Types
-interface SearchSuggestion {
-  type: "service" | "event" | "space" | "thing" | "category";
-  text: string;
-  category?: string;
-}
 
 interface RecentSearch {
   query: string;
@@ -54,6 +50,12 @@ interface RecentSearch {
   timestamp: number;
 }
 
+interface SearchSelection {
+  text?: string;
+  vertical?: string;
+  category?: string | null;
+}
+
 interface UnifiedSearchBarProps {
   onSearch?: (query: string, filters?: any) => void;
   placeholder?: string;
@@ -73,6 +75,16 @@ const VERTICALS = [
   { value: "things", label: "Things", icon: "📦" },
 ];
 
+const SUGGESTION_KIND_LABELS: Record<SearchSuggestion["kind"], string> = {
+  category: "Category",
+  provider: "Provider",
+  service: "Service",
+  event: "Event",
+  city: "City",
+  query: "Popular",
+};
+
+// Shown until enough searches are logged to know what's trending
 const TRENDING_SEARCHES = [
   "House cleaning",
   "Yoga classes",
@@ -106,6 +118,8 @@ export function UnifiedSearchBar({
     searchParams.get("vertical") || "all"
   );
   const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [didYouMean, setDidYouMean] = useState<string | null>(null);
+  const [trendingSearches, setTrendingSearches] = useState<string[]>(TRENDING_SEARCHES);
   const [recentSearches, setRecentSearches] = useState<RecentSearch[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -159,59 +173,91 @@ export function UnifiedSearchBar({
     }
   }, [showVoiceSearch, toast]);
 
-  // Fetch suggestions when query changes
+  // Fetch suggestions when the query or vertical changes; without a query,
+  // the most searched terms replace the trending fallback
   useEffect(() => {
-    if (debouncedQuery.length >= 2) {
-      fetchSuggestions(debouncedQuery);
+    let stale = false;
+    const searchQuery = debouncedQuery.trim();
+
+    if (searchQuery.length >= 2) {
+      fetchSuggestions(searchQuery, selectedVertical).then((result) => {
+        if (stale) return;
+        setSuggestions(result?.suggestions || []);
+        setDidYouMean(result?.didYouMean || null);
+      });
     } else {
       setSuggestions([]);
+      setDidYouMean(null);
+      if (searchQuery.length === 0) {
+        fetchSuggestions("", selectedVertical).then((result) => {
+          if (!stale && result && result.suggestions.length > 0) {
+            setTrendingSearches(result.suggestions.map(s => s.text));
+          }
+        });
+      }
     }
-  }, [debouncedQuery]);
+
+    // Ignore responses for a query the customer has already typed past
+    return () => {
+      stale = true;
+    };
+  }, [debouncedQuery, selectedVertical]);
 
   // Fetch search suggestions
-  const fetchSuggestions = async (searchQuery: string) => {
+  const fetchSuggestions = async (searchQuery: string, vertical: string): Promise<SuggestionResult | null> => {
     try {
-      const response = await fetch("/api/unified-search/suggestions", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ query: searchQuery }),
-      });
+      const params = new URLSearchParams({ q: searchQuery });
+      if (vertical !== "all") {
+        params.set("vertical", vertical);
+      }
+
+      const response = await fetch(`/api/unified-search/suggestions?${params.toString()}`);
 
       if (response.ok) {
-        const data = await response.json();
-        setSuggestions(data.suggestions || []);
+        const { data } = await response.json();
+        return data;
       }
     } catch (error) {
       console.error("Failed to fetch suggestions:", error);
     }
+    return null;
   };
 
-  // Handle search submission
-  const handleSearch = useCallback(() => {
-    if (!query.trim()) return;
+  // Handle search submission, for the typed query or a picked suggestion
+  const handleSearch = useCallback((selection: SearchSelection = {}) => {
+    const searchText = (selection.text ?? query).trim();
+    const vertical = selection.vertical ?? selectedVertical;
+    if (!searchText && !selection.category) return;
 
     setIsSearching(true);
     setShowSuggestions(false);
 
     // Save to recent searches
     const newSearch: RecentSearch = {
-      query: query.trim(),
-      category: selectedVertical !== "all" ? selectedVertical : undefined,
+      query: searchText,
+      category: vertical !== "all" ? vertical : undefined,
       timestamp: Date.now(),
     };
 
-    const updatedRecent = [
-      newSearch,
-      ...recentSearches.filter(s => s.query !== newSearch.query).slice(0, 9),
-    ];
-    setRecentSearches(updatedRecent);
-    localStorage.setItem("recentSearches", JSON.stringify(updatedRecent));
+    if (searchText) {
+      const updatedRecent = [
+        newSearch,
+        ...recentSearches.filter(s => s.query !== newSearch.query).slice(0, 9),
+      ];
+      setRecentSearches(updatedRecent);
+      localStorage.setItem("recentSearches", JSON.stringify(updatedRecent));
+    }
 
     // Build search params
     const params = new URLSearchParams();
-    params.set("q", query.trim());
-    if (selectedVertical !== "all") {
-      params.set("vertical", selectedVertical);
+    if (searchText) {
+      params.set("q", searchText);
+    }
+    if (vertical !== "all") {
+      params.set("vertical", vertical);
+    }
+    if (selection.category) {
+      params.set("category", selection.category);
     }
     if (location) {
       params.set("lat", location.lat.toString());
@@ -223,8 +269,9 @@ export function UnifiedSearchBar({
 
     // Call onSearch callback if provided
     if (onSearch) {
-      onSearch(query.trim(), {
-        vertical: selectedVertical,
+      onSearch(searchText, {
+        vertical,
+        category: selection.category || undefined,
         location,
       });
     }
@@ -296,14 +343,25 @@ export function UnifiedSearchBar({
   const handleClear = () => {
     setQuery("");
     setSuggestions([]);
+    setDidYouMean(null);
     inputRef.current?.focus();
   };
 
-  // Handle suggestion click
+  // Handle suggestion click; a category filters by it instead of searching its name
   const handleSuggestionClick = (suggestion: SearchSuggestion) => {
-    setQuery(suggestion.text);
+    const vertical = suggestion.vertical ?? selectedVertical;
+    const text = suggestion.kind === "category" ? "" : suggestion.text;
+
+    setQuery(text);
+    setSelectedVertical(vertical);
     setShowSuggestions(false);
-    handleSearch();
+    handleSearch({ text, vertical, category: suggestion.kind === "category" ? suggestion.category : undefined });
+  };
+
+  // Handle "did you mean" click
+  const handleCorrectionClick = (correction: string) => {
+    setQuery(correction);
+    handleSearch({ text: correction });
   };
 
   // Handle recent search click
@@ -312,7 +370,7 @@ export function UnifiedSearchBar({
     if (search.category) {
       setSelectedVertical(search.category);
     }
-    handleSearch();
+    handleSearch({ text: search.query, vertical: search.category });
   };
 
   // Mobile overlay for full-screen search
@@ -345,7 +403,7 @@ export function UnifiedSearchBar({
                   autoFocus
                 />
               </div>
-              <Button onClick={handleSearch} disabled={isSearching}>
+              <Button onClick={() => handleSearch()} disabled={isSearching}>
                 {isSearching ? (
                   <Loader2 className="h-5 w-5 animate-spin" />
                 ) : (
@@ -356,6 +414,15 @@ export function UnifiedSearchBar({
 
             {/* Mobile suggestions and recent searches */}
             <div className="space-y-4">
+              {didYouMean && (
+                <button
+                  onClick={() => handleCorrectionClick(didYouMean)}
+                  className="w-full text-left p-3 hover:bg-accent rounded-lg text-sm"
+                >
+                  Did you mean <span className="font-medium">{didYouMean}</span>?
+                </button>
+              )}
+
               {suggestions.length > 0 && (
                 <div>
                   <h3 className="text-sm font-medium text-muted-foreground mb-2">
@@ -369,11 +436,9 @@ export function UnifiedSearchBar({
                     >
                       <div className="flex items-center justify-between">
                         <span>{suggestion.text}</span>
-                        {suggestion.category && (
-                          <Badge variant="secondary" className="text-xs">
-                            {suggestion.category}
-                          </Badge>
-                        )}
+                        <Badge variant="secondary" className="text-xs">
+                          {SUGGESTION_KIND_LABELS[suggestion.kind]}
+                        </Badge>
                       </div>
                     </button>
                   ))}
@@ -476,7 +541,7 @@ export function UnifiedSearchBar({
 
             {/* Search button */}
             <Button
-              onClick={handleSearch}
+              onClick={() => handleSearch()}
               disabled={isSearching || !query.trim()}
               size="sm"
               className="absolute right-1 h-8"
@@ -500,6 +565,18 @@ export function UnifiedSearchBar({
               >
                 <Command>
                   <CommandList>
+                    {/* Typo correction */}
+                    {didYouMean && (
+                      <CommandGroup>
+                        <CommandItem onSelect={() => handleCorrectionClick(didYouMean)}>
+                          <Search className="mr-2 h-4 w-4" />
+                          <span>
+                            Did you mean <span className="font-medium">{didYouMean}</span>?
+                          </span>
+                        </CommandItem>
+                      </CommandGroup>
+                    )}
+
                     {/* Suggestions */}
                     {suggestions.length > 0 && (
                       <CommandGroup heading="Suggestions">
@@ -510,11 +587,9 @@ export function UnifiedSearchBar({
                           >
                             <Search className="mr-2 h-4 w-4" />
                             <span className="flex-1">{suggestion.text}</span>
-                            {suggestion.category && (
-                              <Badge variant="secondary" className="ml-2">
-                                {suggestion.category}
-                              </Badge>
-                            )}
+                            <Badge variant="secondary" className="ml-2">
+                              {SUGGESTION_KIND_LABELS[suggestion.kind]}
+                            </Badge>
                           </CommandItem>
                         ))}
                       </CommandGroup>
@@ -547,12 +622,12 @@ export function UnifiedSearchBar({
                     {/* Trending searches */}
                     {query.length < 2 && recentSearches.length === 0 && (
                       <CommandGroup heading="Trending">
-                        {TRENDING_SEARCHES.map((trend, index) => (
+                        {trendingSearches.map((trend, index) => (
                           <CommandItem
                             key={index}
                             onSelect={() => {
                               setQuery(trend);
-                              handleSearch();
+                              handleSearch({ text: trend });
                             }}
                           >
                             <TrendingUp className="mr-2 h-4 w-4" />
@@ -0,0 +1,11 @@
+-- Track which blocked slots were imported from external iCalendar files
+-- Re-importing a calendar replaces the previously imported blocks in its window
+
+ALTER TABLE provider_blocked_slots
+ADD COLUMN IF NOT EXISTS external_uid TEXT;
+
+CREATE INDEX IF NOT EXISTS provider_blocked_slots_external_uid_idx
+ON provider_blocked_slots (provider_id, external_uid)
+WHERE external_uid IS NOT NULL;
+
+COMMENT ON COLUMN provider_blocked_slots.external_uid IS 'UID of the iCalendar event this block was imported from';
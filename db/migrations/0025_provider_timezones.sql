@@ -0,0 +1,16 @@
+-- Provider timezones for DST-aware slot generation
+-- provider_availability keeps local "09:00" strings; the zone below says where that wall clock lives
+
+ALTER TABLE providers
+ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'America/New_York';
+
+COMMENT ON COLUMN providers.timezone IS 'IANA timezone used to interpret provider_availability and blocked slot times';
+
+-- Cached slots carry the UTC instants they resolve to, so readers never re-derive offsets
+ALTER TABLE availability_cache
+ADD COLUMN IF NOT EXISTS starts_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS ends_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_availability_cache_provider_starts_at
+ON availability_cache (provider_id, starts_at)
+WHERE is_available = true;
@@ -0,0 +1,52 @@
+-- Waitlist for fully booked service slots, events and spaces
+-- A cancellation offers the freed spot to the next waiting customer behind a slot hold
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id TEXT NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  target_type TEXT NOT NULL CHECK (target_type IN ('service', 'event', 'space')),
+  provider_id UUID NOT NULL REFERENCES providers(id) ON DELETE CASCADE,
+  service_id UUID,
+  event_id UUID REFERENCES events(id) ON DELETE CASCADE,
+  space_id UUID REFERENCES spaces(id) ON DELETE CASCADE,
+  slot_date TIMESTAMP,
+  start_time TEXT,
+  end_time TEXT,
+  party_size INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'offered', 'claimed', 'expired', 'cancelled')),
+  hold_id TEXT,
+  offered_at TIMESTAMP,
+  offer_expires_at TIMESTAMP,
+  claimed_at TIMESTAMP,
+  source_booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT waitlist_entries_target_check CHECK (
+    (target_type = 'event' AND event_id IS NOT NULL)
+    OR (target_type <> 'event' AND slot_date IS NOT NULL AND start_time IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_slot
+ON waitlist_entries (provider_id, slot_date, start_time, status);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_event
+ON waitlist_entries (event_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_customer
+ON waitlist_entries (customer_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_offer_expiry
+ON waitlist_entries (status, offer_expires_at)
+WHERE status = 'offered';
+
+-- A customer holds at most one active place per target
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_active_slot_unique
+ON waitlist_entries (customer_id, provider_id, COALESCE(space_id, '00000000-0000-0000-0000-000000000000'::uuid), slot_date, start_time)
+WHERE status IN ('waiting', 'offered') AND event_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_active_event_unique
+ON waitlist_entries (customer_id, event_id)
+WHERE status IN ('waiting', 'offered') AND event_id IS NOT NULL;
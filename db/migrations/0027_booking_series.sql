@@ -0,0 +1,60 @@
+-- Recurring booking series (weekly, biweekly, monthly) for services
+-- Each expanded occurrence gets its own bookings row, linked back through series_id
+
+CREATE TABLE IF NOT EXISTS booking_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id TEXT NOT NULL REFERENCES profiles(user_id) ON DELETE RESTRICT,
+  provider_id UUID NOT NULL REFERENCES providers(id) ON DELETE RESTRICT,
+  service_id UUID,
+  service_name TEXT NOT NULL,
+  service_price NUMERIC(10, 2) NOT NULL,
+  service_duration INTEGER NOT NULL,
+  recurrence JSONB NOT NULL,
+  rrule TEXT NOT NULL,
+  timezone TEXT NOT NULL,
+  stripe_customer_id TEXT NOT NULL,
+  stripe_payment_method_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'completed', 'cancelled')),
+  reserved_through TIMESTAMP,
+  customer_notes TEXT,
+  cancellation_reason TEXT,
+  cancelled_by TEXT,
+  cancelled_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_series_customer ON booking_series (customer_id);
+CREATE INDEX IF NOT EXISTS idx_booking_series_provider ON booking_series (provider_id);
+CREATE INDEX IF NOT EXISTS idx_booking_series_status ON booking_series (status);
+
+CREATE TABLE IF NOT EXISTS booking_series_occurrences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  series_id UUID NOT NULL REFERENCES booking_series(id) ON DELETE CASCADE,
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  original_date TIMESTAMP NOT NULL,
+  starts_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'reserved'
+    CHECK (status IN ('reserved', 'rescheduled', 'skipped', 'cancelled', 'conflict')),
+  payment_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (payment_status IN ('pending', 'succeeded', 'failed', 'refunded', 'not_charged')),
+  stripe_payment_intent_id TEXT,
+  charged_at TIMESTAMP,
+  payment_error TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_series_occurrence_date
+ON booking_series_occurrences (series_id, original_date);
+
+CREATE INDEX IF NOT EXISTS idx_series_occurrence_charge
+ON booking_series_occurrences (payment_status, starts_at)
+WHERE payment_status = 'pending';
+
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES booking_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_series_id ON bookings (series_id)
+WHERE series_id IS NOT NULL;
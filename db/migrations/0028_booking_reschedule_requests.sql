@@ -0,0 +1,34 @@
+-- Customer-initiated booking reschedules
+-- Applied immediately, or held as pending until the provider approves when the service requires approval
+
+CREATE TABLE IF NOT EXISTS booking_reschedule_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  requested_by TEXT NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  previous_date TIMESTAMP NOT NULL,
+  previous_start_time TEXT NOT NULL,
+  previous_end_time TEXT NOT NULL,
+  requested_date TIMESTAMP NOT NULL,
+  requested_start_time TEXT NOT NULL,
+  requested_end_time TEXT NOT NULL,
+  previous_price NUMERIC(10, 2) NOT NULL,
+  new_price NUMERIC(10, 2) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'applied', 'declined', 'withdrawn')),
+  requires_approval BOOLEAN NOT NULL DEFAULT FALSE,
+  reason TEXT,
+  response_note TEXT,
+  responded_by TEXT,
+  responded_at TIMESTAMP,
+  applied_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reschedule_requests_booking
+ON booking_reschedule_requests (booking_id, status);
+
+-- At most one request awaiting approval per booking
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reschedule_requests_pending_unique
+ON booking_reschedule_requests (booking_id)
+WHERE status = 'pending';
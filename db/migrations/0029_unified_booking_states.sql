@@ -0,0 +1,89 @@
+-- Unify booking statuses on the canonical state machine states (Master PRD §4.7.1)
+-- Older code paths wrote statuses from two other vocabularies, sometimes in upper case
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS state_expires_at TIMESTAMP;
+
+-- Provider-initiated cancellations keep their side
+UPDATE bookings b
+SET status = 'canceled_provider'
+FROM providers p
+WHERE b.provider_id = p.id
+  AND LOWER(b.status) IN ('cancelled', 'canceled')
+  AND b.cancelled_by = p.user_id;
+
+-- Series occurrences are charged off-session and never wait on the provider
+UPDATE bookings
+SET status = 'confirmed'
+WHERE series_id IS NOT NULL
+  AND LOWER(status) = 'pending';
+
+UPDATE bookings
+SET status = CASE LOWER(status)
+  WHEN 'initiated' THEN 'draft'
+  WHEN 'pending' THEN 'pending_provider'
+  WHEN 'accepted' THEN 'confirmed'
+  WHEN 'rejected' THEN 'canceled_provider'
+  WHEN 'payment_pending' THEN 'hold'
+  WHEN 'payment_succeeded' THEN 'confirmed'
+  WHEN 'payment_failed' THEN 'draft'
+  WHEN 'cancelled' THEN 'canceled_customer'
+  WHEN 'canceled' THEN 'canceled_customer'
+  WHEN 'refunded' THEN 'refunded_full'
+  WHEN 'no_show' THEN 'no_show_customer'
+  WHEN 'disputed' THEN 'dispute'
+  ELSE LOWER(status)
+END
+WHERE status NOT IN (
+  'draft', 'hold', 'pending_provider', 'confirmed', 'in_progress', 'completed',
+  'canceled_customer', 'canceled_provider', 'no_show_customer', 'no_show_provider',
+  'refunded_partial', 'refunded_full', 'dispute'
+);
+
+-- Rewrite transition history with the same mapping so reports read one vocabulary
+UPDATE booking_state_transitions
+SET to_status = CASE LOWER(to_status)
+  WHEN 'initiated' THEN 'draft'
+  WHEN 'pending' THEN 'pending_provider'
+  WHEN 'accepted' THEN 'confirmed'
+  WHEN 'rejected' THEN 'canceled_provider'
+  WHEN 'payment_pending' THEN 'hold'
+  WHEN 'payment_succeeded' THEN 'confirmed'
+  WHEN 'payment_failed' THEN 'draft'
+  WHEN 'cancelled' THEN 'canceled_customer'
+  WHEN 'canceled' THEN 'canceled_customer'
+  WHEN 'refunded' THEN 'refunded_full'
+  WHEN 'no_show' THEN 'no_show_customer'
+  WHEN 'disputed' THEN 'dispute'
+  ELSE LOWER(to_status)
+END;
+
+-- Start the timeout clock for bookings already sitting in timed states
+UPDATE bookings
+SET state_expires_at = updated_at + CASE status
+  WHEN 'draft' THEN INTERVAL '30 minutes'
+  WHEN 'hold' THEN INTERVAL '10 minutes'
+  WHEN 'pending_provider' THEN INTERVAL '24 hours'
+END
+WHERE status IN ('draft', 'hold', 'pending_provider')
+  AND state_expires_at IS NULL;
+
+ALTER TABLE bookings ALTER COLUMN status SET DEFAULT 'pending_provider';
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_status_check CHECK (status IN (
+  'draft', 'hold', 'pending_provider', 'confirmed', 'in_progress', 'completed',
+  'canceled_customer', 'canceled_provider', 'no_show_customer', 'no_show_provider',
+  'refunded_partial', 'refunded_full', 'dispute'
+));
+
+ALTER TABLE booking_state_transitions DROP CONSTRAINT IF EXISTS booking_state_transitions_to_status_check;
+ALTER TABLE booking_state_transitions ADD CONSTRAINT booking_state_transitions_to_status_check CHECK (to_status IN (
+  'draft', 'hold', 'pending_provider', 'confirmed', 'in_progress', 'completed',
+  'canceled_customer', 'canceled_provider', 'no_show_customer', 'no_show_provider',
+  'refunded_partial', 'refunded_full', 'dispute'
+));
+
+-- Timeout sweeper scans timed states by deadline
+CREATE INDEX IF NOT EXISTS idx_bookings_state_expires
+ON bookings (state_expires_at)
+WHERE state_expires_at IS NOT NULL;
@@ -0,0 +1,29 @@
+-- Provider-defined cancellation policies, attachable to services, spaces and events
+-- Listings without a policy fall back to the provider's default policy
+
+CREATE TABLE IF NOT EXISTS cancellation_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id UUID NOT NULL REFERENCES providers(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  tiers JSONB NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT cancellation_policies_tiers_check CHECK (jsonb_typeof(tiers) = 'array' AND jsonb_array_length(tiers) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cancellation_policies_provider
+ON cancellation_policies (provider_id, is_default);
+
+-- At most one default policy per provider
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cancellation_policies_one_default
+ON cancellation_policies (provider_id)
+WHERE is_default;
+
+ALTER TABLE services ADD COLUMN IF NOT EXISTS cancellation_policy_id UUID
+  REFERENCES cancellation_policies(id) ON DELETE SET NULL;
+ALTER TABLE spaces ADD COLUMN IF NOT EXISTS cancellation_policy_id UUID
+  REFERENCES cancellation_policies(id) ON DELETE SET NULL;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS cancellation_policy_id UUID
+  REFERENCES cancellation_policies(id) ON DELETE SET NULL;
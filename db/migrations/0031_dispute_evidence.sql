@@ -0,0 +1,11 @@
+-- Provider dispute evidence workflow
+-- Evidence drafts live in evidence_details; reminders record which deadline thresholds were notified
+
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS stripe_account_id TEXT;
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS evidence_submitted_by TEXT;
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS evidence_reminders_sent JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Reminder sweep scans open disputes by deadline
+CREATE INDEX IF NOT EXISTS idx_disputes_open_evidence_due
+ON disputes (evidence_due_by)
+WHERE evidence_submitted_at IS NULL;
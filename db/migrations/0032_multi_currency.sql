@@ -0,0 +1,27 @@
+-- Multi-currency settlement: bookings and transactions record the currency
+-- they were charged in, and FX rates are stored for display conversion and
+-- per-currency reporting
+
+CREATE TABLE IF NOT EXISTS fx_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  base_currency TEXT NOT NULL,
+  quote_currency TEXT NOT NULL,
+  rate NUMERIC(20, 10) NOT NULL,
+  source TEXT NOT NULL,
+  fetched_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT fx_rates_rate_check CHECK (rate > 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fx_rates_pair
+ON fx_rates (base_currency, quote_currency);
+
+-- Checkout always charged USD before this migration, so the default is
+-- correct for existing rows
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'usd';
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'usd';
+ALTER TABLE booking_series ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'usd';
+
+CREATE INDEX IF NOT EXISTS idx_bookings_provider_currency
+ON bookings (provider_id, currency);
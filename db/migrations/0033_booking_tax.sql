@@ -0,0 +1,26 @@
+-- Sales tax / VAT on bookings: totals keep the tax they were charged and
+-- each jurisdiction's share is stored for provider filing reports
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS tax_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS booking_tax_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  provider_id UUID NOT NULL REFERENCES providers(id) ON DELETE RESTRICT,
+  jurisdiction_code TEXT NOT NULL,
+  jurisdiction_name TEXT NOT NULL,
+  tax_type TEXT NOT NULL,
+  rate NUMERIC(7, 5) NOT NULL,
+  taxable_amount NUMERIC(10, 2) NOT NULL,
+  tax_amount NUMERIC(10, 2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'usd',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT booking_tax_lines_tax_type_check CHECK (tax_type IN ('sales_tax', 'vat', 'gst'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_tax_lines_booking
+ON booking_tax_lines (booking_id);
+
+-- Filing reports read a provider's lines joined to bookings by charge date
+CREATE INDEX IF NOT EXISTS idx_booking_tax_lines_provider
+ON booking_tax_lines (provider_id);
@@ -0,0 +1,60 @@
+-- Offer / counter-offer negotiation for Things listings: one thread per
+-- buyer and listing, with every offer and its expiry kept in order
+
+CREATE TABLE IF NOT EXISTS thing_negotiations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thing_id UUID NOT NULL REFERENCES things(id) ON DELETE CASCADE,
+  buyer_id TEXT NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  seller_id TEXT NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'open',
+  agreed_amount NUMERIC(10, 2),
+  accepted_offer_id UUID,
+  accepted_at TIMESTAMP,
+  checkout_expires_at TIMESTAMP,
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  closed_reason TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT thing_negotiations_status_check
+    CHECK (status IN ('open', 'accepted', 'completed', 'declined', 'withdrawn', 'expired'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_thing_negotiations_thing
+ON thing_negotiations (thing_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_thing_negotiations_buyer
+ON thing_negotiations (buyer_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_thing_negotiations_seller
+ON thing_negotiations (seller_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_thing_negotiations_checkout_expiry
+ON thing_negotiations (status, checkout_expires_at);
+
+-- A buyer keeps one live thread per listing
+CREATE UNIQUE INDEX IF NOT EXISTS idx_thing_negotiations_live_thread
+ON thing_negotiations (thing_id, buyer_id)
+WHERE status IN ('open', 'accepted');
+
+CREATE TABLE IF NOT EXISTS thing_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  negotiation_id UUID NOT NULL REFERENCES thing_negotiations(id) ON DELETE CASCADE,
+  from_user_id TEXT NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  from_role TEXT NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL,
+  message TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  expires_at TIMESTAMP NOT NULL,
+  responded_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT thing_offers_from_role_check CHECK (from_role IN ('buyer', 'seller')),
+  CONSTRAINT thing_offers_amount_check CHECK (amount > 0),
+  CONSTRAINT thing_offers_status_check
+    CHECK (status IN ('pending', 'countered', 'accepted', 'declined', 'withdrawn', 'expired'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_thing_offers_negotiation
+ON thing_offers (negotiation_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_thing_offers_expiry
+ON thing_offers (status, expires_at);
@@ -0,0 +1,58 @@
+-- Escrowed orders for Things purchases: the seller's share stays on the
+-- platform through shipment, delivery and the buyer's inspection window,
+-- then is handed to payout_schedules for release
+
+CREATE TABLE IF NOT EXISTS thing_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thing_id UUID NOT NULL REFERENCES things(id) ON DELETE RESTRICT,
+  booking_id UUID NOT NULL UNIQUE REFERENCES bookings(id) ON DELETE RESTRICT,
+  buyer_id TEXT NOT NULL REFERENCES profiles(user_id) ON DELETE RESTRICT,
+  seller_id TEXT NOT NULL REFERENCES profiles(user_id) ON DELETE RESTRICT,
+  provider_id UUID NOT NULL REFERENCES providers(id) ON DELETE RESTRICT,
+  status TEXT NOT NULL DEFAULT 'pending_payment',
+  delivery_method TEXT NOT NULL,
+  shipping_address JSONB,
+  item_price NUMERIC(10, 2) NOT NULL,
+  shipping_cost NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  platform_fee NUMERIC(10, 2) NOT NULL,
+  total_amount NUMERIC(10, 2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'usd',
+  stripe_payment_intent_id TEXT NOT NULL UNIQUE,
+  paid_at TIMESTAMP,
+  carrier TEXT,
+  tracking_number TEXT,
+  tracking_url TEXT,
+  shipped_at TIMESTAMP,
+  auto_confirm_at TIMESTAMP,
+  delivered_at TIMESTAMP,
+  delivery_confirmed_by TEXT,
+  inspection_ends_at TIMESTAMP,
+  return_reason TEXT,
+  return_requested_at TIMESTAMP,
+  return_resolved_at TIMESTAMP,
+  return_resolution_note TEXT,
+  stripe_refund_id TEXT,
+  payout_id UUID REFERENCES payout_schedules(id) ON DELETE SET NULL,
+  released_at TIMESTAMP,
+  cancelled_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT thing_orders_status_check
+    CHECK (status IN ('pending_payment', 'paid', 'shipped', 'delivered', 'return_requested',
+                      'returned', 'disputed', 'released', 'cancelled')),
+  CONSTRAINT thing_orders_delivery_method_check CHECK (delivery_method IN ('shipping', 'pickup')),
+  CONSTRAINT thing_orders_confirmed_by_check
+    CHECK (delivery_confirmed_by IS NULL OR delivery_confirmed_by IN ('buyer', 'auto'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_thing_orders_buyer
+ON thing_orders (buyer_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_thing_orders_seller
+ON thing_orders (seller_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_thing_orders_auto_confirm
+ON thing_orders (status, auto_confirm_at);
+
+CREATE INDEX IF NOT EXISTS idx_thing_orders_inspection
+ON thing_orders (status, inspection_ends_at);
@@ -0,0 +1,34 @@
+-- Attachments and structured message types in conversations: image/file
+-- uploads in a private bucket, and quote / booking proposal / location /
+-- reschedule request cards whose payload lives in messages.metadata
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+ALTER TABLE messages ADD CONSTRAINT messages_message_type_check
+  CHECK (message_type IN ('text', 'system', 'image', 'file', 'booking_proposal',
+                          'quote', 'location', 'reschedule_request'));
+
+CREATE TABLE IF NOT EXISTS message_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  uploader_id TEXT NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  kind TEXT NOT NULL,
+  scan_engine TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT message_attachments_kind_check CHECK (kind IN ('image', 'file')),
+  CONSTRAINT message_attachments_scan_engine_check CHECK (scan_engine IN ('clamav', 'signatures')),
+  CONSTRAINT message_attachments_size_check CHECK (size_bytes > 0)
+);
+
+CREATE INDEX IF NOT EXISTS message_attachments_message_idx
+ON message_attachments (message_id);
+
+CREATE INDEX IF NOT EXISTS message_attachments_pending_idx
+ON message_attachments (conversation_id, uploader_id)
+WHERE message_id IS NULL;
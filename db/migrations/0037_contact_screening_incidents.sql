@@ -0,0 +1,29 @@
+-- Off-platform contact screening: messages and Things inquiries that share
+-- phone numbers, emails or payment handles before a paid booking or order
+-- are masked or blocked and logged here for admin review
+
+CREATE TABLE IF NOT EXISTS contact_screening_incidents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  counterpart_id TEXT REFERENCES profiles(user_id) ON DELETE SET NULL,
+  source TEXT NOT NULL,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+  thing_id UUID REFERENCES things(id) ON DELETE SET NULL,
+  action TEXT NOT NULL,
+  findings JSONB NOT NULL,
+  original_content TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open',
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMP,
+  review_note TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT contact_screening_incidents_source_check CHECK (source IN ('message', 'thing_inquiry')),
+  CONSTRAINT contact_screening_incidents_action_check CHECK (action IN ('masked', 'blocked')),
+  CONSTRAINT contact_screening_incidents_status_check CHECK (status IN ('open', 'dismissed', 'confirmed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_incidents_user
+ON contact_screening_incidents (user_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_contact_incidents_status
+ON contact_screening_incidents (status, created_at);
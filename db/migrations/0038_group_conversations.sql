@@ -0,0 +1,107 @@
+-- Multi-party conversations: a thread has any number of participants with
+-- roles and per-participant mute settings. Each group booking gets one
+-- group thread shared by its organizer, participants and provider, which
+-- replaces the separate group_messages table.
+
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'direct';
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS title TEXT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS group_booking_id UUID
+  REFERENCES group_bookings(id) ON DELETE CASCADE;
+ALTER TABLE conversations ALTER COLUMN participant_one_id DROP NOT NULL;
+ALTER TABLE conversations ALTER COLUMN participant_two_id DROP NOT NULL;
+
+ALTER TABLE conversations DROP CONSTRAINT IF EXISTS conversations_kind_check;
+ALTER TABLE conversations ADD CONSTRAINT conversations_kind_check CHECK (
+  (kind = 'direct' AND participant_one_id IS NOT NULL AND participant_two_id IS NOT NULL)
+  OR (kind = 'group' AND participant_one_id IS NULL AND participant_two_id IS NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS conversations_group_booking_unique
+ON conversations (group_booking_id)
+WHERE group_booking_id IS NOT NULL;
+
+-- Group messages have no single recipient
+ALTER TABLE messages ALTER COLUMN recipient_id DROP NOT NULL;
+
+CREATE TABLE IF NOT EXISTS conversation_participants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member',
+  is_muted BOOLEAN NOT NULL DEFAULT FALSE,
+  muted_at TIMESTAMP,
+  joined_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  left_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT conversation_participants_role_check
+    CHECK (role IN ('organizer', 'participant', 'provider', 'member'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS conversation_participants_unique
+ON conversation_participants (conversation_id, user_id);
+
+CREATE INDEX IF NOT EXISTS conversation_participants_user_idx
+ON conversation_participants (user_id)
+WHERE left_at IS NULL;
+
+-- Existing direct conversations
+INSERT INTO conversation_participants (conversation_id, user_id, role, joined_at)
+SELECT id, participant_one_id, 'member', created_at FROM conversations WHERE kind = 'direct'
+UNION ALL
+SELECT id, participant_two_id, 'member', created_at FROM conversations WHERE kind = 'direct'
+ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+-- One group thread per existing group booking
+INSERT INTO conversations (kind, title, booking_id, group_booking_id, created_at)
+SELECT 'group', COALESCE(gb.group_name, b.service_name, 'Group booking'), gb.booking_id, gb.id, gb.created_at
+FROM group_bookings gb
+LEFT JOIN bookings b ON b.id = gb.booking_id
+WHERE NOT EXISTS (SELECT 1 FROM conversations c WHERE c.group_booking_id = gb.id);
+
+INSERT INTO conversation_participants (conversation_id, user_id, role)
+SELECT c.id, gb.organizer_id, 'organizer'
+FROM conversations c
+JOIN group_bookings gb ON gb.id = c.group_booking_id
+ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+INSERT INTO conversation_participants (conversation_id, user_id, role)
+SELECT c.id, p.user_id, 'provider'
+FROM conversations c
+JOIN group_bookings gb ON gb.id = c.group_booking_id
+JOIN bookings b ON b.id = gb.booking_id
+JOIN providers p ON p.id = b.provider_id
+ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+INSERT INTO conversation_participants (conversation_id, user_id, role)
+SELECT DISTINCT c.id, gp.user_id, 'participant'
+FROM conversations c
+JOIN group_participants gp ON gp.group_booking_id = c.group_booking_id
+WHERE gp.user_id IS NOT NULL
+  AND gp.status IN ('accepted', 'pending_payment', 'paid')
+ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+-- Move sent group messages into their thread; system notices had no sender
+INSERT INTO messages (conversation_id, sender_id, recipient_id, content, message_type, is_read, created_at, updated_at)
+SELECT
+  c.id,
+  gm.sender_id,
+  NULL,
+  CASE WHEN gm.subject IS NOT NULL THEN gm.subject || E'\n\n' || gm.content ELSE gm.content END,
+  'text',
+  TRUE,
+  COALESCE(gm.sent_at, gm.created_at),
+  COALESCE(gm.sent_at, gm.created_at)
+FROM group_messages gm
+JOIN conversations c ON c.group_booking_id = gm.group_booking_id
+WHERE gm.sender_id IS NOT NULL
+  AND (gm.sent_at IS NOT NULL OR gm.scheduled_for IS NULL OR gm.scheduled_for <= NOW());
+
+UPDATE conversations c
+SET last_message_at = latest.created_at
+FROM (
+  SELECT conversation_id, MAX(created_at) AS created_at FROM messages GROUP BY conversation_id
+) latest
+WHERE latest.conversation_id = c.id
+  AND c.kind = 'group'
+  AND c.last_message_at IS NULL;
@@ -0,0 +1,43 @@
+-- Two-sided reviews: providers rate customers, and both reviews of a booking
+-- stay hidden until both are in or the 14-day review window closes. Providers
+-- can require a minimum customer rating for instant booking.
+
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS reveal_at TIMESTAMP;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS revealed_at TIMESTAMP;
+
+-- Reviews written before the double-blind flow were already public
+UPDATE reviews SET revealed_at = created_at WHERE revealed_at IS NULL AND is_published = TRUE;
+
+CREATE INDEX IF NOT EXISTS reviews_pending_reveal_idx
+ON reviews (reveal_at)
+WHERE revealed_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS customer_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL UNIQUE REFERENCES bookings(id) ON DELETE CASCADE,
+  provider_id UUID NOT NULL REFERENCES providers(id) ON DELETE CASCADE,
+  customer_id TEXT NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  rating INTEGER NOT NULL,
+  review_text TEXT,
+  is_published BOOLEAN NOT NULL DEFAULT FALSE,
+  is_flagged BOOLEAN NOT NULL DEFAULT FALSE,
+  flag_reason TEXT,
+  reveal_at TIMESTAMP NOT NULL,
+  revealed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT customer_reviews_rating_check CHECK (rating BETWEEN 1 AND 5)
+);
+
+CREATE INDEX IF NOT EXISTS customer_reviews_customer_idx
+ON customer_reviews (customer_id)
+WHERE is_published = TRUE;
+
+CREATE INDEX IF NOT EXISTS customer_reviews_pending_reveal_idx
+ON customer_reviews (reveal_at)
+WHERE revealed_at IS NULL;
+
+ALTER TABLE providers ADD COLUMN IF NOT EXISTS instant_booking_min_customer_rating NUMERIC(2, 1);
+ALTER TABLE providers DROP CONSTRAINT IF EXISTS providers_instant_booking_min_customer_rating_check;
+ALTER TABLE providers ADD CONSTRAINT providers_instant_booking_min_customer_rating_check
+  CHECK (instant_booking_min_customer_rating IS NULL OR instant_booking_min_customer_rating BETWEEN 1 AND 5);
@@ -0,0 +1,90 @@
+-- Unified reviews: services, events, spaces and things share the reviews
+-- table, with category sub-ratings, photos and helpful votes. Space reviews
+-- are copied over from space_reviews, which is no longer written to.
+
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS listing_type TEXT NOT NULL DEFAULT 'service';
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS listing_id UUID;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS sub_ratings JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS title TEXT;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS helpful_count INTEGER NOT NULL DEFAULT 0;
+
+DO $$ BEGIN
+  ALTER TABLE reviews ADD CONSTRAINT reviews_listing_type_check
+    CHECK (listing_type IN ('service', 'event', 'space', 'thing'));
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Existing reviews take their listing from the booking
+UPDATE reviews r
+SET
+  listing_type = CASE
+    WHEN b.metadata->>'thingId' IS NOT NULL THEN 'thing'
+    ELSE COALESCE(b.booking_type, 'service')
+  END,
+  listing_id = CASE
+    WHEN b.metadata->>'thingId' IS NOT NULL THEN (b.metadata->>'thingId')::uuid
+    WHEN b.booking_type = 'event' THEN b.event_id
+    WHEN b.booking_type = 'space' THEN b.space_id
+    ELSE b.service_id
+  END
+FROM bookings b
+WHERE b.id = r.booking_id AND r.listing_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_listing ON reviews (listing_type, listing_id);
+
+CREATE TABLE IF NOT EXISTS review_photos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  storage_path TEXT,
+  content_type TEXT,
+  size_bytes INTEGER,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_photos_review ON review_photos (review_id, sort_order);
+
+CREATE TABLE IF NOT EXISTS review_helpful_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_review_helpful_votes_review_user
+ON review_helpful_votes (review_id, user_id);
+
+-- Copy space reviews whose booking has no review yet. Space reviews were
+-- never double-blind, so visible ones are published as already revealed.
+INSERT INTO reviews (
+  booking_id, provider_id, customer_id, listing_type, listing_id,
+  rating, sub_ratings, title, review_text,
+  provider_response, provider_responded_at,
+  is_verified_booking, is_published, revealed_at, created_at, updated_at
+)
+SELECT DISTINCT ON (sr.booking_id)
+  sr.booking_id, b.provider_id, b.customer_id, 'space', sr.space_id,
+  sr.rating,
+  jsonb_strip_nulls(jsonb_build_object(
+    'cleanliness', sr.cleanliness_rating,
+    'communication', sr.communication_rating,
+    'value', sr.value_rating
+  )),
+  sr.title, sr.comment,
+  sr.provider_response, sr.provider_responded_at,
+  sr.is_verified, NOT sr.is_hidden,
+  CASE WHEN sr.is_hidden THEN NULL ELSE sr.created_at END,
+  sr.created_at, sr.updated_at
+FROM space_reviews sr
+JOIN bookings b ON b.id = sr.booking_id
+WHERE NOT EXISTS (SELECT 1 FROM reviews r WHERE r.booking_id = sr.booking_id)
+ORDER BY sr.booking_id, sr.created_at;
+
+INSERT INTO review_photos (review_id, url, sort_order, created_at)
+SELECT r.id, photo.url, (photo.position - 1)::int, sr.created_at
+FROM space_reviews sr
+JOIN reviews r ON r.booking_id = sr.booking_id AND r.listing_type = 'space'
+CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(sr.photos, '[]'::jsonb))
+  WITH ORDINALITY AS photo(url, position)
+WHERE NOT EXISTS (SELECT 1 FROM review_photos p WHERE p.review_id = r.id);
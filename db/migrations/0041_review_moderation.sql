@@ -0,0 +1,32 @@
+-- Review moderation: automated abuse checks hide suspicious reviews and
+-- queue them for admins, and providers can appeal reviews of them.
+
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS screened_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS reviews_unscreened_idx
+ON reviews (created_at)
+WHERE screened_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS review_moderation_cases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+  source TEXT NOT NULL,
+  findings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  appealed_by TEXT,
+  appeal_reason TEXT,
+  status TEXT NOT NULL DEFAULT 'open',
+  decided_by TEXT,
+  decided_at TIMESTAMP,
+  decision_note TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT review_moderation_cases_source_check CHECK (source IN ('automated', 'appeal')),
+  CONSTRAINT review_moderation_cases_status_check CHECK (status IN ('open', 'kept', 'removed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_moderation_cases_review ON review_moderation_cases (review_id);
+CREATE INDEX IF NOT EXISTS idx_review_moderation_cases_status ON review_moderation_cases (status, created_at);
+
+-- At most one open case per review and source
+CREATE UNIQUE INDEX IF NOT EXISTS idx_review_moderation_cases_open
+ON review_moderation_cases (review_id, source)
+WHERE status = 'open';
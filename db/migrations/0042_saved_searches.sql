@@ -0,0 +1,22 @@
+-- Saved searches: customers save a marketplace search and get instant or
+-- daily alerts when new matching listings are published.
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  query JSONB NOT NULL DEFAULT '{}'::jsonb,
+  frequency TEXT NOT NULL DEFAULT 'daily',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  last_checked_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_notified_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT saved_searches_frequency_check CHECK (frequency IN ('instant', 'daily'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches (user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_due ON saved_searches (is_active, frequency, last_checked_at);
+
+-- In-app alerts for new listings
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'saved_search_match';
@@ -0,0 +1,64 @@
+-- Provider search ranking in Postgres: full-text relevance, geo proximity
+-- and precomputed booking/review stats, so search no longer loads every
+-- matching provider to rank it in memory.
+
+CREATE EXTENSION IF NOT EXISTS cube;
+CREATE EXTENSION IF NOT EXISTS earthdistance;
+
+-- Relevance: display name (A) counts most, then service names and
+-- descriptions (B), then tagline and bio (C)
+ALTER TABLE providers ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(display_name, '')), 'A') ||
+  setweight(jsonb_to_tsvector('english', coalesce(services, '[]'::jsonb), '["string"]'), 'B') ||
+  setweight(to_tsvector('english', coalesce(tagline, '') || ' ' || coalesce(bio, '')), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_providers_search_vector
+ON providers USING gin (search_vector)
+WHERE is_active = true;
+
+-- Proximity and radius filters
+CREATE INDEX IF NOT EXISTS idx_providers_earth_location
+ON providers USING gist (ll_to_earth(latitude::float8, longitude::float8))
+WHERE is_active = true AND latitude IS NOT NULL AND longitude IS NOT NULL;
+
+-- Category filter
+CREATE INDEX IF NOT EXISTS idx_services_provider_category
+ON services (provider_id, category)
+WHERE is_active = true;
+
+-- Conversion and recent-review signals, refreshed by the search-stats cron
+CREATE MATERIALIZED VIEW IF NOT EXISTS provider_search_stats AS
+SELECT
+  p.id AS provider_id,
+  COALESCE(b.total_bookings, 0)::int AS total_bookings,
+  COALESCE(b.completed_bookings, 0)::int AS completed_bookings,
+  COALESCE(r.recent_review_count, 0)::int AS recent_review_count,
+  NOW() AS refreshed_at
+FROM providers p
+LEFT JOIN (
+  SELECT
+    provider_id,
+    COUNT(*) AS total_bookings,
+    COUNT(*) FILTER (WHERE status = 'completed') AS completed_bookings
+  FROM bookings
+  GROUP BY provider_id
+) b ON b.provider_id = p.id
+LEFT JOIN (
+  SELECT provider_id, COUNT(*) AS recent_review_count
+  FROM reviews
+  WHERE created_at >= NOW() - INTERVAL '30 days'
+    AND is_published = true
+    AND is_flagged = false
+  GROUP BY provider_id
+) r ON r.provider_id = p.id;
+
+-- Required for REFRESH MATERIALIZED VIEW CONCURRENTLY
+CREATE UNIQUE INDEX IF NOT EXISTS idx_provider_search_stats_provider
+ON provider_search_stats (provider_id);
+
+-- Keyset pagination tie-breaker
+CREATE INDEX IF NOT EXISTS idx_providers_active_id
+ON providers (id DESC)
+WHERE is_active = true;
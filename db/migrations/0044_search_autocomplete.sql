@@ -0,0 +1,114 @@
+-- Search-as-you-type autocomplete: a log of marketplace searches and a
+-- dictionary of suggestion terms (categories, provider and service names,
+-- event titles, cities and popular queries) matched by prefix or, for
+-- typos, by trigram similarity.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- One row per search run from the marketplace
+CREATE TABLE IF NOT EXISTS search_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  query TEXT NOT NULL,
+  normalized_query TEXT NOT NULL,
+  vertical TEXT,
+  result_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_logs_created
+ON search_logs (created_at);
+
+CREATE INDEX IF NOT EXISTS idx_search_logs_normalized_query
+ON search_logs (normalized_query, created_at);
+
+-- Suggestion dictionary, refreshed by the search-stats cron. search_count is
+-- how often the term was searched (with results) in the last 30 days and
+-- weights suggestions by popularity.
+CREATE MATERIALIZED VIEW IF NOT EXISTS search_suggestions AS
+WITH popularity AS (
+  SELECT normalized_query, COUNT(*) AS search_count
+  FROM search_logs
+  WHERE created_at >= NOW() - INTERVAL '30 days'
+    AND result_count > 0
+  GROUP BY normalized_query
+),
+terms AS (
+  SELECT 'category' AS kind, name AS text, NULL::text AS vertical, slug AS category
+  FROM categories
+  WHERE is_active = true
+
+  UNION ALL
+  SELECT 'provider', display_name, 'services', NULL
+  FROM providers
+  WHERE is_active = true
+
+  UNION ALL
+  SELECT 'service', name, 'services', category
+  FROM services
+  WHERE is_active = true
+
+  UNION ALL
+  SELECT 'event', title, 'events', category
+  FROM events
+  WHERE status = 'published' AND end_datetime >= NOW()
+
+  UNION ALL
+  SELECT 'city', location_city, 'services', NULL
+  FROM providers
+  WHERE is_active = true AND location_city IS NOT NULL
+
+  UNION ALL
+  SELECT 'city', address->>'city', 'events', NULL
+  FROM events
+  WHERE status = 'published' AND end_datetime >= NOW() AND address->>'city' IS NOT NULL
+
+  UNION ALL
+  SELECT 'city', city, 'spaces', NULL
+  FROM spaces
+  WHERE is_active = true
+
+  UNION ALL
+  SELECT 'city', city, 'things', NULL
+  FROM things
+  WHERE status = 'active' AND city IS NOT NULL
+
+  -- Queries people keep searching for, even when they match no single term
+  UNION ALL
+  SELECT 'query', normalized_query, NULL, NULL
+  FROM popularity
+  WHERE search_count >= 3
+),
+-- Normalized the same way as search_logs.normalized_query: lower case,
+-- single spaces
+grouped AS (
+  SELECT
+    kind,
+    lower(regexp_replace(trim(text), '\s+', ' ', 'g')) AS normalized_text,
+    vertical,
+    MIN(trim(text)) AS text,
+    MODE() WITHIN GROUP (ORDER BY category) AS category,
+    COUNT(*)::int AS listing_count
+  FROM terms
+  WHERE trim(text) <> ''
+  GROUP BY kind, lower(regexp_replace(trim(text), '\s+', ' ', 'g')), vertical
+)
+SELECT
+  g.kind || ':' || COALESCE(g.vertical, '*') || ':' || g.normalized_text AS suggestion_key,
+  g.kind,
+  g.text,
+  g.normalized_text,
+  g.vertical,
+  g.category,
+  g.listing_count,
+  COALESCE(p.search_count, 0)::int AS search_count,
+  NOW() AS refreshed_at
+FROM grouped g
+LEFT JOIN popularity p ON p.normalized_query = g.normalized_text;
+
+-- Required for REFRESH MATERIALIZED VIEW CONCURRENTLY
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_suggestions_key
+ON search_suggestions (suggestion_key);
+
+-- Prefix (LIKE 'abc%') and typo-tolerant (word similarity) lookups
+CREATE INDEX IF NOT EXISTS idx_search_suggestions_text_trgm
+ON search_suggestions USING gin (normalized_text gin_trgm_ops);
@@ -0,0 +1,32 @@
+-- Search analytics: who searched, which ranking weight set served the search,
+-- what was shown (impressions, with the provider ranking signals) and what
+-- was clicked. Bookings are attributed to a clicked impression at report
+-- time, from the bookings table.
+
+ALTER TABLE search_logs ADD COLUMN IF NOT EXISTS user_id TEXT
+REFERENCES profiles(user_id) ON DELETE SET NULL;
+ALTER TABLE search_logs ADD COLUMN IF NOT EXISTS weight_set TEXT NOT NULL DEFAULT 'control';
+ALTER TABLE search_logs ADD COLUMN IF NOT EXISTS sort_by TEXT NOT NULL DEFAULT 'relevance';
+
+CREATE INDEX IF NOT EXISTS idx_search_logs_user
+ON search_logs (user_id, created_at)
+WHERE user_id IS NOT NULL;
+
+-- One row per listing shown for a search
+CREATE TABLE IF NOT EXISTS search_impressions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  search_log_id UUID NOT NULL REFERENCES search_logs(id) ON DELETE CASCADE,
+  vertical TEXT NOT NULL,
+  listing_id UUID NOT NULL,
+  position INTEGER NOT NULL,
+  score REAL NOT NULL,
+  signals JSONB,
+  clicked_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT uq_search_impressions_listing UNIQUE (search_log_id, listing_id)
+);
+
+-- Booking attribution: clicks on a provider by a customer
+CREATE INDEX IF NOT EXISTS idx_search_impressions_clicked
+ON search_impressions (listing_id, clicked_at)
+WHERE clicked_at IS NOT NULL;
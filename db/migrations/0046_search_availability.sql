@@ -0,0 +1,14 @@
+-- Availability-aware search: provider slots are precomputed into
+-- availability_cache by the search-availability cron, and search only returns
+-- providers with an open slot there. Spaces are checked against their
+-- operating hours, blocks and bookings.
+
+-- Next open slot of each provider
+CREATE INDEX IF NOT EXISTS idx_availability_cache_open
+ON availability_cache (provider_id, starts_at)
+WHERE is_available = true;
+
+-- Bookings holding a space on a day
+CREATE INDEX IF NOT EXISTS idx_bookings_space_date
+ON bookings (space_id, booking_date)
+WHERE space_id IS NOT NULL;
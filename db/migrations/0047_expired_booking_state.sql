@@ -0,0 +1,35 @@
+-- Abandoned drafts expire into their own terminal state instead of counting
+-- as customer cancellations. Drafts the timeout sweeper already closed as
+-- canceled_customer are moved over, without their cancellation stamp.
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_status_check CHECK (status IN (
+  'draft', 'hold', 'expired', 'pending_provider', 'confirmed', 'in_progress', 'completed',
+  'canceled_customer', 'canceled_provider', 'no_show_customer', 'no_show_provider',
+  'refunded_partial', 'refunded_full', 'dispute'
+));
+
+ALTER TABLE booking_state_transitions DROP CONSTRAINT IF EXISTS booking_state_transitions_to_status_check;
+ALTER TABLE booking_state_transitions ADD CONSTRAINT booking_state_transitions_to_status_check CHECK (to_status IN (
+  'draft', 'hold', 'expired', 'pending_provider', 'confirmed', 'in_progress', 'completed',
+  'canceled_customer', 'canceled_provider', 'no_show_customer', 'no_show_provider',
+  'refunded_partial', 'refunded_full', 'dispute'
+));
+
+UPDATE bookings b
+SET status = 'expired',
+    cancelled_at = NULL,
+    cancelled_by = NULL,
+    cancellation_reason = NULL
+FROM booking_state_transitions t
+WHERE t.booking_id = b.id
+  AND b.status = 'canceled_customer'
+  AND t.from_status = 'draft'
+  AND t.to_status = 'canceled_customer'
+  AND t.metadata->>'event' = 'draft_expired';
+
+UPDATE booking_state_transitions
+SET to_status = 'expired'
+WHERE from_status = 'draft'
+  AND to_status = 'canceled_customer'
+  AND metadata->>'event' = 'draft_expired';
@@ -0,0 +1,5 @@
+-- Claimed waitlist holds are redeemed at booking creation; the booking they
+-- became is recorded so the spot stops counting as held
+
+ALTER TABLE waitlist_entries
+ADD COLUMN IF NOT EXISTS booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL;
@@ -0,0 +1,31 @@
+-- Bookings keep a copy of the cancellation policy in force when they were
+-- made, so a provider tightening a policy doesn't change refunds on
+-- existing bookings
+
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS cancellation_policy JSONB;
+
+-- Existing bookings take the policy attached to their listing today
+UPDATE bookings b
+SET cancellation_policy = jsonb_build_object('source', 'listing', 'policyId', p.id, 'name', p.name, 'tiers', p.tiers)
+FROM services s
+JOIN cancellation_policies p ON p.id = s.cancellation_policy_id
+WHERE b.service_id = s.id AND b.cancellation_policy IS NULL;
+
+UPDATE bookings b
+SET cancellation_policy = jsonb_build_object('source', 'listing', 'policyId', p.id, 'name', p.name, 'tiers', p.tiers)
+FROM spaces s
+JOIN cancellation_policies p ON p.id = s.cancellation_policy_id
+WHERE b.space_id = s.id AND b.cancellation_policy IS NULL;
+
+UPDATE bookings b
+SET cancellation_policy = jsonb_build_object('source', 'listing', 'policyId', p.id, 'name', p.name, 'tiers', p.tiers)
+FROM events e
+JOIN cancellation_policies p ON p.id = e.cancellation_policy_id
+WHERE b.event_id = e.id AND b.cancellation_policy IS NULL;
+
+-- Then the provider's default policy
+UPDATE bookings b
+SET cancellation_policy = jsonb_build_object('source', 'provider_default', 'policyId', p.id, 'name', p.name, 'tiers', p.tiers)
+FROM cancellation_policies p
+WHERE p.provider_id = b.provider_id AND p.is_default AND b.cancellation_policy IS NULL;
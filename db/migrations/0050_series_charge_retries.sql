@@ -0,0 +1,8 @@
+-- Failed occurrence charges are retried with backoff; occurrences still
+-- unpaid shortly before they start are cancelled and the slot released
+
+ALTER TABLE booking_series_occurrences
+ADD COLUMN IF NOT EXISTS charge_attempts INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE booking_series_occurrences
+ADD COLUMN IF NOT EXISTS next_charge_at TIMESTAMPTZ;
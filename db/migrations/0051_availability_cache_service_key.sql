@@ -0,0 +1,15 @@
+-- Cached slots are keyed by service as well as provider. Slots generated for
+-- one service (its own duration and buffers) no longer overwrite another
+-- service's, or the provider-wide rows (service_id NULL) the search refresh
+-- writes.
+
+ALTER TABLE availability_cache
+DROP CONSTRAINT IF EXISTS availability_cache_provider_id_date_start_time_end_time_timezone_unique;
+
+ALTER TABLE availability_cache
+DROP CONSTRAINT IF EXISTS availability_cache_provider_id_date_start_time_end_time_timezone_key;
+
+-- NULLS NOT DISTINCT so provider-wide rows still upsert onto one row
+ALTER TABLE availability_cache
+ADD CONSTRAINT availability_cache_provider_id_service_id_date_start_time_end_time_timezone_unique
+UNIQUE NULLS NOT DISTINCT (provider_id, service_id, date, start_time, end_time, timezone);
@@ -0,0 +1,5 @@
+-- ICS feed URLs are signed with a per-provider version. Resetting the feed
+-- bumps it, so a leaked URL stops working.
+
+ALTER TABLE providers
+ADD COLUMN IF NOT EXISTS calendar_feed_token_version INTEGER NOT NULL DEFAULT 0;
@@ -1,6 +1,8 @@
 import { db } from "@/db/db";
 import { bookingsTable, transactionsTable, providersTable, reviewsTable } from "@/db/schema";
 import { and, eq, gte, lte, desc, count, avg, sum, sql } from "drizzle-orm";
+import { normalizeCurrency } from "@/lib/payments/currency";
+import { fxRateService, convertAmount, type RateTable } from "@/lib/payments/fx-rates";
 
 /**
  * Analytics Queries for Provider Dashboard
@@ -9,7 +11,9 @@ import { and, eq, gte, lte, desc, count, avg, sum, sql } from "drizzle-orm";
  * - Platform fee is 10% base fee for authenticated users
  * - Guests pay additional 10% surcharge (total 20% platform fee)
  * - Providers always receive servicePrice - 10% base fee
- * - All monetary values stored as DECIMAL(10,2)
+ * - All monetary values stored as DECIMAL(10,2), in the booking's currency
+ * - Earnings are reported per currency and rolled up into the provider's
+ *   currency at the latest stored FX rates
  * 
  * Time periods supported: 7d, 30d, 90d, 1yr, all
  */
@@ -21,7 +25,17 @@ export interface AnalyticsPeriod {
   end: Date;
 }
 
+export interface CurrencyEarnings {
+  currency: string;
+  earnings: number; // In `currency`
+  platformFees: number;
+  bookings: number;
+  convertedEarnings: number | null; // In the reporting currency; null without a rate
+}
+
 export interface EarningsData {
+  currency: string; // Reporting currency every total below is converted into
+  byCurrency: CurrencyEarnings[];
   totalEarnings: number;
   totalBookings: number;
   averageBookingValue: number;
@@ -208,21 +222,69 @@ function getPreviousPeriod(period: TimePeriod): AnalyticsPeriod {
   };
 }
 
+/**
+ * Convert a reported amount, or null when no rate is stored for the currency
+ */
+function toReportingCurrency(amount: number, from: string, to: string, rates: RateTable): number | null {
+  const fromCode = normalizeCurrency(from);
+  if (fromCode !== to && (!rates.rates[fromCode] || !rates.rates[to])) {
+    return null;
+  }
+  return convertAmount(amount, fromCode, to, rates);
+}
+
+/**
+ * Sum per-currency rows into the reporting currency, grouped by `key`
+ * Rows in a currency without a rate are left out of the totals; they still
+ * appear in EarningsData.byCurrency.
+ */
+function rollUp<T extends { currency: string; earnings: number; bookings: number }>(
+  rows: T[],
+  key: (row: T) => string,
+  reportingCurrency: string,
+  rates: RateTable
+): Map<string, { earnings: number; bookings: number }> {
+  const totals = new Map<string, { earnings: number; bookings: number }>();
+  for (const row of rows) {
+    const converted = toReportingCurrency(row.earnings || 0, row.currency, reportingCurrency, rates);
+    const entry = totals.get(key(row)) || { earnings: 0, bookings: 0 };
+    entry.earnings += converted ?? 0;
+    entry.bookings += row.bookings || 0;
+    totals.set(key(row), entry);
+  }
+  return totals;
+}
+
 /**
  * Get provider earnings data with period comparison
+ * Totals are in `reportingCurrency` (default: the provider's currency).
  */
 export async function getProviderEarnings(
   providerId: string,
-  period: TimePeriod = '30d'
+  period: TimePeriod = '30d',
+  reportingCurrency?: string
 ): Promise<EarningsData> {
   const { start, end } = getDateRange(period);
   const previousPeriod = getPreviousPeriod(period);
 
-  // Current period earnings
+  let currency = reportingCurrency ? normalizeCurrency(reportingCurrency) : null;
+  if (!currency) {
+    const [provider] = await db
+      .select({ currency: providersTable.currency })
+      .from(providersTable)
+      .where(eq(providersTable.id, providerId))
+      .limit(1);
+    currency = normalizeCurrency(provider?.currency);
+  }
+
+  const rates = await fxRateService.getRateTable();
+
+  // Current period earnings, per currency
   const currentEarnings = await db
     .select({
-      totalEarnings: sum(bookingsTable.providerPayout).mapWith(Number),
-      totalBookings: count(),
+      currency: bookingsTable.currency,
+      earnings: sum(bookingsTable.providerPayout).mapWith(Number),
+      bookings: count(),
       platformFees: sum(bookingsTable.platformFee).mapWith(Number),
     })
     .from(bookingsTable)
@@ -233,13 +295,15 @@ export async function getProviderEarnings(
         lte(bookingsTable.createdAt, end),
         sql`${bookingsTable.status} IN ('completed', 'confirmed')`
       )
-    );
+    )
+    .groupBy(bookingsTable.currency);
 
   // Previous period for comparison
   const previousEarnings = await db
     .select({
-      totalEarnings: sum(bookingsTable.providerPayout).mapWith(Number),
-      totalBookings: count(),
+      currency: bookingsTable.currency,
+      earnings: sum(bookingsTable.providerPayout).mapWith(Number),
+      bookings: count(),
     })
     .from(bookingsTable)
     .where(
@@ -249,11 +313,13 @@ export async function getProviderEarnings(
         lte(bookingsTable.createdAt, previousPeriod.end),
         sql`${bookingsTable.status} IN ('completed', 'confirmed')`
       )
-    );
+    )
+    .groupBy(bookingsTable.currency);
 
   // Pending and completed payouts
   const payoutStatus = await db
     .select({
+      currency: bookingsTable.currency,
       pendingPayouts: sql<number>`COALESCE(SUM(CASE WHEN ${transactionsTable.status} = 'pending' THEN ${transactionsTable.providerPayout} END), 0)`.mapWith(Number),
       completedPayouts: sql<number>`COALESCE(SUM(CASE WHEN ${transactionsTable.status} = 'completed' THEN ${transactionsTable.providerPayout} END), 0)`.mapWith(Number),
     })
@@ -265,12 +331,14 @@ export async function getProviderEarnings(
         gte(bookingsTable.createdAt, start),
         lte(bookingsTable.createdAt, end)
       )
-    );
+    )
+    .groupBy(bookingsTable.currency);
 
   // Daily earnings trend
   const dailyEarnings = await db
     .select({
       date: sql<string>`DATE(${bookingsTable.createdAt})`,
+      currency: bookingsTable.currency,
       earnings: sum(bookingsTable.providerPayout).mapWith(Number),
       bookings: count(),
     })
@@ -283,13 +351,14 @@ export async function getProviderEarnings(
         sql`${bookingsTable.status} IN ('completed', 'confirmed')`
       )
     )
-    .groupBy(sql`DATE(${bookingsTable.createdAt})`)
+    .groupBy(sql`DATE(${bookingsTable.createdAt})`, bookingsTable.currency)
     .orderBy(sql`DATE(${bookingsTable.createdAt})`);
 
   // Monthly trends
   const monthlyTrends = await db
     .select({
       month: sql<string>`TO_CHAR(${bookingsTable.createdAt}, 'YYYY-MM')`,
+      currency: bookingsTable.currency,
       earnings: sum(bookingsTable.providerPayout).mapWith(Number),
       bookings: count(),
     })
@@ -302,23 +371,52 @@ export async function getProviderEarnings(
         sql`${bookingsTable.status} IN ('completed', 'confirmed')`
       )
     )
-    .groupBy(sql`TO_CHAR(${bookingsTable.createdAt}, 'YYYY-MM')`)
+    .groupBy(sql`TO_CHAR(${bookingsTable.createdAt}, 'YYYY-MM')`, bookingsTable.currency)
     .orderBy(sql`TO_CHAR(${bookingsTable.createdAt}, 'YYYY-MM')`);
 
-  const current = currentEarnings[0] || { totalEarnings: 0, totalBookings: 0, platformFees: 0 };
-  const previous = previousEarnings[0] || { totalEarnings: 0, totalBookings: 0 };
-  const payouts = payoutStatus[0] || { pendingPayouts: 0, completedPayouts: 0 };
+  const reportingCode = currency;
+  const convert = (amount: number, from: string) =>
+    toReportingCurrency(amount || 0, from, reportingCode, rates) ?? 0;
+
+  const byCurrency: CurrencyEarnings[] = currentEarnings
+    .map(row => ({
+      currency: normalizeCurrency(row.currency),
+      earnings: row.earnings || 0,
+      platformFees: row.platformFees || 0,
+      bookings: row.bookings || 0,
+      convertedEarnings: toReportingCurrency(row.earnings || 0, row.currency, reportingCode, rates),
+    }))
+    .sort((a, b) => (b.convertedEarnings ?? 0) - (a.convertedEarnings ?? 0));
+
+  const current = {
+    totalEarnings: byCurrency.reduce((total, row) => total + (row.convertedEarnings ?? 0), 0),
+    totalBookings: byCurrency.reduce((total, row) => total + row.bookings, 0),
+    platformFees: byCurrency.reduce((total, row) => total + convert(row.platformFees, row.currency), 0),
+  };
+  const previous = {
+    totalEarnings: previousEarnings.reduce((total, row) => total + convert(row.earnings, row.currency), 0),
+    totalBookings: previousEarnings.reduce((total, row) => total + (row.bookings || 0), 0),
+  };
+  const payouts = {
+    pendingPayouts: payoutStatus.reduce((total, row) => total + convert(row.pendingPayouts, row.currency), 0),
+    completedPayouts: payoutStatus.reduce((total, row) => total + convert(row.completedPayouts, row.currency), 0),
+  };
 
   const averageBookingValue = current.totalBookings > 0 ? current.totalEarnings / current.totalBookings : 0;
   const previousAverageValue = previous.totalBookings > 0 ? previous.totalEarnings / previous.totalBookings : 0;
 
+  const daily = rollUp(dailyEarnings, d => d.date, reportingCode, rates);
+  const monthly = rollUp(monthlyTrends, m => m.month, reportingCode, rates);
+
   return {
-    totalEarnings: current.totalEarnings || 0,
-    totalBookings: current.totalBookings || 0,
+    currency: reportingCode,
+    byCurrency,
+    totalEarnings: current.totalEarnings,
+    totalBookings: current.totalBookings,
     averageBookingValue,
-    platformFees: current.platformFees || 0,
-    pendingPayouts: payouts.pendingPayouts || 0,
-    completedPayouts: payouts.completedPayouts || 0,
+    platformFees: current.platformFees,
+    pendingPayouts: payouts.pendingPayouts,
+    completedPayouts: payouts.completedPayouts,
     periodComparison: {
       earningsChange: previous.totalEarnings ? 
         ((current.totalEarnings - previous.totalEarnings) / previous.totalEarnings) * 100 : 0,
@@ -327,15 +425,15 @@ export async function getProviderEarnings(
       averageValueChange: previousAverageValue ? 
         ((averageBookingValue - previousAverageValue) / previousAverageValue) * 100 : 0,
     },
-    dailyEarnings: dailyEarnings.map(d => ({
-      date: d.date,
-      earnings: d.earnings || 0,
-      bookings: d.bookings || 0,
+    dailyEarnings: Array.from(daily, ([date, d]) => ({
+      date,
+      earnings: d.earnings,
+      bookings: d.bookings,
     })),
-    monthlyTrends: monthlyTrends.map(m => ({
-      month: m.month,
-      earnings: m.earnings || 0,
-      bookings: m.bookings || 0,
+    monthlyTrends: Array.from(monthly, ([month, m]) => ({
+      month,
+      earnings: m.earnings,
+      bookings: m.bookings,
     })),
   };
 }
@@ -14,9 +14,19 @@ import {
   providerBlockedSlotsTable 
 } from "@/db/schema/providers-schema";
 import { profilesTable } from "@/db/schema/profiles-schema";
-import { eq, and, gte, lte, or, desc, asc, between, sql, ne } from "drizzle-orm";
+import { eq, and, gte, lte, or, desc, asc, between, sql, inArray } from "drizzle-orm";
 import { format, addDays, addMinutes, startOfDay, endOfDay, parseISO, isSameDay } from "date-fns";
 import { toZonedTime, fromZonedTime } from "date-fns-tz";
+import {
+  bookingStateEngine,
+  BookingStates,
+  CANCELED_STATES,
+  SLOT_HOLDING_STATES,
+  TransitionEvents,
+  toBookingState,
+  type TransitionActor,
+} from "@/lib/booking-state-machine";
+import { cancellationPolicyService } from "@/lib/bookings/cancellation-policy-service";
 
 // Types for available slots
 export type TimeSlot = {
@@ -53,7 +63,7 @@ export async function createBooking(data: NewBooking): Promise<Booking> {
         and(
           eq(bookingsTable.providerId, data.providerId),
           eq(bookingsTable.bookingDate, data.bookingDate),
-          ne(bookingsTable.status, bookingStatus.CANCELLED),
+          inArray(bookingsTable.status, SLOT_HOLDING_STATES),
           or(
             // New booking starts during existing booking
             and(
@@ -135,6 +145,7 @@ export async function createBooking(data: NewBooking): Promise<Booking> {
       ...data,
       confirmationCode,
       isGuestBooking: data.isGuestBooking || false,
+      cancellationPolicy: data.cancellationPolicy || (await cancellationPolicyService.policyForListing(data)),
     };
 
     // Create the booking
@@ -274,20 +285,28 @@ export async function getBookingById(bookingId: string): Promise<Booking | null>
   return booking || null;
 }
 
-// Update booking status with validation
+// Update booking status through the booking state engine
 export async function updateBookingStatus(
   bookingId: string,
   status: string,
   additionalData?: {
     stripePaymentIntentId?: string;
     cancellationReason?: string;
-    cancelledBy?: string;
     providerNotes?: string;
+    actor?: TransitionActor;
   }
 ): Promise<Booking> {
-  // Validate status transitions
+  const actor = additionalData?.actor || { type: "system", id: "system" };
+  const target = toBookingState(status);
+  const options = {
+    reason: additionalData?.cancellationReason,
+    metadata: additionalData?.stripePaymentIntentId
+      ? { paymentIntentId: additionalData.stripePaymentIntentId }
+      : undefined,
+  };
+
   const [currentBooking] = await db
-    .select()
+    .select({ status: bookingsTable.status })
     .from(bookingsTable)
     .where(eq(bookingsTable.id, bookingId));
 
@@ -295,49 +314,24 @@ export async function updateBookingStatus(
     throw new Error("Booking not found");
   }
 
-  // Define valid status transitions
-  const validTransitions: Record<string, string[]> = {
-    [bookingStatus.PENDING]: [bookingStatus.CONFIRMED, bookingStatus.CANCELLED],
-    [bookingStatus.CONFIRMED]: [bookingStatus.COMPLETED, bookingStatus.CANCELLED, bookingStatus.NO_SHOW],
-    [bookingStatus.COMPLETED]: [], // Terminal state
-    [bookingStatus.CANCELLED]: [], // Terminal state
-    [bookingStatus.NO_SHOW]: [], // Terminal state
-  };
-
-  if (!validTransitions[currentBooking.status]?.includes(status)) {
-    throw new Error(`Invalid status transition from ${currentBooking.status} to ${status}`);
+  // A confirmed booking is started before it can complete
+  if (target === BookingStates.COMPLETED && toBookingState(currentBooking.status) === BookingStates.CONFIRMED) {
+    await bookingStateEngine.dispatch(bookingId, TransitionEvents.SERVICE_START, actor, options);
   }
 
-  const updateData: Partial<Booking> = {
-    status,
-    updatedAt: new Date(),
-  };
-
-  if (status === bookingStatus.CANCELLED) {
-    updateData.cancelledAt = new Date();
-    if (additionalData?.cancellationReason) {
-      updateData.cancellationReason = additionalData.cancellationReason;
-    }
-    if (additionalData?.cancelledBy) {
-      updateData.cancelledBy = additionalData.cancelledBy;
-    }
-  }
+  const { booking } = await bookingStateEngine.moveTo(bookingId, target, actor, options);
 
-  if (status === bookingStatus.COMPLETED) {
-    updateData.completedAt = new Date();
-  }
-
-  if (additionalData?.stripePaymentIntentId) {
-    updateData.stripePaymentIntentId = additionalData.stripePaymentIntentId;
-  }
-
-  if (additionalData?.providerNotes) {
-    updateData.providerNotes = additionalData.providerNotes;
+  if (!additionalData?.stripePaymentIntentId && !additionalData?.providerNotes) {
+    return booking;
   }
 
   const [updatedBooking] = await db
     .update(bookingsTable)
-    .set(updateData)
+    .set({
+      ...(additionalData.stripePaymentIntentId && { stripePaymentIntentId: additionalData.stripePaymentIntentId }),
+      ...(additionalData.providerNotes && { providerNotes: additionalData.providerNotes }),
+      updatedAt: new Date(),
+    })
     .where(eq(bookingsTable.id, bookingId))
     .returning();
 
@@ -382,7 +376,7 @@ export async function calculateAvailableSlots(
       and(
         eq(bookingsTable.providerId, providerId),
         between(bookingsTable.bookingDate, startDate, endDate),
-        ne(bookingsTable.status, bookingStatus.CANCELLED)
+        inArray(bookingsTable.status, SLOT_HOLDING_STATES)
       )
     );
 
@@ -488,7 +482,7 @@ export async function getBookingStatistics(
     upcomingBookings: bookings.filter(
       b => b.status === bookingStatus.CONFIRMED && b.bookingDate > now
     ).length,
-    cancelledBookings: bookings.filter(b => b.status === bookingStatus.CANCELLED).length,
+    cancelledBookings: bookings.filter(b => CANCELED_STATES.includes(toBookingState(b.status))).length,
   };
 
   if (userType === "provider") {
@@ -605,59 +599,57 @@ export async function cancelBooking(
   reason: string,
   cancelledBy: string
 ): Promise<Booking> {
-  return await db.transaction(async (tx) => {
-    const [booking] = await tx
-      .select()
-      .from(bookingsTable)
-      .where(eq(bookingsTable.id, bookingId));
+  const [booking] = await db
+    .select()
+    .from(bookingsTable)
+    .where(eq(bookingsTable.id, bookingId));
 
-    if (!booking) {
-      throw new Error("Booking not found");
-    }
+  if (!booking) {
+    throw new Error("Booking not found");
+  }
 
-    // Check if booking can be cancelled
-    if (booking.status === bookingStatus.COMPLETED || 
-        booking.status === bookingStatus.CANCELLED) {
-      throw new Error(`Cannot cancel booking with status: ${booking.status}`);
-    }
+  // Check if booking can be cancelled
+  const currentState = toBookingState(booking.status);
+  if (!SLOT_HOLDING_STATES.includes(currentState)) {
+    throw new Error(`Cannot cancel booking with status: ${booking.status}`);
+  }
 
-    // Check cancellation policy (24 hours notice by default)
-    const hoursUntilBooking = Math.floor(
-      (booking.bookingDate.getTime() - Date.now()) / (1000 * 60 * 60)
-    );
+  // Check cancellation policy (24 hours notice by default)
+  const hoursUntilBooking = Math.floor(
+    (booking.bookingDate.getTime() - Date.now()) / (1000 * 60 * 60)
+  );
 
-    let cancellationFee = 0;
-    if (hoursUntilBooking < 24 && booking.status === bookingStatus.CONFIRMED) {
-      // Late cancellation - may incur fees
-      cancellationFee = parseFloat(booking.totalAmount.toString()) * 0.25; // 25% fee
-    }
+  let cancellationFee = 0;
+  if (hoursUntilBooking < 24 && currentState === BookingStates.CONFIRMED) {
+    // Late cancellation - may incur fees
+    cancellationFee = parseFloat(booking.totalAmount.toString()) * 0.25; // 25% fee
+  }
 
-    const [updatedBooking] = await tx
-      .update(bookingsTable)
-      .set({
-        status: bookingStatus.CANCELLED,
-        cancellationReason: reason,
-        cancelledBy,
-        cancelledAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(bookingsTable.id, bookingId))
-      .returning();
+  const actor = await bookingStateEngine.resolveActor(booking, cancelledBy);
+  const { booking: updatedBooking } = await bookingStateEngine.dispatch(
+    bookingId,
+    actor.type === "customer"
+      ? TransitionEvents.CUSTOMER_CANCELS
+      : currentState === BookingStates.PENDING_PROVIDER
+        ? TransitionEvents.PROVIDER_REJECTS
+        : TransitionEvents.PROVIDER_CANCELS,
+    actor,
+    { reason }
+  );
 
-    // If there's a cancellation fee, create a transaction record
-    if (cancellationFee > 0 && booking.stripePaymentIntentId) {
-      await tx.insert(transactionsTable).values({
-        bookingId,
-        amount: cancellationFee.toString(),
-        platformFee: (cancellationFee * 0.1).toString(), // 10% platform fee on cancellation fee
-        providerPayout: (cancellationFee * 0.9).toString(),
-        status: "completed",
-        processedAt: new Date(),
-      });
-    }
+  // If there's a cancellation fee, create a transaction record
+  if (cancellationFee > 0 && booking.stripePaymentIntentId) {
+    await db.insert(transactionsTable).values({
+      bookingId,
+      amount: cancellationFee.toString(),
+      platformFee: (cancellationFee * 0.1).toString(), // 10% platform fee on cancellation fee
+      providerPayout: (cancellationFee * 0.9).toString(),
+      status: "completed",
+      processedAt: new Date(),
+    });
+  }
 
-    return updatedBooking;
-  });
+  return updatedBooking;
 }
 
 // Complete a booking
@@ -675,15 +667,20 @@ export async function completeBooking(
     throw new Error("Booking not found");
   }
 
-  if (booking.status !== bookingStatus.CONFIRMED) {
+  const currentState = toBookingState(booking.status);
+  if (currentState !== BookingStates.CONFIRMED && currentState !== BookingStates.IN_PROGRESS) {
     throw new Error(`Cannot complete booking with status: ${booking.status}`);
   }
 
+  const actor = await bookingStateEngine.resolveActor(booking, completedBy);
+  if (currentState === BookingStates.CONFIRMED) {
+    await bookingStateEngine.dispatch(bookingId, TransitionEvents.SERVICE_START, actor);
+  }
+  await bookingStateEngine.dispatch(bookingId, TransitionEvents.SERVICE_END, actor);
+
   const [updatedBooking] = await db
     .update(bookingsTable)
     .set({
-      status: bookingStatus.COMPLETED,
-      completedAt: new Date(),
       providerNotes: notes,
       updatedAt: new Date(),
     })
@@ -707,10 +704,7 @@ export async function getUpcomingBookings(
       and(
         eq(bookingsTable.providerId, providerId),
         gte(bookingsTable.bookingDate, now),
-        or(
-          eq(bookingsTable.status, bookingStatus.PENDING),
-          eq(bookingsTable.status, bookingStatus.CONFIRMED)
-        )
+        inArray(bookingsTable.status, [BookingStates.PENDING_PROVIDER, BookingStates.CONFIRMED])
       )
     )
     .orderBy(asc(bookingsTable.bookingDate), asc(bookingsTable.startTime))
@@ -730,8 +724,9 @@ export async function getPastBookings(
     or(
       lte(bookingsTable.bookingDate, now),
       eq(bookingsTable.status, bookingStatus.COMPLETED),
-      eq(bookingsTable.status, bookingStatus.CANCELLED),
-      eq(bookingsTable.status, bookingStatus.NO_SHOW)
+      inArray(bookingsTable.status, CANCELED_STATES),
+      eq(bookingsTable.status, bookingStatus.NO_SHOW_CUSTOMER),
+      eq(bookingsTable.status, bookingStatus.NO_SHOW_PROVIDER)
     )
   );
 
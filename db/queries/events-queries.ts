@@ -43,6 +43,7 @@ export interface EventWithProvider extends Event {
     profileImageUrl: string | null;
     slug: string;
     isVerified: boolean;
+    currency: string;
   };
   availableSpots?: number;
 }
@@ -198,6 +199,7 @@ export async function searchEvents(filters: SearchEventsFilters) {
           profileImageUrl: providersTable.profileImageUrl,
           slug: providersTable.slug,
           isVerified: providersTable.isVerified,
+          currency: providersTable.currency,
         },
         distance: distanceSelect,
       })
@@ -480,7 +480,9 @@ export async function getProviderStatisticsOptimized(
   const upcomingBookings = allBookings.filter(
     b => b.status === 'confirmed' && b.bookingDate >= now
   ).length;
-  const cancelledBookings = allBookings.filter(b => b.status === 'cancelled').length;
+  const cancelledBookings = allBookings.filter(
+    b => b.status === 'canceled_customer' || b.status === 'canceled_provider'
+  ).length;
 
   // Calculate revenue statistics
   const completedRevenue = allBookings
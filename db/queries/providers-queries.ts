@@ -9,7 +9,7 @@ import {
   type NewProviderAvailability,
 } from "@/db/schema/providers-schema";
 import { eq, and, or, like, ilike, sql, inArray } from "drizzle-orm";
-import { getProviderReviewsWithCustomerInfo } from "./reviews-queries";
+import { getProviderReviewsWithCustomerInfo, getReviewPhotos } from "./reviews-queries";
 
 // Create a new provider profile
 export async function createProvider(data: NewProvider): Promise<Provider> {
@@ -66,13 +66,19 @@ export async function getProviderBySlugWithReviews(slug: string): Promise<(Provi
   const reviews = await getProviderReviewsWithCustomerInfo(provider.id, {
     limit: 50, // Fetch up to 50 most recent reviews
   });
+  const photos = await getReviewPhotos(reviews.map(review => review.id));
 
   return {
     ...provider,
     reviews: reviews.map(review => ({
       id: review.id,
+      listingType: review.listingType,
       rating: review.rating,
+      subRatings: review.subRatings,
+      title: review.title,
       reviewText: review.reviewText,
+      helpfulCount: review.helpfulCount,
+      photos: photos[review.id] || [],
       createdAt: review.createdAt.toISOString(),
       customerName: review.customerName,
       customerAvatar: review.customerAvatar,
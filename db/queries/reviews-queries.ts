@@ -1,11 +1,12 @@
 import { db } from "@/db/db";
 import { 
   reviewsTable,
+  reviewPhotosTable,
   type Review,
   type NewReview,
 } from "@/db/schema/reviews-schema";
 import { profilesTable } from "@/db/schema/profiles-schema";
-import { eq, and, desc, sql, count } from "drizzle-orm";
+import { eq, and, desc, sql, count, asc, inArray } from "drizzle-orm";
 
 // Get reviews for a provider
 export async function getProviderReviews(
@@ -32,14 +33,22 @@ export async function getProviderReviews(
       bookingId: reviewsTable.bookingId,
       providerId: reviewsTable.providerId,
       customerId: reviewsTable.customerId,
+      listingType: reviewsTable.listingType,
+      listingId: reviewsTable.listingId,
       rating: reviewsTable.rating,
+      subRatings: reviewsTable.subRatings,
+      title: reviewsTable.title,
       reviewText: reviewsTable.reviewText,
+      helpfulCount: reviewsTable.helpfulCount,
       providerResponse: reviewsTable.providerResponse,
       providerRespondedAt: reviewsTable.providerRespondedAt,
       isVerifiedBooking: reviewsTable.isVerifiedBooking,
       isPublished: reviewsTable.isPublished,
       isFlagged: reviewsTable.isFlagged,
       flagReason: reviewsTable.flagReason,
+      screenedAt: reviewsTable.screenedAt,
+      revealAt: reviewsTable.revealAt,
+      revealedAt: reviewsTable.revealedAt,
       createdAt: reviewsTable.createdAt,
       updatedAt: reviewsTable.updatedAt,
     })
@@ -64,14 +73,22 @@ export async function getProviderReviewsWithCustomerInfo(
       bookingId: reviewsTable.bookingId,
       providerId: reviewsTable.providerId,
       customerId: reviewsTable.customerId,
+      listingType: reviewsTable.listingType,
+      listingId: reviewsTable.listingId,
       rating: reviewsTable.rating,
+      subRatings: reviewsTable.subRatings,
+      title: reviewsTable.title,
       reviewText: reviewsTable.reviewText,
+      helpfulCount: reviewsTable.helpfulCount,
       providerResponse: reviewsTable.providerResponse,
       providerRespondedAt: reviewsTable.providerRespondedAt,
       isVerifiedBooking: reviewsTable.isVerifiedBooking,
       isPublished: reviewsTable.isPublished,
       isFlagged: reviewsTable.isFlagged,
       flagReason: reviewsTable.flagReason,
+      screenedAt: reviewsTable.screenedAt,
+      revealAt: reviewsTable.revealAt,
+      revealedAt: reviewsTable.revealedAt,
       createdAt: reviewsTable.createdAt,
       updatedAt: reviewsTable.updatedAt,
       customerName: sql<string>`COALESCE(${profilesTable.email}, 'Anonymous Customer')`,
@@ -93,6 +110,31 @@ export async function getProviderReviewsWithCustomerInfo(
   return reviews;
 }
 
+// Get photos of the given reviews in upload order, keyed by review id
+export async function getReviewPhotos(
+  reviewIds: string[]
+): Promise<Record<string, Array<{ id: string; url: string }>>> {
+  if (reviewIds.length === 0) {
+    return {};
+  }
+
+  const photos = await db
+    .select({
+      id: reviewPhotosTable.id,
+      reviewId: reviewPhotosTable.reviewId,
+      url: reviewPhotosTable.url,
+    })
+    .from(reviewPhotosTable)
+    .where(inArray(reviewPhotosTable.reviewId, reviewIds))
+    .orderBy(asc(reviewPhotosTable.sortOrder));
+
+  const byReview: Record<string, Array<{ id: string; url: string }>> = {};
+  for (const photo of photos) {
+    (byReview[photo.reviewId] ||= []).push({ id: photo.id, url: photo.url });
+  }
+  return byReview;
+}
+
 // Calculate provider rating statistics
 export async function getProviderRatingStats(providerId: string): Promise<{
   averageRating: number;
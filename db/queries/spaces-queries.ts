@@ -3,7 +3,6 @@ import {
   spacesTable, 
   spaceAvailabilityTable, 
   spaceFavoritesTable,
-  spaceReviewsTable,
   type Space, 
   type NewSpace,
   type SpaceAvailability,
@@ -11,8 +10,18 @@ import {
 } from "@/db/schema/spaces-schema";
 import { providersTable } from "@/db/schema/providers-schema";
 import { bookingsTable } from "@/db/schema/bookings-schema";
+import { reviewsTable } from "@/db/schema/reviews-schema";
+import { SLOT_HOLDING_STATES } from "@/lib/booking-state-machine/status-map";
 import { eq, and, gte, lte, ilike, sql, desc, asc, or, between, gt, lt, inArray, not } from "drizzle-orm";
 import { getGeocoding } from "@/lib/geocoding";
+import { windowStartTimes, type AvailabilityWindow } from "@/lib/availability/search-availability";
+import { DEFAULT_PROVIDER_TIMEZONE, dayOfWeekForDate } from "@/lib/availability/timezone";
+
+// Visible reviews of the space in the enclosing query, for rating subqueries
+const publishedReviewsOfSpace = sql`${reviewsTable.listingType} = 'space'
+  AND ${reviewsTable.listingId} = ${spacesTable.id}
+  AND ${reviewsTable.isPublished} = true
+  AND ${reviewsTable.isFlagged} = false`;
 
 export interface SearchSpacesFilters {
   query?: string;
@@ -52,6 +61,7 @@ export interface SearchSpacesFilters {
   radiusMiles?: number;
   availableFrom?: Date;
   availableTo?: Date;
+  availableOn?: AvailabilityWindow; // Only spaces with an open slot then
   sortBy?: "price_hourly" | "price_daily" | "capacity" | "rating" | "popularity" | "distance" | "created";
   sortOrder?: "asc" | "desc";
   limit?: number;
@@ -65,12 +75,66 @@ export interface SpaceWithProvider extends Space {
     profileImageUrl: string | null;
     slug: string;
     isVerified: boolean;
+    currency: string;
   };
   averageRating?: number;
   totalReviews?: number;
   distance?: number;
 }
 
+// Start times checked for an open space slot
+const SPACE_SLOT_INTERVAL_MINUTES = 30;
+
+const OPERATING_DAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+
+/**
+ * The space in the enclosing query has an open slot in the window: a start
+ * time within its operating hours that day, past its advance notice, whose
+ * minimum booking duration is clear of blocks and, with its buffer, of
+ * bookings holding the space. Spaces without operating hours are open all day.
+ * Times are wall-clock times in the provider's timezone, as SlotGenerator reads them.
+ */
+function openSpaceSlotCondition(window: AvailabilityWindow) {
+  const { from, to } = windowStartTimes(window);
+  const hours = sql`CASE
+    WHEN ${spacesTable.operatingHours} IS NULL OR ${spacesTable.operatingHours} = '{}'::jsonb
+    THEN '{"open": "00:00", "close": "24:00"}'::jsonb
+    ELSE ${spacesTable.operatingHours}->(${OPERATING_DAYS[dayOfWeekForDate(window.date)]}::text)
+  END`;
+  const duration = sql`make_interval(mins => COALESCE(${spacesTable.minimumBookingDuration}, 60))`;
+  const buffer = sql`make_interval(mins => COALESCE(${spacesTable.bufferTimeBetweenBookings}, 0))`;
+  const bookingStart = sql`(${bookingsTable.bookingDate}::date + ${bookingsTable.startTime}::time)`;
+  const bookingEnd = sql`(${bookingsTable.bookingDate}::date + ${bookingsTable.endTime}::time)`;
+
+  return sql`EXISTS (
+    SELECT 1
+    FROM generate_series(
+      ${window.date}::date + (${hours}->>'open')::time,
+      ${window.date}::date + (${hours}->>'close')::time - ${duration},
+      make_interval(mins => ${SPACE_SLOT_INTERVAL_MINUTES})
+    ) AS slot(starts_at)
+    WHERE slot.starts_at::time >= ${from}::time
+      ${to ? sql`AND slot.starts_at::time < ${to}::time` : sql``}
+      AND slot.starts_at AT TIME ZONE COALESCE(${providersTable.timezone}, ${DEFAULT_PROVIDER_TIMEZONE})
+        > now() + make_interval(hours => COALESCE(${spacesTable.advanceNoticeHours}, 0))
+      AND NOT EXISTS (
+        SELECT 1 FROM ${spaceAvailabilityTable}
+        WHERE ${spaceAvailabilityTable.spaceId} = ${spacesTable.id}
+          AND ${spaceAvailabilityTable.availabilityType} <> 'available'
+          AND ${spaceAvailabilityTable.startDate} < slot.starts_at + ${duration}
+          AND ${spaceAvailabilityTable.endDate} > slot.starts_at
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM ${bookingsTable}
+        WHERE ${bookingsTable.spaceId} = ${spacesTable.id}
+          AND ${inArray(bookingsTable.status, SLOT_HOLDING_STATES)}
+          AND ${bookingsTable.bookingDate}::date = ${window.date}::date
+          AND ${bookingStart} < slot.starts_at + ${duration} + ${buffer}
+          AND ${bookingEnd} > slot.starts_at - ${buffer}
+      )
+  )`;
+}
+
 /**
  * Search spaces with comprehensive filters
  */
@@ -104,6 +168,7 @@ export async function searchSpaces(filters: SearchSpacesFilters) {
       radiusMiles = 25,
       availableFrom,
       availableTo,
+      availableOn,
       sortBy = "created",
       sortOrder = "desc",
       limit = 20,
@@ -276,19 +341,22 @@ export async function searchSpaces(filters: SearchSpacesFilters) {
       }
     }
 
+    // Open slot on a requested date and time
+    if (availableOn) {
+      conditions.push(openSpaceSlotCondition(availableOn));
+    }
+
     // Calculate average rating subquery
     const avgRatingSelect = sql`
       (SELECT AVG(rating) 
-       FROM ${spaceReviewsTable} 
-       WHERE ${spaceReviewsTable.spaceId} = ${spacesTable.id} 
-       AND ${spaceReviewsTable.isHidden} = false) as average_rating
+       FROM ${reviewsTable} 
+       WHERE ${publishedReviewsOfSpace}) as average_rating
     `;
     
     const totalReviewsSelect = sql`
       (SELECT COUNT(*) 
-       FROM ${spaceReviewsTable} 
-       WHERE ${spaceReviewsTable.spaceId} = ${spacesTable.id} 
-       AND ${spaceReviewsTable.isHidden} = false) as total_reviews
+       FROM ${reviewsTable} 
+       WHERE ${publishedReviewsOfSpace}) as total_reviews
     `;
 
     // Build the main query
@@ -301,6 +369,7 @@ export async function searchSpaces(filters: SearchSpacesFilters) {
           profileImageUrl: providersTable.profileImageUrl,
           slug: providersTable.slug,
           isVerified: providersTable.isVerified,
+          currency: providersTable.currency,
         },
         distance: distanceSelect,
         averageRating: avgRatingSelect,
@@ -405,15 +474,13 @@ export async function getFeaturedSpaces(limit: number = 10) {
         },
         averageRating: sql`
           (SELECT AVG(rating) 
-           FROM ${spaceReviewsTable} 
-           WHERE ${spaceReviewsTable.spaceId} = ${spacesTable.id} 
-           AND ${spaceReviewsTable.isHidden} = false)
+           FROM ${reviewsTable} 
+           WHERE ${publishedReviewsOfSpace})
         `,
         totalReviews: sql`
           (SELECT COUNT(*) 
-           FROM ${spaceReviewsTable} 
-           WHERE ${spaceReviewsTable.spaceId} = ${spacesTable.id} 
-           AND ${spaceReviewsTable.isHidden} = false)
+           FROM ${reviewsTable} 
+           WHERE ${publishedReviewsOfSpace})
         `,
       })
       .from(spacesTable)
@@ -427,7 +494,7 @@ export async function getFeaturedSpaces(limit: number = 10) {
       )
       .orderBy(
         desc(sql`
-          COALESCE((SELECT AVG(rating) FROM ${spaceReviewsTable} WHERE ${spaceReviewsTable.spaceId} = ${spacesTable.id}), 0) * 10 +
+          COALESCE((SELECT AVG(rating) FROM ${reviewsTable} WHERE ${publishedReviewsOfSpace}), 0) * 10 +
           ${spacesTable.totalBookings} * 2 +
           ${spacesTable.favoriteCount}
         `)
@@ -468,15 +535,13 @@ export async function getSpaceById(id: string, incrementView = false) {
         provider: providersTable,
         averageRating: sql`
           (SELECT AVG(rating) 
-           FROM ${spaceReviewsTable} 
-           WHERE ${spaceReviewsTable.spaceId} = ${spacesTable.id} 
-           AND ${spaceReviewsTable.isHidden} = false)
+           FROM ${reviewsTable} 
+           WHERE ${publishedReviewsOfSpace})
         `,
         totalReviews: sql`
           (SELECT COUNT(*) 
-           FROM ${spaceReviewsTable} 
-           WHERE ${spaceReviewsTable.spaceId} = ${spacesTable.id} 
-           AND ${spaceReviewsTable.isHidden} = false)
+           FROM ${reviewsTable} 
+           WHERE ${publishedReviewsOfSpace})
         `,
       })
       .from(spacesTable)
@@ -590,7 +655,7 @@ export async function deleteSpace(id: string) {
         and(
           eq(bookingsTable.serviceId, id),
           eq(bookingsTable.bookingType, "space"),
-          inArray(bookingsTable.status, ["PENDING_PROVIDER", "ACCEPTED", "PAYMENT_PENDING", "PAYMENT_SUCCEEDED"])
+          inArray(bookingsTable.status, SLOT_HOLDING_STATES)
         )
       );
 
@@ -663,7 +728,7 @@ export async function checkSpaceAvailability(
         and(
           eq(bookingsTable.serviceId, spaceId),
           eq(bookingsTable.bookingType, "space"),
-          inArray(bookingsTable.status, ["ACCEPTED", "PAYMENT_SUCCEEDED", "COMPLETED"]),
+          inArray(bookingsTable.status, ["confirmed", "in_progress", "completed"]),
           or(
             between(bookingsTable.bookingStartDateTime, startDate, endDate),
             between(bookingsTable.bookingEndDateTime, startDate, endDate),
@@ -760,15 +825,13 @@ export async function getSpacesByProvider(providerId: string, limit = 20, offset
         space: spacesTable,
         averageRating: sql`
           (SELECT AVG(rating) 
-           FROM ${spaceReviewsTable} 
-           WHERE ${spaceReviewsTable.spaceId} = ${spacesTable.id} 
-           AND ${spaceReviewsTable.isHidden} = false)
+           FROM ${reviewsTable} 
+           WHERE ${publishedReviewsOfSpace})
         `,
         totalReviews: sql`
           (SELECT COUNT(*) 
-           FROM ${spaceReviewsTable} 
-           WHERE ${spaceReviewsTable.spaceId} = ${spacesTable.id} 
-           AND ${spaceReviewsTable.isHidden} = false)
+           FROM ${reviewsTable} 
+           WHERE ${publishedReviewsOfSpace})
         `,
       })
       .from(spacesTable)
@@ -814,6 +877,7 @@ export async function searchSpacesByAmenities(amenities: string[], limit = 20) {
           profileImageUrl: providersTable.profileImageUrl,
           slug: providersTable.slug,
           isVerified: providersTable.isVerified,
+          currency: providersTable.currency,
         },
       })
       .from(spacesTable)
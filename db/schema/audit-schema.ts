@@ -20,6 +20,44 @@ import {
 import { bookingsTable } from "./bookings-schema";
 import { providersTable } from "./providers-schema";
 
+// Stripe evidence fields that take an uploaded file
+export const disputeFileEvidenceFields = [
+  "receipt",
+  "service_documentation",
+  "customer_communication",
+  "customer_signature",
+  "cancellation_policy",
+  "refund_policy",
+  "uncategorized_file",
+] as const;
+
+export type DisputeFileEvidenceField = typeof disputeFileEvidenceFields[number];
+
+export interface DisputeEvidenceFile {
+  id: string;
+  stripeFileId: string;
+  evidenceField: DisputeFileEvidenceField;
+  filename: string;
+  mimeType: string;
+  size: number;
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+export interface DisputeEvidenceNote {
+  id: string;
+  body: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+// Provider additions while preparing a response, and what was finally sent
+export interface DisputeEvidenceDetails {
+  files: DisputeEvidenceFile[];
+  notes: DisputeEvidenceNote[];
+  submitted?: Record<string, string>;
+}
+
 /**
  * Disputes Table
  * Tracks payment disputes and chargebacks
@@ -34,6 +72,7 @@ export const disputesTable = pgTable("disputes", {
   // Stripe details
   stripeDisputeId: text("stripe_dispute_id").notNull().unique(),
   stripeChargeId: text("stripe_charge_id").notNull(),
+  stripeAccountId: text("stripe_account_id"), // Connected account the charge lives on; null for platform charges
   
   // Dispute details
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
@@ -44,7 +83,9 @@ export const disputesTable = pgTable("disputes", {
   // Evidence and deadlines
   evidenceDueBy: timestamp("evidence_due_by"),
   evidenceSubmittedAt: timestamp("evidence_submitted_at"),
-  evidenceDetails: jsonb("evidence_details"),
+  evidenceDetails: jsonb("evidence_details").$type<DisputeEvidenceDetails>(),
+  evidenceSubmittedBy: text("evidence_submitted_by"),
+  evidenceRemindersSent: jsonb("evidence_reminders_sent").$type<number[]>().default([]).notNull(), // Hours-before-deadline thresholds already notified
   
   // Outcome
   outcome: text("outcome"),
@@ -0,0 +1,64 @@
+import {
+  pgTable,
+  text,
+  uuid,
+  timestamp,
+  numeric,
+  boolean,
+  index
+} from "drizzle-orm/pg-core";
+import { profilesTable } from "./profiles-schema";
+import { bookingsTable } from "./bookings-schema";
+
+// Reschedule request status enum
+export const rescheduleRequestStatus = {
+  PENDING: "pending", // Waiting for provider approval
+  APPLIED: "applied",
+  DECLINED: "declined",
+  WITHDRAWN: "withdrawn",
+} as const;
+
+// ===== BOOKING RESCHEDULE REQUESTS TABLE =====
+// One row per customer reschedule; applied immediately unless the service requires approval
+export const bookingRescheduleRequestsTable = pgTable("booking_reschedule_requests", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  bookingId: uuid("booking_id")
+    .notNull()
+    .references(() => bookingsTable.id, { onDelete: "cascade" }),
+  requestedBy: text("requested_by")
+    .notNull()
+    .references(() => profilesTable.userId, { onDelete: "cascade" }),
+
+  // Slot before and after, provider-local dates stored as UTC midnight
+  previousDate: timestamp("previous_date").notNull(),
+  previousStartTime: text("previous_start_time").notNull(),
+  previousEndTime: text("previous_end_time").notNull(),
+  requestedDate: timestamp("requested_date").notNull(),
+  requestedStartTime: text("requested_start_time").notNull(),
+  requestedEndTime: text("requested_end_time").notNull(),
+
+  // Service price at the old and new time (dynamic pricing can differ)
+  previousPrice: numeric("previous_price", { precision: 10, scale: 2 }).notNull(),
+  newPrice: numeric("new_price", { precision: 10, scale: 2 }).notNull(),
+
+  status: text("status", { enum: Object.values(rescheduleRequestStatus) as [string, ...string[]] })
+    .default(rescheduleRequestStatus.PENDING)
+    .notNull(),
+  requiresApproval: boolean("requires_approval").default(false).notNull(),
+  reason: text("reason"),
+  responseNote: text("response_note"),
+  respondedBy: text("responded_by"),
+  respondedAt: timestamp("responded_at"),
+  appliedAt: timestamp("applied_at"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    bookingIdx: index("idx_reschedule_requests_booking").on(table.bookingId, table.status),
+  };
+});
+
+export type BookingRescheduleRequest = typeof bookingRescheduleRequestsTable.$inferSelect;
+export type NewBookingRescheduleRequest = typeof bookingRescheduleRequestsTable.$inferInsert;
+export type RescheduleRequestStatus = typeof rescheduleRequestStatus[keyof typeof rescheduleRequestStatus];
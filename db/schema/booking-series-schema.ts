@@ -0,0 +1,140 @@
+import {
+  pgTable,
+  text,
+  uuid,
+  timestamp,
+  numeric,
+  integer,
+  jsonb,
+  index,
+  uniqueIndex
+} from "drizzle-orm/pg-core";
+import { profilesTable } from "./profiles-schema";
+import { providersTable } from "./providers-schema";
+import { bookingsTable } from "./bookings-schema";
+
+/**
+ * Recurrence of a booking series
+ * Same day/minute shape as the provider's RecurringRule, anchored at a start date
+ * in the provider's timezone so occurrences keep their wall-clock time across DST.
+ */
+export interface SeriesRecurrence {
+  frequency: "weekly" | "biweekly" | "monthly";
+  dayOfWeek: number; // 0 = Sunday
+  weekOfMonth?: number; // Monthly only: 1-4, or -1 for the last week
+  startMinute: number; // Minutes from provider-local midnight
+  endMinute: number;
+  startDate: string; // YYYY-MM-DD, first occurrence
+  count?: number; // Total occurrences, including skipped ones
+  until?: string; // YYYY-MM-DD, last possible occurrence date
+}
+
+// Series status enum
+export const bookingSeriesStatus = {
+  ACTIVE: "active",
+  COMPLETED: "completed",
+  CANCELLED: "cancelled",
+} as const;
+
+// Occurrence status enum
+export const seriesOccurrenceStatus = {
+  RESERVED: "reserved",
+  RESCHEDULED: "rescheduled",
+  SKIPPED: "skipped",
+  CANCELLED: "cancelled",
+  CONFLICT: "conflict", // Slot was not available when the occurrence came into the horizon
+} as const;
+
+// Occurrence payment status enum
+export const seriesPaymentStatus = {
+  PENDING: "pending",
+  SUCCEEDED: "succeeded",
+  FAILED: "failed",
+  REFUNDED: "refunded",
+  NOT_CHARGED: "not_charged",
+} as const;
+
+// ===== BOOKING SERIES TABLE =====
+export const bookingSeriesTable = pgTable("booking_series", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  customerId: text("customer_id")
+    .notNull()
+    .references(() => profilesTable.userId, { onDelete: "restrict" }),
+  providerId: uuid("provider_id")
+    .notNull()
+    .references(() => providersTable.id, { onDelete: "restrict" }),
+  serviceId: uuid("service_id"),
+
+  // Service snapshot copied onto every occurrence booking
+  serviceName: text("service_name").notNull(),
+  servicePrice: numeric("service_price", { precision: 10, scale: 2 }).notNull(),
+  currency: text("currency").default("usd").notNull(), // Provider currency at creation
+  serviceDuration: integer("service_duration").notNull(), // in minutes
+
+  // Recurrence
+  recurrence: jsonb("recurrence").$type<SeriesRecurrence>().notNull(),
+  rrule: text("rrule").notNull(), // RFC 5545 form of `recurrence`, for display and export
+  timezone: text("timezone").notNull(), // Provider zone at creation
+
+  // Saved payment method charged off-session for each occurrence
+  stripeCustomerId: text("stripe_customer_id").notNull(),
+  stripePaymentMethodId: text("stripe_payment_method_id").notNull(),
+
+  status: text("status", { enum: Object.values(bookingSeriesStatus) as [string, ...string[]] })
+    .default(bookingSeriesStatus.ACTIVE)
+    .notNull(),
+  reservedThrough: timestamp("reserved_through"), // Last provider-local date already expanded
+  customerNotes: text("customer_notes"),
+  cancellationReason: text("cancellation_reason"),
+  cancelledBy: text("cancelled_by"),
+  cancelledAt: timestamp("cancelled_at"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    customerIdx: index("idx_booking_series_customer").on(table.customerId),
+    providerIdx: index("idx_booking_series_provider").on(table.providerId),
+    statusIdx: index("idx_booking_series_status").on(table.status),
+  };
+});
+
+// ===== BOOKING SERIES OCCURRENCES TABLE =====
+// One row per expanded date; the booking row moves when an occurrence is rescheduled
+export const bookingSeriesOccurrencesTable = pgTable("booking_series_occurrences", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  seriesId: uuid("series_id")
+    .notNull()
+    .references(() => bookingSeriesTable.id, { onDelete: "cascade" }),
+  bookingId: uuid("booking_id")
+    .references(() => bookingsTable.id, { onDelete: "set null" }),
+
+  originalDate: timestamp("original_date").notNull(), // Provider-local date stored as UTC midnight
+  startsAt: timestamp("starts_at", { withTimezone: true }).notNull(), // Current start, moves on reschedule
+
+  status: text("status", { enum: Object.values(seriesOccurrenceStatus) as [string, ...string[]] })
+    .default(seriesOccurrenceStatus.RESERVED)
+    .notNull(),
+  paymentStatus: text("payment_status", { enum: Object.values(seriesPaymentStatus) as [string, ...string[]] })
+    .default(seriesPaymentStatus.PENDING)
+    .notNull(),
+  stripePaymentIntentId: text("stripe_payment_intent_id"),
+  chargedAt: timestamp("charged_at"),
+  paymentError: text("payment_error"),
+  chargeAttempts: integer("charge_attempts").default(0).notNull(), // Failed off-session charges so far
+  nextChargeAt: timestamp("next_charge_at", { withTimezone: true }), // When a failed charge is retried
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    seriesDateIdx: uniqueIndex("idx_series_occurrence_date").on(table.seriesId, table.originalDate),
+    chargeIdx: index("idx_series_occurrence_charge").on(table.paymentStatus, table.startsAt),
+  };
+});
+
+export type BookingSeries = typeof bookingSeriesTable.$inferSelect;
+export type NewBookingSeries = typeof bookingSeriesTable.$inferInsert;
+
+export type BookingSeriesOccurrence = typeof bookingSeriesOccurrencesTable.$inferSelect;
+export type NewBookingSeriesOccurrence = typeof bookingSeriesOccurrencesTable.$inferInsert;
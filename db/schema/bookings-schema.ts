@@ -1,14 +1,25 @@
 import { pgTable, text, uuid, timestamp, numeric, integer, boolean, jsonb } from "drizzle-orm/pg-core";
 import { providersTable } from "./providers-schema";
 import { profilesTable } from "./profiles-schema";
+import type { BookingCancellationPolicy } from "./cancellation-policies-schema";
 
-// Booking status enum
+// Booking status enum (the canonical states from lib/booking-state-machine/states)
+// Only the booking state engine writes this column after creation
 export const bookingStatus = {
-  PENDING: "pending",
+  DRAFT: "draft",
+  HOLD: "hold",
+  EXPIRED: "expired",
+  PENDING_PROVIDER: "pending_provider",
   CONFIRMED: "confirmed",
+  IN_PROGRESS: "in_progress",
   COMPLETED: "completed",
-  CANCELLED: "cancelled",
-  NO_SHOW: "no_show",
+  CANCELED_CUSTOMER: "canceled_customer",
+  CANCELED_PROVIDER: "canceled_provider",
+  NO_SHOW_CUSTOMER: "no_show_customer",
+  NO_SHOW_PROVIDER: "no_show_provider",
+  REFUNDED_PARTIAL: "refunded_partial",
+  REFUNDED_FULL: "refunded_full",
+  DISPUTE: "dispute",
 } as const;
 
 // Main bookings table
@@ -33,19 +44,23 @@ export const bookingsTable = pgTable("bookings", {
   
   // Status
   status: text("status", { enum: Object.values(bookingStatus) as [string, ...string[]] })
-    .default(bookingStatus.PENDING)
+    .default(bookingStatus.PENDING_PROVIDER)
     .notNull(),
+  stateExpiresAt: timestamp("state_expires_at"), // When the timeout sweeper expires the current state
   
   // Payment information
   stripePaymentIntentId: text("stripe_payment_intent_id"),
   totalAmount: numeric("total_amount", { precision: 10, scale: 2 }).notNull(),
   platformFee: numeric("platform_fee", { precision: 10, scale: 2 }).notNull(),
   providerPayout: numeric("provider_payout", { precision: 10, scale: 2 }).notNull(),
+  taxAmount: numeric("tax_amount", { precision: 10, scale: 2 }).default("0").notNull(), // Included in totalAmount; passed through to the provider
+  currency: text("currency").default("usd").notNull(), // Settlement currency, from the provider at checkout
   
   // Additional info
   customerNotes: text("customer_notes"),
   providerNotes: text("provider_notes"),
   cancellationReason: text("cancellation_reason"),
+  cancellationPolicy: jsonb("cancellation_policy").$type<BookingCancellationPolicy>(), // Policy in force when booked; refunds follow this copy
   cancelledBy: text("cancelled_by")
     .references(() => profilesTable.userId, { onDelete: "set null" }), // SET NULL: Allow null if cancelling user is deleted
   
@@ -69,6 +84,7 @@ export const bookingsTable = pgTable("bookings", {
   eventId: uuid("event_id"), // For event bookings
   spaceId: uuid("space_id"), // For space bookings
   serviceId: uuid("service_id"), // For service bookings
+  seriesId: uuid("series_id"), // Recurring booking series this occurrence belongs to
   
   // Additional metadata for different booking types
   metadata: jsonb("metadata").$type<{
@@ -94,6 +110,7 @@ export const bookingsTable = pgTable("bookings", {
     itemPrice?: number;
     shippingCost?: number;
     purchaseType?: string;
+    negotiationId?: string; // Accepted offer the purchase was made from
   }>().default({}),
   
   // Timestamps
@@ -119,6 +136,7 @@ export const transactionsTable = pgTable("transactions", {
   platformFee: numeric("platform_fee", { precision: 10, scale: 2 }).notNull(),
   providerPayout: numeric("provider_payout", { precision: 10, scale: 2 }).notNull(),
   refundAmount: numeric("refund_amount", { precision: 10, scale: 2 }),
+  currency: text("currency").default("usd").notNull(),
   
   // Status
   status: text("status", { 
@@ -0,0 +1,50 @@
+import {
+  pgTable,
+  text,
+  uuid,
+  timestamp,
+  boolean,
+  jsonb,
+  index
+} from "drizzle-orm/pg-core";
+import { providersTable } from "./providers-schema";
+
+// One step of a refund schedule: cancelling at least `hoursBefore` the start refunds `refundPercent`
+export interface CancellationTier {
+  hoursBefore: number;
+  refundPercent: number; // 0-100
+}
+
+// Copy of the policy a booking was made under; later edits to the policy don't reach it
+export interface BookingCancellationPolicy {
+  source: "listing" | "provider_default" | "listing_terms" | "platform_default";
+  policyId: string | null;
+  name: string;
+  tiers: CancellationTier[];
+}
+
+// ===== CANCELLATION POLICIES TABLE =====
+// Provider-defined refund schedules, attached to services, spaces and events
+export const cancellationPoliciesTable = pgTable("cancellation_policies", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  providerId: uuid("provider_id")
+    .notNull()
+    .references(() => providersTable.id, { onDelete: "cascade" }), // CASCADE: Delete policies when provider is deleted
+
+  name: text("name").notNull(),
+  description: text("description"),
+  tiers: jsonb("tiers").$type<CancellationTier[]>().notNull(), // Sorted by hoursBefore, descending
+
+  // Applies to the provider's listings that have no policy of their own
+  isDefault: boolean("is_default").default(false).notNull(),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    providerIdx: index("idx_cancellation_policies_provider").on(table.providerId, table.isDefault),
+  };
+});
+
+export type CancellationPolicy = typeof cancellationPoliciesTable.$inferSelect;
+export type NewCancellationPolicy = typeof cancellationPoliciesTable.$inferInsert;
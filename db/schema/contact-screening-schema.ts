@@ -0,0 +1,58 @@
+import {
+  pgTable,
+  text,
+  uuid,
+  timestamp,
+  jsonb,
+  index
+} from "drizzle-orm/pg-core";
+import { profilesTable } from "./profiles-schema";
+import { conversationsTable } from "./messages-schema";
+import { thingsTable } from "./things-schema";
+
+export const contactKinds = ["phone", "email", "payment_handle", "messaging_link"] as const;
+export type ContactKind = typeof contactKinds[number];
+
+export interface ContactFindingRecord {
+  kind: ContactKind;
+  value: string; // As written, before masking
+}
+
+// ===== CONTACT SCREENING INCIDENTS TABLE =====
+// Messages and inquiries that tried to share phone numbers, emails or payment
+// handles before the two parties had a paid booking or order. The text was
+// masked (or, for repeat offenders, blocked) and queued here for admin review.
+export const contactScreeningIncidentsTable = pgTable("contact_screening_incidents", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => profilesTable.userId, { onDelete: "cascade" }),
+  counterpartId: text("counterpart_id")
+    .references(() => profilesTable.userId, { onDelete: "set null" }),
+
+  source: text("source", { enum: ["message", "thing_inquiry"] }).notNull(),
+  conversationId: uuid("conversation_id")
+    .references(() => conversationsTable.id, { onDelete: "set null" }),
+  thingId: uuid("thing_id")
+    .references(() => thingsTable.id, { onDelete: "set null" }),
+
+  action: text("action", { enum: ["masked", "blocked"] }).notNull(),
+  findings: jsonb("findings").$type<ContactFindingRecord[]>().notNull(),
+  originalContent: text("original_content").notNull(),
+
+  // Admin review
+  status: text("status", { enum: ["open", "dismissed", "confirmed"] }).default("open").notNull(),
+  reviewedBy: text("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index("idx_contact_incidents_user").on(table.userId, table.createdAt),
+    statusIdx: index("idx_contact_incidents_status").on(table.status, table.createdAt),
+  };
+});
+
+export type ContactScreeningIncident = typeof contactScreeningIncidentsTable.$inferSelect;
+export type NewContactScreeningIncident = typeof contactScreeningIncidentsTable.$inferInsert;
@@ -13,7 +13,8 @@ import {
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { providersTable } from "./providers-schema";
-import { bookingsTable } from "./bookings-schema";
+import { bookingsTable, bookingStatus } from "./bookings-schema";
+import { cancellationPoliciesTable } from "./cancellation-policies-schema";
 
 // ===== SERVICES TABLE =====
 export const servicesTable = pgTable("services", {
@@ -41,6 +42,8 @@ export const servicesTable = pgTable("services", {
   bufferTimeAfter: integer("buffer_time_after").default(0), // minutes
   advanceBookingHours: integer("advance_booking_hours").default(24),
   cancellationHours: integer("cancellation_hours").default(24),
+  cancellationPolicyId: uuid("cancellation_policy_id")
+    .references(() => cancellationPoliciesTable.id, { onDelete: "set null" }), // Refund schedule; provider default when null
   
   // Service configuration
   isActive: boolean("is_active").default(true),
@@ -100,16 +103,7 @@ export const bookingStateTransitionsTable = pgTable("booking_state_transitions",
   // State change
   fromStatus: text("from_status"),
   toStatus: text("to_status", {
-    enum: [
-      "pending",
-      "payment_failed", 
-      "confirmed",
-      "in_progress",
-      "completed",
-      "cancelled",
-      "no_show",
-      "refunded"
-    ]
+    enum: Object.values(bookingStatus) as [string, ...string[]]
   }).notNull(),
   
   // Context
@@ -121,6 +115,12 @@ export const bookingStateTransitionsTable = pgTable("booking_state_transitions",
     cancellationReason?: string;
     refundAmount?: number;
     notes?: string;
+    rescheduleRequestId?: string;
+    rescheduledFrom?: { date: string; startTime: string; endTime: string };
+    rescheduledTo?: { date: string; startTime: string; endTime: string };
+    priceDifference?: number;
+    event?: string;
+    actorType?: string;
   }>().default({}),
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -174,6 +174,8 @@ export const availabilityCacheTable = pgTable("availability_cache", {
   startTime: time("start_time").notNull(),
   endTime: time("end_time").notNull(),
   timezone: text("timezone").default("UTC").notNull(),
+  startsAt: timestamp("starts_at", { withTimezone: true }), // UTC instant of the local start time
+  endsAt: timestamp("ends_at", { withTimezone: true }),
   
   // Availability status
   isAvailable: boolean("is_available").default(true).notNull(),
@@ -189,8 +191,10 @@ export const availabilityCacheTable = pgTable("availability_cache", {
   computedAt: timestamp("computed_at").defaultNow().notNull(),
   expiresAt: timestamp("expires_at").notNull(),
 }, (table) => ({
-  // Unique constraint to prevent duplicate slots
-  uniqueSlot: unique().on(table.providerId, table.date, table.startTime, table.endTime, table.timezone),
+  // One row per slot and service; provider-wide rows (no service) are their own key
+  uniqueSlot: unique()
+    .on(table.providerId, table.serviceId, table.date, table.startTime, table.endTime, table.timezone)
+    .nullsNotDistinct(),
 }));
 
 // ===== BOOKING REMINDERS =====
@@ -322,31 +326,11 @@ export const bookingRemindersRelations = relations(bookingRemindersTable, ({ one
 }));
 
 // ===== ENHANCED BOOKING STATUS TYPES =====
-export const BookingStatus = {
-  PENDING: "pending",
-  PAYMENT_FAILED: "payment_failed", 
-  CONFIRMED: "confirmed",
-  IN_PROGRESS: "in_progress",
-  COMPLETED: "completed",
-  CANCELLED: "cancelled",
-  NO_SHOW: "no_show",
-  REFUNDED: "refunded"
-} as const;
+// Transitions between these are owned by lib/booking-state-machine
+export const BookingStatus = bookingStatus;
 
 export type BookingStatusType = typeof BookingStatus[keyof typeof BookingStatus];
 
-// ===== BOOKING STATE MACHINE =====
-export const VALID_STATUS_TRANSITIONS: Record<BookingStatusType, BookingStatusType[]> = {
-  [BookingStatus.PENDING]: [BookingStatus.PAYMENT_FAILED, BookingStatus.CONFIRMED, BookingStatus.CANCELLED],
-  [BookingStatus.PAYMENT_FAILED]: [BookingStatus.PENDING, BookingStatus.CANCELLED],
-  [BookingStatus.CONFIRMED]: [BookingStatus.IN_PROGRESS, BookingStatus.CANCELLED, BookingStatus.NO_SHOW],
-  [BookingStatus.IN_PROGRESS]: [BookingStatus.COMPLETED, BookingStatus.CANCELLED],
-  [BookingStatus.COMPLETED]: [BookingStatus.REFUNDED],
-  [BookingStatus.CANCELLED]: [BookingStatus.REFUNDED],
-  [BookingStatus.NO_SHOW]: [BookingStatus.REFUNDED],
-  [BookingStatus.REFUNDED]: [], // Terminal state
-};
-
 // ===== UTILITY TYPES =====
 export interface TimeSlot {
   startTime: string;
@@ -12,6 +12,7 @@ import {
 import { relations } from "drizzle-orm";
 import { providersTable } from "./providers-schema";
 import { bookingsTable } from "./bookings-schema";
+import { cancellationPoliciesTable } from "./cancellation-policies-schema";
 
 // ===== EVENTS TABLE =====
 export const eventsTable = pgTable("events", {
@@ -84,6 +85,8 @@ export const eventsTable = pgTable("events", {
     partialRefundHours?: number;
     partialRefundPercent?: number;
   }>().default({ fullRefundHours: 24, partialRefundHours: 2, partialRefundPercent: 50 }),
+  cancellationPolicyId: uuid("cancellation_policy_id")
+    .references(() => cancellationPoliciesTable.id, { onDelete: "set null" }), // Overrides the two fields above when set
   
   // SEO & Discovery
   slug: text("slug").unique().notNull(),
@@ -0,0 +1,30 @@
+import {
+  pgTable,
+  text,
+  uuid,
+  timestamp,
+  numeric,
+  uniqueIndex
+} from "drizzle-orm/pg-core";
+
+// ===== FX RATES TABLE =====
+// Latest exchange rate per currency pair, refreshed by the fx-rates cron
+// One unit of baseCurrency buys `rate` units of quoteCurrency
+export const fxRatesTable = pgTable("fx_rates", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  baseCurrency: text("base_currency").notNull(), // Lower-case ISO code
+  quoteCurrency: text("quote_currency").notNull(),
+  rate: numeric("rate", { precision: 20, scale: 10 }).notNull(),
+  source: text("source").notNull(), // Provider name, e.g. "fixture" or "http"
+
+  fetchedAt: timestamp("fetched_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    pairIdx: uniqueIndex("idx_fx_rates_pair").on(table.baseCurrency, table.quoteCurrency),
+  };
+});
+
+export type FxRate = typeof fxRatesTable.$inferSelect;
+export type NewFxRate = typeof fxRatesTable.$inferInsert;
@@ -208,6 +208,9 @@ export const splitPaymentSessionsTable = pgTable("split_payment_sessions", {
 });
 
 // Group Messages - Communication with group
+// @deprecated Group booking chat now lives in a group conversation
+// (conversations.group_booking_id); migration 0038 copied these rows there.
+// Kept read-only for email/SMS announcement history.
 export const groupMessagesTable = pgTable("group_messages", {
   id: uuid("id").primaryKey().defaultRandom(),
   groupBookingId: uuid("group_booking_id")
@@ -19,3 +19,15 @@ export * from "./payments-schema";
 export * from "./notifications-schema";
 export * from "./audit-schema";
 export * from "./messages-schema";
+export * from "./waitlist-schema";
+export * from "./booking-series-schema";
+export * from "./booking-reschedule-schema";
+export * from "./cancellation-policies-schema";
+export * from "./fx-rates-schema";
+export * from "./tax-schema";
+export * from "./thing-offers-schema";
+export * from "./thing-orders-schema";
+export * from "./contact-screening-schema";
+export * from "./review-moderation-schema";
+export * from "./saved-searches-schema";
+export * from "./search-logs-schema";
@@ -1,23 +1,98 @@
-import { pgTable, text, uuid, timestamp, boolean, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, uuid, timestamp, boolean, integer, jsonb } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 import { profilesTable } from "./profiles-schema";
 import { bookingsTable } from "./bookings-schema";
+import { groupBookingsTable } from "./group-bookings-schema";
 
-// Conversations table - represents a messaging thread between two users
+// Message types: plain text, system notices, attachments and structured cards
+export const messageTypes = [
+  "text",
+  "system",
+  "image",
+  "file",
+  "booking_proposal",
+  "quote",
+  "location",
+  "reschedule_request",
+] as const;
+
+export type MessageType = typeof messageTypes[number];
+
+// Structured message payloads, stored in messages.metadata
+export interface BookingProposalPayload {
+  serviceName: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  price: number;
+  currency: string;
+  note?: string;
+}
+
+export interface QuoteLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface QuotePayload {
+  title: string;
+  lineItems: QuoteLineItem[];
+  total: number; // Computed server-side from the line items
+  currency: string;
+  validUntil?: string; // YYYY-MM-DD
+  note?: string;
+}
+
+export interface LocationPayload {
+  latitude: number;
+  longitude: number;
+  label?: string;
+  address?: string;
+}
+
+export interface RescheduleRequestPayload {
+  bookingId: string;
+  proposedDate: string; // YYYY-MM-DD
+  proposedStartTime: string; // HH:MM
+  proposedEndTime: string; // HH:MM
+  reason?: string;
+}
+
+export type MessageMetadata =
+  | { type: "booking_proposal"; proposal: BookingProposalPayload }
+  | { type: "quote"; quote: QuotePayload }
+  | { type: "location"; location: LocationPayload }
+  | { type: "reschedule_request"; reschedule: RescheduleRequestPayload };
+
+// Direct threads are between two users; group threads have any number of
+// participants, e.g. a group booking's organizer, participants and provider
+export const conversationKinds = ["direct", "group"] as const;
+export type ConversationKind = typeof conversationKinds[number];
+
+// "member" is used in direct threads, the rest in group booking threads
+export const conversationParticipantRoles = ["organizer", "participant", "provider", "member"] as const;
+export type ConversationParticipantRole = typeof conversationParticipantRoles[number];
+
+// Conversations table - represents a messaging thread
+// Who can read and post is kept in conversation_participants
 export const conversationsTable = pgTable("conversations", {
   id: uuid("id").primaryKey().defaultRandom(),
+  kind: text("kind", { enum: conversationKinds }).default("direct").notNull(),
+  title: text("title"), // Group threads only
   
-  // Participants in the conversation
+  // The two users of a direct conversation, used to find an existing thread
+  // between them; null for group conversations
   participantOneId: text("participant_one_id")
-    .notNull()
     .references(() => profilesTable.userId, { onDelete: "cascade" }),
   participantTwoId: text("participant_two_id")
-    .notNull()
     .references(() => profilesTable.userId, { onDelete: "cascade" }),
   
   // Optional booking context
   bookingId: uuid("booking_id")
     .references(() => bookingsTable.id, { onDelete: "set null" }), // Allow conversation to exist without booking
+  groupBookingId: uuid("group_booking_id")
+    .references(() => groupBookingsTable.id, { onDelete: "cascade" }), // One thread per group booking
   
   // Conversation metadata
   lastMessageAt: timestamp("last_message_at"),
@@ -45,6 +120,13 @@ export const conversationsTable = pgTable("conversations", {
     // Index for booking-related conversations
     bookingIdx: sql`CREATE INDEX conversations_booking_idx ON ${table} (booking_id);`,
     
+    // One group thread per group booking
+    groupBookingIdx: sql`
+      CREATE UNIQUE INDEX conversations_group_booking_unique 
+      ON ${table} (group_booking_id) 
+      WHERE group_booking_id IS NOT NULL;
+    `,
+    
     // Index for active conversations sorted by last message
     activeConversationsIdx: sql`
       CREATE INDEX conversations_active_last_message_idx 
@@ -68,18 +150,19 @@ export const messagesTable = pgTable("messages", {
     .notNull()
     .references(() => profilesTable.userId, { onDelete: "cascade" }),
   
-  // Message recipient (for direct messages)
+  // Message recipient (for direct messages); null in group conversations
   recipientId: text("recipient_id")
-    .notNull()
     .references(() => profilesTable.userId, { onDelete: "cascade" }),
   
-  // Message content
+  // Message content; structured messages keep a plain-text summary here
   content: text("content").notNull(),
   messageType: text("message_type", { 
-    enum: ["text", "system"] 
+    enum: messageTypes 
   }).default("text").notNull(),
+  metadata: jsonb("metadata").$type<MessageMetadata>(), // Payload of structured message types
   
-  // Read status tracking
+  // Read status tracking (direct messages; group read state is per
+  // participant in message_read_receipts)
   isRead: boolean("is_read").default(false).notNull(),
   readAt: timestamp("read_at"),
   
@@ -124,6 +207,50 @@ export const messagesTable = pgTable("messages", {
   };
 });
 
+// Conversation participants - who is in a thread, in what role, and their
+// notification settings. Participants who left keep their row (leftAt set)
+// but lose access to the thread.
+export const conversationParticipantsTable = pgTable("conversation_participants", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  
+  conversationId: uuid("conversation_id")
+    .notNull()
+    .references(() => conversationsTable.id, { onDelete: "cascade" }),
+  userId: text("user_id")
+    .notNull()
+    .references(() => profilesTable.userId, { onDelete: "cascade" }),
+  role: text("role", { enum: conversationParticipantRoles }).default("member").notNull(),
+  
+  // Muted threads still count unread messages but do not alert
+  isMuted: boolean("is_muted").default(false).notNull(),
+  mutedAt: timestamp("muted_at"),
+  
+  joinedAt: timestamp("joined_at").defaultNow().notNull(),
+  leftAt: timestamp("left_at"),
+  
+  // Timestamps
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .notNull()
+    .$onUpdate(() => new Date()),
+}, (table) => {
+  return {
+    // One row per user per conversation
+    uniqueUserConversation: sql`
+      CREATE UNIQUE INDEX conversation_participants_unique 
+      ON ${table} (conversation_id, user_id);
+    `,
+    
+    // Index for listing a user's conversations
+    activeUserIdx: sql`
+      CREATE INDEX conversation_participants_user_idx 
+      ON ${table} (user_id) 
+      WHERE left_at IS NULL;
+    `,
+  };
+});
+
 // Message read receipts - track when each participant read messages
 export const messageReadReceiptsTable = pgTable("message_read_receipts", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -170,26 +297,67 @@ export const messageReadReceiptsTable = pgTable("message_read_receipts", {
   };
 });
 
+// Message attachments - images and files uploaded to a conversation
+// Uploaded before the message is sent; messageId is set when it is attached
+export const messageAttachmentsTable = pgTable("message_attachments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  
+  conversationId: uuid("conversation_id")
+    .notNull()
+    .references(() => conversationsTable.id, { onDelete: "cascade" }),
+  messageId: uuid("message_id")
+    .references(() => messagesTable.id, { onDelete: "cascade" }),
+  uploaderId: text("uploader_id")
+    .notNull()
+    .references(() => profilesTable.userId, { onDelete: "cascade" }),
+  
+  // Stored object in the private message-attachments bucket
+  storagePath: text("storage_path").notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(), // Detected from the file contents, not the upload header
+  sizeBytes: integer("size_bytes").notNull(),
+  kind: text("kind", { enum: ["image", "file"] }).notNull(),
+  
+  // Only files that passed the malware scan are stored
+  scanEngine: text("scan_engine", { enum: ["clamav", "signatures"] }).notNull(),
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    // Index for loading a message's attachments
+    messageIdx: sql`CREATE INDEX message_attachments_message_idx ON ${table} (message_id);`,
+    
+    // Index for uploads not yet attached to a message
+    pendingIdx: sql`
+      CREATE INDEX message_attachments_pending_idx 
+      ON ${table} (conversation_id, uploader_id) 
+      WHERE message_id IS NULL;
+    `,
+  };
+});
+
 // Type exports for TypeScript
 export type Conversation = typeof conversationsTable.$inferSelect;
 export type NewConversation = typeof conversationsTable.$inferInsert;
+export type ConversationParticipant = typeof conversationParticipantsTable.$inferSelect;
+export type NewConversationParticipant = typeof conversationParticipantsTable.$inferInsert;
 export type Message = typeof messagesTable.$inferSelect;
 export type NewMessage = typeof messagesTable.$inferInsert;
 export type MessageReadReceipt = typeof messageReadReceiptsTable.$inferSelect;
 export type NewMessageReadReceipt = typeof messageReadReceiptsTable.$inferInsert;
+export type MessageAttachment = typeof messageAttachmentsTable.$inferSelect;
+export type NewMessageAttachment = typeof messageAttachmentsTable.$inferInsert;
 
 // Helper types for API responses
 export interface ConversationWithParticipants extends Conversation {
-  participantOne: {
-    userId: string;
-    email: string;
-  };
-  participantTwo: {
+  participants: {
     userId: string;
-    email: string;
-  };
+    email: string | null;
+    role: ConversationParticipantRole;
+  }[];
   lastMessage?: Message;
   unreadCount: number;
+  isMuted: boolean;
 }
 
 export interface MessageWithSender extends Message {
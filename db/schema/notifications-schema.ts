@@ -66,6 +66,9 @@ export const notificationTypeEnum = pgEnum("notification_type", [
   "review_request",
   "review_response",
   
+  // Saved search notifications
+  "saved_search_match",
+  
   // System notifications
   "welcome",
   "account_update",
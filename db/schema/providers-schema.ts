@@ -1,4 +1,4 @@
-import { pgTable, text, uuid, timestamp, numeric, boolean, jsonb, integer } from "drizzle-orm/pg-core";
+import { pgTable, pgMaterializedView, text, uuid, timestamp, numeric, boolean, jsonb, integer } from "drizzle-orm/pg-core";
 import { profilesTable } from "./profiles-schema";
 
 // Main providers table
@@ -29,10 +29,12 @@ export const providersTable = pgTable("providers", {
   latitude: numeric("latitude", { precision: 10, scale: 7 }),
   longitude: numeric("longitude", { precision: 10, scale: 7 }),
   geocodedAt: timestamp("geocoded_at"),
+  timezone: text("timezone").default("America/New_York").notNull(), // IANA zone for availability times
   
   // Pricing
   hourlyRate: numeric("hourly_rate", { precision: 10, scale: 2 }),
   currency: text("currency").default("usd").notNull(),
+  calendarFeedTokenVersion: integer("calendar_feed_token_version").default(0).notNull(), // Bumped to revoke the ICS feed URL
   
   // Services offered
   services: jsonb("services").$type<{
@@ -53,6 +55,8 @@ export const providersTable = pgTable("providers", {
   isActive: boolean("is_active").default(true).notNull(),
   hasInsurance: boolean("has_insurance").default(false).notNull(),
   instantBooking: boolean("instant_booking").default(false).notNull(),
+  // Customers rated below this (or not yet rated) need approval instead of booking instantly
+  instantBookingMinCustomerRating: numeric("instant_booking_min_customer_rating", { precision: 2, scale: 1 }),
   
   // Stripe Connect
   stripeConnectAccountId: text("stripe_connect_account_id"),
@@ -62,8 +66,20 @@ export const providersTable = pgTable("providers", {
   // Timestamps
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+
+  // search_vector (tsvector generated from the name, services, tagline and bio) is
+  // only read by lib/search and is left out here so provider selects don't carry it
 });
 
+// Booking and review signals for search ranking, refreshed by the search-stats cron
+export const providerSearchStatsView = pgMaterializedView("provider_search_stats", {
+  providerId: uuid("provider_id").notNull(),
+  totalBookings: integer("total_bookings").notNull(),
+  completedBookings: integer("completed_bookings").notNull(),
+  recentReviewCount: integer("recent_review_count").notNull(), // Last 30 days
+  refreshedAt: timestamp("refreshed_at").notNull(),
+}).existing();
+
 // Provider testimonials (featured reviews)
 export const providerTestimonialsTable = pgTable("provider_testimonials", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -106,6 +122,7 @@ export const providerBlockedSlotsTable = pgTable("provider_blocked_slots", {
   startTime: text("start_time"), // Null means full day
   endTime: text("end_time"), // Null means full day
   reason: text("reason"),
+  externalUid: text("external_uid"), // UID of the imported iCalendar event, null for manual blocks
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -0,0 +1,60 @@
+import {
+  pgTable,
+  text,
+  uuid,
+  timestamp,
+  jsonb,
+  index
+} from "drizzle-orm/pg-core";
+import { reviewsTable } from "./reviews-schema";
+
+export const reviewChecks = ["profanity", "personal_data", "review_bombing", "cancelled_booking"] as const;
+export type ReviewCheck = typeof reviewChecks[number];
+
+export interface ReviewFinding {
+  check: ReviewCheck;
+  detail: string;
+}
+
+// Review moderation case status enum
+export const reviewModerationStatus = {
+  OPEN: "open", // Waiting for an admin
+  KEPT: "kept", // Review stays up (or is restored)
+  REMOVED: "removed", // Review stays hidden
+} as const;
+
+// ===== REVIEW MODERATION CASES TABLE =====
+// Admin queue for reviews. Automated cases come from the abuse checks run on
+// every review, which hide the review until an admin decides; appeal cases
+// are opened by the reviewed provider and leave the review up meanwhile.
+export const reviewModerationCasesTable = pgTable("review_moderation_cases", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  reviewId: uuid("review_id")
+    .notNull()
+    .references(() => reviewsTable.id, { onDelete: "cascade" }),
+
+  source: text("source", { enum: ["automated", "appeal"] }).notNull(),
+  findings: jsonb("findings").$type<ReviewFinding[]>().default([]).notNull(), // Automated cases
+
+  // Provider appeal
+  appealedBy: text("appealed_by"), // Clerk user ID of the provider
+  appealReason: text("appeal_reason"),
+
+  // Admin decision
+  status: text("status", { enum: Object.values(reviewModerationStatus) as [string, ...string[]] })
+    .default(reviewModerationStatus.OPEN)
+    .notNull(),
+  decidedBy: text("decided_by"),
+  decidedAt: timestamp("decided_at"),
+  decisionNote: text("decision_note"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    reviewIdx: index("idx_review_moderation_cases_review").on(table.reviewId),
+    statusIdx: index("idx_review_moderation_cases_status").on(table.status, table.createdAt),
+  };
+});
+
+export type ReviewModerationCase = typeof reviewModerationCasesTable.$inferSelect;
+export type NewReviewModerationCase = typeof reviewModerationCasesTable.$inferInsert;
@@ -1,8 +1,17 @@
-import { pgTable, text, uuid, timestamp, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, uuid, timestamp, integer, boolean, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { bookingsTable } from "./bookings-schema";
 import { providersTable } from "./providers-schema";
 import { profilesTable } from "./profiles-schema";
 
+// What a review is about; services, events, spaces and things share one reviews table
+export const reviewListingTypes = ["service", "event", "space", "thing"] as const;
+export type ReviewListingType = typeof reviewListingTypes[number];
+
+// Category sub-ratings a reviewer can give alongside the overall rating
+export const reviewDimensions = ["punctuality", "communication", "value", "cleanliness"] as const;
+export type ReviewDimension = typeof reviewDimensions[number];
+export type ReviewSubRatings = Partial<Record<ReviewDimension, number>>;
+
 // Reviews table for customer reviews after booking completion
 export const reviewsTable = pgTable("reviews", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -17,9 +26,16 @@ export const reviewsTable = pgTable("reviews", {
     .notNull()
     .references(() => profilesTable.userId, { onDelete: "cascade" }), // CASCADE: Delete reviews when customer is deleted
   
+  // What was booked
+  listingType: text("listing_type", { enum: reviewListingTypes }).default("service").notNull(),
+  listingId: uuid("listing_id"), // Service, event, space or thing id; null for legacy service reviews
+  
   // Rating and review
   rating: integer("rating").notNull(), // 1-5 stars
+  subRatings: jsonb("sub_ratings").$type<ReviewSubRatings>().default({}).notNull(), // 1-5 per dimension
+  title: text("title"),
   reviewText: text("review_text"),
+  helpfulCount: integer("helpful_count").default(0).notNull(),
   
   // Provider can respond
   providerResponse: text("provider_response"),
@@ -28,9 +44,76 @@ export const reviewsTable = pgTable("reviews", {
   // Verification and moderation
   isVerifiedBooking: boolean("is_verified_booking").default(true).notNull(),
   isPublished: boolean("is_published").default(true).notNull(),
+  isFlagged: boolean("is_flagged").default(false).notNull(), // Hidden while flagged, see review_moderation_cases
+  flagReason: text("flag_reason"),
+  screenedAt: timestamp("screened_at"), // Automated abuse checks ran; null until then
+  
+  // Double-blind reveal: unpublished until the provider has also reviewed or revealAt passes
+  revealAt: timestamp("reveal_at"),
+  revealedAt: timestamp("revealed_at"),
+  
+  // Timestamps
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  listingIdx: index("idx_reviews_listing").on(table.listingType, table.listingId),
+}));
+
+// Photos customers attach to their review
+export const reviewPhotosTable = pgTable("review_photos", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  reviewId: uuid("review_id")
+    .notNull()
+    .references(() => reviewsTable.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  storagePath: text("storage_path"), // null for photos migrated from space reviews
+  contentType: text("content_type"),
+  sizeBytes: integer("size_bytes"),
+  sortOrder: integer("sort_order").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  reviewIdx: index("idx_review_photos_review").on(table.reviewId, table.sortOrder),
+}));
+
+// One "helpful" vote per user per review; reviewsTable.helpfulCount mirrors the count
+export const reviewHelpfulVotesTable = pgTable("review_helpful_votes", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  reviewId: uuid("review_id")
+    .notNull()
+    .references(() => reviewsTable.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull(), // Clerk user ID
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  reviewUserIdx: uniqueIndex("idx_review_helpful_votes_review_user").on(table.reviewId, table.userId),
+}));
+
+// Provider reviews of customers, the other side of a booking's double-blind review
+export const customerReviewsTable = pgTable("customer_reviews", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  bookingId: uuid("booking_id")
+    .notNull()
+    .unique()
+    .references(() => bookingsTable.id, { onDelete: "cascade" }), // CASCADE: Delete review when booking is deleted
+  providerId: uuid("provider_id")
+    .notNull()
+    .references(() => providersTable.id, { onDelete: "cascade" }), // CASCADE: Delete reviews when provider is deleted
+  customerId: text("customer_id")
+    .notNull()
+    .references(() => profilesTable.userId, { onDelete: "cascade" }), // CASCADE: Delete reviews when customer is deleted
+  
+  // Rating and review
+  rating: integer("rating").notNull(), // 1-5 stars
+  reviewText: text("review_text"),
+  
+  // Moderation
+  isPublished: boolean("is_published").default(false).notNull(),
   isFlagged: boolean("is_flagged").default(false).notNull(),
   flagReason: text("flag_reason"),
   
+  // Double-blind reveal: unpublished until the customer has also reviewed or revealAt passes
+  revealAt: timestamp("reveal_at").notNull(),
+  revealedAt: timestamp("revealed_at"),
+  
   // Timestamps
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -38,4 +121,9 @@ export const reviewsTable = pgTable("reviews", {
 
 // Type exports for TypeScript
 export type Review = typeof reviewsTable.$inferSelect;
-export type NewReview = typeof reviewsTable.$inferInsert;
\ No newline at end of file
+export type NewReview = typeof reviewsTable.$inferInsert;
+export type ReviewPhoto = typeof reviewPhotosTable.$inferSelect;
+export type NewReviewPhoto = typeof reviewPhotosTable.$inferInsert;
+export type ReviewHelpfulVote = typeof reviewHelpfulVotesTable.$inferSelect;
+export type CustomerReview = typeof customerReviewsTable.$inferSelect;
+export type NewCustomerReview = typeof customerReviewsTable.$inferInsert;
\ No newline at end of file
@@ -0,0 +1,64 @@
+import {
+  pgTable,
+  text,
+  uuid,
+  timestamp,
+  jsonb,
+  boolean,
+  index
+} from "drizzle-orm/pg-core";
+import { profilesTable } from "./profiles-schema";
+
+// Marketplace verticals, as used by the search bar and filters
+export const savedSearchVerticals = ["services", "events", "spaces", "things"] as const;
+export type SavedSearchVertical = typeof savedSearchVerticals[number];
+
+export const savedSearchFrequencies = ["instant", "daily"] as const;
+export type SavedSearchFrequency = typeof savedSearchFrequencies[number];
+
+// The persisted part of SearchQuery (lib/search/ranking-engine.ts) plus the verticals searched
+export interface SavedSearchQuery {
+  query?: string;
+  verticals?: SavedSearchVertical[];
+  categories?: string[];
+  location?: {
+    latitude: number;
+    longitude: number;
+    radiusKm?: number;
+  };
+  priceRange?: {
+    min: number;
+    max: number;
+  };
+}
+
+// ===== SAVED SEARCHES TABLE =====
+// Searches a customer saved from the marketplace. Listings published after
+// lastCheckedAt that match the query are sent to the customer as soon as the
+// alerts cron sees them (instant) or once a day (daily).
+export const savedSearchesTable = pgTable("saved_searches", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => profilesTable.userId, { onDelete: "cascade" }),
+
+  name: text("name").notNull(),
+  query: jsonb("query").$type<SavedSearchQuery>().default({}).notNull(),
+
+  frequency: text("frequency", { enum: savedSearchFrequencies }).default("daily").notNull(),
+  isActive: boolean("is_active").default(true).notNull(), // Paused searches get no alerts
+
+  lastCheckedAt: timestamp("last_checked_at").defaultNow().notNull(), // Listings published after this are new
+  lastNotifiedAt: timestamp("last_notified_at"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index("idx_saved_searches_user").on(table.userId),
+    dueIdx: index("idx_saved_searches_due").on(table.isActive, table.frequency, table.lastCheckedAt),
+  };
+});
+
+export type SavedSearch = typeof savedSearchesTable.$inferSelect;
+export type NewSavedSearch = typeof savedSearchesTable.$inferInsert;
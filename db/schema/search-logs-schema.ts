@@ -0,0 +1,98 @@
+import {
+  pgTable,
+  pgMaterializedView,
+  text,
+  uuid,
+  timestamp,
+  integer,
+  real,
+  jsonb,
+  index,
+  unique
+} from "drizzle-orm/pg-core";
+import { profilesTable } from "./profiles-schema";
+
+export const searchSuggestionKinds = ["category", "provider", "service", "event", "city", "query"] as const;
+export type SearchSuggestionKind = typeof searchSuggestionKinds[number];
+
+// A provider's normalized ranking signals (RankingResult.normalizedScores in
+// lib/search/ranking-engine.ts), logged to re-rank impressions offline
+export interface SearchImpressionSignals {
+  proximity: number;
+  relevance: number;
+  conversion: number;
+  rating: number;
+  freshness: number;
+  verified: boolean;
+}
+
+// ===== SEARCH LOGS TABLE =====
+// One row per marketplace search. Autocomplete weights suggestions by how
+// often they were searched (with results) in the last 30 days; search
+// analytics reports on them with their impressions.
+export const searchLogsTable = pgTable("search_logs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: text("user_id")
+    .references(() => profilesTable.userId, { onDelete: "set null" }), // Null for signed-out searches
+
+  query: text("query").notNull(), // As typed
+  normalizedQuery: text("normalized_query").notNull(), // Lower case, single spaces
+  vertical: text("vertical"), // Null when searching every vertical
+  resultCount: integer("result_count").default(0).notNull(),
+
+  weightSet: text("weight_set").default("control").notNull(), // Ranking weights that served it (lib/search/ranking-experiments.ts)
+  sortBy: text("sort_by").default("relevance").notNull(),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    createdIdx: index("idx_search_logs_created").on(table.createdAt),
+    normalizedQueryIdx: index("idx_search_logs_normalized_query").on(table.normalizedQuery, table.createdAt),
+    userIdx: index("idx_search_logs_user").on(table.userId, table.createdAt),
+  };
+});
+
+export type SearchLog = typeof searchLogsTable.$inferSelect;
+export type NewSearchLog = typeof searchLogsTable.$inferInsert;
+
+// ===== SEARCH IMPRESSIONS TABLE =====
+// Listings shown for a search, and whether they were clicked. A booking of a
+// clicked provider by the same customer within the attribution window counts
+// as a booking resulting from the search.
+export const searchImpressionsTable = pgTable("search_impressions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  searchLogId: uuid("search_log_id")
+    .notNull()
+    .references(() => searchLogsTable.id, { onDelete: "cascade" }),
+
+  vertical: text("vertical").notNull(),
+  listingId: uuid("listing_id").notNull(), // Provider, event, space or thing id
+  position: integer("position").notNull(), // 1-based, across pages
+  score: real("score").notNull(), // Blended score it was ranked by
+  signals: jsonb("signals").$type<SearchImpressionSignals>(), // Providers only
+
+  clickedAt: timestamp("clicked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    searchListingUnique: unique("uq_search_impressions_listing").on(table.searchLogId, table.listingId),
+    clickedIdx: index("idx_search_impressions_clicked").on(table.listingId, table.clickedAt),
+  };
+});
+
+export type SearchImpression = typeof searchImpressionsTable.$inferSelect;
+export type NewSearchImpression = typeof searchImpressionsTable.$inferInsert;
+
+// Autocomplete dictionary, refreshed by the search-stats cron
+// (see db/migrations/0044_search_autocomplete.sql)
+export const searchSuggestionsView = pgMaterializedView("search_suggestions", {
+  suggestionKey: text("suggestion_key").notNull(),
+  kind: text("kind", { enum: searchSuggestionKinds }).notNull(),
+  text: text("text").notNull(),
+  normalizedText: text("normalized_text").notNull(),
+  vertical: text("vertical"), // Null for categories and queries, which apply to every vertical
+  category: text("category"), // Category slug to filter by when picked
+  listingCount: integer("listing_count").notNull(),
+  searchCount: integer("search_count").notNull(), // Last 30 days
+  refreshedAt: timestamp("refreshed_at").notNull(),
+}).existing();
@@ -13,6 +13,7 @@ import {
 import { relations } from "drizzle-orm";
 import { providersTable } from "./providers-schema";
 import { bookingsTable } from "./bookings-schema";
+import { cancellationPoliciesTable } from "./cancellation-policies-schema";
 
 // ===== SPACES/VENUES TABLE =====
 export const spacesTable = pgTable("spaces", {
@@ -123,6 +124,8 @@ export const spacesTable = pgTable("spaces", {
     partialRefundHours?: number;
     partialRefundPercent?: number;
   }>().default({ fullRefundHours: 48, partialRefundHours: 24, partialRefundPercent: 50 }),
+  cancellationPolicyId: uuid("cancellation_policy_id")
+    .references(() => cancellationPoliciesTable.id, { onDelete: "set null" }), // Overrides the two fields above when set
   
   // SEO & Discovery
   metaTitle: text("meta_title"),
@@ -197,6 +200,10 @@ export const spaceFavoritesTable = pgTable("space_favorites", {
 });
 
 // ===== SPACE REVIEWS TABLE =====
+/**
+ * @deprecated Space reviews live in reviewsTable (listingType "space") since
+ * migration 0040; kept read-only until the copied rows are verified
+ */
 export const spaceReviewsTable = pgTable("space_reviews", {
   id: uuid("id").primaryKey().defaultRandom(),
   spaceId: uuid("space_id")
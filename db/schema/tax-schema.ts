@@ -0,0 +1,42 @@
+import {
+  pgTable,
+  text,
+  uuid,
+  timestamp,
+  numeric,
+  index
+} from "drizzle-orm/pg-core";
+import { bookingsTable } from "./bookings-schema";
+import { providersTable } from "./providers-schema";
+
+// ===== BOOKING TAX LINES TABLE =====
+// Tax charged on a booking, one row per jurisdiction layer (see lib/payments/tax-engine)
+// Providers file from these rows; bookingsTable.taxAmount is their sum
+export const bookingTaxLinesTable = pgTable("booking_tax_lines", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  bookingId: uuid("booking_id")
+    .notNull()
+    .references(() => bookingsTable.id, { onDelete: "cascade" }), // CASCADE: Delete lines when booking is deleted
+  providerId: uuid("provider_id")
+    .notNull()
+    .references(() => providersTable.id, { onDelete: "restrict" }), // RESTRICT: Keep filing records
+
+  jurisdictionCode: text("jurisdiction_code").notNull(), // e.g. "US-IL-606"
+  jurisdictionName: text("jurisdiction_name").notNull(),
+  taxType: text("tax_type", { enum: ["sales_tax", "vat", "gst"] }).notNull(),
+  rate: numeric("rate", { precision: 7, scale: 5 }).notNull(), // Fraction, e.g. 0.06250
+
+  taxableAmount: numeric("taxable_amount", { precision: 10, scale: 2 }).notNull(),
+  taxAmount: numeric("tax_amount", { precision: 10, scale: 2 }).notNull(),
+  currency: text("currency").default("usd").notNull(),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    bookingIdx: index("idx_booking_tax_lines_booking").on(table.bookingId),
+    providerIdx: index("idx_booking_tax_lines_provider").on(table.providerId),
+  };
+});
+
+export type BookingTaxLine = typeof bookingTaxLinesTable.$inferSelect;
+export type NewBookingTaxLine = typeof bookingTaxLinesTable.$inferInsert;
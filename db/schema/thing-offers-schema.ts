@@ -0,0 +1,107 @@
+import {
+  pgTable,
+  text,
+  uuid,
+  timestamp,
+  decimal,
+  index
+} from "drizzle-orm/pg-core";
+import { profilesTable } from "./profiles-schema";
+import { thingsTable } from "./things-schema";
+import { bookingsTable } from "./bookings-schema";
+
+// Negotiation thread status
+export const thingNegotiationStatus = {
+  OPEN: "open",
+  ACCEPTED: "accepted", // Item reserved for the buyer at the agreed price
+  COMPLETED: "completed", // Buyer checked out
+  DECLINED: "declined",
+  WITHDRAWN: "withdrawn",
+  EXPIRED: "expired",
+} as const;
+
+// Individual offer status
+export const thingOfferStatus = {
+  PENDING: "pending",
+  COUNTERED: "countered",
+  ACCEPTED: "accepted",
+  DECLINED: "declined",
+  WITHDRAWN: "withdrawn",
+  EXPIRED: "expired",
+} as const;
+
+// ===== THING NEGOTIATIONS TABLE =====
+// One thread per buyer and listing. Buyer and seller take turns: at most one
+// offer is pending at a time, and only the other party can respond to it.
+export const thingNegotiationsTable = pgTable("thing_negotiations", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  thingId: uuid("thing_id")
+    .notNull()
+    .references(() => thingsTable.id, { onDelete: "cascade" }),
+  buyerId: text("buyer_id")
+    .notNull()
+    .references(() => profilesTable.userId, { onDelete: "cascade" }),
+  sellerId: text("seller_id")
+    .notNull()
+    .references(() => profilesTable.userId, { onDelete: "cascade" }),
+
+  status: text("status", { enum: Object.values(thingNegotiationStatus) as [string, ...string[]] })
+    .default(thingNegotiationStatus.OPEN)
+    .notNull(),
+
+  // Set once an offer is accepted
+  agreedAmount: decimal("agreed_amount", { precision: 10, scale: 2 }),
+  acceptedOfferId: uuid("accepted_offer_id"),
+  acceptedAt: timestamp("accepted_at"),
+  checkoutExpiresAt: timestamp("checkout_expires_at"), // Reservation lapses if the buyer has not checked out
+  bookingId: uuid("booking_id")
+    .references(() => bookingsTable.id, { onDelete: "set null" }), // Purchase made at the agreed price
+
+  closedReason: text("closed_reason"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    thingIdx: index("idx_thing_negotiations_thing").on(table.thingId, table.status),
+    buyerIdx: index("idx_thing_negotiations_buyer").on(table.buyerId, table.status),
+    sellerIdx: index("idx_thing_negotiations_seller").on(table.sellerId, table.status),
+    checkoutExpiryIdx: index("idx_thing_negotiations_checkout_expiry").on(table.status, table.checkoutExpiresAt),
+  };
+});
+
+// ===== THING OFFERS TABLE =====
+// Every offer and counter-offer in a thread, oldest first
+export const thingOffersTable = pgTable("thing_offers", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  negotiationId: uuid("negotiation_id")
+    .notNull()
+    .references(() => thingNegotiationsTable.id, { onDelete: "cascade" }),
+  fromUserId: text("from_user_id")
+    .notNull()
+    .references(() => profilesTable.userId, { onDelete: "cascade" }),
+  fromRole: text("from_role", { enum: ["buyer", "seller"] }).notNull(),
+
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  message: text("message"),
+
+  status: text("status", { enum: Object.values(thingOfferStatus) as [string, ...string[]] })
+    .default(thingOfferStatus.PENDING)
+    .notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  respondedAt: timestamp("responded_at"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    negotiationIdx: index("idx_thing_offers_negotiation").on(table.negotiationId, table.createdAt),
+    expiryIdx: index("idx_thing_offers_expiry").on(table.status, table.expiresAt),
+  };
+});
+
+export type ThingNegotiation = typeof thingNegotiationsTable.$inferSelect;
+export type NewThingNegotiation = typeof thingNegotiationsTable.$inferInsert;
+export type ThingOffer = typeof thingOffersTable.$inferSelect;
+export type NewThingOffer = typeof thingOffersTable.$inferInsert;
+export type ThingNegotiationStatus = typeof thingNegotiationStatus[keyof typeof thingNegotiationStatus];
+export type ThingOfferStatus = typeof thingOfferStatus[keyof typeof thingOfferStatus];
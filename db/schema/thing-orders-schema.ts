@@ -0,0 +1,114 @@
+import {
+  pgTable,
+  text,
+  uuid,
+  timestamp,
+  decimal,
+  jsonb,
+  index
+} from "drizzle-orm/pg-core";
+import { profilesTable } from "./profiles-schema";
+import { providersTable } from "./providers-schema";
+import { thingsTable } from "./things-schema";
+import { bookingsTable } from "./bookings-schema";
+import { payoutSchedulesTable } from "./enhanced-booking-schema";
+
+// Order lifecycle for a Things purchase
+export const thingOrderStatus = {
+  PENDING_PAYMENT: "pending_payment",
+  PAID: "paid", // Funds held by the platform until release
+  SHIPPED: "shipped", // Seller entered tracking
+  DELIVERED: "delivered", // Buyer confirmed, or auto-confirmed; inspection window running
+  RETURN_REQUESTED: "return_requested",
+  RETURNED: "returned", // Return approved and buyer refunded
+  DISPUTED: "disputed", // Seller declined the return; held for support
+  RELEASED: "released", // Seller payout scheduled
+  CANCELLED: "cancelled", // Payment never completed
+} as const;
+
+export interface ThingOrderShippingAddress {
+  street: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+}
+
+// ===== THING ORDERS TABLE =====
+// One order per Things purchase. The buyer pays the platform and the seller's
+// share stays in escrow until delivery is confirmed and the inspection window
+// passes without a return, when it is handed to the payout schedule.
+export const thingOrdersTable = pgTable("thing_orders", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  thingId: uuid("thing_id")
+    .notNull()
+    .references(() => thingsTable.id, { onDelete: "restrict" }),
+  bookingId: uuid("booking_id")
+    .notNull()
+    .unique()
+    .references(() => bookingsTable.id, { onDelete: "restrict" }),
+  buyerId: text("buyer_id")
+    .notNull()
+    .references(() => profilesTable.userId, { onDelete: "restrict" }),
+  sellerId: text("seller_id")
+    .notNull()
+    .references(() => profilesTable.userId, { onDelete: "restrict" }),
+  providerId: uuid("provider_id")
+    .notNull()
+    .references(() => providersTable.id, { onDelete: "restrict" }), // Seller's payout account
+
+  status: text("status", { enum: Object.values(thingOrderStatus) as [string, ...string[]] })
+    .default(thingOrderStatus.PENDING_PAYMENT)
+    .notNull(),
+
+  deliveryMethod: text("delivery_method", { enum: ["shipping", "pickup"] }).notNull(),
+  shippingAddress: jsonb("shipping_address").$type<ThingOrderShippingAddress>(),
+
+  // Amounts in the order currency
+  itemPrice: decimal("item_price", { precision: 10, scale: 2 }).notNull(),
+  shippingCost: decimal("shipping_cost", { precision: 10, scale: 2 }).default("0").notNull(),
+  platformFee: decimal("platform_fee", { precision: 10, scale: 2 }).notNull(),
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  currency: text("currency").default("usd").notNull(),
+  stripePaymentIntentId: text("stripe_payment_intent_id").notNull().unique(),
+  paidAt: timestamp("paid_at"),
+
+  // Shipment
+  carrier: text("carrier"),
+  trackingNumber: text("tracking_number"),
+  trackingUrl: text("tracking_url"),
+  shippedAt: timestamp("shipped_at"),
+  autoConfirmAt: timestamp("auto_confirm_at"), // Delivery is assumed if the buyer has not confirmed by then
+
+  // Delivery and inspection
+  deliveredAt: timestamp("delivered_at"),
+  deliveryConfirmedBy: text("delivery_confirmed_by", { enum: ["buyer", "auto"] }),
+  inspectionEndsAt: timestamp("inspection_ends_at"), // Last moment the buyer can ask for a return
+
+  // Returns
+  returnReason: text("return_reason"),
+  returnRequestedAt: timestamp("return_requested_at"),
+  returnResolvedAt: timestamp("return_resolved_at"),
+  returnResolutionNote: text("return_resolution_note"),
+  stripeRefundId: text("stripe_refund_id"),
+
+  // Release to the seller
+  payoutId: uuid("payout_id")
+    .references(() => payoutSchedulesTable.id, { onDelete: "set null" }),
+  releasedAt: timestamp("released_at"),
+  cancelledAt: timestamp("cancelled_at"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    buyerIdx: index("idx_thing_orders_buyer").on(table.buyerId, table.status),
+    sellerIdx: index("idx_thing_orders_seller").on(table.sellerId, table.status),
+    autoConfirmIdx: index("idx_thing_orders_auto_confirm").on(table.status, table.autoConfirmAt),
+    inspectionIdx: index("idx_thing_orders_inspection").on(table.status, table.inspectionEndsAt),
+  };
+});
+
+export type ThingOrder = typeof thingOrdersTable.$inferSelect;
+export type NewThingOrder = typeof thingOrdersTable.$inferInsert;
+export type ThingOrderStatus = typeof thingOrderStatus[keyof typeof thingOrderStatus];
@@ -0,0 +1,80 @@
+import {
+  pgTable,
+  text,
+  uuid,
+  timestamp,
+  integer,
+  index
+} from "drizzle-orm/pg-core";
+import { profilesTable } from "./profiles-schema";
+import { providersTable } from "./providers-schema";
+import { bookingsTable } from "./bookings-schema";
+import { eventsTable } from "./events-schema";
+import { spacesTable } from "./spaces-schema";
+
+// Waitlist entry status
+export const waitlistStatus = {
+  WAITING: "waiting",
+  OFFERED: "offered",
+  CLAIMED: "claimed",
+  EXPIRED: "expired",
+  CANCELLED: "cancelled",
+} as const;
+
+// ===== WAITLIST ENTRIES TABLE =====
+// One row per customer waiting on a fully booked slot, event or space.
+// Slot targets are keyed by provider-local date and start time, matching bookingsTable.
+export const waitlistEntriesTable = pgTable("waitlist_entries", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  customerId: text("customer_id")
+    .notNull()
+    .references(() => profilesTable.userId, { onDelete: "cascade" }),
+
+  // What the customer is waiting for
+  targetType: text("target_type", {
+    enum: ["service", "event", "space"]
+  }).notNull(),
+  providerId: uuid("provider_id")
+    .notNull()
+    .references(() => providersTable.id, { onDelete: "cascade" }),
+  serviceId: uuid("service_id"),
+  eventId: uuid("event_id")
+    .references(() => eventsTable.id, { onDelete: "cascade" }),
+  spaceId: uuid("space_id")
+    .references(() => spacesTable.id, { onDelete: "cascade" }),
+
+  // Slot (service and space targets; events use the event's own time)
+  slotDate: timestamp("slot_date"), // Provider-local date stored as UTC midnight
+  startTime: text("start_time"), // Format: "14:00"
+  endTime: text("end_time"), // Format: "15:00"
+  partySize: integer("party_size").default(1).notNull(),
+
+  // Offer lifecycle
+  status: text("status", { enum: Object.values(waitlistStatus) as [string, ...string[]] })
+    .default(waitlistStatus.WAITING)
+    .notNull(),
+  holdId: text("hold_id"), // ConcurrencyManager hold backing the offer
+  offeredAt: timestamp("offered_at"),
+  offerExpiresAt: timestamp("offer_expires_at"),
+  claimedAt: timestamp("claimed_at"),
+  bookingId: uuid("booking_id")
+    .references(() => bookingsTable.id, { onDelete: "set null" }), // Booking the claimed hold was redeemed for
+  sourceBookingId: uuid("source_booking_id")
+    .references(() => bookingsTable.id, { onDelete: "set null" }), // Cancellation that freed the spot
+
+  notes: text("notes"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    slotIdx: index("idx_waitlist_slot").on(table.providerId, table.slotDate, table.startTime, table.status),
+    eventIdx: index("idx_waitlist_event").on(table.eventId, table.status),
+    customerIdx: index("idx_waitlist_customer").on(table.customerId, table.status),
+    offerExpiryIdx: index("idx_waitlist_offer_expiry").on(table.status, table.offerExpiresAt),
+  };
+});
+
+export type WaitlistEntry = typeof waitlistEntriesTable.$inferSelect;
+export type NewWaitlistEntry = typeof waitlistEntriesTable.$inferInsert;
+export type WaitlistStatus = typeof waitlistStatus[keyof typeof waitlistStatus];
@@ -236,11 +236,13 @@ export function useBookings(params: BookingListParams = {}) {
     return {
       all: bookings,
       upcoming: bookings.filter(booking => 
-        ["pending", "confirmed"].includes(booking.status) &&
+        ["pending_provider", "confirmed"].includes(booking.status) &&
         new Date(booking.bookingDate) >= new Date()
       ),
       completed: bookings.filter(booking => booking.status === "completed"),
-      cancelled: bookings.filter(booking => booking.status === "cancelled"),
+      cancelled: bookings.filter(booking =>
+        booking.status === "canceled_customer" || booking.status === "canceled_provider"
+      ),
       // Helper methods
       getBookingById: (id: string) => bookings.find(booking => booking.id === id),
       getBookingsByProvider: (providerId: string) => 
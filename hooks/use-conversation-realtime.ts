@@ -0,0 +1,190 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import type { ConversationEvent } from "@/lib/messaging/realtime";
+
+// API routes share a per-IP limit of 10 requests a minute, so polls stay sparse
+const POLL_INTERVAL_MS = 15_000;
+// Without Redis, events only reach streams on the same server instance
+const SAFETY_POLL_INTERVAL_MS = 60_000;
+const MAX_STREAM_ERRORS = 3;
+const TYPING_THROTTLE_MS = 3_000;
+const TYPING_IDLE_MS = 4_000;
+// Clear a typing indicator whose "stopped" event was lost
+const TYPING_EXPIRY_MS = 8_000;
+
+export type RealtimeStatus = "connecting" | "live" | "polling";
+
+interface ReadyEvent {
+  transport: "redis" | "memory";
+  onlineUserIds: string[];
+  readStates: { userId: string; lastReadMessageId: string | null; lastReadAt: string | null }[];
+}
+
+interface UseConversationRealtimeOptions {
+  onEvent: (event: ConversationEvent) => void;
+  onReady?: (ready: ReadyEvent) => void;
+  onPoll: () => void;
+}
+
+/**
+ * Live updates for an open conversation over Server-Sent Events, falling
+ * back to polling when the stream is unavailable
+ */
+export function useConversationRealtime(
+  conversationId: string,
+  { onEvent, onReady, onPoll }: UseConversationRealtimeOptions
+) {
+  const [status, setStatus] = useState<RealtimeStatus>("connecting");
+  const [transport, setTransport] = useState<ReadyEvent["transport"] | null>(null);
+  const [onlineUserIds, setOnlineUserIds] = useState<string[]>([]);
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+
+  // Latest callbacks without reconnecting the stream on every render
+  const handlers = useRef({ onEvent, onReady, onPoll });
+  handlers.current = { onEvent, onReady, onPoll };
+
+  const typingTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const lastTypingSentAt = useRef(0);
+  const typingIdleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const setTyping = useCallback((userId: string, isTyping: boolean) => {
+    const timers = typingTimers.current;
+    clearTimeout(timers.get(userId));
+    timers.delete(userId);
+
+    if (isTyping) {
+      timers.set(userId, setTimeout(() => setTyping(userId, false), TYPING_EXPIRY_MS));
+    }
+    setTypingUserIds((current) => {
+      const others = current.filter((id) => id !== userId);
+      return isTyping ? [...others, userId] : others;
+    });
+  }, []);
+
+  // Event stream
+  useEffect(() => {
+    if (typeof window === "undefined" || typeof EventSource === "undefined") {
+      setStatus("polling");
+      return;
+    }
+
+    setStatus("connecting");
+    const source = new EventSource(`/api/messages/${conversationId}/stream`);
+    let errors = 0;
+
+    source.addEventListener("ready", (e) => {
+      const ready: ReadyEvent = JSON.parse((e as MessageEvent).data);
+      errors = 0;
+      setStatus("live");
+      setTransport(ready.transport);
+      setOnlineUserIds(ready.onlineUserIds);
+      handlers.current.onReady?.(ready);
+    });
+
+    const handle = (e: Event) => {
+      const event: ConversationEvent = JSON.parse((e as MessageEvent).data);
+      if (event.type === "typing") {
+        setTyping(event.userId, event.isTyping);
+      } else if (event.type === "presence") {
+        setOnlineUserIds((current) => {
+          const others = current.filter((id) => id !== event.userId);
+          return event.online ? [...others, event.userId] : others;
+        });
+      } else if (event.type === "message") {
+        // A message ends that sender's typing indicator
+        setTyping(event.message.senderId, false);
+      }
+      handlers.current.onEvent(event);
+    };
+
+    for (const type of ["message", "read", "typing", "presence"] as const) {
+      source.addEventListener(type, handle);
+    }
+
+    source.onerror = () => {
+      errors += 1;
+      if (source.readyState === EventSource.CLOSED || errors >= MAX_STREAM_ERRORS) {
+        source.close();
+        setStatus("polling");
+      }
+    };
+
+    const timers = typingTimers.current;
+    return () => {
+      source.close();
+      timers.forEach(clearTimeout);
+      timers.clear();
+      setTypingUserIds([]);
+      setOnlineUserIds([]);
+    };
+  }, [conversationId, setTyping]);
+
+  // Polling fallback, plus a slow safety poll when events are instance-local
+  useEffect(() => {
+    const interval = status === "polling"
+      ? POLL_INTERVAL_MS
+      : status === "live" && transport === "memory"
+        ? SAFETY_POLL_INTERVAL_MS
+        : null;
+    if (!interval) return;
+
+    const timer = setInterval(() => handlers.current.onPoll(), interval);
+    return () => clearInterval(timer);
+  }, [status, transport]);
+
+  const postTyping = useCallback((isTyping: boolean) => {
+    fetch(`/api/messages/${conversationId}/typing`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ isTyping }),
+    }).catch(() => {
+      // Typing indicators are best-effort
+    });
+  }, [conversationId]);
+
+  /**
+   * Call on every keystroke; sends "typing" at most every few seconds and
+   * "stopped" once the user goes idle
+   */
+  const notifyTyping = useCallback(() => {
+    if (status !== "live") return;
+
+    const now = Date.now();
+    if (now - lastTypingSentAt.current > TYPING_THROTTLE_MS) {
+      lastTypingSentAt.current = now;
+      postTyping(true);
+    }
+
+    if (typingIdleTimer.current) clearTimeout(typingIdleTimer.current);
+    typingIdleTimer.current = setTimeout(() => {
+      lastTypingSentAt.current = 0;
+      postTyping(false);
+    }, TYPING_IDLE_MS);
+  }, [status, postTyping]);
+
+  /**
+   * The message was sent, so the indicator can go right away
+   */
+  const stopTyping = useCallback(() => {
+    if (typingIdleTimer.current) {
+      clearTimeout(typingIdleTimer.current);
+      typingIdleTimer.current = null;
+      lastTypingSentAt.current = 0;
+      postTyping(false);
+    }
+  }, [postTyping]);
+
+  useEffect(() => () => {
+    if (typingIdleTimer.current) clearTimeout(typingIdleTimer.current);
+  }, []);
+
+  return {
+    status,
+    onlineUserIds,
+    otherUserOnline: onlineUserIds.length > 0,
+    typingUserIds,
+    notifyTyping,
+    stopTyping,
+  };
+}
@@ -28,6 +28,7 @@ export interface SlotHold {
   endTime: string; // HH:mm
   customerId?: string;
   guestSessionId?: string;
+  quantity?: number; // Spots held, 1 when unset
   createdAt: Date;
   expiresAt: Date;
   status: 'active' | 'expired' | 'converted' | 'released';
@@ -88,6 +89,7 @@ export class ConcurrencyManager {
     customerId?: string;
     guestSessionId?: string;
     capacity?: number;
+    quantity?: number;
   }): Promise<HoldResult> {
     const holdId = uuidv4();
     const holdKey = this.generateHoldKey(params);
@@ -110,10 +112,11 @@ export class ConcurrencyManager {
       // 2. Check slot capacity using Redis atomic operations
       const capacityKey = this.generateCapacityKey(params);
       const maxCapacity = params.capacity || 1;
+      const quantity = params.quantity || 1;
       
-      // Use Redis INCR with expiry for atomic capacity check
+      // Use Redis INCRBY with expiry for atomic capacity check
       const pipeline = this.redis.pipeline();
-      pipeline.incr(capacityKey);
+      pipeline.incrby(capacityKey, quantity);
       pipeline.expire(capacityKey, this.DEFAULT_HOLD_TTL_MINUTES * 60);
       
       const results = await pipeline.exec();
@@ -121,7 +124,7 @@ export class ConcurrencyManager {
       
       if (currentHolds > maxCapacity) {
         // Capacity exceeded, rollback
-        await this.redis.decr(capacityKey);
+        await this.redis.decrby(capacityKey, quantity);
         
         // Find alternative slots
         const alternatives = await this.findAlternativeSlots(params);
@@ -144,6 +147,7 @@ export class ConcurrencyManager {
         endTime: params.endTime,
         customerId: params.customerId,
         guestSessionId: params.guestSessionId,
+        quantity,
         createdAt: new Date(),
         expiresAt,
         status: 'active',
@@ -205,7 +209,7 @@ export class ConcurrencyManager {
       
       // 2. Release capacity
       const capacityKey = this.generateCapacityKey(holdData);
-      await this.redis.decr(capacityKey);
+      await this.redis.decrby(capacityKey, holdData.quantity || 1);
       
       // 3. Remove from customer's hold list
       const customerKey = this.generateCustomerKey(holdData.customerId || holdData.guestSessionId);
@@ -280,7 +284,8 @@ export class ConcurrencyManager {
     const holdData = await this.getHold(holdId);
     if (!holdData) return false;
     
-    return holdData.status === 'active' && holdData.expiresAt > new Date();
+    // expiresAt comes back from Redis as an ISO string
+    return holdData.status === 'active' && new Date(holdData.expiresAt) > new Date();
   }
 
   /**
@@ -10,9 +10,31 @@ export {
   type SlotGenerationParams,
   type ProviderSettings,
   type RecurringRule,
-  type AvailabilityException
+  type AvailabilityException,
+  type ExistingBooking,
+  type DaySlotParams
 } from './slot-generator';
 
+export {
+  DEFAULT_PROVIDER_TIMEZONE,
+  isValidTimezone,
+  resolveTimezone,
+  zonedTimeToInstant,
+  localizeInterval,
+  localDayBounds,
+  localDatesBetween,
+  type LocalizedTime,
+  type ZonedInstant
+} from './timezone';
+
+export {
+  refreshSearchAvailability,
+  getNextAvailableSlots,
+  SEARCH_AVAILABILITY_DAYS,
+  type AvailabilityWindow,
+  type SearchAvailabilityRefresh
+} from './search-availability';
+
 export {
   concurrencyManager,
   type SlotHold,
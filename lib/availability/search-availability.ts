@@ -0,0 +1,162 @@
+/**
+ * Search Availability
+ * Keeps provider slots precomputed in availability_cache, so search can return
+ * only providers with an open slot and show each one's next slot:
+ * - The search-availability cron regenerates every bookable provider's slots
+ *   for the next SEARCH_AVAILABILITY_DAYS with SlotGenerator. Booked slots are
+ *   written too, marked unavailable.
+ * - Slots expire after SEARCH_AVAILABILITY_TTL_MINUTES, so a provider whose
+ *   refresh keeps failing drops out of availability searches instead of
+ *   showing stale slots.
+ * - A slot is open while it is available, unexpired, unlocked and in the future.
+ *
+ * Bookings made between refreshes show on the next run; booking itself still
+ * checks the slot with SlotGenerator.
+ */
+
+import { db } from "@/db/db";
+import { availabilityCacheTable, providerAvailabilityTable, providersTable } from "@/db/schema";
+import { and, eq, gt, gte, inArray, isNull, lt, lte, min, or, type SQL } from "drizzle-orm";
+import { slotGenerator } from "./slot-generator";
+
+export const SEARCH_AVAILABILITY_DAYS = 14;
+
+// Twice the cron interval, so one missed run doesn't empty availability searches
+export const SEARCH_AVAILABILITY_TTL_MINUTES = 30;
+
+// A requested time matches slots starting up to this long after it
+export const AVAILABILITY_WINDOW_MINUTES = 120;
+
+/**
+ * When a customer wants to book, in the listing's local time
+ */
+export interface AvailabilityWindow {
+  date: string; // YYYY-MM-DD
+  time?: string; // HH:mm; any time that day if omitted
+}
+
+export interface SearchAvailabilityRefresh {
+  providers: number;
+  slots: number;
+  failed: number;
+  pruned: number;
+}
+
+/**
+ * Start times a window covers, as HH:mm; `to` is exclusive, null for the end of the day
+ */
+export function windowStartTimes(window: AvailabilityWindow): { from: string; to: string | null } {
+  if (!window.time) {
+    return { from: "00:00", to: null };
+  }
+
+  const [hours, minutes] = window.time.split(":").map(Number);
+  const end = hours * 60 + minutes + AVAILABILITY_WINDOW_MINUTES;
+
+  return {
+    from: window.time,
+    to: end >= 24 * 60
+      ? null
+      : `${Math.floor(end / 60).toString().padStart(2, "0")}:${(end % 60).toString().padStart(2, "0")}`,
+  };
+}
+
+/**
+ * Conditions on availability_cache rows for slots that can still be booked,
+ * optionally within a window
+ */
+export function openSlotConditions(window?: AvailabilityWindow, now: Date = new Date()): SQL[] {
+  const conditions: SQL[] = [
+    eq(availabilityCacheTable.isAvailable, true),
+    gt(availabilityCacheTable.expiresAt, now),
+    gt(availabilityCacheTable.startsAt, now),
+    or(isNull(availabilityCacheTable.lockedUntil), lte(availabilityCacheTable.lockedUntil, now))!,
+  ];
+
+  if (window) {
+    const { from, to } = windowStartTimes(window);
+    conditions.push(
+      eq(availabilityCacheTable.date, window.date),
+      gte(availabilityCacheTable.startTime, from)
+    );
+    if (to) {
+      conditions.push(lt(availabilityCacheTable.startTime, to));
+    }
+  }
+
+  return conditions;
+}
+
+/**
+ * Each provider's next open slot, for providers that have one
+ */
+export async function getNextAvailableSlots(
+  providerIds: string[],
+  window?: AvailabilityWindow
+): Promise<Map<string, Date>> {
+  if (providerIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db
+    .select({
+      providerId: availabilityCacheTable.providerId,
+      nextAvailableAt: min(availabilityCacheTable.startsAt),
+    })
+    .from(availabilityCacheTable)
+    .where(and(inArray(availabilityCacheTable.providerId, providerIds), ...openSlotConditions(window)))
+    .groupBy(availabilityCacheTable.providerId);
+
+  const slots = new Map<string, Date>();
+  for (const row of rows) {
+    if (row.nextAvailableAt) {
+      slots.set(row.providerId, row.nextAvailableAt);
+    }
+  }
+  return slots;
+}
+
+/**
+ * Regenerate the slots of every active provider with weekly availability,
+ * then drop expired slots nothing holds
+ * A provider that fails is logged and skipped; its slots expire on their own.
+ */
+export async function refreshSearchAvailability(now: Date = new Date()): Promise<SearchAvailabilityRefresh> {
+  const providers = await db
+    .selectDistinct({ id: providersTable.id })
+    .from(providersTable)
+    .innerJoin(providerAvailabilityTable, eq(providerAvailabilityTable.providerId, providersTable.id))
+    .where(and(eq(providersTable.isActive, true), eq(providerAvailabilityTable.isActive, true)));
+
+  const endDate = new Date(now.getTime() + SEARCH_AVAILABILITY_DAYS * 24 * 60 * 60 * 1000);
+  let slots = 0;
+  let failed = 0;
+
+  for (const provider of providers) {
+    try {
+      // Provider-wide slots (no service); cached apart from per-service rows
+      const providerSlots = await slotGenerator.generateSlots({
+        providerId: provider.id,
+        startDate: now,
+        endDate,
+        includeBooked: true, // Written as unavailable, replacing slots cached while open
+      });
+      await slotGenerator.cacheSlots(providerSlots, SEARCH_AVAILABILITY_TTL_MINUTES * 60);
+      slots += providerSlots.length;
+    } catch (error) {
+      failed++;
+      console.error(`Failed to refresh search availability for provider ${provider.id}:`, error);
+    }
+  }
+
+  const pruned = await db
+    .delete(availabilityCacheTable)
+    .where(and(
+      lt(availabilityCacheTable.expiresAt, now),
+      isNull(availabilityCacheTable.bookingId),
+      or(isNull(availabilityCacheTable.lockedUntil), lte(availabilityCacheTable.lockedUntil, now))
+    ))
+    .returning({ id: availabilityCacheTable.id });
+
+  return { providers: providers.length, slots, failed, pruned: pruned.length };
+}
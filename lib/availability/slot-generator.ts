@@ -1,7 +1,7 @@
 /**
  * Slot Generation Algorithm
  * Implements deterministic slot generation per Master PRD §4.6.2
- * 
+ *
  * Algorithm:
  * 1. Resolve provider timezone
  * 2. Expand recurring rules across dateWindow
@@ -10,32 +10,51 @@
  * 5. Enforce lead time & cutoff
  * 6. Query bookings to subtract reserved capacity
  * 7. Return slots sorted ASC
+ *
+ * Recurring rules are wall-clock times in the provider's zone. Each slot is
+ * resolved to UTC per local date, so a 09:00 rule stays at 09:00 local on
+ * both sides of a DST transition and times skipped by spring-forward are dropped.
  */
 
 import { db } from "@/db/db";
-import { 
+import {
   providersTable,
   providerAvailabilityTable,
   providerBlockedSlotsTable,
   bookingsTable,
-  servicesTable
+  servicesTable,
+  availabilityCacheTable
 } from "@/db/schema";
-import { eq, and, gte, lte, inArray, or, sql } from "drizzle-orm";
-import { format, parse, addMinutes, isAfter, isBefore, startOfDay, endOfDay } from "date-fns";
-import { utcToZonedTime, zonedTimeToUtc } from "date-fns-tz";
+import { eq, and, gte, lte, inArray, sql } from "drizzle-orm";
+import { addMinutes, isAfter } from "date-fns";
+import {
+  resolveTimezone,
+  zonedTimeToInstant,
+  localDatesBetween,
+  localTime,
+  dayOfWeekForDate,
+  storedDate,
+  localizeInterval,
+  type LocalizedTime
+} from "./timezone";
+import { SLOT_HOLDING_STATES } from "@/lib/booking-state-machine/status-map";
 
 /**
  * Availability slot representation
  */
 export interface AvailabilitySlot {
-  date: string; // YYYY-MM-DD
-  startTime: string; // HH:mm
-  endTime: string; // HH:mm
+  date: string; // YYYY-MM-DD in provider timezone
+  startTime: string; // HH:mm in provider timezone
+  endTime: string; // HH:mm in provider timezone
+  startsAt: string; // ISO 8601 UTC instant
+  endsAt: string; // ISO 8601 UTC instant
+  timezone: string; // Provider timezone the local fields refer to
   available: boolean;
   capacity: number;
   remainingCapacity: number;
   providerId: string;
   serviceId?: string;
+  customerLocal?: LocalizedTime; // Same slot in the customer's timezone
 }
 
 /**
@@ -65,11 +84,22 @@ export interface RecurringRule {
  */
 export interface AvailabilityException {
   date: string; // YYYY-MM-DD
-  startMinute?: number; // Override start time
-  endMinute?: number; // Override end time
+  startMinute?: number; // Start of blocked range
+  endMinute?: number; // End of blocked range
   isClosed: boolean; // Completely unavailable
 }
 
+/**
+ * Existing booking occupying provider capacity
+ */
+export interface ExistingBooking {
+  id: string;
+  bookingDate: Date;
+  startTime: string;
+  endTime: string;
+  status: string;
+}
+
 /**
  * Slot generation parameters
  */
@@ -80,8 +110,27 @@ export interface SlotGenerationParams {
   endDate: Date;
   serviceDuration?: number; // Minutes, defaults to service setting
   includeBooked?: boolean; // Include slots that are already booked
+  customerTimezone?: string; // Adds customerLocal to each slot
 }
 
+/**
+ * Inputs for expanding a single provider-local day
+ */
+export interface DaySlotParams {
+  date: string; // YYYY-MM-DD in provider timezone
+  providerId: string;
+  serviceId?: string;
+  serviceDuration: number;
+  settings: ProviderSettings;
+  recurringRules: RecurringRule[];
+  exceptions: AvailabilityException[];
+  existingBookings: ExistingBooking[];
+  includeBooked?: boolean;
+  now?: Date;
+}
+
+const CAPACITY_STATUSES: string[] = SLOT_HOLDING_STATES;
+
 /**
  * Main slot generation class
  */
@@ -89,6 +138,7 @@ export class SlotGenerator {
   private readonly SLOT_INTERVAL_MINUTES = 15; // Generate slots every 15 minutes
   private readonly MAX_DAYS_AHEAD = 90; // Maximum booking window
   private readonly CACHE_TTL_SECONDS = 30; // Cache duration
+  private readonly CACHE_BATCH_SIZE = 500; // Slots upserted per statement
 
   /**
    * Generate available slots for a provider within a date range
@@ -97,38 +147,41 @@ export class SlotGenerator {
   async generateSlots(params: SlotGenerationParams): Promise<AvailabilitySlot[]> {
     // 1. Get provider settings and timezone
     const settings = await this.getProviderSettings(params.providerId);
-    
+
     // 2. Get service details if specified
-    const service = params.serviceId 
+    const service = params.serviceId
       ? await this.getServiceDetails(params.serviceId)
       : null;
-    
+
     const serviceDuration = params.serviceDuration || service?.duration || 60;
-    
+    if (service) {
+      settings.preBufferMinutes = service.bufferBefore ?? settings.preBufferMinutes;
+      settings.postBufferMinutes = service.bufferAfter ?? settings.postBufferMinutes;
+    }
+
     // 3. Get recurring rules
     const recurringRules = await this.getRecurringRules(params.providerId);
-    
+
+    // Local calendar dates in the provider's zone covered by the requested window
+    const localDates = localDatesBetween(params.startDate, params.endDate, settings.timezone);
+    if (localDates.length === 0) {
+      return [];
+    }
+    const firstDate = localDates[0];
+    const lastDate = localDates[localDates.length - 1];
+
     // 4. Get exceptions for date range
-    const exceptions = await this.getExceptions(
-      params.providerId, 
-      params.startDate, 
-      params.endDate
-    );
-    
+    const exceptions = await this.getExceptions(params.providerId, firstDate, lastDate);
+
     // 5. Get existing bookings for capacity calculation
-    const existingBookings = await this.getExistingBookings(
-      params.providerId,
-      params.startDate,
-      params.endDate
-    );
-    
-    // 6. Generate slots for each day
+    const existingBookings = await this.getExistingBookings(params.providerId, firstDate, lastDate);
+
+    // 6. Generate slots for each provider-local day
     const allSlots: AvailabilitySlot[] = [];
-    const currentDate = new Date(params.startDate);
-    
-    while (currentDate <= params.endDate) {
-      const daySlots = await this.generateDaySlots({
-        date: currentDate,
+
+    for (const date of localDates) {
+      const daySlots = this.generateDaySlots({
+        date,
         providerId: params.providerId,
         serviceId: params.serviceId,
         serviceDuration,
@@ -138,100 +191,113 @@ export class SlotGenerator {
         existingBookings,
         includeBooked: params.includeBooked
       });
-      
+
       allSlots.push(...daySlots);
-      currentDate.setDate(currentDate.getDate() + 1);
     }
-    
-    // 7. Sort slots by date and time
-    return allSlots.sort((a, b) => {
-      const dateCompare = a.date.localeCompare(b.date);
-      if (dateCompare !== 0) return dateCompare;
-      return a.startTime.localeCompare(b.startTime);
-    });
+
+    // Trim slots outside the requested instant window (edge days of the zone)
+    const windowSlots = allSlots.filter(slot =>
+      new Date(slot.endsAt) > params.startDate && new Date(slot.startsAt) <= params.endDate
+    );
+
+    if (params.customerTimezone) {
+      const customerTimezone = resolveTimezone(params.customerTimezone);
+      for (const slot of windowSlots) {
+        slot.customerLocal = localizeInterval(new Date(slot.startsAt), new Date(slot.endsAt), customerTimezone);
+      }
+    }
+
+    // 7. Sort slots chronologically
+    return windowSlots.sort((a, b) => a.startsAt.localeCompare(b.startsAt));
   }
 
   /**
-   * Generate slots for a single day
+   * Generate slots for a single provider-local day
+   * Pure with respect to its inputs so DST behaviour can be tested directly.
    */
-  private async generateDaySlots(params: {
-    date: Date;
-    providerId: string;
-    serviceId?: string;
-    serviceDuration: number;
-    settings: ProviderSettings;
-    recurringRules: RecurringRule[];
-    exceptions: AvailabilityException[];
-    existingBookings: any[];
-    includeBooked?: boolean;
-  }): Promise<AvailabilitySlot[]> {
+  generateDaySlots(params: DaySlotParams): AvailabilitySlot[] {
     const { date, settings, recurringRules, exceptions, existingBookings } = params;
-    const dayOfWeek = date.getDay();
-    const dateStr = format(date, 'yyyy-MM-dd');
-    
-    // Check if this day has an exception
-    const dayException = exceptions.find(e => e.date === dateStr);
-    
+    const now = params.now || new Date();
+    const dayOfWeek = dayOfWeekForDate(date);
+
+    // Check if this day has exceptions (blocked slots)
+    const dayExceptions = exceptions.filter(e => e.date === date);
+
     // If closed for the day, return empty
-    if (dayException?.isClosed) {
+    if (dayExceptions.some(e => e.isClosed)) {
       return [];
     }
-    
+
     // Get base availability from recurring rules
     const dayRules = recurringRules.filter(r => r.dayOfWeek === dayOfWeek);
-    if (dayRules.length === 0 && !dayException) {
+    if (dayRules.length === 0) {
       return []; // No availability on this day
     }
-    
-    // Apply exception overrides if present
-    let startMinute: number;
-    let endMinute: number;
-    let capacity: number;
-    
-    if (dayException && !dayException.isClosed) {
-      startMinute = dayException.startMinute || dayRules[0]?.startMinute || 540; // 9 AM default
-      endMinute = dayException.endMinute || dayRules[0]?.endMinute || 1020; // 5 PM default
-      capacity = dayRules[0]?.capacity || settings.defaultCapacity;
-    } else if (dayRules.length > 0) {
-      // Use recurring rules
-      startMinute = Math.min(...dayRules.map(r => r.startMinute));
-      endMinute = Math.max(...dayRules.map(r => r.endMinute));
-      capacity = Math.max(...dayRules.map(r => r.capacity));
-    } else {
-      return [];
-    }
-    
+
+    const startMinute = Math.min(...dayRules.map(r => r.startMinute));
+    const endMinute = Math.max(...dayRules.map(r => r.endMinute));
+    const capacity = Math.max(...dayRules.map(r => r.capacity));
+
+    // Resolve bookings to instants once; they are stored as provider-local times
+    const bookingIntervals = existingBookings
+      .filter(b => CAPACITY_STATUSES.includes(b.status))
+      .map(b => {
+        const bookingDate = storedDate(b.bookingDate);
+        return {
+          start: zonedTimeToInstant(bookingDate, b.startTime, settings.timezone).instant,
+          end: zonedTimeToInstant(bookingDate, b.endTime, settings.timezone).instant
+        };
+      });
+
     // Generate time slots
     const slots: AvailabilitySlot[] = [];
     let currentMinute = startMinute;
-    
+
     while (currentMinute + params.serviceDuration <= endMinute) {
       const slotStartTime = this.minutesToTime(currentMinute);
-      const slotEndTime = this.minutesToTime(currentMinute + params.serviceDuration);
-      
+      const { instant: startsAt, exists } = zonedTimeToInstant(date, slotStartTime, settings.timezone);
+
+      // Skip wall-clock times that don't exist (spring-forward gap)
+      if (!exists) {
+        currentMinute += this.SLOT_INTERVAL_MINUTES;
+        continue;
+      }
+
+      // Duration is elapsed time, so slots spanning a transition end at the right instant
+      const endsAt = addMinutes(startsAt, params.serviceDuration);
+
       // Check if slot meets lead time and cutoff requirements
-      const slotDateTime = this.combineDateAndTime(date, slotStartTime, settings.timezone);
-      const now = new Date();
-      const leadTimeOk = this.checkLeadTime(slotDateTime, now, settings.leadTimeMinutes);
-      const cutoffOk = this.checkCutoff(slotDateTime, now, settings.cutoffMinutes);
-      
-      if (leadTimeOk && cutoffOk) {
-        // Calculate remaining capacity
-        const bookedCount = existingBookings.filter(b => 
-          b.bookingDate === dateStr &&
-          b.startTime === slotStartTime &&
-          ['hold', 'confirmed', 'in_progress'].includes(b.status)
+      const leadTimeOk = this.checkLeadTime(startsAt, now, settings.leadTimeMinutes);
+      const cutoffOk = this.checkCutoff(startsAt, now, settings.cutoffMinutes);
+
+      // Partial-day blocks remove any slot they overlap
+      const blocked = dayExceptions.some(e =>
+        e.startMinute !== undefined &&
+        e.endMinute !== undefined &&
+        currentMinute < e.endMinute &&
+        currentMinute + params.serviceDuration > e.startMinute
+      );
+
+      if (leadTimeOk && cutoffOk && !blocked) {
+        // Calculate remaining capacity, honouring service buffers around bookings
+        const paddedStart = addMinutes(startsAt, -settings.preBufferMinutes);
+        const paddedEnd = addMinutes(endsAt, settings.postBufferMinutes);
+        const bookedCount = bookingIntervals.filter(b =>
+          b.start < paddedEnd && b.end > paddedStart
         ).length;
-        
-        const remainingCapacity = capacity - bookedCount;
+
+        const remainingCapacity = Math.max(0, capacity - bookedCount);
         const available = remainingCapacity > 0;
-        
+
         // Add slot if available or if including booked slots
         if (available || params.includeBooked) {
           slots.push({
-            date: dateStr,
+            date,
             startTime: slotStartTime,
-            endTime: slotEndTime,
+            endTime: localTime(endsAt, settings.timezone),
+            startsAt: startsAt.toISOString(),
+            endsAt: endsAt.toISOString(),
+            timezone: settings.timezone,
             available,
             capacity,
             remainingCapacity,
@@ -240,24 +306,69 @@ export class SlotGenerator {
           });
         }
       }
-      
+
       // Move to next slot interval
       currentMinute += this.SLOT_INTERVAL_MINUTES;
     }
-    
+
     return slots;
   }
 
+  /**
+   * Persist generated slots into availability_cache with their UTC instants
+   * Written in batches; ttlSeconds defaults to the short per-request cache TTL.
+   * Rows are keyed by service, so a service's slots never overwrite the
+   * provider-wide rows the search refresh writes, or another service's.
+   */
+  async cacheSlots(slots: AvailabilitySlot[], ttlSeconds: number = this.CACHE_TTL_SECONDS): Promise<void> {
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+    const computedAt = new Date();
+
+    for (let i = 0; i < slots.length; i += this.CACHE_BATCH_SIZE) {
+      await db
+        .insert(availabilityCacheTable)
+        .values(slots.slice(i, i + this.CACHE_BATCH_SIZE).map(slot => ({
+          providerId: slot.providerId,
+          serviceId: slot.serviceId,
+          date: slot.date,
+          startTime: slot.startTime,
+          endTime: slot.endTime,
+          timezone: slot.timezone,
+          startsAt: new Date(slot.startsAt),
+          endsAt: new Date(slot.endsAt),
+          isAvailable: slot.available,
+          isBooked: slot.remainingCapacity === 0,
+          computedAt,
+          expiresAt
+        })))
+        .onConflictDoUpdate({
+          target: [
+            availabilityCacheTable.providerId,
+            availabilityCacheTable.serviceId,
+            availabilityCacheTable.date,
+            availabilityCacheTable.startTime,
+            availabilityCacheTable.endTime,
+            availabilityCacheTable.timezone
+          ],
+          set: {
+            startsAt: sql`excluded.starts_at`,
+            endsAt: sql`excluded.ends_at`,
+            isAvailable: sql`excluded.is_available`,
+            isBooked: sql`excluded.is_booked`,
+            computedAt,
+            // Short-lived writes don't cut short a longer-lived search refresh
+            expiresAt: sql`GREATEST(${availabilityCacheTable.expiresAt}, excluded.expires_at)`
+          }
+        });
+    }
+  }
+
   /**
    * Get provider settings including timezone and buffers
    */
   private async getProviderSettings(providerId: string): Promise<ProviderSettings> {
-    // First try to get from provider_settings table (if it exists)
-    // Fall back to defaults if not found
     const provider = await db
-      .select({
-        timezone: sql<string>`COALESCE(${providersTable.timezone}, 'America/New_York')`.as('timezone')
-      })
+      .select({ timezone: providersTable.timezone })
       .from(providersTable)
       .where(eq(providersTable.id, providerId))
       .limit(1);
@@ -266,9 +377,9 @@ export class SlotGenerator {
       throw new Error(`Provider ${providerId} not found`);
     }
 
-    // TODO: Get from provider_settings table once created
+    // TODO: Get lead time and capacity from provider_settings table once created
     return {
-      timezone: provider[0].timezone || 'America/New_York',
+      timezone: resolveTimezone(provider[0].timezone),
       leadTimeMinutes: 120, // 2 hours default
       cutoffMinutes: 30, // 30 minutes before slot
       preBufferMinutes: 0,
@@ -284,9 +395,9 @@ export class SlotGenerator {
     const services = await db
       .select({
         id: servicesTable.id,
-        duration: servicesTable.duration,
-        bufferBefore: servicesTable.bufferBefore,
-        bufferAfter: servicesTable.bufferAfter
+        duration: servicesTable.minimumDuration,
+        bufferBefore: servicesTable.bufferTimeBefore,
+        bufferAfter: servicesTable.bufferTimeAfter
       })
       .from(servicesTable)
       .where(eq(servicesTable.id, serviceId))
@@ -322,34 +433,33 @@ export class SlotGenerator {
   }
 
   /**
-   * Get availability exceptions for date range
+   * Get availability exceptions for a range of provider-local dates
    */
   private async getExceptions(
-    providerId: string, 
-    startDate: Date, 
-    endDate: Date
+    providerId: string,
+    startDate: string,
+    endDate: string
   ): Promise<AvailabilityException[]> {
     const blockedSlots = await db
       .select({
         date: providerBlockedSlotsTable.blockedDate,
         startTime: providerBlockedSlotsTable.startTime,
-        endTime: providerBlockedSlotsTable.endTime,
-        isFullDay: providerBlockedSlotsTable.isFullDay
+        endTime: providerBlockedSlotsTable.endTime
       })
       .from(providerBlockedSlotsTable)
       .where(
         and(
           eq(providerBlockedSlotsTable.providerId, providerId),
-          gte(providerBlockedSlotsTable.blockedDate, startDate),
-          lte(providerBlockedSlotsTable.blockedDate, endDate)
+          gte(providerBlockedSlotsTable.blockedDate, new Date(`${startDate}T00:00:00Z`)),
+          lte(providerBlockedSlotsTable.blockedDate, new Date(`${endDate}T23:59:59Z`))
         )
       );
 
     return blockedSlots.map(slot => ({
-      date: format(slot.date, 'yyyy-MM-dd'),
+      date: storedDate(slot.date),
       startMinute: slot.startTime ? this.timeToMinutes(slot.startTime) : undefined,
       endMinute: slot.endTime ? this.timeToMinutes(slot.endTime) : undefined,
-      isClosed: slot.isFullDay
+      isClosed: !slot.startTime || !slot.endTime // Null times mean the full day is blocked
     }));
   }
 
@@ -358,9 +468,9 @@ export class SlotGenerator {
    */
   private async getExistingBookings(
     providerId: string,
-    startDate: Date,
-    endDate: Date
-  ) {
+    startDate: string,
+    endDate: string
+  ): Promise<ExistingBooking[]> {
     return await db
       .select({
         id: bookingsTable.id,
@@ -373,9 +483,9 @@ export class SlotGenerator {
       .where(
         and(
           eq(bookingsTable.providerId, providerId),
-          gte(bookingsTable.bookingDate, format(startDate, 'yyyy-MM-dd')),
-          lte(bookingsTable.bookingDate, format(endDate, 'yyyy-MM-dd')),
-          inArray(bookingsTable.status, ['hold', 'pending', 'confirmed', 'in_progress'])
+          gte(bookingsTable.bookingDate, new Date(`${startDate}T00:00:00Z`)),
+          lte(bookingsTable.bookingDate, new Date(`${endDate}T23:59:59Z`)),
+          inArray(bookingsTable.status, CAPACITY_STATUSES)
         )
       );
   }
@@ -397,16 +507,6 @@ export class SlotGenerator {
     return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
   }
 
-  /**
-   * Combine date and time in provider's timezone
-   */
-  private combineDateAndTime(date: Date, time: string, timezone: string): Date {
-    const [hours, minutes] = time.split(':').map(Number);
-    const dateInTz = utcToZonedTime(date, timezone);
-    dateInTz.setHours(hours, minutes, 0, 0);
-    return zonedTimeToUtc(dateInTz, timezone);
-  }
-
   /**
    * Check if slot meets lead time requirement
    */
@@ -425,4 +525,4 @@ export class SlotGenerator {
 }
 
 // Export singleton instance
-export const slotGenerator = new SlotGenerator();
\ No newline at end of file
+export const slotGenerator = new SlotGenerator();
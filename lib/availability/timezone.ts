@@ -0,0 +1,140 @@
+/**
+ * Timezone Utilities
+ * Converts provider wall-clock schedules ("09:00" on a local date) into UTC
+ * instants and back, handling DST gaps and overlaps explicitly.
+ *
+ * Provider availability is stored as local HH:mm strings, so every
+ * conversion must go through the provider's IANA zone rather than the
+ * server's local time.
+ */
+
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+
+export const DEFAULT_PROVIDER_TIMEZONE = "America/New_York";
+
+/**
+ * Result of resolving a local wall-clock time to an instant
+ */
+export interface ZonedInstant {
+  instant: Date;
+  exists: boolean; // false when the wall-clock time falls in a DST gap
+}
+
+/**
+ * Slot rendered in a viewer's timezone
+ */
+export interface LocalizedTime {
+  timezone: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+}
+
+/**
+ * Check whether a string is an IANA timezone known to the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fall back to the default zone when a stored value is missing or unknown
+ */
+export function resolveTimezone(timezone?: string | null): string {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_PROVIDER_TIMEZONE;
+}
+
+/**
+ * Resolve a local date + HH:mm in `timezone` to a UTC instant
+ * Times skipped by a spring-forward transition are flagged as non-existent;
+ * ambiguous fall-back times resolve to their first (daylight) occurrence.
+ */
+export function zonedTimeToInstant(date: string, time: string, timezone: string): ZonedInstant {
+  const instant = fromZonedTime(`${date}T${time}:00`, timezone);
+  const roundTrip = formatInTimeZone(instant, timezone, "yyyy-MM-dd HH:mm");
+
+  return { instant, exists: roundTrip === `${date} ${time}` };
+}
+
+/**
+ * Format an instant as a local date in `timezone`
+ */
+export function localDate(instant: Date, timezone: string): string {
+  return formatInTimeZone(instant, timezone, "yyyy-MM-dd");
+}
+
+/**
+ * Format an instant as a local HH:mm time in `timezone`
+ */
+export function localTime(instant: Date, timezone: string): string {
+  return formatInTimeZone(instant, timezone, "HH:mm");
+}
+
+/**
+ * Day of week (0 = Sunday) for a YYYY-MM-DD calendar date, independent of server zone
+ */
+export function dayOfWeekForDate(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Calendar date of a date-only column (booking_date, blocked_date)
+ * These are written as UTC midnight, so read the UTC date part rather than
+ * formatting in the server's local zone.
+ */
+export function storedDate(value: Date): string {
+  return value.toISOString().slice(0, 10);
+}
+
+/**
+ * Add calendar days to a YYYY-MM-DD date
+ */
+export function addDaysToDate(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * List local calendar dates in `timezone` covered by [start, end]
+ */
+export function localDatesBetween(start: Date, end: Date, timezone: string): string[] {
+  const dates: string[] = [];
+  const last = localDate(end, timezone);
+  let current = localDate(start, timezone);
+
+  while (current <= last) {
+    dates.push(current);
+    current = addDaysToDate(current, 1);
+  }
+
+  return dates;
+}
+
+/**
+ * Instant bounds of a local calendar day in `timezone` (end exclusive)
+ * Days are 23 or 25 hours long on DST transitions.
+ */
+export function localDayBounds(date: string, timezone: string): { start: Date; end: Date } {
+  return {
+    start: fromZonedTime(`${date}T00:00:00`, timezone),
+    end: fromZonedTime(`${addDaysToDate(date, 1)}T00:00:00`, timezone),
+  };
+}
+
+/**
+ * Render a UTC interval in a viewer's timezone
+ */
+export function localizeInterval(startsAt: Date, endsAt: Date, timezone: string): LocalizedTime {
+  return {
+    timezone,
+    date: localDate(startsAt, timezone),
+    startTime: localTime(startsAt, timezone),
+    endTime: localTime(endsAt, timezone),
+  };
+}
@@ -0,0 +1,426 @@
+/**
+ * Booking State Engine
+ * The single writer of bookingsTable.status. Every change runs through
+ * executeTransition, is persisted together with its transition record,
+ * stamps the StateConfigurations.maxDuration deadline, and fires the
+ * notifyCustomer / notifyProvider side effects once committed. Requests
+ * the provider lets lapse are refunded in full, and checkouts that expire or
+ * fail have their PaymentIntent cancelled so it can no longer be paid.
+ * Per Master PRD §4.7
+ */
+
+import { db } from '@/db/db';
+import {
+  bookingsTable,
+  bookingStateTransitionsTable,
+  bookingRescheduleRequestsTable,
+  rescheduleRequestStatus,
+  providersTable,
+  type Booking
+} from '@/db/schema';
+import { and, asc, eq, inArray, isNotNull, lte } from 'drizzle-orm';
+import {
+  BookingStates,
+  StateConfigurations,
+  type BookingState
+} from './states';
+import {
+  ValidTransitions,
+  TransitionEvents,
+  executeTransition,
+  type TransitionEvent,
+  type TransitionContext
+} from './transitions';
+import { toBookingState, CANCELED_STATES } from './status-map';
+import { notificationService } from '@/lib/notifications/notification-service';
+import { waitlistService } from '@/lib/waitlist';
+import { cancellationPolicyService } from '@/lib/bookings/cancellation-policy-service';
+import { stripe } from '@/lib/stripe-enhanced';
+
+/**
+ * Events fired by the timeout sweeper when a state outlives its maxDuration
+ */
+export const STATE_TIMEOUT_EVENTS: Partial<Record<BookingState, TransitionEvent>> = {
+  [BookingStates.DRAFT]: TransitionEvents.DRAFT_EXPIRED,
+  [BookingStates.HOLD]: TransitionEvents.HOLD_EXPIRED,
+  [BookingStates.PENDING_PROVIDER]: TransitionEvents.PROVIDER_TIMEOUT
+};
+
+const SWEEP_BATCH_SIZE = 100;
+
+// Events that abandon a checkout; its PaymentIntent must not be payable afterwards
+const ABANDONED_CHECKOUT_EVENTS: TransitionEvent[] = [
+  TransitionEvents.HOLD_EXPIRED,
+  TransitionEvents.DRAFT_EXPIRED,
+  TransitionEvents.PAYMENT_FAILED
+];
+
+export type TransitionActor = TransitionContext['actor'];
+
+export interface DispatchOptions {
+  reason?: string;
+  metadata?: TransitionContext['metadata'];
+  now?: Date;
+}
+
+export interface DispatchResult {
+  booking: Booking;
+  previousState: BookingState;
+  currentState: BookingState;
+  sideEffects: string[];
+}
+
+export interface SweepResult {
+  processed: number;
+  expired: number;
+  failed: number;
+}
+
+export type BookingTransitionErrorCode = 'NOT_FOUND' | 'FORBIDDEN' | 'INVALID_TRANSITION';
+
+const ERROR_STATUS: Record<BookingTransitionErrorCode, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  INVALID_TRANSITION: 409
+};
+
+export class BookingTransitionError extends Error {
+  constructor(
+    message: string,
+    public code: BookingTransitionErrorCode
+  ) {
+    super(message);
+    this.name = 'BookingTransitionError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+/**
+ * Deadline for leaving a state, or null when the state has no maxDuration
+ */
+export function stateExpiresAt(state: BookingState, from: Date = new Date()): Date | null {
+  const maxDuration = StateConfigurations[state].maxDuration;
+  return maxDuration ? new Date(from.getTime() + maxDuration * 60 * 1000) : null;
+}
+
+/**
+ * Status columns for a newly inserted booking
+ */
+export function initialBookingState(
+  state: BookingState,
+  now: Date = new Date()
+): { status: BookingState; stateExpiresAt: Date | null } {
+  return { status: state, stateExpiresAt: stateExpiresAt(state, now) };
+}
+
+/**
+ * Events that move a booking from one state to another
+ */
+export function eventsBetween(from: BookingState, to: BookingState): TransitionEvent[] {
+  return ValidTransitions
+    .filter(t => t.from === from && t.to === to)
+    .map(t => t.event);
+}
+
+export class BookingStateEngine {
+  /**
+   * Apply an event to a booking and persist the resulting state
+   */
+  async dispatch(
+    bookingId: string,
+    event: TransitionEvent,
+    actor: TransitionActor,
+    options: DispatchOptions = {}
+  ): Promise<DispatchResult> {
+    const now = options.now || new Date();
+
+    const { booking, previousState, currentState } = await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(bookingsTable)
+        .where(eq(bookingsTable.id, bookingId))
+        .limit(1)
+        .for('update');
+
+      if (!current) {
+        throw new BookingTransitionError(`Booking ${bookingId} not found`, 'NOT_FOUND');
+      }
+
+      const fromState = toBookingState(current.status);
+      const result = await executeTransition({
+        bookingId,
+        currentState: fromState,
+        event,
+        actor,
+        metadata: options.metadata,
+        timestamp: now
+      });
+
+      if (!result.success || !result.newState) {
+        throw new BookingTransitionError(
+          result.error || `Invalid transition: ${fromState} -> ${event}`,
+          'INVALID_TRANSITION'
+        );
+      }
+
+      const toState = result.newState;
+      const [updated] = await tx
+        .update(bookingsTable)
+        .set({
+          status: toState,
+          stateExpiresAt: stateExpiresAt(toState, now),
+          updatedAt: now,
+          ...(CANCELED_STATES.includes(toState) && {
+            cancelledAt: now,
+            cancelledBy: actor.type === 'customer' || actor.type === 'provider' ? actor.id : null,
+            cancellationReason: options.reason || options.metadata?.cancellationReason || current.cancellationReason
+          }),
+          ...(toState === BookingStates.COMPLETED && { completedAt: now })
+        })
+        .where(eq(bookingsTable.id, bookingId))
+        .returning();
+
+      await tx.insert(bookingStateTransitionsTable).values({
+        bookingId,
+        fromStatus: fromState,
+        toStatus: toState,
+        triggeredBy: actor.type === 'system' ? 'system' : actor.id,
+        triggerReason: options.reason || event,
+        metadata: { ...options.metadata, event, actorType: actor.type },
+        createdAt: now
+      });
+
+      // A cancelled booking can no longer move; close reschedules still awaiting the provider
+      if (CANCELED_STATES.includes(toState)) {
+        await tx
+          .update(bookingRescheduleRequestsTable)
+          .set({
+            status: rescheduleRequestStatus.WITHDRAWN,
+            responseNote: 'Booking cancelled',
+            respondedAt: now,
+            updatedAt: now
+          })
+          .where(
+            and(
+              eq(bookingRescheduleRequestsTable.bookingId, bookingId),
+              eq(bookingRescheduleRequestsTable.status, rescheduleRequestStatus.PENDING)
+            )
+          );
+      }
+
+      return { booking: updated, previousState: fromState, currentState: toState };
+    });
+
+    const sideEffects = await this.runSideEffects(booking, previousState, currentState, event);
+
+    return { booking, previousState, currentState, sideEffects };
+  }
+
+  /**
+   * Move a booking to a target state through whichever event leads there
+   * Used where callers know the outcome (e.g. a Stripe webhook) rather than the event
+   */
+  async moveTo(
+    bookingId: string,
+    target: BookingState,
+    actor: TransitionActor,
+    options: DispatchOptions = {}
+  ): Promise<DispatchResult> {
+    const [booking] = await db
+      .select()
+      .from(bookingsTable)
+      .where(eq(bookingsTable.id, bookingId))
+      .limit(1);
+
+    if (!booking) {
+      throw new BookingTransitionError(`Booking ${bookingId} not found`, 'NOT_FOUND');
+    }
+
+    // Already there (e.g. a retried request); nothing to record
+    const currentState = toBookingState(booking.status);
+    if (currentState === target) {
+      return { booking, previousState: currentState, currentState, sideEffects: [] };
+    }
+
+    const events = eventsBetween(currentState, target);
+    if (events.length === 0) {
+      throw new BookingTransitionError(
+        `Invalid transition: ${currentState} -> ${target}`,
+        'INVALID_TRANSITION'
+      );
+    }
+
+    // Several events can share a target (e.g. rejection and timeout); guards pick one
+    let lastError: unknown;
+    for (const event of events) {
+      try {
+        return await this.dispatch(bookingId, event, actor, options);
+      } catch (error) {
+        if (!(error instanceof BookingTransitionError) || error.code !== 'INVALID_TRANSITION') {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Work out which party a signed-in user is on a booking
+   */
+  async resolveActor(booking: Booking, userId: string): Promise<TransitionActor> {
+    if (booking.customerId === userId) {
+      return { type: 'customer', id: userId };
+    }
+
+    const [provider] = await db
+      .select({ userId: providersTable.userId })
+      .from(providersTable)
+      .where(eq(providersTable.id, booking.providerId))
+      .limit(1);
+
+    if (provider?.userId === userId) {
+      return { type: 'provider', id: userId };
+    }
+
+    throw new BookingTransitionError('Not a party to this booking', 'FORBIDDEN');
+  }
+
+  /**
+   * Expire bookings that stayed in a timed state past their deadline
+   */
+  async sweepTimeouts(now: Date = new Date()): Promise<SweepResult> {
+    const timedStates = Object.keys(STATE_TIMEOUT_EVENTS) as BookingState[];
+    const due = await db
+      .select({ id: bookingsTable.id, status: bookingsTable.status })
+      .from(bookingsTable)
+      .where(
+        and(
+          inArray(bookingsTable.status, timedStates),
+          isNotNull(bookingsTable.stateExpiresAt),
+          lte(bookingsTable.stateExpiresAt, now)
+        )
+      )
+      .orderBy(asc(bookingsTable.stateExpiresAt))
+      .limit(SWEEP_BATCH_SIZE);
+
+    const result: SweepResult = { processed: due.length, expired: 0, failed: 0 };
+
+    for (const booking of due) {
+      const event = STATE_TIMEOUT_EVENTS[toBookingState(booking.status)]!;
+      try {
+        await this.dispatch(booking.id, event, { type: 'system', id: 'system' }, {
+          reason: `${StateConfigurations[toBookingState(booking.status)].displayName} timed out`,
+          now
+        });
+        result.expired++;
+      } catch (error) {
+        // A concurrent transition may have moved the booking on already
+        console.error(`Failed to expire booking ${booking.id}:`, error);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private async runSideEffects(
+    booking: Booking,
+    fromState: BookingState,
+    toState: BookingState,
+    event: TransitionEvent
+  ): Promise<string[]> {
+    const effects: string[] = [];
+    const config = StateConfigurations[toState];
+
+    try {
+      // Abandoned drafts were never visible to either party
+      if (fromState !== BookingStates.DRAFT) {
+        const notification = {
+          bookingId: booking.id,
+          customerId: booking.customerId || undefined,
+          guestEmail: booking.guestEmail || undefined,
+          providerId: booking.providerId,
+          serviceName: booking.serviceName,
+          previousState: fromState,
+          state: toState,
+          stateLabel: config.displayName
+        };
+
+        if (config.notifyCustomer) {
+          await notificationService.sendBookingStatusChangedNotification({
+            ...notification,
+            recipientType: 'customer'
+          });
+          effects.push('Customer notification queued');
+        }
+
+        if (config.notifyProvider) {
+          await notificationService.sendBookingStatusChangedNotification({
+            ...notification,
+            recipientType: 'provider'
+          });
+          effects.push('Provider notification queued');
+        }
+      }
+
+      // Payments capture at checkout, so a lapsed request has already been paid for
+      if (event === TransitionEvents.PROVIDER_TIMEOUT) {
+        const refund = await cancellationPolicyService.refundInFull(booking, 'Provider did not respond in time');
+        if (refund.status !== 'none') {
+          effects.push(`Full refund ${refund.status}`);
+        }
+      }
+
+      if (ABANDONED_CHECKOUT_EVENTS.includes(event) && booking.stripePaymentIntentId) {
+        if (await this.cancelPaymentIntent(booking)) {
+          effects.push('Payment intent cancelled');
+        }
+      }
+
+      // Offer the freed seat to the next waitlisted customer; a draft never held one
+      const releasedSeat = (CANCELED_STATES.includes(toState) && fromState !== BookingStates.DRAFT) ||
+        (fromState === BookingStates.HOLD && toState === BookingStates.DRAFT);
+      if (releasedSeat) {
+        const offers = await waitlistService.handleCancellation(booking.id);
+        if (offers.length > 0) {
+          effects.push(`Waitlist offers sent (${offers.length})`);
+        }
+      }
+    } catch (error) {
+      // Side effects must not undo a committed transition
+      console.error(`Side effects failed for booking ${booking.id}:`, error);
+      effects.push(`Side effect error: ${error instanceof Error ? error.message : 'Unknown'}`);
+    }
+
+    return effects;
+  }
+
+  /**
+   * Cancel an abandoned checkout's PaymentIntent
+   * Intents that already failed for good, were cancelled, or were paid
+   * meanwhile cannot be cancelled; a late payment is refunded by the webhook.
+   */
+  private async cancelPaymentIntent(booking: Booking): Promise<boolean> {
+    try {
+      await stripe.paymentIntents.cancel(booking.stripePaymentIntentId!, {
+        cancellation_reason: 'abandoned'
+      });
+      return true;
+    } catch (error) {
+      console.warn(`Could not cancel payment intent for booking ${booking.id}:`, error);
+      return false;
+    }
+  }
+}
+
+// Export singleton instance
+export const bookingStateEngine = new BookingStateEngine();
@@ -41,4 +41,28 @@ export {
   type BookingContext,
   type StateMachineEvent,
   type StateMachineResult
-} from './machine';
\ No newline at end of file
+} from './machine';
+// Status normalization
+export {
+  LegacyStatusMap,
+  SLOT_HOLDING_STATES,
+  CANCELED_STATES,
+  isBookingState,
+  toBookingState
+} from './status-map';
+
+// Persisted engine
+export {
+  BookingStateEngine,
+  BookingTransitionError,
+  bookingStateEngine,
+  STATE_TIMEOUT_EVENTS,
+  stateExpiresAt,
+  initialBookingState,
+  eventsBetween,
+  type TransitionActor,
+  type DispatchOptions,
+  type DispatchResult,
+  type SweepResult,
+  type BookingTransitionErrorCode
+} from './engine';
@@ -1,11 +1,12 @@
 /**
  * Booking State Definitions
- * Per Master PRD §4.7.1 - All 13 booking states
+ * Per Master PRD §4.7.1 - All 13 booking states, plus expired
  * 
  * States:
  * draft → hold → pending_provider → confirmed → in_progress → completed
  * → canceled_customer → canceled_provider → no_show_customer → no_show_provider
  * → refunded_partial → refunded_full → dispute
+ * draft → expired (abandoned checkout, never held a seat or took payment)
  */
 
 /**
@@ -15,6 +16,7 @@ export const BookingStates = {
   // Initial states
   DRAFT: 'draft',                           // Booking being created, not yet paid
   HOLD: 'hold',                             // Slot held for 10 minutes during payment
+  EXPIRED: 'expired',                       // Draft abandoned before checkout
   
   // Payment & confirmation states  
   PENDING_PROVIDER: 'pending_provider',     // Payment authorized, awaiting provider acceptance
@@ -94,6 +96,21 @@ export const StateConfigurations: Record<BookingState, StateMetadata> = {
     maxDuration: 10 // 10 minutes TTL per Master PRD
   },
   
+  [BookingStates.EXPIRED]: {
+    name: BookingStates.EXPIRED,
+    displayName: 'Expired',
+    description: 'Checkout was abandoned before payment',
+    isTerminal: true,
+    requiresPayment: false,
+    requiresProvider: false,
+    requiresCustomer: false,
+    allowsRefund: false,
+    allowsDispute: false,
+    notifyCustomer: false,
+    notifyProvider: false,
+    maxDuration: undefined
+  },
+  
   [BookingStates.PENDING_PROVIDER]: {
     name: BookingStates.PENDING_PROVIDER,
     displayName: 'Pending Provider',
@@ -286,6 +303,9 @@ export const StateCategories = {
   ],
   DISPUTED: [
     BookingStates.DISPUTE
+  ],
+  EXPIRED: [
+    BookingStates.EXPIRED
   ]
 } as const;
 
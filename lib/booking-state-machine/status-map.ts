@@ -0,0 +1,71 @@
+/**
+ * Booking Status Normalization
+ * Maps the statuses written by older code paths onto the canonical
+ * Master PRD §4.7.1 states so every reader sees one vocabulary
+ */
+
+import { BookingStates, type BookingState } from './states';
+
+/**
+ * Statuses written before the state machines were unified.
+ * Migration 0029 rewrites stored rows with the same mapping.
+ */
+export const LegacyStatusMap: Record<string, BookingState> = {
+  initiated: BookingStates.DRAFT,
+  pending: BookingStates.PENDING_PROVIDER,
+  accepted: BookingStates.CONFIRMED,
+  rejected: BookingStates.CANCELED_PROVIDER,
+  payment_pending: BookingStates.HOLD,
+  payment_succeeded: BookingStates.CONFIRMED,
+  payment_failed: BookingStates.DRAFT,
+  cancelled: BookingStates.CANCELED_CUSTOMER,
+  canceled: BookingStates.CANCELED_CUSTOMER,
+  refunded: BookingStates.REFUNDED_FULL,
+  no_show: BookingStates.NO_SHOW_CUSTOMER,
+  disputed: BookingStates.DISPUTE
+};
+
+/**
+ * States that occupy a seat on the provider's calendar
+ */
+export const SLOT_HOLDING_STATES: BookingState[] = [
+  BookingStates.HOLD,
+  BookingStates.PENDING_PROVIDER,
+  BookingStates.CONFIRMED,
+  BookingStates.IN_PROGRESS
+];
+
+/**
+ * States that count as a cancellation in reports
+ */
+export const CANCELED_STATES: BookingState[] = [
+  BookingStates.CANCELED_CUSTOMER,
+  BookingStates.CANCELED_PROVIDER
+];
+
+/**
+ * Check whether a stored value is one of the canonical states
+ */
+export function isBookingState(status: string): status is BookingState {
+  return (Object.values(BookingStates) as string[]).includes(status);
+}
+
+/**
+ * Resolve a stored status to its canonical state
+ */
+export function toBookingState(status: string | null | undefined): BookingState {
+  if (!status) {
+    return BookingStates.DRAFT;
+  }
+
+  if (isBookingState(status)) {
+    return status;
+  }
+
+  const mapped = LegacyStatusMap[status.toLowerCase()];
+  if (!mapped) {
+    throw new Error(`Unknown booking status: ${status}`);
+  }
+
+  return mapped;
+}
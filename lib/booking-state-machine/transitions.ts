@@ -43,6 +43,7 @@ export const TransitionEvents = {
   
   // System events
   HOLD_EXPIRED: 'hold_expired',
+  DRAFT_EXPIRED: 'draft_expired',
   PROVIDER_TIMEOUT: 'provider_timeout'
 } as const;
 
@@ -97,6 +98,15 @@ export const ValidTransitions: StateTransition[] = [
       return true;
     }
   },
+  {
+    from: BookingStates.DRAFT,
+    to: BookingStates.EXPIRED,
+    event: TransitionEvents.DRAFT_EXPIRED,
+    guard: async (ctx) => {
+      // Abandoned checkout, closed by the timeout sweeper
+      return ctx.actor.type === 'system';
+    }
+  },
   
   // Hold transitions
   {
@@ -109,11 +119,28 @@ export const ValidTransitions: StateTransition[] = [
       return !!ctx.metadata?.paymentIntentId;
     }
   },
+  {
+    from: BookingStates.HOLD,
+    to: BookingStates.CONFIRMED,
+    event: TransitionEvents.PAYMENT_CAPTURED,
+    guard: async (ctx) => {
+      // Instant booking: payment captured without provider approval
+      return !!ctx.metadata?.paymentIntentId;
+    }
+  },
   {
     from: BookingStates.HOLD,
     to: BookingStates.DRAFT,
     event: TransitionEvents.PAYMENT_FAILED
   },
+  {
+    from: BookingStates.HOLD,
+    to: BookingStates.CANCELED_CUSTOMER,
+    event: TransitionEvents.CUSTOMER_CANCELS,
+    guard: async (ctx) => {
+      return ctx.actor.type === 'customer';
+    }
+  },
   {
     from: BookingStates.HOLD,
     to: BookingStates.DRAFT,
@@ -156,6 +183,15 @@ export const ValidTransitions: StateTransition[] = [
       return ctx.actor.type === 'system';
     }
   },
+  {
+    from: BookingStates.PENDING_PROVIDER,
+    to: BookingStates.REFUNDED_FULL,
+    event: TransitionEvents.REFUND_FULL,
+    guard: async (ctx) => {
+      // Refund issued outside the booking flow (e.g. Stripe dashboard)
+      return ctx.actor.type === 'system' || ctx.actor.type === 'admin';
+    }
+  },
   
   // Confirmed transitions
   {
@@ -206,6 +242,24 @@ export const ValidTransitions: StateTransition[] = [
       return ctx.actor.type === 'customer';
     }
   },
+  {
+    from: BookingStates.CONFIRMED,
+    to: BookingStates.CANCELED_CUSTOMER,
+    event: TransitionEvents.PAYMENT_FAILED,
+    guard: async (ctx) => {
+      // Recurring occurrences are confirmed up front and charged later; unpaid ones are released
+      return ctx.actor.type === 'system';
+    }
+  },
+  {
+    from: BookingStates.CONFIRMED,
+    to: BookingStates.REFUNDED_FULL,
+    event: TransitionEvents.REFUND_FULL,
+    guard: async (ctx) => {
+      // Refund issued outside the booking flow (e.g. Stripe dashboard)
+      return ctx.actor.type === 'system' || ctx.actor.type === 'admin';
+    }
+  },
   
   // In progress transitions
   {
@@ -0,0 +1,1057 @@
+/**
+ * Booking Series Service
+ * Recurring bookings on top of bookingsTable: a series expands into one
+ * booking per occurrence inside a rolling reservation horizon, each slot is
+ * checked against SlotGenerator, and each occurrence is charged off-session
+ * to the customer's saved payment method shortly before it starts. Failed
+ * charges are retried with backoff, with both parties told each time; an
+ * occurrence still unpaid UNPAID_RELEASE_HOURS before it starts is cancelled
+ * and its slot released.
+ *
+ * Either party can skip, reschedule or cancel a single occurrence, or cancel
+ * the remaining series. The booking-series cron extends the horizon and
+ * charges due occurrences.
+ */
+
+import Stripe from "stripe";
+import { db } from "@/db/db";
+import {
+  bookingsTable,
+  transactionsTable,
+  providersTable,
+  profilesTable,
+  servicesTable,
+  bookingSeriesTable,
+  bookingSeriesOccurrencesTable,
+  bookingSeriesStatus,
+  seriesOccurrenceStatus,
+  seriesPaymentStatus,
+  type BookingSeries,
+  type BookingSeriesOccurrence,
+} from "@/db/schema";
+import { and, asc, eq, gt, inArray, lte, or } from "drizzle-orm";
+import { slotGenerator } from "@/lib/availability/slot-generator";
+import {
+  resolveTimezone,
+  localDate,
+  localDayBounds,
+  addDaysToDate,
+  storedDate,
+  zonedTimeToInstant,
+} from "@/lib/availability/timezone";
+import { stripe } from "@/lib/stripe-enhanced";
+import { calculateFees } from "@/lib/payments/fee-calculator";
+import { taxLocationForProvider } from "@/lib/payments/tax-engine";
+import { taxService } from "@/lib/payments/tax-service";
+import {
+  normalizeCurrency,
+  toMinorUnits,
+  minorToDecimalString,
+  minimumChargeMinor
+} from "@/lib/payments/currency";
+import {
+  bookingStateEngine,
+  initialBookingState,
+  toBookingState,
+  BookingStates,
+  TransitionEvents,
+} from "@/lib/booking-state-machine";
+import { notificationService } from "@/lib/notifications/notification-service";
+import { cancellationPolicyService, quoteRefund } from "./cancellation-policy-service";
+import { generateConfirmationCode } from "@/lib/utils";
+import {
+  buildSeriesRecurrence,
+  expandSeries,
+  formatSeriesRRule,
+  hasOccurrencesAfter,
+  type SeriesFrequency,
+} from "./series-recurrence";
+
+// Occurrences are reserved this far ahead (inside SlotGenerator's 90-day window)
+export const RESERVATION_HORIZON_DAYS = 56;
+// Occurrences are charged this long before they start
+export const CHARGE_LEAD_HOURS = 48;
+// Failed charges are retried after these delays, in order
+export const CHARGE_RETRY_DELAYS_HOURS = [2, 8, 24];
+// Occurrences still unpaid this close to their start are cancelled
+export const UNPAID_RELEASE_HOURS = 12;
+export const MAX_SERIES_OCCURRENCES = 52;
+
+const OPEN_OCCURRENCE_STATUSES = [seriesOccurrenceStatus.RESERVED, seriesOccurrenceStatus.RESCHEDULED];
+
+export type SeriesActorRole = "customer" | "provider";
+
+export interface SeriesActor {
+  userId: string;
+  role: SeriesActorRole;
+}
+
+export interface CreateSeriesParams {
+  customerId: string;
+  providerId: string;
+  serviceId: string;
+  frequency: SeriesFrequency;
+  startDate: string; // YYYY-MM-DD, provider-local
+  startTime: string; // HH:mm, provider-local
+  count?: number;
+  until?: string;
+  paymentMethodId: string;
+  customerNotes?: string;
+}
+
+export interface SeriesWithOccurrences {
+  series: BookingSeries;
+  occurrences: BookingSeriesOccurrence[];
+}
+
+export interface ChargeRunResult {
+  charged: number;
+  failed: number;
+  released: number;
+}
+
+export type BookingSeriesErrorCode =
+  | "INVALID_REQUEST"
+  | "NOT_FOUND"
+  | "FORBIDDEN"
+  | "PAYMENT_METHOD_REQUIRED"
+  | "SLOT_UNAVAILABLE"
+  | "INVALID_STATE";
+
+const ERROR_STATUS: Record<BookingSeriesErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  PAYMENT_METHOD_REQUIRED: 402,
+  SLOT_UNAVAILABLE: 409,
+  INVALID_STATE: 409,
+};
+
+export class BookingSeriesError extends Error {
+  constructor(
+    message: string,
+    public code: BookingSeriesErrorCode
+  ) {
+    super(message);
+    this.name = 'BookingSeriesError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+function slotDateValue(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+/**
+ * When to retry an occurrence charge after its nth failed attempt
+ * Null once retries run out or the retry would fall inside the release window.
+ */
+export function nextChargeAttemptAt(failedAttempts: number, startsAt: Date, now: Date): Date | null {
+  const delayHours = CHARGE_RETRY_DELAYS_HOURS[failedAttempts - 1];
+  if (delayHours === undefined) {
+    return null;
+  }
+
+  const retryAt = new Date(now.getTime() + delayHours * 60 * 60 * 1000);
+  const releaseAt = startsAt.getTime() - UNPAID_RELEASE_HOURS * 60 * 60 * 1000;
+  return retryAt.getTime() < releaseAt ? retryAt : null;
+}
+
+/**
+ * Main booking series class
+ */
+export class BookingSeriesService {
+  /**
+   * Create a series and reserve its occurrences inside the horizon
+   */
+  async createSeries(params: CreateSeriesParams): Promise<SeriesWithOccurrences> {
+    if (params.count !== undefined && (params.count < 2 || params.count > MAX_SERIES_OCCURRENCES)) {
+      throw new BookingSeriesError(`count must be between 2 and ${MAX_SERIES_OCCURRENCES}`, "INVALID_REQUEST");
+    }
+    if (params.until && params.until <= params.startDate) {
+      throw new BookingSeriesError("until must be after startDate", "INVALID_REQUEST");
+    }
+
+    const [provider] = await db
+      .select({
+        id: providersTable.id,
+        isActive: providersTable.isActive,
+        timezone: providersTable.timezone,
+        currency: providersTable.currency,
+      })
+      .from(providersTable)
+      .where(eq(providersTable.id, params.providerId))
+      .limit(1);
+
+    if (!provider || !provider.isActive) {
+      throw new BookingSeriesError("Provider not found", "NOT_FOUND");
+    }
+
+    const [service] = await db
+      .select()
+      .from(servicesTable)
+      .where(
+        and(
+          eq(servicesTable.id, params.serviceId),
+          eq(servicesTable.providerId, params.providerId)
+        )
+      )
+      .limit(1);
+
+    if (!service || !service.isActive) {
+      throw new BookingSeriesError("Service not found", "NOT_FOUND");
+    }
+    const currency = normalizeCurrency(provider.currency);
+    if (toMinorUnits(service.basePrice, currency) < minimumChargeMinor(currency)) {
+      throw new BookingSeriesError("Service price is below the minimum transaction amount", "INVALID_REQUEST");
+    }
+
+    const timezone = resolveTimezone(provider.timezone);
+    if (params.startDate < localDate(new Date(), timezone)) {
+      throw new BookingSeriesError("startDate cannot be in the past", "INVALID_REQUEST");
+    }
+
+    const stripeCustomerId = await this.verifyPaymentMethod(params.customerId, params.paymentMethodId);
+
+    const recurrence = buildSeriesRecurrence({
+      frequency: params.frequency,
+      startDate: params.startDate,
+      startTime: params.startTime,
+      durationMinutes: service.minimumDuration,
+      count: params.count,
+      until: params.until,
+    });
+
+    const [series] = await db
+      .insert(bookingSeriesTable)
+      .values({
+        customerId: params.customerId,
+        providerId: params.providerId,
+        serviceId: service.id,
+        serviceName: service.name,
+        servicePrice: service.basePrice,
+        currency,
+        serviceDuration: service.minimumDuration,
+        recurrence,
+        rrule: formatSeriesRRule(recurrence),
+        timezone,
+        stripeCustomerId,
+        stripePaymentMethodId: params.paymentMethodId,
+        customerNotes: params.customerNotes,
+      })
+      .returning();
+
+    const occurrences = await this.reserveUpcoming(series);
+
+    // A series whose first date is already taken is almost certainly a mistake
+    if (occurrences[0]?.status === seriesOccurrenceStatus.CONFLICT) {
+      await this.cancelSeries(series.id, { userId: params.customerId, role: "customer" }, "First occurrence unavailable");
+      throw new BookingSeriesError("The first occurrence of this series is not available", "SLOT_UNAVAILABLE");
+    }
+
+    return { series, occurrences };
+  }
+
+  /**
+   * Reserve occurrences that have come into the horizon since the last run
+   * Occurrences whose slot is taken are recorded as conflicts instead of bookings.
+   */
+  async reserveUpcoming(series: BookingSeries, now: Date = new Date()): Promise<BookingSeriesOccurrence[]> {
+    if (series.status !== bookingSeriesStatus.ACTIVE) {
+      return [];
+    }
+
+    const timezone = resolveTimezone(series.timezone);
+    const fromDate = series.reservedThrough
+      ? addDaysToDate(storedDate(series.reservedThrough), 1)
+      : series.recurrence.startDate;
+    const throughDate = addDaysToDate(localDate(now, timezone), RESERVATION_HORIZON_DAYS);
+
+    const windowStart = new Date(Math.max(localDayBounds(fromDate, timezone).start.getTime(), now.getTime()));
+    const windowEnd = localDayBounds(throughDate, timezone).end;
+
+    if (windowStart >= windowEnd) {
+      return [];
+    }
+
+    const dates = expandSeries(series.recurrence, timezone, windowStart, windowEnd);
+    const reserved: BookingSeriesOccurrence[] = [];
+
+    if (dates.length > 0) {
+      const slots = await slotGenerator.generateSlots({
+        providerId: series.providerId,
+        serviceId: series.serviceId || undefined,
+        startDate: windowStart,
+        endDate: windowEnd,
+        serviceDuration: series.serviceDuration,
+      });
+      const available = new Set(
+        slots.filter(slot => slot.available).map(slot => `${slot.date} ${slot.startTime}`)
+      );
+
+      for (const slot of dates) {
+        const occurrence = available.has(`${slot.date} ${slot.startTime}`)
+          ? await this.reserveOccurrence(series, slot)
+          : await this.recordConflict(series, slot);
+
+        if (occurrence) {
+          reserved.push(occurrence);
+        }
+      }
+    }
+
+    const stillRunning = hasOccurrencesAfter(series.recurrence, timezone, windowEnd);
+
+    await db
+      .update(bookingSeriesTable)
+      .set({
+        reservedThrough: slotDateValue(throughDate),
+        status: stillRunning ? bookingSeriesStatus.ACTIVE : bookingSeriesStatus.COMPLETED,
+        updatedAt: new Date(),
+      })
+      .where(eq(bookingSeriesTable.id, series.id));
+
+    return reserved;
+  }
+
+  /**
+   * Charge reserved occurrences starting within CHARGE_LEAD_HOURS, retry
+   * failed charges whose backoff has passed, then release the ones still unpaid
+   */
+  async chargeDueOccurrences(now: Date = new Date()): Promise<ChargeRunResult> {
+    const due = await db
+      .select({
+        occurrence: bookingSeriesOccurrencesTable,
+        series: bookingSeriesTable,
+      })
+      .from(bookingSeriesOccurrencesTable)
+      .innerJoin(bookingSeriesTable, eq(bookingSeriesOccurrencesTable.seriesId, bookingSeriesTable.id))
+      // Only bookings still standing are charged; one cancelled elsewhere must not be
+      .innerJoin(bookingsTable, eq(bookingSeriesOccurrencesTable.bookingId, bookingsTable.id))
+      .where(
+        and(
+          eq(bookingsTable.status, BookingStates.CONFIRMED),
+          or(
+            eq(bookingSeriesOccurrencesTable.paymentStatus, seriesPaymentStatus.PENDING),
+            and(
+              eq(bookingSeriesOccurrencesTable.paymentStatus, seriesPaymentStatus.FAILED),
+              lte(bookingSeriesOccurrencesTable.nextChargeAt, now)
+            )
+          ),
+          inArray(bookingSeriesOccurrencesTable.status, OPEN_OCCURRENCE_STATUSES),
+          gt(bookingSeriesOccurrencesTable.startsAt, now),
+          lte(bookingSeriesOccurrencesTable.startsAt, new Date(now.getTime() + CHARGE_LEAD_HOURS * 60 * 60 * 1000))
+        )
+      )
+      .orderBy(asc(bookingSeriesOccurrencesTable.startsAt));
+
+    const result: ChargeRunResult = { charged: 0, failed: 0, released: 0 };
+
+    for (const { occurrence, series } of due) {
+      const succeeded = await this.chargeOccurrence(series, occurrence, now);
+      if (succeeded) {
+        result.charged++;
+      } else {
+        result.failed++;
+      }
+    }
+
+    result.released = await this.releaseUnpaidOccurrences(now);
+
+    return result;
+  }
+
+  /**
+   * Cancel occurrences still unpaid within UNPAID_RELEASE_HOURS of their start
+   * The booking is cancelled through the state engine, which tells both
+   * parties and offers the slot to the waitlist.
+   */
+  async releaseUnpaidOccurrences(now: Date = new Date()): Promise<number> {
+    const unpaid = await db
+      .select({ occurrence: bookingSeriesOccurrencesTable })
+      .from(bookingSeriesOccurrencesTable)
+      .innerJoin(bookingsTable, eq(bookingSeriesOccurrencesTable.bookingId, bookingsTable.id))
+      .where(
+        and(
+          eq(bookingsTable.status, BookingStates.CONFIRMED),
+          inArray(bookingSeriesOccurrencesTable.paymentStatus, [seriesPaymentStatus.PENDING, seriesPaymentStatus.FAILED]),
+          inArray(bookingSeriesOccurrencesTable.status, OPEN_OCCURRENCE_STATUSES),
+          gt(bookingSeriesOccurrencesTable.startsAt, now),
+          lte(bookingSeriesOccurrencesTable.startsAt, new Date(now.getTime() + UNPAID_RELEASE_HOURS * 60 * 60 * 1000))
+        )
+      );
+
+    let released = 0;
+
+    for (const { occurrence } of unpaid) {
+      try {
+        if (occurrence.bookingId) {
+          const reason = "Payment was not received before the booking";
+          await bookingStateEngine.dispatch(
+            occurrence.bookingId,
+            TransitionEvents.PAYMENT_FAILED,
+            { type: "system", id: "system" },
+            { reason, metadata: { cancellationReason: reason, source: "booking_series" }, now }
+          );
+        }
+
+        await this.updateOccurrence(occurrence.id, {
+          status: seriesOccurrenceStatus.CANCELLED,
+          paymentStatus: seriesPaymentStatus.FAILED,
+          nextChargeAt: null,
+        });
+        released++;
+      } catch (error) {
+        console.error(`Error releasing unpaid series occurrence ${occurrence.id}:`, error);
+      }
+    }
+
+    return released;
+  }
+
+  /**
+   * Extend every active series' horizon
+   */
+  async reserveAllActive(now: Date = new Date()): Promise<number> {
+    const active = await db
+      .select()
+      .from(bookingSeriesTable)
+      .where(eq(bookingSeriesTable.status, bookingSeriesStatus.ACTIVE));
+
+    let reserved = 0;
+    for (const series of active) {
+      try {
+        reserved += (await this.reserveUpcoming(series, now)).length;
+      } catch (error) {
+        console.error(`Error reserving occurrences for series ${series.id}:`, error);
+      }
+    }
+
+    return reserved;
+  }
+
+  /**
+   * Load a series with its occurrences and the caller's role on it
+   */
+  async getSeriesForUser(seriesId: string, userId: string): Promise<SeriesWithOccurrences & { role: SeriesActorRole }> {
+    const series = await this.getSeries(seriesId);
+    const role = await this.resolveRole(series, userId);
+
+    const occurrences = await db
+      .select()
+      .from(bookingSeriesOccurrencesTable)
+      .where(eq(bookingSeriesOccurrencesTable.seriesId, seriesId))
+      .orderBy(asc(bookingSeriesOccurrencesTable.originalDate));
+
+    return { series, occurrences, role };
+  }
+
+  /**
+   * List series where the user is the customer or the provider
+   */
+  async listForUser(userId: string): Promise<BookingSeries[]> {
+    const asCustomer = await db
+      .select()
+      .from(bookingSeriesTable)
+      .where(eq(bookingSeriesTable.customerId, userId));
+
+    const asProvider = await db
+      .select({ series: bookingSeriesTable })
+      .from(bookingSeriesTable)
+      .innerJoin(providersTable, eq(bookingSeriesTable.providerId, providersTable.id))
+      .where(eq(providersTable.userId, userId));
+
+    return [...asCustomer, ...asProvider.map(row => row.series)]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Resolve whether a user acts on a series as its customer or provider
+   */
+  async authorize(seriesId: string, userId: string): Promise<SeriesActor> {
+    const series = await this.getSeries(seriesId);
+    return { userId, role: await this.resolveRole(series, userId) };
+  }
+
+  /**
+   * Swap the saved payment method; failed upcoming charges are retried on the next run
+   */
+  async updatePaymentMethod(seriesId: string, actor: SeriesActor, paymentMethodId: string): Promise<BookingSeries> {
+    const series = await this.getSeries(seriesId);
+    if (actor.role !== "customer") {
+      throw new BookingSeriesError("Only the customer can change the payment method", "FORBIDDEN");
+    }
+
+    const stripeCustomerId = await this.verifyPaymentMethod(series.customerId, paymentMethodId);
+
+    const [updated] = await db
+      .update(bookingSeriesTable)
+      .set({ stripeCustomerId, stripePaymentMethodId: paymentMethodId, updatedAt: new Date() })
+      .where(eq(bookingSeriesTable.id, seriesId))
+      .returning();
+
+    await db
+      .update(bookingSeriesOccurrencesTable)
+      .set({
+        paymentStatus: seriesPaymentStatus.PENDING,
+        paymentError: null,
+        chargeAttempts: 0,
+        nextChargeAt: null,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(bookingSeriesOccurrencesTable.seriesId, seriesId),
+          eq(bookingSeriesOccurrencesTable.paymentStatus, seriesPaymentStatus.FAILED),
+          gt(bookingSeriesOccurrencesTable.startsAt, new Date())
+        )
+      );
+
+    return updated;
+  }
+
+  /**
+   * Skip one occurrence before it has been charged; the series continues
+   */
+  async skipOccurrence(occurrenceId: string, actor: SeriesActor): Promise<BookingSeriesOccurrence> {
+    const { occurrence, actor: resolved } = await this.getOpenOccurrence(occurrenceId, actor);
+
+    if (occurrence.paymentStatus === seriesPaymentStatus.SUCCEEDED) {
+      throw new BookingSeriesError("This occurrence has already been charged; cancel it instead", "INVALID_STATE");
+    }
+
+    if (occurrence.bookingId) {
+      await this.cancelBooking(occurrence.bookingId, resolved, "Occurrence skipped");
+    }
+
+    return await this.updateOccurrence(occurrence.id, {
+      status: seriesOccurrenceStatus.SKIPPED,
+      paymentStatus: seriesPaymentStatus.NOT_CHARGED,
+    });
+  }
+
+  /**
+   * Cancel one occurrence, refunding a charged one per the cancellation policy
+   * its booking was made under. Provider cancellations are always refunded in full.
+   */
+  async cancelOccurrence(occurrenceId: string, actor: SeriesActor, reason: string): Promise<BookingSeriesOccurrence> {
+    const { occurrence, series, actor: resolved } = await this.getOpenOccurrence(occurrenceId, actor);
+    return await this.cancelOpenOccurrence(series, occurrence, resolved, reason);
+  }
+
+  /**
+   * Move one occurrence to another available slot
+   */
+  async rescheduleOccurrence(
+    occurrenceId: string,
+    actor: SeriesActor,
+    target: { date: string; startTime: string }
+  ): Promise<BookingSeriesOccurrence> {
+    const { occurrence, series } = await this.getOpenOccurrence(occurrenceId, actor);
+
+    if (!occurrence.bookingId) {
+      throw new BookingSeriesError("Occurrence has no booking to move", "INVALID_STATE");
+    }
+
+    const timezone = resolveTimezone(series.timezone);
+    const { instant, exists } = zonedTimeToInstant(target.date, target.startTime, timezone);
+    if (!exists || instant <= new Date()) {
+      throw new BookingSeriesError("The new time must be a valid time in the future", "INVALID_REQUEST");
+    }
+
+    const bounds = localDayBounds(target.date, timezone);
+    const slots = await slotGenerator.generateSlots({
+      providerId: series.providerId,
+      serviceId: series.serviceId || undefined,
+      startDate: bounds.start,
+      endDate: new Date(bounds.end.getTime() - 1),
+      serviceDuration: series.serviceDuration,
+    });
+
+    const slot = slots.find(s => s.date === target.date && s.startTime === target.startTime && s.available);
+    if (!slot) {
+      throw new BookingSeriesError("The requested slot is not available", "SLOT_UNAVAILABLE");
+    }
+
+    await db
+      .update(bookingsTable)
+      .set({
+        bookingDate: slotDateValue(slot.date),
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        updatedAt: new Date(),
+      })
+      .where(eq(bookingsTable.id, occurrence.bookingId));
+
+    return await this.updateOccurrence(occurrence.id, {
+      status: seriesOccurrenceStatus.RESCHEDULED,
+      startsAt: new Date(slot.startsAt),
+    });
+  }
+
+  /**
+   * Cancel the rest of a series
+   * Past occurrences are untouched; upcoming ones are cancelled with the same
+   * refund rules as cancelling them one by one.
+   */
+  async cancelSeries(seriesId: string, actor: SeriesActor, reason: string): Promise<SeriesWithOccurrences> {
+    const series = await this.getSeries(seriesId);
+
+    if (series.status === bookingSeriesStatus.CANCELLED) {
+      throw new BookingSeriesError("Series is already cancelled", "INVALID_STATE");
+    }
+
+    const [cancelled] = await db
+      .update(bookingSeriesTable)
+      .set({
+        status: bookingSeriesStatus.CANCELLED,
+        cancellationReason: reason,
+        cancelledBy: actor.userId,
+        cancelledAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(bookingSeriesTable.id, seriesId))
+      .returning();
+
+    const upcoming = await db
+      .select()
+      .from(bookingSeriesOccurrencesTable)
+      .where(
+        and(
+          eq(bookingSeriesOccurrencesTable.seriesId, seriesId),
+          inArray(bookingSeriesOccurrencesTable.status, [...OPEN_OCCURRENCE_STATUSES, seriesOccurrenceStatus.CONFLICT]),
+          gt(bookingSeriesOccurrencesTable.startsAt, new Date())
+        )
+      )
+      .orderBy(asc(bookingSeriesOccurrencesTable.startsAt));
+
+    const occurrences: BookingSeriesOccurrence[] = [];
+    for (const occurrence of upcoming) {
+      occurrences.push(
+        occurrence.status === seriesOccurrenceStatus.CONFLICT
+          ? await this.updateOccurrence(occurrence.id, { status: seriesOccurrenceStatus.CANCELLED })
+          : await this.cancelOpenOccurrence(series, occurrence, actor, reason)
+      );
+    }
+
+    return { series: cancelled, occurrences };
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private async reserveOccurrence(
+    series: BookingSeries,
+    slot: { date: string; startTime: string; endTime: string; startsAt: Date }
+  ): Promise<BookingSeriesOccurrence | null> {
+    // Tax at the provider's location when the occurrence is booked
+    const [provider] = await db
+      .select({
+        locationCountry: providersTable.locationCountry,
+        locationState: providersTable.locationState,
+        locationZipCode: providersTable.locationZipCode,
+      })
+      .from(providersTable)
+      .where(eq(providersTable.id, series.providerId))
+      .limit(1);
+
+    const fees = calculateFees({
+      baseAmountCents: toMinorUnits(series.servicePrice, series.currency),
+      isGuest: false,
+      currency: series.currency,
+      taxLocation: provider ? taxLocationForProvider(provider) : null,
+    });
+    const cancellationPolicy = await cancellationPolicyService.policyForListing(series);
+
+    return await db.transaction(async (tx) => {
+      const [occurrence] = await tx
+        .insert(bookingSeriesOccurrencesTable)
+        .values({
+          seriesId: series.id,
+          originalDate: slotDateValue(slot.date),
+          startsAt: slot.startsAt,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      // Already expanded by an earlier run
+      if (!occurrence) {
+        return null;
+      }
+
+      const [booking] = await tx
+        .insert(bookingsTable)
+        .values({
+          providerId: series.providerId,
+          customerId: series.customerId,
+          serviceName: series.serviceName,
+          servicePrice: series.servicePrice,
+          serviceDuration: series.serviceDuration,
+          bookingDate: slotDateValue(slot.date),
+          startTime: slot.startTime,
+          endTime: slot.endTime,
+          ...initialBookingState(BookingStates.CONFIRMED), // Agreed up front; charged before it starts
+          totalAmount: minorToDecimalString(fees.customerTotalCents, series.currency),
+          platformFee: minorToDecimalString(fees.platformFeeCents, series.currency),
+          providerPayout: minorToDecimalString(fees.providerPayoutCents, series.currency),
+          taxAmount: minorToDecimalString(fees.taxCents, series.currency),
+          currency: series.currency,
+          customerNotes: series.customerNotes,
+          confirmationCode: generateConfirmationCode(),
+          bookingType: "service",
+          serviceId: series.serviceId,
+          seriesId: series.id,
+          cancellationPolicy,
+        })
+        .returning({ id: bookingsTable.id });
+
+      await taxService.recordBookingTax(
+        { id: booking.id, providerId: series.providerId, currency: series.currency },
+        fees.taxLines,
+        tx
+      );
+
+      const [linked] = await tx
+        .update(bookingSeriesOccurrencesTable)
+        .set({ bookingId: booking.id })
+        .where(eq(bookingSeriesOccurrencesTable.id, occurrence.id))
+        .returning();
+
+      return linked;
+    });
+  }
+
+  private async recordConflict(
+    series: BookingSeries,
+    slot: { date: string; startsAt: Date }
+  ): Promise<BookingSeriesOccurrence | null> {
+    const [occurrence] = await db
+      .insert(bookingSeriesOccurrencesTable)
+      .values({
+        seriesId: series.id,
+        originalDate: slotDateValue(slot.date),
+        startsAt: slot.startsAt,
+        status: seriesOccurrenceStatus.CONFLICT,
+        paymentStatus: seriesPaymentStatus.NOT_CHARGED,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    return occurrence || null;
+  }
+
+  /**
+   * Charge one occurrence off-session; returns whether the charge went through
+   */
+  private async chargeOccurrence(
+    series: BookingSeries,
+    occurrence: BookingSeriesOccurrence,
+    now: Date
+  ): Promise<boolean> {
+    if (!occurrence.bookingId) {
+      return false;
+    }
+
+    const [booking] = await db
+      .select()
+      .from(bookingsTable)
+      .where(eq(bookingsTable.id, occurrence.bookingId))
+      .limit(1);
+
+    const [provider] = await db
+      .select({ stripeConnectAccountId: providersTable.stripeConnectAccountId })
+      .from(providersTable)
+      .where(eq(providersTable.id, series.providerId))
+      .limit(1);
+
+    // Re-checked here in case the booking was cancelled since the run started
+    if (!booking || toBookingState(booking.status) !== BookingStates.CONFIRMED) {
+      return false;
+    }
+
+    const amountCents = toMinorUnits(booking.totalAmount, booking.currency);
+    const platformFeeCents = toMinorUnits(booking.platformFee, booking.currency);
+
+    try {
+      const paymentIntent = await stripe.paymentIntents.create(
+        {
+          amount: amountCents,
+          currency: booking.currency,
+          customer: series.stripeCustomerId,
+          payment_method: series.stripePaymentMethodId,
+          off_session: true,
+          confirm: true,
+          ...(provider?.stripeConnectAccountId
+            ? {
+                application_fee_amount: platformFeeCents,
+                transfer_data: { destination: provider.stripeConnectAccountId },
+              }
+            : {}),
+          metadata: {
+            type: "series_occurrence",
+            bookingId: booking.id,
+            seriesId: series.id,
+            occurrenceId: occurrence.id,
+          },
+        },
+        // One charge per attempt, however many times the cron overlaps
+        { idempotencyKey: `series-occurrence-${occurrence.id}-${series.stripePaymentMethodId}-${occurrence.chargeAttempts}` }
+      );
+
+      if (paymentIntent.status !== "succeeded" && paymentIntent.status !== "processing") {
+        throw new Error(`Payment requires action (${paymentIntent.status})`);
+      }
+
+      await db.transaction(async (tx) => {
+        await tx
+          .update(bookingSeriesOccurrencesTable)
+          .set({
+            paymentStatus: seriesPaymentStatus.SUCCEEDED,
+            stripePaymentIntentId: paymentIntent.id,
+            chargedAt: new Date(),
+            paymentError: null,
+            nextChargeAt: null,
+            updatedAt: new Date(),
+          })
+          .where(eq(bookingSeriesOccurrencesTable.id, occurrence.id));
+
+        await tx
+          .update(bookingsTable)
+          .set({
+            stripePaymentIntentId: paymentIntent.id,
+            updatedAt: new Date(),
+          })
+          .where(eq(bookingsTable.id, booking.id));
+
+        await tx.insert(transactionsTable).values({
+          bookingId: booking.id,
+          stripeChargeId: paymentIntent.id,
+          amount: booking.totalAmount,
+          platformFee: booking.platformFee,
+          providerPayout: booking.providerPayout,
+          status: "completed",
+          processedAt: new Date(),
+        });
+      });
+
+      return true;
+    } catch (error) {
+      const message = error instanceof Stripe.errors.StripeError || error instanceof Error
+        ? error.message
+        : "Unknown payment error";
+      console.error(`Error charging series occurrence ${occurrence.id}:`, error);
+
+      const chargeAttempts = occurrence.chargeAttempts + 1;
+      const nextChargeAt = nextChargeAttemptAt(chargeAttempts, occurrence.startsAt, now);
+      await this.updateOccurrence(occurrence.id, {
+        paymentStatus: seriesPaymentStatus.FAILED,
+        paymentError: message,
+        chargeAttempts,
+        nextChargeAt,
+      });
+
+      try {
+        await notificationService.sendSeriesPaymentFailedNotification({
+          seriesId: series.id,
+          bookingId: booking.id,
+          customerId: series.customerId,
+          providerId: series.providerId,
+          serviceName: series.serviceName,
+          bookingDate: storedDate(booking.bookingDate),
+          startTime: booking.startTime,
+          reason: message,
+          retryAt: nextChargeAt,
+        });
+      } catch (notifyError) {
+        console.error(`Error sending series payment failure for ${occurrence.id}:`, notifyError);
+      }
+
+      return false;
+    }
+  }
+
+  private async cancelOpenOccurrence(
+    series: BookingSeries,
+    occurrence: BookingSeriesOccurrence,
+    actor: SeriesActor,
+    reason: string
+  ): Promise<BookingSeriesOccurrence> {
+    const charged = occurrence.paymentStatus === seriesPaymentStatus.SUCCEEDED && !!occurrence.stripePaymentIntentId;
+    let paymentStatus: string = charged ? seriesPaymentStatus.SUCCEEDED : seriesPaymentStatus.NOT_CHARGED;
+
+    if (occurrence.bookingId) {
+      await this.cancelBooking(occurrence.bookingId, actor, reason);
+
+      if (charged && (await this.refundOccurrence(occurrence, occurrence.bookingId, actor, reason))) {
+        paymentStatus = seriesPaymentStatus.REFUNDED;
+      }
+    }
+
+    return await this.updateOccurrence(occurrence.id, {
+      status: seriesOccurrenceStatus.CANCELLED,
+      paymentStatus,
+    });
+  }
+
+  /**
+   * Refund a cancelled occurrence's charge through the cancellation policy
+   * Returns whether it was refunded in full.
+   */
+  private async refundOccurrence(
+    occurrence: BookingSeriesOccurrence,
+    bookingId: string,
+    actor: SeriesActor,
+    reason: string
+  ): Promise<boolean> {
+    const [booking] = await db
+      .select()
+      .from(bookingsTable)
+      .where(eq(bookingsTable.id, bookingId))
+      .limit(1);
+
+    if (!booking) {
+      return false;
+    }
+
+    if (actor.role === "provider") {
+      const result = await cancellationPolicyService.refundInFull(booking, reason);
+      return result.status === "processed";
+    }
+
+    // The occurrence's own start, under the policy snapshot taken when it was booked
+    const policy = await cancellationPolicyService.resolvePolicy(booking);
+    const quote = quoteRefund(policy.tiers, occurrence.startsAt, new Date(), {
+      totalAmount: parseFloat(booking.totalAmount),
+      platformFee: parseFloat(booking.platformFee),
+      providerPayout: parseFloat(booking.providerPayout),
+      taxAmount: parseFloat(booking.taxAmount),
+      currency: booking.currency,
+    });
+
+    const result = await cancellationPolicyService.refundCancellation(booking, quote, {
+      reason,
+      cancelledBy: "customer",
+      policy,
+    });
+    return result.status === "processed" && quote.refundPercent === 100;
+  }
+
+  private async cancelBooking(
+    bookingId: string,
+    actor: SeriesActor,
+    reason: string
+  ): Promise<void> {
+    await bookingStateEngine.dispatch(
+      bookingId,
+      actor.role === "customer" ? TransitionEvents.CUSTOMER_CANCELS : TransitionEvents.PROVIDER_CANCELS,
+      { type: actor.role, id: actor.userId },
+      { reason, metadata: { cancellationReason: reason, source: "booking_series" } }
+    );
+  }
+
+  private async getOpenOccurrence(
+    occurrenceId: string,
+    actor: SeriesActor
+  ): Promise<{ occurrence: BookingSeriesOccurrence; series: BookingSeries; actor: SeriesActor }> {
+    const [row] = await db
+      .select({
+        occurrence: bookingSeriesOccurrencesTable,
+        series: bookingSeriesTable,
+      })
+      .from(bookingSeriesOccurrencesTable)
+      .innerJoin(bookingSeriesTable, eq(bookingSeriesOccurrencesTable.seriesId, bookingSeriesTable.id))
+      .where(eq(bookingSeriesOccurrencesTable.id, occurrenceId))
+      .limit(1);
+
+    if (!row) {
+      throw new BookingSeriesError("Occurrence not found", "NOT_FOUND");
+    }
+
+    // The role comes from this occurrence's own series, not the one in the URL
+    const role = await this.resolveRole(row.series, actor.userId);
+
+    if (!OPEN_OCCURRENCE_STATUSES.includes(row.occurrence.status as typeof OPEN_OCCURRENCE_STATUSES[number])) {
+      throw new BookingSeriesError(`Occurrence is already ${row.occurrence.status}`, "INVALID_STATE");
+    }
+    if (row.occurrence.startsAt <= new Date()) {
+      throw new BookingSeriesError("Occurrence has already started", "INVALID_STATE");
+    }
+
+    return { ...row, actor: { userId: actor.userId, role } };
+  }
+
+  private async updateOccurrence(
+    occurrenceId: string,
+    values: Partial<typeof bookingSeriesOccurrencesTable.$inferInsert>
+  ): Promise<BookingSeriesOccurrence> {
+    const [updated] = await db
+      .update(bookingSeriesOccurrencesTable)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(bookingSeriesOccurrencesTable.id, occurrenceId))
+      .returning();
+
+    return updated;
+  }
+
+  private async verifyPaymentMethod(customerId: string, paymentMethodId: string): Promise<string> {
+    const [profile] = await db
+      .select({ stripeCustomerId: profilesTable.stripeCustomerId })
+      .from(profilesTable)
+      .where(eq(profilesTable.userId, customerId))
+      .limit(1);
+
+    if (!profile?.stripeCustomerId) {
+      throw new BookingSeriesError("Save a payment method before creating a recurring booking", "PAYMENT_METHOD_REQUIRED");
+    }
+
+    const paymentMethod = await stripe.paymentMethods.retrieve(paymentMethodId);
+    const owner = typeof paymentMethod.customer === "string"
+      ? paymentMethod.customer
+      : paymentMethod.customer?.id;
+
+    if (owner !== profile.stripeCustomerId) {
+      throw new BookingSeriesError("Payment method does not belong to this customer", "PAYMENT_METHOD_REQUIRED");
+    }
+
+    return profile.stripeCustomerId;
+  }
+
+  private async getSeries(seriesId: string): Promise<BookingSeries> {
+    const [series] = await db
+      .select()
+      .from(bookingSeriesTable)
+      .where(eq(bookingSeriesTable.id, seriesId))
+      .limit(1);
+
+    if (!series) {
+      throw new BookingSeriesError("Booking series not found", "NOT_FOUND");
+    }
+
+    return series;
+  }
+
+  private async resolveRole(series: BookingSeries, userId: string): Promise<SeriesActorRole> {
+    if (series.customerId === userId) {
+      return "customer";
+    }
+
+    const [provider] = await db
+      .select({ userId: providersTable.userId })
+      .from(providersTable)
+      .where(eq(providersTable.id, series.providerId))
+      .limit(1);
+
+    if (provider?.userId === userId) {
+      return "provider";
+    }
+
+    throw new BookingSeriesError("You do not have access to this booking series", "FORBIDDEN");
+  }
+}
+
+// Export singleton instance
+export const bookingSeriesService = new BookingSeriesService();
@@ -0,0 +1,810 @@
+/**
+ * Cancellation Policy Service
+ * Provider-defined refund schedules for services, spaces and events. A
+ * policy is a list of tiers: cancelling at least `hoursBefore` the start
+ * refunds `refundPercent` of the booking total.
+ *
+ * A booking's policy is the one attached to its listing, else the
+ * provider's default policy, else the listing's own refund terms, else the
+ * platform schedule, copied onto the booking when it is made so later
+ * policy edits don't apply retroactively. Refunds reverse the platform fee
+ * and provider payout in proportion via calculateRefund. Collected tax sits
+ * with the provider's share, so the provider debit includes the refunded
+ * part of it.
+ */
+
+import { db } from "@/db/db";
+import {
+  bookingsTable,
+  transactionsTable,
+  providersTable,
+  servicesTable,
+  spacesTable,
+  eventsTable,
+  payoutSchedulesTable,
+  cancellationPoliciesTable,
+  type Booking,
+  type CancellationPolicy,
+  type CancellationTier,
+  type BookingCancellationPolicy,
+} from "@/db/schema";
+import { and, eq, ne } from "drizzle-orm";
+import type Stripe from "stripe";
+import { calculateRefund, type FeeBreakdown } from "@/lib/fees";
+import { toMinorUnits, fromMinorUnits, normalizeCurrency } from "@/lib/payments/currency";
+import { stripe, createRefundWithIdempotency } from "@/lib/stripe-enhanced";
+import { resolveTimezone, storedDate, zonedTimeToInstant } from "@/lib/availability/timezone";
+import {
+  bookingStateEngine,
+  BookingStates,
+  BookingTransitionError,
+  TransitionEvents,
+  toBookingState,
+  type BookingState,
+} from "@/lib/booking-state-machine";
+
+export type CancellationPreset = "flexible" | "moderate" | "strict" | "super_strict";
+export type ListingType = "service" | "space" | "event";
+
+export const MAX_POLICY_TIERS = 10;
+
+// Refund schedule used when neither the listing nor the provider defines one
+export const PLATFORM_DEFAULT_TIERS: CancellationTier[] = [
+  { hoursBefore: 48, refundPercent: 100 },
+  { hoursBefore: 24, refundPercent: 75 },
+  { hoursBefore: 12, refundPercent: 50 },
+  { hoursBefore: 6, refundPercent: 25 },
+];
+
+// Schedules behind the flexible/moderate/strict labels on events and spaces
+export const PRESET_TIERS: Record<CancellationPreset, CancellationTier[]> = {
+  flexible: [{ hoursBefore: 24, refundPercent: 100 }],
+  moderate: [
+    { hoursBefore: 120, refundPercent: 100 },
+    { hoursBefore: 24, refundPercent: 50 },
+  ],
+  strict: [
+    { hoursBefore: 168, refundPercent: 100 },
+    { hoursBefore: 48, refundPercent: 50 },
+  ],
+  super_strict: [
+    { hoursBefore: 720, refundPercent: 100 },
+    { hoursBefore: 336, refundPercent: 50 },
+  ],
+};
+
+// Providers cancelling always refund the customer in full
+const PROVIDER_CANCELLATION_TIERS: CancellationTier[] = [{ hoursBefore: 0, refundPercent: 100 }];
+
+// States a party can still cancel from
+export const CANCELLABLE_STATES: BookingState[] = [
+  BookingStates.HOLD,
+  BookingStates.PENDING_PROVIDER,
+  BookingStates.CONFIRMED,
+  BookingStates.IN_PROGRESS, // Allow cancellation even during service
+];
+
+// Payouts not yet transferred; their amounts can still be reduced
+const ADJUSTABLE_PAYOUT_STATUSES = ["scheduled", "failed"];
+
+export interface RefundTerms {
+  fullRefundHours?: number;
+  partialRefundHours?: number;
+  partialRefundPercent?: number;
+}
+
+export interface ResolvedCancellationPolicy {
+  source: "listing" | "provider_default" | "listing_terms" | "platform_default" | "provider_cancellation";
+  policyId: string | null;
+  name: string;
+  tiers: CancellationTier[];
+}
+
+// Listing a booking is made for; one of the listing ids is set
+export type ListingRef = Pick<Booking, "providerId"> & Partial<Pick<Booking, "serviceId" | "spaceId" | "eventId">>;
+
+export interface RefundQuote {
+  hoursUntilStart: number;
+  refundPercent: number;
+  refundAmount: number; // Customer refund, dollars
+  cancellationFee: number;
+  platformFeeReversal: number;
+  providerDebit: number; // Includes taxReversal
+  taxReversal: number;
+  tier: CancellationTier | null; // Tier that applied, null when nothing is refunded
+}
+
+export interface CancellationPreview {
+  canCancel: boolean;
+  reason?: string; // Why the booking cannot be cancelled here
+  currentState: BookingState;
+  cancelledBy: "customer" | "provider";
+  providerName: string;
+  startsAt: Date;
+  timezone: string;
+  policy: ResolvedCancellationPolicy;
+  quote: RefundQuote;
+  booking: Booking;
+}
+
+export interface CancellationRefundResult {
+  status: "none" | "processed" | "pending_manual";
+  refund?: Stripe.Refund;
+  transferReversalId?: string;
+}
+
+export interface PolicyInput {
+  name: string;
+  description?: string | null;
+  tiers: CancellationTier[];
+  isDefault?: boolean;
+}
+
+export type CancellationPolicyErrorCode =
+  | "NOT_FOUND"
+  | "FORBIDDEN"
+  | "INVALID_TIERS";
+
+const ERROR_STATUS: Record<CancellationPolicyErrorCode, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  INVALID_TIERS: 422,
+};
+
+export class CancellationPolicyError extends Error {
+  constructor(
+    message: string,
+    public code: CancellationPolicyErrorCode
+  ) {
+    super(message);
+    this.name = 'CancellationPolicyError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+/**
+ * Validate tiers and sort them from the earliest cancellation to the latest
+ */
+export function normalizeTiers(tiers: CancellationTier[]): CancellationTier[] {
+  if (tiers.length === 0 || tiers.length > MAX_POLICY_TIERS) {
+    throw new CancellationPolicyError(`A policy needs between 1 and ${MAX_POLICY_TIERS} tiers`, "INVALID_TIERS");
+  }
+
+  const sorted = [...tiers].sort((a, b) => b.hoursBefore - a.hoursBefore);
+
+  for (let i = 0; i < sorted.length; i++) {
+    const tier = sorted[i];
+    if (!Number.isInteger(tier.hoursBefore) || tier.hoursBefore < 0) {
+      throw new CancellationPolicyError("hoursBefore must be a whole number of hours", "INVALID_TIERS");
+    }
+    if (tier.refundPercent < 0 || tier.refundPercent > 100) {
+      throw new CancellationPolicyError("refundPercent must be between 0 and 100", "INVALID_TIERS");
+    }
+    if (i > 0 && sorted[i - 1].hoursBefore === tier.hoursBefore) {
+      throw new CancellationPolicyError(`Two tiers start ${tier.hoursBefore} hours before`, "INVALID_TIERS");
+    }
+    // Cancelling later must never refund more than cancelling earlier
+    if (i > 0 && sorted[i - 1].refundPercent < tier.refundPercent) {
+      throw new CancellationPolicyError("Refunds must not grow closer to the start", "INVALID_TIERS");
+    }
+  }
+
+  return sorted.map(t => ({ hoursBefore: t.hoursBefore, refundPercent: t.refundPercent }));
+}
+
+/**
+ * Tiers for the refund terms events, spaces and services carry on their own rows
+ */
+export function tiersFromRefundTerms(
+  preset: CancellationPreset,
+  terms?: RefundTerms | null
+): CancellationTier[] {
+  if (terms?.fullRefundHours === undefined) {
+    return PRESET_TIERS[preset];
+  }
+
+  const tiers: CancellationTier[] = [{ hoursBefore: terms.fullRefundHours, refundPercent: 100 }];
+  if (
+    terms.partialRefundHours !== undefined &&
+    terms.partialRefundHours < terms.fullRefundHours &&
+    (terms.partialRefundPercent ?? 0) > 0
+  ) {
+    tiers.push({ hoursBefore: terms.partialRefundHours, refundPercent: terms.partialRefundPercent! });
+  }
+
+  return tiers;
+}
+
+/**
+ * Tier that applies when cancelling `hoursUntilStart` before the start
+ */
+export function tierAt(tiers: CancellationTier[], hoursUntilStart: number): CancellationTier | null {
+  const sorted = [...tiers].sort((a, b) => b.hoursBefore - a.hoursBefore);
+  return sorted.find(t => hoursUntilStart >= t.hoursBefore) || null;
+}
+
+/**
+ * Refund a customer gets for cancelling at `now`, with the matching
+ * platform fee and provider payout reversal
+ */
+export function quoteRefund(
+  tiers: CancellationTier[],
+  startsAt: Date,
+  now: Date,
+  amounts: { totalAmount: number; platformFee: number; providerPayout: number; taxAmount?: number; currency?: string }
+): RefundQuote {
+  const hoursUntilStart = Math.max(0, (startsAt.getTime() - now.getTime()) / (1000 * 60 * 60));
+  const tier = tierAt(tiers, hoursUntilStart);
+  const refundPercent = tier?.refundPercent ?? 0;
+  const refundAmount = Math.round(amounts.totalAmount * refundPercent) / 100;
+
+  if (refundAmount <= 0) {
+    return {
+      hoursUntilStart,
+      refundPercent: 0,
+      refundAmount: 0,
+      cancellationFee: amounts.totalAmount,
+      platformFeeReversal: 0,
+      providerDebit: 0,
+      taxReversal: 0,
+      tier: null,
+    };
+  }
+
+  const taxAmount = amounts.taxAmount ?? 0;
+  const baseAmount = amounts.platformFee + amounts.providerPayout;
+  const fees: FeeBreakdown = {
+    baseAmount,
+    platformFee: amounts.platformFee,
+    guestSurcharge: Math.max(0, Math.round((amounts.totalAmount - baseAmount - taxAmount) * 100) / 100),
+    totalAmount: amounts.totalAmount,
+    providerPayout: amounts.providerPayout + taxAmount,
+    currency: normalizeCurrency(amounts.currency),
+  };
+  const reversal = calculateRefund(fees, refundAmount, refundPercent < 100);
+  const taxReversal = refundPercent < 100
+    ? Math.round(taxAmount * (reversal.customerRefund / amounts.totalAmount) * 100) / 100
+    : taxAmount;
+
+  return {
+    hoursUntilStart,
+    refundPercent,
+    refundAmount: reversal.customerRefund,
+    cancellationFee: Math.round((amounts.totalAmount - reversal.customerRefund) * 100) / 100,
+    platformFeeReversal: reversal.platformFeeReversal,
+    providerDebit: reversal.providerDebit,
+    taxReversal,
+    tier,
+  };
+}
+
+/**
+ * Main cancellation policy class
+ */
+export class CancellationPolicyService {
+  /**
+   * Policies owned by the signed-in provider
+   */
+  async listPolicies(userId: string): Promise<CancellationPolicy[]> {
+    const providerId = await this.providerIdForUser(userId);
+
+    return await db
+      .select()
+      .from(cancellationPoliciesTable)
+      .where(eq(cancellationPoliciesTable.providerId, providerId))
+      .orderBy(cancellationPoliciesTable.createdAt);
+  }
+
+  async createPolicy(userId: string, input: PolicyInput): Promise<CancellationPolicy> {
+    const providerId = await this.providerIdForUser(userId);
+    const tiers = normalizeTiers(input.tiers);
+
+    return await db.transaction(async (tx) => {
+      if (input.isDefault) {
+        await tx
+          .update(cancellationPoliciesTable)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(eq(cancellationPoliciesTable.providerId, providerId));
+      }
+
+      const [policy] = await tx
+        .insert(cancellationPoliciesTable)
+        .values({
+          providerId,
+          name: input.name,
+          description: input.description,
+          tiers,
+          isDefault: input.isDefault ?? false,
+        })
+        .returning();
+
+      return policy;
+    });
+  }
+
+  async updatePolicy(userId: string, policyId: string, input: Partial<PolicyInput>): Promise<CancellationPolicy> {
+    const policy = await this.loadOwnPolicy(userId, policyId);
+    const tiers = input.tiers ? normalizeTiers(input.tiers) : undefined;
+
+    return await db.transaction(async (tx) => {
+      if (input.isDefault) {
+        await tx
+          .update(cancellationPoliciesTable)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(
+            and(
+              eq(cancellationPoliciesTable.providerId, policy.providerId),
+              ne(cancellationPoliciesTable.id, policy.id)
+            )
+          );
+      }
+
+      const [updated] = await tx
+        .update(cancellationPoliciesTable)
+        .set({
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.description !== undefined && { description: input.description }),
+          ...(tiers && { tiers }),
+          ...(input.isDefault !== undefined && { isDefault: input.isDefault }),
+          updatedAt: new Date(),
+        })
+        .where(eq(cancellationPoliciesTable.id, policy.id))
+        .returning();
+
+      return updated;
+    });
+  }
+
+  /**
+   * Listings using the policy fall back to the provider default
+   */
+  async deletePolicy(userId: string, policyId: string): Promise<void> {
+    const policy = await this.loadOwnPolicy(userId, policyId);
+
+    await db
+      .delete(cancellationPoliciesTable)
+      .where(eq(cancellationPoliciesTable.id, policy.id));
+  }
+
+  /**
+   * Attach a policy to one of the provider's listings, or detach with null
+   */
+  async assignPolicy(
+    userId: string,
+    listing: { type: ListingType; id: string },
+    policyId: string | null
+  ): Promise<void> {
+    const providerId = await this.providerIdForUser(userId);
+    if (policyId) {
+      await this.loadOwnPolicy(userId, policyId);
+    }
+
+    const changes = { cancellationPolicyId: policyId, updatedAt: new Date() };
+    let updated: { id: string }[];
+
+    switch (listing.type) {
+      case "service":
+        updated = await db
+          .update(servicesTable)
+          .set(changes)
+          .where(and(eq(servicesTable.id, listing.id), eq(servicesTable.providerId, providerId)))
+          .returning({ id: servicesTable.id });
+        break;
+      case "space":
+        updated = await db
+          .update(spacesTable)
+          .set(changes)
+          .where(and(eq(spacesTable.id, listing.id), eq(spacesTable.providerId, providerId)))
+          .returning({ id: spacesTable.id });
+        break;
+      case "event":
+        updated = await db
+          .update(eventsTable)
+          .set(changes)
+          .where(and(eq(eventsTable.id, listing.id), eq(eventsTable.providerId, providerId)))
+          .returning({ id: eventsTable.id });
+        break;
+    }
+
+    if (updated.length === 0) {
+      throw new CancellationPolicyError(`${listing.type} not found`, "NOT_FOUND");
+    }
+  }
+
+  /**
+   * Policy that governs refunds for a booking
+   * Bookings carry the policy in force when they were made; those from
+   * before that copy was kept resolve against the listing as it is now.
+   */
+  async resolvePolicy(booking: Booking): Promise<ResolvedCancellationPolicy> {
+    return booking.cancellationPolicy || (await this.policyForListing(booking));
+  }
+
+  /**
+   * Policy a new booking of a listing is made under, stored on the booking
+   */
+  async policyForListing(listingRef: ListingRef): Promise<BookingCancellationPolicy> {
+    const listing = await this.loadListingTerms(listingRef);
+
+    if (listing?.cancellationPolicyId) {
+      const [policy] = await db
+        .select()
+        .from(cancellationPoliciesTable)
+        .where(eq(cancellationPoliciesTable.id, listing.cancellationPolicyId))
+        .limit(1);
+
+      if (policy) {
+        return { source: "listing", policyId: policy.id, name: policy.name, tiers: policy.tiers };
+      }
+    }
+
+    const [providerDefault] = await db
+      .select()
+      .from(cancellationPoliciesTable)
+      .where(
+        and(
+          eq(cancellationPoliciesTable.providerId, listingRef.providerId),
+          eq(cancellationPoliciesTable.isDefault, true)
+        )
+      )
+      .limit(1);
+
+    if (providerDefault) {
+      return {
+        source: "provider_default",
+        policyId: providerDefault.id,
+        name: providerDefault.name,
+        tiers: providerDefault.tiers,
+      };
+    }
+
+    if (listing?.preset) {
+      return {
+        source: "listing_terms",
+        policyId: null,
+        name: listing.preset,
+        tiers: tiersFromRefundTerms(listing.preset, listing.terms),
+      };
+    }
+
+    return { source: "platform_default", policyId: null, name: "standard", tiers: PLATFORM_DEFAULT_TIERS };
+  }
+
+  /**
+   * Refund the signed-in party would cause by cancelling right now
+   */
+  async preview(bookingId: string, userId: string, now: Date = new Date()): Promise<CancellationPreview> {
+    const [row] = await db
+      .select({ booking: bookingsTable, provider: providersTable })
+      .from(bookingsTable)
+      .innerJoin(providersTable, eq(bookingsTable.providerId, providersTable.id))
+      .where(eq(bookingsTable.id, bookingId))
+      .limit(1);
+
+    if (!row) {
+      throw new CancellationPolicyError("Booking not found", "NOT_FOUND");
+    }
+
+    const isCustomer = row.booking.customerId === userId;
+    if (!isCustomer && row.provider.userId !== userId) {
+      throw new CancellationPolicyError("Not a party to this booking", "FORBIDDEN");
+    }
+
+    const booking = row.booking;
+    const timezone = resolveTimezone(row.provider.timezone);
+    const startsAt = zonedTimeToInstant(storedDate(booking.bookingDate), booking.startTime, timezone).instant;
+    const currentState = toBookingState(booking.status);
+
+    const policy = isCustomer
+      ? await this.resolvePolicy(booking)
+      : {
+          source: "provider_cancellation" as const,
+          policyId: null,
+          name: "provider cancellation",
+          tiers: PROVIDER_CANCELLATION_TIERS,
+        };
+
+    const quote = quoteRefund(policy.tiers, startsAt, now < startsAt ? now : startsAt, {
+      totalAmount: parseFloat(booking.totalAmount),
+      platformFee: parseFloat(booking.platformFee),
+      providerPayout: parseFloat(booking.providerPayout),
+      taxAmount: parseFloat(booking.taxAmount),
+      currency: booking.currency,
+    });
+
+    let reason: string | undefined;
+    if (!CANCELLABLE_STATES.includes(currentState) || (!isCustomer && currentState === BookingStates.HOLD)) {
+      reason = `Booking is in ${currentState} state and cannot be cancelled`;
+    } else if (booking.seriesId) {
+      // The series keeps its occurrence rows in step and stops the charge
+      reason = "Recurring occurrences are cancelled from their series";
+    }
+
+    return {
+      canCancel: !reason,
+      reason,
+      currentState,
+      cancelledBy: isCustomer ? "customer" : "provider",
+      providerName: row.provider.displayName,
+      startsAt,
+      timezone,
+      policy,
+      quote,
+      booking,
+    };
+  }
+
+  /**
+   * Refund a cancelled booking per its quote and reverse fees and payout
+   * Stripe failures are logged and reported as pending manual processing;
+   * the cancellation itself stands.
+   */
+  async refundCancellation(
+    booking: Booking,
+    quote: RefundQuote,
+    context: { reason: string; cancelledBy: "customer" | "provider"; policy: ResolvedCancellationPolicy }
+  ): Promise<CancellationRefundResult> {
+    if (!booking.stripePaymentIntentId || quote.refundAmount <= 0) {
+      return { status: "none" };
+    }
+
+    let refund: Stripe.Refund;
+    try {
+      refund = await createRefundWithIdempotency({
+        paymentIntentId: booking.stripePaymentIntentId,
+        amount: toMinorUnits(quote.refundAmount, booking.currency),
+        reason: "requested_by_customer",
+        bookingId: booking.id,
+        metadata: {
+          bookingId: booking.id,
+          type: "cancellation",
+          cancelledBy: context.cancelledBy,
+          cancellationPolicy: context.policy.policyId || context.policy.source,
+          hoursBeforeBooking: Math.round(quote.hoursUntilStart).toString(),
+          refundPercentage: quote.refundPercent.toString(),
+        },
+        refundApplicationFee: true,
+      });
+    } catch (error) {
+      console.error(`Error refunding cancelled booking ${booking.id}:`, error);
+      return { status: "pending_manual" };
+    }
+
+    const isFull = quote.refundPercent === 100;
+    const completedPayout = await db.transaction(async (tx) => {
+      await tx
+        .update(bookingsTable)
+        .set({
+          platformFee: Math.max(0, parseFloat(booking.platformFee) - quote.platformFeeReversal).toFixed(2),
+          // Tax refunds are reported from the refunded amount, not the booking's taxAmount
+          providerPayout: Math.max(0, parseFloat(booking.providerPayout) - (quote.providerDebit - quote.taxReversal)).toFixed(2),
+          updatedAt: new Date(),
+        })
+        .where(eq(bookingsTable.id, booking.id));
+
+      const [transaction] = await tx
+        .select({ refundAmount: transactionsTable.refundAmount })
+        .from(transactionsTable)
+        .where(eq(transactionsTable.bookingId, booking.id))
+        .limit(1);
+
+      if (transaction) {
+        const refunded = parseFloat(transaction.refundAmount || "0") + fromMinorUnits(refund.amount, refund.currency);
+        await tx
+          .update(transactionsTable)
+          .set({
+            stripeRefundId: refund.id,
+            refundAmount: refunded.toFixed(2),
+            ...(isFull && { status: "refunded" as const }),
+          })
+          .where(eq(transactionsTable.bookingId, booking.id));
+      }
+
+      const [payout] = await tx
+        .select()
+        .from(payoutSchedulesTable)
+        .where(
+          and(
+            eq(payoutSchedulesTable.bookingId, booking.id),
+            ne(payoutSchedulesTable.status, "cancelled")
+          )
+        )
+        .limit(1);
+
+      if (!payout) {
+        return null;
+      }
+
+      if (ADJUSTABLE_PAYOUT_STATUSES.includes(payout.status)) {
+        const netPayout = Math.max(0, parseFloat(payout.netPayout) - quote.providerDebit);
+        await tx
+          .update(payoutSchedulesTable)
+          .set(
+            isFull || netPayout === 0
+              ? { status: "cancelled", failureReason: `Booking cancelled and refunded: ${context.reason}` }
+              : {
+                  amount: Math.max(0, parseFloat(payout.amount) - quote.refundAmount).toFixed(2),
+                  platformFee: Math.max(0, parseFloat(payout.platformFee) - quote.platformFeeReversal).toFixed(2),
+                  netPayout: netPayout.toFixed(2),
+                }
+          )
+          .where(eq(payoutSchedulesTable.id, payout.id));
+        return null;
+      }
+
+      if (payout.status === "processing") {
+        console.warn(`Payout ${payout.id} for refunded booking ${booking.id} is processing; reverse it manually`);
+      }
+
+      return payout.status === "completed" ? payout : null;
+    });
+
+    // The provider was already paid; pull their share of the refund back
+    let transferReversalId: string | undefined;
+    if (completedPayout?.stripeTransferId && quote.providerDebit > 0) {
+      try {
+        const reversal = await stripe.transfers.createReversal(
+          completedPayout.stripeTransferId,
+          {
+            amount: toMinorUnits(quote.providerDebit, booking.currency),
+            metadata: { bookingId: booking.id, refundId: refund.id },
+          },
+          { idempotencyKey: `cancellation-reversal-${refund.id}` }
+        );
+        transferReversalId = reversal.id;
+      } catch (error) {
+        console.error(`Error reversing payout transfer for booking ${booking.id}:`, error);
+      }
+    }
+
+    try {
+      await bookingStateEngine.dispatch(
+        booking.id,
+        isFull ? TransitionEvents.REFUND_FULL : TransitionEvents.REFUND_PARTIAL,
+        { type: "system", id: "system" },
+        {
+          reason: `Refund processed: ${context.reason}`,
+          metadata: { refundId: refund.id, refundAmount: quote.refundAmount },
+        }
+      );
+    } catch (error) {
+      if (!(error instanceof BookingTransitionError)) {
+        throw error;
+      }
+      console.error(`Refunded booking ${booking.id} could not move to a refunded state:`, error);
+    }
+
+    return { status: "processed", refund, transferReversalId };
+  }
+
+  /**
+   * Refund a booking in full when the provider turned it down or let it lapse
+   * unanswered; the customer was charged up front, so this holds even once
+   * the start time has passed
+   */
+  async refundInFull(booking: Booking, reason: string, now: Date = new Date()): Promise<CancellationRefundResult> {
+    const [provider] = await db
+      .select({ timezone: providersTable.timezone })
+      .from(providersTable)
+      .where(eq(providersTable.id, booking.providerId))
+      .limit(1);
+
+    const timezone = resolveTimezone(provider?.timezone);
+    const startsAt = zonedTimeToInstant(storedDate(booking.bookingDate), booking.startTime, timezone).instant;
+    const policy: ResolvedCancellationPolicy = {
+      source: "provider_cancellation",
+      policyId: null,
+      name: "provider cancellation",
+      tiers: PROVIDER_CANCELLATION_TIERS,
+    };
+
+    const quote = quoteRefund(policy.tiers, startsAt, now, {
+      totalAmount: parseFloat(booking.totalAmount),
+      platformFee: parseFloat(booking.platformFee),
+      providerPayout: parseFloat(booking.providerPayout),
+      taxAmount: parseFloat(booking.taxAmount),
+      currency: booking.currency,
+    });
+
+    return await this.refundCancellation(booking, quote, { reason, cancelledBy: "provider", policy });
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private async providerIdForUser(userId: string): Promise<string> {
+    const [provider] = await db
+      .select({ id: providersTable.id })
+      .from(providersTable)
+      .where(eq(providersTable.userId, userId))
+      .limit(1);
+
+    if (!provider) {
+      throw new CancellationPolicyError("Provider profile not found", "NOT_FOUND");
+    }
+
+    return provider.id;
+  }
+
+  private async loadOwnPolicy(userId: string, policyId: string): Promise<CancellationPolicy> {
+    const providerId = await this.providerIdForUser(userId);
+    const [policy] = await db
+      .select()
+      .from(cancellationPoliciesTable)
+      .where(eq(cancellationPoliciesTable.id, policyId))
+      .limit(1);
+
+    if (!policy) {
+      throw new CancellationPolicyError("Cancellation policy not found", "NOT_FOUND");
+    }
+    if (policy.providerId !== providerId) {
+      throw new CancellationPolicyError("Cancellation policy belongs to another provider", "FORBIDDEN");
+    }
+
+    return policy;
+  }
+
+  /**
+   * Attached policy and legacy refund terms of the booked listing
+   */
+  private async loadListingTerms(booking: ListingRef): Promise<{
+    cancellationPolicyId: string | null;
+    preset?: CancellationPreset;
+    terms?: RefundTerms | null;
+  } | null> {
+    if (booking.serviceId) {
+      const [service] = await db
+        .select({
+          cancellationPolicyId: servicesTable.cancellationPolicyId,
+          cancellationHours: servicesTable.cancellationHours,
+        })
+        .from(servicesTable)
+        .where(eq(servicesTable.id, booking.serviceId))
+        .limit(1);
+
+      // Services only carry a full-refund cutoff, the flexible schedule's shape
+      return service
+        ? {
+            cancellationPolicyId: service.cancellationPolicyId,
+            preset: "flexible",
+            terms: service.cancellationHours === null ? null : { fullRefundHours: service.cancellationHours },
+          }
+        : null;
+    }
+
+    if (booking.spaceId) {
+      const [space] = await db
+        .select({
+          cancellationPolicyId: spacesTable.cancellationPolicyId,
+          preset: spacesTable.cancellationPolicy,
+          terms: spacesTable.cancellationPolicyDetails,
+        })
+        .from(spacesTable)
+        .where(eq(spacesTable.id, booking.spaceId))
+        .limit(1);
+      return space || null;
+    }
+
+    if (booking.eventId) {
+      const [event] = await db
+        .select({
+          cancellationPolicyId: eventsTable.cancellationPolicyId,
+          preset: eventsTable.cancellationPolicy,
+          terms: eventsTable.refundPolicy,
+        })
+        .from(eventsTable)
+        .where(eq(eventsTable.id, booking.eventId))
+        .limit(1);
+      return event || null;
+    }
+
+    return null;
+  }
+}
+
+// Export singleton instance
+export const cancellationPolicyService = new CancellationPolicyService();
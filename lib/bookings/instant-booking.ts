@@ -0,0 +1,19 @@
+/**
+ * Instant Booking
+ * Picks the event that confirms a paid booking. Bookings confirm instantly
+ * unless the provider requires a minimum customer rating the customer does
+ * not meet, in which case they wait for the provider to accept. The payment
+ * is already captured by then, so a rejection or a lapsed request refunds
+ * it in full (cancellationPolicyService.refundInFull).
+ */
+
+import { TransitionEvents, type TransitionEvent } from "@/lib/booking-state-machine";
+import { reviewService } from "@/lib/reviews/review-service";
+
+/**
+ * State machine event for a booking whose payment just succeeded
+ */
+export async function paymentConfirmationEvent(bookingId: string): Promise<TransitionEvent> {
+  const instant = await reviewService.qualifiesForInstantBooking(bookingId);
+  return instant ? TransitionEvents.PAYMENT_CAPTURED : TransitionEvents.PAYMENT_AUTHORIZED;
+}
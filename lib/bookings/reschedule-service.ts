@@ -0,0 +1,878 @@
+/**
+ * Booking Reschedule Service
+ * Customer-initiated moves of a booking to another slot. The new slot is
+ * validated against SlotGenerator, the move must happen before the
+ * service's cancellation window closes, and services that require approval
+ * hold the request until the provider responds.
+ *
+ * If dynamic pricing quotes the new time differently, the PaymentIntent is
+ * updated before payment, or the difference is refunded or charged after it.
+ */
+
+import { db } from "@/db/db";
+import {
+  bookingsTable,
+  transactionsTable,
+  providersTable,
+  servicesTable,
+  spacesTable,
+  bookingStateTransitionsTable,
+  bookingRescheduleRequestsTable,
+  rescheduleRequestStatus,
+  type Booking,
+  type BookingRescheduleRequest,
+} from "@/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { slotGenerator, type AvailabilitySlot } from "@/lib/availability/slot-generator";
+import {
+  resolveTimezone,
+  localDayBounds,
+  storedDate,
+  zonedTimeToInstant,
+} from "@/lib/availability/timezone";
+import { calculateDynamicPrice } from "@/lib/pricing";
+import { calculateFees } from "@/lib/payments/fee-calculator";
+import { taxLocationForProvider, taxLocationForSpace, type TaxLocation } from "@/lib/payments/tax-engine";
+import { taxService } from "@/lib/payments/tax-service";
+import {
+  toMinorUnits,
+  fromMinorUnits,
+  minorToDecimalString,
+  minimumChargeMinor
+} from "@/lib/payments/currency";
+import { stripe, createRefundWithIdempotency } from "@/lib/stripe-enhanced";
+import { notificationService } from "@/lib/notifications/notification-service";
+import { waitlistService, targetFromBooking } from "@/lib/waitlist";
+import { BookingStates, toBookingState, type BookingState } from "@/lib/booking-state-machine";
+
+const DEFAULT_CANCELLATION_HOURS = 24;
+
+// States in which the booking has not started and can still move
+const RESCHEDULABLE_STATUSES: BookingState[] = [
+  BookingStates.PENDING_PROVIDER,
+  BookingStates.CONFIRMED,
+];
+
+// PaymentIntent states whose amount can still be changed in place
+const UPDATABLE_INTENT_STATUSES = ["requires_payment_method", "requires_confirmation", "requires_action"];
+
+export interface SlotRef {
+  date: string; // YYYY-MM-DD, provider-local
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+}
+
+export interface ReschedulePolicy {
+  canReschedule: boolean;
+  reason?: string;
+  deadline: Date;
+  cancellationHours: number;
+  requiresApproval: boolean;
+  timezone: string;
+  pendingRequest: BookingRescheduleRequest | null;
+}
+
+export interface PaymentAdjustment {
+  action: "none" | "updated" | "refunded" | "charged";
+  amountCents: number; // Absolute change in the customer total
+  stripeId?: string;
+}
+
+export interface RescheduleResult {
+  request: BookingRescheduleRequest;
+  booking?: Booking;
+  payment?: PaymentAdjustment;
+}
+
+export type RescheduleErrorCode =
+  | "NOT_FOUND"
+  | "FORBIDDEN"
+  | "INVALID_STATE"
+  | "DEADLINE_PASSED"
+  | "SLOT_UNAVAILABLE"
+  | "REQUEST_PENDING"
+  | "PAYMENT_REQUIRED"
+  | "PAYMENT_NOT_ADJUSTABLE";
+
+const ERROR_STATUS: Record<RescheduleErrorCode, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  INVALID_STATE: 409,
+  DEADLINE_PASSED: 422,
+  SLOT_UNAVAILABLE: 409,
+  REQUEST_PENDING: 409,
+  PAYMENT_REQUIRED: 402,
+  PAYMENT_NOT_ADJUSTABLE: 409,
+};
+
+export class RescheduleError extends Error {
+  constructor(
+    message: string,
+    public code: RescheduleErrorCode
+  ) {
+    super(message);
+    this.name = 'RescheduleError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+/**
+ * Latest instant a booking starting at `startsAt` can still be moved
+ */
+export function rescheduleDeadline(startsAt: Date, cancellationHours: number): Date {
+  return new Date(startsAt.getTime() - cancellationHours * 60 * 60 * 1000);
+}
+
+/**
+ * Re-price the booked service for a new time
+ * Only the dynamic (surge) component moves; the price the customer booked at
+ * is otherwise kept, so later base-price edits don't leak into a reschedule.
+ */
+export function repriceForMove(servicePrice: number, fromMultiplier = 1, toMultiplier = 1): number {
+  if (fromMultiplier === toMultiplier) {
+    return servicePrice;
+  }
+  return Math.round((servicePrice / fromMultiplier) * toMultiplier * 100) / 100;
+}
+
+/**
+ * Find the requested slot, counting the booking's own seat as free
+ * The booking being moved still occupies capacity at its current time, so a
+ * move to an overlapping slot on the same day would otherwise look full.
+ */
+export function findRescheduleSlot(
+  slots: AvailabilitySlot[],
+  target: { date: string; startTime: string },
+  current: { startsAt: Date; endsAt: Date }
+): AvailabilitySlot | null {
+  const slot = slots.find(s => s.date === target.date && s.startTime === target.startTime);
+  if (!slot) {
+    return null;
+  }
+
+  const overlapsCurrent = new Date(slot.startsAt) < current.endsAt && new Date(slot.endsAt) > current.startsAt;
+  const freeSeats = slot.remainingCapacity + (overlapsCurrent ? 1 : 0);
+
+  return freeSeats > 0 ? slot : null;
+}
+
+/**
+ * Main reschedule class
+ */
+export class RescheduleService {
+  /**
+   * Whether the customer can still move a booking, and on what terms
+   */
+  async getPolicy(bookingId: string, userId: string): Promise<ReschedulePolicy> {
+    const { booking, timezone, cancellationHours, requiresApproval } = await this.loadForCustomer(bookingId, userId);
+    const deadline = rescheduleDeadline(this.startsAt(booking, timezone), cancellationHours);
+    const pendingRequest = await this.getPendingRequest(bookingId);
+
+    let reason: string | undefined;
+    if (!RESCHEDULABLE_STATUSES.includes(toBookingState(booking.status))) {
+      reason = `Booking is ${booking.status}`;
+    } else if (booking.seriesId) {
+      reason = "Recurring occurrences are rescheduled from their series";
+    } else if (deadline <= new Date()) {
+      reason = `Bookings can only be rescheduled up to ${cancellationHours} hours before they start`;
+    } else if (pendingRequest) {
+      reason = "A reschedule request is already awaiting the provider";
+    }
+
+    return {
+      canReschedule: !reason,
+      reason,
+      deadline,
+      cancellationHours,
+      requiresApproval,
+      timezone,
+      pendingRequest,
+    };
+  }
+
+  /**
+   * Move a booking, or ask the provider to when the service requires approval
+   */
+  async requestReschedule(
+    bookingId: string,
+    userId: string,
+    target: { date: string; startTime: string; reason?: string }
+  ): Promise<RescheduleResult> {
+    const context = await this.loadForCustomer(bookingId, userId);
+    const { booking, timezone, cancellationHours, requiresApproval } = context;
+
+    if (!RESCHEDULABLE_STATUSES.includes(toBookingState(booking.status))) {
+      throw new RescheduleError(`Booking is ${booking.status} and cannot be rescheduled`, "INVALID_STATE");
+    }
+    if (booking.seriesId) {
+      throw new RescheduleError("Reschedule recurring occurrences from their series", "INVALID_STATE");
+    }
+    if (rescheduleDeadline(this.startsAt(booking, timezone), cancellationHours) <= new Date()) {
+      throw new RescheduleError(
+        `Bookings can only be rescheduled up to ${cancellationHours} hours before they start`,
+        "DEADLINE_PASSED"
+      );
+    }
+    if (await this.getPendingRequest(bookingId)) {
+      throw new RescheduleError("A reschedule request is already awaiting the provider", "REQUEST_PENDING");
+    }
+
+    const slot = await this.validateSlot(booking, timezone, target);
+    const newPrice = await this.quotePrice(booking, timezone, slot);
+
+    const [request] = await db
+      .insert(bookingRescheduleRequestsTable)
+      .values({
+        bookingId,
+        requestedBy: userId,
+        previousDate: booking.bookingDate,
+        previousStartTime: booking.startTime,
+        previousEndTime: booking.endTime,
+        requestedDate: new Date(`${slot.date}T00:00:00Z`),
+        requestedStartTime: slot.startTime,
+        requestedEndTime: slot.endTime,
+        previousPrice: booking.servicePrice,
+        newPrice: newPrice.toFixed(2),
+        requiresApproval,
+        reason: target.reason,
+      })
+      .returning();
+
+    if (requiresApproval) {
+      await notificationService.sendRescheduleRequestedNotification({
+        bookingId,
+        requestId: request.id,
+        providerId: booking.providerId,
+        serviceName: booking.serviceName,
+        previousDate: storedDate(booking.bookingDate),
+        previousStartTime: booking.startTime,
+        requestedDate: slot.date,
+        requestedStartTime: slot.startTime,
+        reason: target.reason,
+      });
+
+      return { request };
+    }
+
+    try {
+      return await this.apply(request, booking, timezone, userId);
+    } catch (error) {
+      // Nothing moved and any payment change was reversed; drop the request so the customer can try another slot
+      await db
+        .delete(bookingRescheduleRequestsTable)
+        .where(eq(bookingRescheduleRequestsTable.id, request.id));
+      throw error;
+    }
+  }
+
+  /**
+   * Provider approves or declines a pending request
+   */
+  async respond(
+    bookingId: string,
+    userId: string,
+    decision: { approve: boolean; note?: string }
+  ): Promise<RescheduleResult> {
+    const [row] = await db
+      .select({ booking: bookingsTable, provider: providersTable })
+      .from(bookingsTable)
+      .innerJoin(providersTable, eq(bookingsTable.providerId, providersTable.id))
+      .where(eq(bookingsTable.id, bookingId))
+      .limit(1);
+
+    if (!row) {
+      throw new RescheduleError("Booking not found", "NOT_FOUND");
+    }
+    if (row.provider.userId !== userId) {
+      throw new RescheduleError("Only the provider can respond to this request", "FORBIDDEN");
+    }
+
+    const request = await this.getPendingRequest(bookingId);
+    if (!request) {
+      throw new RescheduleError("No reschedule request is awaiting a response", "NOT_FOUND");
+    }
+
+    // The booking may have been cancelled or refunded while the request waited
+    if (!RESCHEDULABLE_STATUSES.includes(toBookingState(row.booking.status))) {
+      await this.closeRequest(request.id, rescheduleRequestStatus.WITHDRAWN, userId, `Booking is ${row.booking.status}`);
+      throw new RescheduleError(`Booking is ${row.booking.status} and cannot be rescheduled`, "INVALID_STATE");
+    }
+
+    if (!decision.approve) {
+      const declined = await this.closeRequest(request.id, rescheduleRequestStatus.DECLINED, userId, decision.note);
+
+      await notificationService.sendRescheduleDeclinedNotification({
+        bookingId,
+        customerId: row.booking.customerId,
+        serviceName: row.booking.serviceName,
+        requestedDate: storedDate(request.requestedDate),
+        requestedStartTime: request.requestedStartTime,
+        note: decision.note,
+      });
+
+      return { request: declined };
+    }
+
+    const timezone = resolveTimezone(row.provider.timezone);
+
+    return await this.apply(request, row.booking, timezone, userId, decision.note);
+  }
+
+  /**
+   * Customer withdraws a request that is still awaiting the provider
+   */
+  async withdraw(bookingId: string, userId: string): Promise<BookingRescheduleRequest> {
+    await this.loadForCustomer(bookingId, userId);
+
+    const request = await this.getPendingRequest(bookingId);
+    if (!request) {
+      throw new RescheduleError("No reschedule request is awaiting a response", "NOT_FOUND");
+    }
+
+    return await this.closeRequest(request.id, rescheduleRequestStatus.WITHDRAWN, userId);
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  /**
+   * Where the booking is taxed: the space's address, otherwise the provider's location
+   */
+  private async taxLocationFor(booking: Booking): Promise<TaxLocation | null> {
+    if (booking.spaceId) {
+      const [space] = await db
+        .select({ country: spacesTable.country, state: spacesTable.state, zipCode: spacesTable.zipCode })
+        .from(spacesTable)
+        .where(eq(spacesTable.id, booking.spaceId))
+        .limit(1);
+      return space ? taxLocationForSpace(space) : null;
+    }
+
+    const [provider] = await db
+      .select({
+        locationCountry: providersTable.locationCountry,
+        locationState: providersTable.locationState,
+        locationZipCode: providersTable.locationZipCode,
+      })
+      .from(providersTable)
+      .where(eq(providersTable.id, booking.providerId))
+      .limit(1);
+    return provider ? taxLocationForProvider(provider) : null;
+  }
+
+  /**
+   * Move the booking, settle any price difference and record the transition
+   * The booking row stays locked while the slot is re-validated and Stripe is
+   * called last, so a failed write never leaves money moved. If the commit
+   * itself fails after Stripe settled, the adjustment is reversed.
+   */
+  private async apply(
+    request: BookingRescheduleRequest,
+    booking: Booking,
+    timezone: string,
+    triggeredBy: string,
+    note?: string
+  ): Promise<RescheduleResult> {
+    const requestedDate = storedDate(request.requestedDate);
+    const newPrice = request.requiresApproval
+      ? await this.quotePrice(booking, timezone, { date: requestedDate, startTime: request.requestedStartTime })
+      : parseFloat(request.newPrice);
+
+    const fees = calculateFees({
+      baseAmountCents: toMinorUnits(newPrice, booking.currency),
+      isGuest: booking.isGuestBooking,
+      currency: booking.currency,
+      taxLocation: await this.taxLocationFor(booking),
+    });
+
+    const to = { date: requestedDate, startTime: request.requestedStartTime, endTime: request.requestedEndTime };
+    let settled = null as { booking: Booking; payment: PaymentAdjustment; totalDeltaCents: number } | null;
+
+    let moved: {
+      previousBooking: Booking;
+      updatedBooking: Booking;
+      appliedRequest: BookingRescheduleRequest;
+      payment: PaymentAdjustment;
+      totalDeltaCents: number;
+    };
+    try {
+      moved = await db.transaction(async (tx) => {
+        const [current] = await tx
+          .select()
+          .from(bookingsTable)
+          .where(eq(bookingsTable.id, booking.id))
+          .limit(1)
+          .for("update");
+
+        if (!current || !RESCHEDULABLE_STATUSES.includes(toBookingState(current.status))) {
+          throw new RescheduleError(`Booking is ${current?.status ?? "missing"} and cannot be rescheduled`, "INVALID_STATE");
+        }
+
+        const [pending] = await tx
+          .select({ id: bookingRescheduleRequestsTable.id })
+          .from(bookingRescheduleRequestsTable)
+          .where(
+            and(
+              eq(bookingRescheduleRequestsTable.id, request.id),
+              eq(bookingRescheduleRequestsTable.status, rescheduleRequestStatus.PENDING)
+            )
+          )
+          .limit(1)
+          .for("update");
+
+        if (!pending) {
+          throw new RescheduleError("The reschedule request is no longer pending", "INVALID_STATE");
+        }
+
+        // The slot may have been taken since it was requested
+        await this.validateSlot(current, timezone, { date: requestedDate, startTime: request.requestedStartTime });
+
+        const totalDeltaCents = fees.customerTotalCents - toMinorUnits(current.totalAmount, current.currency);
+        const from = { date: storedDate(current.bookingDate), startTime: current.startTime, endTime: current.endTime };
+
+        const [updated] = await tx
+          .update(bookingsTable)
+          .set({
+            bookingDate: request.requestedDate,
+            startTime: request.requestedStartTime,
+            endTime: request.requestedEndTime,
+            servicePrice: newPrice.toFixed(2),
+            totalAmount: minorToDecimalString(fees.customerTotalCents, current.currency),
+            platformFee: minorToDecimalString(fees.platformTotalRevenueCents, current.currency),
+            providerPayout: minorToDecimalString(fees.providerPayoutCents, current.currency),
+            taxAmount: minorToDecimalString(fees.taxCents, current.currency),
+            updatedAt: new Date(),
+          })
+          .where(eq(bookingsTable.id, current.id))
+          .returning();
+
+        await taxService.recordBookingTax(current, fees.taxLines, tx);
+
+        const [applied] = await tx
+          .update(bookingRescheduleRequestsTable)
+          .set({
+            status: rescheduleRequestStatus.APPLIED,
+            newPrice: newPrice.toFixed(2),
+            responseNote: note,
+            respondedBy: request.requiresApproval ? triggeredBy : null,
+            respondedAt: request.requiresApproval ? new Date() : null,
+            appliedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(bookingRescheduleRequestsTable.id, request.id))
+          .returning();
+
+        // Status is unchanged; the row keeps the move in the booking's audit trail
+        await tx.insert(bookingStateTransitionsTable).values({
+          bookingId: current.id,
+          fromStatus: current.status,
+          toStatus: current.status as typeof bookingStateTransitionsTable.$inferInsert.toStatus,
+          triggeredBy,
+          triggerReason: "rescheduled",
+          metadata: {
+            rescheduleRequestId: request.id,
+            rescheduledFrom: from,
+            rescheduledTo: to,
+            priceDifference: fromMinorUnits(totalDeltaCents, current.currency),
+            notes: request.reason || undefined,
+          },
+        });
+
+        const payment = await this.adjustPayment(current, request, totalDeltaCents, fees.platformTotalRevenueCents);
+        settled = { booking: current, payment, totalDeltaCents };
+        await this.recordAdjustment(current, payment, fees.platformTotalRevenueCents, tx);
+
+        return { previousBooking: current, updatedBooking: updated, appliedRequest: applied, payment, totalDeltaCents };
+      });
+    } catch (error) {
+      if (settled && settled.payment.action !== "none") {
+        await this.reverseAdjustment(settled.booking, request, settled.payment, settled.totalDeltaCents);
+      }
+      throw error;
+    }
+
+    const { previousBooking, updatedBooking, appliedRequest, payment, totalDeltaCents } = moved;
+    const from = { date: storedDate(previousBooking.bookingDate), startTime: previousBooking.startTime };
+
+    try {
+      await notificationService.sendBookingRescheduledNotification({
+        bookingId: booking.id,
+        customerId: booking.customerId,
+        guestEmail: booking.guestEmail || undefined,
+        providerId: booking.providerId,
+        serviceName: booking.serviceName,
+        previousDate: from.date,
+        previousStartTime: from.startTime,
+        bookingDate: to.date,
+        startTime: to.startTime,
+        priceDifference: fromMinorUnits(totalDeltaCents, booking.currency),
+      });
+    } catch (error) {
+      console.error(`Error sending reschedule notification for booking ${booking.id}:`, error);
+    }
+
+    // The old slot is free now; offer it to anyone waiting for it
+    try {
+      await waitlistService.offerNext(targetFromBooking(previousBooking), booking.id);
+    } catch (error) {
+      console.error(`Error offering rescheduled slot of booking ${booking.id} to waitlist:`, error);
+    }
+
+    return { request: appliedRequest, booking: updatedBooking, payment };
+  }
+
+  /**
+   * Bring the payment in line with the new total
+   * Unconfirmed intents are updated in place; paid bookings are refunded the
+   * difference or charged it off-session on the original payment method.
+   * Only Stripe is touched; recordAdjustment writes the matching ledger rows.
+   */
+  private async adjustPayment(
+    booking: Booking,
+    request: BookingRescheduleRequest,
+    totalDeltaCents: number,
+    platformFeeCents: number
+  ): Promise<PaymentAdjustment> {
+    if (totalDeltaCents === 0 || !booking.stripePaymentIntentId) {
+      return { action: "none", amountCents: 0 };
+    }
+
+    const paymentIntent = await stripe.paymentIntents.retrieve(booking.stripePaymentIntentId);
+
+    if (UPDATABLE_INTENT_STATUSES.includes(paymentIntent.status)) {
+      const updated = await stripe.paymentIntents.update(paymentIntent.id, {
+        amount: paymentIntent.amount + totalDeltaCents,
+        ...(paymentIntent.application_fee_amount !== null
+          ? { application_fee_amount: platformFeeCents }
+          : {}),
+        metadata: { ...paymentIntent.metadata, rescheduleRequestId: request.id },
+      });
+
+      return { action: "updated", amountCents: Math.abs(totalDeltaCents), stripeId: updated.id };
+    }
+
+    if (paymentIntent.status !== "succeeded") {
+      throw new RescheduleError(
+        `Payment is ${paymentIntent.status} and cannot be adjusted for a price change`,
+        "PAYMENT_NOT_ADJUSTABLE"
+      );
+    }
+
+    if (totalDeltaCents < 0) {
+      const refund = await createRefundWithIdempotency({
+        paymentIntentId: paymentIntent.id,
+        amount: -totalDeltaCents,
+        reason: "requested_by_customer",
+        bookingId: booking.id,
+        metadata: {
+          bookingId: booking.id,
+          rescheduleRequestId: request.id,
+          type: "reschedule_price_difference",
+        },
+        refundApplicationFee: true,
+      });
+
+      return { action: "refunded", amountCents: refund.amount, stripeId: refund.id };
+    }
+
+    const customer = typeof paymentIntent.customer === "string" ? paymentIntent.customer : paymentIntent.customer?.id;
+    const paymentMethod = typeof paymentIntent.payment_method === "string"
+      ? paymentIntent.payment_method
+      : paymentIntent.payment_method?.id;
+
+    if (!customer || !paymentMethod || totalDeltaCents < minimumChargeMinor(booking.currency)) {
+      throw new RescheduleError(
+        "The new time costs more and the original payment method cannot be charged again",
+        "PAYMENT_REQUIRED"
+      );
+    }
+
+    const destination = typeof paymentIntent.transfer_data?.destination === "string"
+      ? paymentIntent.transfer_data.destination
+      : paymentIntent.transfer_data?.destination?.id;
+    const platformDeltaCents = platformFeeCents - toMinorUnits(booking.platformFee, booking.currency);
+
+    try {
+      const supplement = await stripe.paymentIntents.create(
+        {
+          amount: totalDeltaCents,
+          currency: paymentIntent.currency,
+          customer,
+          payment_method: paymentMethod,
+          off_session: true,
+          confirm: true,
+          ...(destination
+            ? {
+                application_fee_amount: Math.max(0, platformDeltaCents),
+                transfer_data: { destination },
+              }
+            : {}),
+          metadata: {
+            type: "reschedule_price_difference",
+            bookingId: booking.id,
+            rescheduleRequestId: request.id,
+          },
+        },
+        { idempotencyKey: `reschedule-${request.id}` }
+      );
+
+      if (supplement.status !== "succeeded" && supplement.status !== "processing") {
+        throw new Error(`Payment requires action (${supplement.status})`);
+      }
+
+      return { action: "charged", amountCents: totalDeltaCents, stripeId: supplement.id };
+    } catch (error) {
+      console.error(`Error charging reschedule difference for booking ${booking.id}:`, error);
+      throw new RescheduleError(
+        "The price difference for the new time could not be charged",
+        "PAYMENT_REQUIRED"
+      );
+    }
+  }
+
+  /**
+   * Ledger rows for a settled adjustment
+   * Pass the surrounding transaction so they commit with the move.
+   */
+  private async recordAdjustment(
+    booking: Booking,
+    payment: PaymentAdjustment,
+    platformFeeCents: number,
+    executor: Pick<typeof db, "select" | "insert" | "update"> = db
+  ): Promise<void> {
+    if (payment.action === "refunded") {
+      await this.recordRefund(booking, payment, executor);
+    } else if (payment.action === "charged") {
+      const platformDeltaCents = Math.max(0, platformFeeCents - toMinorUnits(booking.platformFee, booking.currency));
+      await executor.insert(transactionsTable).values({
+        bookingId: booking.id,
+        stripeChargeId: payment.stripeId,
+        amount: minorToDecimalString(payment.amountCents, booking.currency),
+        platformFee: minorToDecimalString(platformDeltaCents, booking.currency),
+        providerPayout: minorToDecimalString(payment.amountCents - platformDeltaCents, booking.currency),
+        currency: booking.currency,
+        status: "completed",
+        processedAt: new Date(),
+      });
+    }
+  }
+
+  /**
+   * Undo a payment adjustment whose booking move did not commit
+   * A refund cannot be taken back, so it is kept on the transaction for
+   * support to settle with the customer.
+   */
+  private async reverseAdjustment(
+    booking: Booking,
+    request: BookingRescheduleRequest,
+    payment: PaymentAdjustment,
+    totalDeltaCents: number
+  ): Promise<void> {
+    try {
+      switch (payment.action) {
+        case "updated": {
+          const paymentIntent = await stripe.paymentIntents.retrieve(payment.stripeId!);
+          await stripe.paymentIntents.update(paymentIntent.id, {
+            amount: paymentIntent.amount - totalDeltaCents,
+            ...(paymentIntent.application_fee_amount !== null
+              ? { application_fee_amount: toMinorUnits(booking.platformFee, booking.currency) }
+              : {}),
+          });
+          break;
+        }
+        case "charged":
+          await createRefundWithIdempotency({
+            paymentIntentId: payment.stripeId!,
+            reason: "requested_by_customer",
+            bookingId: booking.id,
+            metadata: {
+              bookingId: booking.id,
+              rescheduleRequestId: request.id,
+              type: "reschedule_reversal",
+            },
+            refundApplicationFee: true,
+          });
+          break;
+        case "refunded":
+          await this.recordRefund(booking, payment);
+          console.error(
+            `Reschedule ${request.id} of booking ${booking.id} failed after refunding ${payment.stripeId}; settle manually`
+          );
+          break;
+      }
+    } catch (error) {
+      console.error(`Error reversing reschedule payment ${payment.stripeId} for booking ${booking.id}:`, error);
+    }
+  }
+
+  private async recordRefund(
+    booking: Booking,
+    payment: PaymentAdjustment,
+    executor: Pick<typeof db, "select" | "update"> = db
+  ): Promise<void> {
+    const [transaction] = await executor
+      .select({ refundAmount: transactionsTable.refundAmount })
+      .from(transactionsTable)
+      .where(eq(transactionsTable.bookingId, booking.id))
+      .limit(1);
+
+    if (transaction) {
+      const refunded = parseFloat(transaction.refundAmount || "0") + fromMinorUnits(payment.amountCents, booking.currency);
+      await executor
+        .update(transactionsTable)
+        .set({ stripeRefundId: payment.stripeId, refundAmount: refunded.toFixed(2) })
+        .where(eq(transactionsTable.bookingId, booking.id));
+    }
+  }
+
+  private async validateSlot(
+    booking: Booking,
+    timezone: string,
+    target: { date: string; startTime: string }
+  ): Promise<SlotRef & { startsAt: Date }> {
+    const { instant, exists } = zonedTimeToInstant(target.date, target.startTime, timezone);
+    if (!exists || instant <= new Date()) {
+      throw new RescheduleError("The new time must be a valid time in the future", "SLOT_UNAVAILABLE");
+    }
+
+    const bounds = localDayBounds(target.date, timezone);
+    const slots = await slotGenerator.generateSlots({
+      providerId: booking.providerId,
+      serviceId: booking.serviceId || undefined,
+      startDate: bounds.start,
+      endDate: new Date(bounds.end.getTime() - 1),
+      serviceDuration: booking.serviceDuration,
+      includeBooked: true,
+    });
+
+    const currentStart = this.startsAt(booking, timezone);
+    const slot = findRescheduleSlot(slots, target, {
+      startsAt: currentStart,
+      endsAt: new Date(currentStart.getTime() + booking.serviceDuration * 60 * 1000),
+    });
+
+    if (!slot) {
+      throw new RescheduleError("The requested slot is not available", "SLOT_UNAVAILABLE");
+    }
+    if (slot.date === storedDate(booking.bookingDate) && slot.startTime === booking.startTime) {
+      throw new RescheduleError("The booking is already at this time", "SLOT_UNAVAILABLE");
+    }
+
+    return { date: slot.date, startTime: slot.startTime, endTime: slot.endTime, startsAt: new Date(slot.startsAt) };
+  }
+
+  /**
+   * Service price at the new time, carrying over only the change in surge
+   */
+  private async quotePrice(
+    booking: Booking,
+    timezone: string,
+    target: { date: string; startTime: string }
+  ): Promise<number> {
+    const servicePrice = parseFloat(booking.servicePrice);
+    if (!booking.serviceId) {
+      return servicePrice;
+    }
+
+    const newStart = zonedTimeToInstant(target.date, target.startTime, timezone).instant;
+    const [current, next] = await Promise.all([
+      calculateDynamicPrice(booking.serviceId, booking.providerId, this.startsAt(booking, timezone), booking.serviceDuration),
+      calculateDynamicPrice(booking.serviceId, booking.providerId, newStart, booking.serviceDuration),
+    ]);
+
+    return repriceForMove(servicePrice, current.surgeMultiplier, next.surgeMultiplier);
+  }
+
+  private async loadForCustomer(bookingId: string, userId: string): Promise<{
+    booking: Booking;
+    timezone: string;
+    cancellationHours: number;
+    requiresApproval: boolean;
+  }> {
+    const [row] = await db
+      .select({ booking: bookingsTable, providerTimezone: providersTable.timezone })
+      .from(bookingsTable)
+      .innerJoin(providersTable, eq(bookingsTable.providerId, providersTable.id))
+      .where(eq(bookingsTable.id, bookingId))
+      .limit(1);
+
+    if (!row) {
+      throw new RescheduleError("Booking not found", "NOT_FOUND");
+    }
+    if (row.booking.customerId !== userId) {
+      throw new RescheduleError("Only the customer can reschedule this booking", "FORBIDDEN");
+    }
+
+    let cancellationHours = DEFAULT_CANCELLATION_HOURS;
+    let requiresApproval = false;
+
+    if (row.booking.serviceId) {
+      const [service] = await db
+        .select({
+          cancellationHours: servicesTable.cancellationHours,
+          requiresApproval: servicesTable.requiresApproval,
+        })
+        .from(servicesTable)
+        .where(eq(servicesTable.id, row.booking.serviceId))
+        .limit(1);
+
+      cancellationHours = service?.cancellationHours ?? DEFAULT_CANCELLATION_HOURS;
+      requiresApproval = service?.requiresApproval ?? false;
+    }
+
+    return {
+      booking: row.booking,
+      timezone: resolveTimezone(row.providerTimezone),
+      cancellationHours,
+      requiresApproval,
+    };
+  }
+
+  private async getPendingRequest(bookingId: string): Promise<BookingRescheduleRequest | null> {
+    const [request] = await db
+      .select()
+      .from(bookingRescheduleRequestsTable)
+      .where(
+        and(
+          eq(bookingRescheduleRequestsTable.bookingId, bookingId),
+          eq(bookingRescheduleRequestsTable.status, rescheduleRequestStatus.PENDING)
+        )
+      )
+      .orderBy(desc(bookingRescheduleRequestsTable.createdAt))
+      .limit(1);
+
+    return request || null;
+  }
+
+  private async closeRequest(
+    requestId: string,
+    status: string,
+    userId: string,
+    note?: string
+  ): Promise<BookingRescheduleRequest> {
+    const [closed] = await db
+      .update(bookingRescheduleRequestsTable)
+      .set({
+        status,
+        responseNote: note,
+        respondedBy: userId,
+        respondedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(bookingRescheduleRequestsTable.id, requestId))
+      .returning();
+
+    return closed;
+  }
+
+  private startsAt(booking: Booking, timezone: string): Date {
+    return zonedTimeToInstant(storedDate(booking.bookingDate), booking.startTime, timezone).instant;
+  }
+}
+
+// Export singleton instance
+export const rescheduleService = new RescheduleService();
@@ -0,0 +1,167 @@
+/**
+ * Booking Series Recurrence
+ * Builds, formats and expands SeriesRecurrence values by reusing the
+ * RFC 5545 expansion in lib/calendar, so a series and an imported .ics
+ * RRULE behave identically across month ends and DST transitions.
+ */
+
+import type { SeriesRecurrence } from "@/db/schema/booking-series-schema";
+import { expandEvents, type ParsedIcsEvent, type RecurrenceRule } from "@/lib/calendar/ics";
+import {
+  dayOfWeekForDate,
+  localDayBounds,
+  localizeInterval,
+  zonedTimeToInstant,
+} from "@/lib/availability/timezone";
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const NEXT_OCCURRENCE_WINDOW_MS = 70 * 24 * 60 * 60 * 1000;
+
+export type SeriesFrequency = SeriesRecurrence["frequency"];
+
+/**
+ * A concrete occurrence of a series in the provider's zone
+ */
+export interface SeriesOccurrenceSlot {
+  date: string; // YYYY-MM-DD, provider-local
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  startsAt: Date;
+  endsAt: Date;
+}
+
+function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function minutesToTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Build a recurrence anchored at the first occurrence
+ * Monthly series repeat on the same weekday ordinal ("2nd Tuesday") so they
+ * stay on a day the provider works; a 5th weekday becomes "last".
+ */
+export function buildSeriesRecurrence(params: {
+  frequency: SeriesFrequency;
+  startDate: string;
+  startTime: string;
+  durationMinutes: number;
+  count?: number;
+  until?: string;
+}): SeriesRecurrence {
+  const startMinute = timeToMinutes(params.startTime);
+  const dayOfMonth = parseInt(params.startDate.slice(8, 10), 10);
+  const ordinal = Math.ceil(dayOfMonth / 7);
+
+  return {
+    frequency: params.frequency,
+    dayOfWeek: dayOfWeekForDate(params.startDate),
+    weekOfMonth: params.frequency === "monthly" ? (ordinal > 4 ? -1 : ordinal) : undefined,
+    startMinute,
+    endMinute: startMinute + params.durationMinutes,
+    startDate: params.startDate,
+    count: params.count,
+    until: params.until,
+  };
+}
+
+/**
+ * Convert a series recurrence to the calendar module's RecurrenceRule
+ */
+export function toRecurrenceRule(recurrence: SeriesRecurrence, timezone: string): RecurrenceRule {
+  const rule: RecurrenceRule = {
+    freq: recurrence.frequency === "monthly" ? "MONTHLY" : "WEEKLY",
+    interval: recurrence.frequency === "biweekly" ? 2 : 1,
+    byDay: [{
+      weekday: recurrence.dayOfWeek,
+      ordinal: recurrence.frequency === "monthly" ? recurrence.weekOfMonth : undefined,
+    }],
+  };
+
+  if (recurrence.count !== undefined) {
+    rule.count = recurrence.count;
+  }
+  if (recurrence.until) {
+    // UNTIL is inclusive of the whole local day
+    rule.until = new Date(localDayBounds(recurrence.until, timezone).end.getTime() - 1);
+  }
+
+  return rule;
+}
+
+/**
+ * Render the RRULE value for display and calendar export
+ */
+export function formatSeriesRRule(recurrence: SeriesRecurrence): string {
+  const weekday = WEEKDAY_CODES[recurrence.dayOfWeek];
+  const parts = [
+    `FREQ=${recurrence.frequency === "monthly" ? "MONTHLY" : "WEEKLY"}`,
+    `INTERVAL=${recurrence.frequency === "biweekly" ? 2 : 1}`,
+    `BYDAY=${recurrence.frequency === "monthly" ? `${recurrence.weekOfMonth ?? 1}${weekday}` : weekday}`,
+  ];
+
+  if (recurrence.count !== undefined) {
+    parts.push(`COUNT=${recurrence.count}`);
+  }
+  if (recurrence.until) {
+    parts.push(`UNTIL=${recurrence.until.replace(/-/g, "")}`);
+  }
+
+  return parts.join(";");
+}
+
+/**
+ * Expand a series into provider-local occurrences starting in [rangeStart, rangeEnd)
+ * COUNT is applied from the first occurrence, not from rangeStart.
+ */
+export function expandSeries(
+  recurrence: SeriesRecurrence,
+  timezone: string,
+  rangeStart: Date,
+  rangeEnd: Date
+): SeriesOccurrenceSlot[] {
+  const start = zonedTimeToInstant(recurrence.startDate, minutesToTime(recurrence.startMinute), timezone).instant;
+  const durationMs = (recurrence.endMinute - recurrence.startMinute) * 60 * 1000;
+
+  const event: ParsedIcsEvent = {
+    uid: "booking-series",
+    start,
+    end: new Date(start.getTime() + durationMs),
+    allDay: false,
+    timezone,
+    rrule: toRecurrenceRule(recurrence, timezone),
+    exdates: [],
+  };
+
+  return expandEvents([event], rangeStart, rangeEnd)
+    .filter(occurrence => occurrence.start >= rangeStart)
+    .map(occurrence => {
+      const local = localizeInterval(occurrence.start, occurrence.end, timezone);
+      return {
+        date: local.date,
+        startTime: local.startTime,
+        endTime: local.endTime,
+        startsAt: occurrence.start,
+        endsAt: occurrence.end,
+      };
+    });
+}
+
+/**
+ * Whether a series can still produce occurrences at or after `date`
+ */
+export function hasOccurrencesAfter(
+  recurrence: SeriesRecurrence,
+  timezone: string,
+  date: Date
+): boolean {
+  const first = zonedTimeToInstant(recurrence.startDate, minutesToTime(recurrence.startMinute), timezone).instant;
+  // Consecutive occurrences are at most ~5 weeks apart (monthly, last weekday)
+  const horizonEnd = new Date(Math.max(date.getTime(), first.getTime()) + NEXT_OCCURRENCE_WINDOW_MS);
+
+  return expandSeries(recurrence, timezone, date, horizonEnd).length > 0;
+}
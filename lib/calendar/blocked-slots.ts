@@ -0,0 +1,58 @@
+/**
+ * Blocked Slot Mapping
+ * Converts calendar occurrences into per-day provider_blocked_slots rows
+ */
+
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+import type { IcsOccurrence } from "./ics";
+
+/**
+ * Day-scoped block in the provider's local time
+ */
+export interface DayBlock {
+  date: string; // YYYY-MM-DD in provider timezone
+  startTime: string | null; // HH:mm, null for a full day
+  endTime: string | null; // HH:mm, null for a full day
+}
+
+const END_OF_DAY = "23:59"; // blocked_slots times cannot express 24:00
+
+/**
+ * Split an occurrence into one block per local calendar day it touches
+ * Partial days keep their HH:mm bounds; fully covered days become full-day blocks.
+ */
+export function splitIntoDayBlocks(occurrence: IcsOccurrence, timezone: string): DayBlock[] {
+  const blocks: DayBlock[] = [];
+  let cursor = occurrence.start;
+
+  while (cursor < occurrence.end) {
+    const date = formatInTimeZone(cursor, timezone, "yyyy-MM-dd");
+    const dayStart = fromZonedTime(`${date}T00:00:00`, timezone);
+    const nextDayStart = fromZonedTime(`${nextDate(date)}T00:00:00`, timezone);
+
+    const blockStart = cursor > dayStart ? cursor : dayStart;
+    const blockEnd = occurrence.end < nextDayStart ? occurrence.end : nextDayStart;
+
+    if (blockStart.getTime() === dayStart.getTime() && blockEnd.getTime() === nextDayStart.getTime()) {
+      blocks.push({ date, startTime: null, endTime: null });
+    } else if (blockEnd > blockStart) {
+      blocks.push({
+        date,
+        startTime: formatInTimeZone(blockStart, timezone, "HH:mm"),
+        endTime: blockEnd.getTime() === nextDayStart.getTime()
+          ? END_OF_DAY
+          : formatInTimeZone(blockEnd, timezone, "HH:mm"),
+      });
+    }
+
+    cursor = nextDayStart;
+  }
+
+  return blocks;
+}
+
+function nextDate(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
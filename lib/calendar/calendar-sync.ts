@@ -0,0 +1,217 @@
+/**
+ * Calendar Sync Service
+ * Publishes provider bookings as an ICS feed and imports external busy time
+ * as provider_blocked_slots rows that SlotGenerator already subtracts.
+ */
+
+import { db } from "@/db/db";
+import {
+  bookingsTable,
+  providersTable,
+  providerBlockedSlotsTable,
+  type NewProviderBlockedSlot,
+} from "@/db/schema";
+import { and, eq, gte, lte, inArray, isNull, isNotNull } from "drizzle-orm";
+import { addDays } from "date-fns";
+import { fromZonedTime } from "date-fns-tz";
+import { resolveTimezone, storedDate, localDate, addDaysToDate } from "@/lib/availability/timezone";
+import { buildCalendar, expandEvents, parseCalendar, type IcsEvent } from "./ics";
+import { splitIntoDayBlocks } from "./blocked-slots";
+
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 365;
+const FEED_REFRESH_MINUTES = 60;
+const FEED_BOOKING_STATUSES = ["confirmed", "completed"];
+
+export const MAX_IMPORT_DAYS = 365;
+export const DEFAULT_IMPORT_DAYS = 90;
+
+export interface CalendarImportOptions {
+  from?: Date;
+  days?: number;
+  reason?: string;
+}
+
+export interface CalendarImportResult {
+  eventsParsed: number;
+  occurrences: number;
+  blockedCount: number;
+  replacedCount: number;
+  windowStart: string;
+  windowEnd: string;
+}
+
+/**
+ * Build the ICS feed for a provider's confirmed bookings and manual blocks
+ */
+export async function buildProviderCalendarFeed(providerId: string): Promise<string> {
+  const [provider] = await db
+    .select({
+      id: providersTable.id,
+      displayName: providersTable.displayName,
+      timezone: providersTable.timezone,
+    })
+    .from(providersTable)
+    .where(eq(providersTable.id, providerId))
+    .limit(1);
+
+  if (!provider) {
+    throw new Error(`Provider ${providerId} not found`);
+  }
+
+  const timezone = resolveTimezone(provider.timezone);
+  const windowStart = addDays(new Date(), -FEED_PAST_DAYS);
+  const windowEnd = addDays(new Date(), FEED_FUTURE_DAYS);
+
+  const bookings = await db
+    .select({
+      id: bookingsTable.id,
+      serviceName: bookingsTable.serviceName,
+      bookingDate: bookingsTable.bookingDate,
+      startTime: bookingsTable.startTime,
+      endTime: bookingsTable.endTime,
+      status: bookingsTable.status,
+      confirmationCode: bookingsTable.confirmationCode,
+      metadata: bookingsTable.metadata,
+      updatedAt: bookingsTable.updatedAt,
+    })
+    .from(bookingsTable)
+    .where(
+      and(
+        eq(bookingsTable.providerId, providerId),
+        gte(bookingsTable.bookingDate, windowStart),
+        lte(bookingsTable.bookingDate, windowEnd),
+        inArray(bookingsTable.status, FEED_BOOKING_STATUSES)
+      )
+    );
+
+  // Only manual blocks are published; imported ones already live in the source calendar
+  const blockedSlots = await db
+    .select()
+    .from(providerBlockedSlotsTable)
+    .where(
+      and(
+        eq(providerBlockedSlotsTable.providerId, providerId),
+        isNull(providerBlockedSlotsTable.externalUid),
+        gte(providerBlockedSlotsTable.blockedDate, windowStart),
+        lte(providerBlockedSlotsTable.blockedDate, windowEnd)
+      )
+    );
+
+  const events: IcsEvent[] = bookings.map(booking => {
+    const date = storedDate(booking.bookingDate);
+    return {
+      uid: `booking-${booking.id}@ecosystem`,
+      start: fromZonedTime(`${date}T${booking.startTime}:00`, timezone),
+      end: fromZonedTime(`${date}T${booking.endTime}:00`, timezone),
+      summary: booking.serviceName,
+      description: booking.confirmationCode
+        ? `Confirmation code: ${booking.confirmationCode}`
+        : undefined,
+      location: booking.metadata?.location,
+      lastModified: booking.updatedAt,
+    };
+  });
+
+  for (const slot of blockedSlots) {
+    const date = storedDate(slot.blockedDate);
+    const isFullDay = !slot.startTime || !slot.endTime;
+
+    events.push(
+      isFullDay
+        ? {
+            uid: `block-${slot.id}@ecosystem`,
+            start: new Date(`${date}T00:00:00Z`),
+            end: addDays(new Date(`${date}T00:00:00Z`), 1),
+            allDay: true,
+            summary: slot.reason || "Unavailable",
+          }
+        : {
+            uid: `block-${slot.id}@ecosystem`,
+            start: fromZonedTime(`${date}T${slot.startTime}:00`, timezone),
+            end: fromZonedTime(`${date}T${slot.endTime}:00`, timezone),
+            summary: slot.reason || "Unavailable",
+          }
+    );
+  }
+
+  return buildCalendar(events, {
+    name: `${provider.displayName} bookings`,
+    description: "Confirmed bookings and blocked time",
+    timezone,
+    refreshIntervalMinutes: FEED_REFRESH_MINUTES,
+  });
+}
+
+/**
+ * Import busy time from an .ics file as blocked slots
+ * Previously imported blocks inside the import window are replaced, so
+ * re-uploading an updated export keeps the provider's blocks in sync.
+ */
+export async function importCalendarBlocks(
+  providerId: string,
+  icsText: string,
+  options: CalendarImportOptions = {}
+): Promise<CalendarImportResult> {
+  const [provider] = await db
+    .select({ timezone: providersTable.timezone })
+    .from(providersTable)
+    .where(eq(providersTable.id, providerId))
+    .limit(1);
+
+  const timezone = resolveTimezone(provider?.timezone);
+  const days = Math.min(options.days || DEFAULT_IMPORT_DAYS, MAX_IMPORT_DAYS);
+  const windowStartDate = localDate(options.from || new Date(), timezone);
+  const windowStart = fromZonedTime(`${windowStartDate}T00:00:00`, timezone);
+  const windowEnd = addDays(windowStart, days);
+
+  const events = parseCalendar(icsText, timezone);
+  const occurrences = expandEvents(events, windowStart, windowEnd);
+
+  const rows: NewProviderBlockedSlot[] = [];
+  for (const occurrence of occurrences) {
+    for (const block of splitIntoDayBlocks(occurrence, timezone)) {
+      rows.push({
+        providerId,
+        blockedDate: new Date(`${block.date}T00:00:00Z`),
+        startTime: block.startTime,
+        endTime: block.endTime,
+        reason: occurrence.summary || options.reason || "Busy (imported)",
+        externalUid: occurrence.uid,
+      });
+    }
+  }
+
+  const windowEndDate = addDaysToDate(windowStartDate, days - 1);
+  const inWindow = rows.filter(row => {
+    const date = storedDate(row.blockedDate as Date);
+    return date >= windowStartDate && date <= windowEndDate;
+  });
+
+  return await db.transaction(async (tx) => {
+    const replaced = await tx
+      .delete(providerBlockedSlotsTable)
+      .where(
+        and(
+          eq(providerBlockedSlotsTable.providerId, providerId),
+          isNotNull(providerBlockedSlotsTable.externalUid),
+          gte(providerBlockedSlotsTable.blockedDate, new Date(`${windowStartDate}T00:00:00Z`)),
+          lte(providerBlockedSlotsTable.blockedDate, new Date(`${windowEndDate}T00:00:00Z`))
+        )
+      )
+      .returning({ id: providerBlockedSlotsTable.id });
+
+    const inserted = inWindow.length > 0
+      ? await tx.insert(providerBlockedSlotsTable).values(inWindow).returning({ id: providerBlockedSlotsTable.id })
+      : [];
+
+    return {
+      eventsParsed: events.length,
+      occurrences: occurrences.length,
+      blockedCount: inserted.length,
+      replacedCount: replaced.length,
+      windowStart: windowStartDate,
+      windowEnd: windowEndDate,
+    };
+  });
+}
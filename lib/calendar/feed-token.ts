@@ -0,0 +1,58 @@
+/**
+ * Calendar Feed Tokens
+ * Signs per-provider ICS feed URLs so calendar apps can subscribe without a session.
+ * The provider's feed token version is part of the signature, so bumping it
+ * revokes every URL issued before.
+ */
+
+import crypto from "crypto";
+
+const TOKEN_PURPOSE = "provider-ics-feed";
+
+function getFeedSecret(): string {
+  const secret = process.env.CALENDAR_FEED_SECRET;
+
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("CALENDAR_FEED_SECRET is not configured");
+    }
+    return "development-only-calendar-feed-secret";
+  }
+
+  return secret;
+}
+
+/**
+ * Create the signed token embedded in a provider's feed URL
+ */
+export function createFeedToken(providerId: string, version: number): string {
+  return crypto
+    .createHmac("sha256", getFeedSecret())
+    .update(`${TOKEN_PURPOSE}:${providerId}:${version}`)
+    .digest("base64url");
+}
+
+/**
+ * Verify a feed token in constant time
+ */
+export function verifyFeedToken(providerId: string, version: number, token: string | null | undefined): boolean {
+  if (!token) return false;
+
+  const expected = Buffer.from(createFeedToken(providerId, version));
+  const received = Buffer.from(token);
+
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Build the public subscription URLs for a provider feed
+ */
+export function buildFeedUrls(providerId: string, version: number, baseUrl: string) {
+  const path = `/api/providers/${providerId}/calendar/feed?token=${createFeedToken(providerId, version)}`;
+  const httpsUrl = `${baseUrl.replace(/\/$/, "")}${path}`;
+
+  return {
+    feedUrl: httpsUrl,
+    webcalUrl: httpsUrl.replace(/^https?:\/\//, "webcal://"),
+  };
+}
@@ -0,0 +1,706 @@
+/**
+ * iCalendar (RFC 5545) Support
+ * Serializes bookings/blocks into VCALENDAR feeds and parses uploaded .ics files
+ *
+ * Parsing covers what external calendar apps actually export:
+ * - DTSTART/DTEND as UTC, TZID-qualified, floating or all-day (VALUE=DATE) values
+ * - DURATION when DTEND is absent
+ * - RRULE (DAILY/WEEKLY/MONTHLY/YEARLY with INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY)
+ * - EXDATE and RECURRENCE-ID overrides
+ *
+ * Recurrences are expanded on wall-clock time in the event's own timezone so
+ * a weekly 09:00 meeting stays at 09:00 across DST transitions.
+ */
+
+import { fromZonedTime, formatInTimeZone } from "date-fns-tz";
+import { isValidTimezone } from "@/lib/availability/timezone";
+
+/**
+ * Event to be written into a calendar feed
+ */
+export interface IcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  allDay?: boolean; // start/end UTC date parts are used, end is exclusive
+  summary: string;
+  description?: string;
+  location?: string;
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+  transparency?: "OPAQUE" | "TRANSPARENT";
+  lastModified?: Date;
+}
+
+/**
+ * Calendar-level feed options
+ */
+export interface IcsCalendarOptions {
+  name: string;
+  description?: string;
+  timezone?: string; // X-WR-TIMEZONE hint for clients
+  refreshIntervalMinutes?: number;
+}
+
+/**
+ * Supported subset of an RRULE
+ */
+export interface RecurrenceRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: Array<{ weekday: number; ordinal?: number }>; // 0 = Sunday
+  byMonthDay?: number[];
+}
+
+/**
+ * Event read from an uploaded calendar
+ */
+export interface ParsedIcsEvent {
+  uid: string;
+  summary?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  timezone: string; // Zone used to expand recurrences
+  rrule?: RecurrenceRule;
+  exdates: Date[];
+  recurrenceId?: Date;
+  status?: string;
+  transparency?: string;
+}
+
+/**
+ * Concrete occurrence of a (possibly recurring) event
+ */
+export interface IcsOccurrence {
+  uid: string;
+  summary?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+}
+
+export class IcsParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IcsParseError";
+  }
+}
+
+const PRODUCT_ID = "-//Ecosystem Marketplace//Provider Calendar//EN";
+const MAX_LINE_OCTETS = 75;
+const MAX_EXPANSION_ITERATIONS = 5000;
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// ===== SERIALIZATION =====
+
+/**
+ * Build a VCALENDAR document for the given events
+ */
+export function buildCalendar(events: IcsEvent[], options: IcsCalendarOptions): string {
+  const stamp = formatUtcDateTime(new Date());
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+  ];
+
+  if (options.description) {
+    lines.push(`X-WR-CALDESC:${escapeText(options.description)}`);
+  }
+  if (options.timezone) {
+    lines.push(`X-WR-TIMEZONE:${options.timezone}`);
+  }
+  if (options.refreshIntervalMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshIntervalMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${options.refreshIntervalMinutes}M`);
+  }
+
+  for (const event of events) {
+    lines.push("BEGIN:VEVENT");
+    lines.push(`UID:${event.uid}`);
+    lines.push(`DTSTAMP:${stamp}`);
+
+    if (event.allDay) {
+      lines.push(`DTSTART;VALUE=DATE:${formatUtcDate(event.start)}`);
+      lines.push(`DTEND;VALUE=DATE:${formatUtcDate(event.end)}`);
+    } else {
+      lines.push(`DTSTART:${formatUtcDateTime(event.start)}`);
+      lines.push(`DTEND:${formatUtcDateTime(event.end)}`);
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    lines.push(`STATUS:${event.status || "CONFIRMED"}`);
+    lines.push(`TRANSP:${event.transparency || "OPAQUE"}`);
+    if (event.lastModified) {
+      lines.push(`LAST-MODIFIED:${formatUtcDateTime(event.lastModified)}`);
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Escape TEXT values per RFC 5545 §3.3.11
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 §3.1)
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, "utf8") <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of Array.from(line)) {
+    const charBytes = Buffer.byteLength(char, "utf8");
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function formatUtcDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+// ===== PARSING =====
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Parse a VCALENDAR document into its VEVENT components
+ * Floating times and unknown TZIDs are interpreted in `defaultTimezone`.
+ */
+export function parseCalendar(text: string, defaultTimezone = "UTC"): ParsedIcsEvent[] {
+  const lines = unfoldLines(text);
+
+  if (!lines.some(line => line.toUpperCase() === "BEGIN:VCALENDAR")) {
+    throw new IcsParseError("Not an iCalendar document (missing BEGIN:VCALENDAR)");
+  }
+
+  const events: ParsedIcsEvent[] = [];
+  let current: ContentLine[] | null = null;
+  let nestedDepth = 0;
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+
+    if (line.name === "BEGIN" && line.value.toUpperCase() === "VEVENT") {
+      current = [];
+      nestedDepth = 0;
+      continue;
+    }
+
+    if (!current) continue;
+
+    // Skip properties of nested components such as VALARM
+    if (line.name === "BEGIN") {
+      nestedDepth++;
+      continue;
+    }
+    if (line.name === "END" && line.value.toUpperCase() !== "VEVENT") {
+      nestedDepth = Math.max(0, nestedDepth - 1);
+      continue;
+    }
+    if (line.name === "END") {
+      const event = buildParsedEvent(current, defaultTimezone);
+      if (event) events.push(event);
+      current = null;
+      continue;
+    }
+
+    if (nestedDepth === 0) {
+      current.push(line);
+    }
+  }
+
+  return events;
+}
+
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, "\n")
+    .replace(/\r/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .map(line => line.trimEnd())
+    .filter(line => line.length > 0);
+}
+
+function parseContentLine(raw: string): ContentLine | null {
+  // The value starts at the first colon that is not inside a quoted parameter
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ":" && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex === -1) return null;
+
+  const [name, ...paramParts] = raw.slice(0, colonIndex).split(";");
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eqIndex = part.indexOf("=");
+    if (eqIndex === -1) continue;
+    params[part.slice(0, eqIndex).toUpperCase()] = part.slice(eqIndex + 1).replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: raw.slice(colonIndex + 1) };
+}
+
+function buildParsedEvent(props: ContentLine[], defaultTimezone: string): ParsedIcsEvent | null {
+  const find = (name: string) => props.find(p => p.name === name);
+
+  const dtStart = find("DTSTART");
+  if (!dtStart) return null;
+
+  const start = parseDateValue(dtStart, defaultTimezone);
+  const allDay = start.allDay;
+  const timezone = start.timezone;
+
+  let end: Date;
+  const dtEnd = find("DTEND");
+  const duration = find("DURATION");
+  if (dtEnd) {
+    end = parseDateValue(dtEnd, defaultTimezone).date;
+  } else if (duration) {
+    end = new Date(start.date.getTime() + parseDuration(duration.value));
+  } else {
+    // RFC 5545 §3.6.1: date-only events last one day, date-time events are instantaneous
+    end = allDay ? shiftWallClock(start.date, timezone, 1, 0) : start.date;
+  }
+
+  if (end.getTime() < start.date.getTime()) {
+    throw new IcsParseError(`Event ${find("UID")?.value || "(no UID)"} ends before it starts`);
+  }
+
+  const exdates: Date[] = [];
+  for (const prop of props.filter(p => p.name === "EXDATE")) {
+    for (const value of prop.value.split(",")) {
+      exdates.push(parseDateValue({ ...prop, value }, defaultTimezone).date);
+    }
+  }
+
+  const rruleProp = find("RRULE");
+  const recurrenceIdProp = find("RECURRENCE-ID");
+
+  return {
+    uid: find("UID")?.value || `${formatUtcDateTime(start.date)}-${find("SUMMARY")?.value || "event"}`,
+    summary: unescapeText(find("SUMMARY")?.value),
+    start: start.date,
+    end,
+    allDay,
+    timezone,
+    rrule: rruleProp ? parseRecurrenceRule(rruleProp.value, defaultTimezone) : undefined,
+    exdates,
+    recurrenceId: recurrenceIdProp ? parseDateValue(recurrenceIdProp, defaultTimezone).date : undefined,
+    status: find("STATUS")?.value.toUpperCase(),
+    transparency: find("TRANSP")?.value.toUpperCase(),
+  };
+}
+
+function unescapeText(value?: string): string | undefined {
+  if (value === undefined) return undefined;
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+function parseDateValue(
+  prop: ContentLine,
+  defaultTimezone: string
+): { date: Date; allDay: boolean; timezone: string } {
+  const value = prop.value.trim();
+
+  const dateOnly = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+  if (dateOnly || prop.params.VALUE === "DATE") {
+    if (!dateOnly) throw new IcsParseError(`Invalid DATE value: ${value}`);
+    const [, y, m, d] = dateOnly;
+    return {
+      date: fromZonedTime(`${y}-${m}-${d}T00:00:00`, defaultTimezone),
+      allDay: true,
+      timezone: defaultTimezone,
+    };
+  }
+
+  const dateTime = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(value);
+  if (!dateTime) {
+    throw new IcsParseError(`Invalid DATE-TIME value: ${value}`);
+  }
+
+  const [, y, m, d, hh, mm, ss, utc] = dateTime;
+  const local = `${y}-${m}-${d}T${hh}:${mm}:${ss}`;
+
+  if (utc) {
+    return { date: new Date(`${local}Z`), allDay: false, timezone: "UTC" };
+  }
+
+  const timezone = prop.params.TZID && isValidTimezone(prop.params.TZID)
+    ? prop.params.TZID
+    : defaultTimezone;
+
+  return { date: fromZonedTime(local, timezone), allDay: false, timezone };
+}
+
+/**
+ * Parse an RFC 5545 DURATION value into milliseconds
+ */
+export function parseDuration(value: string): number {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) {
+    throw new IcsParseError(`Invalid DURATION value: ${value}`);
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const totalSeconds =
+    Number(weeks || 0) * 7 * 86400 +
+    Number(days || 0) * 86400 +
+    Number(hours || 0) * 3600 +
+    Number(minutes || 0) * 60 +
+    Number(seconds || 0);
+
+  return (sign === "-" ? -1 : 1) * totalSeconds * 1000;
+}
+
+/**
+ * Parse the supported subset of an RRULE value
+ */
+export function parseRecurrenceRule(value: string, defaultTimezone = "UTC"): RecurrenceRule {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(";")) {
+    const [key, val] = part.split("=");
+    if (key && val) parts[key.toUpperCase()] = val.toUpperCase();
+  }
+
+  const freq = parts.FREQ as RecurrenceRule["freq"];
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) {
+    throw new IcsParseError(`Unsupported RRULE frequency: ${parts.FREQ || "(missing)"}`);
+  }
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: Math.max(1, parseInt(parts.INTERVAL || "1", 10) || 1),
+  };
+
+  if (parts.COUNT) {
+    rule.count = parseInt(parts.COUNT, 10);
+  }
+
+  if (parts.UNTIL) {
+    rule.until = parseDateValue({ name: "UNTIL", params: {}, value: parts.UNTIL }, defaultTimezone).date;
+  }
+
+  if (parts.BYDAY) {
+    rule.byDay = parts.BYDAY.split(",").map(token => {
+      const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(token);
+      if (!match) throw new IcsParseError(`Invalid BYDAY value: ${token}`);
+      return {
+        weekday: WEEKDAY_CODES.indexOf(match[2]),
+        ordinal: match[1] ? parseInt(match[1], 10) : undefined,
+      };
+    });
+  }
+
+  if (parts.BYMONTHDAY) {
+    rule.byMonthDay = parts.BYMONTHDAY.split(",").map(day => parseInt(day, 10));
+  }
+
+  return rule;
+}
+
+// ===== EXPANSION =====
+
+/**
+ * Expand parsed events into concrete occurrences overlapping [rangeStart, rangeEnd)
+ * Cancelled and transparent (free) events are dropped, and RECURRENCE-ID
+ * overrides replace the instance of the master event they point at.
+ */
+export function expandEvents(
+  events: ParsedIcsEvent[],
+  rangeStart: Date,
+  rangeEnd: Date
+): IcsOccurrence[] {
+  const overridesByUid = new Map<string, number[]>();
+  for (const event of events) {
+    if (event.recurrenceId) {
+      const list = overridesByUid.get(event.uid) || [];
+      list.push(event.recurrenceId.getTime());
+      overridesByUid.set(event.uid, list);
+    }
+  }
+
+  const occurrences: IcsOccurrence[] = [];
+
+  for (const event of events) {
+    if (event.status === "CANCELLED" || event.transparency === "TRANSPARENT") {
+      continue;
+    }
+
+    const excluded = new Set(event.exdates.map(d => d.getTime()));
+    if (!event.recurrenceId) {
+      for (const time of overridesByUid.get(event.uid) || []) excluded.add(time);
+    }
+
+    for (const start of expandStarts(event, rangeStart, rangeEnd)) {
+      if (excluded.has(start.getTime())) continue;
+
+      const end = event.allDay
+        ? shiftWallClock(start, event.timezone, wallClockDays(event), 0)
+        : new Date(start.getTime() + (event.end.getTime() - event.start.getTime()));
+
+      if (start < rangeEnd && end > rangeStart) {
+        occurrences.push({ uid: event.uid, summary: event.summary, start, end, allDay: event.allDay });
+      }
+    }
+  }
+
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Generate occurrence start instants for an event, stopping at rangeEnd
+ * Expansion starts at the period just before the range rather than at
+ * DTSTART, so long-running rules still reach it; occurrences in the skipped
+ * periods still count towards COUNT.
+ */
+function expandStarts(event: ParsedIcsEvent, rangeStart: Date, rangeEnd: Date): Date[] {
+  const rule = event.rrule;
+  if (!rule || event.recurrenceId) {
+    return [event.start];
+  }
+
+  const base = toWallClock(event.start, event.timezone);
+  const starts: Date[] = [];
+
+  // Occurrences starting up to one event length before the range still overlap it
+  const duration = event.end.getTime() - event.start.getTime();
+  const lookback = toWallClock(new Date(rangeStart.getTime() - duration), event.timezone);
+  const firstPeriod = Math.max(0, periodsBetween(base, lookback, rule) - 1);
+  let emitted = rule.count !== undefined ? elapsedOccurrences(base, rule, firstPeriod, rule.count) : 0;
+
+  for (let period = firstPeriod; period < firstPeriod + MAX_EXPANSION_ITERATIONS; period++) {
+    const candidates = periodCandidates(base, rule, period);
+    if (candidates === null) break;
+
+    for (const wallClock of candidates) {
+      if (wallClock < base) continue;
+
+      const instant = fromZonedTime(wallClockString(wallClock), event.timezone);
+      if (rule.until && instant > rule.until) return starts;
+      if (rule.count !== undefined && emitted >= rule.count) return starts;
+      if (instant >= rangeEnd) return starts;
+
+      emitted++;
+      starts.push(instant);
+    }
+  }
+
+  return starts;
+}
+
+/**
+ * Whole periods of a rule from its base up to a wall-clock time
+ */
+function periodsBetween(base: Date, wallClock: Date, rule: RecurrenceRule): number {
+  const days = Math.floor(
+    (Date.UTC(wallClock.getUTCFullYear(), wallClock.getUTCMonth(), wallClock.getUTCDate()) -
+      Date.UTC(base.getUTCFullYear(), base.getUTCMonth(), base.getUTCDate())) / 86400000
+  );
+
+  let units: number;
+  switch (rule.freq) {
+    case "DAILY":
+      units = days;
+      break;
+    case "WEEKLY":
+      // Counted from the Monday of the base week, as periodCandidates does
+      units = Math.floor((days + (base.getUTCDay() + 6) % 7) / 7);
+      break;
+    case "MONTHLY":
+      units = (wallClock.getUTCFullYear() - base.getUTCFullYear()) * 12 +
+        wallClock.getUTCMonth() - base.getUTCMonth();
+      break;
+    case "YEARLY":
+      units = wallClock.getUTCFullYear() - base.getUTCFullYear();
+      break;
+  }
+
+  return Math.floor(units / rule.interval);
+}
+
+/**
+ * Occurrences a rule produces in its first `periods` periods, stopping at `limit`
+ */
+function elapsedOccurrences(base: Date, rule: RecurrenceRule, periods: number, limit: number): number {
+  let count = 0;
+
+  for (let period = 0; period < periods && count < limit; period++) {
+    const candidates = periodCandidates(base, rule, period);
+    if (candidates === null) break;
+    count += candidates.filter(wallClock => wallClock >= base).length;
+  }
+
+  return count;
+}
+
+/**
+ * Wall-clock candidates (as UTC-field dates) for the nth period of a rule
+ * Returns null once the period can no longer produce dates.
+ */
+function periodCandidates(base: Date, rule: RecurrenceRule, period: number): Date[] | null {
+  const step = period * rule.interval;
+  const hours = base.getUTCHours();
+  const minutes = base.getUTCMinutes();
+  const seconds = base.getUTCSeconds();
+  const at = (year: number, month: number, day: number) =>
+    new Date(Date.UTC(year, month, day, hours, minutes, seconds));
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const day = at(base.getUTCFullYear(), base.getUTCMonth(), base.getUTCDate() + step);
+      if (rule.byDay && !rule.byDay.some(d => d.weekday === day.getUTCDay())) return [];
+      return [day];
+    }
+
+    case "WEEKLY": {
+      // Weeks start on Monday (RFC 5545 default WKST)
+      const offsetFromMonday = (base.getUTCDay() + 6) % 7;
+      const weekStart = at(base.getUTCFullYear(), base.getUTCMonth(), base.getUTCDate() - offsetFromMonday + step * 7);
+      const weekdays = rule.byDay?.map(d => d.weekday) ?? [base.getUTCDay()];
+      return weekdays
+        .map(weekday => (weekday + 6) % 7)
+        .sort((a, b) => a - b)
+        .map(offset => at(weekStart.getUTCFullYear(), weekStart.getUTCMonth(), weekStart.getUTCDate() + offset));
+    }
+
+    case "MONTHLY": {
+      const monthStart = new Date(Date.UTC(base.getUTCFullYear(), base.getUTCMonth() + step, 1));
+      return monthlyCandidates(monthStart.getUTCFullYear(), monthStart.getUTCMonth(), base, rule, at);
+    }
+
+    case "YEARLY": {
+      const year = base.getUTCFullYear() + step;
+      const day = at(year, base.getUTCMonth(), base.getUTCDate());
+      // Skip Feb 29 in non-leap years rather than rolling into March
+      return day.getUTCMonth() === base.getUTCMonth() ? [day] : [];
+    }
+
+    default:
+      return null;
+  }
+}
+
+function monthlyCandidates(
+  year: number,
+  month: number,
+  base: Date,
+  rule: RecurrenceRule,
+  at: (year: number, month: number, day: number) => Date
+): Date[] {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const days = new Set<number>();
+
+  if (rule.byMonthDay) {
+    for (const day of rule.byMonthDay) {
+      const resolved = day < 0 ? daysInMonth + day + 1 : day;
+      if (resolved >= 1 && resolved <= daysInMonth) days.add(resolved);
+    }
+  }
+
+  if (rule.byDay) {
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching: number[] = [];
+      for (let day = 1; day <= daysInMonth; day++) {
+        if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) matching.push(day);
+      }
+      if (ordinal === undefined) {
+        matching.forEach(day => days.add(day));
+      } else {
+        const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (picked) days.add(picked);
+      }
+    }
+  }
+
+  if (!rule.byMonthDay && !rule.byDay) {
+    // Months without the anchor day (e.g. the 31st) are skipped per RFC 5545
+    if (base.getUTCDate() <= daysInMonth) days.add(base.getUTCDate());
+  }
+
+  return Array.from(days)
+    .sort((a, b) => a - b)
+    .map(day => at(year, month, day));
+}
+
+// ===== TIMEZONE HELPERS =====
+
+/**
+ * Represent an instant's wall-clock time in `timezone` using the UTC fields of a Date
+ */
+function toWallClock(instant: Date, timezone: string): Date {
+  return new Date(`${formatInTimeZone(instant, timezone, "yyyy-MM-dd'T'HH:mm:ss")}Z`);
+}
+
+function wallClockString(wallClock: Date): string {
+  return wallClock.toISOString().slice(0, 19);
+}
+
+function shiftWallClock(instant: Date, timezone: string, days: number, minutes: number): Date {
+  const wallClock = toWallClock(instant, timezone);
+  wallClock.setUTCDate(wallClock.getUTCDate() + days);
+  wallClock.setUTCMinutes(wallClock.getUTCMinutes() + minutes);
+  return fromZonedTime(wallClockString(wallClock), timezone);
+}
+
+function wallClockDays(event: ParsedIcsEvent): number {
+  const start = toWallClock(event.start, event.timezone);
+  const end = toWallClock(event.end, event.timezone);
+  return Math.max(1, Math.round((end.getTime() - start.getTime()) / 86400000));
+}
@@ -0,0 +1,28 @@
+/**
+ * Calendar Module
+ * Centralized exports for iCalendar feeds and imports
+ */
+
+export {
+  buildCalendar,
+  parseCalendar,
+  expandEvents,
+  IcsParseError,
+  type IcsEvent,
+  type ParsedIcsEvent,
+  type IcsOccurrence,
+  type RecurrenceRule
+} from './ics';
+
+export { splitIntoDayBlocks, type DayBlock } from './blocked-slots';
+
+export { createFeedToken, verifyFeedToken, buildFeedUrls } from './feed-token';
+
+export {
+  buildProviderCalendarFeed,
+  importCalendarBlocks,
+  MAX_IMPORT_DAYS,
+  DEFAULT_IMPORT_DAYS,
+  type CalendarImportOptions,
+  type CalendarImportResult
+} from './calendar-sync';
@@ -254,7 +254,7 @@ export class DataPipelineService {
         // Invalidate related caches
         await EnhancedProviderCache.invalidateRelatedCaches(
           booking.providerId,
-          status === 'cancelled' ? 'booking_cancelled' : 'booking_created'
+          status.startsWith('canceled_') ? 'booking_cancelled' : 'booking_created'
         );
         await EnhancedBookingCache.invalidateBookingCaches(
           booking.providerId,
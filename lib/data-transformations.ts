@@ -386,11 +386,11 @@ export class BookingAggregator {
     }>
   ): BookingStatusSummary {
     const total = bookings.length;
-    const pending = bookings.filter(b => b.status === 'pending').length;
+    const pending = bookings.filter(b => b.status === 'pending_provider').length;
     const confirmed = bookings.filter(b => b.status === 'confirmed').length;
     const completed = bookings.filter(b => b.status === 'completed').length;
-    const cancelled = bookings.filter(b => b.status === 'cancelled').length;
-    const noShow = bookings.filter(b => b.status === 'no_show').length;
+    const cancelled = bookings.filter(b => b.status === 'canceled_customer' || b.status === 'canceled_provider').length;
+    const noShow = bookings.filter(b => b.status === 'no_show_customer' || b.status === 'no_show_provider').length;
     
     const successRate = total > 0 ? (completed / total) * 100 : 0;
     const cancellationRate = total > 0 ? (cancelled / total) * 100 : 0;
@@ -7,7 +7,6 @@ import { db } from "@/db/db";
 import { 
   bookingsTable, 
   transactionsTable,
-  bookingStatus,
   type Booking,
   type NewBooking 
 } from "@/db/schema/bookings-schema";
@@ -19,8 +18,10 @@ import {
 } from "@/db/schema/providers-schema";
 import { profilesTable } from "@/db/schema/profiles-schema";
 import { reviewsTable } from "@/db/schema/reviews-schema";
-import { eq, and, or, gte, lte, between, sql, ne, isNull } from "drizzle-orm";
+import { eq, and, or, gte, lte, between, sql, inArray, isNull } from "drizzle-orm";
 import { z } from "zod";
+import { SLOT_HOLDING_STATES } from "@/lib/booking-state-machine/status-map";
+import { reviewService } from "@/lib/reviews/review-service";
 import { isValid, parseISO, isFuture, isPast, isToday, format } from "date-fns";
 
 // ===========================
@@ -275,7 +276,7 @@ export class BookingValidator {
         and(
           eq(bookingsTable.providerId, bookingData.providerId),
           eq(bookingsTable.bookingDate, bookingData.bookingDate),
-          ne(bookingsTable.status, bookingStatus.CANCELLED),
+          inArray(bookingsTable.status, SLOT_HOLDING_STATES),
           or(
             // New booking starts during existing booking
             and(
@@ -613,7 +614,7 @@ export class AvailabilityCalculator {
           and(
             eq(bookingsTable.providerId, providerId),
             eq(bookingsTable.bookingDate, date),
-            ne(bookingsTable.status, bookingStatus.CANCELLED)
+            inArray(bookingsTable.status, SLOT_HOLDING_STATES)
           )
         );
 
@@ -764,6 +765,7 @@ export class PaymentReconciliation {
 export class RatingAggregation {
   /**
    * Update provider ratings and review counts
+   * Uses the review service's weighted, recency-aware rating.
    */
   static async updateProviderRatings(providerId?: string): Promise<{
     updated: number;
@@ -773,47 +775,7 @@ export class RatingAggregation {
     let updated = 0;
 
     try {
-      const updateQuery = providerId 
-        ? sql`
-          WITH rating_stats AS (
-            SELECT 
-              provider_id,
-              COUNT(*) as total_reviews,
-              AVG(rating::numeric) as average_rating
-            FROM ${reviewsTable}
-            WHERE is_published = true AND provider_id = ${providerId}
-            GROUP BY provider_id
-          )
-          UPDATE ${providersTable} p
-          SET 
-            total_reviews = COALESCE(rs.total_reviews, 0),
-            average_rating = COALESCE(ROUND(rs.average_rating, 1), 0.0),
-            updated_at = NOW()
-          FROM rating_stats rs
-          WHERE p.id = rs.provider_id OR (p.id = ${providerId} AND rs.provider_id IS NULL)
-        `
-        : sql`
-          WITH rating_stats AS (
-            SELECT 
-              provider_id,
-              COUNT(*) as total_reviews,
-              AVG(rating::numeric) as average_rating
-            FROM ${reviewsTable}
-            WHERE is_published = true
-            GROUP BY provider_id
-          )
-          UPDATE ${providersTable} p
-          SET 
-            total_reviews = COALESCE(rs.total_reviews, 0),
-            average_rating = COALESCE(ROUND(rs.average_rating, 1), 0.0),
-            updated_at = NOW()
-          FROM rating_stats rs
-          WHERE p.id = rs.provider_id
-        `;
-
-      const result = await db.execute(updateQuery);
-      updated = (result as any).rowCount || 0;
-
+      updated = await reviewService.refreshProviderRatings(providerId);
     } catch (error) {
       errors.push(`Rating update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
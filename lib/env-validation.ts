@@ -38,6 +38,11 @@ const envSchema = z.object({
   NEXT_PUBLIC_GUEST_SURCHARGE_PERCENT: z.coerce.number().min(0).max(100).default(10),
   NEXT_PUBLIC_APP_URL: z.string().url().default('http://localhost:3000'),
   
+  // Exchange Rates (Optional - defaults to the bundled fixture rates)
+  FX_RATE_PROVIDER: z.enum(['fixture', 'http']).default('fixture'),
+  FX_RATES_URL: z.string().url().optional(),
+  FX_RATES_API_KEY: z.string().optional(),
+  
   // Email Service (Optional)
   RESEND_API_KEY: z.string().optional(),
   
@@ -53,6 +58,10 @@ const envSchema = z.object({
   REDIS_URL: z.string().optional(),
   REDIS_TLS: z.coerce.boolean().optional(),
   
+  // Attachment Malware Scanning (Optional - built-in signatures only without it)
+  CLAMAV_HOST: z.string().optional(),
+  CLAMAV_PORT: z.coerce.number().default(3310),
+  
   // Monitoring (Optional but recommended)
   NEXT_PUBLIC_SENTRY_DSN: z.string().url().optional(),
   SENTRY_DSN: z.string().url().optional(),
@@ -78,6 +87,7 @@ const envSchema = z.object({
   
   // Security
   CSRF_SECRET: z.string().min(32).optional(),
+  CALENDAR_FEED_SECRET: z.string().min(32).optional(),
 });
 
 // Define required environment variables for production
@@ -0,0 +1,272 @@
+/**
+ * Message Attachment Validation
+ * Server-side checks for files shared in conversations. The MIME type is
+ * detected from the file's leading bytes and must agree with both the
+ * upload header and the extension, so a renamed executable cannot pass as
+ * an image. Files are then scanned for malware: by ClamAV when CLAMAV_HOST
+ * is configured, and always against built-in signatures (EICAR, native
+ * executables, scripts, PDFs with embedded JavaScript or launch actions,
+ * Office documents carrying macros).
+ */
+
+import net from "net";
+import { sanitizeFileName } from "@/lib/security/input-sanitization";
+import { FILE_SIZE_LIMITS } from "@/lib/supabase/storage-helpers";
+
+const CLAMAV_TIMEOUT_MS = 10_000;
+const CLAMAV_CHUNK_BYTES = 64 * 1024;
+
+export type AttachmentKind = "image" | "file";
+export type ScanEngine = "clamav" | "signatures";
+
+const DOCX_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+const XLSX_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// Accepted types, the kind they are shown as and their extensions
+export const ATTACHMENT_TYPES: Record<string, { kind: AttachmentKind; extensions: string[] }> = {
+  "image/jpeg": { kind: "image", extensions: ["jpg", "jpeg"] },
+  "image/png": { kind: "image", extensions: ["png"] },
+  "image/webp": { kind: "image", extensions: ["webp"] },
+  "image/gif": { kind: "image", extensions: ["gif"] },
+  "image/heic": { kind: "image", extensions: ["heic"] },
+  "application/pdf": { kind: "file", extensions: ["pdf"] },
+  "text/plain": { kind: "file", extensions: ["txt"] },
+  "text/csv": { kind: "file", extensions: ["csv"] },
+  [DOCX_TYPE]: { kind: "file", extensions: ["docx"] },
+  [XLSX_TYPE]: { kind: "file", extensions: ["xlsx"] },
+};
+
+export type AttachmentErrorCode =
+  | "EMPTY_FILE"
+  | "TOO_LARGE"
+  | "UNSUPPORTED_TYPE"
+  | "TYPE_MISMATCH"
+  | "MALWARE_DETECTED"
+  | "SCAN_FAILED";
+
+const ERROR_STATUS: Record<AttachmentErrorCode, number> = {
+  EMPTY_FILE: 400,
+  TOO_LARGE: 413,
+  UNSUPPORTED_TYPE: 415,
+  TYPE_MISMATCH: 415,
+  MALWARE_DETECTED: 422,
+  SCAN_FAILED: 503,
+};
+
+export class AttachmentError extends Error {
+  constructor(
+    message: string,
+    public code: AttachmentErrorCode
+  ) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+export interface AttachmentUpload {
+  data: Buffer;
+  fileName: string;
+  declaredType: string;
+}
+
+export interface ValidatedAttachment {
+  fileName: string;
+  mimeType: string;
+  kind: AttachmentKind;
+  sizeBytes: number;
+  scanEngine: ScanEngine;
+}
+
+function startsWith(data: Buffer, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, i) => data[offset + i] === byte);
+}
+
+function ascii(data: Buffer, start: number, end: number): string {
+  return data.subarray(start, end).toString("latin1");
+}
+
+/**
+ * Whether the bytes read as text: valid UTF-8 with no control characters
+ * other than tab, newline, carriage return and form feed
+ */
+function looksLikeText(data: Buffer): boolean {
+  const sample = data.subarray(0, 8192);
+  for (const byte of sample) {
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c) {
+      return false;
+    }
+  }
+  try {
+    // `stream` tolerates a character cut off at the end of the sample
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detect the MIME type from the file's contents; null if unrecognized
+ * `hint` picks between types that share a container (ZIP, plain text)
+ */
+export function sniffMimeType(data: Buffer, hint?: string): string | null {
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (ascii(data, 0, 4) === "RIFF" && ascii(data, 8, 12) === "WEBP") return "image/webp";
+  if (ascii(data, 0, 6) === "GIF87a" || ascii(data, 0, 6) === "GIF89a") return "image/gif";
+  if (ascii(data, 4, 8) === "ftyp" && ["heic", "heix", "mif1"].includes(ascii(data, 8, 12))) return "image/heic";
+  if (ascii(data, 0, 5) === "%PDF-") return "application/pdf";
+
+  // Office Open XML documents are ZIP archives; their part names say which
+  if (startsWith(data, [0x50, 0x4b, 0x03, 0x04])) {
+    const names = data.toString("latin1");
+    if (names.includes("word/")) return DOCX_TYPE;
+    if (names.includes("xl/")) return XLSX_TYPE;
+    return null;
+  }
+
+  if (looksLikeText(data)) {
+    return hint === "text/csv" ? "text/csv" : "text/plain";
+  }
+
+  return null;
+}
+
+/**
+ * Name of the first built-in malware signature the file matches, if any
+ */
+export function findThreatSignature(data: Buffer, mimeType: string): string | null {
+  const head = ascii(data, 0, 4096);
+
+  if (data.toString("latin1").includes("EICAR-STANDARD-ANTIVIRUS-TEST-FILE")) {
+    return "EICAR test file";
+  }
+  if (startsWith(data, [0x4d, 0x5a])) return "Windows executable";
+  if (startsWith(data, [0x7f, 0x45, 0x4c, 0x46])) return "ELF executable";
+  if (startsWith(data, [0xcf, 0xfa, 0xed, 0xfe]) || startsWith(data, [0xca, 0xfe, 0xba, 0xbe])) {
+    return "Mach-O executable";
+  }
+  if (head.startsWith("#!")) return "Script";
+
+  if (mimeType.startsWith("text/") && /<\s*(script|iframe|object|embed)\b/i.test(head)) {
+    return "Embedded HTML script";
+  }
+
+  if (mimeType === "application/pdf") {
+    const body = data.toString("latin1");
+    if (/\/(JavaScript|JS|Launch|EmbeddedFile)\b/.test(body)) {
+      return "PDF with active content";
+    }
+  }
+
+  if (mimeType === DOCX_TYPE || mimeType === XLSX_TYPE) {
+    if (data.toString("latin1").includes("vbaProject.bin")) {
+      return "Office macro";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Scan with a ClamAV daemon using its INSTREAM command; null means clean,
+ * otherwise the name of the detected threat
+ */
+export function scanWithClamAv(data: Buffer, host: string, port: number): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    const chunks: Buffer[] = [];
+
+    socket.setTimeout(CLAMAV_TIMEOUT_MS, () => {
+      socket.destroy(new Error("ClamAV scan timed out"));
+    });
+
+    socket.on("connect", () => {
+      socket.write("zINSTREAM\0");
+      for (let offset = 0; offset < data.length; offset += CLAMAV_CHUNK_BYTES) {
+        const chunk = data.subarray(offset, offset + CLAMAV_CHUNK_BYTES);
+        const size = Buffer.alloc(4);
+        size.writeUInt32BE(chunk.length, 0);
+        socket.write(size);
+        socket.write(chunk);
+      }
+      socket.write(Buffer.alloc(4)); // Zero-length chunk ends the stream
+    });
+
+    socket.on("data", chunk => chunks.push(chunk));
+    socket.on("error", reject);
+    socket.on("close", () => {
+      const reply = Buffer.concat(chunks).toString("utf8").replace(/\0/g, "").trim();
+      if (reply.endsWith("OK")) {
+        resolve(null);
+      } else if (reply.endsWith("FOUND")) {
+        resolve(reply.replace(/^stream:\s*/, "").replace(/\s*FOUND$/, ""));
+      } else {
+        reject(new Error(`Unexpected ClamAV reply: ${reply || "(empty)"}`));
+      }
+    });
+  });
+}
+
+/**
+ * Check type, size and contents of an upload; throws AttachmentError
+ */
+export async function validateAttachment(upload: AttachmentUpload): Promise<ValidatedAttachment> {
+  const { data } = upload;
+
+  if (data.length === 0) {
+    throw new AttachmentError("The file is empty", "EMPTY_FILE");
+  }
+  if (data.length > FILE_SIZE_LIMITS.MESSAGE_ATTACHMENT) {
+    const limitMB = FILE_SIZE_LIMITS.MESSAGE_ATTACHMENT / (1024 * 1024);
+    throw new AttachmentError(`Attachments must be ${limitMB}MB or smaller`, "TOO_LARGE");
+  }
+
+  const declaredType = upload.declaredType.toLowerCase().split(";")[0].trim();
+  const mimeType = sniffMimeType(data, declaredType);
+  const rule = mimeType ? ATTACHMENT_TYPES[mimeType] : undefined;
+
+  if (!mimeType || !rule) {
+    throw new AttachmentError(
+      "Only images (JPEG, PNG, WebP, GIF, HEIC), PDF, Word, Excel, text and CSV files can be attached",
+      "UNSUPPORTED_TYPE"
+    );
+  }
+
+  const fileName = sanitizeFileName(upload.fileName) || `attachment.${rule.extensions[0]}`;
+  const extension = fileName.includes(".") ? fileName.split(".").pop()!.toLowerCase() : "";
+
+  if ((declaredType && declaredType !== mimeType && declaredType !== "application/octet-stream") ||
+      !rule.extensions.includes(extension)) {
+    throw new AttachmentError("The file's contents do not match its name or type", "TYPE_MISMATCH");
+  }
+
+  const signature = findThreatSignature(data, mimeType);
+  if (signature) {
+    console.warn(`Blocked attachment ${fileName}: ${signature}`);
+    throw new AttachmentError("This file was blocked by our malware scan", "MALWARE_DETECTED");
+  }
+
+  let scanEngine: ScanEngine = "signatures";
+  const clamHost = process.env.CLAMAV_HOST;
+  if (clamHost) {
+    let threat: string | null;
+    try {
+      threat = await scanWithClamAv(data, clamHost, Number(process.env.CLAMAV_PORT) || 3310);
+    } catch (error) {
+      console.error("ClamAV scan failed:", error);
+      throw new AttachmentError("Files cannot be scanned right now. Please try again shortly.", "SCAN_FAILED");
+    }
+    if (threat) {
+      console.warn(`Blocked attachment ${fileName}: ${threat}`);
+      throw new AttachmentError("This file was blocked by our malware scan", "MALWARE_DETECTED");
+    }
+    scanEngine = "clamav";
+  }
+
+  return { fileName, mimeType, kind: rule.kind, sizeBytes: data.length, scanEngine };
+}
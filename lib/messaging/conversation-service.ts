@@ -0,0 +1,401 @@
+/**
+ * Conversation Service
+ * Who is in a conversation. Direct threads have their two users as members;
+ * group threads have any number of participants with roles. A group
+ * booking's thread is kept in step with the booking: its organizer, its
+ * provider and every participant who has joined (accepted, awaiting payment
+ * or paid) are in it, and people who drop out lose access to the thread.
+ *
+ * Read state is per participant (message_read_receipts) and each
+ * participant can mute a thread without leaving it.
+ */
+
+import { db } from "@/db/db";
+import {
+  conversationsTable,
+  conversationParticipantsTable,
+  messagesTable,
+  messageReadReceiptsTable,
+  profilesTable,
+  groupBookingsTable,
+  groupParticipantsTable,
+  bookingsTable,
+  providersTable,
+  type Conversation,
+  type ConversationParticipant,
+  type ConversationParticipantRole,
+  type ConversationWithParticipants,
+} from "@/db/schema";
+import { and, desc, eq, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+
+// Group participants with these statuses are in the booking's thread
+export const ACTIVE_GROUP_PARTICIPANT_STATUSES = ["accepted", "pending_payment", "paid"] as const;
+
+export interface ParticipantView {
+  userId: string;
+  email: string | null;
+  role: ConversationParticipantRole;
+  isMuted: boolean;
+  lastReadMessageId: string | null;
+  lastReadAt: Date | null;
+}
+
+export interface ConversationSummary extends Omit<ConversationWithParticipants, "lastMessage"> {
+  lastMessage: {
+    id: string;
+    content: string;
+    senderId: string;
+    createdAt: Date;
+  } | null;
+}
+
+/**
+ * Main conversation class
+ */
+export class ConversationService {
+  /**
+   * Current members of a conversation
+   */
+  async getActiveParticipants(conversationId: string): Promise<ConversationParticipant[]> {
+    return db
+      .select()
+      .from(conversationParticipantsTable)
+      .where(
+        and(
+          eq(conversationParticipantsTable.conversationId, conversationId),
+          isNull(conversationParticipantsTable.leftAt)
+        )
+      )
+      .orderBy(conversationParticipantsTable.joinedAt);
+  }
+
+  /**
+   * Current members with their email and read state
+   */
+  async getParticipantViews(conversationId: string): Promise<ParticipantView[]> {
+    return db
+      .select({
+        userId: conversationParticipantsTable.userId,
+        email: profilesTable.email,
+        role: conversationParticipantsTable.role,
+        isMuted: conversationParticipantsTable.isMuted,
+        lastReadMessageId: messageReadReceiptsTable.lastReadMessageId,
+        lastReadAt: messageReadReceiptsTable.lastReadAt,
+      })
+      .from(conversationParticipantsTable)
+      .leftJoin(profilesTable, eq(conversationParticipantsTable.userId, profilesTable.userId))
+      .leftJoin(
+        messageReadReceiptsTable,
+        and(
+          eq(messageReadReceiptsTable.conversationId, conversationParticipantsTable.conversationId),
+          eq(messageReadReceiptsTable.userId, conversationParticipantsTable.userId)
+        )
+      )
+      .where(
+        and(
+          eq(conversationParticipantsTable.conversationId, conversationId),
+          isNull(conversationParticipantsTable.leftAt)
+        )
+      )
+      .orderBy(conversationParticipantsTable.joinedAt);
+  }
+
+  /**
+   * An active conversation and the user's membership of it, or null when
+   * the user is not (or no longer) in it
+   */
+  async findMembership(
+    conversationId: string,
+    userId: string
+  ): Promise<{ conversation: Conversation; participant: ConversationParticipant } | null> {
+    const [row] = await db
+      .select({ conversation: conversationsTable, participant: conversationParticipantsTable })
+      .from(conversationsTable)
+      .innerJoin(
+        conversationParticipantsTable,
+        eq(conversationParticipantsTable.conversationId, conversationsTable.id)
+      )
+      .where(
+        and(
+          eq(conversationsTable.id, conversationId),
+          eq(conversationsTable.isActive, true),
+          eq(conversationParticipantsTable.userId, userId),
+          isNull(conversationParticipantsTable.leftAt)
+        )
+      )
+      .limit(1);
+
+    return row ?? null;
+  }
+
+  /**
+   * The user's conversations, most recent first, with members, last message,
+   * unread count and mute setting
+   */
+  async listForUser(userId: string, limit: number = 50): Promise<ConversationSummary[]> {
+    const rows = await db
+      .select({ conversation: conversationsTable, isMuted: conversationParticipantsTable.isMuted })
+      .from(conversationsTable)
+      .innerJoin(
+        conversationParticipantsTable,
+        eq(conversationParticipantsTable.conversationId, conversationsTable.id)
+      )
+      .where(
+        and(
+          eq(conversationParticipantsTable.userId, userId),
+          isNull(conversationParticipantsTable.leftAt),
+          eq(conversationsTable.isActive, true)
+        )
+      )
+      .orderBy(sql`${conversationsTable.lastMessageAt} DESC NULLS LAST`, desc(conversationsTable.createdAt))
+      .limit(limit);
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const ids = rows.map(row => row.conversation.id);
+
+    const [members, receipts, lastMessages] = await Promise.all([
+      db
+        .select({
+          conversationId: conversationParticipantsTable.conversationId,
+          userId: conversationParticipantsTable.userId,
+          role: conversationParticipantsTable.role,
+          email: profilesTable.email,
+        })
+        .from(conversationParticipantsTable)
+        .leftJoin(profilesTable, eq(conversationParticipantsTable.userId, profilesTable.userId))
+        .where(
+          and(
+            inArray(conversationParticipantsTable.conversationId, ids),
+            isNull(conversationParticipantsTable.leftAt)
+          )
+        )
+        .orderBy(conversationParticipantsTable.joinedAt),
+      db
+        .select({
+          conversationId: messageReadReceiptsTable.conversationId,
+          unreadCount: messageReadReceiptsTable.unreadCount,
+        })
+        .from(messageReadReceiptsTable)
+        .where(
+          and(
+            inArray(messageReadReceiptsTable.conversationId, ids),
+            eq(messageReadReceiptsTable.userId, userId)
+          )
+        ),
+      db
+        .selectDistinctOn([messagesTable.conversationId], {
+          conversationId: messagesTable.conversationId,
+          id: messagesTable.id,
+          content: messagesTable.content,
+          senderId: messagesTable.senderId,
+          createdAt: messagesTable.createdAt,
+        })
+        .from(messagesTable)
+        .where(and(inArray(messagesTable.conversationId, ids), eq(messagesTable.isDeleted, false)))
+        .orderBy(messagesTable.conversationId, desc(messagesTable.createdAt)),
+    ]);
+
+    return rows.map(({ conversation, isMuted }) => {
+      const lastMessage = lastMessages.find(message => message.conversationId === conversation.id);
+      return {
+        ...conversation,
+        participants: members
+          .filter(member => member.conversationId === conversation.id)
+          .map(({ userId, role, email }) => ({ userId, role, email })),
+        lastMessage: lastMessage
+          ? {
+              id: lastMessage.id,
+              content: lastMessage.content,
+              senderId: lastMessage.senderId,
+              createdAt: lastMessage.createdAt,
+            }
+          : null,
+        unreadCount: receipts.find(receipt => receipt.conversationId === conversation.id)?.unreadCount ?? 0,
+        isMuted,
+      };
+    });
+  }
+
+  /**
+   * Mute or unmute a conversation for one participant
+   */
+  async setMuted(conversationId: string, userId: string, muted: boolean): Promise<ConversationParticipant | null> {
+    const [participant] = await db
+      .update(conversationParticipantsTable)
+      .set({ isMuted: muted, mutedAt: muted ? new Date() : null })
+      .where(
+        and(
+          eq(conversationParticipantsTable.conversationId, conversationId),
+          eq(conversationParticipantsTable.userId, userId),
+          isNull(conversationParticipantsTable.leftAt)
+        )
+      )
+      .returning();
+
+    return participant ?? null;
+  }
+
+  /**
+   * Add the two users of a new direct conversation as its members
+   */
+  async addDirectMembers(
+    conversation: Pick<Conversation, "id" | "participantOneId" | "participantTwoId">,
+    executor: Pick<typeof db, "insert"> = db
+  ): Promise<void> {
+    const userIds = [conversation.participantOneId, conversation.participantTwoId]
+      .filter((userId): userId is string => Boolean(userId));
+
+    await executor
+      .insert(conversationParticipantsTable)
+      .values(userIds.map(userId => ({ conversationId: conversation.id, userId, role: "member" as const })))
+      .onConflictDoNothing();
+  }
+
+  /**
+   * Create the group booking's thread if needed and bring its members in
+   * line with the booking. Safe to call after any change to the booking or
+   * its participants.
+   */
+  async syncGroupBookingConversation(groupBookingId: string): Promise<Conversation | null> {
+    const [groupBooking] = await db
+      .select({
+        id: groupBookingsTable.id,
+        organizerId: groupBookingsTable.organizerId,
+        groupName: groupBookingsTable.groupName,
+        bookingId: groupBookingsTable.bookingId,
+        serviceName: bookingsTable.serviceName,
+        providerUserId: providersTable.userId,
+      })
+      .from(groupBookingsTable)
+      .leftJoin(bookingsTable, eq(groupBookingsTable.bookingId, bookingsTable.id))
+      .leftJoin(providersTable, eq(bookingsTable.providerId, providersTable.id))
+      .where(eq(groupBookingsTable.id, groupBookingId))
+      .limit(1);
+
+    if (!groupBooking) {
+      return null;
+    }
+
+    const joined = await db
+      .select({ userId: groupParticipantsTable.userId })
+      .from(groupParticipantsTable)
+      .where(
+        and(
+          eq(groupParticipantsTable.groupBookingId, groupBookingId),
+          inArray(groupParticipantsTable.status, [...ACTIVE_GROUP_PARTICIPANT_STATUSES]),
+          isNotNull(groupParticipantsTable.userId)
+        )
+      );
+
+    // Later roles win: the organizer is also listed as a participant
+    const members = new Map<string, ConversationParticipantRole>();
+    for (const { userId } of joined) {
+      members.set(userId!, "participant");
+    }
+    if (groupBooking.providerUserId) {
+      members.set(groupBooking.providerUserId, "provider");
+    }
+    members.set(groupBooking.organizerId, "organizer");
+
+    const title = groupBooking.groupName || groupBooking.serviceName || "Group booking";
+    const conversation = await this.findOrCreateGroupConversation(groupBooking.id, groupBooking.bookingId, title);
+
+    const existing = await db
+      .select()
+      .from(conversationParticipantsTable)
+      .where(eq(conversationParticipantsTable.conversationId, conversation.id));
+
+    const now = new Date();
+    await db.transaction(async (tx) => {
+      if (conversation.title !== title) {
+        await tx
+          .update(conversationsTable)
+          .set({ title })
+          .where(eq(conversationsTable.id, conversation.id));
+      }
+
+      for (const [userId, role] of members) {
+        const current = existing.find(participant => participant.userId === userId);
+        if (!current) {
+          await tx
+            .insert(conversationParticipantsTable)
+            .values({ conversationId: conversation.id, userId, role })
+            .onConflictDoNothing();
+        } else if (current.leftAt || current.role !== role) {
+          await tx
+            .update(conversationParticipantsTable)
+            .set({ role, leftAt: null, joinedAt: current.leftAt ? now : current.joinedAt })
+            .where(eq(conversationParticipantsTable.id, current.id));
+        }
+      }
+
+      const departed = existing.filter(participant => !participant.leftAt && !members.has(participant.userId));
+      if (departed.length > 0) {
+        await tx
+          .update(conversationParticipantsTable)
+          .set({ leftAt: now })
+          .where(inArray(conversationParticipantsTable.id, departed.map(participant => participant.id)));
+      }
+    });
+
+    return { ...conversation, title };
+  }
+
+  /**
+   * The group booking's thread, if the user is one of its members
+   */
+  async openGroupBookingConversation(groupBookingId: string, userId: string): Promise<Conversation | null> {
+    const conversation = await this.syncGroupBookingConversation(groupBookingId);
+    if (!conversation) {
+      return null;
+    }
+
+    const membership = await this.findMembership(conversation.id, userId);
+    return membership?.conversation ?? null;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private async findOrCreateGroupConversation(
+    groupBookingId: string,
+    bookingId: string | null,
+    title: string
+  ): Promise<Conversation> {
+    const [existing] = await db
+      .select()
+      .from(conversationsTable)
+      .where(eq(conversationsTable.groupBookingId, groupBookingId))
+      .limit(1);
+
+    if (existing) {
+      return existing;
+    }
+
+    const [created] = await db
+      .insert(conversationsTable)
+      .values({ kind: "group", title, bookingId, groupBookingId })
+      .onConflictDoNothing()
+      .returning();
+
+    if (created) {
+      return created;
+    }
+
+    // Created concurrently by another sync
+    const [raced] = await db
+      .select()
+      .from(conversationsTable)
+      .where(eq(conversationsTable.groupBookingId, groupBookingId))
+      .limit(1);
+
+    return raced;
+  }
+}
+
+// Export singleton instance
+export const conversationService = new ConversationService();
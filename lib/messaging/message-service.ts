@@ -0,0 +1,567 @@
+/**
+ * Message Service
+ * Sending messages: finds or opens a direct conversation between two users
+ * or posts into an existing (possibly group) thread, validates structured
+ * card payloads, attaches previously uploaded files and keeps every other
+ * participant's unread count current. Sent messages are pushed to open
+ * conversation streams (see lib/messaging/realtime.ts).
+ *
+ * Everything the sender writes, including the free-text fields of cards, is
+ * screened for off-platform contact details before it is stored (see
+ * lib/security/contact-screening-service.ts).
+ *
+ * Attachments are uploaded first (POST /api/messages/[conversationId]/attachments),
+ * validated and malware-scanned server-side, stored in the private
+ * message-attachments bucket and then referenced by id when sending.
+ */
+
+import { db } from "@/db/db";
+import {
+  conversationsTable,
+  messagesTable,
+  messageAttachmentsTable,
+  messageReadReceiptsTable,
+  bookingsTable,
+  providersTable,
+  profilesTable,
+  type Conversation,
+  type ConversationParticipant,
+  type Message,
+  type MessageAttachment,
+  type MessageMetadata,
+  type MessageType,
+  type ContactKind,
+} from "@/db/schema";
+import { and, eq, inArray, isNull, or, sql } from "drizzle-orm";
+import {
+  generateMessageAttachmentPath,
+  getSignedAttachmentUrls,
+  uploadMessageAttachment,
+} from "@/lib/supabase/storage-helpers";
+import { validateAttachment, type AttachmentUpload } from "@/lib/messaging/attachment-validation";
+import {
+  isStructuredMessageType,
+  parseStructuredMessage,
+  summarizeAttachments,
+  summarizeStructuredMessage,
+} from "@/lib/messaging/structured-messages";
+import { publishConversationEvent } from "@/lib/messaging/realtime";
+import { conversationService } from "@/lib/messaging/conversation-service";
+import {
+  contactScreeningService,
+  type ScreeningContext,
+  type ScreeningAction,
+} from "@/lib/security/contact-screening-service";
+
+const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// Card fields the sender does not write; ids can look like phone numbers
+const UNSCREENED_CARD_FIELDS = new Set(["type", "bookingId"]);
+
+export type SendableMessageType = Exclude<MessageType, "system">;
+
+export interface SendMessageInput {
+  conversationId?: string;
+  recipientId?: string;
+  bookingId?: string;
+  messageType?: SendableMessageType;
+  content?: string;
+  payload?: unknown;
+  attachmentIds?: string[];
+}
+
+export interface AttachmentView {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  kind: "image" | "file";
+  url: string | null; // Signed, short-lived
+}
+
+export interface SentMessage extends Message {
+  attachments: AttachmentView[];
+  screening: { action: ScreeningAction; kinds: ContactKind[] };
+}
+
+export type MessagingErrorCode =
+  | "NOT_FOUND"
+  | "FORBIDDEN"
+  | "INVALID_MESSAGE"
+  | "ATTACHMENT_NOT_FOUND";
+
+const ERROR_STATUS: Record<MessagingErrorCode, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  INVALID_MESSAGE: 400,
+  ATTACHMENT_NOT_FOUND: 404,
+};
+
+export class MessagingError extends Error {
+  constructor(
+    message: string,
+    public code: MessagingErrorCode
+  ) {
+    super(message);
+    this.name = 'MessagingError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+/**
+ * The stored type of a message: plain text with files becomes an image
+ * message when every file is an image, otherwise a file message
+ */
+export function resolveMessageType(
+  requested: SendableMessageType,
+  attachments: Pick<MessageAttachment, "kind">[]
+): SendableMessageType {
+  if (requested !== "text" || attachments.length === 0) {
+    return requested;
+  }
+  return attachments.every(a => a.kind === "image") ? "image" : "file";
+}
+
+/**
+ * Copy of a JSON value with every string passed through `fn` along with its
+ * key, visited in key order
+ */
+function mapStrings<T>(value: T, fn: (value: string, key?: string) => string, key?: string): T {
+  if (typeof value === "string") {
+    return fn(value, key) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapStrings(item, fn, key)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([entryKey, item]) => [entryKey, mapStrings(item, fn, entryKey)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Whose contact details matter in a group thread: the provider's, or the
+ * organizer's when the provider is writing. Null when neither is present.
+ */
+export function screeningCounterpart(
+  participants: Pick<ConversationParticipant, "userId" | "role">[],
+  senderId: string
+): string | null {
+  const others = participants.filter(participant => participant.userId !== senderId);
+  const sender = participants.find(participant => participant.userId === senderId);
+  const role = sender?.role === "provider" ? "organizer" : "provider";
+  return others.find(participant => participant.role === role)?.userId ?? null;
+}
+
+/**
+ * Main message class
+ */
+export class MessageService {
+  /**
+   * Send a message into an existing conversation or to a recipient
+   */
+  async sendMessage(senderId: string, input: SendMessageInput): Promise<SentMessage> {
+    const conversation = input.conversationId
+      ? await this.getConversationForParticipant(input.conversationId, senderId)
+      : await this.findOrCreateConversation(senderId, input.recipientId, input.bookingId);
+    const participants = await conversationService.getActiveParticipants(conversation.id);
+    const recipientIds = participants
+      .map(participant => participant.userId)
+      .filter(userId => userId !== senderId);
+    // Only direct messages have a single recipient
+    const recipientId = conversation.kind === "direct" ? recipientIds[0] ?? null : null;
+
+    const attachmentIds = [...new Set(input.attachmentIds || [])];
+    if (attachmentIds.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      throw new MessagingError(`Up to ${MAX_ATTACHMENTS_PER_MESSAGE} files can be sent at once`, "INVALID_MESSAGE");
+    }
+
+    const attachments = attachmentIds.length > 0
+      ? await db
+          .select()
+          .from(messageAttachmentsTable)
+          .where(
+            and(
+              inArray(messageAttachmentsTable.id, attachmentIds),
+              eq(messageAttachmentsTable.conversationId, conversation.id),
+              eq(messageAttachmentsTable.uploaderId, senderId),
+              isNull(messageAttachmentsTable.messageId)
+            )
+          )
+      : [];
+
+    if (attachments.length !== attachmentIds.length) {
+      throw new MessagingError("One or more attachments were not found", "ATTACHMENT_NOT_FOUND");
+    }
+
+    const messageType = resolveMessageType(input.messageType || "text", attachments);
+    const built = await this.buildContent(messageType, input, attachments, conversation, senderId, recipientId);
+    const counterpartId = conversation.kind === "direct"
+      ? recipientId
+      : screeningCounterpart(participants, senderId);
+    const { content, metadata, screening } = await this.screenContent(
+      built,
+      Boolean(input.content?.trim()),
+      counterpartId
+        ? { senderId, recipientId: counterpartId, source: "message", conversationId: conversation.id }
+        : null
+    );
+
+    const now = new Date();
+    const message = await db.transaction(async (tx) => {
+      const [message] = await tx
+        .insert(messagesTable)
+        .values({
+          conversationId: conversation.id,
+          senderId,
+          recipientId,
+          content,
+          messageType,
+          metadata,
+        })
+        .returning();
+
+      if (attachments.length > 0) {
+        await tx
+          .update(messageAttachmentsTable)
+          .set({ messageId: message.id })
+          .where(inArray(messageAttachmentsTable.id, attachments.map(a => a.id)));
+      }
+
+      await tx
+        .update(conversationsTable)
+        .set({ lastMessageAt: now })
+        .where(eq(conversationsTable.id, conversation.id));
+
+      if (recipientIds.length > 0) {
+        const updated = await tx
+          .update(messageReadReceiptsTable)
+          .set({ unreadCount: sql`${messageReadReceiptsTable.unreadCount} + 1`, updatedAt: now })
+          .where(
+            and(
+              eq(messageReadReceiptsTable.conversationId, conversation.id),
+              inArray(messageReadReceiptsTable.userId, recipientIds)
+            )
+          )
+          .returning({ userId: messageReadReceiptsTable.userId });
+
+        const missing = recipientIds.filter(userId => !updated.some(receipt => receipt.userId === userId));
+        if (missing.length > 0) {
+          await tx
+            .insert(messageReadReceiptsTable)
+            .values(missing.map(userId => ({ conversationId: conversation.id, userId, unreadCount: 1 })));
+        }
+      }
+
+      return message;
+    });
+
+    const views = await this.getAttachmentsForMessages([message.id]);
+    const sent = { ...message, attachments: views[message.id] || [], screening };
+
+    await this.publishMessage(sent);
+    return sent;
+  }
+
+  /**
+   * Validate, scan and store a file for a later message in the conversation
+   */
+  async uploadAttachment(
+    conversationId: string,
+    uploaderId: string,
+    upload: AttachmentUpload
+  ): Promise<AttachmentView> {
+    await this.getConversationForParticipant(conversationId, uploaderId);
+
+    const validated = await validateAttachment(upload);
+    const storagePath = generateMessageAttachmentPath(conversationId, validated.fileName);
+
+    await uploadMessageAttachment(upload.data, storagePath, validated.mimeType);
+
+    const [attachment] = await db
+      .insert(messageAttachmentsTable)
+      .values({
+        conversationId,
+        uploaderId,
+        storagePath,
+        fileName: validated.fileName,
+        mimeType: validated.mimeType,
+        sizeBytes: validated.sizeBytes,
+        kind: validated.kind,
+        scanEngine: validated.scanEngine,
+      })
+      .returning();
+
+    const urls = await getSignedAttachmentUrls([storagePath]);
+    return this.toView(attachment, urls);
+  }
+
+  /**
+   * Attachments of the given messages with signed URLs, keyed by message id
+   */
+  async getAttachmentsForMessages(messageIds: string[]): Promise<Record<string, AttachmentView[]>> {
+    if (messageIds.length === 0) {
+      return {};
+    }
+
+    const attachments = await db
+      .select()
+      .from(messageAttachmentsTable)
+      .where(inArray(messageAttachmentsTable.messageId, messageIds))
+      .orderBy(messageAttachmentsTable.createdAt);
+
+    if (attachments.length === 0) {
+      return {};
+    }
+
+    let urls: Record<string, string> = {};
+    try {
+      urls = await getSignedAttachmentUrls(attachments.map(a => a.storagePath));
+    } catch (error) {
+      console.error("Error signing attachment URLs:", error);
+    }
+
+    const byMessage: Record<string, AttachmentView[]> = {};
+    for (const attachment of attachments) {
+      (byMessage[attachment.messageId!] ||= []).push(this.toView(attachment, urls));
+    }
+    return byMessage;
+  }
+
+  /**
+   * An active conversation the user takes part in
+   */
+  async getConversationForParticipant(conversationId: string, userId: string): Promise<Conversation> {
+    const membership = await conversationService.findMembership(conversationId, userId);
+
+    if (!membership) {
+      throw new MessagingError("Conversation not found or access denied", "NOT_FOUND");
+    }
+
+    return membership.conversation;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private async findOrCreateConversation(
+    senderId: string,
+    recipientId: string | undefined,
+    bookingId?: string
+  ): Promise<Conversation> {
+    if (!recipientId) {
+      throw new MessagingError("A recipient or conversation is required", "INVALID_MESSAGE");
+    }
+    if (recipientId === senderId) {
+      throw new MessagingError("You cannot message yourself", "INVALID_MESSAGE");
+    }
+
+    const between = or(
+      and(eq(conversationsTable.participantOneId, senderId), eq(conversationsTable.participantTwoId, recipientId)),
+      and(eq(conversationsTable.participantOneId, recipientId), eq(conversationsTable.participantTwoId, senderId))
+    );
+
+    const [existing] = await db
+      .select()
+      .from(conversationsTable)
+      .where(and(between, eq(conversationsTable.isActive, true)))
+      .limit(1);
+
+    if (existing) {
+      return existing;
+    }
+
+    const created = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(conversationsTable)
+        .values({ kind: "direct", participantOneId: senderId, participantTwoId: recipientId, bookingId })
+        .onConflictDoNothing()
+        .returning();
+
+      if (created) {
+        await conversationService.addDirectMembers(created, tx);
+      }
+      return created;
+    });
+
+    if (created) {
+      return created;
+    }
+
+    // Opened concurrently by the other participant
+    const [raced] = await db
+      .select()
+      .from(conversationsTable)
+      .where(and(between, eq(conversationsTable.isActive, true)))
+      .limit(1);
+
+    return raced;
+  }
+
+  private async buildContent(
+    messageType: SendableMessageType,
+    input: SendMessageInput,
+    attachments: MessageAttachment[],
+    conversation: Conversation,
+    senderId: string,
+    recipientId: string | null
+  ): Promise<{ content: string; metadata: MessageMetadata | null }> {
+    const text = input.content?.trim() || "";
+
+    if (isStructuredMessageType(messageType)) {
+      if (input.payload === undefined) {
+        throw new MessagingError("This message type needs a payload", "INVALID_MESSAGE");
+      }
+      const metadata = parseStructuredMessage(messageType, input.payload);
+      if (metadata.type === "reschedule_request") {
+        await this.assertReschedulableBooking(metadata.reschedule.bookingId, conversation, senderId, recipientId);
+      }
+      return { content: summarizeStructuredMessage(metadata), metadata };
+    }
+
+    if (messageType === "image" || messageType === "file") {
+      if (attachments.length === 0) {
+        throw new MessagingError("Attach at least one file", "INVALID_MESSAGE");
+      }
+      return { content: text || summarizeAttachments(attachments.map(a => a.fileName)), metadata: null };
+    }
+
+    if (!text) {
+      throw new MessagingError("Message content is required", "INVALID_MESSAGE");
+    }
+    return { content: text, metadata: null };
+  }
+
+  /**
+   * Mask contact details in what the sender wrote. For cards that is every
+   * free-text field, after which the summary is rebuilt; generated text
+   * such as "Sent photo.jpg" is left alone.
+   */
+  private async screenContent(
+    built: { content: string; metadata: MessageMetadata | null },
+    hasWrittenText: boolean,
+    context: ScreeningContext | null
+  ): Promise<{ content: string; metadata: MessageMetadata | null; screening: SentMessage["screening"] }> {
+    // Nobody in the thread the platform fee could be dodged with
+    if (!context) {
+      return { ...built, screening: { action: "allowed", kinds: [] } };
+    }
+
+    if (built.metadata) {
+      const texts: string[] = [];
+      mapStrings(built.metadata, (value, key) => {
+        if (!UNSCREENED_CARD_FIELDS.has(key ?? "")) {
+          texts.push(value);
+        }
+        return value;
+      });
+
+      const outcome = await contactScreeningService.screen(context, texts);
+      if (outcome.action !== "masked") {
+        return { ...built, screening: { action: outcome.action, kinds: [] } };
+      }
+
+      let index = 0;
+      const metadata = mapStrings(built.metadata, (value, key) =>
+        UNSCREENED_CARD_FIELDS.has(key ?? "") ? value : outcome.texts[index++]
+      );
+      return {
+        content: summarizeStructuredMessage(metadata),
+        metadata,
+        screening: { action: outcome.action, kinds: outcome.kinds },
+      };
+    }
+
+    if (!hasWrittenText) {
+      return { ...built, screening: { action: "allowed", kinds: [] } };
+    }
+
+    const outcome = await contactScreeningService.screen(context, [built.content]);
+    return {
+      content: outcome.texts[0],
+      metadata: null,
+      screening: { action: outcome.action, kinds: outcome.kinds },
+    };
+  }
+
+  /**
+   * Reschedule requests must be about a booking between the two participants
+   * of a direct thread, or about the group thread's own booking
+   */
+  private async assertReschedulableBooking(
+    bookingId: string,
+    conversation: Conversation,
+    senderId: string,
+    recipientId: string | null
+  ): Promise<void> {
+    if (conversation.kind === "group" || !recipientId) {
+      if (!conversation.bookingId || conversation.bookingId !== bookingId) {
+        throw new MessagingError("That booking is not this group's booking", "FORBIDDEN");
+      }
+      return;
+    }
+
+    await this.assertBookingBetween(bookingId, senderId, recipientId);
+  }
+
+  private async assertBookingBetween(bookingId: string, userA: string, userB: string): Promise<void> {
+    const [booking] = await db
+      .select({ customerId: bookingsTable.customerId, providerUserId: providersTable.userId })
+      .from(bookingsTable)
+      .innerJoin(providersTable, eq(bookingsTable.providerId, providersTable.id))
+      .where(eq(bookingsTable.id, bookingId))
+      .limit(1);
+
+    const parties = booking ? [booking.customerId, booking.providerUserId] : [];
+    if (!parties.includes(userA) || !parties.includes(userB)) {
+      throw new MessagingError("That booking is not between you and this user", "FORBIDDEN");
+    }
+  }
+
+  private async publishMessage(message: SentMessage): Promise<void> {
+    const [sender] = await db
+      .select({ email: profilesTable.email })
+      .from(profilesTable)
+      .where(eq(profilesTable.userId, message.senderId))
+      .limit(1);
+
+    await publishConversationEvent({
+      type: "message",
+      conversationId: message.conversationId,
+      message: {
+        id: message.id,
+        conversationId: message.conversationId,
+        senderId: message.senderId,
+        content: message.content,
+        messageType: message.messageType,
+        metadata: message.metadata,
+        attachments: message.attachments,
+        isRead: message.isRead,
+        isEdited: message.isEdited,
+        createdAt: message.createdAt.toISOString(),
+        updatedAt: message.updatedAt.toISOString(),
+        sender: { userId: message.senderId, email: sender?.email ?? null },
+      },
+    });
+  }
+
+  private toView(attachment: MessageAttachment, urls: Record<string, string>): AttachmentView {
+    return {
+      id: attachment.id,
+      fileName: attachment.fileName,
+      mimeType: attachment.mimeType,
+      sizeBytes: attachment.sizeBytes,
+      kind: attachment.kind,
+      url: urls[attachment.storagePath] ?? null,
+    };
+  }
+}
+
+// Export singleton instance
+export const messageService = new MessageService();
@@ -0,0 +1,168 @@
+/**
+ * Messaging Realtime Channel
+ * Fans conversation events (new messages, read receipts, typing) out to the
+ * Server-Sent Events streams at /api/messages/[conversationId]/stream, and
+ * tracks who is online in each conversation.
+ *
+ * Events go through Redis pub/sub when Upstash is configured, so every
+ * server instance sees them. Without Redis they fall back to an in-process
+ * emitter, which only reaches streams on the same instance; clients keep a
+ * slow poll running for that case and switch to polling entirely if the
+ * stream cannot connect.
+ */
+
+import { EventEmitter } from "events";
+import { redis, cacheHGetAll, cacheHSet, cacheHDel, cacheExpire } from "@/lib/redis";
+
+// Each open stream refreshes its presence entry on every heartbeat; a crashed one ages out
+export const HEARTBEAT_INTERVAL_MS = 25_000;
+export const PRESENCE_TTL_SECONDS = 60;
+
+export interface RealtimeMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  content: string;
+  messageType: string;
+  metadata: unknown;
+  attachments: unknown[];
+  isRead: boolean;
+  isEdited: boolean;
+  createdAt: string;
+  updatedAt: string;
+  sender: { userId: string; email: string | null };
+}
+
+export type ConversationEvent =
+  | { type: "message"; conversationId: string; message: RealtimeMessage }
+  | { type: "read"; conversationId: string; userId: string; lastReadMessageId: string; readAt: string }
+  | { type: "typing"; conversationId: string; userId: string; isTyping: boolean }
+  | { type: "presence"; conversationId: string; userId: string; online: boolean };
+
+export type Unsubscribe = () => Promise<void>;
+
+const channelFor = (conversationId: string) => `messaging:conversation:${conversationId}`;
+const presenceKey = (userId: string) => `messaging:presence:${userId}`;
+
+// Each of a user's open streams, by connection id: the conversation it shows
+// and its last heartbeat (epoch ms). One Redis hash per user, one field per stream.
+interface PresenceConnection {
+  conversationId: string;
+  seenAt: number;
+}
+type PresenceConnections = Record<string, PresenceConnection>;
+
+// Survives module reloads in development so open streams keep receiving
+const globalForRealtime = globalThis as unknown as { messagingEmitter?: EventEmitter };
+const emitter = globalForRealtime.messagingEmitter ?? new EventEmitter().setMaxListeners(0);
+globalForRealtime.messagingEmitter = emitter;
+
+export const realtimeTransport = (): "redis" | "memory" => (redis ? "redis" : "memory");
+
+/**
+ * Format one Server-Sent Events frame
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Deliver an event to everyone streaming the conversation. Never throws:
+ * realtime delivery is best-effort, the data is already stored.
+ */
+export async function publishConversationEvent(event: ConversationEvent): Promise<void> {
+  const channel = channelFor(event.conversationId);
+  try {
+    if (redis) {
+      await redis.publish(channel, JSON.stringify(event));
+      return;
+    }
+    emitter.emit(channel, event);
+  } catch (error) {
+    console.error(`Error publishing ${event.type} event:`, error);
+  }
+}
+
+/**
+ * Listen to a conversation's events until the returned function is called
+ */
+export function subscribeToConversation(
+  conversationId: string,
+  onEvent: (event: ConversationEvent) => void
+): Unsubscribe {
+  const channel = channelFor(conversationId);
+
+  if (redis) {
+    const subscriber = redis.subscribe<ConversationEvent | string>(channel);
+    subscriber.on("message", ({ message }) => {
+      onEvent(typeof message === "string" ? JSON.parse(message) : message);
+    });
+    subscriber.on("error", (error) => {
+      console.error(`Realtime subscription error on ${channel}:`, error);
+    });
+    return async () => {
+      subscriber.removeAllListeners();
+      await subscriber.unsubscribe();
+    };
+  }
+
+  emitter.on(channel, onEvent);
+  return async () => {
+    emitter.off(channel, onEvent);
+  };
+}
+
+/**
+ * The user's open streams, leaving out ones that stopped heartbeating
+ * without closing (e.g. a crashed server instance)
+ */
+async function liveConnections(userId: string, now: number): Promise<PresenceConnections> {
+  const stored = await cacheHGetAll(presenceKey(userId));
+  const connections: PresenceConnections = {};
+  for (const [connectionId, connection] of Object.entries(stored ?? {})) {
+    const entry = connection as PresenceConnection | null;
+    if (entry && typeof entry === "object" && now - entry.seenAt < PRESENCE_TTL_SECONDS * 1000) {
+      connections[connectionId] = entry;
+    }
+  }
+  return connections;
+}
+
+const hasStreamIn = (connections: PresenceConnections, conversationId: string) =>
+  Object.values(connections).some(connection => connection.conversationId === conversationId);
+
+/**
+ * Whether the user has a stream open, in the given conversation when one is passed
+ */
+export async function isOnline(userId: string, conversationId?: string): Promise<boolean> {
+  const connections = await liveConnections(userId, Date.now());
+  return conversationId
+    ? hasStreamIn(connections, conversationId)
+    : Object.keys(connections).length > 0;
+}
+
+/**
+ * Refresh one stream's presence, announcing the user to the conversation
+ * when no other stream of theirs had it open
+ */
+export async function heartbeatPresence(conversationId: string, userId: string, connectionId: string): Promise<void> {
+  const now = Date.now();
+  const connections = await liveConnections(userId, now);
+  await cacheHSet(presenceKey(userId), connectionId, { conversationId, seenAt: now });
+  await cacheExpire(presenceKey(userId), PRESENCE_TTL_SECONDS);
+  if (!hasStreamIn(connections, conversationId)) {
+    await publishConversationEvent({ type: "presence", conversationId, userId, online: true });
+  }
+}
+
+/**
+ * One of the user's streams closed. They only go offline in its
+ * conversation once no other stream of theirs has it open.
+ */
+export async function leavePresence(conversationId: string, userId: string, connectionId: string): Promise<void> {
+  await cacheHDel(presenceKey(userId), connectionId);
+  const connections = await liveConnections(userId, Date.now());
+  if (!hasStreamIn(connections, conversationId)) {
+    await publishConversationEvent({ type: "presence", conversationId, userId, online: false });
+  }
+}
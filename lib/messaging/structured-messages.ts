@@ -0,0 +1,132 @@
+/**
+ * Structured Messages
+ * Payload validation and plain-text summaries for the card message types:
+ * booking proposals, quotes, location pins and reschedule requests. The
+ * summary is stored as the message content so notifications, previews and
+ * older clients still show something readable.
+ */
+
+import { z } from "zod";
+import { format } from "date-fns";
+import { formatAmount, normalizeCurrency } from "@/lib/payments/currency";
+import type { MessageMetadata, MessageType, QuoteLineItem } from "@/db/schema";
+
+export const STRUCTURED_MESSAGE_TYPES = [
+  "booking_proposal",
+  "quote",
+  "location",
+  "reschedule_request",
+] as const;
+
+export type StructuredMessageType = typeof STRUCTURED_MESSAGE_TYPES[number];
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+const timeString = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+const currencyCode = z.string().length(3).transform(normalizeCurrency);
+
+const bookingProposalSchema = z.object({
+  serviceName: z.string().trim().min(1).max(200),
+  date: dateString,
+  startTime: timeString,
+  endTime: timeString,
+  price: z.number().nonnegative(),
+  currency: currencyCode,
+  note: z.string().max(1000).optional(),
+}).refine(p => p.endTime > p.startTime, { message: "End time must be after start time", path: ["endTime"] });
+
+const quoteSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  lineItems: z.array(z.object({
+    description: z.string().trim().min(1).max(200),
+    quantity: z.number().positive().max(10000),
+    unitPrice: z.number().nonnegative(),
+  })).min(1).max(50),
+  currency: currencyCode,
+  validUntil: dateString.optional(),
+  note: z.string().max(1000).optional(),
+});
+
+const locationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  label: z.string().trim().max(200).optional(),
+  address: z.string().trim().max(500).optional(),
+});
+
+const rescheduleRequestSchema = z.object({
+  bookingId: z.string().uuid(),
+  proposedDate: dateString,
+  proposedStartTime: timeString,
+  proposedEndTime: timeString,
+  reason: z.string().max(1000).optional(),
+}).refine(p => p.proposedEndTime > p.proposedStartTime, {
+  message: "End time must be after start time",
+  path: ["proposedEndTime"],
+});
+
+export function isStructuredMessageType(type: MessageType): type is StructuredMessageType {
+  return (STRUCTURED_MESSAGE_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Quote total in major units, rounded to cents
+ */
+export function quoteTotal(lineItems: QuoteLineItem[]): number {
+  const total = lineItems.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * Validate a card's payload; throws z.ZodError when it is malformed
+ */
+export function parseStructuredMessage(type: StructuredMessageType, payload: unknown): MessageMetadata {
+  switch (type) {
+    case "booking_proposal":
+      return { type, proposal: bookingProposalSchema.parse(payload) };
+    case "quote": {
+      const quote = quoteSchema.parse(payload);
+      return { type, quote: { ...quote, total: quoteTotal(quote.lineItems) } };
+    }
+    case "location":
+      return { type, location: locationSchema.parse(payload) };
+    case "reschedule_request":
+      return { type, reschedule: rescheduleRequestSchema.parse(payload) };
+  }
+}
+
+/**
+ * Content stored for a message that only carries files
+ */
+export function summarizeAttachments(fileNames: string[]): string {
+  return fileNames.length === 1 ? `Sent ${fileNames[0]}` : `Sent ${fileNames.length} files`;
+}
+
+function formatDay(date: string): string {
+  return format(new Date(`${date}T00:00:00`), "EEE, MMM d");
+}
+
+/**
+ * One-line text version of a card, stored as the message content
+ */
+export function summarizeStructuredMessage(metadata: MessageMetadata): string {
+  switch (metadata.type) {
+    case "booking_proposal": {
+      const { proposal } = metadata;
+      return `Booking proposal: ${proposal.serviceName} on ${formatDay(proposal.date)}, ` +
+        `${proposal.startTime}-${proposal.endTime} for ${formatAmount(proposal.price, proposal.currency)}`;
+    }
+    case "quote": {
+      const { quote } = metadata;
+      return `Quote: ${quote.title} - ${formatAmount(quote.total, quote.currency)}`;
+    }
+    case "location": {
+      const { location } = metadata;
+      return `Location: ${location.label || location.address || `${location.latitude}, ${location.longitude}`}`;
+    }
+    case "reschedule_request": {
+      const { reschedule } = metadata;
+      return `Reschedule request: ${formatDay(reschedule.proposedDate)}, ` +
+        `${reschedule.proposedStartTime}-${reschedule.proposedEndTime}`;
+    }
+  }
+}
@@ -8,6 +8,7 @@
 import { db } from '@/db/db';
 import { bookingRemindersTable } from '@/db/schema/enhanced-booking-schema';
 import { eq } from 'drizzle-orm';
+import { formatAmount } from '@/lib/payments/currency';
 
 // Notification types
 export enum NotificationType {
@@ -17,6 +18,10 @@ export enum NotificationType {
   BOOKING_REJECTED = 'booking_rejected',
   BOOKING_CANCELLED = 'booking_cancelled',
   BOOKING_COMPLETED = 'booking_completed',
+  BOOKING_STATUS_CHANGED = 'booking_status_changed',
+  BOOKING_RESCHEDULED = 'booking_rescheduled',
+  RESCHEDULE_REQUESTED = 'reschedule_requested',
+  RESCHEDULE_DECLINED = 'reschedule_declined',
   
   // Payment notifications
   PAYMENT_CONFIRMED = 'payment_confirmed',
@@ -27,10 +32,25 @@ export enum NotificationType {
   PAYOUT_COMPLETED = 'payout_completed',
   PAYOUT_FAILED = 'payout_failed',
   
+  // Dispute notifications
+  DISPUTE_EVIDENCE_REMINDER = 'dispute_evidence_reminder',
+  
   // Reminder notifications
   SERVICE_REMINDER = 'service_reminder',
   REVIEW_REMINDER = 'review_reminder',
-  PAYMENT_REMINDER = 'payment_reminder'
+  PAYMENT_REMINDER = 'payment_reminder',
+  
+  // Waitlist notifications
+  WAITLIST_OFFER = 'waitlist_offer',
+  WAITLIST_OFFER_EXPIRED = 'waitlist_offer_expired',
+  
+  // Marketplace offer notifications
+  THING_OFFER = 'thing_offer',
+  THING_OFFER_ACCEPTED = 'thing_offer_accepted',
+  THING_OFFER_CLOSED = 'thing_offer_closed',
+  
+  // Marketplace order notifications
+  THING_ORDER_UPDATE = 'thing_order_update'
 }
 
 // Notification priority
@@ -192,6 +212,40 @@ export class NotificationService {
     console.log('Booking completed notification sent:', data.bookingId);
   }
   
+  /**
+   * Queue a booking status change for one party
+   * Recorded for every persisted transition into a state that notifies
+   */
+  async sendBookingStatusChangedNotification(data: {
+    bookingId: string;
+    recipientType: 'customer' | 'provider';
+    customerId?: string;
+    guestEmail?: string;
+    providerId: string;
+    serviceName: string;
+    previousState: string;
+    state: string;
+    stateLabel: string;
+  }): Promise<void> {
+    const email = data.recipientType === 'customer'
+      ? data.guestEmail || await this.getCustomerEmail(data.customerId)
+      : await this.getProviderEmail(data.providerId);
+    
+    await this.queue({
+      type: NotificationType.BOOKING_STATUS_CHANGED,
+      bookingId: data.bookingId,
+      recipientEmail: email || undefined,
+      recipientId: data.recipientType === 'customer' ? data.customerId : data.providerId,
+      metadata: {
+        recipientType: data.recipientType,
+        serviceName: data.serviceName,
+        previousState: data.previousState,
+        state: data.state,
+        stateLabel: data.stateLabel
+      }
+    });
+  }
+  
   /**
    * Send booking cancelled notification
    */
@@ -249,6 +303,371 @@ export class NotificationService {
     console.log('Booking cancelled notifications sent:', data.bookingId);
   }
   
+  /**
+   * Send booking rescheduled notification
+   */
+  async sendBookingRescheduledNotification(data: {
+    bookingId: string;
+    customerId?: string;
+    guestEmail?: string;
+    providerId: string;
+    serviceName: string;
+    previousDate: string;
+    previousStartTime: string;
+    bookingDate: string;
+    startTime: string;
+    priceDifference?: number;
+  }): Promise<void> {
+    const customerEmail = data.guestEmail || await this.getCustomerEmail(data.customerId);
+    const providerEmail = await this.getProviderEmail(data.providerId);
+    const details = {
+      serviceName: data.serviceName,
+      previousDate: data.previousDate,
+      previousStartTime: data.previousStartTime,
+      bookingDate: data.bookingDate,
+      startTime: data.startTime,
+      priceDifference: data.priceDifference
+    };
+    
+    // Send to customer
+    if (customerEmail) {
+      await this.sendEmail({
+        to: customerEmail,
+        subject: `Booking Rescheduled - ${data.serviceName}`,
+        template: 'booking-rescheduled-customer',
+        data: details
+      });
+    }
+    
+    // Send to provider
+    if (providerEmail) {
+      await this.sendEmail({
+        to: providerEmail,
+        subject: `Booking Rescheduled - ${data.serviceName}`,
+        template: 'booking-rescheduled-provider',
+        data: details
+      });
+    }
+    
+    console.log('Booking rescheduled notifications sent:', data.bookingId);
+  }
+  
+  /**
+   * Send reschedule request notification to the provider for approval
+   */
+  async sendRescheduleRequestedNotification(data: {
+    bookingId: string;
+    requestId: string;
+    providerId: string;
+    serviceName: string;
+    previousDate: string;
+    previousStartTime: string;
+    requestedDate: string;
+    requestedStartTime: string;
+    reason?: string;
+  }): Promise<void> {
+    const email = await this.getProviderEmail(data.providerId);
+    
+    if (email) {
+      await this.sendEmail({
+        to: email,
+        subject: `Reschedule Requested - ${data.serviceName}`,
+        template: 'reschedule-requested',
+        data: {
+          serviceName: data.serviceName,
+          previousDate: data.previousDate,
+          previousStartTime: data.previousStartTime,
+          requestedDate: data.requestedDate,
+          requestedStartTime: data.requestedStartTime,
+          reason: data.reason,
+          respondLink: `/provider/bookings/${data.bookingId}`
+        }
+      });
+    }
+    
+    console.log('Reschedule requested notification sent:', data.requestId);
+  }
+  
+  /**
+   * Send reschedule declined notification
+   */
+  async sendRescheduleDeclinedNotification(data: {
+    bookingId: string;
+    customerId?: string;
+    guestEmail?: string;
+    serviceName: string;
+    requestedDate: string;
+    requestedStartTime: string;
+    note?: string;
+  }): Promise<void> {
+    const email = data.guestEmail || await this.getCustomerEmail(data.customerId);
+    
+    if (email) {
+      await this.sendEmail({
+        to: email,
+        subject: `Reschedule Declined - ${data.serviceName}`,
+        template: 'reschedule-declined',
+        data: {
+          serviceName: data.serviceName,
+          requestedDate: data.requestedDate,
+          requestedStartTime: data.requestedStartTime,
+          note: data.note,
+          bookingLink: `/dashboard/bookings/${data.bookingId}`
+        }
+      });
+    }
+    
+    console.log('Reschedule declined notification sent:', data.bookingId);
+  }
+  
+  /**
+   * Send waitlist offer notification
+   */
+  async sendWaitlistOfferNotification(data: {
+    entryId: string;
+    customerId: string;
+    title: string;
+    date: string;
+    startTime?: string;
+    expiresAt: Date;
+  }): Promise<void> {
+    const email = await this.getCustomerEmail(data.customerId);
+    
+    if (email) {
+      await this.sendEmail({
+        to: email,
+        subject: `A Spot Opened Up - ${data.title}`,
+        template: 'waitlist-offer',
+        data: {
+          title: data.title,
+          date: data.date,
+          startTime: data.startTime,
+          expiresAt: data.expiresAt.toISOString(),
+          claimLink: `/waitlist/${data.entryId}/claim`
+        }
+      });
+    }
+    
+    console.log('Waitlist offer notification sent:', data.entryId);
+  }
+  
+  /**
+   * Send waitlist offer expired notification
+   */
+  async sendWaitlistOfferExpiredNotification(data: {
+    entryId: string;
+    customerId: string;
+    title: string;
+  }): Promise<void> {
+    const email = await this.getCustomerEmail(data.customerId);
+    
+    if (email) {
+      await this.sendEmail({
+        to: email,
+        subject: `Waitlist Offer Expired - ${data.title}`,
+        template: 'waitlist-offer-expired',
+        data: {
+          title: data.title,
+          searchLink: '/providers/search'
+        }
+      });
+    }
+    
+    console.log('Waitlist offer expired notification sent:', data.entryId);
+  }
+  
+  /**
+   * Send a new offer or counter-offer on a marketplace listing
+   */
+  async sendThingOfferNotification(data: {
+    negotiationId: string;
+    thingId: string;
+    recipientId: string;
+    thingTitle: string;
+    amount: number;
+    currency: string;
+    isCounter: boolean;
+    expiresAt: Date;
+  }): Promise<void> {
+    const email = await this.getCustomerEmail(data.recipientId);
+    
+    if (email) {
+      await this.sendEmail({
+        to: email,
+        subject: `${data.isCounter ? 'Counter-Offer' : 'New Offer'} of ${formatAmount(data.amount, data.currency)} - ${data.thingTitle}`,
+        template: 'thing-offer',
+        data: {
+          thingTitle: data.thingTitle,
+          amount: formatAmount(data.amount, data.currency),
+          isCounter: data.isCounter,
+          expiresAt: data.expiresAt.toISOString(),
+          offerLink: `/marketplace/things/${data.thingId}?negotiation=${data.negotiationId}`
+        }
+      });
+    }
+    
+    console.log('Thing offer notification sent:', data.negotiationId);
+  }
+  
+  /**
+   * Send accepted offer notification; the buyer's copy carries the checkout deadline
+   */
+  async sendThingOfferAcceptedNotification(data: {
+    negotiationId: string;
+    thingId: string;
+    recipientId: string;
+    thingTitle: string;
+    amount: number;
+    currency: string;
+    checkoutExpiresAt: Date;
+    isBuyer: boolean;
+  }): Promise<void> {
+    const email = await this.getCustomerEmail(data.recipientId);
+    
+    if (email) {
+      await this.sendEmail({
+        to: email,
+        subject: `Offer Accepted - ${data.thingTitle}`,
+        template: 'thing-offer-accepted',
+        data: {
+          thingTitle: data.thingTitle,
+          amount: formatAmount(data.amount, data.currency),
+          checkoutExpiresAt: data.checkoutExpiresAt.toISOString(),
+          isBuyer: data.isBuyer,
+          offerLink: `/marketplace/things/${data.thingId}?negotiation=${data.negotiationId}`
+        }
+      });
+    }
+    
+    console.log('Thing offer accepted notification sent:', data.negotiationId);
+  }
+  
+  /**
+   * Send notice that a negotiation was declined, withdrawn or expired
+   */
+  async sendThingOfferClosedNotification(data: {
+    negotiationId: string;
+    thingId: string;
+    recipientId: string;
+    thingTitle: string;
+    reason: string;
+  }): Promise<void> {
+    const email = await this.getCustomerEmail(data.recipientId);
+    
+    if (email) {
+      await this.sendEmail({
+        to: email,
+        subject: `Offer Closed - ${data.thingTitle}`,
+        template: 'thing-offer-closed',
+        data: {
+          thingTitle: data.thingTitle,
+          reason: data.reason,
+          listingLink: `/marketplace/things/${data.thingId}`
+        }
+      });
+    }
+    
+    console.log('Thing offer closed notification sent:', data.negotiationId);
+  }
+  
+  /**
+   * Send an escrowed marketplace order update to the buyer or the seller
+   */
+  async sendThingOrderUpdateNotification(data: {
+    orderId: string;
+    thingId: string;
+    recipientId: string;
+    thingTitle: string;
+    event: 'paid' | 'shipped' | 'delivered' | 'return_requested' | 'returned' | 'return_declined' | 'dispute_resolved' | 'released';
+    isBuyer: boolean;
+    detail?: string;
+    inspectionEndsAt?: Date | null;
+  }): Promise<void> {
+    const email = await this.getCustomerEmail(data.recipientId);
+    
+    const headlines: Record<typeof data.event, string> = {
+      paid: data.isBuyer ? 'Order Confirmed' : 'Item Sold - Ready to Ship',
+      shipped: 'Your Item Has Shipped',
+      delivered: data.isBuyer ? 'Delivery Confirmed' : 'Delivery Confirmed by Buyer',
+      return_requested: 'Return Requested',
+      returned: 'Return Approved - Refund Issued',
+      return_declined: 'Return Declined',
+      dispute_resolved: 'Dispute Resolved',
+      released: 'Funds Released'
+    };
+    
+    if (email) {
+      await this.sendEmail({
+        to: email,
+        subject: `${headlines[data.event]} - ${data.thingTitle}`,
+        template: 'thing-order-update',
+        data: {
+          thingTitle: data.thingTitle,
+          event: data.event,
+          isBuyer: data.isBuyer,
+          detail: data.detail,
+          inspectionEndsAt: data.inspectionEndsAt?.toISOString(),
+          orderLink: `/marketplace/things/${data.thingId}?order=${data.orderId}`
+        }
+      });
+    }
+    
+    console.log('Thing order notification sent:', data.orderId, data.event);
+  }
+  
+  /**
+   * Send recurring booking payment failed notification
+   * Goes to both parties; `retryAt` is null once no further attempt will be made
+   */
+  async sendSeriesPaymentFailedNotification(data: {
+    seriesId: string;
+    bookingId: string;
+    customerId: string;
+    providerId: string;
+    serviceName: string;
+    bookingDate: string;
+    startTime: string;
+    reason: string;
+    retryAt: Date | null;
+  }): Promise<void> {
+    const email = await this.getCustomerEmail(data.customerId);
+    
+    if (email) {
+      await this.sendEmail({
+        to: email,
+        subject: `Payment Failed - ${data.serviceName}`,
+        template: 'series-payment-failed',
+        data: {
+          serviceName: data.serviceName,
+          bookingDate: data.bookingDate,
+          startTime: data.startTime,
+          reason: data.reason,
+          retryAt: data.retryAt?.toISOString(),
+          updatePaymentLink: `/bookings/series/${data.seriesId}`
+        }
+      });
+    }
+    
+    const providerEmail = await this.getProviderEmail(data.providerId);
+    
+    if (providerEmail) {
+      await this.sendEmail({
+        to: providerEmail,
+        subject: `Customer Payment Failed - ${data.serviceName}`,
+        template: 'series-payment-failed-provider',
+        data: {
+          serviceName: data.serviceName,
+          bookingDate: data.bookingDate,
+          startTime: data.startTime,
+          retryAt: data.retryAt?.toISOString(),
+          bookingLink: `/provider/bookings/${data.bookingId}`
+        }
+      });
+    }
+    
+    console.log('Series payment failed notification sent:', data.bookingId);
+  }
+  
   /**
    * Send payout completed notification
    */
@@ -313,6 +732,74 @@ export class NotificationService {
     console.log('Payout failed notification sent:', data.providerId);
   }
   
+  /**
+   * Send dispute evidence deadline reminder to the provider
+   */
+  async sendDisputeEvidenceReminderNotification(data: {
+    disputeId: string;
+    bookingId: string;
+    providerId: string;
+    serviceName: string;
+    amount: number;
+    reason: string;
+    evidenceDueBy: Date;
+    hoursLeft: number;
+  }): Promise<void> {
+    const providerEmail = await this.getProviderEmail(data.providerId);
+    
+    if (providerEmail) {
+      await this.sendEmail({
+        to: providerEmail,
+        subject: `Dispute Evidence Due in ${data.hoursLeft < 48 ? `${data.hoursLeft} hours` : `${Math.floor(data.hoursLeft / 24)} days`} - ${data.serviceName}`,
+        template: 'dispute-evidence-reminder',
+        data: {
+          serviceName: data.serviceName,
+          amount: new Intl.NumberFormat('en-US', {
+            style: 'currency',
+            currency: 'USD'
+          }).format(data.amount),
+          reason: data.reason,
+          evidenceDueBy: data.evidenceDueBy.toISOString(),
+          disputeLink: `/dashboard/provider/disputes?dispute=${data.disputeId}`
+        }
+      });
+    }
+    
+    console.log('Dispute evidence reminder sent:', data.disputeId);
+  }
+
+  /**
+   * Tell the other party of a booking they were reviewed; the review stays
+   * hidden until they review back or the review window closes
+   */
+  async sendReviewReceivedNotification(data: {
+    bookingId: string;
+    recipientId: string;
+    serviceName: string;
+    reviewerRole: 'customer' | 'provider';
+    windowClosesAt: Date;
+  }): Promise<void> {
+    const email = await this.getCustomerEmail(data.recipientId);
+
+    if (email) {
+      await this.sendEmail({
+        to: email,
+        subject: `You've been reviewed - ${data.serviceName}`,
+        template: 'review-received',
+        data: {
+          serviceName: data.serviceName,
+          reviewerRole: data.reviewerRole,
+          windowClosesAt: data.windowClosesAt.toISOString(),
+          reviewLink: data.reviewerRole === 'customer'
+            ? `/provider/bookings/${data.bookingId}`
+            : `/dashboard/bookings/${data.bookingId}`
+        }
+      });
+    }
+
+    console.log('Review received notification sent:', data.bookingId);
+  }
+
   /**
    * Process scheduled reminders
    */
@@ -444,14 +931,25 @@ export class NotificationService {
       [NotificationType.BOOKING_REJECTED]: 'Booking Update',
       [NotificationType.BOOKING_CANCELLED]: 'Booking Cancelled',
       [NotificationType.BOOKING_COMPLETED]: 'Service Completed',
+      [NotificationType.BOOKING_STATUS_CHANGED]: 'Booking Update',
+      [NotificationType.BOOKING_RESCHEDULED]: 'Booking Rescheduled',
+      [NotificationType.RESCHEDULE_REQUESTED]: 'Reschedule Requested',
+      [NotificationType.RESCHEDULE_DECLINED]: 'Reschedule Declined',
       [NotificationType.PAYMENT_CONFIRMED]: 'Payment Confirmed',
       [NotificationType.PAYMENT_FAILED]: 'Payment Failed',
       [NotificationType.REFUND_PROCESSED]: 'Refund Processed',
       [NotificationType.PAYOUT_COMPLETED]: 'Payout Completed',
       [NotificationType.PAYOUT_FAILED]: 'Payout Failed',
+      [NotificationType.DISPUTE_EVIDENCE_REMINDER]: 'Dispute Evidence Due Soon',
       [NotificationType.SERVICE_REMINDER]: 'Upcoming Service Reminder',
       [NotificationType.REVIEW_REMINDER]: 'Leave a Review',
-      [NotificationType.PAYMENT_REMINDER]: 'Complete Your Payment'
+      [NotificationType.PAYMENT_REMINDER]: 'Complete Your Payment',
+      [NotificationType.WAITLIST_OFFER]: 'A Spot Opened Up',
+      [NotificationType.WAITLIST_OFFER_EXPIRED]: 'Waitlist Offer Expired',
+      [NotificationType.THING_OFFER]: 'New Offer',
+      [NotificationType.THING_OFFER_ACCEPTED]: 'Offer Accepted',
+      [NotificationType.THING_OFFER_CLOSED]: 'Offer Closed',
+      [NotificationType.THING_ORDER_UPDATE]: 'Order Update'
     };
     
     return subjects[type] || 'Notification';
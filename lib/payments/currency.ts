@@ -0,0 +1,181 @@
+/**
+ * Currency Utilities
+ *
+ * Minor-unit math and formatting for every currency the marketplace
+ * settles in. Stripe amounts are integers in the currency's smallest unit:
+ * cents for USD, but whole yen for JPY and whole won for KRW. Nothing in
+ * the payment path should multiply or divide by 100 directly; go through
+ * toMinorUnits / fromMinorUnits so zero-decimal currencies stay correct.
+ *
+ * Safe to import from client components (no database access).
+ */
+
+export const DEFAULT_CURRENCY = "usd";
+
+// Currencies providers can price in; each needs a rate in the FX fixture
+export const SUPPORTED_CURRENCIES = [
+  "usd",
+  "eur",
+  "gbp",
+  "cad",
+  "aud",
+  "nzd",
+  "chf",
+  "sek",
+  "nok",
+  "dkk",
+  "pln",
+  "mxn",
+  "brl",
+  "inr",
+  "sgd",
+  "hkd",
+  "jpy",
+  "krw",
+] as const;
+
+export type CurrencyCode = typeof SUPPORTED_CURRENCIES[number];
+
+// Stripe's zero-decimal currencies: amounts are sent in whole units
+export const ZERO_DECIMAL_CURRENCIES = new Set([
+  "bif", "clp", "djf", "gnf", "jpy", "kmf", "krw", "mga",
+  "pyg", "rwf", "ugx", "vnd", "vuv", "xaf", "xof", "xpf",
+]);
+
+// Stripe's minimum charge per currency, in minor units
+const MINIMUM_CHARGE_MINOR: Record<string, number> = {
+  usd: 50,
+  eur: 50,
+  gbp: 30,
+  cad: 50,
+  aud: 50,
+  nzd: 50,
+  chf: 50,
+  sek: 300,
+  nok: 300,
+  dkk: 250,
+  pln: 200,
+  mxn: 1000,
+  brl: 50,
+  inr: 50,
+  sgd: 50,
+  hkd: 400,
+  jpy: 50,
+  krw: 500,
+};
+
+export type CurrencyErrorCode = "UNSUPPORTED_CURRENCY" | "MISSING_RATE";
+
+const ERROR_STATUS: Record<CurrencyErrorCode, number> = {
+  UNSUPPORTED_CURRENCY: 400,
+  MISSING_RATE: 503,
+};
+
+export class CurrencyError extends Error {
+  constructor(
+    message: string,
+    public code: CurrencyErrorCode
+  ) {
+    super(message);
+    this.name = 'CurrencyError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+/**
+ * Lower-case ISO code, falling back to the platform default
+ * Columns store both "usd" and "USD", so compare normalized codes only.
+ */
+export function normalizeCurrency(currency?: string | null): string {
+  const code = currency?.trim().toLowerCase();
+  return code ? code : DEFAULT_CURRENCY;
+}
+
+export function isSupportedCurrency(currency: string): currency is CurrencyCode {
+  return (SUPPORTED_CURRENCIES as readonly string[]).includes(normalizeCurrency(currency));
+}
+
+/**
+ * Normalize and reject currencies the platform cannot settle in
+ */
+export function assertSupportedCurrency(currency?: string | null): CurrencyCode {
+  const code = normalizeCurrency(currency);
+  if (!isSupportedCurrency(code)) {
+    throw new CurrencyError(`Currency ${code.toUpperCase()} is not supported`, "UNSUPPORTED_CURRENCY");
+  }
+  return code;
+}
+
+export function isZeroDecimalCurrency(currency: string): boolean {
+  return ZERO_DECIMAL_CURRENCIES.has(normalizeCurrency(currency));
+}
+
+/**
+ * Number of decimal places in the currency's minor unit
+ */
+export function currencyExponent(currency: string): number {
+  return isZeroDecimalCurrency(currency) ? 0 : 2;
+}
+
+/**
+ * Convert a major-unit amount (e.g. a DECIMAL column) to Stripe's minor units
+ */
+export function toMinorUnits(amount: number | string, currency: string): number {
+  const value = typeof amount === "string" ? parseFloat(amount) : amount;
+  return Math.round(value * 10 ** currencyExponent(currency));
+}
+
+/**
+ * Convert Stripe minor units back to a major-unit amount
+ */
+export function fromMinorUnits(minor: number, currency: string): number {
+  return minor / 10 ** currencyExponent(currency);
+}
+
+/**
+ * Minor units as a fixed-point string for DECIMAL(10,2) columns
+ */
+export function minorToDecimalString(minor: number, currency: string): string {
+  return fromMinorUnits(minor, currency).toFixed(2);
+}
+
+/**
+ * Smallest amount Stripe will charge in this currency, in minor units
+ */
+export function minimumChargeMinor(currency: string): number {
+  return MINIMUM_CHARGE_MINOR[normalizeCurrency(currency)] ?? MINIMUM_CHARGE_MINOR[DEFAULT_CURRENCY];
+}
+
+/**
+ * Format a major-unit amount, e.g. 1234.5 EUR -> "€1,234.50"
+ * `wholeUnits` drops the fraction for compact listing prices.
+ */
+export function formatAmount(
+  amount: number,
+  currency?: string | null,
+  options: { wholeUnits?: boolean; locale?: string } = {}
+): string {
+  const code = normalizeCurrency(currency);
+  const digits = options.wholeUnits ? 0 : currencyExponent(code);
+  return new Intl.NumberFormat(options.locale ?? 'en-US', {
+    style: 'currency',
+    currency: code.toUpperCase(),
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(amount);
+}
+
+/**
+ * Format a minor-unit amount, e.g. 1000 USD -> "$10.00", 1000 JPY -> "¥1,000"
+ */
+export function formatMinorUnits(
+  minor: number,
+  currency?: string | null,
+  options: { locale?: string } = {}
+): string {
+  const code = normalizeCurrency(currency);
+  return formatAmount(fromMinorUnits(minor, code), code, options);
+}
@@ -0,0 +1,648 @@
+/**
+ * Dispute Evidence Service
+ * Lets providers answer Stripe chargebacks on their bookings. Evidence is
+ * assembled from what the platform already knows about the booking
+ * (messages, state transitions, the receipt, check-ins and the
+ * cancellation policy), the provider adds files and notes, and the whole
+ * set is submitted through Stripe's dispute API before evidenceDueBy.
+ *
+ * Reminders go out as the deadline approaches; each threshold in
+ * EVIDENCE_REMINDER_HOURS is sent at most once per dispute.
+ */
+
+import { randomUUID } from "crypto";
+import { db } from "@/db/db";
+import {
+  disputesTable,
+  bookingsTable,
+  transactionsTable,
+  providersTable,
+  profilesTable,
+  bookingStateTransitionsTable,
+  conversationsTable,
+  messagesTable,
+  eventAttendeesTable,
+  disputeFileEvidenceFields,
+  type Booking,
+  type Dispute,
+  type DisputeEvidenceDetails,
+  type DisputeEvidenceFile,
+  type DisputeEvidenceNote,
+  type DisputeFileEvidenceField,
+  type CancellationTier,
+} from "@/db/schema";
+import { and, asc, desc, eq, gt, inArray, isNull, lte } from "drizzle-orm";
+import type Stripe from "stripe";
+import { stripe } from "@/lib/stripe-enhanced";
+import { storedDate } from "@/lib/availability/timezone";
+import { formatAmount } from "@/lib/payments/currency";
+import { cancellationPolicyService } from "@/lib/bookings/cancellation-policy-service";
+import { notificationService } from "@/lib/notifications/notification-service";
+
+// Stripe statuses in which evidence can still be submitted
+export const OPEN_DISPUTE_STATUSES = ["warning_needs_response", "needs_response"];
+
+// Reminders before the evidence deadline, in hours
+export const EVIDENCE_REMINDER_HOURS = [168, 72, 24];
+
+// Stripe accepts these file types up to 5MB for dispute evidence
+export const EVIDENCE_FILE_TYPES = ["application/pdf", "image/jpeg", "image/png"];
+export const MAX_EVIDENCE_FILE_BYTES = 5 * 1024 * 1024;
+
+// Stripe's per-field limit for free-text evidence
+const MAX_EVIDENCE_TEXT = 20000;
+const MAX_TRANSCRIPT_MESSAGES = 500;
+
+export interface EvidenceSources {
+  booking: Pick<
+    Booking,
+    "id" | "confirmationCode" | "serviceName" | "bookingDate" | "startTime" | "endTime" | "totalAmount" | "currency" | "customerNotes"
+  >;
+  providerName: string;
+  customer: { name?: string; email?: string };
+  transaction: { stripeChargeId: string | null; amount: string; refundAmount: string | null; processedAt: Date | null } | null;
+  transitions: { fromStatus: string | null; toStatus: string; triggerReason: string | null; createdAt: Date }[];
+  messages: { from: "customer" | "provider"; content: string; createdAt: Date }[];
+  checkIns: { label: string; at: Date }[];
+  cancellationTiers: CancellationTier[] | null;
+  details: DisputeEvidenceDetails;
+}
+
+export interface DisputeSummary {
+  dispute: Dispute;
+  booking: { id: string; serviceName: string; bookingDate: Date; startTime: string } | null;
+  isOpen: boolean;
+  hoursLeft: number | null;
+}
+
+export interface DisputeCenterView extends DisputeSummary {
+  evidence: Stripe.DisputeUpdateParams.Evidence;
+  files: DisputeEvidenceFile[];
+  notes: DisputeEvidenceNote[];
+  canSubmit: boolean;
+}
+
+export interface EvidenceUpload {
+  data: Buffer;
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface ReminderSweepResult {
+  checked: number;
+  sent: number;
+  failed: number;
+}
+
+export type DisputeEvidenceErrorCode =
+  | "NOT_FOUND"
+  | "FORBIDDEN"
+  | "NOT_OPEN"
+  | "DEADLINE_PASSED"
+  | "INVALID_FILE";
+
+const ERROR_STATUS: Record<DisputeEvidenceErrorCode, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  NOT_OPEN: 409,
+  DEADLINE_PASSED: 422,
+  INVALID_FILE: 422,
+};
+
+export class DisputeEvidenceError extends Error {
+  constructor(
+    message: string,
+    public code: DisputeEvidenceErrorCode
+  ) {
+    super(message);
+    this.name = 'DisputeEvidenceError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+/**
+ * Hours left until the evidence deadline, or null without one
+ */
+export function hoursUntilDue(evidenceDueBy: Date | null, now: Date = new Date()): number | null {
+  if (!evidenceDueBy) {
+    return null;
+  }
+  return (evidenceDueBy.getTime() - now.getTime()) / (1000 * 60 * 60);
+}
+
+/**
+ * Reminder thresholds due now and not sent yet
+ * Thresholds skipped while the sweeper was not running are folded into
+ * the most urgent one so the provider gets a single reminder.
+ */
+export function dueReminderThresholds(
+  evidenceDueBy: Date | null,
+  sent: number[],
+  now: Date = new Date()
+): number[] {
+  const hoursLeft = hoursUntilDue(evidenceDueBy, now);
+  if (hoursLeft === null || hoursLeft <= 0) {
+    return [];
+  }
+  return EVIDENCE_REMINDER_HOURS.filter(threshold => hoursLeft <= threshold && !sent.includes(threshold));
+}
+
+/**
+ * Describe a refund schedule as plain text for the policy disclosure
+ */
+export function describeCancellationTiers(tiers: CancellationTier[]): string {
+  const sorted = [...tiers].sort((a, b) => b.hoursBefore - a.hoursBefore);
+  const lines = sorted.map(t => `Cancel ${t.hoursBefore}+ hours before the start: ${t.refundPercent}% refund`);
+  const last = sorted[sorted.length - 1];
+  if (!last || last.hoursBefore > 0) {
+    lines.push("Later cancellations and no-shows: no refund");
+  }
+  return lines.join("\n");
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_EVIDENCE_TEXT ? `${text.slice(0, MAX_EVIDENCE_TEXT - 3)}...` : text;
+}
+
+/**
+ * Build the Stripe evidence payload from everything known about the booking
+ * Files the provider uploaded fill their evidence fields; the latest upload
+ * for a field wins.
+ */
+export function assembleEvidence(sources: EvidenceSources): Stripe.DisputeUpdateParams.Evidence {
+  const { booking, transaction, details } = sources;
+  const serviceDate = storedDate(booking.bookingDate);
+  const evidence: Stripe.DisputeUpdateParams.Evidence = {
+    product_description: truncate(
+      `${booking.serviceName} with ${sources.providerName} on ${serviceDate}, ${booking.startTime}-${booking.endTime}` +
+      (booking.customerNotes ? `\nCustomer request: ${booking.customerNotes}` : "")
+    ),
+    service_date: serviceDate,
+  };
+
+  if (sources.customer.name) {
+    evidence.customer_name = sources.customer.name;
+  }
+  if (sources.customer.email) {
+    evidence.customer_email_address = sources.customer.email;
+  }
+
+  // Booking timeline: every state change plus check-ins
+  const timeline = [
+    ...sources.transitions.map(t => ({
+      at: t.createdAt,
+      line: `${t.fromStatus || "new"} -> ${t.toStatus}${t.triggerReason ? ` (${t.triggerReason})` : ""}`,
+    })),
+    ...sources.checkIns.map(c => ({ at: c.at, line: c.label })),
+  ].sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  if (timeline.length > 0) {
+    evidence.access_activity_log = truncate(timeline.map(t => `${t.at.toISOString()}  ${t.line}`).join("\n"));
+  }
+
+  if (sources.cancellationTiers) {
+    evidence.cancellation_policy_disclosure = truncate(describeCancellationTiers(sources.cancellationTiers));
+  }
+
+  const sections: string[] = [];
+
+  const receipt = [
+    `Confirmation: ${booking.confirmationCode || booking.id}`,
+    `Total charged: ${formatAmount(parseFloat(booking.totalAmount), booking.currency)}`,
+  ];
+  if (transaction?.stripeChargeId) {
+    receipt.push(`Charge: ${transaction.stripeChargeId}`);
+  }
+  if (transaction?.processedAt) {
+    receipt.push(`Paid: ${transaction.processedAt.toISOString()}`);
+  }
+  if (transaction?.refundAmount && parseFloat(transaction.refundAmount) > 0) {
+    receipt.push(`Refunded: ${formatAmount(parseFloat(transaction.refundAmount), booking.currency)}`);
+  }
+  sections.push(`RECEIPT\n${receipt.join("\n")}`);
+
+  if (details.notes.length > 0) {
+    sections.push(`PROVIDER STATEMENT\n${details.notes.map(n => n.body).join("\n\n")}`);
+  }
+
+  if (sources.messages.length > 0) {
+    const transcript = sources.messages
+      .map(m => `[${m.createdAt.toISOString()}] ${m.from === "customer" ? "Customer" : "Provider"}: ${m.content}`)
+      .join("\n");
+    sections.push(`MESSAGES WITH THE CUSTOMER\n${transcript}`);
+  }
+
+  evidence.uncategorized_text = truncate(sections.join("\n\n"));
+
+  for (const file of details.files) {
+    evidence[file.evidenceField] = file.stripeFileId;
+  }
+
+  return evidence;
+}
+
+/**
+ * Main dispute evidence class
+ */
+export class DisputeEvidenceService {
+  /**
+   * Disputes on the signed-in provider's bookings, most urgent first
+   */
+  async listForProvider(userId: string, now: Date = new Date()): Promise<DisputeSummary[]> {
+    const providerId = await this.providerIdForUser(userId);
+
+    const rows = await db
+      .select({ dispute: disputesTable, booking: bookingsTable })
+      .from(disputesTable)
+      .innerJoin(bookingsTable, eq(disputesTable.bookingId, bookingsTable.id))
+      .where(eq(bookingsTable.providerId, providerId))
+      .orderBy(asc(disputesTable.evidenceDueBy), desc(disputesTable.createdAt));
+
+    return rows.map(row => this.summarize(row.dispute, row.booking, now));
+  }
+
+  /**
+   * One dispute with the evidence that would be submitted right now
+   */
+  async getDispute(disputeId: string, userId: string, now: Date = new Date()): Promise<DisputeCenterView> {
+    const { dispute, booking, provider } = await this.loadForProvider(disputeId, userId);
+    const details = this.detailsOf(dispute);
+    const summary = this.summarize(dispute, booking, now);
+    const evidence = assembleEvidence(await this.gatherSources(booking, provider, details));
+
+    return {
+      ...summary,
+      evidence,
+      files: details.files,
+      notes: details.notes,
+      canSubmit: summary.isOpen && (summary.hoursLeft === null || summary.hoursLeft > 0),
+    };
+  }
+
+  async addNote(disputeId: string, userId: string, body: string): Promise<DisputeEvidenceNote> {
+    const { dispute } = await this.loadForProvider(disputeId, userId);
+    this.assertOpen(dispute);
+
+    const note: DisputeEvidenceNote = {
+      id: randomUUID(),
+      body,
+      createdBy: userId,
+      createdAt: new Date().toISOString(),
+    };
+    await this.updateDetails(dispute.id, details => ({ ...details, notes: [...details.notes, note] }));
+
+    return note;
+  }
+
+  async removeNote(disputeId: string, userId: string, noteId: string): Promise<void> {
+    const { dispute } = await this.loadForProvider(disputeId, userId);
+    this.assertOpen(dispute);
+
+    await this.updateDetails(dispute.id, details => ({
+      ...details,
+      notes: details.notes.filter(n => n.id !== noteId),
+    }));
+  }
+
+  /**
+   * Upload a file to Stripe and attach it to one evidence field
+   */
+  async uploadFile(
+    disputeId: string,
+    userId: string,
+    upload: EvidenceUpload,
+    evidenceField: DisputeFileEvidenceField
+  ): Promise<DisputeEvidenceFile> {
+    const { dispute } = await this.loadForProvider(disputeId, userId);
+    this.assertOpen(dispute);
+
+    if (!EVIDENCE_FILE_TYPES.includes(upload.mimeType)) {
+      throw new DisputeEvidenceError("Evidence files must be PDF, JPEG or PNG", "INVALID_FILE");
+    }
+    if (upload.size > MAX_EVIDENCE_FILE_BYTES) {
+      throw new DisputeEvidenceError("Evidence files must be 5MB or smaller", "INVALID_FILE");
+    }
+    if (!disputeFileEvidenceFields.includes(evidenceField)) {
+      throw new DisputeEvidenceError(`Unknown evidence field: ${evidenceField}`, "INVALID_FILE");
+    }
+
+    const stripeFile = await stripe.files.create(
+      {
+        purpose: "dispute_evidence",
+        file: { data: upload.data, name: upload.filename, type: "application/octet-stream" },
+      },
+      dispute.stripeAccountId ? { stripeAccount: dispute.stripeAccountId } : undefined
+    );
+
+    const file: DisputeEvidenceFile = {
+      id: randomUUID(),
+      stripeFileId: stripeFile.id,
+      evidenceField,
+      filename: upload.filename,
+      mimeType: upload.mimeType,
+      size: upload.size,
+      uploadedBy: userId,
+      uploadedAt: new Date().toISOString(),
+    };
+    await this.updateDetails(dispute.id, details => ({ ...details, files: [...details.files, file] }));
+
+    return file;
+  }
+
+  /**
+   * Detach a file; Stripe keeps the upload but it is no longer submitted
+   */
+  async removeFile(disputeId: string, userId: string, fileId: string): Promise<void> {
+    const { dispute } = await this.loadForProvider(disputeId, userId);
+    this.assertOpen(dispute);
+
+    await this.updateDetails(dispute.id, details => ({
+      ...details,
+      files: details.files.filter(f => f.id !== fileId),
+    }));
+  }
+
+  /**
+   * Submit the assembled evidence to Stripe
+   * Stripe accepts a single submission; the dispute then goes under review.
+   */
+  async submit(disputeId: string, userId: string, now: Date = new Date()): Promise<Dispute> {
+    const { dispute, booking, provider } = await this.loadForProvider(disputeId, userId);
+    this.assertOpen(dispute);
+
+    const hoursLeft = hoursUntilDue(dispute.evidenceDueBy, now);
+    if (hoursLeft !== null && hoursLeft <= 0) {
+      throw new DisputeEvidenceError("The evidence deadline has passed", "DEADLINE_PASSED");
+    }
+
+    const details = this.detailsOf(dispute);
+    const evidence = assembleEvidence(await this.gatherSources(booking, provider, details));
+
+    const updated = await stripe.disputes.update(
+      dispute.stripeDisputeId,
+      { evidence, submit: true, metadata: { bookingId: booking.id } },
+      dispute.stripeAccountId ? { stripeAccount: dispute.stripeAccountId } : undefined
+    );
+
+    const [saved] = await db
+      .update(disputesTable)
+      .set({
+        status: updated.status,
+        evidenceSubmittedAt: now,
+        evidenceSubmittedBy: userId,
+        evidenceDetails: { ...details, submitted: evidence as Record<string, string> },
+        updatedAt: now,
+      })
+      .where(eq(disputesTable.id, dispute.id))
+      .returning();
+
+    return saved;
+  }
+
+  /**
+   * Remind providers of open disputes whose evidence deadline is near
+   */
+  async sendDeadlineReminders(now: Date = new Date()): Promise<ReminderSweepResult> {
+    const horizon = new Date(now.getTime() + Math.max(...EVIDENCE_REMINDER_HOURS) * 60 * 60 * 1000);
+    const rows = await db
+      .select({ dispute: disputesTable, booking: bookingsTable })
+      .from(disputesTable)
+      .innerJoin(bookingsTable, eq(disputesTable.bookingId, bookingsTable.id))
+      .where(
+        and(
+          inArray(disputesTable.status, OPEN_DISPUTE_STATUSES),
+          isNull(disputesTable.evidenceSubmittedAt),
+          gt(disputesTable.evidenceDueBy, now),
+          lte(disputesTable.evidenceDueBy, horizon)
+        )
+      );
+
+    const result: ReminderSweepResult = { checked: rows.length, sent: 0, failed: 0 };
+
+    for (const { dispute, booking } of rows) {
+      const sent = dispute.evidenceRemindersSent || [];
+      const due = dueReminderThresholds(dispute.evidenceDueBy, sent, now);
+      if (due.length === 0) {
+        continue;
+      }
+
+      try {
+        await notificationService.sendDisputeEvidenceReminderNotification({
+          disputeId: dispute.id,
+          bookingId: booking.id,
+          providerId: booking.providerId,
+          serviceName: booking.serviceName,
+          amount: parseFloat(dispute.amount),
+          reason: dispute.reason,
+          evidenceDueBy: dispute.evidenceDueBy!,
+          hoursLeft: Math.floor(hoursUntilDue(dispute.evidenceDueBy, now)!),
+        });
+
+        await db
+          .update(disputesTable)
+          .set({ evidenceRemindersSent: [...sent, ...due], updatedAt: now })
+          .where(eq(disputesTable.id, dispute.id));
+        result.sent++;
+      } catch (error) {
+        console.error(`Failed to send evidence reminder for dispute ${dispute.id}:`, error);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private async providerIdForUser(userId: string): Promise<string> {
+    const [provider] = await db
+      .select({ id: providersTable.id })
+      .from(providersTable)
+      .where(eq(providersTable.userId, userId))
+      .limit(1);
+
+    if (!provider) {
+      throw new DisputeEvidenceError("Provider profile not found", "NOT_FOUND");
+    }
+
+    return provider.id;
+  }
+
+  private async loadForProvider(disputeId: string, userId: string): Promise<{
+    dispute: Dispute;
+    booking: Booking;
+    provider: { userId: string; displayName: string };
+  }> {
+    const [row] = await db
+      .select({ dispute: disputesTable, booking: bookingsTable, provider: providersTable })
+      .from(disputesTable)
+      .innerJoin(bookingsTable, eq(disputesTable.bookingId, bookingsTable.id))
+      .innerJoin(providersTable, eq(bookingsTable.providerId, providersTable.id))
+      .where(eq(disputesTable.id, disputeId))
+      .limit(1);
+
+    if (!row) {
+      throw new DisputeEvidenceError("Dispute not found", "NOT_FOUND");
+    }
+    if (row.provider.userId !== userId) {
+      throw new DisputeEvidenceError("Only the booking's provider can respond to this dispute", "FORBIDDEN");
+    }
+
+    return { dispute: row.dispute, booking: row.booking, provider: row.provider };
+  }
+
+  private assertOpen(dispute: Dispute): void {
+    if (dispute.evidenceSubmittedAt || !OPEN_DISPUTE_STATUSES.includes(dispute.status)) {
+      throw new DisputeEvidenceError(`Dispute is ${dispute.status} and no longer accepts evidence`, "NOT_OPEN");
+    }
+  }
+
+  private detailsOf(dispute: Dispute): DisputeEvidenceDetails {
+    return {
+      files: dispute.evidenceDetails?.files || [],
+      notes: dispute.evidenceDetails?.notes || [],
+      ...(dispute.evidenceDetails?.submitted && { submitted: dispute.evidenceDetails.submitted }),
+    };
+  }
+
+  /**
+   * Read-modify-write of evidenceDetails under a row lock
+   */
+  private async updateDetails(
+    disputeId: string,
+    mutate: (details: DisputeEvidenceDetails) => DisputeEvidenceDetails
+  ): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(disputesTable)
+        .where(eq(disputesTable.id, disputeId))
+        .limit(1)
+        .for('update');
+
+      await tx
+        .update(disputesTable)
+        .set({ evidenceDetails: mutate(this.detailsOf(current)), updatedAt: new Date() })
+        .where(eq(disputesTable.id, disputeId));
+    });
+  }
+
+  private summarize(dispute: Dispute, booking: Booking | null, now: Date): DisputeSummary {
+    return {
+      dispute,
+      booking: booking
+        ? {
+            id: booking.id,
+            serviceName: booking.serviceName,
+            bookingDate: booking.bookingDate,
+            startTime: booking.startTime,
+          }
+        : null,
+      isOpen: !dispute.evidenceSubmittedAt && OPEN_DISPUTE_STATUSES.includes(dispute.status),
+      hoursLeft: hoursUntilDue(dispute.evidenceDueBy, now),
+    };
+  }
+
+  private async gatherSources(
+    booking: Booking,
+    provider: { userId: string; displayName: string },
+    details: DisputeEvidenceDetails
+  ): Promise<EvidenceSources> {
+    const [customer] = booking.customerId
+      ? await db
+          .select({ email: profilesTable.email })
+          .from(profilesTable)
+          .where(eq(profilesTable.userId, booking.customerId))
+          .limit(1)
+      : [];
+
+    const [transaction] = await db
+      .select({
+        stripeChargeId: transactionsTable.stripeChargeId,
+        amount: transactionsTable.amount,
+        refundAmount: transactionsTable.refundAmount,
+        processedAt: transactionsTable.processedAt,
+      })
+      .from(transactionsTable)
+      .where(eq(transactionsTable.bookingId, booking.id))
+      .orderBy(asc(transactionsTable.createdAt))
+      .limit(1);
+
+    const transitions = await db
+      .select({
+        fromStatus: bookingStateTransitionsTable.fromStatus,
+        toStatus: bookingStateTransitionsTable.toStatus,
+        triggerReason: bookingStateTransitionsTable.triggerReason,
+        createdAt: bookingStateTransitionsTable.createdAt,
+      })
+      .from(bookingStateTransitionsTable)
+      .where(eq(bookingStateTransitionsTable.bookingId, booking.id))
+      .orderBy(asc(bookingStateTransitionsTable.createdAt));
+
+    const messages = await db
+      .select({
+        senderId: messagesTable.senderId,
+        content: messagesTable.content,
+        createdAt: messagesTable.createdAt,
+      })
+      .from(messagesTable)
+      .innerJoin(conversationsTable, eq(messagesTable.conversationId, conversationsTable.id))
+      .where(
+        and(
+          eq(conversationsTable.bookingId, booking.id),
+          eq(messagesTable.isDeleted, false),
+          eq(messagesTable.messageType, "text")
+        )
+      )
+      .orderBy(asc(messagesTable.createdAt))
+      .limit(MAX_TRANSCRIPT_MESSAGES);
+
+    const attendees = booking.eventId
+      ? await db
+          .select({
+            customerName: eventAttendeesTable.customerName,
+            checkedInAt: eventAttendeesTable.checkedInAt,
+          })
+          .from(eventAttendeesTable)
+          .where(eq(eventAttendeesTable.bookingId, booking.id))
+      : [];
+
+    // Policy the customer agreed to; a lookup failure must not block the response
+    let cancellationTiers: CancellationTier[] | null = null;
+    try {
+      cancellationTiers = (await cancellationPolicyService.resolvePolicy(booking)).tiers;
+    } catch (error) {
+      console.error(`Error resolving cancellation policy for booking ${booking.id}:`, error);
+    }
+
+    return {
+      booking,
+      providerName: provider.displayName,
+      customer: {
+        name: attendees[0]?.customerName,
+        email: booking.guestEmail || customer?.email || undefined,
+      },
+      transaction: transaction || null,
+      transitions,
+      messages: messages.map(m => ({
+        from: m.senderId === provider.userId ? "provider" as const : "customer" as const,
+        content: m.content,
+        createdAt: m.createdAt,
+      })),
+      checkIns: attendees
+        .filter(a => a.checkedInAt)
+        .map(a => ({ label: `${a.customerName} checked in`, at: a.checkedInAt! })),
+      cancellationTiers,
+      details,
+    };
+  }
+}
+
+// Export singleton instance
+export const disputeEvidenceService = new DisputeEvidenceService();
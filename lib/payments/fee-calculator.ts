@@ -6,18 +6,35 @@
  * - Guest users pay additional 10% surcharge (platform receives 20% total from guests)
  * - Providers ALWAYS receive 90% of base price regardless of guest status
  * - All amounts are calculated in cents to avoid floating point issues
+ *
+ * "Cents" means the currency's minor unit: whole yen for JPY, whole won for
+ * KRW. Pass the provider's currency and use toMinorUnits from ./currency
+ * rather than dollarsToCents for anything that is not USD.
+ *
+ * Pass a taxLocation to add sales tax / VAT on the base price (see
+ * ./tax-engine). Tax is added to the customer total only; it never changes
+ * the platform fee or the provider payout.
  */
 
+import { formatMinorUnits, minimumChargeMinor, normalizeCurrency } from "./currency";
+import { calculateTax, type TaxLine, type TaxLocation } from "./tax-engine";
+
 export interface FeeCalculationInput {
   baseAmountCents: number; // Base price in cents
   isGuest: boolean; // Whether this is a guest checkout
+  currency?: string; // Settlement currency (default "usd")
+  taxLocation?: TaxLocation | null; // Where the service is delivered; omit for no tax
   // Commission rate removed - always 10% per constitution
 }
 
 export interface FeeCalculationResult {
+  currency: string; // Lower-case ISO code all amounts are in
+  
   // Customer pays
-  customerTotalCents: number; // Total amount customer pays (including any surcharges)
+  customerTotalCents: number; // Total amount customer pays (including any surcharges and tax)
   guestSurchargeCents: number; // Additional amount guests pay (0 for authenticated users)
+  taxCents: number; // Sales tax / VAT on the base amount, passed through to the provider
+  taxLines: TaxLine[]; // One line per jurisdiction
   
   // Platform receives
   platformFeeCents: number; // Platform's commission from the transaction
@@ -39,13 +56,14 @@ export interface FeeCalculationResult {
     platformTotalRevenue: string; // Formatted for display (e.g., "$20.00")
     providerPayout: string; // Formatted for display (e.g., "$90.00")
     baseAmount: string; // Formatted for display (e.g., "$100.00")
+    tax: string; // Formatted for display (e.g., "$7.25")
   };
 }
 
 // IMMUTABLE Constants - per Ecosystem Constitution
 export const PLATFORM_FEE_RATE = 0.10; // EXACTLY 10% platform fee - NO VARIATIONS
 export const GUEST_SURCHARGE_RATE = 0.10; // EXACTLY 10% guest surcharge
-export const MIN_TRANSACTION_CENTS = 50; // Minimum $0.50 transaction (Stripe minimum)
+export const MIN_TRANSACTION_CENTS = 50; // Minimum $0.50 transaction (Stripe USD minimum; see minimumChargeMinor)
 export const MAX_TRANSACTION_CENTS = 99999999; // Maximum ~$1M transaction
 
 /**
@@ -60,6 +78,7 @@ export function calculateFees(input: FeeCalculationInput): FeeCalculationResult
     baseAmountCents,
     isGuest
   } = input;
+  const currency = normalizeCurrency(input.currency);
   
   // FIXED platform fee - always exactly 10% (no custom rates allowed)
   const platformFeeCents = Math.round(baseAmountCents * PLATFORM_FEE_RATE);
@@ -69,8 +88,11 @@ export function calculateFees(input: FeeCalculationInput): FeeCalculationResult
     ? Math.round(baseAmountCents * GUEST_SURCHARGE_RATE)
     : 0;
   
+  // Tax on the service price, at the service location
+  const tax = calculateTax(baseAmountCents, input.taxLocation);
+  
   // Calculate customer total
-  const customerTotalCents = baseAmountCents + guestSurchargeCents;
+  const customerTotalCents = baseAmountCents + guestSurchargeCents + tax.taxCents;
   
   // Calculate provider payout (base minus platform fee)
   const providerPayoutCents = baseAmountCents - platformFeeCents;
@@ -78,14 +100,18 @@ export function calculateFees(input: FeeCalculationInput): FeeCalculationResult
   // Calculate total platform revenue
   const platformTotalRevenueCents = platformFeeCents + guestSurchargeCents;
   
-  // Calculate rates
-  const effectiveCustomerRate = customerTotalCents / baseAmountCents;
+  // Calculate rates (before tax, which varies by location)
+  const effectiveCustomerRate = (baseAmountCents + guestSurchargeCents) / baseAmountCents;
   const providerPayoutRate = providerPayoutCents / baseAmountCents;
   
   return {
+    currency,
+    
     // Customer amounts
     customerTotalCents,
     guestSurchargeCents,
+    taxCents: tax.taxCents,
+    taxLines: tax.lines,
     
     // Platform amounts
     platformFeeCents,
@@ -101,12 +127,13 @@ export function calculateFees(input: FeeCalculationInput): FeeCalculationResult
     
     // Display amounts
     displayAmounts: {
-      customerTotal: formatCentsToDisplay(customerTotalCents),
-      guestSurcharge: formatCentsToDisplay(guestSurchargeCents),
-      platformFee: formatCentsToDisplay(platformFeeCents),
-      platformTotalRevenue: formatCentsToDisplay(platformTotalRevenueCents),
-      providerPayout: formatCentsToDisplay(providerPayoutCents),
-      baseAmount: formatCentsToDisplay(baseAmountCents),
+      customerTotal: formatCentsToDisplay(customerTotalCents, currency),
+      guestSurcharge: formatCentsToDisplay(guestSurchargeCents, currency),
+      platformFee: formatCentsToDisplay(platformFeeCents, currency),
+      platformTotalRevenue: formatCentsToDisplay(platformTotalRevenueCents, currency),
+      providerPayout: formatCentsToDisplay(providerPayoutCents, currency),
+      baseAmount: formatCentsToDisplay(baseAmountCents, currency),
+      tax: formatCentsToDisplay(tax.taxCents, currency),
     }
   };
 }
@@ -252,6 +279,7 @@ export function calculatePlatformRevenue(
 
 /**
  * Convert dollars to cents (handling floating point precision)
+ * USD only; use toMinorUnits for other currencies
  */
 export function dollarsToCents(dollars: number): number {
   return Math.round(dollars * 100);
@@ -265,16 +293,10 @@ export function centsToDollars(cents: number): number {
 }
 
 /**
- * Format cents to display string (e.g., 10000 -> "$100.00")
+ * Format minor units to display string (e.g., 10000 -> "$100.00", 10000 JPY -> "¥10,000")
  */
 export function formatCentsToDisplay(cents: number, currency = "USD"): string {
-  const dollars = centsToDollars(cents);
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2
-  }).format(dollars);
+  return formatMinorUnits(cents, currency);
 }
 
 /**
@@ -297,17 +319,19 @@ export function parseDisplayToCents(display: string): number {
  */
 function validateInput(input: FeeCalculationInput): void {
   const { baseAmountCents } = input;
+  const currency = normalizeCurrency(input.currency);
+  const minimumCents = minimumChargeMinor(currency);
   
   if (!Number.isInteger(baseAmountCents)) {
     throw new Error('Amount must be an integer (in cents)');
   }
   
-  if (baseAmountCents < MIN_TRANSACTION_CENTS) {
-    throw new Error(`Minimum transaction amount is ${formatCentsToDisplay(MIN_TRANSACTION_CENTS)}`);
+  if (baseAmountCents < minimumCents) {
+    throw new Error(`Minimum transaction amount is ${formatCentsToDisplay(minimumCents, currency)}`);
   }
   
   if (baseAmountCents > MAX_TRANSACTION_CENTS) {
-    throw new Error(`Maximum transaction amount is ${formatCentsToDisplay(MAX_TRANSACTION_CENTS)}`);
+    throw new Error(`Maximum transaction amount is ${formatCentsToDisplay(MAX_TRANSACTION_CENTS, currency)}`);
   }
 }
 
@@ -335,6 +359,14 @@ export function createFeeBreakdown(fees: FeeCalculationResult): Array<{
     });
   }
   
+  if (fees.taxCents > 0) {
+    breakdown.push({
+      label: 'Tax',
+      amount: fees.displayAmounts.tax,
+      type: 'charge' as const
+    });
+  }
+  
   breakdown.push(
     {
       label: 'Total Charge',
@@ -0,0 +1,302 @@
+/**
+ * FX Rate Service
+ * Stores exchange rates for display conversion and reporting. Charges are
+ * never converted: customers pay in the provider's currency and Stripe
+ * settles in it. Rates only translate prices into a shopper's display
+ * currency and roll multi-currency earnings up into one reporting total.
+ *
+ * Rates come from a pluggable FxRateProvider (FX_RATE_PROVIDER) and are
+ * persisted in fx_rates by the fx-rates cron, always rebased to
+ * DEFAULT_CURRENCY. Until the first refresh the bundled fixture is used.
+ */
+
+import { db } from "@/db/db";
+import { fxRatesTable } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import fixture from "./fx-rates.fixture.json";
+import {
+  CurrencyError,
+  DEFAULT_CURRENCY,
+  formatAmount,
+  fromMinorUnits,
+  normalizeCurrency,
+  toMinorUnits
+} from "./currency";
+
+// Rates change slowly; one load per instance every few minutes is plenty
+const RATE_CACHE_TTL_MS = 10 * 60 * 1000;
+
+export interface RateTable {
+  base: string;
+  rates: Record<string, number>; // Units of each currency per one unit of base
+  asOf: Date;
+  source: string;
+}
+
+export interface FxRateProvider {
+  name: string;
+  fetchRates(): Promise<RateTable>;
+}
+
+export interface DisplayPrice {
+  amount: number;
+  currency: string;
+  formatted: string;
+  converted: boolean;
+}
+
+export interface RefreshResult {
+  source: string;
+  pairs: number;
+  asOf: Date;
+}
+
+/**
+ * Rates bundled with the app, for development and as a fallback
+ */
+export function fixtureRateTable(): RateTable {
+  return normalizeRateTable({
+    base: fixture.base,
+    rates: fixture.rates,
+    asOf: new Date(fixture.asOf),
+    source: "fixture",
+  });
+}
+
+export const fixtureFxRateProvider: FxRateProvider = {
+  name: "fixture",
+  async fetchRates() {
+    return fixtureRateTable();
+  },
+};
+
+/**
+ * Provider for any endpoint returning `{ base, rates, timestamp? }`
+ * (the shape used by most public exchange rate APIs)
+ */
+export function httpFxRateProvider(url: string, apiKey?: string): FxRateProvider {
+  return {
+    name: "http",
+    async fetchRates() {
+      const response = await fetch(url, {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        cache: "no-store",
+      });
+      if (!response.ok) {
+        throw new Error(`FX rate provider responded with ${response.status}`);
+      }
+
+      const body = await response.json() as { base?: string; rates?: Record<string, number>; timestamp?: number };
+      if (!body.base || !body.rates) {
+        throw new Error("FX rate provider returned no rates");
+      }
+
+      return normalizeRateTable({
+        base: body.base,
+        rates: body.rates,
+        asOf: body.timestamp ? new Date(body.timestamp * 1000) : new Date(),
+        source: "http",
+      });
+    },
+  };
+}
+
+/**
+ * Provider selected by FX_RATE_PROVIDER
+ */
+export function resolveFxRateProvider(): FxRateProvider {
+  if (process.env.FX_RATE_PROVIDER === "http") {
+    if (process.env.FX_RATES_URL) {
+      return httpFxRateProvider(process.env.FX_RATES_URL, process.env.FX_RATES_API_KEY);
+    }
+    console.warn("FX_RATE_PROVIDER is http but FX_RATES_URL is not set; using fixture rates");
+  }
+  return fixtureFxRateProvider;
+}
+
+/**
+ * Lower-case the codes and drop unusable rates
+ */
+export function normalizeRateTable(table: RateTable): RateTable {
+  const base = normalizeCurrency(table.base);
+  const rates: Record<string, number> = { [base]: 1 };
+  for (const [code, rate] of Object.entries(table.rates)) {
+    if (Number.isFinite(rate) && rate > 0) {
+      rates[normalizeCurrency(code)] = rate;
+    }
+  }
+  return { ...table, base, rates };
+}
+
+/**
+ * Express every rate relative to a different base currency
+ */
+export function rebaseRateTable(table: RateTable, base: string): RateTable {
+  const newBase = normalizeCurrency(base);
+  if (newBase === table.base) {
+    return table;
+  }
+
+  const pivot = table.rates[newBase];
+  if (!pivot) {
+    throw new CurrencyError(`No exchange rate for ${newBase.toUpperCase()}`, "MISSING_RATE");
+  }
+
+  const rates: Record<string, number> = {};
+  for (const [code, rate] of Object.entries(table.rates)) {
+    rates[code] = rate / pivot;
+  }
+  rates[newBase] = 1;
+  return { ...table, base: newBase, rates };
+}
+
+/**
+ * Units of `to` per one unit of `from`
+ */
+export function rateBetween(from: string, to: string, table: RateTable): number {
+  const fromCode = normalizeCurrency(from);
+  const toCode = normalizeCurrency(to);
+  if (fromCode === toCode) {
+    return 1;
+  }
+
+  const fromRate = table.rates[fromCode];
+  const toRate = table.rates[toCode];
+  if (!fromRate || !toRate) {
+    throw new CurrencyError(
+      `No exchange rate for ${fromCode.toUpperCase()} to ${toCode.toUpperCase()}`,
+      "MISSING_RATE"
+    );
+  }
+  return toRate / fromRate;
+}
+
+/**
+ * Convert a major-unit amount, rounded to the target currency's minor unit
+ */
+export function convertAmount(amount: number, from: string, to: string, table: RateTable): number {
+  const converted = amount * rateBetween(from, to, table);
+  return fromMinorUnits(toMinorUnits(converted, to), to);
+}
+
+/**
+ * Convert a minor-unit amount, e.g. 1000 (USD cents) -> 1485 (JPY, whole yen)
+ */
+export function convertMinorUnits(minor: number, from: string, to: string, table: RateTable): number {
+  return toMinorUnits(fromMinorUnits(minor, from) * rateBetween(from, to, table), to);
+}
+
+/**
+ * Price as shown to a shopper browsing in `displayCurrency`
+ * Falls back to the listing's own currency when no rate is known, so a
+ * missing rate never hides a listing.
+ */
+export function toDisplayPrice(
+  amount: number,
+  currency: string | null | undefined,
+  displayCurrency: string | null | undefined,
+  table: RateTable,
+  options: { wholeUnits?: boolean } = {}
+): DisplayPrice {
+  const from = normalizeCurrency(currency);
+  const to = displayCurrency ? normalizeCurrency(displayCurrency) : from;
+
+  let displayAmount = amount;
+  let target = from;
+  if (to !== from && table.rates[from] && table.rates[to]) {
+    displayAmount = convertAmount(amount, from, to, table);
+    target = to;
+  }
+
+  return {
+    amount: displayAmount,
+    currency: target,
+    formatted: formatAmount(displayAmount, target, options),
+    converted: target !== from,
+  };
+}
+
+/**
+ * Main FX rate class
+ */
+export class FxRateService {
+  private cached: { table: RateTable; loadedAt: number } | null = null;
+
+  constructor(private provider: FxRateProvider = resolveFxRateProvider()) {}
+
+  /**
+   * Pull fresh rates from the provider and store them
+   */
+  async refreshRates(): Promise<RefreshResult> {
+    const table = rebaseRateTable(await this.provider.fetchRates(), DEFAULT_CURRENCY);
+    const now = new Date();
+
+    const pairs = Object.entries(table.rates).filter(([code]) => code !== table.base);
+    for (const [quoteCurrency, rate] of pairs) {
+      await db
+        .insert(fxRatesTable)
+        .values({
+          baseCurrency: table.base,
+          quoteCurrency,
+          rate: rate.toString(),
+          source: table.source,
+          fetchedAt: table.asOf,
+        })
+        .onConflictDoUpdate({
+          target: [fxRatesTable.baseCurrency, fxRatesTable.quoteCurrency],
+          set: {
+            rate: rate.toString(),
+            source: table.source,
+            fetchedAt: table.asOf,
+            updatedAt: now,
+          },
+        });
+    }
+
+    this.cached = { table, loadedAt: Date.now() };
+
+    return { source: table.source, pairs: pairs.length, asOf: table.asOf };
+  }
+
+  /**
+   * Latest stored rates, falling back to the fixture before the first refresh
+   */
+  async getRateTable(): Promise<RateTable> {
+    if (this.cached && Date.now() - this.cached.loadedAt < RATE_CACHE_TTL_MS) {
+      return this.cached.table;
+    }
+
+    const rows = await db
+      .select()
+      .from(fxRatesTable)
+      .where(eq(fxRatesTable.baseCurrency, DEFAULT_CURRENCY));
+
+    let table: RateTable;
+    if (rows.length === 0) {
+      table = rebaseRateTable(fixtureRateTable(), DEFAULT_CURRENCY);
+    } else {
+      const rates: Record<string, number> = { [DEFAULT_CURRENCY]: 1 };
+      let asOf = rows[0].fetchedAt;
+      for (const row of rows) {
+        rates[row.quoteCurrency] = parseFloat(row.rate);
+        if (row.fetchedAt < asOf) {
+          asOf = row.fetchedAt; // Report the stalest pair
+        }
+      }
+      table = { base: DEFAULT_CURRENCY, rates, asOf, source: rows[0].source };
+    }
+
+    this.cached = { table, loadedAt: Date.now() };
+    return table;
+  }
+
+  /**
+   * Convert a major-unit amount at the latest stored rate
+   */
+  async convert(amount: number, from: string, to: string): Promise<number> {
+    return convertAmount(amount, from, to, await this.getRateTable());
+  }
+}
+
+// Export singleton instance
+export const fxRateService = new FxRateService();
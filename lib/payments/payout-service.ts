@@ -17,6 +17,7 @@ import { stripe } from '@/lib/stripe-enhanced';
 import Stripe from 'stripe';
 import { notificationService } from '@/lib/notifications/notification-service';
 import { cache } from '@/lib/cache';
+import { toMinorUnits } from '@/lib/payments/currency';
 
 // Payout configuration
 const PAYOUT_CONFIG = {
@@ -43,6 +44,7 @@ export interface PayoutRequest {
   amount: number;
   platformFee: number;
   escrowDays?: number;
+  currency?: string;
 }
 
 // Payout result interface
@@ -87,7 +89,7 @@ export class PayoutService {
           netPayout,
           scheduledAt,
           status: PayoutStatus.SCHEDULED,
-          currency: 'usd'
+          currency: request.currency || 'usd'
         })
         .returning();
       
@@ -186,7 +188,7 @@ export class PayoutService {
       
       // Create Stripe transfer to provider's connected account
       const transfer = await stripe.transfers.create({
-        amount: Math.round(payout.netPayout * 100), // Convert to cents
+        amount: toMinorUnits(payout.netPayout, payout.currency || 'usd'),
         currency: payout.currency || 'usd',
         destination: provider.stripeConnectAccountId,
         transfer_group: `booking_${booking.id}`,
@@ -206,7 +208,7 @@ export class PayoutService {
         try {
           const stripePayout = await stripe.payouts.create(
             {
-              amount: Math.round(payout.netPayout * 100),
+              amount: toMinorUnits(payout.netPayout, payout.currency || 'usd'),
               currency: payout.currency || 'usd',
               method: 'instant', // or 'standard'
               metadata: {
@@ -0,0 +1,200 @@
+/**
+ * Tax Engine
+ *
+ * Jurisdiction-based sales tax / VAT / GST for marketplace bookings, from
+ * the local rate table in tax-rates.json. Tax follows where the service is
+ * delivered: the space's address for space bookings, otherwise the
+ * provider's location.
+ *
+ * Prices are tax-exclusive. Every jurisdiction layer that matches the
+ * location (country, then state/province, then local zip prefixes) adds its
+ * own line, so a Chicago booking carries both the Illinois and the Chicago
+ * rate. Tax is charged on the service price only; the platform fee and guest
+ * surcharge are not taxed. The provider receives the tax with their payout
+ * and remits it.
+ *
+ * Pure and safe to import from client components (no database access).
+ */
+
+import rateTable from "./tax-rates.json";
+
+export type TaxType = "sales_tax" | "vat" | "gst";
+
+export interface TaxLocation {
+  country?: string | null;
+  state?: string | null;
+  zipCode?: string | null;
+}
+
+export interface TaxJurisdiction {
+  country: string;
+  state?: string;
+  stateName?: string;
+  zipPrefixes?: string[];
+  name: string;
+  taxType: TaxType;
+  rate: number; // Fraction, e.g. 0.0725
+}
+
+export interface TaxLine {
+  jurisdictionCode: string; // e.g. "US", "US-IL", "US-IL-606"
+  jurisdictionName: string;
+  taxType: TaxType;
+  rate: number;
+  taxableCents: number; // Minor units of the booking currency
+  taxCents: number;
+}
+
+export interface TaxQuote {
+  taxableCents: number;
+  taxCents: number;
+  rate: number; // Combined rate across all lines
+  lines: TaxLine[];
+}
+
+// Rate table version, shown on receipts and tax reports
+export const TAX_RATES_AS_OF: string = rateTable.asOf;
+
+const JURISDICTIONS = rateTable.jurisdictions as TaxJurisdiction[];
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  USA: "US",
+  "UNITED STATES": "US",
+  "UNITED STATES OF AMERICA": "US",
+  UK: "GB",
+  "UNITED KINGDOM": "GB",
+  CANADA: "CA",
+};
+
+const TAX_TYPE_LABELS: Record<TaxType, string> = {
+  sales_tax: "Sales Tax",
+  vat: "VAT",
+  gst: "GST",
+};
+
+/**
+ * ISO country code for a stored country value; providers default to "US"
+ */
+export function normalizeCountry(country?: string | null): string {
+  const value = country?.trim().toUpperCase();
+  if (!value) {
+    return "US";
+  }
+  return COUNTRY_ALIASES[value] ?? value;
+}
+
+/**
+ * Match a state/province given as either a code ("CA") or a name ("California")
+ */
+function matchesState(jurisdiction: TaxJurisdiction, state: string): boolean {
+  const value = state.trim().toUpperCase();
+  return jurisdiction.state === value || jurisdiction.stateName?.toUpperCase() === value;
+}
+
+/**
+ * Jurisdiction code used to group tax lines for filing
+ */
+function jurisdictionCode(jurisdiction: TaxJurisdiction, zipCode?: string): string {
+  const parts = [jurisdiction.country];
+  if (jurisdiction.state) parts.push(jurisdiction.state);
+  if (jurisdiction.zipPrefixes && zipCode) {
+    const prefix = jurisdiction.zipPrefixes.find(p => zipCode.startsWith(p));
+    parts.push(prefix ?? jurisdiction.zipPrefixes[0]);
+  }
+  return parts.join("-");
+}
+
+/**
+ * Every rate table layer that applies to a location, least specific first
+ */
+export function resolveJurisdictions(
+  location: TaxLocation,
+  jurisdictions: TaxJurisdiction[] = JURISDICTIONS
+): TaxJurisdiction[] {
+  const country = normalizeCountry(location.country);
+  const state = location.state?.trim();
+  const zipCode = location.zipCode?.trim().toUpperCase();
+
+  // The state-level entry gives the canonical code for local layers
+  const stateEntry = state
+    ? jurisdictions.find(j => j.country === country && !j.zipPrefixes && !!j.state && matchesState(j, state))
+    : undefined;
+
+  return jurisdictions.filter(j => {
+    if (j.country !== country) return false;
+    if (!j.state) return true;
+    if (!stateEntry || j.state !== stateEntry.state) return false;
+    if (!j.zipPrefixes) return true;
+    return !!zipCode && j.zipPrefixes.some(prefix => zipCode.startsWith(prefix));
+  });
+}
+
+/**
+ * Tax on a minor-unit amount at a location
+ * Each line is rounded to the minor unit on its own, as filed.
+ */
+export function calculateTax(
+  taxableCents: number,
+  location: TaxLocation | null | undefined,
+  jurisdictions: TaxJurisdiction[] = JURISDICTIONS
+): TaxQuote {
+  if (!location || taxableCents <= 0) {
+    return { taxableCents: Math.max(taxableCents, 0), taxCents: 0, rate: 0, lines: [] };
+  }
+
+  const zipCode = location.zipCode?.trim().toUpperCase();
+  const lines: TaxLine[] = resolveJurisdictions(location, jurisdictions).map(j => ({
+    jurisdictionCode: jurisdictionCode(j, zipCode),
+    jurisdictionName: j.name,
+    taxType: j.taxType,
+    rate: j.rate,
+    taxableCents,
+    taxCents: Math.round(taxableCents * j.rate),
+  }));
+
+  return {
+    taxableCents,
+    taxCents: lines.reduce((total, line) => total + line.taxCents, 0),
+    rate: lines.reduce((total, line) => total + line.rate, 0),
+    lines,
+  };
+}
+
+/**
+ * Tax location for a service booking
+ */
+export function taxLocationForProvider(provider: {
+  locationCountry?: string | null;
+  locationState?: string | null;
+  locationZipCode?: string | null;
+}): TaxLocation {
+  return {
+    country: provider.locationCountry,
+    state: provider.locationState,
+    zipCode: provider.locationZipCode,
+  };
+}
+
+/**
+ * Tax location for a space booking
+ */
+export function taxLocationForSpace(space: {
+  country?: string | null;
+  state?: string | null;
+  zipCode?: string | null;
+}): TaxLocation {
+  return {
+    country: space.country,
+    state: space.state,
+    zipCode: space.zipCode,
+  };
+}
+
+/**
+ * Receipt label, e.g. "Sales Tax - Illinois (6.25%)"
+ */
+export function formatTaxLineLabel(line: { jurisdictionName: string; taxType: TaxType | string; rate: number | string }): string {
+  const label = TAX_TYPE_LABELS[line.taxType as TaxType] ?? "Tax";
+  const percent = parseFloat((Number(line.rate) * 100).toFixed(4));
+  return `${label} - ${line.jurisdictionName} (${percent}%)`;
+}
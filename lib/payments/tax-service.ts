@@ -0,0 +1,348 @@
+/**
+ * Tax Service
+ * Records the tax lines charged on each booking and builds the provider's
+ * tax summary for filing. Tax amounts themselves come from the pure engine
+ * in ./tax-engine; this module only persists and reports them.
+ *
+ * A booking counts toward a filing period once its payment has been
+ * captured, dated by when it was booked. Refunds reduce the reported tax
+ * in proportion to how much of the booking total was refunded.
+ */
+
+import { db } from "@/db/db";
+import {
+  bookingTaxLinesTable,
+  bookingsTable,
+  transactionsTable,
+  providersTable,
+  type BookingTaxLine
+} from "@/db/schema";
+import { and, asc, eq, gte, inArray, lt, sql } from "drizzle-orm";
+import { fromMinorUnits, minorToDecimalString, normalizeCurrency, toMinorUnits } from "./currency";
+import { TAX_RATES_AS_OF, type TaxLine, type TaxType } from "./tax-engine";
+
+export type TaxServiceErrorCode = "NOT_FOUND" | "INVALID_PERIOD";
+
+const ERROR_STATUS: Record<TaxServiceErrorCode, number> = {
+  NOT_FOUND: 404,
+  INVALID_PERIOD: 400,
+};
+
+export class TaxServiceError extends Error {
+  constructor(
+    message: string,
+    public code: TaxServiceErrorCode
+  ) {
+    super(message);
+    this.name = 'TaxServiceError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+// Transaction statuses that mean the customer's payment was captured
+const CAPTURED_TRANSACTION_STATUSES = ["completed", "refunded"] as const;
+
+// Longest period one report may cover
+const MAX_REPORT_DAYS = 366;
+
+export interface TaxReportRow {
+  bookingId: string;
+  currency: string;
+  jurisdictionCode: string;
+  jurisdictionName: string;
+  taxType: TaxType;
+  rate: string;
+  taxableAmount: string;
+  taxAmount: string;
+  bookingTotal: string;
+  refundedAmount: string | null;
+}
+
+export interface TaxSummaryLine {
+  jurisdictionCode: string;
+  jurisdictionName: string;
+  taxType: TaxType;
+  rate: number;
+  currency: string;
+  bookings: number;
+  taxableAmount: number;
+  taxCollected: number;
+  taxRefunded: number;
+  netTax: number; // What the provider owes for this line
+}
+
+export interface TaxSummary {
+  period: { from: Date; to: Date };
+  ratesAsOf: string;
+  lines: TaxSummaryLine[];
+  totals: Array<{ currency: string; taxableAmount: number; netTax: number }>;
+}
+
+/**
+ * Calendar quarter containing `date`, as a half-open [from, to) range
+ */
+export function quarterRange(date: Date): { from: Date; to: Date } {
+  const quarterStartMonth = Math.floor(date.getUTCMonth() / 3) * 3;
+  return {
+    from: new Date(Date.UTC(date.getUTCFullYear(), quarterStartMonth, 1)),
+    to: new Date(Date.UTC(date.getUTCFullYear(), quarterStartMonth + 3, 1)),
+  };
+}
+
+/**
+ * Fraction of a booking's total that has been refunded
+ */
+function refundShare(row: TaxReportRow, currency: string): number {
+  const totalMinor = toMinorUnits(row.bookingTotal, currency);
+  const refundedMinor = Math.min(toMinorUnits(row.refundedAmount || "0", currency), totalMinor);
+  return totalMinor > 0 ? refundedMinor / totalMinor : 0;
+}
+
+/**
+ * Roll tax lines up by jurisdiction, tax type, rate and currency
+ */
+export function summarizeTaxRows(rows: TaxReportRow[], period: { from: Date; to: Date }): TaxSummary {
+  const groups = new Map<string, {
+    line: Omit<TaxSummaryLine, "taxableAmount" | "taxCollected" | "taxRefunded" | "netTax">;
+    bookingIds: Set<string>;
+    taxableMinor: number;
+    collectedMinor: number;
+    refundedMinor: number;
+  }>();
+
+  for (const row of rows) {
+    const currency = normalizeCurrency(row.currency);
+    const key = [row.jurisdictionCode, row.taxType, row.rate, currency].join("|");
+    const group = groups.get(key) ?? {
+      line: {
+        jurisdictionCode: row.jurisdictionCode,
+        jurisdictionName: row.jurisdictionName,
+        taxType: row.taxType,
+        rate: parseFloat(row.rate),
+        currency,
+        bookings: 0,
+      },
+      bookingIds: new Set<string>(),
+      taxableMinor: 0,
+      collectedMinor: 0,
+      refundedMinor: 0,
+    };
+
+    const taxMinor = toMinorUnits(row.taxAmount, currency);
+    const share = refundShare(row, currency);
+
+    group.bookingIds.add(row.bookingId);
+    group.taxableMinor += Math.round(toMinorUnits(row.taxableAmount, currency) * (1 - share));
+    group.collectedMinor += taxMinor;
+    group.refundedMinor += Math.round(taxMinor * share);
+    groups.set(key, group);
+  }
+
+  const lines = Array.from(groups.values())
+    .map(group => ({
+      ...group.line,
+      bookings: group.bookingIds.size,
+      taxableAmount: fromMinorUnits(group.taxableMinor, group.line.currency),
+      taxCollected: fromMinorUnits(group.collectedMinor, group.line.currency),
+      taxRefunded: fromMinorUnits(group.refundedMinor, group.line.currency),
+      netTax: fromMinorUnits(group.collectedMinor - group.refundedMinor, group.line.currency),
+    }))
+    .sort((a, b) => a.currency.localeCompare(b.currency) || a.jurisdictionCode.localeCompare(b.jurisdictionCode));
+
+  const totals = new Map<string, { taxableMinor: number; netMinor: number }>();
+  for (const group of Array.from(groups.values())) {
+    const total = totals.get(group.line.currency) ?? { taxableMinor: 0, netMinor: 0 };
+    total.netMinor += group.collectedMinor - group.refundedMinor;
+    totals.set(group.line.currency, total);
+  }
+  // Taxable amount counts once per booking, not once per jurisdiction layer
+  const seen = new Set<string>();
+  for (const row of rows) {
+    const currency = normalizeCurrency(row.currency);
+    if (seen.has(row.bookingId)) continue;
+    seen.add(row.bookingId);
+    totals.get(currency)!.taxableMinor += Math.round(toMinorUnits(row.taxableAmount, currency) * (1 - refundShare(row, currency)));
+  }
+
+  return {
+    period,
+    ratesAsOf: TAX_RATES_AS_OF,
+    lines,
+    totals: Array.from(totals, ([currency, total]) => ({
+      currency,
+      taxableAmount: fromMinorUnits(total.taxableMinor, currency),
+      netTax: fromMinorUnits(total.netMinor, currency),
+    })),
+  };
+}
+
+/**
+ * CSV export of a tax summary, one row per jurisdiction line
+ */
+export function taxSummaryToCsv(summary: TaxSummary): string {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const header = [
+    "Jurisdiction Code",
+    "Jurisdiction",
+    "Tax Type",
+    "Rate",
+    "Currency",
+    "Bookings",
+    "Taxable Amount",
+    "Tax Collected",
+    "Tax Refunded",
+    "Net Tax",
+  ];
+  const rows = summary.lines.map(line => [
+    line.jurisdictionCode,
+    line.jurisdictionName,
+    line.taxType,
+    line.rate,
+    line.currency.toUpperCase(),
+    line.bookings,
+    line.taxableAmount.toFixed(2),
+    line.taxCollected.toFixed(2),
+    line.taxRefunded.toFixed(2),
+    line.netTax.toFixed(2),
+  ]);
+
+  return [header, ...rows].map(row => row.map(escape).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Main tax service class
+ */
+export class TaxService {
+  /**
+   * Replace the stored tax lines for a booking
+   * Pass the surrounding transaction so lines commit with the booking row.
+   */
+  async recordBookingTax(
+    booking: { id: string; providerId: string; currency: string },
+    lines: TaxLine[],
+    executor: Pick<typeof db, "insert" | "delete"> = db
+  ): Promise<void> {
+    await executor
+      .delete(bookingTaxLinesTable)
+      .where(eq(bookingTaxLinesTable.bookingId, booking.id));
+
+    if (lines.length === 0) {
+      return;
+    }
+
+    await executor.insert(bookingTaxLinesTable).values(
+      lines.map(line => ({
+        bookingId: booking.id,
+        providerId: booking.providerId,
+        jurisdictionCode: line.jurisdictionCode,
+        jurisdictionName: line.jurisdictionName,
+        taxType: line.taxType,
+        rate: line.rate.toFixed(5),
+        taxableAmount: minorToDecimalString(line.taxableCents, booking.currency),
+        taxAmount: minorToDecimalString(line.taxCents, booking.currency),
+        currency: booking.currency,
+      }))
+    );
+  }
+
+  /**
+   * Tax lines charged on a booking, for receipts
+   */
+  async getBookingTaxLines(bookingId: string): Promise<BookingTaxLine[]> {
+    return await db
+      .select()
+      .from(bookingTaxLinesTable)
+      .where(eq(bookingTaxLinesTable.bookingId, bookingId))
+      .orderBy(asc(bookingTaxLinesTable.jurisdictionCode));
+  }
+
+  /**
+   * Tax summary for the signed-in provider over [from, to)
+   */
+  async getProviderTaxSummary(userId: string, from: Date, to: Date): Promise<TaxSummary> {
+    if (!(from < to)) {
+      throw new TaxServiceError("Report start must be before its end", "INVALID_PERIOD");
+    }
+    if (to.getTime() - from.getTime() > MAX_REPORT_DAYS * 24 * 60 * 60 * 1000) {
+      throw new TaxServiceError(`Reports cover at most ${MAX_REPORT_DAYS} days`, "INVALID_PERIOD");
+    }
+
+    const providerId = await this.providerIdForUser(userId);
+
+    const lines = await db
+      .select({
+        bookingId: bookingTaxLinesTable.bookingId,
+        currency: bookingTaxLinesTable.currency,
+        jurisdictionCode: bookingTaxLinesTable.jurisdictionCode,
+        jurisdictionName: bookingTaxLinesTable.jurisdictionName,
+        taxType: bookingTaxLinesTable.taxType,
+        rate: bookingTaxLinesTable.rate,
+        taxableAmount: bookingTaxLinesTable.taxableAmount,
+        taxAmount: bookingTaxLinesTable.taxAmount,
+        bookingTotal: bookingsTable.totalAmount,
+      })
+      .from(bookingTaxLinesTable)
+      .innerJoin(bookingsTable, eq(bookingTaxLinesTable.bookingId, bookingsTable.id))
+      .where(
+        and(
+          eq(bookingTaxLinesTable.providerId, providerId),
+          gte(bookingsTable.createdAt, from),
+          lt(bookingsTable.createdAt, to),
+          sql`EXISTS (
+            SELECT 1 FROM ${transactionsTable}
+            WHERE ${transactionsTable.bookingId} = ${bookingsTable.id}
+            AND ${inArray(transactionsTable.status, [...CAPTURED_TRANSACTION_STATUSES])}
+          )`
+        )
+      );
+
+    const bookingIds = Array.from(new Set(lines.map(line => line.bookingId)));
+    const refunds = bookingIds.length > 0
+      ? await db
+          .select({
+            bookingId: transactionsTable.bookingId,
+            refunded: sql<string>`COALESCE(SUM(${transactionsTable.refundAmount}), 0)`,
+          })
+          .from(transactionsTable)
+          .where(inArray(transactionsTable.bookingId, bookingIds))
+          .groupBy(transactionsTable.bookingId)
+      : [];
+    const refundedByBooking = new Map(refunds.map(r => [r.bookingId, r.refunded]));
+
+    return summarizeTaxRows(
+      lines.map(line => ({
+        ...line,
+        refundedAmount: refundedByBooking.get(line.bookingId) ?? null,
+      })),
+      { from, to }
+    );
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private async providerIdForUser(userId: string): Promise<string> {
+    const [provider] = await db
+      .select({ id: providersTable.id })
+      .from(providersTable)
+      .where(eq(providersTable.userId, userId))
+      .limit(1);
+
+    if (!provider) {
+      throw new TaxServiceError("Provider profile not found", "NOT_FOUND");
+    }
+
+    return provider.id;
+  }
+}
+
+// Export singleton instance
+export const taxService = new TaxService();
@@ -471,7 +471,7 @@ export class DataPreloader {
   static async preloadUserProfiles(messages: any[]): Promise<Map<string, any>> {
     const userIds = [...new Set([
       ...messages.map(m => m.senderId),
-      ...messages.map(m => m.recipientId)
+      ...messages.map(m => m.recipientId).filter(Boolean) // None in group conversations
     ])];
 
     const profiles = await db
@@ -13,6 +13,7 @@ import {
 } from "@/db/schema/pricing-schema";
 import { servicesTable } from "@/db/schema/enhanced-booking-schema";
 import { and, eq, gte, lte, or, sql } from "drizzle-orm";
+import { calculateTax, type TaxLine, type TaxLocation } from "@/lib/payments/tax-engine";
 
 // Platform fee constants
 export const PLATFORM_FEE_PERCENT = 0.10; // 10% platform fee
@@ -27,6 +28,8 @@ export interface PricingBreakdown {
   platformFee: number;
   guestSurcharge?: number;
   stripeFee: number;
+  tax: number; // Sales tax / VAT at the service location, included in customerTotal
+  taxLines: TaxLine[];
   providerPayout: number;
   customerTotal: number;
   savingsAmount?: number;
@@ -163,6 +166,7 @@ export async function calculateDynamicPrice(
  * @param requestedDate - Service date/time
  * @param duration - Duration in minutes
  * @param groupSize - Number of people
+ * @param taxLocation - Where the service is delivered; omit for no tax
  * @returns Complete pricing breakdown
  */
 export async function getPricingBreakdown(
@@ -171,7 +175,8 @@ export async function getPricingBreakdown(
   isGuest: boolean,
   requestedDate?: Date,
   duration?: number,
-  groupSize: number = 1
+  groupSize: number = 1,
+  taxLocation?: TaxLocation
 ): Promise<PricingBreakdown> {
   // Calculate dynamic price
   const { basePrice, finalPrice, surgeMultiplier } = await calculateDynamicPrice(
@@ -188,6 +193,9 @@ export async function getPricingBreakdown(
   // Calculate fees
   const fees = calculateFees(finalPriceCents, isGuest);
   
+  // Tax on the service price only
+  const tax = calculateTax(finalPriceCents, taxLocation);
+  
   // Calculate savings if applicable
   let savingsAmount: number | undefined;
   let savingsPercent: number | undefined;
@@ -204,8 +212,10 @@ export async function getPricingBreakdown(
     platformFee: fees.platformFeeCents / 100,
     guestSurcharge: fees.guestSurchargeCents ? fees.guestSurchargeCents / 100 : undefined,
     stripeFee: fees.stripeFeeCents / 100,
+    tax: tax.taxCents / 100,
+    taxLines: tax.lines,
     providerPayout: fees.providerPayoutCents / 100,
-    customerTotal: fees.totalCents / 100,
+    customerTotal: (fees.totalCents + tax.taxCents) / 100,
     savingsAmount,
     savingsPercent,
   };
@@ -147,6 +147,70 @@ export const cacheExpire = async (key: string, seconds: number) => {
   return 1;
 };
 
+// Hash helpers; each field is written on its own, so concurrent writers
+// to different fields of one key never overwrite each other
+const memoryHash = (key: string): Record<string, any> | null => {
+  const entry = memoryCache.get(key);
+  if (!entry) return null;
+
+  if (entry.expires && entry.expires <= Date.now()) {
+    memoryCache.delete(key);
+    return null;
+  }
+
+  return entry.value && typeof entry.value === 'object' ? entry.value : null;
+};
+
+export const cacheHSet = async (key: string, field: string, value: any) => {
+  if (redis) {
+    try {
+      return await redis.hset(key, { [field]: value });
+    } catch (error) {
+      console.warn('Redis hset failed, falling back to memory cache:', error);
+      // Fall through to memory cache
+    }
+  }
+  
+  const hash = memoryHash(key);
+  memoryCache.set(key, { value: { ...hash, [field]: value }, expires: hash ? memoryCache.get(key)?.expires : undefined });
+  return 1;
+};
+
+export const cacheHDel = async (key: string, field: string) => {
+  if (redis) {
+    try {
+      return await redis.hdel(key, field);
+    } catch (error) {
+      console.warn('Redis hdel failed, falling back to memory cache:', error);
+      // Fall through to memory cache
+    }
+  }
+  
+  const hash = memoryHash(key);
+  if (!hash || !(field in hash)) return 0;
+  
+  const { [field]: _removed, ...rest } = hash;
+  if (Object.keys(rest).length === 0) {
+    memoryCache.delete(key);
+  } else {
+    memoryCache.set(key, { value: rest, expires: memoryCache.get(key)?.expires });
+  }
+  return 1;
+};
+
+export const cacheHGetAll = async (key: string): Promise<Record<string, unknown> | null> => {
+  if (redis) {
+    try {
+      return await redis.hgetall(key);
+    } catch (error) {
+      console.warn('Redis hgetall failed, falling back to memory cache:', error);
+      return memoryHash(key);
+    }
+  }
+  
+  return memoryHash(key);
+};
+
 // Utility for rate limiting
 export const rateLimit = async (
   identifier: string, 
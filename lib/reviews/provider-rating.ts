@@ -0,0 +1,82 @@
+/**
+ * Provider Rating
+ * The overall rating shown for a provider: a weighted average of their
+ * published, unflagged reviews in which recent reviews and reviews from
+ * verified bookings count more.
+ */
+
+import { db } from "@/db/db";
+import { providersTable, reviewsTable } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+
+// A review's weight in the provider rating halves every RATING_HALF_LIFE_DAYS
+export const RATING_HALF_LIFE_DAYS = 365;
+export const UNVERIFIED_REVIEW_WEIGHT = 0.5;
+
+export interface WeightedReview {
+  rating: number;
+  createdAt: Date;
+  isVerifiedBooking: boolean;
+}
+
+/**
+ * Weight of a review in the provider rating: halves every
+ * RATING_HALF_LIFE_DAYS and counts less without a verified booking
+ */
+export function reviewWeight(review: Omit<WeightedReview, "rating">, now: Date = new Date()): number {
+  const ageDays = Math.max(0, now.getTime() - review.createdAt.getTime()) / (24 * 60 * 60 * 1000);
+  const recency = Math.pow(0.5, ageDays / RATING_HALF_LIFE_DAYS);
+  return review.isVerifiedBooking ? recency : recency * UNVERIFIED_REVIEW_WEIGHT;
+}
+
+/**
+ * Weighted average of the given ratings, rounded to one decimal
+ * null when there are no reviews.
+ */
+export function weightedAverageRating(reviews: WeightedReview[], now: Date = new Date()): number | null {
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  for (const review of reviews) {
+    const weight = reviewWeight(review, now);
+    weightedSum += review.rating * weight;
+    totalWeight += weight;
+  }
+
+  if (totalWeight === 0) {
+    return null;
+  }
+  return Math.round((weightedSum / totalWeight) * 10) / 10;
+}
+
+/**
+ * Recompute a provider's rating and review count from their visible reviews
+ */
+export async function refreshProviderRating(
+  providerId: string,
+  executor: Pick<typeof db, "select" | "update"> = db
+): Promise<void> {
+  const reviews = await executor
+    .select({
+      rating: reviewsTable.rating,
+      createdAt: reviewsTable.createdAt,
+      isVerifiedBooking: reviewsTable.isVerifiedBooking,
+    })
+    .from(reviewsTable)
+    .where(
+      and(
+        eq(reviewsTable.providerId, providerId),
+        eq(reviewsTable.isPublished, true),
+        eq(reviewsTable.isFlagged, false)
+      )
+    );
+
+  await executor
+    .update(providersTable)
+    .set({
+      averageRating: (weightedAverageRating(reviews) ?? 0).toFixed(1),
+      totalReviews: reviews.length,
+      updatedAt: new Date(),
+    })
+    .where(eq(providersTable.id, providerId));
+}
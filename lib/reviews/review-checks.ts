@@ -0,0 +1,75 @@
+/**
+ * Review Content Checks
+ * Text checks run on every review before it can be shown: profanity
+ * (including repeated letters and digit/symbol look-alikes such as
+ * "sh1t" or "fuuuck") and personal data such as phone numbers, emails and
+ * payment handles, found with the contact screening used for messages.
+ *
+ * Checks that need the database (review bombing, cancelled bookings) live
+ * in the review moderation service.
+ */
+
+import type { ReviewFinding } from "@/db/schema";
+import { screenContactDetails } from "@/lib/security/contact-screening";
+
+// Words matched whole, optionally with a common suffix
+const PROFANITY = [
+  "fuck", "motherfucker", "shit", "bullshit", "bitch", "bastard", "asshole",
+  "cunt", "dick", "dickhead", "prick", "piss", "slut", "whore", "wanker",
+  "twat", "douchebag", "jackass", "scumbag", "retard",
+];
+
+const SUFFIXES = "(?:s|es|ed|er|ers|ing|y)?";
+
+const LOOK_ALIKES: Record<string, string> = {
+  "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "7": "t",
+  "@": "a", "$": "s", "!": "i", "|": "l",
+};
+
+// Each letter may repeat: "shiiit" still matches "shit"
+const PROFANITY_PATTERN = new RegExp(
+  `\\b(?:${PROFANITY.map(word => word.split("").map(letter => `${letter}+`).join("")).join("|")})${SUFFIXES}\\b`,
+  "gi"
+);
+
+/**
+ * Text with look-alike characters inside words replaced by the letter they imitate
+ */
+export function normalizeLookAlikes(text: string): string {
+  return text.replace(/(?<=[a-z])[013457@$!|]+|[013457@$!|]+(?=[a-z])/gi, match =>
+    match.split("").map(char => LOOK_ALIKES[char] ?? char).join("")
+  );
+}
+
+/**
+ * Profane words in the text, lower-cased as written after normalization
+ */
+export function findProfanity(text: string): string[] {
+  const matches = normalizeLookAlikes(text).match(PROFANITY_PATTERN) ?? [];
+  return Array.from(new Set(matches.map(match => match.toLowerCase())));
+}
+
+/**
+ * Findings of the text checks for a review's title and text
+ */
+export function checkReviewContent(...texts: (string | null | undefined)[]): ReviewFinding[] {
+  const text = texts.filter(Boolean).join("\n");
+  if (!text) {
+    return [];
+  }
+
+  const findings: ReviewFinding[] = [];
+
+  const profanity = findProfanity(text);
+  if (profanity.length > 0) {
+    findings.push({ check: "profanity", detail: `Contains ${profanity.join(", ")}` });
+  }
+
+  const contacts = screenContactDetails(text).findings;
+  if (contacts.length > 0) {
+    const kinds = Array.from(new Set(contacts.map(finding => finding.kind.replace("_", " "))));
+    findings.push({ check: "personal_data", detail: `Contains ${kinds.join(", ")}` });
+  }
+
+  return findings;
+}
@@ -0,0 +1,471 @@
+/**
+ * Review Moderation Service
+ * Every review of a provider is screened for abuse when it is submitted (and
+ * by the review-screening cron for reviews written any other way):
+ * profanity, personal data, review bombing — a burst of low ratings from
+ * newly created accounts — and reviews of bookings cancelled before the
+ * service took place. Reviews that fail a check are flagged, which hides
+ * them from listings and the provider rating, and queued for an admin.
+ *
+ * Providers can appeal a visible review of them once; the review stays up
+ * until an admin decides.
+ */
+
+import { db } from "@/db/db";
+import {
+  bookingsTable,
+  bookingStatus,
+  profilesTable,
+  providersTable,
+  reviewsTable,
+  reviewModerationCasesTable,
+  reviewModerationStatus,
+  type ReviewFinding,
+  type ReviewModerationCase,
+} from "@/db/schema";
+import { and, desc, eq, gte, inArray, isNull, lte, ne, sql } from "drizzle-orm";
+import { checkReviewContent } from "@/lib/reviews/review-checks";
+import { refreshProviderRating } from "@/lib/reviews/provider-rating";
+
+// Review bombing: this many low ratings for one provider from new accounts within the window
+export const BOMBING_MIN_REVIEWS = 3;
+export const BOMBING_WINDOW_HOURS = 72;
+export const NEW_ACCOUNT_DAYS = 7;
+export const LOW_RATING = 2;
+
+const CANCELLED_STATUSES: string[] = [bookingStatus.CANCELED_CUSTOMER, bookingStatus.CANCELED_PROVIDER];
+
+type Executor = Pick<typeof db, "select" | "insert" | "update">;
+
+export type ModerationDecision = "kept" | "removed";
+
+export interface ModerationCaseView extends ReviewModerationCase {
+  review: {
+    providerId: string;
+    customerId: string;
+    rating: number;
+    title: string | null;
+    reviewText: string | null;
+    isPublished: boolean;
+    isFlagged: boolean;
+    createdAt: Date;
+  };
+}
+
+export interface ScreenPendingResult {
+  screened: number;
+  flagged: number;
+}
+
+export type ReviewModerationErrorCode =
+  | "NOT_FOUND"
+  | "FORBIDDEN"
+  | "INVALID_STATE"
+  | "ALREADY_APPEALED";
+
+const ERROR_STATUS: Record<ReviewModerationErrorCode, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  INVALID_STATE: 409,
+  ALREADY_APPEALED: 409,
+};
+
+export class ReviewModerationError extends Error {
+  constructor(
+    message: string,
+    public code: ReviewModerationErrorCode
+  ) {
+    super(message);
+    this.name = 'ReviewModerationError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+/**
+ * Whether a booking was cancelled before its service took place
+ */
+export function cancelledBeforeService(booking: {
+  status: string;
+  cancelledAt: Date | null;
+  bookingDate: Date;
+  startTime: string;
+}): boolean {
+  if (CANCELLED_STATUSES.includes(booking.status)) {
+    return true;
+  }
+  if (!booking.cancelledAt) {
+    return false;
+  }
+  const [hours, minutes] = booking.startTime.split(":").map(Number);
+  const startsAt = new Date(booking.bookingDate);
+  startsAt.setUTCHours(hours || 0, minutes || 0, 0, 0);
+  return booking.cancelledAt < startsAt;
+}
+
+/**
+ * Main review moderation class
+ */
+export class ReviewModerationService {
+  /**
+   * Run the automated checks on a review, flag it and open a case when any fails
+   * Pass the transaction the review was written in to screen it before commit.
+   */
+  async screenReview(reviewId: string, executor: Executor = db): Promise<ReviewFinding[]> {
+    const [review] = await executor
+      .select({
+        id: reviewsTable.id,
+        providerId: reviewsTable.providerId,
+        rating: reviewsTable.rating,
+        title: reviewsTable.title,
+        reviewText: reviewsTable.reviewText,
+        createdAt: reviewsTable.createdAt,
+        reviewerJoinedAt: profilesTable.createdAt,
+        bookingStatus: bookingsTable.status,
+        cancelledAt: bookingsTable.cancelledAt,
+        bookingDate: bookingsTable.bookingDate,
+        startTime: bookingsTable.startTime,
+      })
+      .from(reviewsTable)
+      .innerJoin(bookingsTable, eq(reviewsTable.bookingId, bookingsTable.id))
+      .leftJoin(profilesTable, eq(reviewsTable.customerId, profilesTable.userId))
+      .where(eq(reviewsTable.id, reviewId))
+      .limit(1);
+
+    if (!review) {
+      throw new ReviewModerationError("Review not found", "NOT_FOUND");
+    }
+
+    const findings = checkReviewContent(review.title, review.reviewText);
+
+    if (cancelledBeforeService({
+      status: review.bookingStatus,
+      cancelledAt: review.cancelledAt,
+      bookingDate: review.bookingDate,
+      startTime: review.startTime,
+    })) {
+      findings.push({ check: "cancelled_booking", detail: "The booking was cancelled before the service" });
+    }
+
+    // Other reviews in the burst are flagged along with this one
+    let burst: string[] = [];
+    if (review.rating <= LOW_RATING && review.reviewerJoinedAt && this.isNewAccount(review.reviewerJoinedAt, review.createdAt)) {
+      burst = await this.lowRatingsFromNewAccounts(review.providerId, review.createdAt, executor);
+      if (burst.length >= BOMBING_MIN_REVIEWS) {
+        findings.push({
+          check: "review_bombing",
+          detail: `${burst.length} low ratings from accounts under ${NEW_ACCOUNT_DAYS} days old within ${BOMBING_WINDOW_HOURS} hours`,
+        });
+      }
+    }
+
+    await executor
+      .update(reviewsTable)
+      .set({ screenedAt: new Date() })
+      .where(eq(reviewsTable.id, reviewId));
+
+    if (findings.length === 0) {
+      return findings;
+    }
+
+    await this.flag(reviewId, findings, executor);
+
+    const bombing = findings.find(finding => finding.check === "review_bombing");
+    if (bombing) {
+      for (const otherId of burst.filter(id => id !== reviewId)) {
+        await this.flag(otherId, [bombing], executor);
+      }
+    }
+
+    await refreshProviderRating(review.providerId, executor);
+
+    return findings;
+  }
+
+  /**
+   * Screen reviews that haven't been through the automated checks yet (cron)
+   */
+  async screenPending(limit: number = 200): Promise<ScreenPendingResult> {
+    const pending = await db
+      .select({ id: reviewsTable.id })
+      .from(reviewsTable)
+      .where(isNull(reviewsTable.screenedAt))
+      .orderBy(reviewsTable.createdAt)
+      .limit(limit);
+
+    let flagged = 0;
+    for (const review of pending) {
+      try {
+        const findings = await this.screenReview(review.id);
+        if (findings.length > 0) {
+          flagged++;
+        }
+      } catch (error) {
+        console.error(`Error screening review ${review.id}:`, error);
+      }
+    }
+
+    return { screened: pending.length, flagged };
+  }
+
+  /**
+   * Cases for the admin moderation queue, oldest open first
+   */
+  async listCases(options: {
+    status?: ModerationDecision | "open";
+    source?: ReviewModerationCase["source"];
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<ModerationCaseView[]> {
+    const conditions = [];
+    if (options.status) {
+      conditions.push(eq(reviewModerationCasesTable.status, options.status));
+    }
+    if (options.source) {
+      conditions.push(eq(reviewModerationCasesTable.source, options.source));
+    }
+
+    const rows = await db
+      .select({
+        moderationCase: reviewModerationCasesTable,
+        review: {
+          providerId: reviewsTable.providerId,
+          customerId: reviewsTable.customerId,
+          rating: reviewsTable.rating,
+          title: reviewsTable.title,
+          reviewText: reviewsTable.reviewText,
+          isPublished: reviewsTable.isPublished,
+          isFlagged: reviewsTable.isFlagged,
+          createdAt: reviewsTable.createdAt,
+        },
+      })
+      .from(reviewModerationCasesTable)
+      .innerJoin(reviewsTable, eq(reviewModerationCasesTable.reviewId, reviewsTable.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(
+        options.status === reviewModerationStatus.OPEN
+          ? reviewModerationCasesTable.createdAt
+          : desc(reviewModerationCasesTable.createdAt)
+      )
+      .limit(options.limit ?? 50)
+      .offset(options.offset ?? 0);
+
+    return rows.map(({ moderationCase, review }) => ({ ...moderationCase, review }));
+  }
+
+  /**
+   * Record an admin's decision on an open case
+   * "kept" shows the review again unless another case is open or removed it;
+   * "removed" hides it for good.
+   */
+  async decide(
+    caseId: string,
+    adminId: string,
+    decision: { status: ModerationDecision; note?: string }
+  ): Promise<ReviewModerationCase> {
+    return db.transaction(async (tx) => {
+      const [decided] = await tx
+        .update(reviewModerationCasesTable)
+        .set({
+          status: decision.status,
+          decisionNote: decision.note,
+          decidedBy: adminId,
+          decidedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(reviewModerationCasesTable.id, caseId),
+            eq(reviewModerationCasesTable.status, reviewModerationStatus.OPEN)
+          )
+        )
+        .returning();
+
+      if (!decided) {
+        const [existing] = await tx
+          .select({ id: reviewModerationCasesTable.id })
+          .from(reviewModerationCasesTable)
+          .where(eq(reviewModerationCasesTable.id, caseId))
+          .limit(1);
+        throw existing
+          ? new ReviewModerationError("This case has already been decided", "INVALID_STATE")
+          : new ReviewModerationError("Case not found", "NOT_FOUND");
+      }
+
+      if (decision.status === reviewModerationStatus.REMOVED) {
+        await tx
+          .update(reviewsTable)
+          .set({
+            isFlagged: true,
+            flagReason: decision.note ? `Removed by moderator: ${decision.note}` : "Removed by moderator",
+            updatedAt: new Date(),
+          })
+          .where(eq(reviewsTable.id, decided.reviewId));
+      } else {
+        const [heldBack] = await tx
+          .select({ id: reviewModerationCasesTable.id })
+          .from(reviewModerationCasesTable)
+          .where(
+            and(
+              eq(reviewModerationCasesTable.reviewId, decided.reviewId),
+              ne(reviewModerationCasesTable.id, caseId),
+              inArray(reviewModerationCasesTable.status, [reviewModerationStatus.OPEN, reviewModerationStatus.REMOVED])
+            )
+          )
+          .limit(1);
+
+        if (!heldBack) {
+          await tx
+            .update(reviewsTable)
+            .set({ isFlagged: false, flagReason: null, updatedAt: new Date() })
+            .where(eq(reviewsTable.id, decided.reviewId));
+        }
+      }
+
+      const [review] = await tx
+        .select({ providerId: reviewsTable.providerId })
+        .from(reviewsTable)
+        .where(eq(reviewsTable.id, decided.reviewId));
+      await refreshProviderRating(review.providerId, tx);
+
+      return decided;
+    });
+  }
+
+  /**
+   * Appeal a visible review of the requesting provider
+   * Each review can be appealed once.
+   */
+  async appeal(reviewId: string, userId: string, reason: string): Promise<ReviewModerationCase> {
+    const [review] = await db
+      .select({
+        id: reviewsTable.id,
+        isPublished: reviewsTable.isPublished,
+        isFlagged: reviewsTable.isFlagged,
+        providerUserId: providersTable.userId,
+      })
+      .from(reviewsTable)
+      .innerJoin(providersTable, eq(reviewsTable.providerId, providersTable.id))
+      .where(eq(reviewsTable.id, reviewId))
+      .limit(1);
+
+    if (!review) {
+      throw new ReviewModerationError("Review not found", "NOT_FOUND");
+    }
+    if (review.providerUserId !== userId) {
+      throw new ReviewModerationError("You can only appeal reviews of your own business", "FORBIDDEN");
+    }
+    if (!review.isPublished || review.isFlagged) {
+      throw new ReviewModerationError("This review isn't visible", "INVALID_STATE");
+    }
+
+    const [previous] = await db
+      .select({ id: reviewModerationCasesTable.id })
+      .from(reviewModerationCasesTable)
+      .where(
+        and(
+          eq(reviewModerationCasesTable.reviewId, reviewId),
+          eq(reviewModerationCasesTable.source, "appeal")
+        )
+      )
+      .limit(1);
+    if (previous) {
+      throw new ReviewModerationError("This review has already been appealed", "ALREADY_APPEALED");
+    }
+
+    const [appeal] = await db
+      .insert(reviewModerationCasesTable)
+      .values({
+        reviewId,
+        source: "appeal",
+        appealedBy: userId,
+        appealReason: reason.trim(),
+      })
+      .returning();
+
+    return appeal;
+  }
+
+  /**
+   * Appeals a provider has made, newest first
+   */
+  async listAppeals(userId: string): Promise<ReviewModerationCase[]> {
+    return db
+      .select()
+      .from(reviewModerationCasesTable)
+      .where(
+        and(
+          eq(reviewModerationCasesTable.source, "appeal"),
+          eq(reviewModerationCasesTable.appealedBy, userId)
+        )
+      )
+      .orderBy(desc(reviewModerationCasesTable.createdAt));
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private isNewAccount(joinedAt: Date, reviewedAt: Date): boolean {
+    return reviewedAt.getTime() - joinedAt.getTime() < NEW_ACCOUNT_DAYS * 24 * 60 * 60 * 1000;
+  }
+
+  // Low ratings of the provider from new accounts in the window around a review
+  private async lowRatingsFromNewAccounts(
+    providerId: string,
+    around: Date,
+    executor: Executor
+  ): Promise<string[]> {
+    const windowMs = BOMBING_WINDOW_HOURS * 60 * 60 * 1000;
+    const rows = await executor
+      .select({ id: reviewsTable.id })
+      .from(reviewsTable)
+      .innerJoin(profilesTable, eq(reviewsTable.customerId, profilesTable.userId))
+      .where(
+        and(
+          eq(reviewsTable.providerId, providerId),
+          lte(reviewsTable.rating, LOW_RATING),
+          gte(reviewsTable.createdAt, new Date(around.getTime() - windowMs)),
+          lte(reviewsTable.createdAt, new Date(around.getTime() + windowMs)),
+          sql`${reviewsTable.createdAt} - ${profilesTable.createdAt} < make_interval(days => ${NEW_ACCOUNT_DAYS})`
+        )
+      );
+
+    return rows.map(row => row.id);
+  }
+
+  // Hide the review and open an automated case; reviews an admin has
+  // already looked at keep the admin's decision
+  private async flag(reviewId: string, findings: ReviewFinding[], executor: Executor): Promise<void> {
+    const [existing] = await executor
+      .select({ id: reviewModerationCasesTable.id })
+      .from(reviewModerationCasesTable)
+      .where(
+        and(
+          eq(reviewModerationCasesTable.reviewId, reviewId),
+          eq(reviewModerationCasesTable.source, "automated")
+        )
+      )
+      .limit(1);
+    if (existing) {
+      return;
+    }
+
+    await executor
+      .update(reviewsTable)
+      .set({
+        isFlagged: true,
+        flagReason: findings.map(finding => finding.detail).join("; "),
+        updatedAt: new Date(),
+      })
+      .where(eq(reviewsTable.id, reviewId));
+
+    await executor
+      .insert(reviewModerationCasesTable)
+      .values({ reviewId, source: "automated", findings });
+  }
+}
+
+// Export singleton instance
+export const reviewModerationService = new ReviewModerationService();
@@ -0,0 +1,676 @@
+/**
+ * Booking Review Service
+ * Two-sided reviews of completed bookings: customers rate the provider and
+ * providers rate the customer. Reviews are double-blind — neither side sees
+ * the other's review until both are in or the review window closes
+ * REVIEW_WINDOW_DAYS after completion, when the review-reveals cron
+ * publishes whatever was submitted.
+ *
+ * Published provider-to-customer reviews make up the customer reputation
+ * that providers see on bookings and can require for instant booking.
+ *
+ * Customer reviews cover every kind of listing — services, events, spaces
+ * and things — with category sub-ratings, photos and helpful votes. The
+ * provider's overall rating weights recent and verified reviews higher.
+ */
+
+import { db } from "@/db/db";
+import {
+  bookingsTable,
+  providersTable,
+  reviewsTable,
+  customerReviewsTable,
+  reviewPhotosTable,
+  reviewHelpfulVotesTable,
+  type Review,
+  type CustomerReview,
+  type ReviewDimension,
+  type ReviewListingType,
+  type ReviewSubRatings,
+} from "@/db/schema";
+import { and, count, eq, isNull, lte, sql } from "drizzle-orm";
+import { BookingStates } from "@/lib/booking-state-machine";
+import { notificationService } from "@/lib/notifications/notification-service";
+import {
+  validateAttachment,
+  AttachmentError,
+  type AttachmentUpload,
+} from "@/lib/messaging/attachment-validation";
+import { generateReviewPhotoPath, uploadReviewPhoto } from "@/lib/supabase/storage-helpers";
+import { refreshProviderRating } from "@/lib/reviews/provider-rating";
+import { reviewModerationService } from "@/lib/reviews/review-moderation-service";
+
+export const REVIEW_WINDOW_DAYS = 14;
+export const MAX_REVIEW_PHOTOS = 6;
+
+// Sub-ratings customers can give per kind of listing
+export const REVIEW_DIMENSIONS: Record<ReviewListingType, readonly ReviewDimension[]> = {
+  service: ["punctuality", "communication", "value"],
+  event: ["punctuality", "communication", "value"],
+  space: ["punctuality", "communication", "value", "cleanliness"],
+  thing: ["communication", "value"],
+};
+
+export type ReviewerRole = "customer" | "provider";
+
+export interface SubmitReviewInput {
+  rating: number; // 1-5
+  reviewText?: string;
+  title?: string; // Customers only
+  subRatings?: ReviewSubRatings; // Customers only, dimensions of the listing type
+}
+
+export interface ReviewView {
+  id: string;
+  rating: number;
+  title: string | null;
+  reviewText: string | null;
+  subRatings: ReviewSubRatings;
+  createdAt: Date;
+  revealedAt: Date | null;
+}
+
+export interface ReviewPhotoView {
+  id: string;
+  url: string;
+}
+
+export interface CustomerReputation {
+  customerId: string;
+  averageRating: number | null; // null until the customer has a published review
+  totalReviews: number;
+  completedBookings: number;
+  noShows: number;
+}
+
+export interface BookingReviews {
+  role: ReviewerRole;
+  windowClosesAt: Date | null; // null until the booking is completed
+  canReview: boolean;
+  dimensions: readonly ReviewDimension[]; // Sub-ratings the caller can give
+  maxPhotos: number;
+  ownReview: ReviewView | null;
+  counterpartSubmitted: boolean;
+  counterpartReview: ReviewView | null; // Only once revealed
+  customerReputation?: CustomerReputation; // Providers only
+}
+
+export interface SubmitReviewResult {
+  review: ReviewView;
+  revealed: boolean;
+}
+
+export interface RevealReviewsResult {
+  reviewsRevealed: number;
+  customerReviewsRevealed: number;
+}
+
+type ReviewableBooking = {
+  id: string;
+  providerId: string;
+  customerId: string;
+  bookingType: string | null;
+  serviceId: string | null;
+  eventId: string | null;
+  spaceId: string | null;
+  metadata: { thingId?: string } | null;
+  status: string;
+  serviceName: string;
+  isGuestBooking: boolean;
+  completedAt: Date | null;
+  updatedAt: Date;
+  providerUserId: string;
+};
+
+export type ReviewErrorCode =
+  | "NOT_FOUND"
+  | "FORBIDDEN"
+  | "INVALID_STATE"
+  | "WINDOW_CLOSED"
+  | "ALREADY_REVIEWED"
+  | "INVALID_RATING"
+  | "PHOTO_LIMIT";
+
+const ERROR_STATUS: Record<ReviewErrorCode, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  INVALID_STATE: 409,
+  WINDOW_CLOSED: 422,
+  ALREADY_REVIEWED: 409,
+  INVALID_RATING: 400,
+  PHOTO_LIMIT: 422,
+};
+
+export class ReviewError extends Error {
+  constructor(
+    message: string,
+    public code: ReviewErrorCode
+  ) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+/**
+ * When the review window of a booking completed at `completedAt` closes
+ */
+export function reviewWindowEnd(completedAt: Date): Date {
+  return new Date(completedAt.getTime() + REVIEW_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Whether a customer may book a provider instantly
+ * Customers without any published review don't meet a minimum.
+ */
+export function meetsInstantBookingMinimum(
+  reputation: Pick<CustomerReputation, "averageRating">,
+  minimumRating: string | number | null | undefined
+): boolean {
+  if (minimumRating === null || minimumRating === undefined) {
+    return true;
+  }
+  if (reputation.averageRating === null) {
+    return false;
+  }
+  return reputation.averageRating >= Number(minimumRating);
+}
+
+/**
+ * What a booking's customer review is about
+ */
+export function listingOf(
+  booking: Pick<ReviewableBooking, "bookingType" | "serviceId" | "eventId" | "spaceId" | "metadata">
+): { listingType: ReviewListingType; listingId: string | null } {
+  if (booking.metadata?.thingId) {
+    return { listingType: "thing", listingId: booking.metadata.thingId };
+  }
+  if (booking.bookingType === "event") {
+    return { listingType: "event", listingId: booking.eventId };
+  }
+  if (booking.bookingType === "space") {
+    return { listingType: "space", listingId: booking.spaceId };
+  }
+  return { listingType: "service", listingId: booking.serviceId };
+}
+
+/**
+ * Check sub-ratings against the dimensions of the listing type
+ * Dimensions may be left out; unknown ones and ratings outside 1-5 are rejected.
+ */
+export function validateSubRatings(
+  listingType: ReviewListingType,
+  subRatings: ReviewSubRatings | undefined
+): ReviewSubRatings {
+  const allowed = REVIEW_DIMENSIONS[listingType];
+  const validated: ReviewSubRatings = {};
+
+  for (const [dimension, rating] of Object.entries(subRatings ?? {})) {
+    if (!allowed.includes(dimension as ReviewDimension)) {
+      throw new ReviewError(
+        `${listingType} reviews can rate ${allowed.join(", ")}, not ${dimension}`,
+        "INVALID_RATING"
+      );
+    }
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      throw new ReviewError(`The ${dimension} rating must be 1 to 5 stars`, "INVALID_RATING");
+    }
+    validated[dimension as ReviewDimension] = rating;
+  }
+
+  return validated;
+}
+
+function toView(review: Review | CustomerReview): ReviewView {
+  return {
+    id: review.id,
+    rating: review.rating,
+    title: "title" in review ? review.title : null,
+    reviewText: review.reviewText,
+    subRatings: "subRatings" in review ? review.subRatings : {},
+    createdAt: review.createdAt,
+    revealedAt: review.revealedAt,
+  };
+}
+
+/**
+ * Main review class
+ */
+export class ReviewService {
+  /**
+   * Both sides' reviews of a booking as the requesting party may see them
+   */
+  async getBookingReviews(bookingId: string, userId: string): Promise<BookingReviews> {
+    const booking = await this.loadBooking(bookingId);
+    const role = this.roleOf(booking, userId);
+
+    const [customerSide] = await db
+      .select()
+      .from(reviewsTable)
+      .where(eq(reviewsTable.bookingId, bookingId))
+      .limit(1);
+    const [providerSide] = await db
+      .select()
+      .from(customerReviewsTable)
+      .where(eq(customerReviewsTable.bookingId, bookingId))
+      .limit(1);
+
+    const own = role === "customer" ? customerSide : providerSide;
+    const counterpart = role === "customer" ? providerSide : customerSide;
+    const windowClosesAt = this.windowClosesAt(booking);
+
+    return {
+      role,
+      windowClosesAt,
+      canReview: !own && !booking.isGuestBooking && !!windowClosesAt && windowClosesAt > new Date(),
+      dimensions: role === "customer" ? REVIEW_DIMENSIONS[listingOf(booking).listingType] : [],
+      maxPhotos: role === "customer" ? MAX_REVIEW_PHOTOS : 0,
+      ownReview: own ? toView(own) : null,
+      counterpartSubmitted: !!counterpart,
+      counterpartReview: counterpart?.revealedAt ? toView(counterpart) : null,
+      customerReputation: role === "provider" && !booking.isGuestBooking
+        ? await this.getCustomerReputation(booking.customerId)
+        : undefined,
+    };
+  }
+
+  /**
+   * Submit the requesting party's review of a completed booking
+   * Reveals both reviews when the other side has already reviewed.
+   */
+  async submitReview(
+    bookingId: string,
+    userId: string,
+    input: SubmitReviewInput
+  ): Promise<SubmitReviewResult> {
+    const now = new Date();
+
+    const result = await db.transaction(async (tx) => {
+      // Lock the booking so two last reviews can't both miss each other
+      const [locked] = await tx
+        .select({ id: bookingsTable.id })
+        .from(bookingsTable)
+        .where(eq(bookingsTable.id, bookingId))
+        .for("update");
+      if (!locked) {
+        throw new ReviewError("Booking not found", "NOT_FOUND");
+      }
+
+      const booking = await this.loadBooking(bookingId, tx);
+      const role = this.roleOf(booking, userId);
+      const windowClosesAt = this.windowClosesAt(booking);
+
+      if (!windowClosesAt) {
+        throw new ReviewError("Only completed bookings can be reviewed", "INVALID_STATE");
+      }
+      if (booking.isGuestBooking) {
+        throw new ReviewError("Guest bookings can't be reviewed", "INVALID_STATE");
+      }
+      if (windowClosesAt <= now) {
+        throw new ReviewError(
+          `The review window closed ${REVIEW_WINDOW_DAYS} days after the booking was completed`,
+          "WINDOW_CLOSED"
+        );
+      }
+
+      const [customerSide] = await tx
+        .select({ id: reviewsTable.id, revealedAt: reviewsTable.revealedAt })
+        .from(reviewsTable)
+        .where(eq(reviewsTable.bookingId, bookingId))
+        .limit(1);
+      const [providerSide] = await tx
+        .select({ id: customerReviewsTable.id, revealedAt: customerReviewsTable.revealedAt })
+        .from(customerReviewsTable)
+        .where(eq(customerReviewsTable.bookingId, bookingId))
+        .limit(1);
+
+      const own = role === "customer" ? customerSide : providerSide;
+      const counterpart = role === "customer" ? providerSide : customerSide;
+      if (own) {
+        throw new ReviewError("You have already reviewed this booking", "ALREADY_REVIEWED");
+      }
+
+      const listing = listingOf(booking);
+      if (role === "provider" && (input.title || Object.keys(input.subRatings ?? {}).length > 0)) {
+        throw new ReviewError("Reviews of customers only have a rating and text", "INVALID_RATING");
+      }
+      const subRatings = validateSubRatings(listing.listingType, input.subRatings);
+
+      const revealed = !!counterpart;
+      const values = {
+        bookingId,
+        providerId: booking.providerId,
+        customerId: booking.customerId,
+        rating: input.rating,
+        reviewText: input.reviewText?.trim() || null,
+        isPublished: revealed,
+        revealAt: windowClosesAt,
+        revealedAt: revealed ? now : null,
+      };
+
+      const [review] = role === "customer"
+        ? await tx
+          .insert(reviewsTable)
+          .values({ ...values, ...listing, subRatings, title: input.title?.trim() || null })
+          .returning()
+        : await tx.insert(customerReviewsTable).values(values).returning();
+
+      // Abuse checks run before the review can be revealed
+      if (role === "customer") {
+        await reviewModerationService.screenReview(review.id, tx);
+      }
+
+      if (revealed && !counterpart.revealedAt) {
+        const counterpartTable = role === "customer" ? customerReviewsTable : reviewsTable;
+        await tx
+          .update(counterpartTable)
+          .set({ isPublished: true, revealedAt: now, updatedAt: now })
+          .where(eq(counterpartTable.id, counterpart.id));
+      }
+
+      if (revealed) {
+        await refreshProviderRating(booking.providerId, tx);
+      }
+
+      return { booking, role, review, revealed, windowClosesAt };
+    });
+
+    // Nudge the other side to review back before the window closes
+    if (!result.revealed) {
+      await this.notifyReviewed(result.booking, result.role, result.windowClosesAt);
+    }
+
+    return { review: toView(result.review), revealed: result.revealed };
+  }
+
+  /**
+   * Add a photo to the requesting customer's review while the review window is open
+   * The file is type-checked and malware-scanned like message attachments.
+   */
+  async addPhoto(reviewId: string, userId: string, upload: AttachmentUpload): Promise<ReviewPhotoView> {
+    const [review] = await db
+      .select({
+        id: reviewsTable.id,
+        customerId: reviewsTable.customerId,
+        revealAt: reviewsTable.revealAt,
+      })
+      .from(reviewsTable)
+      .where(eq(reviewsTable.id, reviewId))
+      .limit(1);
+
+    if (!review) {
+      throw new ReviewError("Review not found", "NOT_FOUND");
+    }
+    if (review.customerId !== userId) {
+      throw new ReviewError("Only the reviewer can add photos", "FORBIDDEN");
+    }
+    if (!review.revealAt || review.revealAt <= new Date()) {
+      throw new ReviewError("Photos can only be added while the review window is open", "WINDOW_CLOSED");
+    }
+
+    const [photos] = await db
+      .select({ count: count() })
+      .from(reviewPhotosTable)
+      .where(eq(reviewPhotosTable.reviewId, reviewId));
+    const photoCount = photos?.count ?? 0;
+    if (photoCount >= MAX_REVIEW_PHOTOS) {
+      throw new ReviewError(`Reviews can have up to ${MAX_REVIEW_PHOTOS} photos`, "PHOTO_LIMIT");
+    }
+
+    const validated = await validateAttachment(upload);
+    if (validated.kind !== "image") {
+      throw new AttachmentError("Only images can be added to reviews", "UNSUPPORTED_TYPE");
+    }
+
+    const storagePath = generateReviewPhotoPath(reviewId, validated.fileName);
+    const url = await uploadReviewPhoto(upload.data, storagePath, validated.mimeType);
+
+    const [photo] = await db
+      .insert(reviewPhotosTable)
+      .values({
+        reviewId,
+        url,
+        storagePath,
+        contentType: validated.mimeType,
+        sizeBytes: validated.sizeBytes,
+        sortOrder: photoCount,
+      })
+      .returning({ id: reviewPhotosTable.id, url: reviewPhotosTable.url });
+
+    return photo;
+  }
+
+  /**
+   * Mark or unmark a published review as helpful; returns the new helpful count
+   */
+  async setHelpful(reviewId: string, userId: string, helpful: boolean): Promise<number> {
+    return db.transaction(async (tx) => {
+      const [review] = await tx
+        .select({
+          customerId: reviewsTable.customerId,
+          isPublished: reviewsTable.isPublished,
+          isFlagged: reviewsTable.isFlagged,
+        })
+        .from(reviewsTable)
+        .where(eq(reviewsTable.id, reviewId))
+        .for("update");
+
+      if (!review || !review.isPublished || review.isFlagged) {
+        throw new ReviewError("Review not found", "NOT_FOUND");
+      }
+      if (review.customerId === userId) {
+        throw new ReviewError("You can't vote on your own review", "FORBIDDEN");
+      }
+
+      const changed = helpful
+        ? await tx
+          .insert(reviewHelpfulVotesTable)
+          .values({ reviewId, userId })
+          .onConflictDoNothing()
+          .returning({ id: reviewHelpfulVotesTable.id })
+        : await tx
+          .delete(reviewHelpfulVotesTable)
+          .where(
+            and(
+              eq(reviewHelpfulVotesTable.reviewId, reviewId),
+              eq(reviewHelpfulVotesTable.userId, userId)
+            )
+          )
+          .returning({ id: reviewHelpfulVotesTable.id });
+
+      const delta = changed.length * (helpful ? 1 : -1);
+      const [updated] = await tx
+        .update(reviewsTable)
+        .set({ helpfulCount: sql`GREATEST(${reviewsTable.helpfulCount} + ${delta}, 0)` })
+        .where(eq(reviewsTable.id, reviewId))
+        .returning({ helpfulCount: reviewsTable.helpfulCount });
+
+      return updated.helpfulCount;
+    });
+  }
+
+  /**
+   * Recompute provider ratings from their published reviews
+   * All providers with reviews when no provider is given; returns how many were updated.
+   */
+  async refreshProviderRatings(providerId?: string): Promise<number> {
+    const providerIds = providerId
+      ? [providerId]
+      : (await db
+        .selectDistinct({ providerId: reviewsTable.providerId })
+        .from(reviewsTable)
+        .where(eq(reviewsTable.isPublished, true))
+      ).map((row) => row.providerId);
+
+    for (const id of providerIds) {
+      await refreshProviderRating(id);
+    }
+    return providerIds.length;
+  }
+
+  /**
+   * Aggregate reputation of a customer from published provider reviews
+   */
+  async getCustomerReputation(customerId: string): Promise<CustomerReputation> {
+    const [reviews] = await db
+      .select({
+        averageRating: sql<string | null>`ROUND(AVG(${customerReviewsTable.rating})::numeric, 1)`,
+        totalReviews: sql<number>`count(*)::int`,
+      })
+      .from(customerReviewsTable)
+      .where(
+        and(
+          eq(customerReviewsTable.customerId, customerId),
+          eq(customerReviewsTable.isPublished, true),
+          eq(customerReviewsTable.isFlagged, false)
+        )
+      );
+
+    const [history] = await db
+      .select({
+        completedBookings: sql<number>`count(*) filter (where ${bookingsTable.status} = ${BookingStates.COMPLETED})::int`,
+        noShows: sql<number>`count(*) filter (where ${bookingsTable.status} = ${BookingStates.NO_SHOW_CUSTOMER})::int`,
+      })
+      .from(bookingsTable)
+      .where(eq(bookingsTable.customerId, customerId));
+
+    return {
+      customerId,
+      averageRating: reviews?.averageRating !== null && reviews?.averageRating !== undefined
+        ? parseFloat(reviews.averageRating)
+        : null,
+      totalReviews: reviews?.totalReviews ?? 0,
+      completedBookings: history?.completedBookings ?? 0,
+      noShows: history?.noShows ?? 0,
+    };
+  }
+
+  /**
+   * Whether the booking's customer meets the provider's minimum rating for instant booking
+   */
+  async qualifiesForInstantBooking(bookingId: string): Promise<boolean> {
+    const [booking] = await db
+      .select({
+        customerId: bookingsTable.customerId,
+        isGuestBooking: bookingsTable.isGuestBooking,
+        minimumRating: providersTable.instantBookingMinCustomerRating,
+      })
+      .from(bookingsTable)
+      .innerJoin(providersTable, eq(bookingsTable.providerId, providersTable.id))
+      .where(eq(bookingsTable.id, bookingId))
+      .limit(1);
+
+    if (!booking || booking.minimumRating === null) {
+      return true;
+    }
+    if (booking.isGuestBooking) {
+      return false;
+    }
+
+    const reputation = await this.getCustomerReputation(booking.customerId);
+    return meetsInstantBookingMinimum(reputation, booking.minimumRating);
+  }
+
+  /**
+   * Publish reviews whose review window has closed (cron)
+   */
+  async revealDue(now: Date = new Date()): Promise<RevealReviewsResult> {
+    const reviews = await db
+      .update(reviewsTable)
+      .set({ isPublished: true, revealedAt: now, updatedAt: now })
+      .where(and(isNull(reviewsTable.revealedAt), lte(reviewsTable.revealAt, now)))
+      .returning({ providerId: reviewsTable.providerId });
+
+    const customerReviews = await db
+      .update(customerReviewsTable)
+      .set({ isPublished: true, revealedAt: now, updatedAt: now })
+      .where(and(isNull(customerReviewsTable.revealedAt), lte(customerReviewsTable.revealAt, now)))
+      .returning({ id: customerReviewsTable.id });
+
+    for (const providerId of new Set(reviews.map((review) => review.providerId))) {
+      await refreshProviderRating(providerId);
+    }
+
+    return {
+      reviewsRevealed: reviews.length,
+      customerReviewsRevealed: customerReviews.length,
+    };
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private async loadBooking(
+    bookingId: string,
+    executor: Pick<typeof db, "select"> = db
+  ): Promise<ReviewableBooking> {
+    const [booking] = await executor
+      .select({
+        id: bookingsTable.id,
+        providerId: bookingsTable.providerId,
+        customerId: bookingsTable.customerId,
+        status: bookingsTable.status,
+        serviceName: bookingsTable.serviceName,
+        isGuestBooking: bookingsTable.isGuestBooking,
+        bookingType: bookingsTable.bookingType,
+        serviceId: bookingsTable.serviceId,
+        eventId: bookingsTable.eventId,
+        spaceId: bookingsTable.spaceId,
+        metadata: bookingsTable.metadata,
+        completedAt: bookingsTable.completedAt,
+        updatedAt: bookingsTable.updatedAt,
+        providerUserId: providersTable.userId,
+      })
+      .from(bookingsTable)
+      .innerJoin(providersTable, eq(bookingsTable.providerId, providersTable.id))
+      .where(eq(bookingsTable.id, bookingId))
+      .limit(1);
+
+    if (!booking) {
+      throw new ReviewError("Booking not found", "NOT_FOUND");
+    }
+    return booking;
+  }
+
+  private roleOf(booking: ReviewableBooking, userId: string): ReviewerRole {
+    if (booking.customerId === userId) {
+      return "customer";
+    }
+    if (booking.providerUserId === userId) {
+      return "provider";
+    }
+    throw new ReviewError("You are not part of this booking", "FORBIDDEN");
+  }
+
+  private windowClosesAt(booking: ReviewableBooking): Date | null {
+    if (booking.status !== BookingStates.COMPLETED) {
+      return null;
+    }
+    return reviewWindowEnd(booking.completedAt ?? booking.updatedAt);
+  }
+
+  private async notifyReviewed(
+    booking: ReviewableBooking,
+    reviewerRole: ReviewerRole,
+    windowClosesAt: Date
+  ): Promise<void> {
+    try {
+      await notificationService.sendReviewReceivedNotification({
+        bookingId: booking.id,
+        recipientId: reviewerRole === "customer" ? booking.providerUserId : booking.customerId,
+        serviceName: booking.serviceName,
+        reviewerRole,
+        windowClosesAt,
+      });
+    } catch (error) {
+      console.error(`Error sending review notification for booking ${booking.id}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const reviewService = new ReviewService();
@@ -0,0 +1,367 @@
+/**
+ * Search Autocomplete
+ * Suggests categories, provider and service names, event titles, cities and
+ * popular queries while the customer types, from the search_suggestions
+ * dictionary (db/migrations/0044_search_autocomplete.sql):
+ * - Prefix matching on the whole term or on any of its words
+ * - Typo tolerance through pg_trgm word similarity
+ * - Synonyms and spacing variants, so "hair cut" finds "Haircut"
+ * - Popularity from search_logs, so terms customers actually search rank first
+ *
+ * Suggestions are cached in SearchCache for a few minutes.
+ */
+
+import { db } from "@/db/db";
+import { searchLogsTable, searchSuggestionsView, type SearchSuggestionKind } from "@/db/schema";
+import { and, desc, eq, gt, isNull, like, or, sql, type SQL } from "drizzle-orm";
+import { searchCache } from "./search-cache";
+import type { UnifiedSearchVertical } from "./unified-search";
+
+export const MIN_QUERY_LENGTH = 2;
+export const DEFAULT_SUGGESTION_LIMIT = 8;
+export const MAX_SUGGESTION_LIMIT = 20;
+
+// pg_trgm word similarity a term needs to be suggested for a mistyped query
+export const TYPO_SIMILARITY_THRESHOLD = 0.3;
+
+// How much a match is worth before popularity
+export const MATCH_SCORES = {
+  PREFIX: 1, // The term starts with the query
+  WORD_PREFIX: 0.8, // One of the term's words starts with the query
+  TYPO: 0.6, // Scaled by word similarity
+} as const;
+
+// Multipliers on log(1 + count)
+export const POPULARITY_WEIGHTS = {
+  SEARCHES: 0.25, // Searches with results in the last 30 days
+  LISTINGS: 0.05, // Listings using the term
+} as const;
+
+// Candidates fetched per suggestion shown, leaving room for duplicates
+const CANDIDATE_FACTOR = 3;
+const MAX_QUERY_VARIANTS = 6;
+
+/**
+ * Other ways customers phrase the terms listings use
+ * Aliases must not contain their term, or expanding would repeat it
+ */
+export const SEARCH_SYNONYMS: Record<string, string[]> = {
+  haircut: ["hair cut", "hair cutting", "barber"],
+  "house cleaning": ["home cleaning", "maid", "cleaner", "cleaning lady"],
+  "personal training": ["personal trainer", "fitness coach", "pt"],
+  "massage therapy": ["masseuse", "masseur", "massage therapist"],
+  photography: ["photographer", "photo shoot", "photoshoot"],
+  "dog walking": ["dog walker"],
+  tutoring: ["tutor", "private lessons"],
+  plumbing: ["plumber"],
+  "event space": ["venue", "party venue", "event venue"],
+  "meeting room": ["conference room", "boardroom"],
+  coworking: ["co-working", "co working", "shared office"],
+};
+
+export interface SearchSuggestion {
+  kind: SearchSuggestionKind;
+  text: string;
+  vertical: UnifiedSearchVertical | null; // Vertical to search when picked, null for all
+  category: string | null; // Category slug to filter by when picked
+  isTypoMatch: boolean;
+}
+
+export interface SuggestionResult {
+  query: string;
+  suggestions: SearchSuggestion[];
+  didYouMean: string | null; // Closest term when the query only matched with typos
+}
+
+export interface SuggestionOptions {
+  vertical?: UnifiedSearchVertical;
+  limit?: number;
+}
+
+export interface SuggestionCandidate {
+  kind: SearchSuggestionKind;
+  text: string;
+  normalizedText: string;
+  vertical: string | null;
+  category: string | null;
+  listingCount: number;
+  searchCount: number;
+  similarity: number; // Word similarity to the query, 0-1
+}
+
+/**
+ * Lower case with single spaces, as search_logs and search_suggestions store terms
+ */
+export function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * The normalized query plus its synonym and spacing variants
+ */
+export function expandQuery(normalized: string): string[] {
+  const variants = new Set([normalized]);
+
+  for (const [term, aliases] of Object.entries(SEARCH_SYNONYMS)) {
+    if (normalized.includes(term)) {
+      continue;
+    }
+    for (const alias of aliases) {
+      const phrase = new RegExp(`(^| )${escapeRegExp(alias)}(?= |$)`, "g");
+      if (phrase.test(normalized)) {
+        variants.add(normalized.replace(phrase, (_, lead: string) => lead + term));
+      } else if (normalized.length > MIN_QUERY_LENGTH && alias.startsWith(normalized)) {
+        // Still typing the alias
+        variants.add(term);
+      }
+    }
+  }
+
+  // Compound words typed apart
+  if (normalized.includes(" ")) {
+    variants.add(normalized.replace(/ /g, ""));
+  }
+
+  return Array.from(variants).slice(0, MAX_QUERY_VARIANTS);
+}
+
+/**
+ * Score of a dictionary term for the query variants, weighted by popularity
+ */
+export function scoreSuggestion(candidate: SuggestionCandidate, variants: string[]): number {
+  const popularity = 1 +
+    POPULARITY_WEIGHTS.SEARCHES * Math.log1p(candidate.searchCount) +
+    POPULARITY_WEIGHTS.LISTINGS * Math.log1p(candidate.listingCount);
+
+  return matchScore(candidate, variants) * popularity;
+}
+
+/**
+ * Best suggestions for the query variants, one per term
+ */
+export function rankSuggestions(
+  candidates: SuggestionCandidate[],
+  variants: string[],
+  limit: number
+): SearchSuggestion[] {
+  const ranked = candidates
+    .map(candidate => ({
+      candidate,
+      score: scoreSuggestion(candidate, variants),
+      isTypoMatch: !isPrefixMatch(candidate.normalizedText, variants),
+    }))
+    .sort((a, b) => b.score - a.score || a.candidate.normalizedText.localeCompare(b.candidate.normalizedText));
+
+  return dedupeSuggestions(ranked, limit);
+}
+
+/**
+ * Suggestions for a partly typed query, or the most searched terms without one
+ */
+export async function getSuggestions(
+  query: string,
+  options: SuggestionOptions = {}
+): Promise<SuggestionResult> {
+  const normalized = normalizeQuery(query);
+  const limit = suggestionLimit(options.limit);
+
+  if (normalized.length < MIN_QUERY_LENGTH) {
+    return { query: normalized, suggestions: await getPopularSearches(options), didYouMean: null };
+  }
+
+  const cacheRequest = { autocomplete: normalized, vertical: options.vertical ?? null, limit };
+  const cached = await searchCache.getSuggestions<SuggestionResult>(cacheRequest);
+  if (cached) {
+    return cached;
+  }
+
+  const variants = expandQuery(normalized);
+  const candidates = await findCandidates(normalized, variants, options.vertical, limit * CANDIDATE_FACTOR);
+  const suggestions = rankSuggestions(candidates, variants, limit);
+
+  const result: SuggestionResult = {
+    query: normalized,
+    suggestions,
+    didYouMean: suggestions.length > 0 && suggestions.every(s => s.isTypoMatch) ? suggestions[0].text : null,
+  };
+
+  await searchCache.setSuggestions(cacheRequest, result);
+  return result;
+}
+
+/**
+ * Most searched terms in the last 30 days
+ */
+export async function getPopularSearches(options: SuggestionOptions = {}): Promise<SearchSuggestion[]> {
+  const limit = suggestionLimit(options.limit);
+
+  const cacheRequest = { popular: options.vertical ?? null, limit };
+  const cached = await searchCache.getSuggestions<SearchSuggestion[]>(cacheRequest);
+  if (cached) {
+    return cached;
+  }
+
+  const rows = await db
+    .select(candidateColumns(sql<number>`1`))
+    .from(searchSuggestionsView)
+    .where(and(gt(searchSuggestionsView.searchCount, 0), verticalCondition(options.vertical)))
+    .orderBy(desc(searchSuggestionsView.searchCount), desc(searchSuggestionsView.listingCount))
+    .limit(limit * CANDIDATE_FACTOR);
+
+  const suggestions = dedupeSuggestions(
+    rows.map(candidate => ({ candidate, isTypoMatch: false })),
+    limit
+  );
+
+  await searchCache.setSuggestions(cacheRequest, suggestions);
+  return suggestions;
+}
+
+/**
+ * Record a marketplace search for popularity weighting and search analytics
+ * Returns the search id to record impressions and clicks against, or null
+ * when it wasn't logged; failures never fail the search itself
+ */
+export async function logSearch(search: {
+  query: string;
+  vertical?: UnifiedSearchVertical | null;
+  resultCount: number;
+  userId?: string | null;
+  weightSet?: string;
+  sortBy?: string;
+}): Promise<string | null> {
+  const normalizedQuery = normalizeQuery(search.query);
+  if (normalizedQuery.length < MIN_QUERY_LENGTH) {
+    return null;
+  }
+
+  try {
+    const [logged] = await db
+      .insert(searchLogsTable)
+      .values({
+        userId: search.userId ?? null,
+        query: search.query.trim(),
+        normalizedQuery,
+        vertical: search.vertical ?? null,
+        resultCount: search.resultCount,
+        weightSet: search.weightSet,
+        sortBy: search.sortBy,
+      })
+      .returning({ id: searchLogsTable.id });
+    return logged.id;
+  } catch (error) {
+    console.error("Failed to log search:", error);
+    return null;
+  }
+}
+
+/** Private helpers */
+
+/**
+ * Dictionary terms matching a variant by prefix, or the query with typos
+ */
+async function findCandidates(
+  query: string,
+  variants: string[],
+  vertical: UnifiedSearchVertical | undefined,
+  limit: number
+): Promise<SuggestionCandidate[]> {
+  const text = searchSuggestionsView.normalizedText;
+  const prefixMatch = or(...variants.flatMap(variant => [
+    like(text, `${escapeLike(variant)}%`),
+    like(text, `% ${escapeLike(variant)}%`),
+  ]))!;
+  const similarity = sql<number>`word_similarity(${query}, ${text})::float8`;
+
+  return db.transaction(async (tx) => {
+    // Lets <% use the trigram index down to our threshold
+    await tx.execute(sql.raw(`SET LOCAL pg_trgm.word_similarity_threshold = ${TYPO_SIMILARITY_THRESHOLD}`));
+
+    return tx
+      .select(candidateColumns(similarity))
+      .from(searchSuggestionsView)
+      .where(and(or(prefixMatch, sql`${query} <% ${text}`), verticalCondition(vertical)))
+      // Prefix matches first, so the limit never drops them for typo matches
+      .orderBy(desc(sql`(${prefixMatch})`), desc(similarity), desc(searchSuggestionsView.searchCount))
+      .limit(limit);
+  });
+}
+
+function candidateColumns(similarity: SQL<number>) {
+  return {
+    kind: searchSuggestionsView.kind,
+    text: searchSuggestionsView.text,
+    normalizedText: searchSuggestionsView.normalizedText,
+    vertical: searchSuggestionsView.vertical,
+    category: searchSuggestionsView.category,
+    listingCount: searchSuggestionsView.listingCount,
+    searchCount: searchSuggestionsView.searchCount,
+    similarity,
+  };
+}
+
+// Categories and queries apply to every vertical
+function verticalCondition(vertical?: UnifiedSearchVertical): SQL | undefined {
+  return vertical
+    ? or(isNull(searchSuggestionsView.vertical), eq(searchSuggestionsView.vertical, vertical))
+    : undefined;
+}
+
+function matchScore(candidate: SuggestionCandidate, variants: string[]): number {
+  const text = candidate.normalizedText;
+  if (variants.some(variant => text.startsWith(variant))) {
+    return MATCH_SCORES.PREFIX;
+  }
+  if (variants.some(variant => text.includes(` ${variant}`))) {
+    return MATCH_SCORES.WORD_PREFIX;
+  }
+  return MATCH_SCORES.TYPO * candidate.similarity;
+}
+
+function isPrefixMatch(text: string, variants: string[]): boolean {
+  return variants.some(variant => text.startsWith(variant) || text.includes(` ${variant}`));
+}
+
+/**
+ * Keep the first of each term, in order. A term found in several verticals
+ * (a city, say) searches all of them when picked.
+ */
+function dedupeSuggestions(
+  ranked: Array<{ candidate: SuggestionCandidate; isTypoMatch: boolean }>,
+  limit: number
+): SearchSuggestion[] {
+  const byText = new Map<string, SearchSuggestion>();
+
+  for (const { candidate, isTypoMatch } of ranked) {
+    const existing = byText.get(candidate.normalizedText);
+    if (existing) {
+      if (existing.vertical !== candidate.vertical) {
+        existing.vertical = null;
+      }
+      continue;
+    }
+    if (byText.size < limit) {
+      byText.set(candidate.normalizedText, {
+        kind: candidate.kind,
+        text: candidate.text,
+        vertical: candidate.vertical as UnifiedSearchVertical | null,
+        category: candidate.category,
+        isTypoMatch,
+      });
+    }
+  }
+
+  return Array.from(byText.values());
+}
+
+function suggestionLimit(limit?: number): number {
+  return Math.min(Math.max(limit ?? DEFAULT_SUGGESTION_LIMIT, 1), MAX_SUGGESTION_LIMIT);
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
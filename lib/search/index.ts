@@ -7,6 +7,7 @@
 export {
   rankingEngine,
   RANKING_WEIGHTS,
+  type RankingWeights,
   type ProviderRankingData,
   type SearchQuery,
   type RankingResult
@@ -19,36 +20,88 @@ export {
   type SearchCacheConfig
 } from './search-cache';
 
-import { rankingEngine, type ProviderRankingData, type SearchQuery } from './ranking-engine';
+export {
+  searchProvidersInDatabase,
+  ProviderSearchError,
+  type ProviderSearchHit,
+  type ProviderSearchPage,
+  type ProviderSearchOptions
+} from './provider-search';
+
+export {
+  unifiedSearch,
+  UNIFIED_SEARCH_VERTICALS,
+  UNIFIED_SORT_OPTIONS,
+  type UnifiedSearchVertical,
+  type UnifiedSearchParams,
+  type UnifiedSearchResult,
+  type UnifiedSearchImpression,
+  type SearchFacets
+} from './unified-search';
+
+export {
+  getSuggestions,
+  getPopularSearches,
+  logSearch,
+  SEARCH_SYNONYMS,
+  type SearchSuggestion,
+  type SuggestionResult,
+  type SuggestionOptions
+} from './autocomplete';
+
+export {
+  searchAnalyticsService,
+  type ZeroResultQuery,
+  type QueryPerformance,
+  type WeightSetPerformance
+} from './search-analytics';
+
+export {
+  RANKING_WEIGHT_SETS,
+  activeWeightSets,
+  assignWeightSet
+} from './ranking-experiments';
+
+export {
+  evaluateWeightSets,
+  ndcg,
+  type EvaluationSession,
+  type WeightSetEvaluation
+} from './ranking-evaluation';
+
+import { type SearchQuery } from './ranking-engine';
 import { searchCache } from './search-cache';
+import { searchProvidersInDatabase, type ProviderSearchHit } from './provider-search';
 import { db } from '@/db/db';
-import { providersTable, bookingsTable, reviewsTable } from '@/db/schema';
-import { eq, and, gte, sql } from 'drizzle-orm';
+import { providerSearchStatsView, searchSuggestionsView } from '@/db/schema';
 
 /**
  * Main search function that combines caching and ranking
+ * Ranking and pagination happen in Postgres; pass the returned nextCursor
+ * to get the following page
  */
 export async function searchProviders(
   query: SearchQuery,
   options: {
     limit?: number;
-    offset?: number;
+    cursor?: string | null;
     useCache?: boolean;
-    includeStats?: boolean;
+    includeDebugInfo?: boolean;
   } = {}
 ): Promise<{
-  providers: ProviderRankingData[];
-  total: number;
+  providers: ProviderSearchHit[];
+  total: number | null;
+  nextCursor: string | null;
   cached: boolean;
 }> {
   const limit = options.limit || 20;
-  const offset = options.offset || 0;
   
   // Create cache-friendly query object
   const cacheQuery = {
     ...query,
     limit,
-    offset
+    cursor: options.cursor ?? null,
+    includeDebugInfo: options.includeDebugInfo ?? false
   };
 
   // Check cache if enabled
@@ -57,171 +110,46 @@ export async function searchProviders(
     
     if (cached) {
       return {
-        providers: cached.results.slice(offset, offset + limit),
+        providers: cached.results,
         total: cached.totalCount,
+        nextCursor: cached.nextCursor,
         cached: true
       };
     }
   }
 
-  // Fetch providers from database with stats
-  const providers = await fetchProvidersWithStats(query, options.includeStats);
-  
-  // Convert to ranking data format
-  const rankingData: ProviderRankingData[] = await Promise.all(
-    providers.map(async (provider) => {
-      // Calculate stats if needed
-      const stats = await calculateProviderStats(provider.id);
-      
-      return {
-        id: provider.id,
-        name: provider.displayName,
-        slug: provider.slug,
-        categories: provider.categories || [],
-        services: provider.services || [],
-        location: provider.latitude && provider.longitude ? {
-          latitude: parseFloat(provider.latitude),
-          longitude: parseFloat(provider.longitude)
-        } : undefined,
-        stats: {
-          averageRating: parseFloat(provider.averageRating || '0'),
-          totalReviews: provider.totalReviews || 0,
-          completedBookings: stats.completedBookings,
-          totalViews: stats.totalViews,
-          conversionRate: stats.conversionRate,
-          lastAvailabilityUpdate: provider.updatedAt,
-          recentReviewCount: stats.recentReviewCount
-        },
-        isVerified: provider.isVerified,
-        isActive: provider.isActive,
-        createdAt: provider.createdAt
-      };
-    })
-  );
-
-  // Rank providers
-  const rankedResults = rankingEngine.rank(rankingData, query, {
+  const page = await searchProvidersInDatabase(query, {
+    limit,
+    cursor: options.cursor,
     boostVerified: true,
-    includeDebugInfo: false
-  });
-
-  // Extract ranked provider data
-  const rankedProviders = rankedResults.map(result => {
-    const provider = rankingData.find(p => p.id === result.providerId);
-    return provider!;
+    includeDebugInfo: options.includeDebugInfo
   });
 
   // Cache results if enabled
   if (options.useCache !== false) {
     await searchCache.set(
       cacheQuery,
-      rankedProviders,
-      rankedProviders.length,
-      { preventStampede: true }
+      page.hits,
+      page.total,
+      { preventStampede: true, nextCursor: page.nextCursor }
     );
   }
 
-  // Apply pagination
-  const paginatedProviders = rankedProviders.slice(offset, offset + limit);
-
   return {
-    providers: paginatedProviders,
-    total: rankedProviders.length,
+    providers: page.hits,
+    total: page.total,
+    nextCursor: page.nextCursor,
     cached: false
   };
 }
 
 /**
- * Fetch providers from database
+ * Recompute the booking and review signals used for ranking, and the
+ * autocomplete dictionary with its search-log popularity
  */
-async function fetchProvidersWithStats(
-  query: SearchQuery,
-  includeStats?: boolean
-) {
-  const conditions = [];
-
-  // Add basic conditions
-  conditions.push(eq(providersTable.isActive, true));
-
-  // Category filter
-  if (query.categories && query.categories.length > 0) {
-    conditions.push(
-      sql`${providersTable.categories} && ARRAY[${sql.raw(
-        query.categories.map(c => `'${c}'`).join(',')
-      )}]`
-    );
-  }
-
-  // Price range filter
-  if (query.priceRange) {
-    conditions.push(
-      and(
-        gte(providersTable.hourlyRate, query.priceRange.min.toString()),
-        sql`${providersTable.hourlyRate} <= ${query.priceRange.max}`
-      )
-    );
-  }
-
-  // Minimum rating filter
-  if (query.minRating) {
-    conditions.push(
-      gte(providersTable.averageRating, query.minRating.toString())
-    );
-  }
-
-  return await db
-    .select()
-    .from(providersTable)
-    .where(and(...conditions));
-}
-
-/**
- * Calculate provider statistics for ranking
- */
-async function calculateProviderStats(providerId: string): Promise<{
-  completedBookings: number;
-  totalViews: number;
-  conversionRate: number;
-  recentReviewCount: number;
-}> {
-  // Get completed bookings count
-  const [bookingStats] = await db
-    .select({
-      completed: sql<number>`COUNT(CASE WHEN status = 'completed' THEN 1 END)`,
-      total: sql<number>`COUNT(*)`
-    })
-    .from(bookingsTable)
-    .where(eq(bookingsTable.providerId, providerId));
-
-  // Get recent review count (last 30 days)
-  const thirtyDaysAgo = new Date();
-  thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
-  const [reviewStats] = await db
-    .select({
-      recent: sql<number>`COUNT(*)`
-    })
-    .from(reviewsTable)
-    .where(
-      and(
-        eq(reviewsTable.providerId, providerId),
-        gte(reviewsTable.createdAt, thirtyDaysAgo)
-      )
-    );
-
-  // Calculate conversion rate
-  // For now, using a simple booking/total ratio
-  // In production, this would track actual views
-  const totalViews = bookingStats?.total || 0;
-  const completedBookings = bookingStats?.completed || 0;
-  const conversionRate = totalViews > 0 ? completedBookings / totalViews : 0;
-
-  return {
-    completedBookings,
-    totalViews: totalViews * 10, // Estimate views as 10x bookings
-    conversionRate,
-    recentReviewCount: reviewStats?.recent || 0
-  };
+export async function refreshSearchStats(): Promise<void> {
+  await db.refreshMaterializedView(providerSearchStatsView).concurrently();
+  await db.refreshMaterializedView(searchSuggestionsView).concurrently();
 }
 
 /**
@@ -248,7 +176,8 @@ export async function warmSearchCache(): Promise<void> {
     const result = await searchProviders(query, { useCache: false });
     return {
       results: result.providers,
-      total: result.total
+      total: result.total,
+      nextCursor: result.nextCursor
     };
   });
 }
\ No newline at end of file
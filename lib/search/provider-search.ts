@@ -0,0 +1,430 @@
+/**
+ * Provider Search in Postgres
+ * Ranks providers with the RankingEngine signals and RANKING_WEIGHTS, computed
+ * in SQL so a search reads one page of providers instead of every match:
+ * - Relevance: ts_rank over the generated search_vector (display name, then
+ *   services, then tagline and bio); a text query only returns providers
+ *   matching at least one of its terms
+ * - Proximity: earthdistance from the search location
+ * - Conversion and recent reviews: the provider_search_stats materialized view
+ * - Rating and freshness: provider columns
+ *
+ * With a requested date (and time), only providers with an open slot then are
+ * returned. Open slots come from availability_cache, kept filled by the
+ * search-availability cron, which also gives each hit its next open slot.
+ *
+ * Pages are fetched with keyset pagination on (total score, id). The cursor
+ * carries the time the first page was ranked at, so time-dependent scores
+ * don't shift between pages.
+ */
+
+import { db } from "@/db/db";
+import { availabilityCacheTable, providersTable, providerSearchStatsView, servicesTable } from "@/db/schema";
+import { and, desc, eq, gte, inArray, isNotNull, sql, type SQL } from "drizzle-orm";
+import {
+  RANKING_WEIGHTS,
+  SCORE_RANGES,
+  VERIFIED_BOOST,
+  getMatchedTerms,
+  type RankingResult,
+  type RankingWeights,
+  type SearchQuery,
+} from "./ranking-engine";
+import { openSlotConditions, type AvailabilityWindow } from "@/lib/availability/search-availability";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface ProviderSearchOptions {
+  limit?: number;
+  cursor?: string | null;
+  boostVerified?: boolean;
+  includeDebugInfo?: boolean;
+  weights?: RankingWeights; // RANKING_WEIGHTS unless testing another set
+}
+
+export interface ProviderSearchHit extends RankingResult {
+  provider: {
+    id: string;
+    name: string;
+    slug: string;
+    tagline: string | null;
+    profileImageUrl: string | null;
+    locationCity: string | null;
+    locationState: string | null;
+    hourlyRate: number | null;
+    averageRating: number;
+    totalReviews: number;
+    isVerified: boolean;
+    currency: string;
+    distanceKm: number | null; // Only with a search location
+    nextAvailableAt: string | null; // ISO; within the requested window when searching by availability
+    createdAt: string; // ISO, so hits stay JSON-safe in the search cache
+  };
+}
+
+export interface ProviderSearchPage {
+  hits: ProviderSearchHit[];
+  nextCursor: string | null;
+  total: number | null; // Counted for the first page only
+}
+
+export interface SearchCursor {
+  score: number;
+  id: string;
+  asOf: number; // Epoch ms the first page was ranked at
+}
+
+export type ProviderSearchErrorCode = "INVALID_CURSOR";
+
+const ERROR_STATUS: Record<ProviderSearchErrorCode, number> = {
+  INVALID_CURSOR: 400,
+};
+
+export class ProviderSearchError extends Error {
+  constructor(
+    message: string,
+    public code: ProviderSearchErrorCode
+  ) {
+    super(message);
+    this.name = 'ProviderSearchError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Opaque cursor for the page after the given hit
+ */
+export function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify([cursor.score, cursor.id, cursor.asOf])).toString("base64url");
+}
+
+/**
+ * Cursor from encodeCursor, or a ProviderSearchError when it was tampered with
+ */
+export function decodeCursor(value: string): SearchCursor {
+  try {
+    const [score, id, asOf] = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (typeof score === "number" && Number.isFinite(score) &&
+        typeof id === "string" && UUID_PATTERN.test(id) &&
+        typeof asOf === "number" && Number.isFinite(asOf)) {
+      return { score, id, asOf };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new ProviderSearchError("Invalid search cursor", "INVALID_CURSOR");
+}
+
+/**
+ * tsquery matching any of the words of a search as a prefix, or null without words
+ */
+export function toPrefixTsQuery(text?: string): string | null {
+  const words = (text ?? "").toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length === 0) {
+    return null;
+  }
+  return Array.from(new Set(words)).map(word => `${word}:*`).join(" | ");
+}
+
+/**
+ * Rank providers matching a search and return one page
+ */
+export async function searchProvidersInDatabase(
+  query: SearchQuery,
+  options: ProviderSearchOptions = {}
+): Promise<ProviderSearchPage> {
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+  const asOf = new Date(cursor?.asOf ?? Date.now());
+  const tsQuery = toPrefixTsQuery(query.query);
+
+  const conditions = filterConditions(query, tsQuery);
+  const scores = scoreExpressions(query, tsQuery, asOf);
+  const weights = options.weights ?? RANKING_WEIGHTS;
+
+  const totalScore = sql<number>`((
+    ${weightSql(weights.PROXIMITY)} * ${normalizedSql(scores.proximity, SCORE_RANGES.PROXIMITY)} +
+    ${weightSql(weights.RELEVANCE)} * ${normalizedSql(scores.relevance, SCORE_RANGES.RELEVANCE)} +
+    ${weightSql(weights.CONVERSION)} * ${normalizedSql(scores.conversion, SCORE_RANGES.CONVERSION)} +
+    ${weightSql(weights.RATING)} * ${normalizedSql(scores.rating, SCORE_RANGES.RATING)} +
+    ${weightSql(weights.FRESHNESS)} * ${normalizedSql(scores.freshness, SCORE_RANGES.FRESHNESS)}
+  ) * ${options.boostVerified
+    ? sql`CASE WHEN ${providersTable.isVerified} THEN ${sql.raw(String(VERIFIED_BOOST))} ELSE 1 END`
+    : sql`1`})::float8`;
+
+  const ranked = db
+    .select({
+      id: providersTable.id,
+      name: providersTable.displayName,
+      slug: providersTable.slug,
+      tagline: providersTable.tagline,
+      profileImageUrl: providersTable.profileImageUrl,
+      locationCity: providersTable.locationCity,
+      locationState: providersTable.locationState,
+      hourlyRate: providersTable.hourlyRate,
+      averageRating: providersTable.averageRating,
+      totalReviews: providersTable.totalReviews,
+      isVerified: providersTable.isVerified,
+      currency: providersTable.currency,
+      createdAt: providersTable.createdAt,
+      services: providersTable.services,
+      proximity: sql<number>`(${scores.proximity})::float8`.as("proximity"),
+      relevance: sql<number>`(${scores.relevance})::float8`.as("relevance"),
+      conversion: sql<number>`(${scores.conversion})::float8`.as("conversion"),
+      rating: sql<number>`(${scores.rating})::float8`.as("rating"),
+      freshness: sql<number>`(${scores.freshness})::float8`.as("freshness"),
+      distanceKm: sql<number | null>`(${scores.distanceKm})::float8`.as("distance_km"),
+      daysSinceUpdate: sql<number>`(${scores.daysSinceUpdate})::float8`.as("days_since_update"),
+      nextAvailableAt: sql<string | null>`${nextOpenSlotSql(query.availability)}`.as("next_available_at"),
+      totalScore: totalScore.as("total_score"),
+    })
+    .from(providersTable)
+    .leftJoin(providerSearchStatsView, eq(providerSearchStatsView.providerId, providersTable.id))
+    .where(and(...conditions))
+    .as("ranked");
+
+  const [rows, total] = await Promise.all([
+    db
+      .select()
+      .from(ranked)
+      .where(cursor
+        ? sql`(${ranked.totalScore}, ${ranked.id}) < (${cursor.score}::float8, ${cursor.id}::uuid)`
+        : undefined)
+      .orderBy(desc(ranked.totalScore), desc(ranked.id))
+      .limit(limit + 1),
+    cursor
+      ? Promise.resolve(null)
+      : db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(providersTable)
+          .where(and(...conditions))
+          .then(([row]) => row.count),
+  ]);
+
+  const page = rows.slice(0, limit);
+  const categories = options.includeDebugInfo && query.query
+    ? await loadProviderCategories(page.map(row => row.id))
+    : new Map<string, string[]>();
+
+  const hits = page.map((row): ProviderSearchHit => {
+    const rawScores = {
+      proximity: row.proximity,
+      relevance: row.relevance,
+      conversion: row.conversion,
+      rating: row.rating,
+      freshness: row.freshness,
+    };
+
+    const hit: ProviderSearchHit = {
+      providerId: row.id,
+      totalScore: row.totalScore,
+      scores: rawScores,
+      normalizedScores: {
+        proximity: normalize(rawScores.proximity, SCORE_RANGES.PROXIMITY),
+        relevance: normalize(rawScores.relevance, SCORE_RANGES.RELEVANCE),
+        conversion: normalize(rawScores.conversion, SCORE_RANGES.CONVERSION),
+        rating: normalize(rawScores.rating, SCORE_RANGES.RATING),
+        freshness: normalize(rawScores.freshness, SCORE_RANGES.FRESHNESS),
+      },
+      provider: {
+        id: row.id,
+        name: row.name,
+        slug: row.slug,
+        tagline: row.tagline,
+        profileImageUrl: row.profileImageUrl,
+        locationCity: row.locationCity,
+        locationState: row.locationState,
+        hourlyRate: row.hourlyRate === null ? null : parseFloat(row.hourlyRate),
+        averageRating: parseFloat(row.averageRating || "0"),
+        totalReviews: row.totalReviews,
+        isVerified: row.isVerified,
+        currency: row.currency,
+        distanceKm: row.distanceKm,
+        nextAvailableAt: row.nextAvailableAt,
+        createdAt: row.createdAt.toISOString(),
+      },
+    };
+
+    if (options.includeDebugInfo) {
+      hit.debugInfo = {
+        distance: row.distanceKm ?? undefined,
+        matchedTerms: getMatchedTerms(
+          { name: row.name, categories: categories.get(row.id) ?? [], services: row.services ?? [] },
+          query.query
+        ),
+        daysSinceUpdate: row.daysSinceUpdate,
+      };
+    }
+
+    return hit;
+  });
+
+  const last = page[page.length - 1];
+  const nextCursor = rows.length > limit && last
+    ? encodeCursor({ score: last.totalScore, id: last.id, asOf: asOf.getTime() })
+    : null;
+
+  return { hits, nextCursor, total };
+}
+
+/**
+ * Categories of the active services of each provider
+ */
+export async function loadProviderCategories(providerIds: string[]): Promise<Map<string, string[]>> {
+  if (providerIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db
+    .selectDistinct({ providerId: servicesTable.providerId, category: servicesTable.category })
+    .from(servicesTable)
+    .where(and(inArray(servicesTable.providerId, providerIds), eq(servicesTable.isActive, true)));
+
+  const categories = new Map<string, string[]>();
+  for (const row of rows) {
+    categories.set(row.providerId, [...(categories.get(row.providerId) ?? []), row.category]);
+  }
+  return categories;
+}
+
+/** Private helpers */
+
+/**
+ * Hard filters, as in RankingEngine.applyHardFilters, plus the text match
+ */
+function filterConditions(query: SearchQuery, tsQuery: string | null): SQL[] {
+  const conditions: SQL[] = [eq(providersTable.isActive, true)];
+
+  if (tsQuery) {
+    conditions.push(sql`${providersTable}.search_vector @@ to_tsquery('english', ${tsQuery})`);
+  }
+
+  // Providers are categorised by the services they offer
+  if (query.categories && query.categories.length > 0) {
+    conditions.push(sql`EXISTS (SELECT 1 FROM ${servicesTable} WHERE ${and(
+      eq(servicesTable.providerId, providersTable.id),
+      eq(servicesTable.isActive, true),
+      inArray(servicesTable.category, query.categories)
+    )})`);
+  }
+
+  if (query.priceRange) {
+    conditions.push(sql`EXISTS (
+      SELECT 1 FROM jsonb_array_elements(${providersTable.services}) AS service
+      WHERE (service->>'price')::numeric BETWEEN ${query.priceRange.min} AND ${query.priceRange.max}
+    )`);
+  }
+
+  if (query.minRating) {
+    conditions.push(gte(providersTable.averageRating, query.minRating.toString()));
+  }
+
+  // Uses the earth_box GiST index; providers without coordinates can't be shown to be nearby
+  if (query.location?.radiusKm) {
+    const center = searchPoint(query.location);
+    const radiusMeters = query.location.radiusKm * 1000;
+    conditions.push(
+      isNotNull(providersTable.latitude),
+      isNotNull(providersTable.longitude),
+      sql`earth_box(${center}, ${radiusMeters}) @> ${providerPoint()}`,
+      sql`earth_distance(${center}, ${providerPoint()}) <= ${radiusMeters}`
+    );
+  }
+
+  if (query.availability) {
+    conditions.push(sql`EXISTS (SELECT 1 FROM ${availabilityCacheTable} WHERE ${openSlotOf(query.availability)})`);
+  }
+
+  return conditions;
+}
+
+/**
+ * Raw scores, as in RankingEngine.calculateProviderScore
+ */
+function scoreExpressions(query: SearchQuery, tsQuery: string | null, asOf: Date) {
+  const distanceKm = query.location
+    ? sql`(earth_distance(${searchPoint(query.location)}, ${providerPoint()}) / 1000)`
+    : sql`NULL`;
+
+  const maxDistance = sql.raw(String(SCORE_RANGES.PROXIMITY.max));
+  const proximity = query.location
+    ? sql`CASE
+        WHEN ${distanceKm} IS NULL THEN ${sql.raw(String(SCORE_RANGES.PROXIMITY.max / 2))}
+        WHEN ${distanceKm} >= ${maxDistance} THEN 0
+        ELSE ${maxDistance} * (1 - log(${distanceKm} + 1) / log(${maxDistance} + 1))
+      END`
+    : sql.raw(String(SCORE_RANGES.PROXIMITY.max / 2)); // Neutral score if no location
+
+  const relevance = tsQuery
+    ? sql`LEAST(ts_rank(${providersTable}.search_vector, to_tsquery('english', ${tsQuery})), ${sql.raw(String(SCORE_RANGES.RELEVANCE.max))})`
+    : sql.raw(String(SCORE_RANGES.RELEVANCE.max / 2)); // Neutral score if no query
+
+  const totalBookings = sql`COALESCE(${providerSearchStatsView.totalBookings}, 0)`;
+  const conversion = sql`CASE
+    WHEN ${totalBookings} > 0 THEN COALESCE(${providerSearchStatsView.completedBookings}, 0)::float8 / ${totalBookings}
+    ELSE 0
+  END`;
+
+  // Average adjusted for review volume, boosted by recent reviews
+  const rating = sql`CASE
+    WHEN ${providersTable.totalReviews} = 0 THEN 0
+    ELSE COALESCE(${providersTable.averageRating}, 0)::float8
+      * (0.7 + 0.3 * LEAST(${providersTable.totalReviews} / 100.0, 1))
+      * (1 + LEAST(COALESCE(${providerSearchStatsView.recentReviewCount}, 0) / 20.0, 0.15))
+  END`;
+
+  // Quadratic decay over three years, then linear to zero at four
+  const daysSinceUpdate = sql`CEIL(ABS(EXTRACT(EPOCH FROM (${asOf.toISOString()}::timestamp - ${providersTable.updatedAt}))) / 86400)::float8`;
+  const freshness = sql`CASE
+    WHEN ${daysSinceUpdate} >= 1460 THEN 0
+    WHEN ${daysSinceUpdate} >= 1095 THEN GREATEST((1 - (${daysSinceUpdate} - 1095) / 365.0) * 50, 1)
+    ELSE GREATEST(1095 * (1 - power(${daysSinceUpdate} / 1095.0, 2)), 1)
+  END`;
+
+  return { proximity, relevance, conversion, rating, freshness, distanceKm, daysSinceUpdate };
+}
+
+/**
+ * Start of the provider's first open slot, as an ISO string
+ */
+function nextOpenSlotSql(window?: AvailabilityWindow): SQL {
+  return sql`(
+    SELECT to_char(min(${availabilityCacheTable.startsAt}) AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"')
+    FROM ${availabilityCacheTable}
+    WHERE ${openSlotOf(window)}
+  )`;
+}
+
+function openSlotOf(window?: AvailabilityWindow): SQL {
+  return and(eq(availabilityCacheTable.providerId, providersTable.id), ...openSlotConditions(window))!;
+}
+
+function searchPoint(location: { latitude: number; longitude: number }): SQL {
+  return sql`ll_to_earth(${location.latitude}::float8, ${location.longitude}::float8)`;
+}
+
+// Same expression as the idx_providers_earth_location index
+function providerPoint(): SQL {
+  return sql`ll_to_earth(${providersTable.latitude}::float8, ${providersTable.longitude}::float8)`;
+}
+
+// Bound rather than inlined, as experiment weights aren't compile-time constants
+function weightSql(weight: number): SQL {
+  return sql`${weight}::float8`;
+}
+
+function normalizedSql(raw: SQL, range: { min: number; max: number }): SQL {
+  return sql`LEAST(GREATEST(((${raw}) - ${sql.raw(String(range.min))}) / ${sql.raw(String(range.max - range.min))}::float8, 0), 1)`;
+}
+
+function normalize(value: number, range: { min: number; max: number }): number {
+  if (value <= range.min) return 0;
+  if (value >= range.max) return 1;
+  return (value - range.min) / (range.max - range.min);
+}
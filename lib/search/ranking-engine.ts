@@ -11,6 +11,9 @@
  * 6. Supply freshness (recent availability updates)
  * 
  * Weights must be deterministic for consistent results
+ *
+ * Database search computes the same scores in SQL (lib/search/provider-search.ts);
+ * this engine ranks provider lists that are already in memory.
  */
 
 import { getDistance } from 'geolib';
@@ -28,10 +31,15 @@ export const RANKING_WEIGHTS = {
   FRESHNESS: 0.10,        // 10% - Recent availability updates
 } as const;
 
+/**
+ * A set of ranking weights, such as RANKING_WEIGHTS or an experiment variant
+ */
+export type RankingWeights = { readonly [K in keyof typeof RANKING_WEIGHTS]: number };
+
 /**
  * Score ranges for normalization
  */
-const SCORE_RANGES = {
+export const SCORE_RANGES = {
   PROXIMITY: { min: 0, max: 100 },      // 0-100km normalized
   RELEVANCE: { min: 0, max: 1 },        // 0-1 relevance score
   CONVERSION: { min: 0, max: 0.5 },     // 0-50% conversion rate
@@ -39,6 +47,9 @@ const SCORE_RANGES = {
   FRESHNESS: { min: 0, max: 1460 },     // Updated range for 4-year window
 } as const;
 
+// Multiplier on the total score of verified providers when boostVerified is set
+export const VERIFIED_BOOST = 1.1;
+
 /**
  * Provider data for ranking
  */
@@ -86,9 +97,9 @@ export interface SearchQuery {
     max: number;
   };
   minRating?: number;
-  availability?: {
-    date: string;
-    time: string;
+  availability?: {                   // Only providers with an open slot
+    date: string;                    // YYYY-MM-DD, provider-local
+    time?: string;                   // HH:mm, provider-local; any time that day if omitted
   };
 }
 
@@ -119,6 +130,37 @@ export interface RankingResult {
   };
 }
 
+/**
+ * Search terms found in a provider's name, categories and services, for debugging
+ */
+export function getMatchedTerms(
+  provider: Pick<ProviderRankingData, 'name' | 'categories' | 'services'>,
+  query?: string
+): string[] {
+  if (!query) return [];
+  
+  const searchTerms = query.toLowerCase().split(/\s+/);
+  const matched: string[] = [];
+  
+  searchTerms.forEach(term => {
+    if (provider.name.toLowerCase().includes(term)) {
+      matched.push(`name:${term}`);
+    }
+    provider.categories.forEach(cat => {
+      if (cat.toLowerCase().includes(term)) {
+        matched.push(`category:${term}`);
+      }
+    });
+    provider.services.forEach(service => {
+      if (service.name.toLowerCase().includes(term)) {
+        matched.push(`service:${term}`);
+      }
+    });
+  });
+  
+  return matched;
+}
+
 /**
  * Main ranking engine class
  */
@@ -234,7 +276,7 @@ export class RankingEngine {
     
     // Apply boost/penalty modifiers
     if (options.boostVerified && provider.isVerified) {
-      totalScore *= 1.1; // 10% boost for verified providers
+      totalScore *= VERIFIED_BOOST; // 10% boost for verified providers
     }
     
     const result: RankingResult = {
@@ -416,28 +458,7 @@ export class RankingEngine {
    * Get matched search terms for debugging
    */
   private getMatchedTerms(provider: ProviderRankingData, query?: string): string[] {
-    if (!query) return [];
-    
-    const searchTerms = query.toLowerCase().split(/\s+/);
-    const matched: string[] = [];
-    
-    searchTerms.forEach(term => {
-      if (provider.name.toLowerCase().includes(term)) {
-        matched.push(`name:${term}`);
-      }
-      provider.categories.forEach(cat => {
-        if (cat.toLowerCase().includes(term)) {
-          matched.push(`category:${term}`);
-        }
-      });
-      provider.services.forEach(service => {
-        if (service.name.toLowerCase().includes(term)) {
-          matched.push(`service:${term}`);
-        }
-      });
-    });
-    
-    return matched;
+    return getMatchedTerms(provider, query);
   }
 
   /**
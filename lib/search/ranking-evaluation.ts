@@ -0,0 +1,127 @@
+/**
+ * Offline Ranking Evaluation
+ * Replays logged searches with other provider ranking weights and measures,
+ * as NDCG@k, how well each weight set orders what customers went on to click
+ * and book:
+ * - Relevance grades: booked 3, clicked 1, otherwise 0
+ * - Only provider impressions carry ranking signals, so a session is the
+ *   providers shown for one relevance-sorted search with a click
+ * - The ranking customers were actually shown is scored as the baseline.
+ *   Customers click what they see first, which flatters it; compare weight
+ *   sets with each other and use an A/B test to confirm a winner.
+ */
+
+import type { SearchImpressionSignals } from "@/db/schema";
+import { VERIFIED_BOOST, type RankingWeights } from "./ranking-engine";
+
+export const RELEVANCE_GRADES = {
+  BOOKED: 3,
+  CLICKED: 1,
+  SKIPPED: 0,
+} as const;
+
+export const DEFAULT_NDCG_CUTOFF = 10;
+
+// Name of the baseline in evaluation results
+export const LOGGED_RANKING = "logged";
+
+export interface EvaluationImpression {
+  listingId: string;
+  position: number; // As shown, 1-based
+  signals: SearchImpressionSignals;
+  clicked: boolean;
+  booked: boolean;
+}
+
+export interface EvaluationSession {
+  searchId: string;
+  query: string;
+  weightSet: string; // Weight set that served the search
+  impressions: EvaluationImpression[];
+}
+
+export interface WeightSetEvaluation {
+  weightSet: string;
+  ndcg: number; // Mean over sessions
+  sessions: number;
+}
+
+/**
+ * How relevant an impression turned out to be
+ */
+export function relevanceGrade(impression: Pick<EvaluationImpression, "clicked" | "booked">): number {
+  if (impression.booked) return RELEVANCE_GRADES.BOOKED;
+  if (impression.clicked) return RELEVANCE_GRADES.CLICKED;
+  return RELEVANCE_GRADES.SKIPPED;
+}
+
+/**
+ * Discounted cumulative gain of grades in ranked order, over the top k
+ */
+export function dcg(grades: number[], k: number = DEFAULT_NDCG_CUTOFF): number {
+  return grades
+    .slice(0, k)
+    .reduce((sum, grade, index) => sum + (2 ** grade - 1) / Math.log2(index + 2), 0);
+}
+
+/**
+ * DCG relative to the best possible order of the same grades; 0 without any
+ * relevant result
+ */
+export function ndcg(grades: number[], k: number = DEFAULT_NDCG_CUTOFF): number {
+  const ideal = dcg([...grades].sort((a, b) => b - a), k);
+  return ideal > 0 ? dcg(grades, k) / ideal : 0;
+}
+
+/**
+ * Provider score under a weight set, as provider search computes it for
+ * unified search (verified providers boosted)
+ */
+export function weightedScore(signals: SearchImpressionSignals, weights: RankingWeights): number {
+  const score =
+    signals.proximity * weights.PROXIMITY +
+    signals.relevance * weights.RELEVANCE +
+    signals.conversion * weights.CONVERSION +
+    signals.rating * weights.RATING +
+    signals.freshness * weights.FRESHNESS;
+
+  return signals.verified ? score * VERIFIED_BOOST : score;
+}
+
+/**
+ * A session's impressions in the order a weight set would rank them; ties
+ * keep the order they were shown in
+ */
+export function rerank(impressions: EvaluationImpression[], weights: RankingWeights): EvaluationImpression[] {
+  return impressions
+    .map(impression => ({ impression, score: weightedScore(impression.signals, weights) }))
+    .sort((a, b) => b.score - a.score || a.impression.position - b.impression.position)
+    .map(({ impression }) => impression);
+}
+
+/**
+ * Mean NDCG@k of the logged ranking and of each weight set, over the sessions
+ * with at least one click or booking
+ */
+export function evaluateWeightSets(
+  sessions: EvaluationSession[],
+  weightSets: Record<string, RankingWeights>,
+  k: number = DEFAULT_NDCG_CUTOFF
+): WeightSetEvaluation[] {
+  const graded = sessions.filter(session => session.impressions.some(impression => relevanceGrade(impression) > 0));
+
+  const evaluate = (weightSet: string, order: (session: EvaluationSession) => EvaluationImpression[]) => ({
+    weightSet,
+    ndcg: graded.length > 0
+      ? graded.reduce((sum, session) => sum + ndcg(order(session).map(relevanceGrade), k), 0) / graded.length
+      : 0,
+    sessions: graded.length,
+  });
+
+  return [
+    evaluate(LOGGED_RANKING, session => [...session.impressions].sort((a, b) => a.position - b.position)),
+    ...Object.entries(weightSets).map(([name, weights]) =>
+      evaluate(name, session => rerank(session.impressions, weights))
+    ),
+  ];
+}
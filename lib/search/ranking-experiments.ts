@@ -0,0 +1,66 @@
+/**
+ * Ranking Weight Experiments
+ * Named sets of provider ranking weights, to A/B test against RANKING_WEIGHTS
+ * once they look better offline (scripts/evaluate-ranking-weights.ts).
+ *
+ * SEARCH_RANKING_EXPERIMENT lists the weight sets being served, e.g.
+ * "control,conversion_first", or a single set to roll it out. Signed-in
+ * customers are split evenly and stably between them by user id; signed-out
+ * searches get control during an experiment, as their bookings can't be
+ * attributed. Every logged search records the weight set that served it.
+ */
+
+import crypto from "crypto";
+import { RANKING_WEIGHTS, type RankingWeights } from "./ranking-engine";
+
+export const CONTROL_WEIGHT_SET = "control";
+
+export const RANKING_WEIGHT_SETS: Record<string, RankingWeights> = {
+  [CONTROL_WEIGHT_SET]: RANKING_WEIGHTS,
+  // Favor providers that turn views into bookings over nearby ones
+  conversion_first: {
+    PROXIMITY: 0.15,
+    RELEVANCE: 0.25,
+    CONVERSION: 0.30,
+    RATING: 0.20,
+    FRESHNESS: 0.10,
+  },
+  // Favor well-reviewed providers
+  rating_first: {
+    PROXIMITY: 0.20,
+    RELEVANCE: 0.25,
+    CONVERSION: 0.15,
+    RATING: 0.30,
+    FRESHNESS: 0.10,
+  },
+};
+
+/**
+ * Weight sets in the running experiment; only control without one
+ */
+export function activeWeightSets(experiment = process.env.SEARCH_RANKING_EXPERIMENT): string[] {
+  const names = (experiment ?? "")
+    .split(",")
+    .map(name => name.trim())
+    .filter(name => name in RANKING_WEIGHT_SETS);
+
+  return names.length > 0 ? Array.from(new Set(names)) : [CONTROL_WEIGHT_SET];
+}
+
+/**
+ * The weight set a customer's searches are ranked with
+ */
+export function assignWeightSet(
+  userId: string | null | undefined,
+  weightSets: string[] = activeWeightSets()
+): string {
+  if (weightSets.length === 1) {
+    return weightSets[0];
+  }
+  if (!userId) {
+    return CONTROL_WEIGHT_SET;
+  }
+
+  const bucket = crypto.createHash("sha256").update(userId).digest().readUInt32BE(0);
+  return weightSets[bucket % weightSets.length];
+}
@@ -0,0 +1,489 @@
+/**
+ * Saved Search Service
+ * Customers save a marketplace search (text, verticals, categories, location
+ * radius and price range) and are told about listings published afterwards
+ * that match it. The saved-search-alerts cron checks instant searches on
+ * every run and daily searches once a day; matches are sent as one in-app
+ * notification and one digest email through the email queue.
+ */
+
+import { db } from "@/db/db";
+import {
+  eventsTable,
+  profilesTable,
+  providersTable,
+  savedSearchesTable,
+  servicesTable,
+  spacesTable,
+  thingsTable,
+  type SavedSearch,
+  type SavedSearchFrequency,
+  type SavedSearchQuery,
+  type SavedSearchVertical,
+} from "@/db/schema";
+import { and, desc, eq, gt, inArray, isNotNull, lte, or, sql } from "drizzle-orm";
+import { getDistance } from "geolib";
+import { emailQueue, EmailTemplate } from "@/lib/services/email-queue";
+import { notificationService } from "@/lib/services/notification-service";
+
+export const MAX_SAVED_SEARCHES = 20;
+export const DAILY_DIGEST_HOURS = 24;
+// Searches not checked for longer (e.g. after a cron outage) only hear about the last week
+export const MAX_LOOKBACK_DAYS = 7;
+// Listings named in one alert; the alert links to the full results
+export const MAX_LISTINGS_PER_ALERT = 10;
+
+const SEARCH_BATCH_SIZE = 500;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * A newly published listing of any vertical, reduced to what searches match on
+ */
+export interface NewListing {
+  vertical: SavedSearchVertical;
+  id: string;
+  title: string;
+  text: string; // Everything else the search text may match
+  categories: string[];
+  location?: {
+    latitude: number;
+    longitude: number;
+  };
+  prices: number[];
+  url: string;
+  publishedAt: Date;
+}
+
+export interface SavedSearchInput {
+  name: string;
+  query: SavedSearchQuery;
+  frequency: SavedSearchFrequency;
+}
+
+export interface RunAlertsResult {
+  checked: number;
+  notified: number;
+}
+
+export type SavedSearchErrorCode =
+  | "NOT_FOUND"
+  | "LIMIT_REACHED";
+
+const ERROR_STATUS: Record<SavedSearchErrorCode, number> = {
+  NOT_FOUND: 404,
+  LIMIT_REACHED: 422,
+};
+
+export class SavedSearchError extends Error {
+  constructor(
+    message: string,
+    public code: SavedSearchErrorCode
+  ) {
+    super(message);
+    this.name = 'SavedSearchError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+/**
+ * Whether a listing satisfies every filter of a saved search
+ */
+export function matchesSavedSearch(listing: NewListing, query: SavedSearchQuery): boolean {
+  if (query.verticals?.length && !query.verticals.includes(listing.vertical)) {
+    return false;
+  }
+
+  // Every search term must appear somewhere in the listing
+  const terms = (query.query ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length > 0) {
+    const haystack = [listing.title, listing.text, ...listing.categories].join(" ").toLowerCase();
+    if (!terms.every(term => haystack.includes(term))) {
+      return false;
+    }
+  }
+
+  if (query.categories?.length) {
+    const categories = listing.categories.map(category => category.toLowerCase());
+    if (!query.categories.some(category => categories.includes(category.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  if (query.priceRange) {
+    const { min, max } = query.priceRange;
+    if (!listing.prices.some(price => price >= min && price <= max)) {
+      return false;
+    }
+  }
+
+  if (query.location?.radiusKm) {
+    // Listings without coordinates can't be shown to be nearby
+    if (!listing.location) {
+      return false;
+    }
+    const distanceKm = getDistance(query.location, listing.location) / 1000;
+    if (distanceKm > query.location.radiusKm) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Whether the alerts cron should check a saved search now
+ */
+export function isSearchDue(
+  search: Pick<SavedSearch, "frequency" | "isActive" | "lastCheckedAt">,
+  now: Date = new Date()
+): boolean {
+  if (!search.isActive) {
+    return false;
+  }
+  if (search.frequency === "instant") {
+    return true;
+  }
+  return now.getTime() - search.lastCheckedAt.getTime() >= DAILY_DIGEST_HOURS * HOUR_MS;
+}
+
+/**
+ * Marketplace page showing the results of a saved search
+ */
+export function searchUrlOf(query: SavedSearchQuery): string {
+  const params = new URLSearchParams();
+  if (query.query) params.set("q", query.query);
+  if (query.verticals?.length === 1) params.set("vertical", query.verticals[0]);
+  if (query.categories?.length) params.set("category", query.categories[0]);
+  if (query.location) {
+    params.set("lat", query.location.latitude.toString());
+    params.set("lng", query.location.longitude.toString());
+  }
+  return `/marketplace?${params.toString()}`;
+}
+
+export class SavedSearchService {
+  /**
+   * Save a search for a customer
+   */
+  async create(userId: string, input: SavedSearchInput): Promise<SavedSearch> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(savedSearchesTable)
+      .where(eq(savedSearchesTable.userId, userId));
+
+    if (count >= MAX_SAVED_SEARCHES) {
+      throw new SavedSearchError(
+        `You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to save another.`,
+        "LIMIT_REACHED"
+      );
+    }
+
+    // Only listings published from now on are new to this search
+    const [search] = await db
+      .insert(savedSearchesTable)
+      .values({ userId, ...input })
+      .returning();
+
+    return search;
+  }
+
+  /**
+   * A customer's saved searches, newest first
+   */
+  async list(userId: string): Promise<SavedSearch[]> {
+    return db
+      .select()
+      .from(savedSearchesTable)
+      .where(eq(savedSearchesTable.userId, userId))
+      .orderBy(desc(savedSearchesTable.createdAt));
+  }
+
+  /**
+   * Rename a saved search, change how often it alerts, or pause it
+   */
+  async update(
+    searchId: string,
+    userId: string,
+    changes: Partial<Pick<SavedSearch, "name" | "frequency" | "isActive">>
+  ): Promise<SavedSearch> {
+    const current = await this.getOwned(searchId, userId);
+
+    const [search] = await db
+      .update(savedSearchesTable)
+      .set({
+        ...changes,
+        // A resumed search starts afresh instead of catching up on the pause
+        ...(changes.isActive && !current.isActive ? { lastCheckedAt: new Date() } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(savedSearchesTable.id, searchId))
+      .returning();
+
+    return search;
+  }
+
+  /**
+   * Delete a saved search
+   */
+  async remove(searchId: string, userId: string): Promise<void> {
+    await this.getOwned(searchId, userId);
+    await db.delete(savedSearchesTable).where(eq(savedSearchesTable.id, searchId));
+  }
+
+  /**
+   * Check due saved searches for new matching listings and alert their owners
+   */
+  async runAlerts(now: Date = new Date()): Promise<RunAlertsResult> {
+    const dailyCutoff = new Date(now.getTime() - DAILY_DIGEST_HOURS * HOUR_MS);
+
+    const searches = await db
+      .select()
+      .from(savedSearchesTable)
+      .where(and(
+        eq(savedSearchesTable.isActive, true),
+        or(
+          eq(savedSearchesTable.frequency, "instant"),
+          lte(savedSearchesTable.lastCheckedAt, dailyCutoff)
+        )
+      ))
+      .orderBy(savedSearchesTable.lastCheckedAt)
+      .limit(SEARCH_BATCH_SIZE);
+
+    const due = searches.filter(search => isSearchDue(search, now));
+    if (due.length === 0) {
+      return { checked: 0, notified: 0 };
+    }
+
+    const oldest = Math.min(...due.map(search => search.lastCheckedAt.getTime()));
+    const since = new Date(Math.max(oldest, now.getTime() - MAX_LOOKBACK_DAYS * 24 * HOUR_MS));
+    const listings = await this.loadNewListings(since, now);
+
+    let notified = 0;
+    for (const search of due) {
+      const matches = listings.filter(listing =>
+        listing.publishedAt > search.lastCheckedAt && matchesSavedSearch(listing, search.query)
+      );
+
+      try {
+        if (matches.length > 0) {
+          await this.sendAlert(search, matches, now);
+          notified++;
+        }
+
+        await db
+          .update(savedSearchesTable)
+          .set({
+            lastCheckedAt: now,
+            ...(matches.length > 0 ? { lastNotifiedAt: now } : {}),
+          })
+          .where(eq(savedSearchesTable.id, search.id));
+      } catch (error) {
+        // Left due, so the next run tries again
+        console.error(`Failed to send alerts for saved search ${search.id}:`, error);
+      }
+    }
+
+    return { checked: due.length, notified };
+  }
+
+  /** Private helper methods */
+
+  private async getOwned(searchId: string, userId: string): Promise<SavedSearch> {
+    const [search] = await db
+      .select()
+      .from(savedSearchesTable)
+      .where(and(eq(savedSearchesTable.id, searchId), eq(savedSearchesTable.userId, userId)))
+      .limit(1);
+
+    if (!search) {
+      throw new SavedSearchError("Saved search not found", "NOT_FOUND");
+    }
+    return search;
+  }
+
+  /**
+   * Providers, events, spaces and things published in (since, until]
+   */
+  private async loadNewListings(since: Date, until: Date): Promise<NewListing[]> {
+    const toNumber = (value: string | null) => (value === null ? null : parseFloat(value));
+    const locationOf = (latitude: string | null, longitude: string | null) =>
+      latitude && longitude ? { latitude: parseFloat(latitude), longitude: parseFloat(longitude) } : undefined;
+    const pricesOf = (...values: (string | number | null)[]) =>
+      values
+        .map(value => (typeof value === "string" ? toNumber(value) : value))
+        .filter((value): value is number => value !== null && !Number.isNaN(value));
+
+    const [providers, events, spaces, things] = await Promise.all([
+      db
+        .select()
+        .from(providersTable)
+        .where(and(
+          eq(providersTable.isActive, true),
+          gt(providersTable.createdAt, since),
+          lte(providersTable.createdAt, until)
+        )),
+      db
+        .select()
+        .from(eventsTable)
+        .where(and(
+          eq(eventsTable.status, "published"),
+          isNotNull(eventsTable.publishedAt),
+          gt(eventsTable.publishedAt, since),
+          lte(eventsTable.publishedAt, until)
+        )),
+      db
+        .select()
+        .from(spacesTable)
+        .where(and(
+          eq(spacesTable.isActive, true),
+          gt(spacesTable.createdAt, since),
+          lte(spacesTable.createdAt, until)
+        )),
+      db
+        .select()
+        .from(thingsTable)
+        .where(and(
+          eq(thingsTable.status, "active"),
+          isNotNull(thingsTable.publishedAt),
+          gt(thingsTable.publishedAt, since),
+          lte(thingsTable.publishedAt, until)
+        )),
+    ]);
+
+    // Providers are categorised by the services they offer
+    const services = providers.length === 0 ? [] : await db
+      .select({
+        providerId: servicesTable.providerId,
+        category: servicesTable.category,
+        subcategory: servicesTable.subcategory,
+      })
+      .from(servicesTable)
+      .where(and(
+        inArray(servicesTable.providerId, providers.map(provider => provider.id)),
+        eq(servicesTable.isActive, true)
+      ));
+
+    return [
+      ...providers.map((provider): NewListing => ({
+        vertical: "services",
+        id: provider.id,
+        title: provider.displayName,
+        text: [
+          provider.tagline,
+          provider.bio,
+          provider.locationCity,
+          ...(provider.services ?? []).map(service => service.name),
+        ].filter(Boolean).join(" "),
+        categories: services
+          .filter(service => service.providerId === provider.id)
+          .flatMap(service => [service.category, service.subcategory ?? ""])
+          .filter(Boolean),
+        location: locationOf(provider.latitude, provider.longitude),
+        prices: pricesOf(provider.hourlyRate, ...(provider.services ?? []).map(service => service.price)),
+        url: `/providers/${provider.slug}`,
+        publishedAt: provider.createdAt,
+      })),
+      ...events.map((event): NewListing => ({
+        vertical: "events",
+        id: event.id,
+        title: event.title,
+        text: [event.description, event.eventType, event.address?.city].filter(Boolean).join(" "),
+        categories: [event.category, ...(event.tags ?? [])],
+        location: locationOf(event.latitude, event.longitude),
+        prices: pricesOf(event.price, event.earlyBirdPrice),
+        url: `/events/${event.id}`,
+        publishedAt: event.publishedAt!,
+      })),
+      ...spaces.map((space): NewListing => ({
+        vertical: "spaces",
+        id: space.id,
+        title: space.name,
+        text: [space.description, space.city].filter(Boolean).join(" "),
+        categories: [space.category],
+        location: locationOf(space.latitude, space.longitude),
+        prices: pricesOf(space.hourlyRate, space.halfDayRate, space.dailyRate, space.weeklyRate, space.monthlyRate),
+        url: `/spaces/${space.id}`,
+        publishedAt: space.createdAt,
+      })),
+      ...things.map((thing): NewListing => ({
+        vertical: "things",
+        id: thing.id,
+        title: thing.title,
+        text: [thing.description, thing.city].filter(Boolean).join(" "),
+        categories: [thing.category, thing.subcategory ?? ""].filter(Boolean),
+        location: locationOf(thing.latitude, thing.longitude),
+        prices: pricesOf(thing.price),
+        url: `/things/${thing.id}`,
+        publishedAt: thing.publishedAt!,
+      })),
+    ];
+  }
+
+  /**
+   * One in-app notification and one digest email for the new matches of a search
+   */
+  private async sendAlert(search: SavedSearch, matches: NewListing[], now: Date): Promise<void> {
+    const listings = matches
+      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())
+      .slice(0, MAX_LISTINGS_PER_ALERT)
+      .map(listing => ({
+        title: listing.title,
+        vertical: listing.vertical,
+        url: listing.url,
+        price: listing.prices.length > 0 ? Math.min(...listing.prices) : null,
+      }));
+    const searchUrl = searchUrlOf(search.query);
+    const summary = matches.length === 1
+      ? `${listings[0].title} matches your saved search "${search.name}".`
+      : `${matches.length} new listings match your saved search "${search.name}".`;
+
+    // In-app only: the email goes through the queue below
+    await notificationService.sendNotification({
+      userId: search.userId,
+      type: "saved_search_match",
+      title: `New matches for "${search.name}"`,
+      body: summary,
+      channels: ["in_app"],
+      priority: search.frequency === "instant" ? "medium" : "low",
+      actionUrl: searchUrl,
+      actionText: "View results",
+      metadata: {
+        savedSearchId: search.id,
+        listings: matches.map(listing => ({ vertical: listing.vertical, id: listing.id })),
+      },
+    });
+
+    const [profile] = await db
+      .select({ email: profilesTable.email })
+      .from(profilesTable)
+      .where(eq(profilesTable.userId, search.userId))
+      .limit(1);
+    const preferences = await notificationService.getUserPreferences(search.userId);
+
+    if (!profile?.email || preferences?.emailEnabled === false) {
+      return;
+    }
+
+    await emailQueue.enqueue(
+      EmailTemplate.SAVED_SEARCH_DIGEST,
+      preferences?.preferredEmail || profile.email,
+      {
+        name: "there",
+        searchName: search.name,
+        listings,
+        searchUrl,
+      },
+      {
+        priority: search.frequency === "instant" ? "normal" : "low",
+        idempotencyKey: `saved-search-${search.id}-${now.getTime()}`,
+        metadata: { savedSearchId: search.id, userId: search.userId },
+      }
+    );
+  }
+}
+
+// Export singleton instance
+export const savedSearchService = new SavedSearchService();
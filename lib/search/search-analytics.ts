@@ -0,0 +1,312 @@
+/**
+ * Search Analytics Service
+ * Records what marketplace searches showed (impressions) and what customers
+ * clicked, and reports on it per query:
+ * - Bookings are attributed to a search when the customer booked a provider
+ *   they clicked in it within BOOKING_ATTRIBUTION_DAYS, so signed-out
+ *   searches never lead to attributed bookings
+ * - Zero-result and low click-through queries, for admins to fix with
+ *   synonyms, categories or supply
+ * - Click-through and bookings per ranking weight set, for A/B tests
+ * - Logged sessions for offline evaluation (lib/search/ranking-evaluation.ts)
+ */
+
+import { db } from "@/db/db";
+import {
+  bookingsTable,
+  searchImpressionsTable,
+  searchLogsTable,
+  type SearchImpressionSignals,
+} from "@/db/schema";
+import { and, desc, eq, exists, gt, gte, inArray, isNotNull, sql, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import type { UnifiedSearchImpression } from "./unified-search";
+import type { EvaluationSession } from "./ranking-evaluation";
+
+export const BOOKING_ATTRIBUTION_DAYS = 7;
+export const DEFAULT_REPORT_DAYS = 30;
+export const DEFAULT_REPORT_LIMIT = 50;
+
+// Low click-through: at most this share of searches got a click...
+export const LOW_CTR_THRESHOLD = 0.1;
+// ...over at least this many searches
+export const LOW_CTR_MIN_SEARCHES = 10;
+
+export const MAX_EVALUATION_SESSIONS = 5000;
+
+export interface ReportOptions {
+  days?: number;
+  limit?: number;
+}
+
+export interface ZeroResultQuery {
+  query: string;
+  searches: number;
+  lastSearchedAt: Date;
+}
+
+export interface QueryPerformance {
+  query: string;
+  searches: number;
+  impressions: number;
+  clicks: number;
+  clickThroughRate: number; // Share of searches with a click
+  bookings: number;
+}
+
+export interface WeightSetPerformance {
+  weightSet: string;
+  searches: number;
+  clickThroughRate: number;
+  bookings: number;
+  bookingsPerSearch: number;
+}
+
+/**
+ * Main search analytics service class
+ */
+export class SearchAnalyticsService {
+  /**
+   * Record the listings shown on a page of a logged search
+   * Failures are logged and never fail the search itself
+   */
+  async recordImpressions(searchId: string, impressions: UnifiedSearchImpression[]): Promise<void> {
+    if (impressions.length === 0) {
+      return;
+    }
+
+    try {
+      await db
+        .insert(searchImpressionsTable)
+        .values(impressions.map(impression => ({
+          searchLogId: searchId,
+          vertical: impression.vertical,
+          listingId: impression.listingId,
+          position: impression.position,
+          score: impression.score,
+          signals: impression.signals,
+        })))
+        // Pages refetched by the client were already recorded
+        .onConflictDoNothing();
+    } catch (error) {
+      console.error("Failed to record search impressions:", error);
+    }
+  }
+
+  /**
+   * Record a click on a listing shown for a search
+   * Returns false when the listing wasn't shown for it
+   */
+  async recordClick(searchId: string, listingId: string): Promise<boolean> {
+    const impression = and(
+      eq(searchImpressionsTable.searchLogId, searchId),
+      eq(searchImpressionsTable.listingId, listingId)
+    );
+
+    const [clicked] = await db
+      .update(searchImpressionsTable)
+      .set({ clickedAt: new Date() })
+      .where(and(impression, sql`${searchImpressionsTable.clickedAt} IS NULL`))
+      .returning({ id: searchImpressionsTable.id });
+
+    if (clicked) {
+      return true;
+    }
+
+    // Clicked before: the first click counts for attribution
+    const [shown] = await db
+      .select({ id: searchImpressionsTable.id })
+      .from(searchImpressionsTable)
+      .where(impression)
+      .limit(1);
+
+    return Boolean(shown);
+  }
+
+  /**
+   * Queries that found nothing, most searched first
+   */
+  async getZeroResultQueries(options: ReportOptions = {}): Promise<ZeroResultQuery[]> {
+    return db
+      .select({
+        query: searchLogsTable.normalizedQuery,
+        searches: sql<number>`count(*)::int`,
+        lastSearchedAt: sql<Date>`max(${searchLogsTable.createdAt})`.mapWith(searchLogsTable.createdAt),
+      })
+      .from(searchLogsTable)
+      .where(and(
+        gte(searchLogsTable.createdAt, this.since(options.days)),
+        eq(searchLogsTable.resultCount, 0)
+      ))
+      .groupBy(searchLogsTable.normalizedQuery)
+      .orderBy(desc(sql`count(*)`), searchLogsTable.normalizedQuery)
+      .limit(options.limit ?? DEFAULT_REPORT_LIMIT);
+  }
+
+  /**
+   * Queries with results that customers rarely click, most searched first
+   */
+  async getLowCtrQueries(options: ReportOptions & {
+    maxClickThroughRate?: number;
+    minSearches?: number;
+  } = {}): Promise<QueryPerformance[]> {
+    const stats = this.searchStats();
+
+    return db
+      .select({
+        query: searchLogsTable.normalizedQuery,
+        ...stats,
+      })
+      .from(searchLogsTable)
+      .leftJoin(searchImpressionsTable, eq(searchImpressionsTable.searchLogId, searchLogsTable.id))
+      .leftJoin(bookingsTable, this.attributedBooking())
+      .where(and(
+        gte(searchLogsTable.createdAt, this.since(options.days)),
+        gt(searchLogsTable.resultCount, 0)
+      ))
+      .groupBy(searchLogsTable.normalizedQuery)
+      .having(and(
+        gte(stats.searches, options.minSearches ?? LOW_CTR_MIN_SEARCHES),
+        sql`${stats.clickThroughRate} <= ${options.maxClickThroughRate ?? LOW_CTR_THRESHOLD}`
+      ))
+      .orderBy(desc(stats.searches), searchLogsTable.normalizedQuery)
+      .limit(options.limit ?? DEFAULT_REPORT_LIMIT);
+  }
+
+  /**
+   * Click-through and bookings of the searches each weight set served
+   * Only signed-in searches are split between weight sets, so only they count
+   */
+  async getWeightSetPerformance(options: Pick<ReportOptions, "days"> = {}): Promise<WeightSetPerformance[]> {
+    const stats = this.searchStats();
+
+    const rows = await db
+      .select({
+        weightSet: searchLogsTable.weightSet,
+        searches: stats.searches,
+        clickThroughRate: stats.clickThroughRate,
+        bookings: stats.bookings,
+      })
+      .from(searchLogsTable)
+      .leftJoin(searchImpressionsTable, eq(searchImpressionsTable.searchLogId, searchLogsTable.id))
+      .leftJoin(bookingsTable, this.attributedBooking())
+      .where(and(
+        gte(searchLogsTable.createdAt, this.since(options.days)),
+        isNotNull(searchLogsTable.userId)
+      ))
+      .groupBy(searchLogsTable.weightSet)
+      .orderBy(searchLogsTable.weightSet);
+
+    return rows.map(row => ({
+      ...row,
+      bookingsPerSearch: row.searches > 0 ? row.bookings / row.searches : 0,
+    }));
+  }
+
+  /**
+   * Relevance-sorted searches with a click, newest first, with the provider
+   * impressions they showed
+   */
+  async loadEvaluationSessions(options: {
+    days?: number;
+    servedBy?: string; // Only searches served by this weight set
+    limit?: number;
+  } = {}): Promise<EvaluationSession[]> {
+    const clicked = alias(searchImpressionsTable, "clicked");
+
+    const sessionIds = db
+      .select({ id: searchLogsTable.id })
+      .from(searchLogsTable)
+      .where(and(
+        gte(searchLogsTable.createdAt, this.since(options.days)),
+        eq(searchLogsTable.sortBy, "relevance"),
+        options.servedBy ? eq(searchLogsTable.weightSet, options.servedBy) : undefined,
+        exists(db
+          .select({ id: clicked.id })
+          .from(clicked)
+          .where(and(eq(clicked.searchLogId, searchLogsTable.id), isNotNull(clicked.clickedAt))))
+      ))
+      .orderBy(desc(searchLogsTable.createdAt))
+      .limit(Math.min(options.limit ?? MAX_EVALUATION_SESSIONS, MAX_EVALUATION_SESSIONS));
+
+    const rows = await db
+      .select({
+        searchId: searchLogsTable.id,
+        query: searchLogsTable.normalizedQuery,
+        weightSet: searchLogsTable.weightSet,
+        listingId: searchImpressionsTable.listingId,
+        position: searchImpressionsTable.position,
+        signals: searchImpressionsTable.signals,
+        clicked: sql<boolean>`${searchImpressionsTable.clickedAt} IS NOT NULL`,
+        booked: sql<boolean>`${exists(db
+          .select({ id: bookingsTable.id })
+          .from(bookingsTable)
+          .where(this.attributedBooking()))}`,
+      })
+      .from(searchImpressionsTable)
+      .innerJoin(searchLogsTable, eq(searchLogsTable.id, searchImpressionsTable.searchLogId))
+      .where(and(
+        inArray(searchImpressionsTable.searchLogId, sessionIds),
+        isNotNull(searchImpressionsTable.signals)
+      ))
+      .orderBy(searchImpressionsTable.searchLogId, searchImpressionsTable.position);
+
+    const sessions = new Map<string, EvaluationSession>();
+    for (const row of rows) {
+      const session = sessions.get(row.searchId) ?? {
+        searchId: row.searchId,
+        query: row.query,
+        weightSet: row.weightSet,
+        impressions: [],
+      };
+      session.impressions.push({
+        listingId: row.listingId,
+        position: row.position,
+        signals: row.signals as SearchImpressionSignals,
+        clicked: row.clicked,
+        booked: row.booked,
+      });
+      sessions.set(row.searchId, session);
+    }
+
+    return Array.from(sessions.values());
+  }
+
+  /** Private helpers */
+
+  private since(days: number = DEFAULT_REPORT_DAYS): Date {
+    return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * A booking of a clicked provider by the customer who searched, within the
+   * attribution window. Joined per impression, so aggregates count distinct ids.
+   */
+  private attributedBooking(): SQL {
+    return and(
+      eq(bookingsTable.providerId, searchImpressionsTable.listingId),
+      eq(bookingsTable.customerId, searchLogsTable.userId),
+      gte(bookingsTable.createdAt, searchImpressionsTable.clickedAt),
+      sql`${bookingsTable.createdAt} < ${searchImpressionsTable.clickedAt} + make_interval(days => ${BOOKING_ATTRIBUTION_DAYS})`
+    )!;
+  }
+
+  /**
+   * Per-group aggregates over search_logs joined to impressions and bookings
+   */
+  private searchStats() {
+    const searches = sql<number>`count(DISTINCT ${searchLogsTable.id})::int`;
+    const searchesWithClicks = sql`count(DISTINCT ${searchLogsTable.id}) FILTER (WHERE ${searchImpressionsTable.clickedAt} IS NOT NULL)`;
+
+    return {
+      searches,
+      impressions: sql<number>`count(DISTINCT ${searchImpressionsTable.id})::int`,
+      clicks: sql<number>`(count(DISTINCT ${searchImpressionsTable.id}) FILTER (WHERE ${searchImpressionsTable.clickedAt} IS NOT NULL))::int`,
+      clickThroughRate: sql<number>`(${searchesWithClicks})::float8 / count(DISTINCT ${searchLogsTable.id})`,
+      bookings: sql<number>`count(DISTINCT ${bookingsTable.id})::int`,
+    };
+  }
+}
+
+// Export singleton instance
+export const searchAnalyticsService = new SearchAnalyticsService();
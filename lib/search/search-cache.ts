@@ -7,11 +7,12 @@
  * - Stampede protection
  * - Cache key generation
  * - Invalidation on provider changes
+ * - Autocomplete suggestion caching
  */
 
 import { Redis } from "@upstash/redis";
 import crypto from 'crypto';
-import type { ProviderRankingData } from './ranking-engine';
+import type { ProviderSearchHit } from './provider-search';
 
 /**
  * Search cache configuration
@@ -27,8 +28,9 @@ export interface SearchCacheConfig {
  */
 export interface CachedSearchResult {
   query: any;
-  results: ProviderRankingData[];
-  totalCount: number;
+  results: ProviderSearchHit[];
+  totalCount: number | null; // Only counted for first pages
+  nextCursor: string | null;
   timestamp: Date;
   ttl: number;
   hits: number;
@@ -53,6 +55,7 @@ export class SearchCache {
   private readonly DEFAULT_TTL_SECONDS = 60; // 60 seconds per Master PRD
   private readonly STAMPEDE_PROTECTION_TTL = 5; // 5 seconds for stampede protection
   private readonly MAX_CACHE_SIZE = 1000; // Maximum number of cached queries
+  private readonly SUGGESTION_TTL_SECONDS = 300; // Suggestion dictionary only changes with the search-stats cron
   
   // In-memory stats (could be moved to Redis for persistence)
   private stats: CacheStats = {
@@ -147,11 +150,12 @@ export class SearchCache {
    */
   async set(
     query: any,
-    results: ProviderRankingData[],
-    totalCount: number,
+    results: ProviderSearchHit[],
+    totalCount: number | null,
     options: {
       ttl?: number;
       preventStampede?: boolean;
+      nextCursor?: string | null;
     } = {}
   ): Promise<boolean> {
     const cacheKey = this.generateCacheKey(query);
@@ -172,6 +176,7 @@ export class SearchCache {
         query,
         results,
         totalCount,
+        nextCursor: options.nextCursor ?? null,
         timestamp: new Date(),
         ttl,
         hits: 0
@@ -201,6 +206,41 @@ export class SearchCache {
     }
   }
 
+  /**
+   * Get cached autocomplete suggestions
+   * Stored under suggest:* so search result scans never read them
+   */
+  async getSuggestions<T>(request: any): Promise<T | null> {
+    try {
+      const cached = await this.redis.get(this.generateSuggestionKey(request));
+      return cached ? JSON.parse(cached as string) as T : null;
+    } catch (error) {
+      console.error('Suggestion cache get error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Set autocomplete suggestions in cache
+   */
+  async setSuggestions<T>(
+    request: any,
+    suggestions: T,
+    ttl: number = this.SUGGESTION_TTL_SECONDS
+  ): Promise<boolean> {
+    try {
+      await this.redis.setex(
+        this.generateSuggestionKey(request),
+        ttl,
+        JSON.stringify(suggestions)
+      );
+      return true;
+    } catch (error) {
+      console.error('Suggestion cache set error:', error);
+      return false;
+    }
+  }
+
   /**
    * Invalidate cache entries
    */
@@ -229,7 +269,7 @@ export class SearchCache {
           const cached = await this.redis.get(key);
           if (cached) {
             const result = JSON.parse(cached as string) as CachedSearchResult;
-            const hasProvider = result.results.some(p => p.id === patterns.providerId);
+            const hasProvider = result.results.some(hit => hit.providerId === patterns.providerId);
             
             if (hasProvider) {
               await this.redis.del(key);
@@ -260,7 +300,7 @@ export class SearchCache {
    */
   async warmCache(
     commonQueries: any[],
-    searchFunction: (query: any) => Promise<{ results: ProviderRankingData[]; total: number }>
+    searchFunction: (query: any) => Promise<{ results: ProviderSearchHit[]; total: number | null; nextCursor: string | null }>
   ): Promise<void> {
     console.log(`Warming cache with ${commonQueries.length} common queries`);
 
@@ -269,8 +309,8 @@ export class SearchCache {
       
       if (!cached) {
         try {
-          const { results, total } = await searchFunction(query);
-          await this.set(query, results, total, { preventStampede: true });
+          const { results, total, nextCursor } = await searchFunction(query);
+          await this.set(query, results, total, { preventStampede: true, nextCursor });
         } catch (error) {
           console.error('Cache warming error for query:', query, error);
         }
@@ -282,21 +322,34 @@ export class SearchCache {
    * Generate deterministic cache key from query
    */
   private generateCacheKey(query: any): string {
+    const hash = this.hashQuery(query);
+    
+    // Include important query params in key for debugging
+    const prefix = this.getCacheKeyPrefix(query);
+    
+    return `search:${prefix}:${hash}`;
+  }
+
+  /**
+   * Generate deterministic cache key for an autocomplete request
+   */
+  private generateSuggestionKey(request: any): string {
+    return `suggest:${this.hashQuery(request)}`;
+  }
+
+  /**
+   * Hash a query, ignoring key order
+   */
+  private hashQuery(query: any): string {
     // Sort query keys for consistent hashing
     const sortedQuery = this.sortObject(query);
     const queryString = JSON.stringify(sortedQuery);
     
-    // Create hash of query
-    const hash = crypto
+    return crypto
       .createHash('sha256')
       .update(queryString)
       .digest('hex')
       .substring(0, 16);
-    
-    // Include important query params in key for debugging
-    const prefix = this.getCacheKeyPrefix(query);
-    
-    return `search:${prefix}:${hash}`;
   }
 
   /**
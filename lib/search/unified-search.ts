@@ -0,0 +1,726 @@
+/**
+ * Unified Search
+ * Searches services, events, spaces and things with one query and blends them
+ * into a single ranked list of UniversalListingCard listings:
+ * - Services come from the provider ranker; events, spaces and things from
+ *   their own search queries, scored on text match, popularity and proximity
+ * - Scores are min-max normalized within each vertical before blending, so a
+ *   vertical with higher raw scores doesn't crowd out the others
+ * - Facets (type, category, price buckets, distance) are counted over the
+ *   blended candidates, except type counts which are each vertical's total
+ * - The page's listings are returned as impressions too, with the provider
+ *   ranking signals, for search analytics
+ * - A requested date and time only keeps services and spaces with an open
+ *   slot then; services show their next open slot
+ */
+
+import { searchEvents } from "@/db/queries/events-queries";
+import { searchSpaces, type SearchSpacesFilters } from "@/db/queries/spaces-queries";
+import { searchThings } from "@/db/queries/things-queries";
+import { fxRateService, toDisplayPrice } from "@/lib/payments/fx-rates";
+import type { SearchImpressionSignals } from "@/db/schema";
+import type {
+  EventListingData,
+  ListingData,
+  ServiceListingData,
+  SpaceListingData,
+  ThingListingData,
+} from "@/components/marketplace/cards/UniversalListingCard";
+import { loadProviderCategories, searchProvidersInDatabase } from "./provider-search";
+import type { RankingWeights } from "./ranking-engine";
+import type { AvailabilityWindow } from "@/lib/availability/search-availability";
+
+export const UNIFIED_SEARCH_VERTICALS = ["services", "events", "spaces", "things"] as const;
+export type UnifiedSearchVertical = typeof UNIFIED_SEARCH_VERTICALS[number];
+
+export const UNIFIED_SORT_OPTIONS = ["relevance", "price_low", "price_high", "distance", "rating", "newest"] as const;
+export type UnifiedSortOption = typeof UNIFIED_SORT_OPTIONS[number];
+
+// Candidates read from each vertical; pages past the blended candidates aren't served
+export const CANDIDATES_PER_VERTICAL = 100;
+
+// In each listing's own currency, like the price filters
+export const PRICE_BUCKETS: ReadonlyArray<{ min: number; max: number | null }> = [
+  { min: 0, max: 25 },
+  { min: 25, max: 50 },
+  { min: 50, max: 100 },
+  { min: 100, max: 250 },
+  { min: 250, max: 500 },
+  { min: 500, max: null },
+];
+
+export const DISTANCE_BUCKETS_MILES = [5, 10, 25, 50] as const;
+
+// Signals for events, spaces and things; services use RANKING_WEIGHTS
+export const LISTING_SCORE_WEIGHTS = {
+  TEXT: 0.6,
+  POPULARITY: 0.25,
+  PROXIMITY: 0.15,
+} as const;
+
+export const FEATURED_BOOST = 1.1;
+
+const POPULARITY_SATURATION = 1000; // Views and favorites at which popularity maxes out
+const KM_PER_MILE = 1.60934;
+
+export interface UnifiedSearchParams {
+  query?: string;
+  verticals?: UnifiedSearchVertical[];
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  location?: {
+    lat: number;
+    lng: number;
+    radiusMiles: number;
+  };
+  minRating?: number; // Services and spaces; other verticals aren't rated
+  availability?: AvailabilityWindow; // Services and spaces
+  providerVerified?: boolean;
+  instantBooking?: boolean;
+  events?: {
+    startDate?: Date;
+    endDate?: Date;
+    isOnline?: boolean;
+    hasSpots?: boolean;
+  };
+  spaces?: {
+    minCapacity?: number;
+    maxCapacity?: number;
+    minSize?: number;
+    maxSize?: number;
+    amenities?: string[];
+    priceUnit?: "hour" | "day" | "week" | "month";
+  };
+  things?: {
+    condition?: NonNullable<ThingListingData["condition"]>;
+    brand?: string;
+    negotiable?: boolean;
+    shippingAvailable?: boolean;
+    localPickupOnly?: boolean;
+  };
+  currency?: string; // Display currency
+  rankingWeights?: RankingWeights; // Services; RANKING_WEIGHTS by default
+  sortBy?: UnifiedSortOption;
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * A listing with its score within its vertical and after normalization
+ */
+export interface UnifiedSearchHit {
+  vertical: UnifiedSearchVertical;
+  listing: ListingData;
+  categories: string[];
+  rawScore: number;
+  score: number;
+  signals: SearchImpressionSignals | null; // Services only
+}
+
+/**
+ * A listing as shown on a page of results
+ */
+export interface UnifiedSearchImpression {
+  vertical: UnifiedSearchVertical;
+  listingId: string;
+  position: number; // 1-based, across pages
+  score: number;
+  signals: SearchImpressionSignals | null;
+}
+
+export interface SearchFacets {
+  types: Array<{ value: UnifiedSearchVertical; count: number }>;
+  categories: Array<{ value: string; count: number }>;
+  prices: Array<{ min: number; max: number | null; count: number }>;
+  distances: {
+    origin: { lat: number; lng: number };
+    buckets: Array<{ maxMiles: number; count: number }>; // Cumulative
+  } | null;
+}
+
+export interface UnifiedSearchResult {
+  results: ListingData[];
+  impressions: UnifiedSearchImpression[];
+  facets: SearchFacets;
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
+
+interface VerticalResult {
+  hits: UnifiedSearchHit[];
+  total: number;
+}
+
+/**
+ * Search every requested vertical and return one page of blended listings
+ */
+export async function unifiedSearch(params: UnifiedSearchParams): Promise<UnifiedSearchResult> {
+  const verticals = params.verticals && params.verticals.length > 0
+    ? params.verticals
+    : UNIFIED_SEARCH_VERTICALS;
+  const page = params.page ?? 1;
+  const pageSize = params.pageSize ?? 20;
+
+  // A failing vertical shouldn't fail the whole search
+  const settled = await Promise.allSettled(verticals.map(vertical => VERTICAL_SEARCHES[vertical](params)));
+  const totals = new Map<UnifiedSearchVertical, number>();
+  const hits: UnifiedSearchHit[] = [];
+
+  settled.forEach((outcome, index) => {
+    if (outcome.status === "rejected") {
+      console.error(`Unified search failed for ${verticals[index]}:`, outcome.reason);
+      totals.set(verticals[index], 0);
+      return;
+    }
+    totals.set(verticals[index], outcome.value.total);
+    hits.push(...normalizeVerticalScores(outcome.value.hits));
+  });
+
+  const blended = sortHits(hits, params.sortBy ?? "relevance");
+  const pageHits = blended.slice((page - 1) * pageSize, page * pageSize);
+  const rates = params.currency ? await fxRateService.getRateTable() : null;
+
+  const results = pageHits.map(({ listing }) => rates
+    ? {
+        ...listing,
+        displayPrice: toDisplayPrice(listingPrice(listing), listing.currency, params.currency, rates),
+      }
+    : listing
+  );
+
+  const totalPages = Math.ceil(blended.length / pageSize);
+
+  return {
+    results,
+    impressions: pageHits.map((hit, index) => ({
+      vertical: hit.vertical,
+      listingId: hit.listing.id,
+      position: (page - 1) * pageSize + index + 1,
+      score: hit.score,
+      signals: hit.signals,
+    })),
+    facets: buildFacets(blended, totals, params.location),
+    pagination: {
+      page,
+      pageSize,
+      total: Array.from(totals.values()).reduce((sum, total) => sum + total, 0),
+      totalPages,
+      hasMore: page < totalPages,
+    },
+  };
+}
+
+/**
+ * Relevance of an event, space or thing before normalization
+ */
+export function scoreListing(
+  signals: {
+    title: string;
+    text?: string | null;
+    popularity: number;
+    distanceMiles?: number | null;
+    featured?: boolean;
+  },
+  params: Pick<UnifiedSearchParams, "query" | "location">
+): number {
+  const text = textMatchScore(params.query, signals.title, signals.text);
+  const popularity = Math.min(Math.log1p(Math.max(signals.popularity, 0)) / Math.log1p(POPULARITY_SATURATION), 1);
+  const proximity = params.location && signals.distanceMiles != null
+    ? 1 - Math.min(signals.distanceMiles / params.location.radiusMiles, 1)
+    : 0.5; // Neutral score if no location
+
+  const score = LISTING_SCORE_WEIGHTS.TEXT * text +
+    LISTING_SCORE_WEIGHTS.POPULARITY * popularity +
+    LISTING_SCORE_WEIGHTS.PROXIMITY * proximity;
+
+  return signals.featured ? score * FEATURED_BOOST : score;
+}
+
+/**
+ * Share of search terms found in the title (full credit) or the text (half)
+ */
+export function textMatchScore(query: string | undefined, title: string, text?: string | null): number {
+  const terms = searchTerms(query);
+  if (terms.length === 0) {
+    return 0.5; // Neutral score if no query
+  }
+
+  const lowerTitle = title.toLowerCase();
+  const lowerText = (text ?? "").toLowerCase();
+  const matched = terms.reduce((sum, term) => {
+    if (lowerTitle.includes(term)) return sum + 1;
+    if (lowerText.includes(term)) return sum + 0.5;
+    return sum;
+  }, 0);
+
+  return matched / terms.length;
+}
+
+/**
+ * Min-max normalize the scores of one vertical's hits to 0-1
+ */
+export function normalizeVerticalScores(hits: UnifiedSearchHit[]): UnifiedSearchHit[] {
+  if (hits.length === 0) {
+    return hits;
+  }
+
+  const raw = hits.map(hit => hit.rawScore);
+  const min = Math.min(...raw);
+  const span = Math.max(...raw) - min;
+
+  return hits.map(hit => ({
+    ...hit,
+    score: span > 0 ? (hit.rawScore - min) / span : 1,
+  }));
+}
+
+/**
+ * Order blended hits; ties keep a stable vertical and id order
+ */
+export function sortHits(hits: UnifiedSearchHit[], sortBy: UnifiedSortOption): UnifiedSearchHit[] {
+  const compare = (a: UnifiedSearchHit, b: UnifiedSearchHit): number => {
+    switch (sortBy) {
+      case "price_low":
+        return listingPrice(a.listing) - listingPrice(b.listing);
+      case "price_high":
+        return listingPrice(b.listing) - listingPrice(a.listing);
+      case "distance":
+        return (a.listing.location?.distance ?? Infinity) - (b.listing.location?.distance ?? Infinity);
+      case "rating":
+        return (b.listing.provider?.rating ?? -1) - (a.listing.provider?.rating ?? -1);
+      case "newest":
+        return (b.listing.createdAt?.getTime() ?? 0) - (a.listing.createdAt?.getTime() ?? 0);
+      case "relevance":
+      default:
+        return b.score - a.score;
+    }
+  };
+
+  return [...hits].sort((a, b) =>
+    compare(a, b) ||
+    UNIFIED_SEARCH_VERTICALS.indexOf(a.vertical) - UNIFIED_SEARCH_VERTICALS.indexOf(b.vertical) ||
+    a.listing.id.localeCompare(b.listing.id)
+  );
+}
+
+/**
+ * Facet counts for SearchFilters
+ */
+export function buildFacets(
+  hits: UnifiedSearchHit[],
+  totals: Map<UnifiedSearchVertical, number>,
+  location?: UnifiedSearchParams["location"]
+): SearchFacets {
+  const categories = new Map<string, number>();
+  for (const hit of hits) {
+    for (const category of new Set(hit.categories)) {
+      categories.set(category, (categories.get(category) ?? 0) + 1);
+    }
+  }
+
+  const prices = PRICE_BUCKETS.map(bucket => ({
+    ...bucket,
+    count: hits.filter(hit => {
+      const price = listingPrice(hit.listing);
+      return price >= bucket.min && (bucket.max === null || price < bucket.max);
+    }).length,
+  }));
+
+  const distances = location
+    ? {
+        origin: { lat: location.lat, lng: location.lng },
+        buckets: DISTANCE_BUCKETS_MILES.map(maxMiles => ({
+          maxMiles,
+          count: hits.filter(hit => (hit.listing.location?.distance ?? Infinity) <= maxMiles).length,
+        })),
+      }
+    : null;
+
+  return {
+    types: UNIFIED_SEARCH_VERTICALS
+      .filter(vertical => totals.has(vertical))
+      .map(vertical => ({ value: vertical, count: totals.get(vertical) ?? 0 })),
+    categories: Array.from(categories.entries())
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+    prices,
+    distances,
+  };
+}
+
+/**
+ * Price a listing is sorted and bucketed by: the lower end of a range
+ */
+export function listingPrice(listing: ListingData): number {
+  return typeof listing.price === "number" ? listing.price : listing.price.min;
+}
+
+/** Private helpers */
+
+const VERTICAL_SEARCHES: Record<UnifiedSearchVertical, (params: UnifiedSearchParams) => Promise<VerticalResult>> = {
+  services: searchServiceListings,
+  events: searchEventListings,
+  spaces: searchSpaceListings,
+  things: searchThingListings,
+};
+
+async function searchServiceListings(params: UnifiedSearchParams): Promise<VerticalResult> {
+  const page = await searchProvidersInDatabase(
+    {
+      query: params.query,
+      categories: params.category ? [params.category] : undefined,
+      location: params.location
+        ? {
+            latitude: params.location.lat,
+            longitude: params.location.lng,
+            radiusKm: params.location.radiusMiles * KM_PER_MILE,
+          }
+        : undefined,
+      priceRange: params.minPrice !== undefined || params.maxPrice !== undefined
+        ? { min: params.minPrice ?? 0, max: params.maxPrice ?? Number.MAX_SAFE_INTEGER }
+        : undefined,
+      minRating: params.minRating,
+      availability: params.availability,
+    },
+    { limit: CANDIDATES_PER_VERTICAL, boostVerified: true, weights: params.rankingWeights }
+  );
+
+  const hits = params.providerVerified
+    ? page.hits.filter(hit => hit.provider.isVerified)
+    : page.hits;
+  const categories = await loadProviderCategories(hits.map(hit => hit.providerId));
+
+  return {
+    total: params.providerVerified ? hits.length : page.total ?? hits.length,
+    hits: hits.map(hit => {
+      const listing: ServiceListingData = {
+        id: hit.provider.id,
+        type: "service",
+        title: hit.provider.name,
+        description: hit.provider.tagline ?? undefined,
+        thumbnailUrl: hit.provider.profileImageUrl ?? undefined,
+        location: {
+          city: hit.provider.locationCity ?? undefined,
+          state: hit.provider.locationState ?? undefined,
+          distance: toMiles(hit.provider.distanceKm),
+        },
+        price: hit.provider.hourlyRate ?? 0,
+        currency: hit.provider.currency,
+        priceUnit: "hour",
+        provider: {
+          id: hit.provider.id,
+          name: hit.provider.name,
+          avatar: hit.provider.profileImageUrl ?? undefined,
+          verified: hit.provider.isVerified,
+          rating: hit.provider.averageRating,
+          reviewCount: hit.provider.totalReviews,
+        },
+        categories: categories.get(hit.providerId) ?? [],
+        nextAvailable: hit.provider.nextAvailableAt ? new Date(hit.provider.nextAvailableAt) : undefined,
+        createdAt: new Date(hit.provider.createdAt),
+      };
+
+      return {
+        vertical: "services",
+        listing,
+        categories: listing.categories ?? [],
+        rawScore: hit.totalScore,
+        score: hit.totalScore,
+        signals: { ...hit.normalizedScores, verified: hit.provider.isVerified },
+      };
+    }),
+  };
+}
+
+async function searchEventListings(params: UnifiedSearchParams): Promise<VerticalResult> {
+  const result = await searchEvents({
+    query: params.query,
+    category: params.category,
+    startDateFrom: params.events?.startDate,
+    startDateTo: params.events?.endDate,
+    minPrice: params.minPrice,
+    maxPrice: params.maxPrice,
+    locationType: params.events?.isOnline ? "virtual" : undefined,
+    hasAvailability: params.events?.hasSpots,
+    latitude: params.location?.lat,
+    longitude: params.location?.lng,
+    radiusMiles: params.location?.radiusMiles,
+    sortBy: candidateSort(params.sortBy, { price: "price", distance: "distance", newest: "popularity", fallback: "popularity" }),
+    sortOrder: params.sortBy === "price_high" ? "desc" : "asc",
+    limit: CANDIDATES_PER_VERTICAL,
+  });
+
+  const events = result.events.filter(event =>
+    (!params.providerVerified || event.provider.isVerified) &&
+    (params.instantBooking === undefined || event.instantBooking === params.instantBooking)
+  );
+
+  return {
+    total: result.total - (result.events.length - events.length),
+    hits: events.map(event => {
+      const distance = toMiles(event.distance);
+      const listing: EventListingData = {
+        id: event.id,
+        type: "event",
+        title: event.title,
+        description: event.description ?? undefined,
+        thumbnailUrl: event.coverImageUrl ?? undefined,
+        images: event.galleryImages ?? undefined,
+        location: event.locationType === "virtual"
+          ? undefined
+          : {
+              address: event.address?.street,
+              city: event.address?.city,
+              state: event.address?.state,
+              distance,
+            },
+        price: Number(event.price),
+        currency: event.provider.currency,
+        provider: {
+          id: event.provider.id,
+          name: event.provider.displayName,
+          avatar: event.provider.profileImageUrl ?? undefined,
+          verified: event.provider.isVerified,
+        },
+        startDate: event.startDateTime,
+        endDate: event.endDateTime,
+        eventType: event.eventType,
+        capacity: event.maxAttendees ?? undefined,
+        attendees: event.currentAttendees,
+        spotsLeft: event.availableSpots ?? undefined,
+        isOnline: event.locationType !== "in_person",
+        tags: event.tags ?? undefined,
+        createdAt: event.createdAt,
+        featured: event.isFeatured,
+      };
+
+      const rawScore = scoreListing({
+        title: event.title,
+        text: event.description,
+        popularity: event.viewCount + event.favoriteCount * 2,
+        distanceMiles: distance,
+        featured: event.isFeatured,
+      }, params);
+
+      return { vertical: "events", listing, categories: [event.category], rawScore, score: rawScore, signals: null };
+    }),
+  };
+}
+
+async function searchSpaceListings(params: UnifiedSearchParams): Promise<VerticalResult> {
+  const priceUnit = params.spaces?.priceUnit ?? "hour";
+
+  // Monthly rates can't be filtered in SQL, so they're filtered below
+  const rateFilters: Partial<SearchSpacesFilters> = {};
+  if (priceUnit === "hour") {
+    rateFilters.hourlyRateMin = params.minPrice;
+    rateFilters.hourlyRateMax = params.maxPrice;
+  } else if (priceUnit === "day") {
+    rateFilters.dailyRateMin = params.minPrice;
+    rateFilters.dailyRateMax = params.maxPrice;
+  } else if (priceUnit === "week") {
+    rateFilters.weeklyRateMin = params.minPrice;
+    rateFilters.weeklyRateMax = params.maxPrice;
+  }
+
+  const result = await searchSpaces({
+    ...rateFilters,
+    query: params.query,
+    category: params.category,
+    minCapacity: params.spaces?.minCapacity,
+    maxCapacity: params.spaces?.maxCapacity,
+    minSquareFeet: params.spaces?.minSize,
+    maxSquareFeet: params.spaces?.maxSize,
+    amenities: params.spaces?.amenities,
+    instantBooking: params.instantBooking,
+    verified: params.providerVerified,
+    latitude: params.location?.lat,
+    longitude: params.location?.lng,
+    radiusMiles: params.location?.radiusMiles,
+    availableOn: params.availability,
+    sortBy: candidateSort<NonNullable<SearchSpacesFilters["sortBy"]>>(params.sortBy, {
+      price: priceUnit === "day" ? "price_daily" : "price_hourly",
+      distance: "distance",
+      newest: "created",
+      rating: "rating",
+      fallback: "popularity",
+    }),
+    sortOrder: params.sortBy === "price_low" || params.sortBy === "distance" ? "asc" : "desc",
+    limit: CANDIDATES_PER_VERTICAL,
+  });
+
+  const listings = result.spaces.map(space => {
+    const rates = {
+      hour: space.hourlyRate,
+      day: space.dailyRate,
+      week: space.weeklyRate,
+      month: space.monthlyRate,
+    };
+    return { space, price: rates[priceUnit] === null ? null : Number(rates[priceUnit]) };
+  });
+
+  const matching = listings.filter(({ space, price }) =>
+    price !== null &&
+    (priceUnit !== "month" || (
+      (params.minPrice === undefined || price >= params.minPrice) &&
+      (params.maxPrice === undefined || price <= params.maxPrice)
+    )) &&
+    (!params.minRating || (space.averageRating ?? 0) >= params.minRating)
+  );
+
+  return {
+    total: result.total - (listings.length - matching.length),
+    hits: matching.map(({ space, price }) => {
+      const distance = toMiles(space.distance);
+      const listing: SpaceListingData = {
+        id: space.id,
+        type: "space",
+        title: space.name,
+        description: space.description ?? undefined,
+        thumbnailUrl: space.coverImageUrl ?? undefined,
+        images: space.galleryImages ?? undefined,
+        location: {
+          address: space.address,
+          city: space.city,
+          state: space.state,
+          distance,
+        },
+        price: price ?? 0,
+        currency: space.provider.currency,
+        provider: {
+          id: space.provider.id,
+          name: space.provider.displayName,
+          avatar: space.provider.profileImageUrl ?? undefined,
+          verified: space.provider.isVerified,
+          rating: space.averageRating ?? undefined,
+          reviewCount: space.totalReviews,
+        },
+        size: space.squareFeet ?? undefined,
+        sizeUnit: "sqft",
+        capacity: space.capacity,
+        amenities: space.amenities ?? undefined,
+        priceUnit,
+        createdAt: space.createdAt,
+      };
+
+      const rawScore = scoreListing({
+        title: space.name,
+        text: space.description,
+        popularity: space.viewCount + space.favoriteCount * 2 + space.totalBookings * 5,
+        distanceMiles: distance,
+      }, params);
+
+      return { vertical: "spaces", listing, categories: [space.category], rawScore, score: rawScore, signals: null };
+    }),
+  };
+}
+
+async function searchThingListings(params: UnifiedSearchParams): Promise<VerticalResult> {
+  const result = await searchThings({
+    query: params.query,
+    category: params.category,
+    condition: params.things?.condition ? [params.things.condition] : undefined,
+    brand: params.things?.brand,
+    minPrice: params.minPrice,
+    maxPrice: params.maxPrice,
+    negotiable: params.things?.negotiable,
+    shippingAvailable: params.things?.shippingAvailable,
+    localPickupOnly: params.things?.localPickupOnly,
+    latitude: params.location?.lat,
+    longitude: params.location?.lng,
+    radiusMiles: params.location?.radiusMiles,
+    sortBy: candidateSort(params.sortBy, { price: "price", distance: "distance", newest: "created", fallback: "popularity" }),
+    sortOrder: params.sortBy === "price_low" || params.sortBy === "distance" ? "asc" : "desc",
+    limit: CANDIDATES_PER_VERTICAL,
+  });
+
+  return {
+    total: result.total,
+    hits: result.things.map(thing => {
+      // Things are already measured in miles
+      const distance = thing.distance === null ? undefined : Number(thing.distance);
+      const listing: ThingListingData = {
+        id: thing.id,
+        type: "thing",
+        title: thing.title,
+        description: thing.description,
+        thumbnailUrl: thing.thumbnailUrl ?? undefined,
+        images: thing.images,
+        location: {
+          address: thing.location ?? undefined,
+          city: thing.city ?? undefined,
+          state: thing.state ?? undefined,
+          distance,
+        },
+        price: Number(thing.price),
+        currency: thing.currency,
+        provider: thing.seller
+          ? {
+              id: thing.seller.userId,
+              name: thing.seller.displayName ?? "",
+              avatar: thing.seller.profileImageUrl ?? undefined,
+            }
+          : undefined,
+        condition: thing.condition,
+        brand: thing.brand ?? undefined,
+        model: thing.model ?? undefined,
+        year: thing.yearManufactured ?? undefined,
+        negotiable: thing.negotiable,
+        shippingAvailable: thing.shippingAvailable,
+        localPickupOnly: thing.localPickupOnly,
+        category: thing.category,
+        subcategory: thing.subcategory ?? undefined,
+        createdAt: thing.createdAt,
+        featured: thing.featured,
+        boosted: thing.boosted,
+      };
+
+      const rawScore = scoreListing({
+        title: thing.title,
+        text: [thing.brand, thing.model, thing.description].filter(Boolean).join(" "),
+        popularity: thing.viewCount + thing.favoriteCount * 2 + thing.inquiryCount * 3,
+        distanceMiles: distance,
+        featured: thing.featured,
+      }, params);
+
+      return { vertical: "things", listing, categories: [thing.category], rawScore, score: rawScore, signals: null };
+    }),
+  };
+}
+
+/**
+ * Order a vertical reads its candidates in, so the blended sort sees its best
+ */
+function candidateSort<const T extends string>(
+  sortBy: UnifiedSortOption | undefined,
+  options: { price: T; distance: T; newest: T; rating?: T; fallback: T }
+): T {
+  switch (sortBy) {
+    case "price_low":
+    case "price_high":
+      return options.price;
+    case "distance":
+      return options.distance;
+    case "newest":
+      return options.newest;
+    case "rating":
+      return options.rating ?? options.fallback;
+    default:
+      return options.fallback;
+  }
+}
+
+function searchTerms(query?: string): string[] {
+  return Array.from(new Set((query ?? "").toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []));
+}
+
+// Events and spaces measure distance in kilometres
+function toMiles(distanceKm: number | string | null | undefined): number | undefined {
+  return distanceKm === null || distanceKm === undefined ? undefined : Number(distanceKm) / KM_PER_MILE;
+}
@@ -0,0 +1,271 @@
+/**
+ * Contact Screening Service
+ * Keeps users from taking a deal off-platform before it is paid for.
+ * Messages and Things inquiries are screened before they are stored: phone
+ * numbers, emails, payment handles and messaging-app links are masked and
+ * the attempt is logged for admin review. Users with repeated recent
+ * incidents have such messages blocked instead.
+ *
+ * Once the two users have a paid booking or Things order between them,
+ * contact sharing is unlocked and nothing is screened.
+ */
+
+import { db } from "@/db/db";
+import {
+  bookingsTable,
+  bookingStatus,
+  providersTable,
+  thingOrdersTable,
+  thingOrderStatus,
+  contactScreeningIncidentsTable,
+  type ContactKind,
+  type ContactScreeningIncident,
+} from "@/db/schema";
+import { and, count, desc, eq, gte, inArray, or } from "drizzle-orm";
+import { screenContactDetails, type ContactFinding } from "@/lib/security/contact-screening";
+
+// Incidents within the window that turn masking into blocking
+export const BLOCK_AFTER_INCIDENTS = 3;
+export const INCIDENT_WINDOW_DAYS = 30;
+
+// The customer has paid for these bookings
+const PAID_BOOKING_STATUSES = [
+  bookingStatus.CONFIRMED,
+  bookingStatus.IN_PROGRESS,
+  bookingStatus.COMPLETED,
+];
+
+// The buyer has paid for these orders
+const PAID_ORDER_STATUSES = [
+  thingOrderStatus.PAID,
+  thingOrderStatus.SHIPPED,
+  thingOrderStatus.DELIVERED,
+  thingOrderStatus.RETURN_REQUESTED,
+  thingOrderStatus.DISPUTED,
+  thingOrderStatus.RELEASED,
+];
+
+export type ScreeningAction = "allowed" | "unlocked" | "masked";
+
+export interface ScreeningContext {
+  senderId: string;
+  recipientId: string;
+  source: "message" | "thing_inquiry";
+  conversationId?: string;
+  thingId?: string;
+}
+
+export interface ScreeningOutcome {
+  texts: string[];
+  action: ScreeningAction;
+  kinds: ContactKind[];
+  incidentId?: string;
+}
+
+export type ContactScreeningErrorCode = "CONTACT_BLOCKED" | "NOT_FOUND";
+
+const ERROR_STATUS: Record<ContactScreeningErrorCode, number> = {
+  CONTACT_BLOCKED: 422,
+  NOT_FOUND: 404,
+};
+
+export class ContactScreeningError extends Error {
+  constructor(
+    message: string,
+    public code: ContactScreeningErrorCode
+  ) {
+    super(message);
+    this.name = 'ContactScreeningError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+/**
+ * Main contact screening class
+ */
+export class ContactScreeningService {
+  /**
+   * Screen one or more pieces of text written by the sender. Returns them
+   * masked where needed, in the same order; throws CONTACT_BLOCKED for
+   * repeat offenders.
+   */
+  async screen(context: ScreeningContext, texts: string[]): Promise<ScreeningOutcome> {
+    const results = texts.map(text => screenContactDetails(text));
+    const findings = results.flatMap(result => result.findings);
+
+    if (findings.length === 0) {
+      return { texts, action: "allowed", kinds: [] };
+    }
+
+    if (await this.isContactSharingUnlocked(context.senderId, context.recipientId)) {
+      return { texts, action: "unlocked", kinds: [] };
+    }
+
+    const kinds = [...new Set(findings.map(finding => finding.kind))];
+    // This attempt counts towards the limit too
+    const blocked = await this.recentIncidentCount(context.senderId) + 1 >= BLOCK_AFTER_INCIDENTS;
+    const incident = await this.logIncident(context, blocked ? "blocked" : "masked", findings, texts);
+
+    if (blocked) {
+      throw new ContactScreeningError(
+        "Sharing contact or payment details is not allowed until a booking is paid. " +
+        "Please keep the conversation on the platform.",
+        "CONTACT_BLOCKED"
+      );
+    }
+
+    return {
+      texts: results.map(result => result.masked),
+      action: "masked",
+      kinds,
+      incidentId: incident.id,
+    };
+  }
+
+  /**
+   * Whether the users have a paid booking or Things order between them
+   */
+  async isContactSharingUnlocked(userA: string, userB: string): Promise<boolean> {
+    const [booking] = await db
+      .select({ id: bookingsTable.id })
+      .from(bookingsTable)
+      .innerJoin(providersTable, eq(bookingsTable.providerId, providersTable.id))
+      .where(
+        and(
+          inArray(bookingsTable.status, PAID_BOOKING_STATUSES),
+          or(
+            and(eq(bookingsTable.customerId, userA), eq(providersTable.userId, userB)),
+            and(eq(bookingsTable.customerId, userB), eq(providersTable.userId, userA))
+          )
+        )
+      )
+      .limit(1);
+
+    if (booking) {
+      return true;
+    }
+
+    const [order] = await db
+      .select({ id: thingOrdersTable.id })
+      .from(thingOrdersTable)
+      .where(
+        and(
+          inArray(thingOrdersTable.status, PAID_ORDER_STATUSES),
+          or(
+            and(eq(thingOrdersTable.buyerId, userA), eq(thingOrdersTable.sellerId, userB)),
+            and(eq(thingOrdersTable.buyerId, userB), eq(thingOrdersTable.sellerId, userA))
+          )
+        )
+      )
+      .limit(1);
+
+    return Boolean(order);
+  }
+
+  /**
+   * Incidents for the admin review queue, newest first
+   */
+  async listIncidents(options: {
+    status?: ContactScreeningIncident["status"];
+    userId?: string;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<ContactScreeningIncident[]> {
+    const conditions = [];
+    if (options.status) {
+      conditions.push(eq(contactScreeningIncidentsTable.status, options.status));
+    }
+    if (options.userId) {
+      conditions.push(eq(contactScreeningIncidentsTable.userId, options.userId));
+    }
+
+    return db
+      .select()
+      .from(contactScreeningIncidentsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(contactScreeningIncidentsTable.createdAt))
+      .limit(options.limit ?? 50)
+      .offset(options.offset ?? 0);
+  }
+
+  /**
+   * Record an admin's decision on an incident
+   */
+  async reviewIncident(
+    incidentId: string,
+    adminId: string,
+    decision: { status: "dismissed" | "confirmed"; note?: string }
+  ): Promise<ContactScreeningIncident> {
+    const [incident] = await db
+      .update(contactScreeningIncidentsTable)
+      .set({
+        status: decision.status,
+        reviewNote: decision.note,
+        reviewedBy: adminId,
+        reviewedAt: new Date(),
+      })
+      .where(eq(contactScreeningIncidentsTable.id, incidentId))
+      .returning();
+
+    if (!incident) {
+      throw new ContactScreeningError("Incident not found", "NOT_FOUND");
+    }
+
+    return incident;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  // Dismissed incidents were false positives and do not count
+  private async recentIncidentCount(userId: string): Promise<number> {
+    const since = new Date(Date.now() - INCIDENT_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const [result] = await db
+      .select({ count: count() })
+      .from(contactScreeningIncidentsTable)
+      .where(
+        and(
+          eq(contactScreeningIncidentsTable.userId, userId),
+          gte(contactScreeningIncidentsTable.createdAt, since),
+          inArray(contactScreeningIncidentsTable.status, ["open", "confirmed"])
+        )
+      );
+
+    return Number(result?.count ?? 0);
+  }
+
+  private async logIncident(
+    context: ScreeningContext,
+    action: "masked" | "blocked",
+    findings: ContactFinding[],
+    texts: string[]
+  ): Promise<ContactScreeningIncident> {
+    const [incident] = await db
+      .insert(contactScreeningIncidentsTable)
+      .values({
+        userId: context.senderId,
+        counterpartId: context.recipientId,
+        source: context.source,
+        conversationId: context.conversationId,
+        thingId: context.thingId,
+        action,
+        findings: findings.map(({ kind, value }) => ({ kind, value })),
+        originalContent: texts.join("\n\n"),
+      })
+      .returning();
+
+    console.warn(
+      `Contact screening ${action} ${context.source} from ${context.senderId}: ` +
+      findings.map(finding => finding.kind).join(", ")
+    );
+
+    return incident;
+  }
+}
+
+// Export singleton instance
+export const contactScreeningService = new ContactScreeningService();
@@ -0,0 +1,183 @@
+/**
+ * Contact Detail Screening
+ * Finds phone numbers, email addresses, payment handles and messaging-app
+ * links in free text, including the usual disguises: "john (at) gmail dot
+ * com", "five five five, one two three...", full-width digits, zero-width
+ * characters and HTML tags wedged between digits.
+ *
+ * Text is normalized for matching only. Every normalized character keeps a
+ * pointer back to the original text, so masking replaces exactly what the
+ * user wrote and leaves the rest of the message untouched.
+ */
+
+import { INVISIBLE_CHARACTERS } from "@/lib/security/input-sanitization";
+import type { ContactKind } from "@/db/schema";
+
+export interface ContactFinding {
+  kind: ContactKind;
+  value: string; // Original text of the match
+  start: number;
+  end: number;
+}
+
+export interface ContactScreeningResult {
+  findings: ContactFinding[];
+  masked: string;
+}
+
+export const CONTACT_MASKS: Record<ContactKind, string> = {
+  phone: "[phone number hidden]",
+  email: "[email hidden]",
+  payment_handle: "[payment handle hidden]",
+  messaging_link: "[contact link hidden]",
+};
+
+// Text plus, per character, the original range it came from
+interface MappedText {
+  text: string;
+  starts: number[];
+  ends: number[];
+}
+
+const INVISIBLE = new RegExp(INVISIBLE_CHARACTERS.source);
+const HTML_TAG = /^<[^>]*>/;
+
+const NUMBER_WORDS: Record<string, string> = {
+  zero: "0", one: "1", two: "2", three: "3", four: "4",
+  five: "5", six: "6", seven: "7", eight: "8", nine: "9",
+};
+
+// Rewrites applied, in order, to the text used for matching
+const REWRITES: [RegExp, (match: string) => string][] = [
+  [/\b(zero|one|two|three|four|five|six|seven|eight|nine)\b/gi, word => NUMBER_WORDS[word.toLowerCase()]],
+  [/(?<=\w)\s*(?:[([{<]\s*at\s*[)\]}>]|\bat\b|@)\s*(?=\w)/gi, () => "@"],
+  [/(?<=\w)\s*(?:[([{<]\s*dot\s*[)\]}>]|\bdot\b)\s*(?=\w)/gi, () => "."],
+  [/(?<=@[\w.-]*\w)\s+\.\s*(?=[a-z]{2,}\b)/gi, () => "."],
+];
+
+const DETECTORS: [ContactKind, RegExp][] = [
+  ["email", /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/gi],
+  ["messaging_link", /(?:https?:\/\/)?(?:www\.)?(?:wa\.me|api\.whatsapp\.com|chat\.whatsapp\.com|t\.me|telegram\.me|m\.me|signal\.me|ig\.me|snapchat\.com\/add)\/[\w+\-./?=&#%]+/gi],
+  ["payment_handle", /(?:https?:\/\/)?(?:www\.)?(?:paypal\.me|venmo\.com|cash\.app)\/[\w.$-]+/gi],
+  ["payment_handle", /\b(?:venmo|cash\s?app|zelle|paypal|revolut|wise)\b\W{0,4}(?:(?:me|at|is|on|to)\W{0,3})?[@$][\w.-]{2,}/gi],
+  ["payment_handle", /(?<![\w$])\$[a-z][a-z0-9_]{2,19}\b/gi],
+  ["phone", /(?<![\w+])\+?\d(?:[\s\-.()/]{0,3}\d){6,14}(?!\w)/g],
+];
+
+// Digit runs that are dates, not phone numbers
+const DATE_LIKE = /^\d{4}[-/.]\d{1,2}[-/.]\d{1,2}$|^\d{1,2}[-/.]\d{1,2}[-/.]\d{4}$/;
+
+/**
+ * Character-level cleanup: NFKC (full-width and styled digits become ASCII),
+ * invisible characters and HTML tags dropped
+ */
+function normalizeCharacters(input: string): MappedText {
+  const out: MappedText = { text: "", starts: [], ends: [] };
+  let i = 0;
+
+  while (i < input.length) {
+    if (input[i] === "<") {
+      const tag = HTML_TAG.exec(input.slice(i));
+      if (tag) {
+        i += tag[0].length;
+        continue;
+      }
+    }
+
+    const char = String.fromCodePoint(input.codePointAt(i)!);
+    const next = i + char.length;
+    if (!INVISIBLE.test(char)) {
+      for (const normalized of char.normalize("NFKC")) {
+        for (const unit of normalized) {
+          out.text += unit;
+          out.starts.push(i);
+          out.ends.push(next);
+        }
+      }
+    }
+    i = next;
+  }
+
+  return out;
+}
+
+function rewrite(source: MappedText, pattern: RegExp, replace: (match: string) => string): MappedText {
+  const out: MappedText = { text: "", starts: [], ends: [] };
+  let last = 0;
+
+  const copy = (from: number, to: number) => {
+    out.text += source.text.slice(from, to);
+    out.starts.push(...source.starts.slice(from, to));
+    out.ends.push(...source.ends.slice(from, to));
+  };
+
+  for (const match of source.text.matchAll(pattern)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    copy(last, start);
+
+    const replacement = replace(match[0]);
+    for (const unit of replacement) {
+      out.text += unit;
+      out.starts.push(source.starts[start] ?? source.ends[start - 1] ?? 0);
+      out.ends.push(source.ends[end - 1] ?? source.starts[start] ?? 0);
+    }
+    last = end;
+  }
+
+  copy(last, source.text.length);
+  return out;
+}
+
+/**
+ * The text contact details are matched against, with its map back to the input
+ */
+export function normalizeForScreening(input: string): MappedText {
+  return REWRITES.reduce(
+    (mapped, [pattern, replace]) => rewrite(mapped, pattern, replace),
+    normalizeCharacters(input)
+  );
+}
+
+/**
+ * Find contact details in the text and a copy with each one masked
+ */
+export function screenContactDetails(input: string): ContactScreeningResult {
+  if (!input) {
+    return { findings: [], masked: input };
+  }
+
+  const normalized = normalizeForScreening(input);
+  const spans: { kind: ContactKind; start: number; end: number }[] = [];
+
+  for (const [kind, pattern] of DETECTORS) {
+    for (const match of normalized.text.matchAll(pattern)) {
+      if (kind === "phone" && DATE_LIKE.test(match[0].trim())) {
+        continue;
+      }
+      const from = match.index!;
+      const to = from + match[0].length - 1;
+      spans.push({ kind, start: normalized.starts[from], end: normalized.ends[to] });
+    }
+  }
+
+  // Earliest first; a span inside an earlier one (the phone in an email) is dropped
+  spans.sort((a, b) => a.start - b.start || b.end - a.end);
+  const findings: ContactFinding[] = [];
+  for (const span of spans) {
+    const previous = findings[findings.length - 1];
+    if (previous && span.start < previous.end) {
+      previous.end = Math.max(previous.end, span.end);
+      previous.value = input.slice(previous.start, previous.end);
+      continue;
+    }
+    findings.push({ ...span, value: input.slice(span.start, span.end) });
+  }
+
+  let masked = input;
+  for (const finding of [...findings].reverse()) {
+    masked = masked.slice(0, finding.start) + CONTACT_MASKS[finding.kind] + masked.slice(finding.end);
+  }
+
+  return { findings, masked };
+}
@@ -61,6 +61,20 @@ export function sanitizeText(input: string): string {
   return withoutHtml.trim();
 }
 
+// Zero-width and soft-hyphen characters: invisible, but they split words and
+// numbers so pattern checks miss them
+export const INVISIBLE_CHARACTERS = /[\u00AD\u180E\u200B-\u200F\u2060-\u2064\uFEFF]/g;
+
+/**
+ * Remove invisible characters
+ */
+export function stripInvisibleCharacters(input: string): string {
+  if (typeof input !== 'string') {
+    return '';
+  }
+  return input.replace(INVISIBLE_CHARACTERS, '');
+}
+
 /**
  * Sanitize email addresses
  */
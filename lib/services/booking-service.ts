@@ -14,7 +14,6 @@ import {
   payoutSchedulesTable,
   availabilityCacheTable,
   BookingStatus,
-  VALID_STATUS_TRANSITIONS,
   type CreateBookingRequest,
   type BookingStatusType
 } from "@/db/schema/enhanced-booking-schema";
@@ -25,6 +24,14 @@ import { createPaymentIntentWithIdempotency } from "@/lib/stripe-enhanced";
 import { cache, BookingCache } from "@/lib/cache";
 import { emailService } from "@/lib/services/email-service";
 import Stripe from "stripe";
+import {
+  bookingStateEngine,
+  BookingTransitionError,
+  CANCELED_STATES,
+  initialBookingState,
+  type TransitionActor
+} from "@/lib/booking-state-machine";
+import { cancellationPolicyService } from "@/lib/bookings/cancellation-policy-service";
 
 export class BookingConflictError extends Error {
   constructor(
@@ -58,6 +65,7 @@ export class BookingService {
     try {
       // Validate the booking request
       await this.validateBookingRequest(request);
+      const cancellationPolicy = await cancellationPolicyService.policyForListing(request);
       
       // Create booking within transaction for atomicity
       const booking = await db.transaction(async (tx) => {
@@ -106,9 +114,10 @@ export class BookingService {
             
             // Notes
             customerNotes: request.customerNotes,
+            cancellationPolicy,
             
             // Status
-            status: BookingStatus.PENDING,
+            ...initialBookingState(BookingStatus.PENDING_PROVIDER),
           })
           .returning();
           
@@ -116,7 +125,7 @@ export class BookingService {
         await tx.insert(bookingStateTransitionsTable).values({
           bookingId: newBooking.id,
           fromStatus: null,
-          toStatus: BookingStatus.PENDING,
+          toStatus: BookingStatus.PENDING_PROVIDER,
           triggeredBy: request.customerId || 'guest',
           triggerReason: 'booking_created',
           metadata: {
@@ -177,7 +186,7 @@ export class BookingService {
   }
   
   /**
-   * Update booking status with proper state machine validation
+   * Update booking status through the booking state engine
    */
   async updateBookingStatus(
     bookingId: string,
@@ -186,56 +195,36 @@ export class BookingService {
     reason?: string,
     metadata?: Record<string, any>
   ): Promise<void> {
-    await db.transaction(async (tx) => {
-      // Get current booking
-      const [booking] = await tx
-        .select()
-        .from(bookingsTable)
-        .where(eq(bookingsTable.id, bookingId))
-        .limit(1);
-        
-      if (!booking) {
-        throw new Error('Booking not found');
-      }
+    const [booking] = await db
+      .select()
+      .from(bookingsTable)
+      .where(eq(bookingsTable.id, bookingId))
+      .limit(1);
       
-      // Validate state transition
-      const validTransitions = VALID_STATUS_TRANSITIONS[booking.status as BookingStatusType];
-      if (!validTransitions.includes(newStatus)) {
-        throw new BookingValidationError(
-          `Invalid status transition from ${booking.status} to ${newStatus}`,
-          'status',
-          'INVALID_TRANSITION'
-        );
+    if (!booking) {
+      throw new Error('Booking not found');
+    }
+    
+    const actor: TransitionActor = triggeredBy === 'system'
+      ? { type: 'system', id: 'system' }
+      : await bookingStateEngine.resolveActor(booking, triggeredBy);
+    
+    // Cancellations are recorded against the side that asked for them
+    const target = CANCELED_STATES.includes(newStatus)
+      ? (actor.type === 'provider' ? BookingStatus.CANCELED_PROVIDER : BookingStatus.CANCELED_CUSTOMER)
+      : newStatus;
+    
+    try {
+      await bookingStateEngine.moveTo(bookingId, target, actor, { reason, metadata });
+    } catch (error) {
+      if (error instanceof BookingTransitionError && error.code === 'INVALID_TRANSITION') {
+        throw new BookingValidationError(error.message, 'status', 'INVALID_TRANSITION');
       }
-      
-      // Update booking status
-      await tx
-        .update(bookingsTable)
-        .set({ 
-          status: newStatus,
-          updatedAt: new Date(),
-          ...(newStatus === BookingStatus.COMPLETED && { completedAt: new Date() }),
-          ...(newStatus === BookingStatus.CANCELLED && { 
-            cancelledAt: new Date(),
-            cancelledBy: triggeredBy,
-            cancellationReason: reason 
-          })
-        })
-        .where(eq(bookingsTable.id, bookingId));
-        
-      // Create state transition record
-      await tx.insert(bookingStateTransitionsTable).values({
-        bookingId,
-        fromStatus: booking.status,
-        toStatus: newStatus,
-        triggeredBy,
-        triggerReason: reason,
-        metadata: metadata || {}
-      });
-      
-      // Handle side effects based on new status
-      await this.handleStatusSideEffects(tx, booking, newStatus, triggeredBy);
-    });
+      throw error;
+    }
+    
+    // Handle side effects based on new status
+    await this.handleStatusSideEffects(db, booking, target, triggeredBy);
     
     // Invalidate caches
     await this.invalidateBookingCaches(bookingId, new Date());
@@ -262,7 +251,7 @@ export class BookingService {
     
     await this.updateBookingStatus(
       bookingId,
-      BookingStatus.CANCELLED,
+      BookingStatus.CANCELED_CUSTOMER,
       cancelledBy,
       reason,
       { refundAmount: calculatedRefundAmount }
@@ -534,8 +523,10 @@ export class BookingService {
         await this.scheduleProviderPayout(tx, booking);
         break;
         
-      case BookingStatus.CANCELLED:
-      case BookingStatus.NO_SHOW:
+      case BookingStatus.CANCELED_CUSTOMER:
+      case BookingStatus.CANCELED_PROVIDER:
+      case BookingStatus.NO_SHOW_CUSTOMER:
+      case BookingStatus.NO_SHOW_PROVIDER:
         // Release the time slot
         await tx
           .update(availabilityCacheTable)
@@ -558,7 +549,8 @@ export class BookingService {
       providerId: booking.providerId,
       amount: booking.totalAmount,
       platformFee: booking.platformFee,
-      netPayout: booking.providerPayout,
+      // Collected tax is passed through to the provider
+      netPayout: (parseFloat(booking.providerPayout) + parseFloat(booking.taxAmount || "0")).toFixed(2),
       scheduledAt: payoutDate,
       status: 'scheduled'
     });
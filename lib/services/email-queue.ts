@@ -71,6 +71,7 @@ export enum EmailTemplate {
   PROVIDER_ACCEPTANCE = 'provider_acceptance',
   NO_SHOW_NOTIFICATION = 'no_show_notification',
   DISPUTE_NOTIFICATION = 'dispute_notification',
+  SAVED_SEARCH_DIGEST = 'saved_search_digest',
 }
 
 // Processing result interface
@@ -355,6 +356,16 @@ class EmailQueueService {
         );
         break;
       
+      case EmailTemplate.SAVED_SEARCH_DIGEST:
+        await emailService.sendSavedSearchDigest(
+          Array.isArray(to) ? to[0] : to,
+          data.name,
+          data.searchName,
+          data.listings,
+          data.searchUrl
+        );
+        break;
+      
       default:
         throw new Error(`Unknown email template: ${template}`);
     }
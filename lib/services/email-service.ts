@@ -1147,6 +1147,68 @@ export async function sendDisputeNotification(
   });
 }
 
+/**
+ * Send new listings matching a saved search
+ */
+export async function sendSavedSearchDigest(
+  email: string,
+  name: string,
+  searchName: string,
+  listings: Array<{ title: string; vertical: string; url: string; price?: number | null }>,
+  searchUrl: string
+) {
+  const listingRows = listings.map(listing => `
+              <div class="listing">
+                <a href="${EMAIL_CONFIG.appUrl}${listing.url}"><strong>${listing.title}</strong></a>
+                <p>${listing.vertical}${listing.price != null ? ` · from $${listing.price.toFixed(2)}` : ''}</p>
+              </div>`).join('');
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #007bff; color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+          .listing { background: white; padding: 15px; border-radius: 5px; margin: 10px 0; }
+          .listing p { margin: 5px 0 0; color: #666; text-transform: capitalize; }
+          .button { display: inline-block; padding: 12px 30px; background: #007bff; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .footer { text-align: center; color: #666; font-size: 12px; margin-top: 30px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>New matches for "${searchName}"</h1>
+          </div>
+          <div class="content">
+            <p>Hi ${name},</p>
+            <p>${listings.length} new ${listings.length === 1 ? 'listing matches' : 'listings match'} your saved search.</p>
+            ${listingRows}
+
+            <center>
+              <a href="${EMAIL_CONFIG.appUrl}${searchUrl}" class="button">See All Results</a>
+            </center>
+
+            <p>You can change how often you hear about this search, or stop these alerts, under Saved Searches in your account.</p>
+          </div>
+          <div class="footer">
+            <p>${EMAIL_CONFIG.appName} - Your trusted marketplace</p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: email,
+    subject: `${listings.length} new ${listings.length === 1 ? 'match' : 'matches'} for "${searchName}"`,
+    html,
+  });
+}
+
 // Export the service instance for direct use
 export const emailService = {
   send: sendEmail,
@@ -1163,4 +1225,5 @@ export const emailService = {
   sendProviderAcceptanceNotification,
   sendNoShowNotification,
   sendDisputeNotification,
+  sendSavedSearchDigest,
 };
\ No newline at end of file
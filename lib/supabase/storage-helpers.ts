@@ -19,6 +19,8 @@ export const STORAGE_BUCKETS = {
   PROVIDER_PROFILES: 'provider-profiles',
   PROVIDER_COVERS: 'provider-covers',
   PROVIDER_GALLERIES: 'provider-galleries',
+  MESSAGE_ATTACHMENTS: 'message-attachments', // Private; served through signed URLs
+  REVIEW_PHOTOS: 'review-photos',
 } as const
 
 export type StorageBucket = typeof STORAGE_BUCKETS[keyof typeof STORAGE_BUCKETS]
@@ -28,6 +30,8 @@ export const FILE_SIZE_LIMITS = {
   PROFILE_IMAGE: 5 * 1024 * 1024, // 5MB
   COVER_IMAGE: 5 * 1024 * 1024, // 5MB
   GALLERY_IMAGE: 10 * 1024 * 1024, // 10MB
+  MESSAGE_ATTACHMENT: 10 * 1024 * 1024, // 10MB
+  REVIEW_PHOTO: 10 * 1024 * 1024, // 10MB
 } as const
 
 // Allowed MIME types
@@ -476,4 +480,134 @@ export function getThumbnailUrl(
   // Supabase supports image transformations via URL parameters
   // This requires enabling the Image Transformation extension in Supabase
   return `${publicUrl}?width=${width}&height=${height}&resize=contain`
-}
\ No newline at end of file
+}
+
+/**
+ * Generate a storage path for a conversation attachment
+ * @param conversationId - The conversation the file is shared in
+ * @param fileName - Sanitized original file name
+ */
+export function generateMessageAttachmentPath(conversationId: string, fileName: string): string {
+  const timestamp = Date.now()
+  const random = Math.random().toString(36).slice(2, 10)
+  return `${conversationId}/${timestamp}-${random}-${fileName}`
+}
+
+/**
+ * Upload a validated conversation attachment to the private bucket
+ * @param data - File contents
+ * @param path - Path from generateMessageAttachmentPath
+ * @param contentType - MIME type detected from the contents
+ */
+export async function uploadMessageAttachment(
+  data: Buffer,
+  path: string,
+  contentType: string
+): Promise<void> {
+  const supabase = createServiceClient()
+
+  const { error } = await supabase.storage
+    .from(STORAGE_BUCKETS.MESSAGE_ATTACHMENTS)
+    .upload(path, data, {
+      upsert: false,
+      cacheControl: '3600',
+      contentType,
+    })
+
+  if (error) {
+    throw new StorageError('Failed to upload attachment', 'UPLOAD_FAILED', error)
+  }
+}
+
+/**
+ * Generate a storage path for a review photo
+ * @param reviewId - The review the photo belongs to
+ * @param fileName - Sanitized original file name
+ */
+export function generateReviewPhotoPath(reviewId: string, fileName: string): string {
+  const timestamp = Date.now()
+  const random = Math.random().toString(36).slice(2, 10)
+  return `${reviewId}/${timestamp}-${random}-${fileName}`
+}
+
+/**
+ * Upload a validated review photo to the public bucket
+ * @param data - File contents
+ * @param path - Path from generateReviewPhotoPath
+ * @param contentType - MIME type detected from the contents
+ * @returns Public URL of the photo
+ */
+export async function uploadReviewPhoto(
+  data: Buffer,
+  path: string,
+  contentType: string
+): Promise<string> {
+  const supabase = createServiceClient()
+
+  const { error } = await supabase.storage
+    .from(STORAGE_BUCKETS.REVIEW_PHOTOS)
+    .upload(path, data, {
+      upsert: false,
+      cacheControl: '3600',
+      contentType,
+    })
+
+  if (error) {
+    throw new StorageError('Failed to upload review photo', 'UPLOAD_FAILED', error)
+  }
+
+  return getPublicUrl(STORAGE_BUCKETS.REVIEW_PHOTOS, path)
+}
+
+/**
+ * Signed URLs for conversation attachments, keyed by storage path
+ * @param paths - Storage paths in the message-attachments bucket
+ * @param expiresIn - Expiration time in seconds (default: 1 hour)
+ */
+export async function getSignedAttachmentUrls(
+  paths: string[],
+  expiresIn: number = 3600
+): Promise<Record<string, string>> {
+  if (paths.length === 0) {
+    return {}
+  }
+
+  const supabase = createServiceClient()
+
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKETS.MESSAGE_ATTACHMENTS)
+    .createSignedUrls(paths, expiresIn)
+
+  if (error) {
+    throw error
+  }
+
+  const urls: Record<string, string> = {}
+  for (const entry of data) {
+    if (entry.path && entry.signedUrl) {
+      urls[entry.path] = entry.signedUrl
+    }
+  }
+
+  return urls
+}
+
+/**
+ * Delete conversation attachments from the private bucket
+ * @param paths - Storage paths to delete
+ */
+export async function deleteMessageAttachments(paths: string[]): Promise<void> {
+  if (paths.length === 0) {
+    return
+  }
+
+  const supabase = createServiceClient()
+
+  const { error } = await supabase.storage
+    .from(STORAGE_BUCKETS.MESSAGE_ATTACHMENTS)
+    .remove(paths)
+
+  if (error) {
+    throw new StorageError('Failed to delete attachments', 'DELETE_FAILED', error)
+  }
+}
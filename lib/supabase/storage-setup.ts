@@ -6,6 +6,7 @@
  * - provider-profiles: Profile images (5MB limit)
  * - provider-covers: Cover/banner images (5MB limit)
  * - provider-galleries: Portfolio images (10MB limit)
+ * - message-attachments: Private conversation images and files (10MB limit)
  * 
  * Security: RLS policies ensure providers can only modify their own images
  */
@@ -45,6 +46,18 @@ const BUCKET_CONFIGS: BucketConfig[] = [
     allowedMimeTypes: ['image/png', 'image/jpeg', 'image/jpg', 'image/webp'],
     description: 'Provider portfolio/gallery images',
   },
+  {
+    name: 'message-attachments',
+    public: false,
+    fileSizeLimit: 10485760, // 10MB
+    allowedMimeTypes: [
+      'image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/heic',
+      'application/pdf', 'text/plain', 'text/csv',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ],
+    description: 'Conversation attachments',
+  },
 ]
 
 /**
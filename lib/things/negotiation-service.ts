@@ -0,0 +1,822 @@
+/**
+ * Thing Negotiation Service
+ * Offer / counter-offer threads between a buyer and the seller of a Things
+ * listing. Parties take turns: one offer is pending at a time, it lapses at
+ * its expiry, and only the other party can accept, decline or counter it.
+ *
+ * Accepting an offer reserves the listing for the buyer at the agreed
+ * price, returns a checkout for /api/things/[id]/purchase and declines
+ * every competing thread. A reservation the buyer has not checked out
+ * within CHECKOUT_WINDOW_HOURS is released by the thing-offers cron.
+ */
+
+import { db } from "@/db/db";
+import {
+  thingsTable,
+  thingNegotiationsTable,
+  thingOffersTable,
+  thingNegotiationStatus,
+  thingOfferStatus,
+  type ThingNegotiation,
+  type ThingOffer,
+} from "@/db/schema";
+import { and, asc, desc, eq, inArray, isNull, lte, ne } from "drizzle-orm";
+import { normalizeCurrency } from "@/lib/payments/currency";
+import { notificationService } from "@/lib/notifications/notification-service";
+import { contactScreeningService } from "@/lib/security/contact-screening-service";
+
+const DEFAULT_OFFER_HOURS = 48;
+const MAX_OFFER_HOURS = 7 * 24;
+export const CHECKOUT_WINDOW_HOURS = 24;
+const EXPIRY_BATCH_SIZE = 100;
+
+const COMPETING_OFFER_REASON = "The seller accepted another offer";
+
+export type NegotiationRole = "buyer" | "seller";
+
+export interface MakeOfferParams {
+  amount: number;
+  message?: string;
+  expiresInHours?: number;
+}
+
+export interface OfferCheckout {
+  url: string; // POST with { negotiationId } to buy at the agreed price
+  method: "POST";
+  negotiationId: string;
+  amount: number;
+  currency: string;
+  expiresAt: Date;
+}
+
+export interface NegotiationThread {
+  negotiation: ThingNegotiation;
+  offers: ThingOffer[];
+  checkout: OfferCheckout | null;
+}
+
+export interface ExpireNegotiationsResult {
+  offersExpired: number;
+  reservationsReleased: number;
+}
+
+type NegotiableThing = {
+  id: string;
+  title: string;
+  price: string;
+  currency: string;
+  status: string;
+  negotiable: boolean;
+  sellerId: string;
+};
+
+export type NegotiationErrorCode =
+  | "NOT_FOUND"
+  | "FORBIDDEN"
+  | "OWN_LISTING"
+  | "NOT_NEGOTIABLE"
+  | "ITEM_UNAVAILABLE"
+  | "INVALID_AMOUNT"
+  | "NOT_YOUR_TURN"
+  | "NO_PENDING_OFFER"
+  | "OFFER_EXPIRED"
+  | "THREAD_CLOSED"
+  | "CHECKOUT_EXPIRED";
+
+const ERROR_STATUS: Record<NegotiationErrorCode, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  OWN_LISTING: 400,
+  NOT_NEGOTIABLE: 400,
+  ITEM_UNAVAILABLE: 409,
+  INVALID_AMOUNT: 400,
+  NOT_YOUR_TURN: 409,
+  NO_PENDING_OFFER: 409,
+  OFFER_EXPIRED: 410,
+  THREAD_CLOSED: 409,
+  CHECKOUT_EXPIRED: 410,
+};
+
+export class NegotiationError extends Error {
+  constructor(
+    message: string,
+    public code: NegotiationErrorCode
+  ) {
+    super(message);
+    this.name = 'NegotiationError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+/**
+ * When an offer made at `now` lapses; defaults to 48 hours, capped at a week
+ */
+export function offerExpiresAt(now: Date, expiresInHours: number = DEFAULT_OFFER_HOURS): Date {
+  const hours = Math.min(Math.max(expiresInHours, 1), MAX_OFFER_HOURS);
+  return new Date(now.getTime() + hours * 60 * 60 * 1000);
+}
+
+/**
+ * Offers are positive and never above the asking price
+ */
+export function validateOfferAmount(amount: number, listingPrice: number): void {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new NegotiationError("Offer amount must be greater than zero", "INVALID_AMOUNT");
+  }
+  if (amount > listingPrice) {
+    throw new NegotiationError("Offer cannot be above the asking price", "INVALID_AMOUNT");
+  }
+}
+
+export function roleOf(negotiation: Pick<ThingNegotiation, "buyerId" | "sellerId">, userId: string): NegotiationRole | null {
+  if (negotiation.buyerId === userId) return "buyer";
+  if (negotiation.sellerId === userId) return "seller";
+  return null;
+}
+
+/**
+ * The pending offer `userId` may accept, decline or counter at `now`
+ */
+export function respondableOffer(
+  negotiation: Pick<ThingNegotiation, "status">,
+  offers: ThingOffer[],
+  userId: string,
+  now: Date
+): ThingOffer {
+  if (negotiation.status !== thingNegotiationStatus.OPEN) {
+    throw new NegotiationError("This negotiation is closed", "THREAD_CLOSED");
+  }
+
+  const pending = offers.find(o => o.status === thingOfferStatus.PENDING);
+  if (!pending) {
+    throw new NegotiationError("There is no offer awaiting a response", "NO_PENDING_OFFER");
+  }
+  if (pending.fromUserId === userId) {
+    throw new NegotiationError("Your offer is awaiting the other party", "NOT_YOUR_TURN");
+  }
+  if (pending.expiresAt <= now) {
+    throw new NegotiationError("This offer has expired", "OFFER_EXPIRED");
+  }
+
+  return pending;
+}
+
+/**
+ * Checkout for an accepted negotiation that has not been bought yet
+ */
+export function checkoutFor(negotiation: ThingNegotiation, currency: string): OfferCheckout | null {
+  if (
+    negotiation.status !== thingNegotiationStatus.ACCEPTED ||
+    !negotiation.agreedAmount ||
+    !negotiation.checkoutExpiresAt
+  ) {
+    return null;
+  }
+
+  return {
+    url: `/api/things/${negotiation.thingId}/purchase`,
+    method: "POST",
+    negotiationId: negotiation.id,
+    amount: parseFloat(negotiation.agreedAmount),
+    currency: normalizeCurrency(currency),
+    expiresAt: negotiation.checkoutExpiresAt,
+  };
+}
+
+/**
+ * Main thing negotiation class
+ */
+export class ThingNegotiationService {
+  /**
+   * Buyer makes an offer, opening a thread or answering the seller's counter
+   */
+  async makeOffer(thingId: string, buyerId: string, params: MakeOfferParams): Promise<NegotiationThread> {
+    const thing = await this.getThing(thingId);
+
+    if (thing.sellerId === buyerId) {
+      throw new NegotiationError("You cannot make an offer on your own listing", "OWN_LISTING");
+    }
+    if (!thing.negotiable) {
+      throw new NegotiationError("The seller is not accepting offers on this listing", "NOT_NEGOTIABLE");
+    }
+    if (thing.status !== "active") {
+      throw new NegotiationError("This item is no longer available", "ITEM_UNAVAILABLE");
+    }
+    validateOfferAmount(params.amount, parseFloat(thing.price));
+    const message = await this.screenOfferMessage(params.message, buyerId, thing.sellerId, thingId);
+
+    const now = new Date();
+    const { negotiation, offer, isCounter } = await db.transaction(async (tx) => {
+      let [negotiation] = await tx
+        .select()
+        .from(thingNegotiationsTable)
+        .where(
+          and(
+            eq(thingNegotiationsTable.thingId, thingId),
+            eq(thingNegotiationsTable.buyerId, buyerId),
+            inArray(thingNegotiationsTable.status, [thingNegotiationStatus.OPEN, thingNegotiationStatus.ACCEPTED])
+          )
+        )
+        .for("update")
+        .limit(1);
+
+      if (negotiation?.status === thingNegotiationStatus.ACCEPTED) {
+        throw new NegotiationError("Your offer on this item was already accepted", "THREAD_CLOSED");
+      }
+
+      let isCounter = false;
+      if (!negotiation) {
+        [negotiation] = await tx
+          .insert(thingNegotiationsTable)
+          .values({ thingId, buyerId, sellerId: thing.sellerId })
+          .returning();
+      } else {
+        const [pending] = await tx
+          .select()
+          .from(thingOffersTable)
+          .where(
+            and(
+              eq(thingOffersTable.negotiationId, negotiation.id),
+              eq(thingOffersTable.status, thingOfferStatus.PENDING)
+            )
+          )
+          .limit(1);
+
+        if (pending) {
+          const lapsed = pending.expiresAt <= now;
+          if (pending.fromRole === "buyer" && !lapsed) {
+            throw new NegotiationError("Your last offer is still awaiting the seller", "NOT_YOUR_TURN");
+          }
+
+          // A new buyer offer replaces their lapsed one or answers the seller's counter
+          isCounter = pending.fromRole === "seller" && !lapsed;
+          await tx
+            .update(thingOffersTable)
+            .set({ status: isCounter ? thingOfferStatus.COUNTERED : thingOfferStatus.EXPIRED, respondedAt: now })
+            .where(eq(thingOffersTable.id, pending.id));
+        }
+
+        await tx
+          .update(thingNegotiationsTable)
+          .set({ updatedAt: now })
+          .where(eq(thingNegotiationsTable.id, negotiation.id));
+      }
+
+      const [offer] = await tx
+        .insert(thingOffersTable)
+        .values({
+          negotiationId: negotiation.id,
+          fromUserId: buyerId,
+          fromRole: "buyer",
+          amount: params.amount.toFixed(2),
+          message,
+          expiresAt: offerExpiresAt(now, params.expiresInHours),
+        })
+        .returning();
+
+      return { negotiation, offer, isCounter };
+    });
+
+    await this.notifyOffer(thing, negotiation, offer, thing.sellerId, isCounter);
+
+    return await this.getThread(negotiation.id, buyerId);
+  }
+
+  /**
+   * Answer the other party's pending offer with a new amount
+   */
+  async counter(negotiationId: string, userId: string, params: MakeOfferParams): Promise<NegotiationThread> {
+    const { negotiation, offers, thing, role } = await this.loadForParty(negotiationId, userId);
+    const now = new Date();
+    const pending = respondableOffer(negotiation, offers, userId, now);
+
+    if (thing.status !== "active") {
+      throw new NegotiationError("This item is no longer available", "ITEM_UNAVAILABLE");
+    }
+    validateOfferAmount(params.amount, parseFloat(thing.price));
+    const message = await this.screenOfferMessage(params.message, userId, pending.fromUserId, thing.id);
+
+    const offer = await db.transaction(async (tx) => {
+      const [countered] = await tx
+        .update(thingOffersTable)
+        .set({ status: thingOfferStatus.COUNTERED, respondedAt: now })
+        .where(and(eq(thingOffersTable.id, pending.id), eq(thingOffersTable.status, thingOfferStatus.PENDING)))
+        .returning({ id: thingOffersTable.id });
+
+      if (!countered) {
+        throw new NegotiationError("There is no offer awaiting a response", "NO_PENDING_OFFER");
+      }
+
+      await tx
+        .update(thingNegotiationsTable)
+        .set({ updatedAt: now })
+        .where(eq(thingNegotiationsTable.id, negotiation.id));
+
+      const [offer] = await tx
+        .insert(thingOffersTable)
+        .values({
+          negotiationId: negotiation.id,
+          fromUserId: userId,
+          fromRole: role,
+          amount: params.amount.toFixed(2),
+          message,
+          expiresAt: offerExpiresAt(now, params.expiresInHours),
+        })
+        .returning();
+
+      return offer;
+    });
+
+    await this.notifyOffer(thing, negotiation, offer, pending.fromUserId, true);
+
+    return await this.getThread(negotiationId, userId);
+  }
+
+  /**
+   * Accept the other party's pending offer, reserving the item for the buyer
+   */
+  async accept(negotiationId: string, userId: string): Promise<NegotiationThread> {
+    const { negotiation, offers, thing } = await this.loadForParty(negotiationId, userId);
+    const now = new Date();
+    const pending = respondableOffer(negotiation, offers, userId, now);
+    const checkoutExpiresAt = new Date(now.getTime() + CHECKOUT_WINDOW_HOURS * 60 * 60 * 1000);
+
+    const { accepted, competing } = await db.transaction(async (tx) => {
+      const [listing] = await tx
+        .select({ status: thingsTable.status })
+        .from(thingsTable)
+        .where(eq(thingsTable.id, thing.id))
+        .for("update")
+        .limit(1);
+
+      if (!listing || listing.status !== "active") {
+        throw new NegotiationError("This item is no longer available", "ITEM_UNAVAILABLE");
+      }
+
+      const [offer] = await tx
+        .update(thingOffersTable)
+        .set({ status: thingOfferStatus.ACCEPTED, respondedAt: now })
+        .where(and(eq(thingOffersTable.id, pending.id), eq(thingOffersTable.status, thingOfferStatus.PENDING)))
+        .returning();
+
+      if (!offer) {
+        throw new NegotiationError("There is no offer awaiting a response", "NO_PENDING_OFFER");
+      }
+
+      const [accepted] = await tx
+        .update(thingNegotiationsTable)
+        .set({
+          status: thingNegotiationStatus.ACCEPTED,
+          agreedAmount: offer.amount,
+          acceptedOfferId: offer.id,
+          acceptedAt: now,
+          checkoutExpiresAt,
+          updatedAt: now,
+        })
+        .where(eq(thingNegotiationsTable.id, negotiation.id))
+        .returning();
+
+      await tx
+        .update(thingsTable)
+        .set({ status: "reserved", updatedAt: now })
+        .where(eq(thingsTable.id, thing.id));
+
+      // Every other live thread on the listing loses
+      const competing = await tx
+        .update(thingNegotiationsTable)
+        .set({
+          status: thingNegotiationStatus.DECLINED,
+          closedReason: COMPETING_OFFER_REASON,
+          updatedAt: now,
+        })
+        .where(
+          and(
+            eq(thingNegotiationsTable.thingId, thing.id),
+            eq(thingNegotiationsTable.status, thingNegotiationStatus.OPEN),
+            ne(thingNegotiationsTable.id, negotiation.id)
+          )
+        )
+        .returning();
+
+      if (competing.length > 0) {
+        await tx
+          .update(thingOffersTable)
+          .set({ status: thingOfferStatus.DECLINED, respondedAt: now })
+          .where(
+            and(
+              inArray(thingOffersTable.negotiationId, competing.map(n => n.id)),
+              eq(thingOffersTable.status, thingOfferStatus.PENDING)
+            )
+          );
+      }
+
+      return { accepted, competing };
+    });
+
+    try {
+      for (const party of [accepted.buyerId, accepted.sellerId]) {
+        await notificationService.sendThingOfferAcceptedNotification({
+          negotiationId: accepted.id,
+          thingId: thing.id,
+          recipientId: party,
+          thingTitle: thing.title,
+          amount: parseFloat(accepted.agreedAmount!),
+          currency: normalizeCurrency(thing.currency),
+          checkoutExpiresAt,
+          isBuyer: party === accepted.buyerId,
+        });
+      }
+      for (const lost of competing) {
+        await notificationService.sendThingOfferClosedNotification({
+          negotiationId: lost.id,
+          thingId: thing.id,
+          recipientId: lost.buyerId,
+          thingTitle: thing.title,
+          reason: COMPETING_OFFER_REASON,
+        });
+      }
+    } catch (error) {
+      console.error(`Error sending offer accepted notifications for negotiation ${negotiationId}:`, error);
+    }
+
+    return await this.getThread(negotiationId, userId);
+  }
+
+  /**
+   * Decline the other party's pending offer, closing the thread
+   */
+  async decline(negotiationId: string, userId: string, note?: string): Promise<NegotiationThread> {
+    const { negotiation, offers, thing } = await this.loadForParty(negotiationId, userId);
+    const now = new Date();
+    const pending = respondableOffer(negotiation, offers, userId, now);
+    const reason = note || "Offer declined";
+
+    await db.transaction(async (tx) => {
+      const [declined] = await tx
+        .update(thingOffersTable)
+        .set({ status: thingOfferStatus.DECLINED, respondedAt: now })
+        .where(and(eq(thingOffersTable.id, pending.id), eq(thingOffersTable.status, thingOfferStatus.PENDING)))
+        .returning({ id: thingOffersTable.id });
+
+      if (!declined) {
+        throw new NegotiationError("There is no offer awaiting a response", "NO_PENDING_OFFER");
+      }
+
+      await tx
+        .update(thingNegotiationsTable)
+        .set({ status: thingNegotiationStatus.DECLINED, closedReason: reason, updatedAt: now })
+        .where(eq(thingNegotiationsTable.id, negotiation.id));
+    });
+
+    await this.notifyClosed(thing, negotiation, pending.fromUserId, reason);
+
+    return await this.getThread(negotiationId, userId);
+  }
+
+  /**
+   * Either party walks away; an accepted but unpaid deal releases the item
+   */
+  async withdraw(negotiationId: string, userId: string): Promise<NegotiationThread> {
+    const { negotiation, thing, role } = await this.loadForParty(negotiationId, userId);
+    const now = new Date();
+    const isUnpaidDeal = negotiation.status === thingNegotiationStatus.ACCEPTED && !negotiation.bookingId;
+
+    if (negotiation.status !== thingNegotiationStatus.OPEN && !isUnpaidDeal) {
+      throw new NegotiationError("This negotiation is closed", "THREAD_CLOSED");
+    }
+
+    const reason = role === "buyer" ? "The buyer withdrew" : "The seller withdrew";
+
+    await db.transaction(async (tx) => {
+      const [withdrawn] = await tx
+        .update(thingNegotiationsTable)
+        .set({ status: thingNegotiationStatus.WITHDRAWN, closedReason: reason, updatedAt: now })
+        .where(
+          and(
+            eq(thingNegotiationsTable.id, negotiation.id),
+            eq(thingNegotiationsTable.status, negotiation.status),
+            isNull(thingNegotiationsTable.bookingId)
+          )
+        )
+        .returning({ id: thingNegotiationsTable.id });
+
+      if (!withdrawn) {
+        throw new NegotiationError("This negotiation is closed", "THREAD_CLOSED");
+      }
+
+      await tx
+        .update(thingOffersTable)
+        .set({ status: thingOfferStatus.WITHDRAWN, respondedAt: now })
+        .where(
+          and(
+            eq(thingOffersTable.negotiationId, negotiation.id),
+            eq(thingOffersTable.status, thingOfferStatus.PENDING)
+          )
+        );
+
+      if (isUnpaidDeal) {
+        await this.releaseReservation(tx, thing.id, now);
+      }
+    });
+
+    const otherParty = role === "buyer" ? negotiation.sellerId : negotiation.buyerId;
+    await this.notifyClosed(thing, negotiation, otherParty, reason);
+
+    return await this.getThread(negotiationId, userId);
+  }
+
+  /**
+   * One thread with its offers, for either party
+   */
+  async getThread(negotiationId: string, userId: string): Promise<NegotiationThread> {
+    const { negotiation, offers, thing } = await this.loadForParty(negotiationId, userId);
+    return { negotiation, offers, checkout: checkoutFor(negotiation, thing.currency) };
+  }
+
+  /**
+   * Threads on a listing: all of them for the seller, the buyer's own otherwise
+   */
+  async listForThing(thingId: string, userId: string): Promise<NegotiationThread[]> {
+    const thing = await this.getThing(thingId);
+
+    const negotiations = await db
+      .select()
+      .from(thingNegotiationsTable)
+      .where(
+        and(
+          eq(thingNegotiationsTable.thingId, thingId),
+          thing.sellerId === userId ? undefined : eq(thingNegotiationsTable.buyerId, userId)
+        )
+      )
+      .orderBy(desc(thingNegotiationsTable.updatedAt));
+
+    if (negotiations.length === 0) {
+      return [];
+    }
+
+    const offers = await db
+      .select()
+      .from(thingOffersTable)
+      .where(inArray(thingOffersTable.negotiationId, negotiations.map(n => n.id)))
+      .orderBy(asc(thingOffersTable.createdAt));
+
+    return negotiations.map(negotiation => ({
+      negotiation,
+      offers: offers.filter(o => o.negotiationId === negotiation.id),
+      checkout: checkoutFor(negotiation, thing.currency),
+    }));
+  }
+
+  /**
+   * Agreed price for a purchase made from an accepted offer
+   */
+  async resolveCheckout(thingId: string, negotiationId: string, buyerId: string): Promise<{ negotiation: ThingNegotiation; amount: number }> {
+    const [negotiation] = await db
+      .select()
+      .from(thingNegotiationsTable)
+      .where(eq(thingNegotiationsTable.id, negotiationId))
+      .limit(1);
+
+    if (!negotiation || negotiation.thingId !== thingId) {
+      throw new NegotiationError("Offer not found", "NOT_FOUND");
+    }
+    if (negotiation.buyerId !== buyerId) {
+      throw new NegotiationError("This offer belongs to another buyer", "FORBIDDEN");
+    }
+    if (negotiation.status !== thingNegotiationStatus.ACCEPTED || negotiation.bookingId || !negotiation.agreedAmount) {
+      throw new NegotiationError("This offer has no open checkout", "THREAD_CLOSED");
+    }
+    if (!negotiation.checkoutExpiresAt || negotiation.checkoutExpiresAt <= new Date()) {
+      throw new NegotiationError("The checkout window for this offer has passed", "CHECKOUT_EXPIRED");
+    }
+
+    return { negotiation, amount: parseFloat(negotiation.agreedAmount) };
+  }
+
+  /**
+   * Link the purchase made at the agreed price and close the thread
+   */
+  async completeCheckout(negotiationId: string, bookingId: string): Promise<void> {
+    await db
+      .update(thingNegotiationsTable)
+      .set({ status: thingNegotiationStatus.COMPLETED, bookingId, updatedAt: new Date() })
+      .where(eq(thingNegotiationsTable.id, negotiationId));
+  }
+
+  /**
+   * Lapse pending offers past their expiry and release unpaid reservations
+   */
+  async expire(now: Date = new Date()): Promise<ExpireNegotiationsResult> {
+    const lapsedOffers = await db
+      .update(thingOffersTable)
+      .set({ status: thingOfferStatus.EXPIRED, respondedAt: now })
+      .where(and(eq(thingOffersTable.status, thingOfferStatus.PENDING), lte(thingOffersTable.expiresAt, now)))
+      .returning({ negotiationId: thingOffersTable.negotiationId, fromUserId: thingOffersTable.fromUserId });
+
+    // An unanswered offer ends the thread
+    const closed = lapsedOffers.length > 0
+      ? await db
+          .update(thingNegotiationsTable)
+          .set({ status: thingNegotiationStatus.EXPIRED, closedReason: "Offer expired", updatedAt: now })
+          .where(
+            and(
+              inArray(thingNegotiationsTable.id, lapsedOffers.map(o => o.negotiationId)),
+              eq(thingNegotiationsTable.status, thingNegotiationStatus.OPEN)
+            )
+          )
+          .returning()
+      : [];
+
+    for (const negotiation of closed) {
+      const offer = lapsedOffers.find(o => o.negotiationId === negotiation.id)!;
+      await this.notifyClosedById(negotiation, offer.fromUserId, "Your offer expired without a response");
+    }
+
+    const unpaid = await db
+      .select()
+      .from(thingNegotiationsTable)
+      .where(
+        and(
+          eq(thingNegotiationsTable.status, thingNegotiationStatus.ACCEPTED),
+          isNull(thingNegotiationsTable.bookingId),
+          lte(thingNegotiationsTable.checkoutExpiresAt, now)
+        )
+      )
+      .limit(EXPIRY_BATCH_SIZE);
+
+    let reservationsReleased = 0;
+    for (const negotiation of unpaid) {
+      const released = await db.transaction(async (tx) => {
+        const [expired] = await tx
+          .update(thingNegotiationsTable)
+          .set({ status: thingNegotiationStatus.EXPIRED, closedReason: "Checkout window passed", updatedAt: now })
+          .where(
+            and(
+              eq(thingNegotiationsTable.id, negotiation.id),
+              eq(thingNegotiationsTable.status, thingNegotiationStatus.ACCEPTED),
+              isNull(thingNegotiationsTable.bookingId)
+            )
+          )
+          .returning({ id: thingNegotiationsTable.id });
+
+        if (!expired) {
+          return false;
+        }
+
+        await this.releaseReservation(tx, negotiation.thingId, now);
+        return true;
+      });
+
+      if (released) {
+        reservationsReleased++;
+        await this.notifyClosedById(negotiation, negotiation.buyerId, "The checkout window for your accepted offer passed");
+      }
+    }
+
+    return { offersExpired: lapsedOffers.length, reservationsReleased };
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  // Offer notes are read by the other party, so they are screened like inquiries
+  private async screenOfferMessage(
+    message: string | undefined,
+    senderId: string,
+    recipientId: string,
+    thingId: string
+  ): Promise<string | undefined> {
+    if (!message) {
+      return message;
+    }
+
+    const { texts } = await contactScreeningService.screen(
+      { senderId, recipientId, source: "thing_inquiry", thingId },
+      [message]
+    );
+    return texts[0];
+  }
+
+  private async getThing(thingId: string): Promise<NegotiableThing> {
+    const [thing] = await db
+      .select({
+        id: thingsTable.id,
+        title: thingsTable.title,
+        price: thingsTable.price,
+        currency: thingsTable.currency,
+        status: thingsTable.status,
+        negotiable: thingsTable.negotiable,
+        sellerId: thingsTable.sellerId,
+      })
+      .from(thingsTable)
+      .where(eq(thingsTable.id, thingId))
+      .limit(1);
+
+    if (!thing) {
+      throw new NegotiationError("Item not found", "NOT_FOUND");
+    }
+
+    return thing;
+  }
+
+  private async loadForParty(negotiationId: string, userId: string): Promise<{
+    negotiation: ThingNegotiation;
+    offers: ThingOffer[];
+    thing: NegotiableThing;
+    role: NegotiationRole;
+  }> {
+    const [negotiation] = await db
+      .select()
+      .from(thingNegotiationsTable)
+      .where(eq(thingNegotiationsTable.id, negotiationId))
+      .limit(1);
+
+    if (!negotiation) {
+      throw new NegotiationError("Offer not found", "NOT_FOUND");
+    }
+
+    const role = roleOf(negotiation, userId);
+    if (!role) {
+      throw new NegotiationError("You are not part of this negotiation", "FORBIDDEN");
+    }
+
+    const offers = await db
+      .select()
+      .from(thingOffersTable)
+      .where(eq(thingOffersTable.negotiationId, negotiationId))
+      .orderBy(asc(thingOffersTable.createdAt));
+
+    return { negotiation, offers, thing: await this.getThing(negotiation.thingId), role };
+  }
+
+  /**
+   * Put a reserved listing back on sale
+   */
+  private async releaseReservation(
+    tx: Pick<typeof db, "update">,
+    thingId: string,
+    now: Date
+  ): Promise<void> {
+    await tx
+      .update(thingsTable)
+      .set({ status: "active", updatedAt: now })
+      .where(and(eq(thingsTable.id, thingId), eq(thingsTable.status, "reserved")));
+  }
+
+  private async notifyOffer(
+    thing: NegotiableThing,
+    negotiation: ThingNegotiation,
+    offer: ThingOffer,
+    recipientId: string,
+    isCounter: boolean
+  ): Promise<void> {
+    try {
+      await notificationService.sendThingOfferNotification({
+        negotiationId: negotiation.id,
+        thingId: thing.id,
+        recipientId,
+        thingTitle: thing.title,
+        amount: parseFloat(offer.amount),
+        currency: normalizeCurrency(thing.currency),
+        isCounter,
+        expiresAt: offer.expiresAt,
+      });
+    } catch (error) {
+      console.error(`Error sending offer notification for negotiation ${negotiation.id}:`, error);
+    }
+  }
+
+  private async notifyClosed(
+    thing: NegotiableThing,
+    negotiation: ThingNegotiation,
+    recipientId: string,
+    reason: string
+  ): Promise<void> {
+    try {
+      await notificationService.sendThingOfferClosedNotification({
+        negotiationId: negotiation.id,
+        thingId: thing.id,
+        recipientId,
+        thingTitle: thing.title,
+        reason,
+      });
+    } catch (error) {
+      console.error(`Error sending offer closed notification for negotiation ${negotiation.id}:`, error);
+    }
+  }
+
+  private async notifyClosedById(negotiation: ThingNegotiation, recipientId: string, reason: string): Promise<void> {
+    try {
+      await this.notifyClosed(await this.getThing(negotiation.thingId), negotiation, recipientId, reason);
+    } catch (error) {
+      console.error(`Error loading listing for negotiation ${negotiation.id}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const thingNegotiationService = new ThingNegotiationService();
@@ -0,0 +1,696 @@
+/**
+ * Thing Order Service
+ * Escrowed order lifecycle for Things purchases. The buyer pays the platform
+ * (no destination charge), so the seller's share stays in escrow while the
+ * order moves through payment, shipment and delivery.
+ *
+ * Delivery is confirmed by the buyer, or automatically AUTO_CONFIRM_DAYS
+ * after shipment (or after payment for local pickup). The buyer then has
+ * INSPECTION_DAYS to ask for a return. Once the window passes without one,
+ * the thing-orders cron hands the seller's share to payoutService for an
+ * immediate Stripe Connect transfer. An approved return refunds the buyer
+ * in full and puts the item back on sale; a declined one holds the funds
+ * until support refunds the buyer or releases them to the seller.
+ */
+
+import { db } from "@/db/db";
+import {
+  thingsTable,
+  providersTable,
+  paymentsTable,
+  thingOrdersTable,
+  thingOrderStatus,
+  type ThingOrder,
+  type NewThingOrder,
+} from "@/db/schema";
+import { and, desc, eq, inArray, lte, or } from "drizzle-orm";
+import { stripe } from "@/lib/stripe";
+import { payoutService } from "@/lib/payments/payout-service";
+import { normalizeCurrency } from "@/lib/payments/currency";
+import { notificationService } from "@/lib/notifications/notification-service";
+import {
+  bookingStateEngine,
+  BookingTransitionError,
+  TransitionEvents,
+} from "@/lib/booking-state-machine";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const AUTO_CONFIRM_DAYS = { shipping: 14, pickup: 7 } as const;
+export const INSPECTION_DAYS = 3;
+const RELEASE_BATCH_SIZE = 50;
+
+export type OrderRole = "buyer" | "seller";
+export type DeliveryMethod = "shipping" | "pickup";
+export type ShippingCarrier = "usps" | "ups" | "fedex" | "dhl" | "other";
+
+export type OrderAction =
+  | "ship"
+  | "confirm_delivery"
+  | "request_return"
+  | "approve_return"
+  | "decline_return";
+
+export type OrderUpdateEvent =
+  | "paid"
+  | "shipped"
+  | "delivered"
+  | "return_requested"
+  | "returned"
+  | "return_declined"
+  | "dispute_resolved"
+  | "released";
+
+export interface ShipmentParams {
+  carrier: ShippingCarrier;
+  trackingNumber: string;
+  trackingUrl?: string;
+}
+
+export interface ProcessOrdersResult {
+  deliveriesConfirmed: number;
+  payoutsReleased: number;
+  releaseFailures: number;
+}
+
+export type OrderErrorCode =
+  | "NOT_FOUND"
+  | "FORBIDDEN"
+  | "INVALID_STATE"
+  | "NOT_SHIPPABLE"
+  | "INSPECTION_CLOSED"
+  | "SELLER_NOT_PAYABLE"
+  | "REFUND_FAILED";
+
+const ERROR_STATUS: Record<OrderErrorCode, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  INVALID_STATE: 409,
+  NOT_SHIPPABLE: 400,
+  INSPECTION_CLOSED: 410,
+  SELLER_NOT_PAYABLE: 409,
+  REFUND_FAILED: 502,
+};
+
+export class OrderError extends Error {
+  constructor(
+    message: string,
+    public code: OrderErrorCode
+  ) {
+    super(message);
+    this.name = 'OrderError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+// Which party may take each action, and from which order states
+const ACTIONS: Record<OrderAction, { role: OrderRole; from: string[] }> = {
+  ship: { role: "seller", from: [thingOrderStatus.PAID] },
+  confirm_delivery: { role: "buyer", from: [thingOrderStatus.PAID, thingOrderStatus.SHIPPED] },
+  request_return: { role: "buyer", from: [thingOrderStatus.DELIVERED] },
+  approve_return: { role: "seller", from: [thingOrderStatus.RETURN_REQUESTED] },
+  decline_return: { role: "seller", from: [thingOrderStatus.RETURN_REQUESTED] },
+};
+
+const TRACKING_URLS: Record<Exclude<ShippingCarrier, "other">, string> = {
+  usps: "https://tools.usps.com/go/TrackConfirmAction?tLabels=",
+  ups: "https://www.ups.com/track?tracknum=",
+  fedex: "https://www.fedex.com/fedextrack/?trknbr=",
+  dhl: "https://www.dhl.com/en/express/tracking.html?AWB=",
+};
+
+/**
+ * When delivery is assumed if the buyer has not confirmed it
+ */
+export function autoConfirmAt(deliveryMethod: DeliveryMethod, from: Date): Date {
+  return new Date(from.getTime() + AUTO_CONFIRM_DAYS[deliveryMethod] * DAY_MS);
+}
+
+/**
+ * Last moment the buyer can ask for a return of an order delivered at `deliveredAt`
+ */
+export function inspectionEndsAt(deliveredAt: Date): Date {
+  return new Date(deliveredAt.getTime() + INSPECTION_DAYS * DAY_MS);
+}
+
+/**
+ * Public tracking page for a shipment; unknown carriers need an explicit URL
+ */
+export function trackingUrlFor(carrier: ShippingCarrier, trackingNumber: string): string | null {
+  if (carrier === "other") return null;
+  return `${TRACKING_URLS[carrier]}${encodeURIComponent(trackingNumber.trim())}`;
+}
+
+export function orderRoleOf(order: Pick<ThingOrder, "buyerId" | "sellerId">, userId: string): OrderRole | null {
+  if (order.buyerId === userId) return "buyer";
+  if (order.sellerId === userId) return "seller";
+  return null;
+}
+
+/**
+ * Check `role` may take `action` on the order at `now`
+ */
+export function assertOrderAction(
+  order: Pick<ThingOrder, "status" | "deliveryMethod" | "inspectionEndsAt">,
+  action: OrderAction,
+  role: OrderRole,
+  now: Date
+): void {
+  const rule = ACTIONS[action];
+
+  if (rule.role !== role) {
+    throw new OrderError(`Only the ${rule.role} can do this`, "FORBIDDEN");
+  }
+  if (!rule.from.includes(order.status)) {
+    throw new OrderError(`This order is ${order.status.replace(/_/g, " ")}`, "INVALID_STATE");
+  }
+  if (action === "ship" && order.deliveryMethod !== "shipping") {
+    throw new OrderError("Local pickup orders are not shipped", "NOT_SHIPPABLE");
+  }
+  if (action === "request_return" && (!order.inspectionEndsAt || order.inspectionEndsAt <= now)) {
+    throw new OrderError("The return window for this order has closed", "INSPECTION_CLOSED");
+  }
+}
+
+/**
+ * What the seller is owed for an order: the sale less the platform fee
+ */
+export function sellerPayoutFor(order: Pick<ThingOrder, "itemPrice" | "shippingCost" | "platformFee">): {
+  amount: number;
+  platformFee: number;
+} {
+  return {
+    amount: parseFloat(order.itemPrice) + parseFloat(order.shippingCost),
+    platformFee: parseFloat(order.platformFee),
+  };
+}
+
+/**
+ * Main thing order class
+ */
+export class ThingOrderService {
+  /**
+   * The seller's provider record, which receives the released payout
+   */
+  async resolvePayoutAccount(sellerId: string): Promise<string> {
+    const [provider] = await db
+      .select({ id: providersTable.id })
+      .from(providersTable)
+      .where(eq(providersTable.userId, sellerId))
+      .limit(1);
+
+    if (!provider) {
+      throw new OrderError("The seller has not set up payouts yet", "SELLER_NOT_PAYABLE");
+    }
+
+    return provider.id;
+  }
+
+  /**
+   * Open an order awaiting payment for a new purchase
+   */
+  async createForPurchase(values: Omit<NewThingOrder, "status">): Promise<ThingOrder> {
+    const [order] = await db
+      .insert(thingOrdersTable)
+      .values({ ...values, status: thingOrderStatus.PENDING_PAYMENT })
+      .returning();
+
+    return order;
+  }
+
+  /**
+   * Payment succeeded: hold the funds and mark the item sold
+   * Runs inside the webhook transaction; call notifyPaid once it commits.
+   */
+  async markPaid(
+    paymentIntentId: string,
+    executor: Pick<typeof db, "update"> = db
+  ): Promise<ThingOrder | null> {
+    const now = new Date();
+
+    const [pending] = await executor
+      .update(thingOrdersTable)
+      .set({ status: thingOrderStatus.PAID, paidAt: now, updatedAt: now })
+      .where(
+        and(
+          eq(thingOrdersTable.stripePaymentIntentId, paymentIntentId),
+          eq(thingOrdersTable.status, thingOrderStatus.PENDING_PAYMENT)
+        )
+      )
+      .returning();
+
+    if (!pending) {
+      return null;
+    }
+
+    // Pickup has no shipment, so the auto-confirm clock starts at payment
+    const [order] = pending.deliveryMethod === "pickup"
+      ? await executor
+          .update(thingOrdersTable)
+          .set({ autoConfirmAt: autoConfirmAt("pickup", now) })
+          .where(eq(thingOrdersTable.id, pending.id))
+          .returning()
+      : [pending];
+
+    await executor
+      .update(thingsTable)
+      .set({ status: "sold", soldAt: now, updatedAt: now })
+      .where(eq(thingsTable.id, order.thingId));
+
+    return order;
+  }
+
+  /**
+   * Tell both parties a paid order is on its way
+   */
+  async notifyPaid(order: ThingOrder): Promise<void> {
+    await this.notify(order, order.sellerId, "paid");
+    await this.notify(order, order.buyerId, "paid");
+  }
+
+  /**
+   * Payment was abandoned: cancel the order and put the item back on sale
+   */
+  async cancelUnpaid(
+    paymentIntentId: string,
+    executor: Pick<typeof db, "update"> = db
+  ): Promise<ThingOrder | null> {
+    const now = new Date();
+
+    const [order] = await executor
+      .update(thingOrdersTable)
+      .set({ status: thingOrderStatus.CANCELLED, cancelledAt: now, updatedAt: now })
+      .where(
+        and(
+          eq(thingOrdersTable.stripePaymentIntentId, paymentIntentId),
+          eq(thingOrdersTable.status, thingOrderStatus.PENDING_PAYMENT)
+        )
+      )
+      .returning();
+
+    if (order) {
+      await executor
+        .update(thingsTable)
+        .set({ status: "active", updatedAt: now })
+        .where(and(eq(thingsTable.id, order.thingId), eq(thingsTable.status, "reserved")));
+    }
+
+    return order ?? null;
+  }
+
+  /**
+   * Seller enters the carrier and tracking number
+   */
+  async markShipped(orderId: string, sellerId: string, params: ShipmentParams): Promise<ThingOrder> {
+    const { order, role } = await this.loadForParty(orderId, sellerId);
+    const now = new Date();
+    assertOrderAction(order, "ship", role, now);
+
+    const trackingUrl = params.trackingUrl || trackingUrlFor(params.carrier, params.trackingNumber);
+
+    const shipped = await this.transition(order, {
+      status: thingOrderStatus.SHIPPED,
+      carrier: params.carrier,
+      trackingNumber: params.trackingNumber.trim(),
+      trackingUrl,
+      shippedAt: now,
+      autoConfirmAt: autoConfirmAt("shipping", now),
+    });
+
+    await this.notify(shipped, shipped.buyerId, "shipped", trackingUrl ?? undefined);
+
+    return shipped;
+  }
+
+  /**
+   * Buyer confirms they received the item, starting the inspection window
+   */
+  async confirmDelivery(orderId: string, buyerId: string): Promise<ThingOrder> {
+    const { order, role } = await this.loadForParty(orderId, buyerId);
+    const now = new Date();
+    assertOrderAction(order, "confirm_delivery", role, now);
+
+    const delivered = await this.transition(order, this.deliveredValues(now, "buyer"));
+
+    await this.notify(delivered, delivered.sellerId, "delivered");
+
+    return delivered;
+  }
+
+  /**
+   * Buyer asks to return the item before the inspection window closes
+   */
+  async requestReturn(orderId: string, buyerId: string, reason: string): Promise<ThingOrder> {
+    const { order, role } = await this.loadForParty(orderId, buyerId);
+    const now = new Date();
+    assertOrderAction(order, "request_return", role, now);
+
+    const requested = await this.transition(order, {
+      status: thingOrderStatus.RETURN_REQUESTED,
+      returnReason: reason,
+      returnRequestedAt: now,
+    });
+
+    await this.notify(requested, requested.sellerId, "return_requested", reason);
+
+    return requested;
+  }
+
+  /**
+   * Seller approves a return, refunding the buyer in full and relisting the
+   * item, or declines it and the order is held for support
+   */
+  async resolveReturn(
+    orderId: string,
+    sellerId: string,
+    params: { approve: boolean; note?: string }
+  ): Promise<ThingOrder> {
+    const { order, role } = await this.loadForParty(orderId, sellerId);
+    const now = new Date();
+    assertOrderAction(order, params.approve ? "approve_return" : "decline_return", role, now);
+
+    if (!params.approve) {
+      const disputed = await this.transition(order, {
+        status: thingOrderStatus.DISPUTED,
+        returnResolvedAt: now,
+        returnResolutionNote: params.note,
+      });
+
+      await this.notify(disputed, disputed.buyerId, "return_declined", params.note);
+
+      return disputed;
+    }
+
+    const returned = await this.refundAndReturn(order, now, "Return approved by seller", {
+      returnResolvedAt: now,
+      returnResolutionNote: params.note,
+    });
+
+    await this.notify(returned, returned.buyerId, "returned");
+
+    return returned;
+  }
+
+  /**
+   * Support settles a disputed order: refund the buyer as for an approved
+   * return, or release the seller's payout straight away
+   */
+  async resolveDispute(orderId: string, params: { refundBuyer: boolean; note?: string }): Promise<ThingOrder> {
+    const order = await this.loadOrder(orderId);
+    const now = new Date();
+
+    if (order.status !== thingOrderStatus.DISPUTED) {
+      throw new OrderError(`This order is ${order.status.replace(/_/g, " ")}`, "INVALID_STATE");
+    }
+
+    if (params.refundBuyer) {
+      const returned = await this.refundAndReturn(order, now, "Refund granted by support");
+
+      await this.notify(returned, returned.buyerId, "returned", params.note);
+      await this.notify(returned, returned.sellerId, "dispute_resolved", params.note);
+
+      return returned;
+    }
+
+    // Delivered with the inspection window closed, so it releases like any other;
+    // if the payout can't be scheduled, the thing-orders cron retries it
+    const delivered = await this.transition(order, { status: thingOrderStatus.DELIVERED, inspectionEndsAt: now });
+    await this.release(delivered, now);
+
+    await this.notify(delivered, delivered.buyerId, "dispute_resolved", params.note);
+
+    return await this.loadOrder(orderId);
+  }
+
+  /**
+   * One order, for the buyer or the seller
+   */
+  async getOrder(orderId: string, userId: string): Promise<ThingOrder> {
+    const { order } = await this.loadForParty(orderId, userId);
+    return order;
+  }
+
+  /**
+   * A user's orders, newest first; `role` narrows to purchases or sales
+   */
+  async listForUser(userId: string, role?: OrderRole): Promise<ThingOrder[]> {
+    return await db
+      .select()
+      .from(thingOrdersTable)
+      .where(
+        role === "buyer"
+          ? eq(thingOrdersTable.buyerId, userId)
+          : role === "seller"
+            ? eq(thingOrdersTable.sellerId, userId)
+            : or(eq(thingOrdersTable.buyerId, userId), eq(thingOrdersTable.sellerId, userId))
+      )
+      .orderBy(desc(thingOrdersTable.createdAt));
+  }
+
+  /**
+   * Auto-confirm deliveries the buyer never confirmed, then release escrow
+   * for orders whose inspection window passed without a return
+   */
+  async processDue(now: Date = new Date()): Promise<ProcessOrdersResult> {
+    const unconfirmed = await db
+      .update(thingOrdersTable)
+      .set({ ...this.deliveredValues(now, "auto"), updatedAt: now })
+      .where(
+        and(
+          inArray(thingOrdersTable.status, [thingOrderStatus.PAID, thingOrderStatus.SHIPPED]),
+          lte(thingOrdersTable.autoConfirmAt, now)
+        )
+      )
+      .returning();
+
+    for (const order of unconfirmed) {
+      await this.notify(order, order.buyerId, "delivered");
+    }
+
+    const due = await db
+      .select()
+      .from(thingOrdersTable)
+      .where(
+        and(
+          eq(thingOrdersTable.status, thingOrderStatus.DELIVERED),
+          lte(thingOrdersTable.inspectionEndsAt, now)
+        )
+      )
+      .limit(RELEASE_BATCH_SIZE);
+
+    let payoutsReleased = 0;
+    let releaseFailures = 0;
+    for (const order of due) {
+      try {
+        if (await this.release(order, now)) {
+          payoutsReleased++;
+        }
+      } catch (error) {
+        console.error(`Failed to release escrow for order ${order.id}:`, error);
+        releaseFailures++;
+      }
+    }
+
+    return { deliveriesConfirmed: unconfirmed.length, payoutsReleased, releaseFailures };
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private deliveredValues(now: Date, confirmedBy: "buyer" | "auto") {
+    return {
+      status: thingOrderStatus.DELIVERED,
+      deliveredAt: now,
+      deliveryConfirmedBy: confirmedBy,
+      inspectionEndsAt: inspectionEndsAt(now),
+    };
+  }
+
+  /**
+   * Refund the buyer in full, close the order as returned and put the item
+   * back on sale
+   */
+  private async refundAndReturn(
+    order: ThingOrder,
+    now: Date,
+    reason: string,
+    values: Partial<NewThingOrder> = {}
+  ): Promise<ThingOrder> {
+    let refundId: string;
+    try {
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: order.stripePaymentIntentId,
+          reason: 'requested_by_customer',
+          metadata: {
+            orderId: order.id,
+            bookingId: order.bookingId,
+            refundReason: reason,
+          },
+        },
+        { idempotencyKey: `thing_order_return_${order.id}` }
+      );
+      refundId = refund.id;
+    } catch (error) {
+      console.error(`Error refunding returned order ${order.id}:`, error);
+      throw new OrderError("The refund could not be issued. Please try again.", "REFUND_FAILED");
+    }
+
+    const returned = await this.transition(order, {
+      ...values,
+      status: thingOrderStatus.RETURNED,
+      stripeRefundId: refundId,
+    });
+
+    const [payment] = await db
+      .select({ amountCents: paymentsTable.amountCents })
+      .from(paymentsTable)
+      .where(eq(paymentsTable.stripePaymentIntentId, order.stripePaymentIntentId))
+      .limit(1);
+
+    if (payment) {
+      await db
+        .update(paymentsTable)
+        .set({
+          status: 'refunded',
+          stripeRefundId: refundId,
+          refundedAmountCents: payment.amountCents,
+          updatedAt: now,
+        })
+        .where(eq(paymentsTable.stripePaymentIntentId, order.stripePaymentIntentId));
+    }
+
+    try {
+      await bookingStateEngine.dispatch(
+        order.bookingId,
+        TransitionEvents.REFUND_FULL,
+        { type: 'system', id: 'system' },
+        { reason, metadata: { refundAmount: parseFloat(order.totalAmount) } }
+      );
+    } catch (error) {
+      if (!(error instanceof BookingTransitionError)) {
+        throw error;
+      }
+      console.warn(`Skipped booking refund transition for order ${order.id}: ${error.message}`);
+    }
+
+    // Returned items go back to the seller, and back on sale
+    await db
+      .update(thingsTable)
+      .set({ status: "active", soldAt: null, updatedAt: now })
+      .where(and(eq(thingsTable.id, order.thingId), eq(thingsTable.status, "sold")));
+
+    return returned;
+  }
+
+  /**
+   * Claim the order for release, then schedule the seller's payout with no
+   * further escrow; the claim is undone if scheduling fails
+   */
+  private async release(order: ThingOrder, now: Date): Promise<boolean> {
+    const [claimed] = await db
+      .update(thingOrdersTable)
+      .set({ status: thingOrderStatus.RELEASED, releasedAt: now, updatedAt: now })
+      .where(and(eq(thingOrdersTable.id, order.id), eq(thingOrdersTable.status, thingOrderStatus.DELIVERED)))
+      .returning({ id: thingOrdersTable.id });
+
+    if (!claimed) {
+      return false;
+    }
+
+    try {
+      const payout = await payoutService.scheduleProviderPayout({
+        bookingId: order.bookingId,
+        providerId: order.providerId,
+        ...sellerPayoutFor(order),
+        escrowDays: 0,
+        currency: normalizeCurrency(order.currency),
+      });
+
+      await db
+        .update(thingOrdersTable)
+        .set({ payoutId: payout.payoutId })
+        .where(eq(thingOrdersTable.id, order.id));
+    } catch (error) {
+      await db
+        .update(thingOrdersTable)
+        .set({ status: thingOrderStatus.DELIVERED, releasedAt: null, updatedAt: new Date() })
+        .where(eq(thingOrdersTable.id, order.id));
+      throw error;
+    }
+
+    await this.notify(order, order.sellerId, "released");
+    return true;
+  }
+
+  /**
+   * Move the order on, guarding against a concurrent change of state
+   */
+  private async transition(order: ThingOrder, values: Partial<NewThingOrder>): Promise<ThingOrder> {
+    const [updated] = await db
+      .update(thingOrdersTable)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(thingOrdersTable.id, order.id), eq(thingOrdersTable.status, order.status)))
+      .returning();
+
+    if (!updated) {
+      throw new OrderError("This order was updated by someone else. Please refresh.", "INVALID_STATE");
+    }
+
+    return updated;
+  }
+
+  private async loadOrder(orderId: string): Promise<ThingOrder> {
+    const [order] = await db
+      .select()
+      .from(thingOrdersTable)
+      .where(eq(thingOrdersTable.id, orderId))
+      .limit(1);
+
+    if (!order) {
+      throw new OrderError("Order not found", "NOT_FOUND");
+    }
+
+    return order;
+  }
+
+  private async loadForParty(orderId: string, userId: string): Promise<{ order: ThingOrder; role: OrderRole }> {
+    const order = await this.loadOrder(orderId);
+
+    const role = orderRoleOf(order, userId);
+    if (!role) {
+      throw new OrderError("You are not part of this order", "FORBIDDEN");
+    }
+
+    return { order, role };
+  }
+
+  private async notify(order: ThingOrder, recipientId: string, event: OrderUpdateEvent, detail?: string): Promise<void> {
+    try {
+      const [item] = await db
+        .select({ title: thingsTable.title })
+        .from(thingsTable)
+        .where(eq(thingsTable.id, order.thingId))
+        .limit(1);
+
+      await notificationService.sendThingOrderUpdateNotification({
+        orderId: order.id,
+        thingId: order.thingId,
+        recipientId,
+        thingTitle: item?.title || 'your item',
+        event,
+        isBuyer: recipientId === order.buyerId,
+        detail,
+        inspectionEndsAt: order.inspectionEndsAt,
+      });
+    } catch (error) {
+      console.error(`Error sending ${event} notification for order ${order.id}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const thingOrderService = new ThingOrderService();
@@ -5,14 +5,22 @@ import { z } from "zod";
  * Covers all booking operations including creation, updates, and filtering
  */
 
-// Booking status enum validation
+// Booking status enum validation (canonical states, see lib/booking-state-machine)
 export const bookingStatusSchema = z.enum([
-  "pending", 
-  "confirmed", 
-  "in_progress", 
-  "completed", 
-  "cancelled", 
-  "no_show"
+  "draft",
+  "hold",
+  "expired",
+  "pending_provider",
+  "confirmed",
+  "in_progress",
+  "completed",
+  "canceled_customer",
+  "canceled_provider",
+  "no_show_customer",
+  "no_show_provider",
+  "refunded_partial",
+  "refunded_full",
+  "dispute"
 ] as const);
 
 // Base booking data schema
@@ -75,7 +83,10 @@ export const createBookingSchema = bookingDataSchema.extend({
   // Remove computed fields that shouldn't be provided by client
   totalAmount: z.never().optional(),
   platformFee: z.never().optional(), 
-  providerPayout: z.never().optional()
+  providerPayout: z.never().optional(),
+
+  // Claimed waitlist offer hold being redeemed
+  holdId: z.string().uuid("Invalid hold ID").optional()
 }).refine(
   (data) => {
     // Validate end time is after start time
@@ -124,7 +135,7 @@ export const updateBookingSchema = z.object({
 }).refine(
   (data) => {
     // If status is cancelled, cancellation reason is required
-    if (data.status === "cancelled" && !data.cancellationReason) {
+    if ((data.status === "canceled_customer" || data.status === "canceled_provider") && !data.cancellationReason) {
       return false;
     }
     return true;
@@ -364,7 +375,7 @@ export function validateTimeSlot(
   for (const booking of existingBookings) {
     if (
       booking.bookingDate.toDateString() === bookingDate.toDateString() &&
-      ["pending", "confirmed", "in_progress"].includes(booking.status)
+      ["hold", "pending_provider", "confirmed", "in_progress"].includes(booking.status)
     ) {
       const existingStart = timeToMinutes(booking.startTime);
       const existingEnd = timeToMinutes(booking.endTime);
@@ -0,0 +1,17 @@
+/**
+ * Waitlist Module
+ * Centralized exports for waitlist offers on fully booked slots, events and spaces
+ */
+
+export {
+  waitlistService,
+  WaitlistService,
+  WaitlistError,
+  targetFromBooking,
+  type WaitlistTarget,
+  type WaitlistTargetType,
+  type JoinWaitlistParams,
+  type WaitlistOffer,
+  type ExpireOffersResult,
+  type WaitlistErrorCode
+} from './waitlist-service';
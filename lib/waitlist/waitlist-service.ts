@@ -0,0 +1,804 @@
+/**
+ * Waitlist Service
+ * Queues customers for fully booked service slots, events and spaces, and
+ * offers freed spots behind a ConcurrencyManager hold when a booking is cancelled.
+ *
+ * Offer lifecycle: waiting → offered → claimed | expired
+ * An offer lasts as long as its slot hold; the waitlist-offers cron expires
+ * unclaimed offers and moves the spot on to the next customer in line. A
+ * claimed hold is redeemed by passing its id to booking creation; until then
+ * booking routes count the spot as taken.
+ */
+
+import { db } from "@/db/db";
+import {
+  bookingsTable,
+  eventsTable,
+  spacesTable,
+  providersTable,
+  waitlistEntriesTable,
+  waitlistStatus,
+  type WaitlistEntry,
+} from "@/db/schema";
+import { and, asc, eq, gt, inArray, isNull, lt, lte, ne, sql } from "drizzle-orm";
+import { slotGenerator } from "@/lib/availability/slot-generator";
+import { concurrencyManager } from "@/lib/availability/concurrency-manager";
+import {
+  resolveTimezone,
+  localDayBounds,
+  localizeInterval,
+  storedDate,
+} from "@/lib/availability/timezone";
+import { notificationService } from "@/lib/notifications/notification-service";
+import { SLOT_HOLDING_STATES } from "@/lib/booking-state-machine/status-map";
+
+
+// Entries considered when filling freed spots (skipped entries fall through to the next)
+const OFFER_CANDIDATE_LIMIT = 20;
+const EXPIRY_BATCH_SIZE = 100;
+
+export type WaitlistTargetType = "service" | "event" | "space";
+
+/**
+ * The thing a customer is waiting for
+ * Service and space targets are a provider-local date and start time.
+ */
+export interface WaitlistTarget {
+  targetType: WaitlistTargetType;
+  providerId: string;
+  serviceId?: string | null;
+  eventId?: string | null;
+  spaceId?: string | null;
+  date?: string | null; // YYYY-MM-DD, provider-local
+  startTime?: string | null; // HH:mm
+  endTime?: string | null; // HH:mm
+}
+
+export interface JoinWaitlistParams {
+  customerId: string;
+  targetType: WaitlistTargetType;
+  providerId?: string;
+  serviceId?: string;
+  eventId?: string;
+  spaceId?: string;
+  date?: string;
+  startTime?: string;
+  endTime?: string;
+  partySize?: number;
+  notes?: string;
+}
+
+export interface WaitlistOffer {
+  entryId: string;
+  customerId: string;
+  holdId: string;
+  expiresAt: Date;
+}
+
+export interface ExpireOffersResult {
+  expired: number;
+  reoffered: number;
+}
+
+export type WaitlistErrorCode =
+  | "INVALID_TARGET"
+  | "TARGET_NOT_FOUND"
+  | "NOT_FULL"
+  | "ALREADY_WAITING"
+  | "ENTRY_NOT_FOUND"
+  | "OFFER_UNAVAILABLE";
+
+const ERROR_STATUS: Record<WaitlistErrorCode, number> = {
+  INVALID_TARGET: 400,
+  TARGET_NOT_FOUND: 404,
+  NOT_FULL: 409,
+  ALREADY_WAITING: 409,
+  ENTRY_NOT_FOUND: 404,
+  OFFER_UNAVAILABLE: 410,
+};
+
+export class WaitlistError extends Error {
+  constructor(
+    message: string,
+    public code: WaitlistErrorCode
+  ) {
+    super(message);
+    this.name = 'WaitlistError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+/**
+ * Derive the waitlist target freed by a cancelled booking
+ */
+export function targetFromBooking(booking: {
+  providerId: string;
+  bookingType?: string | null;
+  serviceId?: string | null;
+  eventId?: string | null;
+  spaceId?: string | null;
+  bookingDate: Date;
+  startTime: string;
+  endTime: string;
+}): WaitlistTarget {
+  if (booking.bookingType === "event" && booking.eventId) {
+    return { targetType: "event", providerId: booking.providerId, eventId: booking.eventId };
+  }
+
+  return {
+    targetType: booking.bookingType === "space" && booking.spaceId ? "space" : "service",
+    providerId: booking.providerId,
+    serviceId: booking.serviceId,
+    spaceId: booking.bookingType === "space" ? booking.spaceId : null,
+    date: storedDate(booking.bookingDate),
+    startTime: booking.startTime,
+    endTime: booking.endTime,
+  };
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function slotDateValue(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+/**
+ * Main waitlist service class
+ */
+export class WaitlistService {
+  /**
+   * Join the waitlist for a full slot, event or space
+   */
+  async join(params: JoinWaitlistParams): Promise<{ entry: WaitlistEntry; position: number }> {
+    const target = await this.resolveTarget(params);
+    const partySize = params.partySize ?? 1;
+
+    const freeSpots = await this.getFreeSpots(target);
+    if (freeSpots === null) {
+      // Outside working hours or blocked: nothing to wait for
+      throw new WaitlistError("No bookable slot at this time", "TARGET_NOT_FOUND");
+    }
+    if (freeSpots >= partySize) {
+      throw new WaitlistError("This spot is still available to book", "NOT_FULL");
+    }
+
+    const [existing] = await db
+      .select({ id: waitlistEntriesTable.id })
+      .from(waitlistEntriesTable)
+      .where(
+        and(
+          this.targetCondition(target),
+          eq(waitlistEntriesTable.customerId, params.customerId),
+          inArray(waitlistEntriesTable.status, [waitlistStatus.WAITING, waitlistStatus.OFFERED])
+        )
+      )
+      .limit(1);
+
+    if (existing) {
+      throw new WaitlistError("You are already on the waitlist for this spot", "ALREADY_WAITING");
+    }
+
+    const [entry] = await db
+      .insert(waitlistEntriesTable)
+      .values({
+        customerId: params.customerId,
+        targetType: target.targetType,
+        providerId: target.providerId,
+        serviceId: target.serviceId || null,
+        eventId: target.eventId || null,
+        spaceId: target.spaceId || null,
+        slotDate: target.date ? slotDateValue(target.date) : null,
+        startTime: target.startTime || null,
+        endTime: target.endTime || null,
+        partySize,
+        notes: params.notes,
+      })
+      .returning();
+
+    return { entry, position: await this.getPosition(entry) };
+  }
+
+  /**
+   * Leave the waitlist; an outstanding offer is released to the next customer
+   */
+  async leave(entryId: string, customerId: string): Promise<WaitlistEntry> {
+    const entry = await this.getCustomerEntry(entryId, customerId);
+
+    if (entry.status !== waitlistStatus.WAITING && entry.status !== waitlistStatus.OFFERED) {
+      throw new WaitlistError(`Waitlist entry is already ${entry.status}`, "OFFER_UNAVAILABLE");
+    }
+
+    const [updated] = await db
+      .update(waitlistEntriesTable)
+      .set({ status: waitlistStatus.CANCELLED, updatedAt: new Date() })
+      .where(eq(waitlistEntriesTable.id, entryId))
+      .returning();
+
+    if (entry.status === waitlistStatus.OFFERED) {
+      if (entry.holdId) {
+        await concurrencyManager.releaseHold(entry.holdId, 'manual');
+      }
+      await this.offerNext(this.targetFromEntry(entry), entry.sourceBookingId);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Claim an outstanding offer
+   * Returns the hold the customer books against; booking creation redeems it.
+   */
+  async claim(entryId: string, customerId: string): Promise<{ entry: WaitlistEntry; holdId: string; expiresAt: Date }> {
+    const entry = await this.getCustomerEntry(entryId, customerId);
+
+    if (entry.status !== waitlistStatus.OFFERED || !entry.holdId || !entry.offerExpiresAt) {
+      throw new WaitlistError("There is no open offer for this waitlist entry", "OFFER_UNAVAILABLE");
+    }
+
+    if (entry.offerExpiresAt <= new Date() || !(await concurrencyManager.isHoldValid(entry.holdId))) {
+      throw new WaitlistError("This offer has expired", "OFFER_UNAVAILABLE");
+    }
+
+    // Conditional update so a concurrent expiry cannot be claimed
+    const [claimed] = await db
+      .update(waitlistEntriesTable)
+      .set({ status: waitlistStatus.CLAIMED, claimedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(waitlistEntriesTable.id, entryId),
+          eq(waitlistEntriesTable.status, waitlistStatus.OFFERED)
+        )
+      )
+      .returning();
+
+    if (!claimed) {
+      throw new WaitlistError("This offer has expired", "OFFER_UNAVAILABLE");
+    }
+
+    return { entry: claimed, holdId: entry.holdId, expiresAt: entry.offerExpiresAt };
+  }
+
+  /**
+   * Check a hold passed to booking creation
+   * Only the customer who claimed the offer can redeem it, and only for the
+   * slot, space slot or event it was offered on.
+   */
+  async redeemableEntry(
+    holdId: string,
+    customerId: string,
+    target: WaitlistTarget
+  ): Promise<WaitlistEntry> {
+    const [entry] = await db
+      .select()
+      .from(waitlistEntriesTable)
+      .where(
+        and(
+          eq(waitlistEntriesTable.holdId, holdId),
+          eq(waitlistEntriesTable.status, waitlistStatus.CLAIMED)
+        )
+      )
+      .limit(1);
+
+    if (!entry || entry.customerId !== customerId || entry.bookingId) {
+      throw new WaitlistError("There is no claimed offer for this hold", "OFFER_UNAVAILABLE");
+    }
+
+    if (
+      entry.targetType !== target.targetType ||
+      entry.providerId !== target.providerId ||
+      this.targetKey(this.targetFromEntry(entry)) !== this.targetKey(target)
+    ) {
+      throw new WaitlistError("This hold is for a different slot", "INVALID_TARGET");
+    }
+
+    if (
+      !entry.offerExpiresAt ||
+      entry.offerExpiresAt <= new Date() ||
+      !(await concurrencyManager.isHoldValid(holdId))
+    ) {
+      throw new WaitlistError("This offer has expired", "OFFER_UNAVAILABLE");
+    }
+
+    return entry;
+  }
+
+  /**
+   * Record the booking a claimed hold turned into and release the hold onto it
+   */
+  async completeClaim(entry: WaitlistEntry, bookingId: string): Promise<void> {
+    await db
+      .update(waitlistEntriesTable)
+      .set({ bookingId, updatedAt: new Date() })
+      .where(eq(waitlistEntriesTable.id, entry.id));
+
+    if (entry.holdId) {
+      await concurrencyManager.convertHoldToBooking(entry.holdId, bookingId);
+    }
+  }
+
+  /**
+   * Spots on a slot, space or event promised to waitlisted customers and not yet booked
+   * Booking routes count these as taken; `exceptEntryId` leaves out the claimant's own offer.
+   * Service and space slots count any overlapping offer, events the whole event.
+   */
+  async heldSpots(
+    target: WaitlistTarget,
+    exceptEntryId?: string,
+    now: Date = new Date()
+  ): Promise<number> {
+    const targetMatch = target.targetType === "event"
+      ? eq(waitlistEntriesTable.eventId, target.eventId!)
+      : and(
+          target.targetType === "space"
+            ? eq(waitlistEntriesTable.spaceId, target.spaceId!)
+            : eq(waitlistEntriesTable.providerId, target.providerId),
+          eq(waitlistEntriesTable.slotDate, slotDateValue(target.date!)),
+          lt(waitlistEntriesTable.startTime, target.endTime!),
+          sql`${waitlistEntriesTable.endTime} > ${target.startTime}`
+        );
+
+    const [result] = await db
+      .select({ spots: sql<number>`coalesce(sum(${waitlistEntriesTable.partySize}), 0)::int` })
+      .from(waitlistEntriesTable)
+      .where(
+        and(
+          eq(waitlistEntriesTable.targetType, target.targetType),
+          targetMatch,
+          inArray(waitlistEntriesTable.status, [waitlistStatus.OFFERED, waitlistStatus.CLAIMED]),
+          isNull(waitlistEntriesTable.bookingId),
+          gt(waitlistEntriesTable.offerExpiresAt, now),
+          exceptEntryId ? ne(waitlistEntriesTable.id, exceptEntryId) : undefined
+        )
+      );
+
+    return result?.spots ?? 0;
+  }
+
+  /**
+   * List a customer's active and recent waitlist entries with queue positions
+   */
+  async listForCustomer(customerId: string): Promise<Array<WaitlistEntry & { position: number | null }>> {
+    const entries = await db
+      .select()
+      .from(waitlistEntriesTable)
+      .where(eq(waitlistEntriesTable.customerId, customerId))
+      .orderBy(asc(waitlistEntriesTable.createdAt));
+
+    return await Promise.all(
+      entries.map(async entry => ({
+        ...entry,
+        position: entry.status === waitlistStatus.WAITING ? await this.getPosition(entry) : null,
+      }))
+    );
+  }
+
+  /**
+   * Offer the spot freed by a cancelled booking to the waitlist
+   * Called from the booking state machine after the cancellation is persisted.
+   */
+  async handleCancellation(bookingId: string): Promise<WaitlistOffer[]> {
+    const [booking] = await db
+      .select()
+      .from(bookingsTable)
+      .where(eq(bookingsTable.id, bookingId))
+      .limit(1);
+
+    if (!booking) {
+      return [];
+    }
+
+    return await this.offerNext(targetFromBooking(booking), bookingId);
+  }
+
+  /**
+   * Offer freed capacity on a target to the next customers in line
+   */
+  async offerNext(target: WaitlistTarget, sourceBookingId?: string | null): Promise<WaitlistOffer[]> {
+    const entries = await db
+      .select()
+      .from(waitlistEntriesTable)
+      .where(
+        and(
+          this.targetCondition(target),
+          inArray(waitlistEntriesTable.status, [waitlistStatus.WAITING, waitlistStatus.OFFERED])
+        )
+      )
+      .orderBy(asc(waitlistEntriesTable.createdAt))
+      .limit(OFFER_CANDIDATE_LIMIT);
+
+    const waiting = entries.filter(entry => entry.status === waitlistStatus.WAITING);
+    if (waiting.length === 0) {
+      return [];
+    }
+
+    // Spots already promised to open offers are not free
+    const outstanding = entries
+      .filter(entry => entry.status === waitlistStatus.OFFERED)
+      .reduce((sum, entry) => sum + entry.partySize, 0);
+    const slotSpots = (await this.getFreeSpots(target)) ?? 0;
+    const freeSpots = slotSpots - outstanding;
+    if (freeSpots <= 0) {
+      return [];
+    }
+
+    const slot = await this.getHoldSlot(target);
+    if (!slot) {
+      return [];
+    }
+
+    const offers: WaitlistOffer[] = [];
+    let remaining = freeSpots;
+
+    // Oldest first; a party too large for what is left is skipped rather than blocking smaller ones
+    for (const entry of waiting) {
+      if (remaining <= 0) break;
+      if (entry.partySize > remaining) continue;
+
+      const hold = await concurrencyManager.placeHold({
+        providerId: target.providerId,
+        serviceId: target.serviceId || undefined,
+        date: slot.date,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        customerId: entry.customerId,
+        // The slot's hold counter already includes the outstanding offers' holds
+        capacity: slotSpots,
+        quantity: entry.partySize,
+      });
+
+      // Customer is at their hold limit or the slot was taken meanwhile; try the next one
+      if (!hold.success || !hold.holdId || !hold.expiresAt) {
+        continue;
+      }
+
+      const expiresAt = new Date(hold.expiresAt);
+      const [offered] = await db
+        .update(waitlistEntriesTable)
+        .set({
+          status: waitlistStatus.OFFERED,
+          holdId: hold.holdId,
+          offeredAt: new Date(),
+          offerExpiresAt: expiresAt,
+          sourceBookingId: sourceBookingId || null,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(waitlistEntriesTable.id, entry.id),
+            eq(waitlistEntriesTable.status, waitlistStatus.WAITING)
+          )
+        )
+        .returning({ id: waitlistEntriesTable.id });
+
+      // Entry left the queue while we were placing the hold
+      if (!offered) {
+        await concurrencyManager.releaseHold(hold.holdId, 'manual');
+        continue;
+      }
+
+      remaining -= entry.partySize;
+      offers.push({ entryId: entry.id, customerId: entry.customerId, holdId: hold.holdId, expiresAt });
+
+      try {
+        await notificationService.sendWaitlistOfferNotification({
+          entryId: entry.id,
+          customerId: entry.customerId,
+          title: slot.title,
+          date: slot.date,
+          startTime: slot.startTime,
+          expiresAt,
+        });
+      } catch (error) {
+        console.error(`Error sending waitlist offer for entry ${entry.id}:`, error);
+      }
+    }
+
+    return offers;
+  }
+
+  /**
+   * Expire unclaimed offers and pass each spot on to the next customer
+   */
+  async expireOffers(now: Date = new Date()): Promise<ExpireOffersResult> {
+    const expiredEntries = await db
+      .update(waitlistEntriesTable)
+      .set({ status: waitlistStatus.EXPIRED, updatedAt: now })
+      .where(
+        sql`${waitlistEntriesTable.id} IN (
+          SELECT ${waitlistEntriesTable.id} FROM ${waitlistEntriesTable}
+          WHERE ${waitlistEntriesTable.status} = ${waitlistStatus.OFFERED}
+            AND ${waitlistEntriesTable.offerExpiresAt} <= ${now}
+          LIMIT ${EXPIRY_BATCH_SIZE}
+        )`
+      )
+      .returning();
+
+    const targets = new Map<string, { target: WaitlistTarget; sourceBookingId: string | null }>();
+
+    for (const entry of expiredEntries) {
+      if (entry.holdId) {
+        await concurrencyManager.releaseHold(entry.holdId, 'expired');
+      }
+
+      const target = this.targetFromEntry(entry);
+      targets.set(this.targetKey(target), { target, sourceBookingId: entry.sourceBookingId });
+
+      try {
+        await notificationService.sendWaitlistOfferExpiredNotification({
+          entryId: entry.id,
+          customerId: entry.customerId,
+          title: (await this.getHoldSlot(target))?.title || "your waitlisted booking",
+        });
+      } catch (error) {
+        console.error(`Error sending waitlist expiry for entry ${entry.id}:`, error);
+      }
+    }
+
+    let reoffered = 0;
+    for (const { target, sourceBookingId } of targets.values()) {
+      try {
+        const offers = await this.offerNext(target, sourceBookingId);
+        reoffered += offers.length;
+      } catch (error) {
+        console.error(`Error re-offering waitlist spot ${this.targetKey(target)}:`, error);
+      }
+    }
+
+    return { expired: expiredEntries.length, reoffered };
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private async resolveTarget(params: JoinWaitlistParams): Promise<WaitlistTarget> {
+    if (params.targetType === "event") {
+      if (!params.eventId) {
+        throw new WaitlistError("eventId is required", "INVALID_TARGET");
+      }
+
+      const [event] = await db
+        .select()
+        .from(eventsTable)
+        .where(eq(eventsTable.id, params.eventId))
+        .limit(1);
+
+      if (!event || event.status !== "published") {
+        throw new WaitlistError("Event not found", "TARGET_NOT_FOUND");
+      }
+      if (event.startDateTime <= new Date()) {
+        throw new WaitlistError("Event has already started", "INVALID_TARGET");
+      }
+
+      return { targetType: "event", providerId: event.providerId, eventId: event.id };
+    }
+
+    if (!params.date || !params.startTime || !params.endTime) {
+      throw new WaitlistError("date, startTime and endTime are required", "INVALID_TARGET");
+    }
+    if (minutesOf(params.endTime) <= minutesOf(params.startTime)) {
+      throw new WaitlistError("endTime must be after startTime", "INVALID_TARGET");
+    }
+
+    if (params.targetType === "space") {
+      if (!params.spaceId) {
+        throw new WaitlistError("spaceId is required", "INVALID_TARGET");
+      }
+
+      const [space] = await db
+        .select({ id: spacesTable.id, providerId: spacesTable.providerId })
+        .from(spacesTable)
+        .where(eq(spacesTable.id, params.spaceId))
+        .limit(1);
+
+      if (!space) {
+        throw new WaitlistError("Space not found", "TARGET_NOT_FOUND");
+      }
+
+      return {
+        targetType: "space",
+        providerId: space.providerId,
+        spaceId: space.id,
+        date: params.date,
+        startTime: params.startTime,
+        endTime: params.endTime,
+      };
+    }
+
+    if (!params.providerId) {
+      throw new WaitlistError("providerId is required", "INVALID_TARGET");
+    }
+
+    return {
+      targetType: "service",
+      providerId: params.providerId,
+      serviceId: params.serviceId,
+      date: params.date,
+      startTime: params.startTime,
+      endTime: params.endTime,
+    };
+  }
+
+  /**
+   * Remaining capacity on a target, or null when the slot does not exist
+   */
+  private async getFreeSpots(target: WaitlistTarget): Promise<number | null> {
+    if (target.targetType === "event") {
+      const [event] = await db
+        .select({ maxAttendees: eventsTable.maxAttendees, currentAttendees: eventsTable.currentAttendees })
+        .from(eventsTable)
+        .where(eq(eventsTable.id, target.eventId!))
+        .limit(1);
+
+      if (!event) return 0;
+      // Uncapped events never fill up
+      if (event.maxAttendees === null) return Number.MAX_SAFE_INTEGER;
+      return Math.max(0, event.maxAttendees - event.currentAttendees);
+    }
+
+    if (target.targetType === "space") {
+      const overlapping = await db
+        .select({ id: bookingsTable.id })
+        .from(bookingsTable)
+        .where(
+          and(
+            eq(bookingsTable.spaceId, target.spaceId!),
+            eq(bookingsTable.bookingDate, slotDateValue(target.date!)),
+            lt(bookingsTable.startTime, target.endTime!),
+            sql`${bookingsTable.endTime} > ${target.startTime}`,
+            inArray(bookingsTable.status, SLOT_HOLDING_STATES)
+          )
+        )
+        .limit(1);
+
+      return overlapping.length === 0 ? 1 : 0;
+    }
+
+    const [provider] = await db
+      .select({ timezone: providersTable.timezone })
+      .from(providersTable)
+      .where(eq(providersTable.id, target.providerId))
+      .limit(1);
+
+    if (!provider) return 0;
+
+    const bounds = localDayBounds(target.date!, resolveTimezone(provider.timezone));
+    const slots = await slotGenerator.generateSlots({
+      providerId: target.providerId,
+      serviceId: target.serviceId || undefined,
+      startDate: bounds.start,
+      endDate: new Date(bounds.end.getTime() - 1),
+      serviceDuration: minutesOf(target.endTime!) - minutesOf(target.startTime!),
+      includeBooked: true,
+    });
+
+    const slot = slots.find(s => s.date === target.date && s.startTime === target.startTime);
+    return slot ? slot.remainingCapacity : null;
+  }
+
+  /**
+   * Slot coordinates and display title used for the offer hold
+   */
+  private async getHoldSlot(
+    target: WaitlistTarget
+  ): Promise<{ date: string; startTime: string; endTime: string; title: string } | null> {
+    if (target.targetType === "event") {
+      const [event] = await db
+        .select({
+          title: eventsTable.title,
+          startDateTime: eventsTable.startDateTime,
+          endDateTime: eventsTable.endDateTime,
+          timezone: eventsTable.timezone,
+        })
+        .from(eventsTable)
+        .where(eq(eventsTable.id, target.eventId!))
+        .limit(1);
+
+      if (!event) return null;
+
+      const local = localizeInterval(event.startDateTime, event.endDateTime, resolveTimezone(event.timezone));
+      return { date: local.date, startTime: local.startTime, endTime: local.endTime, title: event.title };
+    }
+
+    let title: string | undefined;
+    if (target.targetType === "space") {
+      const [space] = await db
+        .select({ name: spacesTable.name })
+        .from(spacesTable)
+        .where(eq(spacesTable.id, target.spaceId!))
+        .limit(1);
+      title = space?.name;
+    } else {
+      const [provider] = await db
+        .select({ displayName: providersTable.displayName })
+        .from(providersTable)
+        .where(eq(providersTable.id, target.providerId))
+        .limit(1);
+      title = provider?.displayName;
+    }
+
+    return {
+      date: target.date!,
+      startTime: target.startTime!,
+      endTime: target.endTime!,
+      title: title || "your waitlisted booking",
+    };
+  }
+
+  private targetCondition(target: WaitlistTarget) {
+    if (target.targetType === "event") {
+      return eq(waitlistEntriesTable.eventId, target.eventId!);
+    }
+
+    return and(
+      eq(waitlistEntriesTable.targetType, target.targetType),
+      target.targetType === "space"
+        ? eq(waitlistEntriesTable.spaceId, target.spaceId!)
+        : eq(waitlistEntriesTable.providerId, target.providerId),
+      eq(waitlistEntriesTable.slotDate, slotDateValue(target.date!)),
+      eq(waitlistEntriesTable.startTime, target.startTime!)
+    );
+  }
+
+  private targetFromEntry(entry: WaitlistEntry): WaitlistTarget {
+    return {
+      targetType: entry.targetType,
+      providerId: entry.providerId,
+      serviceId: entry.serviceId,
+      eventId: entry.eventId,
+      spaceId: entry.spaceId,
+      date: entry.slotDate ? storedDate(entry.slotDate) : null,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+    };
+  }
+
+  private targetKey(target: WaitlistTarget): string {
+    return target.targetType === "event"
+      ? `event:${target.eventId}`
+      : `${target.targetType}:${target.spaceId || target.providerId}:${target.date}:${target.startTime}`;
+  }
+
+  private async getPosition(entry: WaitlistEntry): Promise<number> {
+    const [result] = await db
+      .select({ ahead: sql<number>`count(*)::int` })
+      .from(waitlistEntriesTable)
+      .where(
+        and(
+          this.targetCondition(this.targetFromEntry(entry)),
+          eq(waitlistEntriesTable.status, waitlistStatus.WAITING),
+          lte(waitlistEntriesTable.createdAt, entry.createdAt)
+        )
+      );
+
+    return Math.max(1, result?.ahead ?? 1);
+  }
+
+  private async getCustomerEntry(entryId: string, customerId: string): Promise<WaitlistEntry> {
+    const [entry] = await db
+      .select()
+      .from(waitlistEntriesTable)
+      .where(
+        and(
+          eq(waitlistEntriesTable.id, entryId),
+          eq(waitlistEntriesTable.customerId, customerId)
+        )
+      )
+      .limit(1);
+
+    if (!entry) {
+      throw new WaitlistError("Waitlist entry not found", "ENTRY_NOT_FOUND");
+    }
+
+    return entry;
+  }
+}
+
+// Export singleton instance
+export const waitlistService = new WaitlistService();
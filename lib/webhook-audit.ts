@@ -99,6 +99,7 @@ export async function logDispute(dispute: {
   transactionId?: string;
   stripeDisputeId: string;
   stripeChargeId: string;
+  stripeAccountId?: string;
   amount: number;
   reason: string;
   status: string;
@@ -111,6 +112,7 @@ export async function logDispute(dispute: {
         transactionId: dispute.transactionId || null,
         stripeDisputeId: dispute.stripeDisputeId,
         stripeChargeId: dispute.stripeChargeId,
+        stripeAccountId: dispute.stripeAccountId || null,
         amount: dispute.amount.toString(),
         reason: dispute.reason,
         status: dispute.status,
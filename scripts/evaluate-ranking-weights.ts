@@ -0,0 +1,85 @@
+#!/usr/bin/env tsx
+/**
+ * Evaluate Ranking Weights Script
+ *
+ * Replays logged provider searches with each ranking weight set and prints
+ * their NDCG@k against what customers clicked and booked, next to the ranking
+ * they were actually shown. Run before starting an A/B test
+ * (SEARCH_RANKING_EXPERIMENT) with a new weight set.
+ *
+ * Usage:
+ * - npm run search:evaluate
+ * - npm run search:evaluate -- --days 14 --k 5
+ * - Only searches served by one set: npm run search:evaluate -- --served-by control
+ * - Candidate weights: npm run search:evaluate -- --weights candidates.json
+ *   (an object of named weight sets, like RANKING_WEIGHT_SETS)
+ */
+
+import { readFileSync } from 'fs';
+import chalk from 'chalk';
+import { searchAnalyticsService } from '../lib/search/search-analytics';
+import { RANKING_WEIGHT_SETS } from '../lib/search/ranking-experiments';
+import { DEFAULT_NDCG_CUTOFF, LOGGED_RANKING, evaluateWeightSets } from '../lib/search/ranking-evaluation';
+import { RANKING_WEIGHTS, type RankingWeights } from '../lib/search/ranking-engine';
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function loadCandidateWeights(file: string): Record<string, RankingWeights> {
+  const candidates = JSON.parse(readFileSync(file, 'utf-8')) as Record<string, Partial<RankingWeights>>;
+
+  return Object.fromEntries(
+    Object.entries(candidates).map(([name, weights]) => {
+      const missing = Object.keys(RANKING_WEIGHTS).filter(key => typeof weights[key as keyof RankingWeights] !== 'number');
+      if (missing.length > 0) {
+        throw new Error(`Weight set "${name}" is missing ${missing.join(', ')}`);
+      }
+      return [name, weights as RankingWeights];
+    })
+  );
+}
+
+async function main() {
+  const days = Number(argValue('days') ?? 30);
+  const k = Number(argValue('k') ?? DEFAULT_NDCG_CUTOFF);
+  const servedBy = argValue('served-by');
+  const weightsFile = argValue('weights');
+
+  const weightSets = {
+    ...RANKING_WEIGHT_SETS,
+    ...(weightsFile ? loadCandidateWeights(weightsFile) : {}),
+  };
+
+  console.log(chalk.blue(`📊 Loading searches with a click from the last ${days} days${servedBy ? ` served by ${servedBy}` : ''}...`));
+
+  const sessions = await searchAnalyticsService.loadEvaluationSessions({ days, servedBy });
+
+  if (sessions.length === 0) {
+    console.log(chalk.yellow('No searches to evaluate yet'));
+    process.exit(0);
+  }
+
+  const results = evaluateWeightSets(sessions, weightSets, k);
+  const baseline = results.find(result => result.weightSet === LOGGED_RANKING)!;
+
+  console.log(chalk.cyan(`\nNDCG@${k} over ${baseline.sessions} searches:`));
+  console.table(results.map(result => ({
+    'weight set': result.weightSet,
+    ndcg: result.ndcg.toFixed(4),
+    'vs logged': result.weightSet === LOGGED_RANKING
+      ? ''
+      : `${result.ndcg >= baseline.ndcg ? '+' : ''}${(result.ndcg - baseline.ndcg).toFixed(4)}`,
+  })));
+
+  console.log(chalk.gray('The logged ranking is favored: customers click what they see first. Confirm with an A/B test.'));
+
+  process.exit(0);
+}
+
+// Run the script
+main().catch((error) => {
+  console.error(chalk.red('Fatal error:'), error);
+  process.exit(1);
+});
@@ -3,13 +3,22 @@
  * TypeScript interfaces for booking-related API requests and responses
  */
 
-// Booking status enum
-export type BookingStatus = 
-  | "pending"
-  | "confirmed" 
+// Booking status enum (canonical states, see lib/booking-state-machine)
+export type BookingStatus =
+  | "draft"
+  | "hold"
+  | "expired"
+  | "pending_provider"
+  | "confirmed"
+  | "in_progress"
   | "completed"
-  | "cancelled"
-  | "no_show";
+  | "canceled_customer"
+  | "canceled_provider"
+  | "no_show_customer"
+  | "no_show_provider"
+  | "refunded_partial"
+  | "refunded_full"
+  | "dispute";
 
 // Base booking data
 export interface Booking {
@@ -27,6 +27,7 @@ export interface Provider {
   portfolio?: PortfolioItem[];
   socialLinks?: SocialLinks;
   stripeOnboardingComplete: boolean;
+  nextAvailableAt?: string | null; // ISO start of the next open slot
   createdAt: Date;
   updatedAt: Date;
 }
@@ -79,15 +79,20 @@ export const dateRangeSchema = z.object({
 // ============================================================================
 
 export const bookingStatusSchema = z.enum([
-  'INITIATED',
-  'PENDING_PROVIDER',
-  'ACCEPTED',
-  'REJECTED',
-  'PAYMENT_PENDING',
-  'PAYMENT_SUCCEEDED',
-  'PAYMENT_FAILED',
-  'COMPLETED',
-  'CANCELLED',
+  'draft',
+  'hold',
+  'expired',
+  'pending_provider',
+  'confirmed',
+  'in_progress',
+  'completed',
+  'canceled_customer',
+  'canceled_provider',
+  'no_show_customer',
+  'no_show_provider',
+  'refunded_partial',
+  'refunded_full',
+  'dispute',
 ]);
 
 export const bookingSchema = z.object({